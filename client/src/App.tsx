@@ -7,6 +7,7 @@ import { BrowserRouter, Routes, Route, Navigate } from "react-router-dom";
 import { AuthProvider, useAuth } from "@/contexts/AuthContext";
 import { NotificationProvider } from "@/contexts/NotificationContext";
 import { queryClient } from "@/lib/queryClient";
+import { canAccessPage, canUseSelfService, getHomePath, type ManagementPath } from "@/lib/permissions";
 
 // Pages
 import { Landing } from "./pages/Landing";
@@ -25,12 +26,15 @@ import { Tasks } from "./pages/employee/Tasks";
 import { Reports } from "./pages/employee/Reports";
 import { Settings } from "./pages/employee/Settings";
 import { ScheduleComparison } from "./pages/employee/ScheduleComparison";
+import { LeaveRequests } from "./pages/employee/LeaveRequests";
 import { NotificationsPage } from "./pages/NotificationsPage";
+import { Kiosk } from "./pages/Kiosk";
 import NotFound from "./pages/NotFound";
 import { FileUploadDemo } from "@/components/upload/FileUploadDemo";
 
-// Protected Route Component
-const ProtectedRoute = ({ children, allowedRole }: { children: React.ReactNode; allowedRole?: 'admin' | 'employee' }) => {
+// Protected Route Component - management pages follow the role permissions,
+// self-service pages are for users tracking their own time
+const ProtectedRoute = ({ children, page, selfService }: { children: React.ReactNode; page?: ManagementPath; selfService?: boolean }) => {
   const { isAuthenticated, user, isLoading } = useAuth();
   
   // Show loading while authentication is being checked
@@ -49,8 +53,8 @@ const ProtectedRoute = ({ children, allowedRole }: { children: React.ReactNode;
     return <Navigate to="/login" replace />;
   }
   
-  if (allowedRole && user?.role !== allowedRole) {
-    return <Navigate to={user?.role === 'admin' ? '/admin/dashboard' : '/employee/dashboard'} replace />;
+  if ((page && !canAccessPage(user, page)) || (selfService && !canUseSelfService(user))) {
+    return <Navigate to={getHomePath(user)} replace />;
   }
   
   return <>{children}</>;
@@ -75,79 +79,84 @@ const AppRoutes = () => {
   return (
     <Routes>
       <Route path="/" element={isAuthenticated ? 
-        <Navigate to={user?.role === 'admin' ? '/admin/dashboard' : '/employee/dashboard'} replace /> : 
+        <Navigate to={getHomePath(user)} replace /> : 
         <Landing />
       } />
       <Route path="/login" element={isAuthenticated ? 
-        <Navigate to={user?.role === 'admin' ? '/admin/dashboard' : '/employee/dashboard'} replace /> : 
+        <Navigate to={getHomePath(user)} replace /> : 
         <Login />
       } />
       
-      {/* Admin Routes */}
+      {/* Management Routes */}
       <Route path="/admin/dashboard" element={
-        <ProtectedRoute allowedRole="admin">
+        <ProtectedRoute page="/admin/dashboard">
           <AdminDashboard />
         </ProtectedRoute>
       } />
       <Route path="/admin/employees" element={
-        <ProtectedRoute allowedRole="admin">
+        <ProtectedRoute page="/admin/employees">
           <Employees />
         </ProtectedRoute>
       } />
       <Route path="/admin/planning" element={
-        <ProtectedRoute allowedRole="admin">
+        <ProtectedRoute page="/admin/planning">
           <AdminPlanning />
         </ProtectedRoute>
       } />
       <Route path="/admin/validation" element={
-        <ProtectedRoute allowedRole="admin">
+        <ProtectedRoute page="/admin/validation">
           <Validation />
         </ProtectedRoute>
       } />
       <Route path="/admin/reports" element={
-        <ProtectedRoute allowedRole="admin">
+        <ProtectedRoute page="/admin/reports">
           <AdminReports />
         </ProtectedRoute>
       } />
       <Route path="/admin/settings" element={
-        <ProtectedRoute allowedRole="admin">
+        <ProtectedRoute page="/admin/settings">
           <AdminSettings />
         </ProtectedRoute>
       } />
       
       {/* Employee Routes */}
       <Route path="/employee/dashboard" element={
-        <ProtectedRoute allowedRole="employee">
+        <ProtectedRoute selfService>
           <EmployeeDashboard />
         </ProtectedRoute>
       } />
       <Route path="/employee/planning" element={
-        <ProtectedRoute allowedRole="employee">
+        <ProtectedRoute selfService>
           <Planning />
         </ProtectedRoute>
       } />
       <Route path="/employee/time-entry" element={
-        <ProtectedRoute allowedRole="employee">
+        <ProtectedRoute selfService>
           <TimeEntry />
         </ProtectedRoute>
       } />
       <Route path="/employee/time-tracking" element={
-        <ProtectedRoute allowedRole="employee">
+        <ProtectedRoute selfService>
           <TimeTracking />
         </ProtectedRoute>
       } />
       <Route path="/employee/tasks" element={
-        <ProtectedRoute allowedRole="employee">
+        <ProtectedRoute selfService>
           <Tasks />
         </ProtectedRoute>
       } />
+      <Route path="/employee/leave-requests" element={
+        <ProtectedRoute selfService>
+          <LeaveRequests />
+        </ProtectedRoute>
+      } />
       <Route path="/employee/reports" element={
-        <ProtectedRoute allowedRole="employee">
+        <ProtectedRoute selfService>
           <Reports />
         </ProtectedRoute>
       } />
       <Route path="/employee/settings" element={
-        <ProtectedRoute allowedRole="employee">
+        <ProtectedRoute selfService>
           <Settings />
         </ProtectedRoute>
       } />
@@ -159,6 +168,9 @@ const AppRoutes = () => {
         </ProtectedRoute>
       } />
       
+      {/* Kiosk Route - shared terminal, authenticated by its device token */}
+      <Route path="/kiosk" element={<Kiosk />} />
+      
       {/* Upload Demo Route */}
       <Route path="/upload-demo" element={
         <ProtectedRoute>
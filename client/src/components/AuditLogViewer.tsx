@@ -0,0 +1,291 @@
+import React, { useState } from 'react';
+import { ChevronDown, ChevronRight, Download, ScrollText } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  useAuditLogs,
+  useDownloadAuditLogExport,
+  useEmployees,
+  type AuditLogEntry,
+  type AuditLogFilters,
+} from '@/lib/api-hooks';
+import type { AuditAction, AuditEntityType } from '@shared/schema';
+
+const ENTITY_LABELS: Record<AuditEntityType, string> = {
+  user: 'Utilisateur',
+  employee: 'Employé',
+  department: 'Département',
+  planning_entry: 'Planning',
+  time_entry: 'Saisie de temps',
+  validation: 'Validation',
+  leave_request: 'Demande de congé',
+  project: 'Projet',
+  task: 'Tâche',
+  planning_template: 'Modèle de planning',
+  work_site: 'Site',
+  kiosk_device: 'Borne',
+  time_adjustment: 'Régularisation',
+  pay_period_closure: 'Clôture de période',
+  approval_chain: "Circuit d'approbation",
+  approval_request: "Demande d'approbation",
+  approval_delegation: 'Délégation',
+  leave_balance_movement: 'Mouvement de congés',
+  setting: 'Paramètre',
+  coverage_requirement: 'Besoin de couverture',
+  planning_template_assignment: 'Affectation de modèle',
+  project_member: 'Membre de projet',
+};
+
+const ACTION_LABELS: Record<AuditAction, string> = {
+  create: 'Création',
+  update: 'Modification',
+  delete: 'Suppression',
+};
+
+const PAGE_SIZE = 50;
+
+const formatDateTime = (value: string) =>
+  new Date(value).toLocaleString('fr-FR', { dateStyle: 'short', timeStyle: 'medium' });
+
+const formatValue = (value: unknown) =>
+  value === null || value === undefined ? '—' : typeof value === 'object' ? JSON.stringify(value) : String(value);
+
+const AuditLogDiff: React.FC<{ log: AuditLogEntry }> = ({ log }) => (
+  <div className="space-y-2 text-sm">
+    <table className="w-full">
+      <thead>
+        <tr className="text-left text-muted-foreground">
+          <th className="font-medium py-1 pr-4">Champ</th>
+          <th className="font-medium py-1 pr-4">Avant</th>
+          <th className="font-medium py-1">Après</th>
+        </tr>
+      </thead>
+      <tbody>
+        {Object.entries(log.changes).map(([field, change]) => (
+          <tr key={field} className="align-top">
+            <td className="py-1 pr-4"><code>{field}</code></td>
+            <td className="py-1 pr-4 text-destructive break-all">{formatValue(change.before)}</td>
+            <td className="py-1 text-green-700 break-all">{formatValue(change.after)}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+    <p className="text-muted-foreground">
+      {log.request_method && log.request_path && <><code>{log.request_method} {log.request_path}</code> · </>}
+      {log.ip_address ?? 'IP inconnue'}
+      {log.user_agent && <> · {log.user_agent}</>}
+    </p>
+  </div>
+);
+
+export const AuditLogViewer: React.FC = () => {
+  const [filters, setFilters] = useState<AuditLogFilters>({});
+  const [page, setPage] = useState(1);
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+
+  const { data, isLoading } = useAuditLogs({ ...filters, page, limit: PAGE_SIZE });
+  const downloadExport = useDownloadAuditLogExport();
+  const { data: employeesResponse } = useEmployees({ limit: 100 });
+  // useEmployees renvoie la réponse axios complète : { data: { data: [...], pagination } }
+  const users: Array<{ userId: number; firstName: string; lastName: string }> =
+    ((employeesResponse as any)?.data?.data ?? []).filter((employee: { userId?: number }) => employee.userId);
+
+  const logs = data?.data ?? [];
+  const pagination = data?.pagination;
+
+  const updateFilter = <K extends keyof AuditLogFilters>(key: K, value: AuditLogFilters[K] | undefined) => {
+    setFilters(current => ({ ...current, [key]: value }));
+    setPage(1);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <CardTitle className="flex items-center gap-2">
+            <ScrollText className="h-5 w-5" />
+            Journal d'audit
+          </CardTitle>
+          <Button
+            variant="outline"
+            onClick={() => downloadExport.mutate(filters)}
+            disabled={downloadExport.isPending}
+          >
+            <Download className="h-4 w-4 mr-2" />
+            Exporter (CSV)
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-6 gap-4 items-end">
+          <div className="space-y-2">
+            <Label>Élément</Label>
+            <Select
+              value={filters.entity_type ?? 'all'}
+              onValueChange={value => updateFilter('entity_type', value === 'all' ? undefined : value as AuditEntityType)}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Tous les éléments</SelectItem>
+                {(Object.keys(ENTITY_LABELS) as AuditEntityType[]).map(entity => (
+                  <SelectItem key={entity} value={entity}>{ENTITY_LABELS[entity]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="auditEntityId">Identifiant</Label>
+            <Input
+              id="auditEntityId"
+              type="number"
+              min={1}
+              value={filters.entity_id ?? ''}
+              onChange={e => updateFilter('entity_id', e.target.value ? parseInt(e.target.value) : undefined)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Utilisateur</Label>
+            <Select
+              value={filters.actor_user_id?.toString() ?? 'all'}
+              onValueChange={value => updateFilter('actor_user_id', value === 'all' ? undefined : parseInt(value))}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Tous les utilisateurs</SelectItem>
+                {users.map(user => (
+                  <SelectItem key={user.userId} value={user.userId.toString()}>
+                    {user.lastName} {user.firstName}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Action</Label>
+            <Select
+              value={filters.action ?? 'all'}
+              onValueChange={value => updateFilter('action', value === 'all' ? undefined : value as AuditAction)}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Toutes les actions</SelectItem>
+                {(Object.keys(ACTION_LABELS) as AuditAction[]).map(action => (
+                  <SelectItem key={action} value={action}>{ACTION_LABELS[action]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="auditStartDate">Du</Label>
+            <Input
+              id="auditStartDate"
+              type="date"
+              value={filters.start_date ?? ''}
+              onChange={e => updateFilter('start_date', e.target.value || undefined)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="auditEndDate">Au</Label>
+            <Input
+              id="auditEndDate"
+              type="date"
+              value={filters.end_date ?? ''}
+              onChange={e => updateFilter('end_date', e.target.value || undefined)}
+            />
+          </div>
+        </div>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-8" />
+              <TableHead>Date</TableHead>
+              <TableHead>Utilisateur</TableHead>
+              <TableHead>Action</TableHead>
+              <TableHead>Élément</TableHead>
+              <TableHead>Champs modifiés</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {!isLoading && logs.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={6} className="text-center text-muted-foreground">
+                  Aucune modification enregistrée
+                </TableCell>
+              </TableRow>
+            )}
+            {logs.map(log => (
+              <React.Fragment key={log.id}>
+                <TableRow
+                  className="cursor-pointer"
+                  onClick={() => setExpandedId(expandedId === log.id ? null : log.id)}
+                >
+                  <TableCell>
+                    {expandedId === log.id ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                  </TableCell>
+                  <TableCell className="whitespace-nowrap">{formatDateTime(log.created_at)}</TableCell>
+                  <TableCell>{log.actor_name ?? (log.actor_user_id ? `Utilisateur ${log.actor_user_id}` : 'Système')}</TableCell>
+                  <TableCell>
+                    <Badge variant={log.action === 'delete' ? 'destructive' : log.action === 'create' ? 'secondary' : 'outline'}>
+                      {ACTION_LABELS[log.action]}
+                    </Badge>
+                  </TableCell>
+                  <TableCell>{ENTITY_LABELS[log.entity_type]} #{log.entity_id}</TableCell>
+                  <TableCell className="text-muted-foreground">{Object.keys(log.changes).join(', ')}</TableCell>
+                </TableRow>
+                {expandedId === log.id && (
+                  <TableRow>
+                    <TableCell />
+                    <TableCell colSpan={5}>
+                      <AuditLogDiff log={log} />
+                    </TableCell>
+                  </TableRow>
+                )}
+              </React.Fragment>
+            ))}
+          </TableBody>
+        </Table>
+
+        {pagination && pagination.totalPages > 1 && (
+          <div className="flex items-center justify-between text-sm">
+            <span className="text-muted-foreground">
+              {pagination.total} modification{pagination.total > 1 ? 's' : ''} · page {pagination.page} sur {pagination.totalPages}
+            </span>
+            <div className="flex gap-2">
+              <Button variant="outline" size="sm" onClick={() => setPage(page - 1)} disabled={!pagination.hasPrev}>
+                Précédent
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => setPage(page + 1)} disabled={!pagination.hasNext}>
+                Suivant
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,239 @@
+import React, { useState } from 'react';
+import { KeyRound, Monitor, RefreshCw, Trash2 } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  useKiosks,
+  useCreateKiosk,
+  useUpdateKiosk,
+  useRegenerateKioskToken,
+  useDeleteKiosk,
+  useKioskCredentials,
+  useUpdateKioskCredentials,
+  useDepartments,
+} from '@/lib/api-hooks';
+
+export const KioskSettings: React.FC = () => {
+  const { data: kiosks = [] } = useKiosks();
+  const { data: credentials = [] } = useKioskCredentials();
+  const { data: departments = [] } = useDepartments();
+  const createKiosk = useCreateKiosk();
+  const updateKiosk = useUpdateKiosk();
+  const regenerateToken = useRegenerateKioskToken();
+  const deleteKiosk = useDeleteKiosk();
+  const updateCredentials = useUpdateKioskCredentials();
+
+  const [name, setName] = useState('');
+  const [departmentId, setDepartmentId] = useState('all');
+  // Token of the last registered or regenerated kiosk, shown once
+  const [issuedToken, setIssuedToken] = useState<{ name: string; token: string } | null>(null);
+  const [employeeId, setEmployeeId] = useState('');
+  const [pin, setPin] = useState('');
+  const [badgeCode, setBadgeCode] = useState('');
+
+  const handleCreate = async () => {
+    const kiosk = await createKiosk.mutateAsync({
+      name: name.trim(),
+      department_id: departmentId === 'all' ? null : parseInt(departmentId),
+    });
+    setIssuedToken({ name: kiosk.name, token: kiosk.token });
+    setName('');
+  };
+
+  const handleRegenerate = async (id: number) => {
+    const kiosk = await regenerateToken.mutateAsync(id);
+    setIssuedToken({ name: kiosk.name, token: kiosk.token });
+  };
+
+  const handleSaveCredentials = async () => {
+    await updateCredentials.mutateAsync({
+      employeeId: parseInt(employeeId),
+      ...(pin && { pin }),
+      ...(badgeCode && { badge_code: badgeCode.trim() }),
+    });
+    setPin('');
+    setBadgeCode('');
+  };
+
+  const departmentName = (id: number | null) =>
+    id ? departments.find(d => d.id === id)?.name ?? `Service #${id}` : 'Tous les services';
+
+  return (
+    <>
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Monitor className="h-5 w-5" />
+            Bornes de pointage
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <p className="text-sm text-muted-foreground">
+            Une borne est une tablette partagée ouverte sur la page /kiosk. Elle s'active avec un jeton
+            affiché une seule fois lors de son enregistrement.
+          </p>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+            <div className="space-y-2">
+              <Label htmlFor="kioskName">Nom de la borne</Label>
+              <Input
+                id="kioskName"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Accueil atelier"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Service</Label>
+              <Select value={departmentId} onValueChange={setDepartmentId}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Tous les services</SelectItem>
+                  {departments.map(department => (
+                    <SelectItem key={department.id} value={department.id.toString()}>
+                      {department.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button onClick={handleCreate} disabled={!name.trim() || createKiosk.isPending}>
+              Enregistrer la borne
+            </Button>
+          </div>
+
+          {issuedToken && (
+            <div className="rounded-lg border border-orange-300 bg-orange-50 p-4 space-y-2">
+              <p className="text-sm font-medium">Jeton de « {issuedToken.name} »</p>
+              <code className="block break-all text-sm">{issuedToken.token}</code>
+              <p className="text-xs text-muted-foreground">
+                Copiez ce jeton sur la borne maintenant : il ne sera plus affiché.
+              </p>
+              <Button size="sm" variant="outline" onClick={() => setIssuedToken(null)}>
+                J'ai copié le jeton
+              </Button>
+            </div>
+          )}
+
+          <div className="space-y-3">
+            {kiosks.length === 0 && (
+              <p className="text-sm text-muted-foreground">Aucune borne enregistrée</p>
+            )}
+            {kiosks.map(kiosk => (
+              <div key={kiosk.id} className="flex items-center justify-between border rounded-lg p-3">
+                <div className="space-y-0.5">
+                  <p className="font-medium">{kiosk.name}</p>
+                  <p className="text-sm text-muted-foreground">
+                    {departmentName(kiosk.department_id)} · {kiosk.last_seen_at
+                      ? `Vue le ${new Date(kiosk.last_seen_at).toLocaleString('fr-FR')}`
+                      : 'Jamais connectée'}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Switch
+                    checked={kiosk.is_active}
+                    onCheckedChange={(checked) => updateKiosk.mutate({ id: kiosk.id, is_active: checked })}
+                    aria-label="Borne active"
+                  />
+                  <Button size="icon" variant="ghost" onClick={() => handleRegenerate(kiosk.id)} aria-label="Nouveau jeton">
+                    <RefreshCw className="h-4 w-4" />
+                  </Button>
+                  <Button size="icon" variant="ghost" onClick={() => deleteKiosk.mutate(kiosk.id)} aria-label="Supprimer">
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <KeyRound className="h-5 w-5" />
+            Identifiants des employés
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+            <div className="space-y-2">
+              <Label>Employé</Label>
+              <Select value={employeeId} onValueChange={setEmployeeId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Choisir un employé" />
+                </SelectTrigger>
+                <SelectContent>
+                  {credentials.map(employee => (
+                    <SelectItem key={employee.employeeId} value={employee.employeeId.toString()}>
+                      {employee.lastName} {employee.firstName}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="kioskPin">Code PIN (4 à 8 chiffres)</Label>
+              <Input
+                id="kioskPin"
+                type="password"
+                inputMode="numeric"
+                value={pin}
+                onChange={(e) => setPin(e.target.value.replace(/\D/g, '').slice(0, 8))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="badgeCode">Code badge / QR</Label>
+              <Input
+                id="badgeCode"
+                value={badgeCode}
+                onChange={(e) => setBadgeCode(e.target.value)}
+              />
+            </div>
+            <Button
+              onClick={handleSaveCredentials}
+              disabled={!employeeId || (pin.length < 4 && badgeCode.trim().length < 4) || updateCredentials.isPending}
+            >
+              Enregistrer
+            </Button>
+          </div>
+
+          <div className="space-y-2">
+            {credentials.filter(employee => employee.hasPin || employee.badgeCode).map(employee => (
+              <div key={employee.employeeId} className="flex items-center justify-between text-sm border-b pb-2">
+                <span>
+                  {employee.lastName} {employee.firstName}
+                  {employee.employeeNumber && <span className="text-muted-foreground"> · {employee.employeeNumber}</span>}
+                </span>
+                <div className="flex items-center gap-2">
+                  {employee.hasPin && <Badge variant="outline">PIN</Badge>}
+                  {employee.badgeCode && <Badge variant="outline">Badge</Badge>}
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => updateCredentials.mutate({ employeeId: employee.employeeId, pin: null, badge_code: null })}
+                  >
+                    Retirer
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+    </>
+  );
+};
@@ -49,6 +49,8 @@ export function NotificationDropdown() {
         return '⏰';
       case 'overtime_alert':
         return '⚠️';
+      case 'leave_request':
+        return '🌴';
       default:
         return '🔔';
     }
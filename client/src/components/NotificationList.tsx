@@ -122,6 +122,8 @@ export function NotificationList({ showHeader = true, maxHeight = '600px' }: Not
         return '⏰';
       case 'overtime_alert':
         return '⚠️';
+      case 'leave_request':
+        return '🌴';
       default:
         return '🔔';
     }
@@ -159,6 +161,8 @@ export function NotificationList({ showHeader = true, maxHeight = '600px' }: Not
         return 'Temps manquant';
       case 'overtime_alert':
         return 'Alerte heures sup.';
+      case 'leave_request':
+        return 'Demande de congé';
       default:
         return 'Notification';
     }
@@ -254,6 +258,7 @@ export function NotificationList({ showHeader = true, maxHeight = '600px' }: Not
                 <SelectItem value="validation_required">Validation requise</SelectItem>
                 <SelectItem value="time_missing">Temps manquant</SelectItem>
                 <SelectItem value="overtime_alert">Heures supplémentaires</SelectItem>
+                <SelectItem value="leave_request">Demandes de congé</SelectItem>
               </SelectContent>
             </Select>
             
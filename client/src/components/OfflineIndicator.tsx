@@ -8,31 +8,13 @@ import {
   AlertTriangle,
   X 
 } from 'lucide-react';
-// Mock sync manager for demo
-const mockSyncManager = {
-  addToQueue: async () => {},
-  forceSync: async () => {},
-  addStatusListener: (callback: any) => {
-    // Simulate status updates
-    callback({
-      isOnline: navigator.onLine,
-      isSyncing: false,
-      queueCount: 0
-    });
-    return () => {};
-  }
-};
-
-export interface SyncStatus {
-  isOnline: boolean;
-  isSyncing: boolean;
-  queueCount: number;
-  lastSyncTime?: number;
-  error?: string;
-}
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { useToast } from '@/hooks/use-toast';
+import { syncManager, type SyncStatus } from '@/lib/offlineSync';
+import { SyncConflictDialog } from '@/components/SyncConflictDialog';
+
+export type { SyncStatus };
 
 interface OfflineIndicatorProps {
   className?: string;
@@ -46,15 +28,17 @@ export const OfflineIndicator: React.FC<OfflineIndicatorProps> = ({
   const [syncStatus, setSyncStatus] = useState<SyncStatus>({
     isOnline: navigator.onLine,
     isSyncing: false,
-    queueCount: 0
+    queueCount: 0,
+    conflictCount: 0
   });
+  const [showConflicts, setShowConflicts] = useState(false);
   const [showTooltip, setShowTooltip] = useState(false);
   const [lastSyncMessage, setLastSyncMessage] = useState<string | null>(null);
   const { toast } = useToast();
 
   useEffect(() => {
     // Subscribe to sync status updates  
-    const unsubscribe = mockSyncManager.addStatusListener((status: SyncStatus) => {
+    const unsubscribe = syncManager.addStatusListener((status: SyncStatus) => {
       setSyncStatus(prevStatus => {
         const wasOffline = !prevStatus.isOnline;
         const wasQueueEmpty = prevStatus.queueCount === 0;
@@ -80,8 +64,17 @@ export const OfflineIndicator: React.FC<OfflineIndicatorProps> = ({
           });
         }
 
+        // Conflicts need the user's decision
+        if (status.conflictCount > prevStatus.conflictCount) {
+          toast({
+            title: "Conflits de synchronisation",
+            description: `${status.conflictCount} action(s) hors ligne à vérifier`,
+            variant: "destructive",
+          });
+        }
+
         // Show error messages
-        if (status.error) {
+        if (status.error && status.error !== prevStatus.error) {
           toast({
             title: "Erreur de synchronisation",
             description: status.error,
@@ -98,7 +91,7 @@ export const OfflineIndicator: React.FC<OfflineIndicatorProps> = ({
 
   const handleForceSync = async () => {
     try {
-      await mockSyncManager.forceSync();
+      await syncManager.forceSync();
     } catch (error) {
       toast({
         title: "Erreur",
@@ -110,6 +103,7 @@ export const OfflineIndicator: React.FC<OfflineIndicatorProps> = ({
 
   const getStatusColor = () => {
     if (!syncStatus.isOnline) return 'text-red-500';
+    if (syncStatus.conflictCount > 0) return 'text-orange-500';
     if (syncStatus.isSyncing) return 'text-blue-500';
     if (syncStatus.queueCount > 0) return 'text-yellow-500';
     return 'text-green-500';
@@ -122,6 +116,9 @@ export const OfflineIndicator: React.FC<OfflineIndicatorProps> = ({
     if (syncStatus.isSyncing) {
       return <RefreshCw className="h-4 w-4 animate-spin" />;
     }
+    if (syncStatus.conflictCount > 0) {
+      return <AlertTriangle className="h-4 w-4" />;
+    }
     if (syncStatus.queueCount > 0) {
       return <Clock className="h-4 w-4" />;
     }
@@ -131,6 +128,7 @@ export const OfflineIndicator: React.FC<OfflineIndicatorProps> = ({
   const getStatusText = () => {
     if (!syncStatus.isOnline) return 'Hors ligne';
     if (syncStatus.isSyncing) return 'Synchronisation...';
+    if (syncStatus.conflictCount > 0) return `${syncStatus.conflictCount} conflit(s)`;
     if (syncStatus.queueCount > 0) return `${syncStatus.queueCount} en attente`;
     return 'En ligne';
   };
@@ -142,6 +140,9 @@ export const OfflineIndicator: React.FC<OfflineIndicatorProps> = ({
     if (syncStatus.isSyncing) {
       return 'Synchronisation des actions en cours...';
     }
+    if (syncStatus.conflictCount > 0) {
+      return `${syncStatus.conflictCount} action(s) en conflit avec les données du serveur.`;
+    }
     if (syncStatus.queueCount > 0) {
       return `${syncStatus.queueCount} action(s) en attente de synchronisation.`;
     }
@@ -193,6 +194,20 @@ export const OfflineIndicator: React.FC<OfflineIndicatorProps> = ({
           </div>
         )}
 
+        {syncStatus.conflictCount > 0 && (
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => setShowConflicts(true)}
+            className="flex items-center gap-1 text-orange-700"
+          >
+            <AlertTriangle className="h-3 w-3" />
+            Résoudre les conflits
+          </Button>
+        )}
+
+        <SyncConflictDialog open={showConflicts} onOpenChange={setShowConflicts} />
+
         {!syncStatus.isOnline && (
           <div className="flex items-center gap-2 p-2 bg-orange-50 rounded-lg">
             <AlertTriangle className="h-4 w-4 text-orange-500" />
@@ -217,12 +232,12 @@ export const OfflineIndicator: React.FC<OfflineIndicatorProps> = ({
           {getStatusIcon()}
         </div>
         
-        {syncStatus.queueCount > 0 && (
+        {syncStatus.queueCount + syncStatus.conflictCount > 0 && (
           <Badge 
             variant="destructive" 
             className="absolute -top-1 -right-1 h-5 w-5 p-0 flex items-center justify-center text-xs"
           >
-            {syncStatus.queueCount > 99 ? '99+' : syncStatus.queueCount}
+            {syncStatus.queueCount + syncStatus.conflictCount > 99 ? '99+' : syncStatus.queueCount + syncStatus.conflictCount}
           </Badge>
         )}
 
@@ -251,6 +266,18 @@ export const OfflineIndicator: React.FC<OfflineIndicatorProps> = ({
                 Synchroniser
               </Button>
             )}
+
+            {syncStatus.conflictCount > 0 && (
+              <Button 
+                size="sm" 
+                variant="outline"
+                onClick={() => setShowConflicts(true)}
+                className="mt-2 w-full bg-white text-black hover:bg-gray-100"
+              >
+                <AlertTriangle className="h-3 w-3 mr-1" />
+                Résoudre les conflits
+              </Button>
+            )}
             
             {/* Arrow */}
             <div className="absolute -top-1 right-4 w-2 h-2 bg-black transform rotate-45"></div>
@@ -258,6 +285,8 @@ export const OfflineIndicator: React.FC<OfflineIndicatorProps> = ({
         )}
       </div>
 
+      <SyncConflictDialog open={showConflicts} onOpenChange={setShowConflicts} />
+
       {/* Sync animation */}
       {syncStatus.isSyncing && (
         <div className="flex items-center gap-1 text-sm text-blue-600">
@@ -277,24 +306,14 @@ export const useOfflineStatus = () => {
   const [syncStatus, setSyncStatus] = useState<SyncStatus>({
     isOnline: navigator.onLine,
     isSyncing: false,
-    queueCount: 0
+    queueCount: 0,
+    conflictCount: 0
   });
 
-  useEffect(() => {
-    const handleOnline = () => setSyncStatus(prev => ({ ...prev, isOnline: true }));
-    const handleOffline = () => setSyncStatus(prev => ({ ...prev, isOnline: false }));
-    
-    window.addEventListener('online', handleOnline);
-    window.addEventListener('offline', handleOffline);
-    
-    return () => {
-      window.removeEventListener('online', handleOnline);
-      window.removeEventListener('offline', handleOffline);
-    };
-  }, []);
+  useEffect(() => syncManager.addStatusListener(setSyncStatus), []);
 
   return {
     ...syncStatus,
-    syncManager: mockSyncManager
+    syncManager
   };
 };
\ No newline at end of file
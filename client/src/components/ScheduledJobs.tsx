@@ -0,0 +1,108 @@
+import React, { useState } from 'react';
+import { History, Play, Timer } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { useScheduledJobs, useJobRuns, useRunJob, type JobRun } from '@/lib/api-hooks';
+
+const STATUS_LABELS: Record<JobRun['status'], string> = {
+  running: 'En cours',
+  succeeded: 'Réussie',
+  failed: 'Échec',
+};
+
+const formatDateTime = (value: string | null) =>
+  value ? new Date(value).toLocaleString('fr-FR', { dateStyle: 'short', timeStyle: 'short' }) : '—';
+
+const RunStatusBadge: React.FC<{ run: JobRun }> = ({ run }) => (
+  <Badge variant={run.status === 'failed' ? 'destructive' : run.status === 'running' ? 'secondary' : 'outline'}>
+    {STATUS_LABELS[run.status]}
+  </Badge>
+);
+
+export const ScheduledJobs: React.FC = () => {
+  const { data: jobs = [] } = useScheduledJobs();
+  const runJob = useRunJob();
+  const [selectedJob, setSelectedJob] = useState<string | null>(null);
+  const { data: runs = [] } = useJobRuns(selectedJob);
+
+  return (
+    <>
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Timer className="h-5 w-5" />
+            Tâches planifiées
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <p className="text-sm text-muted-foreground">
+            Les horaires sont exprimés au format cron, dans le fuseau horaire de l'entreprise.
+          </p>
+          {jobs.map(job => (
+            <div key={job.name} className="flex items-center justify-between border rounded-lg p-3 gap-4">
+              <div className="space-y-0.5 min-w-0">
+                <p className="font-medium">{job.description}</p>
+                <p className="text-sm text-muted-foreground">
+                  <code>{job.cron}</code> · Prochaine exécution : {formatDateTime(job.nextRunAt)}
+                </p>
+                <p className="text-sm text-muted-foreground flex items-center gap-2">
+                  Dernière exécution : {formatDateTime(job.lastRun?.started_at ?? null)}
+                  {job.lastRun && <RunStatusBadge run={job.lastRun} />}
+                </p>
+              </div>
+              <div className="flex items-center gap-2 shrink-0">
+                <Button size="icon" variant="ghost" onClick={() => setSelectedJob(job.name)} aria-label="Historique">
+                  <History className="h-4 w-4" />
+                </Button>
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  onClick={() => runJob.mutate(job.name)}
+                  disabled={job.running || runJob.isPending}
+                  aria-label="Exécuter maintenant"
+                >
+                  <Play className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+
+      {selectedJob && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <History className="h-5 w-5" />
+              Historique · {jobs.find(job => job.name === selectedJob)?.description ?? selectedJob}
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {runs.length === 0 && (
+              <p className="text-sm text-muted-foreground">Aucune exécution enregistrée</p>
+            )}
+            {runs.map(run => (
+              <div key={run.id} className="flex items-start justify-between text-sm border-b pb-2 gap-4">
+                <div className="space-y-0.5 min-w-0">
+                  <p>
+                    {formatDateTime(run.started_at)}
+                    {run.trigger === 'manual' && <span className="text-muted-foreground"> · manuelle</span>}
+                    {run.duration_ms !== null && <span className="text-muted-foreground"> · {run.duration_ms} ms</span>}
+                  </p>
+                  {run.error && <p className="text-destructive break-words">{run.error}</p>}
+                  {run.result && (
+                    <p className="text-muted-foreground break-words">
+                      {Object.entries(run.result).map(([key, value]) => `${key} : ${String(value)}`).join(' · ')}
+                    </p>
+                  )}
+                </div>
+                <RunStatusBadge run={run} />
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+    </>
+  );
+};
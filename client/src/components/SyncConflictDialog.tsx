@@ -0,0 +1,138 @@
+import React, { useEffect, useState } from 'react';
+import { AlertTriangle } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { useToast } from '@/hooks/use-toast';
+import {
+  syncManager,
+  type QueuedMutation,
+  type SyncConflictReason,
+  type SyncMutationType,
+} from '@/lib/offlineSync';
+
+const REASON_LABELS: Record<SyncConflictReason, string> = {
+  ENTRY_NOT_FOUND: "L'entrée a été supprimée entre-temps",
+  ENTRY_MODIFIED: "L'entrée a été modifiée par un responsable entre-temps",
+  PERIOD_CLOSED: 'La période de paie est clôturée',
+  PERIOD_VALIDATED: 'La semaine a déjà été validée',
+  TIME_ENTRY_OVERLAP: 'Chevauchement avec une autre entrée',
+  OUTSIDE_WORK_SITE: 'Pointage hors du site de travail',
+  ALREADY_CLOCKED_IN: 'Un pointage était déjà en cours',
+  NOT_CLOCKED_IN: "Aucun pointage d'entrée en cours",
+  BREAK_ALREADY_STARTED: 'Une pause était déjà en cours',
+  NO_BREAK_IN_PROGRESS: 'Aucune pause en cours',
+  OUT_OF_SEQUENCE: 'Pointage antérieur au précédent',
+};
+
+const TYPE_LABELS: Record<SyncMutationType, string> = {
+  clock_in: "Pointage d'entrée",
+  break_start: 'Début de pause',
+  break_end: 'Fin de pause',
+  clock_out: 'Pointage de sortie',
+  time_entry_create: "Création d'entrée",
+  time_entry_update: "Modification d'entrée",
+  time_entry_delete: "Suppression d'entrée",
+};
+
+const describeEntry = (entry?: Record<string, any> | null) => {
+  if (!entry) return '—';
+  const hours = [entry.start_time, entry.end_time].filter(Boolean).join(' - ');
+  return [entry.date, hours, entry.description].filter(Boolean).join(' · ') || '—';
+};
+
+interface SyncConflictDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export const SyncConflictDialog: React.FC<SyncConflictDialogProps> = ({ open, onOpenChange }) => {
+  const [conflicts, setConflicts] = useState<QueuedMutation[]>([]);
+  const { toast } = useToast();
+
+  const loadConflicts = async () => {
+    const items = await syncManager.getConflicts();
+    setConflicts(items);
+    if (items.length === 0) onOpenChange(false);
+  };
+
+  useEffect(() => {
+    if (open) loadConflicts();
+  }, [open]);
+
+  const handleResolve = async (item: QueuedMutation, resolution: 'discard' | 'overwrite') => {
+    try {
+      await syncManager.resolveConflict(item, resolution);
+      await loadConflicts();
+    } catch (error) {
+      toast({
+        title: "Erreur",
+        description: "Impossible de résoudre le conflit",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <AlertTriangle className="h-5 w-5 text-orange-500" />
+            Conflits de synchronisation
+          </DialogTitle>
+          <DialogDescription>
+            Ces actions hors ligne n'ont pas pu être appliquées. Choisissez la version à conserver.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          {conflicts.map(item => (
+            <div key={item.client_id} className="border rounded-lg p-3 space-y-2">
+              <div className="flex items-center justify-between">
+                <span className="font-medium">{TYPE_LABELS[item.type]}</span>
+                <span className="text-xs text-gray-500">
+                  {new Date(item.client_timestamp).toLocaleString('fr-FR')}
+                </span>
+              </div>
+
+              <Badge variant="outline" className="text-orange-700 border-orange-300">
+                {item.conflict ? REASON_LABELS[item.conflict.reason] : item.error}
+              </Badge>
+
+              {item.conflict?.serverEntry !== undefined && item.type.startsWith('time_entry') && (
+                <div className="grid grid-cols-2 gap-2 text-sm">
+                  <div>
+                    <p className="text-xs text-gray-500">Ma version</p>
+                    <p>{describeEntry(item.data)}</p>
+                  </div>
+                  <div>
+                    <p className="text-xs text-gray-500">Version serveur</p>
+                    <p>{describeEntry(item.conflict.serverEntry)}</p>
+                  </div>
+                </div>
+              )}
+
+              <div className="flex justify-end gap-2">
+                <Button size="sm" variant="outline" onClick={() => handleResolve(item, 'discard')}>
+                  Conserver la version serveur
+                </Button>
+                {item.conflict?.resolvable && (
+                  <Button size="sm" onClick={() => handleResolve(item, 'overwrite')}>
+                    Écraser avec ma version
+                  </Button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
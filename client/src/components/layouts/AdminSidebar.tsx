@@ -8,12 +8,14 @@ import {
   CheckCircle, 
   BarChart3, 
   Settings, 
-  LogOut
+  LogOut,
+  User
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { useAuth } from '@/contexts/AuthContext';
 import { useToast } from '@/hooks/use-toast';
 import { NotificationDropdown } from '@/components/NotificationDropdown';
+import { ROLE_LABELS, canAccessPage, canUseSelfService, type ManagementPath } from '@/lib/permissions';
 
 export const AdminSidebar: React.FC = () => {
   const navigate = useNavigate();
@@ -30,7 +32,7 @@ export const AdminSidebar: React.FC = () => {
     navigate('/');
   };
 
-  const adminMenuItems = [
+  const adminMenuItems: Array<{ icon: typeof Home; label: string; path: ManagementPath; key: string }> = [
     { 
       icon: Home, 
       label: 'Dashboard', 
@@ -69,6 +71,8 @@ export const AdminSidebar: React.FC = () => {
     }
   ];
 
+  const menuItems = adminMenuItems.filter(item => canAccessPage(user, item.path));
+
   const isActiveRoute = (path: string) => {
     return location.pathname === path;
   };
@@ -99,7 +103,7 @@ export const AdminSidebar: React.FC = () => {
               <p className="text-sm font-medium text-foreground">
                 {user?.employee ? `${user.employee.firstName} ${user.employee.lastName}` : user?.username || 'Administrateur'}
               </p>
-              <p className="text-xs text-muted-foreground">Admin</p>
+              <p className="text-xs text-muted-foreground">{user ? ROLE_LABELS[user.role] : 'Admin'}</p>
             </div>
           </div>
         </div>
@@ -107,7 +111,7 @@ export const AdminSidebar: React.FC = () => {
         {/* Navigation */}
         <nav className="flex-1 p-4">
           <ul className="space-y-2">
-            {adminMenuItems.map((item) => (
+            {menuItems.map((item) => (
               <li key={item.key}>
                 <Button
                   variant={isActiveRoute(item.path) ? "secondary" : "ghost"}
@@ -120,6 +124,20 @@ export const AdminSidebar: React.FC = () => {
               </li>
             ))}
           </ul>
+
+          {canUseSelfService(user) && (
+            <>
+              <div className="border-t border-border my-4"></div>
+              <Button
+                variant="ghost"
+                className="w-full justify-start"
+                onClick={() => navigate('/employee/dashboard')}
+              >
+                <User className="h-4 w-4 mr-2" />
+                Mon espace
+              </Button>
+            </>
+          )}
         </nav>
 
         {/* Logout */}
@@ -11,12 +11,15 @@ import {
   Menu,
   X,
   CheckSquare,
-  Timer
+  Timer,
+  CalendarDays,
+  Briefcase
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { useAuth } from '@/contexts/AuthContext';
 import { useToast } from '@/hooks/use-toast';
 import { NotificationDropdown } from '@/components/NotificationDropdown';
+import { ROLE_LABELS, getManagementHomePath } from '@/lib/permissions';
 
 interface DashboardLayoutProps {
   children: React.ReactNode;
@@ -69,6 +72,12 @@ export const DashboardLayout: React.FC<DashboardLayoutProps> = ({ children }) =>
       path: '/employee/tasks',
       key: 'tasks'
     },
+    { 
+      icon: CalendarDays, 
+      label: 'Congés', 
+      path: '/employee/leave-requests',
+      key: 'leave-requests'
+    },
     { 
       icon: BarChart3, 
       label: 'Rapports', 
@@ -83,6 +92,8 @@ export const DashboardLayout: React.FC<DashboardLayoutProps> = ({ children }) =>
     }
   ];
 
+  const managementPath = getManagementHomePath(user);
+
   const isActiveRoute = (path: string) => {
     return location.pathname === path;
   };
@@ -138,7 +149,7 @@ export const DashboardLayout: React.FC<DashboardLayoutProps> = ({ children }) =>
                 <p className="text-sm font-medium text-foreground">
                   {user?.employee ? `${user.employee.firstName} ${user.employee.lastName}` : user?.username || 'Utilisateur'}
                 </p>
-                <p className="text-xs text-muted-foreground">Employé</p>
+                <p className="text-xs text-muted-foreground">{user ? ROLE_LABELS[user.role] : 'Employé'}</p>
               </div>
             </div>
           </div>
@@ -162,6 +173,20 @@ export const DashboardLayout: React.FC<DashboardLayoutProps> = ({ children }) =>
                 </li>
               ))}
             </ul>
+
+            {managementPath && (
+              <>
+                <div className="border-t border-border my-4"></div>
+                <Button
+                  variant="ghost"
+                  className="w-full justify-start"
+                  onClick={() => navigate(managementPath)}
+                >
+                  <Briefcase className="h-4 w-4 mr-2" />
+                  Gestion
+                </Button>
+              </>
+            )}
           </nav>
 
           {/* Logout */}
@@ -8,10 +8,12 @@ import {
   LayoutDashboard,
   LogOut,
   Settings,
-  GitCompare
+  GitCompare,
+  Briefcase
 } from 'lucide-react';
 import { useAuth } from '@/contexts/AuthContext';
 import { Button } from '@/components/ui/button';
+import { getManagementHomePath } from '@/lib/permissions';
 
 const navigation = [
   { name: 'Dashboard', href: '/employee/dashboard', icon: LayoutDashboard },
@@ -26,7 +28,8 @@ const secondaryNavigation = [
 ];
 
 export const Sidebar: React.FC = () => {
-  const { logout } = useAuth();
+  const { user, logout } = useAuth();
+  const managementPath = getManagementHomePath(user);
 
   return (
     <div className="fixed inset-y-0 left-0 z-50 w-64 bg-sidebar border-r border-sidebar-border">
@@ -78,6 +81,16 @@ export const Sidebar: React.FC = () => {
             {item.name}
           </NavLink>
         ))}
+
+        {managementPath && (
+          <NavLink
+            to={managementPath}
+            className="group flex items-center px-3 py-2 text-sm font-medium rounded-lg transition-colors text-sidebar-foreground hover:bg-sidebar-accent hover:text-sidebar-accent-foreground"
+          >
+            <Briefcase className="mr-3 h-5 w-5" />
+            Gestion
+          </NavLink>
+        )}
       </nav>
 
       {/* Logout button */}
@@ -7,6 +7,7 @@ import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { UploadButton } from '@/components/ui/upload-button';
 import { useUpload, useRobustUpload } from '@/hooks/useUpload';
 import { useAuth } from '@/contexts/AuthContext';
+import { hasPermission } from '@shared/permissions';
 import { 
   Upload, 
   User, 
@@ -213,8 +214,8 @@ export const FileUploadDemo: React.FC = () => {
         </CardContent>
       </Card>
 
-      {/* Logo Section (Admin Only) */}
-      {user?.role === 'admin' && (
+      {/* Logo Section (Settings managers only) */}
+      {user && hasPermission(user.role, 'settings:manage', 'all') && (
         <Card>
           <CardHeader>
             <CardTitle className="flex items-center gap-2">
@@ -1,7 +1,10 @@
 import React, { createContext, useContext, useState, ReactNode, useEffect } from 'react';
 import { authAPI, tokenManager, handleApiError } from '@/lib/api';
+import { disablePushNotifications } from '@/lib/pushNotifications';
+import { syncManager } from '@/lib/offlineSync';
+import type { UserRole } from '@shared/permissions';
 
-export type UserRole = 'admin' | 'employee';
+export type { UserRole };
 
 export interface User {
   id: number;
@@ -78,6 +81,11 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     initializeAuth();
   }, []);
 
+  // Offline changes are queued and replayed for the signed-in user only
+  useEffect(() => {
+    syncManager.setUser(user?.id ?? null).catch(error => console.warn('Offline queue unavailable:', error));
+  }, [user?.id]);
+
   // Listen for token expiration events
   useEffect(() => {
     const handleTokenExpired = () => {
@@ -130,6 +138,9 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   const logout = async (): Promise<void> => {
     try {
       setIsLoading(true);
+      // While the token is still valid: the next user of this browser must not
+      // receive this account's push notifications
+      await disablePushNotifications().catch(error => console.warn('Push unsubscribe failed:', error));
       await authAPI.logout();
     } catch (error) {
       console.warn('Logout API call failed:', error);
@@ -8,6 +8,7 @@ interface NotificationContextType {
   notifications: Notification[];
   unreadCount: number;
   isConnected: boolean;
+  socket: Socket | null; // Shared with the live planning board
   markAsRead: (notificationId: number) => void;
   markAllAsRead: () => void;
   deleteNotification: (notificationId: number) => void;
@@ -70,12 +71,14 @@ export function NotificationProvider({ children }: NotificationProviderProps) {
       setIsConnected(false);
     });
 
-    // Notification event handlers
-    socketInstance.on('new_notification', (notification: Notification) => {
+    // Notification event handlers. The acknowledgement tells the server the
+    // notification reached a device; unacknowledged ones are replayed on reconnect.
+    socketInstance.on('new_notification', (notification: Notification, ack?: () => void) => {
       console.log('🔔 New notification received:', notification);
+      ack?.();
       
       // Add to notifications list
-      setNotifications(prev => [notification, ...prev]);
+      setNotifications(prev => [notification, ...prev.filter(n => n.id !== notification.id)]);
       
       // Show toast notification
       toast.success(notification.title, {
@@ -93,6 +96,15 @@ export function NotificationProvider({ children }: NotificationProviderProps) {
       }
     });
 
+    // Notifications sent while no device was connected, oldest first
+    socketInstance.on('missed_notifications', (missed: Notification[], ack?: () => void) => {
+      ack?.();
+
+      const missedIds = new Set(missed.map(n => n.id));
+      setNotifications(prev => [...missed.slice().reverse(), ...prev.filter(n => !missedIds.has(n.id))]);
+      toast.info(`${missed.length} notification(s) reçue(s) pendant votre absence`);
+    });
+
     socketInstance.on('unread_count_updated', ({ count }: { count: number }) => {
       setUnreadCount(count);
     });
@@ -239,6 +251,7 @@ export function NotificationProvider({ children }: NotificationProviderProps) {
     notifications,
     unreadCount,
     isConnected,
+    socket,
     markAsRead,
     markAllAsRead,
     deleteNotification,
@@ -28,17 +28,31 @@ export interface NotificationFilters {
   search?: string;
 }
 
+export type NotificationType =
+  | 'task_assigned'
+  | 'planning_modified'
+  | 'validation_required'
+  | 'time_missing'
+  | 'overtime_alert'
+  | 'schedule_conflict'
+  | 'system_update'
+  | 'reminder'
+  | 'leave_request';
+
+export interface NotificationChannels {
+  in_app: boolean;
+  email: boolean;
+  push: boolean;
+}
+
 export interface NotificationPreferences {
-  emailNotifications: boolean;
-  pushNotifications: boolean;
-  inAppNotifications: boolean;
-  digestFrequency: 'immediate' | 'daily' | 'weekly' | 'never';
-  types: {
-    info: boolean;
-    warning: boolean;
-    error: boolean;
-    success: boolean;
-  };
+  types: Partial<Record<NotificationType, Partial<NotificationChannels>>>;
+  quiet_hours: { start: string; end: string } | null;
+  digest_frequency: 'none' | 'daily' | 'weekly';
+  language: 'fr' | 'en'; // Language of notification emails
+  timezone: string | null; // Quiet hours and digests; null uses the company time zone
+  // Effective channels per type (user choices over the defaults), read-only
+  channels?: Record<NotificationType, NotificationChannels>;
 }
 
 interface UseNotificationsReturn {
@@ -67,16 +81,11 @@ export function useNotifications(): UseNotificationsReturn {
   const [unreadCount, setUnreadCount] = useState(0);
   const [filters, setFiltersState] = useState<NotificationFilters>({});
   const [preferences, setPreferences] = useState<NotificationPreferences>({
-    emailNotifications: true,
-    pushNotifications: true,
-    inAppNotifications: true,
-    digestFrequency: 'daily',
-    types: {
-      info: true,
-      warning: true,
-      error: true,
-      success: true
-    }
+    types: {},
+    quiet_hours: null,
+    digest_frequency: 'none',
+    language: 'fr',
+    timezone: null,
   });
   const [isLoading, setIsLoading] = useState(false);
   const [hasMore, setHasMore] = useState(true);
@@ -200,7 +209,7 @@ export function useNotifications(): UseNotificationsReturn {
     try {
       const response = await apiRequest('/api/notifications/preferences');
       if (mountedRef.current) {
-        setPreferences(response.data);
+        setPreferences(response.data.data);
       }
     } catch (error) {
       console.error('Error loading notification preferences:', error);
@@ -279,22 +288,22 @@ export function useNotifications(): UseNotificationsReturn {
     setFiltersState(newFilters);
   }, []);
 
+  // Only the given notification types are changed on the server
   const updatePreferences = useCallback(async (newPreferences: Partial<NotificationPreferences>) => {
     try {
-      const updatedPreferences = { ...preferences, ...newPreferences };
+      const { channels, ...update } = newPreferences;
       await apiRequest('/api/notifications/preferences', {
         method: 'PATCH',
-        body: updatedPreferences
+        body: JSON.stringify(update)
       });
       
-      if (mountedRef.current) {
-        setPreferences(updatedPreferences);
-      }
+      // Reload to get the effective channels back
+      await loadPreferences();
     } catch (error) {
       console.error('Error updating notification preferences:', error);
       throw error;
     }
-  }, [preferences]);
+  }, [loadPreferences]);
 
   const loadMore = useCallback(async () => {
     if (!hasMore || isLoading) return;
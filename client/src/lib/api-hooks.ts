@@ -1,8 +1,20 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import axios from 'axios';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import type { UseQueryOptions, UseMutationOptions } from '@tanstack/react-query';
+import type { QueryClient, QueryKey, UseQueryOptions, UseMutationOptions } from '@tanstack/react-query';
 import { apiClient, handleApiError } from './api';
 import { queryKeys, invalidateQueries } from './queryClient';
 import { useToast } from '@/hooks/use-toast';
+import { useNotifications } from '@/contexts/NotificationContext';
+import type {
+  AuditLogQuery,
+  AuditLogWithActor,
+  PlanningBoardEntry,
+  PlanningBoardServerEvents,
+  PlanningBoardViewer,
+  PlanningEntryChangedEvent,
+  PlanningEntryDeletedEvent,
+} from '@shared/schema';
 
 // Types for API responses
 interface PaginatedResponse<T> {
@@ -261,6 +273,19 @@ export const useDeleteEmployee = (
   });
 };
 
+export const useDepartments = (
+  options?: Partial<UseQueryOptions<Array<{ id: number; name: string }>>>
+) => {
+  return useQuery({
+    queryKey: queryKeys.departments(),
+    queryFn: () => apiClient
+      .get<{ departments: Array<{ id: number; name: string }> }>('/api/departments')
+      .then(res => res.data.departments),
+    staleTime: 10 * 60 * 1000, // 10 minutes
+    ...options,
+  });
+};
+
 // =============================================================================
 // PLANNING HOOKS
 // =============================================================================
@@ -418,6 +443,228 @@ export const useValidatePlanning = (
   });
 };
 
+// =============================================================================
+// LIVE PLANNING BOARD
+// =============================================================================
+
+type PlanningCacheChange =
+  | { type: 'upsert'; entry: PlanningBoardEntry }
+  | { type: 'delete'; entryId: number };
+
+type CachedPlanningEntry = { id: number | string; version?: number; date: string; startTime?: string | null; employee?: object };
+
+// Filters the server applies that an event alone cannot be checked against
+const OPAQUE_PLANNING_FILTERS = ['search', 'department_id', 'departmentId', 'hasConflicts', 'validationStatus'];
+
+// Planning lists are cached by usePlanning (['planning', 'list', filters]) and
+// by pages calling apiRequest directly (['/api/planning', params])
+const getPlanningListFilters = (queryKey: QueryKey): Record<string, unknown> | undefined | false => {
+  if (queryKey[0] === 'planning' && queryKey[1] === 'list') return queryKey[2] as Record<string, unknown> | undefined;
+  if (queryKey[0] === '/api/planning') return queryKey[1] as Record<string, unknown> | undefined;
+  return false;
+};
+
+// true/false when the entry belongs to the list or not, undefined when only
+// the server can tell
+const matchesPlanningFilters = (entry: PlanningBoardEntry, filters?: Record<string, unknown>): boolean | undefined => {
+  if (!filters) return true;
+  if (OPAQUE_PLANNING_FILTERS.some(key => filters[key] !== undefined && filters[key] !== '')) return undefined;
+
+  const startDate = filters.startDate ?? filters.start_date;
+  const endDate = filters.endDate ?? filters.end_date;
+  const employeeId = filters.employeeId ?? filters.employee_id;
+
+  return (!startDate || entry.date >= String(startDate))
+    && (!endDate || entry.date <= String(endDate))
+    && (!employeeId || Number(employeeId) === entry.employeeId)
+    && (!filters.status || filters.status === entry.status)
+    && (!filters.type || filters.type === entry.type);
+};
+
+// Returns the patched list, the same list when the change does not concern
+// it, or null when it has to be fetched again
+export const patchPlanningEntries = <T extends CachedPlanningEntry>(
+  entries: T[],
+  change: PlanningCacheChange,
+  filters?: Record<string, unknown>
+): T[] | null => {
+  const entryId = change.type === 'delete' ? change.entryId : change.entry.id;
+  const index = entries.findIndex(entry => Number(entry.id) === entryId);
+
+  if (change.type === 'delete') {
+    return index === -1 ? entries : entries.filter((_, i) => i !== index);
+  }
+
+  const { entry } = change;
+  const matches = matchesPlanningFilters(entry, filters);
+
+  if (index !== -1) {
+    const existing = entries[index];
+    // Events can arrive after the refetch that already returned a newer version
+    if ((existing.version ?? 0) > entry.version) return entries;
+    if (matches === false) return entries.filter((_, i) => i !== index);
+
+    const patched = {
+      ...existing,
+      ...entry,
+      id: existing.id,
+      employee: existing.employee ? { ...existing.employee, ...entry.employee } : entry.employee,
+    };
+    return entries.map((current, i) => (i === index ? patched : current));
+  }
+
+  if (matches === false) return entries;
+
+  // New entries are only placed in lists sorted by date, other orders are the server's
+  const sortBy = filters?.sortBy ?? 'date';
+  if (matches === undefined || sortBy !== 'date') return null;
+
+  const direction = (filters?.sortDirection ?? filters?.sortOrder) === 'desc' ? -1 : 1;
+  const key = (value: CachedPlanningEntry) => `${value.date}T${value.startTime ?? ''}`;
+  const position = entries.findIndex(current => key(current).localeCompare(key(entry)) * direction > 0);
+  const inserted = [...entries];
+  inserted.splice(position === -1 ? entries.length : position, 0, entry as unknown as T);
+  return inserted;
+};
+
+// Patches every cached planning list in place; returns the queries that have
+// to be fetched again instead
+const patchPlanningCaches = (queryClient: QueryClient, change: PlanningCacheChange): QueryKey[] => {
+  const stale: QueryKey[] = [];
+
+  for (const query of queryClient.getQueryCache().findAll()) {
+    const filters = getPlanningListFilters(query.queryKey);
+    if (filters === false) continue;
+
+    // apiClient caches the axios response, apiRequest the response body
+    const cached = query.state.data as any;
+    const body = Array.isArray(cached?.data) ? cached : Array.isArray(cached?.data?.data) ? cached.data : null;
+    if (!body) continue;
+
+    const entries = patchPlanningEntries(body.data, change, filters);
+    if (!entries) {
+      stale.push(query.queryKey);
+    } else if (entries !== body.data) {
+      const patched = { ...body, data: entries };
+      queryClient.setQueryData(query.queryKey, body === cached ? patched : { ...cached, data: patched });
+    }
+  }
+
+  return stale;
+};
+
+// Conflicts and weekly summaries are computed by the server: refetched once
+// per burst of events (a generated planning sends one event per entry)
+const REFRESH_DELAY_MS = 500;
+
+export const usePlanningBoard = (options?: {
+  weekStart?: string;
+  onChange?: (event: PlanningEntryChangedEvent | PlanningEntryDeletedEvent) => void;
+}) => {
+  const queryClient = useQueryClient();
+  const { socket } = useNotifications();
+  const [viewers, setViewers] = useState<PlanningBoardViewer[]>([]);
+  const weekStart = options?.weekStart;
+  const onChangeRef = useRef(options?.onChange);
+  onChangeRef.current = options?.onChange;
+
+  useEffect(() => {
+    if (!socket) return;
+
+    const staleKeys: QueryKey[] = [queryKeys.planningConflicts(), ['/api/planning/conflicts'], ['planning', 'week']];
+    let pending: QueryKey[] = [];
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const apply = (change: PlanningCacheChange, event: PlanningEntryChangedEvent | PlanningEntryDeletedEvent) => {
+      pending.push(...patchPlanningCaches(queryClient, change));
+      onChangeRef.current?.(event);
+
+      clearTimeout(timer);
+      timer = setTimeout(() => {
+        [...pending, ...staleKeys].forEach(queryKey => queryClient.invalidateQueries({ queryKey }));
+        pending = [];
+      }, REFRESH_DELAY_MS);
+    };
+
+    const onUpsert: PlanningBoardServerEvents['planning:entry_updated'] = (event) => {
+      apply({ type: 'upsert', entry: event.entry }, event);
+    };
+    const onDelete: PlanningBoardServerEvents['planning:entry_deleted'] = (event) => {
+      apply({ type: 'delete', entryId: event.entryId }, event);
+    };
+
+    socket.on('planning:entry_created', onUpsert);
+    socket.on('planning:entry_updated', onUpsert);
+    socket.on('planning:entry_deleted', onDelete);
+    return () => {
+      clearTimeout(timer);
+      socket.off('planning:entry_created', onUpsert);
+      socket.off('planning:entry_updated', onUpsert);
+      socket.off('planning:entry_deleted', onDelete);
+    };
+  }, [socket, queryClient]);
+
+  // Presence on the board, for admins viewing a week
+  useEffect(() => {
+    if (!socket || !weekStart) return;
+
+    const join = () => {
+      socket.emit('planning:join_week', weekStart);
+    };
+    const onPresence: PlanningBoardServerEvents['planning:presence'] = (event) => {
+      setViewers(event.viewers);
+    };
+
+    socket.on('planning:presence', onPresence);
+    // Presence lives on the socket: joined again after a reconnection
+    socket.on('connect', join);
+    if (socket.connected) join();
+
+    return () => {
+      socket.off('planning:presence', onPresence);
+      socket.off('connect', join);
+      socket.emit('planning:leave_week');
+      setViewers([]);
+    };
+  }, [socket, weekStart]);
+
+  const setEditing = useCallback((entryId: number | null) => {
+    socket?.emit('planning:editing', entryId);
+  }, [socket]);
+
+  return { viewers, setEditing };
+};
+
+export const useUpdatePlanningEntry = (
+  options?: UseMutationOptions<any, Error, { id: number; version?: number; data: Record<string, unknown> }>
+) => {
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: ({ id, version, data }: { id: number; version?: number; data: Record<string, unknown> }) =>
+      apiClient.put(`/api/planning/${id}`, { ...data, version }),
+    onSuccess: () => {
+      invalidateQueries.planning();
+      toast({
+        title: "Planning modifié",
+        description: "L'entrée de planning a été mise à jour",
+      });
+    },
+    onError: (error: any) => {
+      const versionConflict = error?.response?.data?.code === 'PLANNING_VERSION_CONFLICT';
+      if (versionConflict) invalidateQueries.planning();
+      toast({
+        title: versionConflict ? "Entrée modifiée entre-temps" : "Erreur",
+        description: versionConflict
+          ? "Un autre utilisateur vient de modifier cette entrée, vérifiez sa nouvelle version avant de réessayer"
+          : handleApiError(error),
+        variant: "destructive",
+      });
+    },
+    ...options,
+  });
+};
+
 // =============================================================================
 // TIME ENTRIES HOOKS
 // =============================================================================
@@ -768,6 +1015,804 @@ export const useProject = (
   });
 };
 
+// =============================================================================
+// PLANNING TEMPLATES HOOKS
+// =============================================================================
+
+export interface PlanningTemplateShift {
+  id?: number;
+  week_index: number;
+  day_of_week: number; // 1 = lundi ... 7 = dimanche
+  start_time: string;
+  end_time: string;
+  type: 'work' | 'training' | 'meeting';
+  label?: string | null;
+}
+
+export interface PlanningTemplateAssignment {
+  id: number;
+  template_id: number;
+  employee_id: number | null;
+  department_id: number | null;
+  start_date: string;
+  end_date: string | null;
+  cycle_offset: number;
+}
+
+export interface PlanningTemplate {
+  id: number;
+  name: string;
+  description?: string | null;
+  cycle_weeks: number;
+  is_active: boolean;
+  shifts: PlanningTemplateShift[];
+  assignments: PlanningTemplateAssignment[];
+}
+
+export type PlanningTemplateInput = Omit<PlanningTemplate, 'id' | 'assignments'>;
+
+export const usePlanningTemplates = (
+  options?: Partial<UseQueryOptions<PlanningTemplate[]>>
+) => {
+  return useQuery({
+    queryKey: queryKeys.planningTemplates(),
+    queryFn: () => apiClient
+      .get<{ data: PlanningTemplate[] }>('/api/planning/templates')
+      .then(res => res.data.data),
+    staleTime: 5 * 60 * 1000, // 5 minutes
+    ...options,
+  });
+};
+
+export const useSavePlanningTemplate = () => {
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: ({ id, ...data }: PlanningTemplateInput & { id?: number }) =>
+      (id
+        ? apiClient.put<{ data: PlanningTemplate }>(`/api/planning/templates/${id}`, data)
+        : apiClient.post<{ data: PlanningTemplate }>('/api/planning/templates', data)
+      ).then(res => res.data.data),
+    onSuccess: (data) => {
+      invalidateQueries.planning();
+      toast({
+        title: "Modèle enregistré",
+        description: `Le modèle « ${data.name} » a été enregistré`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Erreur",
+        description: handleApiError(error),
+        variant: "destructive",
+      });
+    },
+  });
+};
+
+export const useDeletePlanningTemplate = () => {
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: (id: number) => apiClient.delete(`/api/planning/templates/${id}`),
+    onSuccess: () => {
+      invalidateQueries.planning();
+      toast({
+        title: "Modèle supprimé",
+        description: "Le modèle et ses affectations ont été supprimés",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Erreur",
+        description: handleApiError(error),
+        variant: "destructive",
+      });
+    },
+  });
+};
+
+export const useAssignPlanningTemplate = () => {
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: ({ templateId, ...data }: {
+      templateId: number;
+      employee_id?: number;
+      department_id?: number;
+      start_date: string;
+      end_date?: string;
+      cycle_offset?: number;
+    }) => apiClient.post(`/api/planning/templates/${templateId}/assignments`, data),
+    onSuccess: () => {
+      invalidateQueries.planning();
+      toast({
+        title: "Modèle affecté",
+        description: "Le modèle sera utilisé lors de la prochaine génération du planning",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Erreur",
+        description: handleApiError(error),
+        variant: "destructive",
+      });
+    },
+  });
+};
+
+export const useRemovePlanningTemplateAssignment = () => {
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: ({ templateId, assignmentId }: { templateId: number; assignmentId: number }) =>
+      apiClient.delete(`/api/planning/templates/${templateId}/assignments/${assignmentId}`),
+    onSuccess: () => {
+      invalidateQueries.planning();
+    },
+    onError: (error) => {
+      toast({
+        title: "Erreur",
+        description: handleApiError(error),
+        variant: "destructive",
+      });
+    },
+  });
+};
+
+// =============================================================================
+// APPROVAL CHAINS
+// =============================================================================
+
+export interface ApprovalRequest {
+  id: number;
+  subject_type: 'time_sheet' | 'leave_request';
+  subject_id: number;
+  employee_id: number;
+  current_step: number;
+  current_approver_id: number | null;
+  status: 'pending' | 'approved' | 'rejected';
+  assigned_at: string;
+  locked_at: string | null;
+}
+
+// Une approbation intermédiaire laisse la demande en attente de l'étape suivante
+const isForwarded = (approval: ApprovalRequest | undefined, action: 'approve' | 'reject') =>
+  action === 'approve' && approval?.status === 'pending';
+
+// =============================================================================
+// LEAVE REQUESTS HOOKS
+// =============================================================================
+
+export interface LeaveRequest {
+  id: number;
+  employee_id: number;
+  type: 'vacation' | 'rtt' | 'compensatory_rest' | 'sick_leave' | 'unpaid_leave';
+  start_date: string;
+  end_date: string;
+  days_count: number;
+  reason?: string | null;
+  status: 'pending' | 'approved' | 'rejected' | 'cancelled';
+  approver_id?: number | null;
+  decided_at?: string | null;
+  decision_comment?: string | null;
+  created_at: string;
+  employee_first_name?: string;
+  employee_last_name?: string;
+}
+
+export const useLeaveRequests = (
+  filters?: {
+    scope?: 'mine' | 'team' | 'all';
+    status?: LeaveRequest['status'];
+    employee_id?: number;
+  },
+  options?: Partial<UseQueryOptions<LeaveRequest[]>>
+) => {
+  return useQuery({
+    queryKey: queryKeys.leaveRequestsList(filters),
+    queryFn: () => apiClient
+      .get<{ data: LeaveRequest[] }>('/api/leave-requests', { params: filters })
+      .then(res => res.data.data),
+    staleTime: 60 * 1000, // 1 minute
+    ...options,
+  });
+};
+
+export const useCreateLeaveRequest = () => {
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: (data: { type: LeaveRequest['type']; start_date: string; end_date: string; reason?: string }) =>
+      apiClient.post<{ data: LeaveRequest }>('/api/leave-requests', data).then(res => res.data.data),
+    onSuccess: (data) => {
+      invalidateQueries.leaveRequests();
+      toast({
+        title: "Demande envoyée",
+        description: `Votre demande de ${data.days_count} jour(s) a été transmise à votre manager`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Erreur",
+        description: handleApiError(error),
+        variant: "destructive",
+      });
+    },
+  });
+};
+
+export const useDecideLeaveRequest = () => {
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: ({ id, decision, comment }: { id: number; decision: 'approve' | 'reject'; comment?: string }) =>
+      apiClient
+        .post<{ data: { approval?: ApprovalRequest } }>(
+          `/api/leave-requests/${id}/${decision}`,
+          decision === 'approve' ? { comment } : { reason: comment }
+        )
+        .then(res => res.data.data),
+    onSuccess: (data, variables) => {
+      invalidateQueries.leaveRequests();
+      invalidateQueries.planning();
+      invalidateQueries.employees();
+      toast(isForwarded(data.approval, variables.decision) ? {
+        title: "Demande transmise",
+        description: "La demande attend maintenant l'approbation de l'étape suivante",
+      } : {
+        title: variables.decision === 'approve' ? "Congé approuvé" : "Congé refusé",
+        description: "L'employé a été notifié de votre décision",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Erreur",
+        description: handleApiError(error),
+        variant: "destructive",
+      });
+    },
+  });
+};
+
+export const useCancelLeaveRequest = () => {
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: (id: number) => apiClient.post(`/api/leave-requests/${id}/cancel`),
+    onSuccess: () => {
+      invalidateQueries.leaveRequests();
+      invalidateQueries.planning();
+      invalidateQueries.employees();
+      toast({
+        title: "Demande annulée",
+        description: "Votre demande de congé a été annulée",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Erreur",
+        description: handleApiError(error),
+        variant: "destructive",
+      });
+    },
+  });
+};
+
+// =============================================================================
+// WEEKLY VALIDATIONS HOOKS
+// =============================================================================
+
+export type WeeklyValidationStatus = 'pending' | 'validated' | 'rejected' | 'partially_validated';
+
+export interface ValidationWeek {
+  employeeId: number;
+  employeeName: string;
+  departmentId: number | null;
+  departmentName: string | null;
+  weekStart: string;
+  weekEnd: string;
+  totalHours: number;
+  overtimeHours: number;
+  pendingCount: number;
+  validatedCount: number;
+  rejectedCount: number;
+  outOfZoneCount: number;
+  status: WeeklyValidationStatus;
+  submittedAt: string | null;
+  validationId: number | null;
+  validatedAt: string | null;
+  comments: string | null;
+  rejectionReason: string | null;
+  approvalStatus: ApprovalRequest['status'] | null;
+  approvalStep: number | null;
+  approverId: number | null;
+  lockedAt: string | null;
+}
+
+export interface ValidationStats {
+  pendingWeeks: number;
+  pendingHours: number;
+  validatedThisMonth: number;
+  activeEmployees: number;
+}
+
+export interface ValidationWeekEntry {
+  id: number;
+  date: string;
+  start_time: string | null;
+  end_time: string | null;
+  type: string;
+  status: 'draft' | 'submitted' | 'validated' | 'rejected';
+  break_duration?: number | null;
+  description?: string | null;
+  comments?: string | null;
+  geofence_status?: 'inside' | 'outside' | 'unknown' | null;
+  geofence_distance_meters?: number | null;
+  review_reason?: 'unconfirmed_kiosk_punch' | 'delayed_punch' | null;
+}
+
+export interface ValidationWeekDetails {
+  week: ValidationWeek | null;
+  timeEntries: ValidationWeekEntry[];
+  planningEntries: ValidationWeekEntry[];
+}
+
+export const useValidations = (
+  filters?: {
+    scope?: 'team' | 'all';
+    status?: WeeklyValidationStatus | 'all';
+    department_id?: number;
+  },
+  options?: Partial<UseQueryOptions<{ data: ValidationWeek[]; stats: ValidationStats }>>
+) => {
+  return useQuery({
+    queryKey: queryKeys.validationsList(filters),
+    queryFn: () => apiClient
+      .get<{ data: ValidationWeek[]; stats: ValidationStats }>('/api/validations', { params: filters })
+      .then(res => ({ data: res.data.data, stats: res.data.stats })),
+    staleTime: 60 * 1000, // 1 minute
+    ...options,
+  });
+};
+
+export const useValidationWeek = (employeeId: number, weekStart: string, enabled = true) => {
+  return useQuery({
+    queryKey: queryKeys.validationWeek(employeeId, weekStart),
+    queryFn: () => apiClient
+      .get<{ data: ValidationWeekDetails }>(`/api/validations/${employeeId}/${weekStart}`)
+      .then(res => res.data.data),
+    enabled,
+  });
+};
+
+export const useDecideValidation = () => {
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: (data: {
+      employee_id: number;
+      week_start: string;
+      action: 'approve' | 'reject';
+      time_entry_ids?: number[];
+      planning_entry_ids?: number[];
+      comments?: string;
+      rejection_reason?: string;
+    }) => apiClient
+      .post<{ data: { approval?: ApprovalRequest } }>('/api/validations/decide', data)
+      .then(res => res.data.data),
+    onSuccess: (data, variables) => {
+      invalidateQueries.validations();
+      invalidateQueries.timeEntries();
+      invalidateQueries.planning();
+      toast(isForwarded(data.approval, variables.action) ? {
+        title: "Semaine transmise",
+        description: "La semaine attend maintenant l'approbation de l'étape suivante",
+      } : {
+        title: variables.action === 'approve' ? "Heures validées" : "Heures rejetées",
+        description: "L'employé a été notifié de votre décision",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Erreur",
+        description: handleApiError(error),
+        variant: "destructive",
+      });
+    },
+  });
+};
+
+// =============================================================================
+// PAYROLL EXPORT HOOKS
+// =============================================================================
+
+export type PayrollExportFormat = 'csv' | 'fixed_width' | 'dsn';
+
+export interface PayrollLine {
+  variable: string;
+  rubric: string;
+  label: string;
+  unit: 'hours' | 'days' | 'units';
+  quantity: number;
+  rate: number | null;
+  amount: number | null;
+}
+
+export interface PayrollEmployeeReport {
+  employeeId: number;
+  employeeNumber: string | null;
+  firstName: string;
+  lastName: string;
+  hourlyRate: number | null;
+  lines: PayrollLine[];
+}
+
+export interface PayrollReport {
+  month: string;
+  startDate: string;
+  endDate: string;
+  employees: PayrollEmployeeReport[];
+}
+
+export const usePayrollPreview = (
+  filters: { month: string; department_id?: number },
+  options?: Partial<UseQueryOptions<PayrollReport>>
+) => {
+  return useQuery({
+    queryKey: queryKeys.reportData('payroll', filters),
+    queryFn: () => apiClient
+      .get<{ data: PayrollReport }>('/api/payroll/export', { params: { ...filters, preview: 'true' } })
+      .then(res => res.data.data),
+    ...options,
+  });
+};
+
+export const useDownloadPayrollExport = () => {
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async (filters: { month: string; format: PayrollExportFormat; department_id?: number }) => {
+      const res = await apiClient.get<Blob>('/api/payroll/export', { params: filters, responseType: 'blob' })
+        .catch(async (error) => {
+          // Errors also come back as a blob: read their JSON body for the message
+          if (axios.isAxiosError(error) && error.response?.data instanceof Blob) {
+            error.response.data = await error.response.data.text().then(JSON.parse).catch(() => null);
+          }
+          throw error;
+        });
+      const filename = String(res.headers['content-disposition'] ?? '').match(/filename="(.+)"/)?.[1]
+        ?? `paie_${filters.month}`;
+
+      const url = window.URL.createObjectURL(res.data);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = filename;
+      document.body.appendChild(a);
+      a.click();
+      window.URL.revokeObjectURL(url);
+      document.body.removeChild(a);
+
+      return filename;
+    },
+    onSuccess: (filename) => {
+      toast({
+        title: "Export de paie généré",
+        description: `Le fichier ${filename} a été téléchargé`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Erreur",
+        description: handleApiError(error),
+        variant: "destructive",
+      });
+    },
+  });
+};
+
+// =============================================================================
+// KIOSK HOOKS
+// =============================================================================
+
+export interface KioskDevice {
+  id: number;
+  name: string;
+  department_id: number | null;
+  work_site_id: number | null;
+  is_active: boolean;
+  last_seen_at: string | null;
+  created_at: string;
+}
+
+export interface KioskCredentialStatus {
+  employeeId: number;
+  employeeNumber: string | null;
+  firstName: string;
+  lastName: string;
+  hasPin: boolean;
+  badgeCode: string | null;
+}
+
+export const useKiosks = (options?: Partial<UseQueryOptions<KioskDevice[]>>) => {
+  return useQuery({
+    queryKey: queryKeys.kiosks(),
+    queryFn: () => apiClient
+      .get<{ data: KioskDevice[] }>('/api/kiosks')
+      .then(res => res.data.data),
+    ...options,
+  });
+};
+
+// The returned token is only shown once
+export const useCreateKiosk = () => {
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: (data: { name: string; department_id?: number | null; work_site_id?: number | null }) => apiClient
+      .post<{ data: KioskDevice & { token: string } }>('/api/kiosks', data)
+      .then(res => res.data.data),
+    onSuccess: () => {
+      invalidateQueries.kiosks();
+      toast({
+        title: "Borne enregistrée",
+        description: "Saisissez le jeton affiché sur la borne pour l'activer",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Erreur",
+        description: handleApiError(error),
+        variant: "destructive",
+      });
+    },
+  });
+};
+
+export const useUpdateKiosk = () => {
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: ({ id, ...data }: { id: number; name?: string; is_active?: boolean; department_id?: number | null; work_site_id?: number | null }) => apiClient
+      .put<{ data: KioskDevice }>(`/api/kiosks/${id}`, data)
+      .then(res => res.data.data),
+    onSuccess: () => {
+      invalidateQueries.kiosks();
+    },
+    onError: (error) => {
+      toast({
+        title: "Erreur",
+        description: handleApiError(error),
+        variant: "destructive",
+      });
+    },
+  });
+};
+
+export const useRegenerateKioskToken = () => {
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: (id: number) => apiClient
+      .post<{ data: KioskDevice & { token: string } }>(`/api/kiosks/${id}/token`)
+      .then(res => res.data.data),
+    onSuccess: () => {
+      toast({
+        title: "Nouveau jeton généré",
+        description: "L'ancien jeton ne fonctionne plus sur la borne",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Erreur",
+        description: handleApiError(error),
+        variant: "destructive",
+      });
+    },
+  });
+};
+
+export const useDeleteKiosk = () => {
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: (id: number) => apiClient.delete(`/api/kiosks/${id}`),
+    onSuccess: () => {
+      invalidateQueries.kiosks();
+      toast({
+        title: "Borne supprimée",
+        description: "Les pointages effectués sur cette borne sont conservés",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Erreur",
+        description: handleApiError(error),
+        variant: "destructive",
+      });
+    },
+  });
+};
+
+export const useKioskCredentials = (options?: Partial<UseQueryOptions<KioskCredentialStatus[]>>) => {
+  return useQuery({
+    queryKey: queryKeys.kioskCredentials(),
+    queryFn: () => apiClient
+      .get<{ data: KioskCredentialStatus[] }>('/api/kiosks/credentials')
+      .then(res => res.data.data),
+    ...options,
+  });
+};
+
+// pin or badge_code set to null removes it
+export const useUpdateKioskCredentials = () => {
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: ({ employeeId, ...data }: { employeeId: number; pin?: string | null; badge_code?: string | null }) => apiClient
+      .put(`/api/employees/${employeeId}/kiosk-credentials`, data)
+      .then(res => res.data.data),
+    onSuccess: () => {
+      invalidateQueries.kiosks();
+      toast({
+        title: "Identifiants de borne mis à jour",
+        description: "L'employé peut pointer sur les bornes",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Erreur",
+        description: handleApiError(error),
+        variant: "destructive",
+      });
+    },
+  });
+};
+
+// =============================================================================
+// SCHEDULED JOBS HOOKS
+// =============================================================================
+
+export interface JobRun {
+  id: number;
+  job_name: string;
+  scheduled_for: string;
+  trigger: 'schedule' | 'manual';
+  status: 'running' | 'succeeded' | 'failed';
+  instance_id: string | null;
+  result: Record<string, unknown> | null;
+  error: string | null;
+  started_at: string;
+  finished_at: string | null;
+  duration_ms: number | null;
+}
+
+export interface ScheduledJob {
+  name: string;
+  description: string;
+  cron: string;
+  nextRunAt: string | null;
+  lastRun: JobRun | null;
+  running: boolean;
+}
+
+export const useScheduledJobs = (options?: Partial<UseQueryOptions<ScheduledJob[]>>) => {
+  return useQuery({
+    queryKey: queryKeys.jobs(),
+    queryFn: () => apiClient
+      .get<{ data: ScheduledJob[] }>('/api/jobs')
+      .then(res => res.data.data),
+    refetchInterval: 60 * 1000,
+    ...options,
+  });
+};
+
+export const useJobRuns = (name: string | null, options?: Partial<UseQueryOptions<JobRun[]>>) => {
+  return useQuery({
+    queryKey: queryKeys.jobRuns(name ?? ''),
+    queryFn: () => apiClient
+      .get<{ data: JobRun[] }>(`/api/jobs/${name}/runs`)
+      .then(res => res.data.data),
+    enabled: !!name,
+    ...options,
+  });
+};
+
+export const useRunJob = () => {
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: (name: string) => apiClient
+      .post<{ data: JobRun }>(`/api/jobs/${name}/run`)
+      .then(res => res.data.data),
+    onSuccess: (run) => {
+      invalidateQueries.jobs();
+      toast({
+        title: run.status === 'succeeded' ? "Tâche exécutée" : "Échec de la tâche",
+        description: run.error ?? undefined,
+        variant: run.status === 'succeeded' ? undefined : "destructive",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Erreur",
+        description: handleApiError(error),
+        variant: "destructive",
+      });
+    },
+  });
+};
+
+// =============================================================================
+// AUDIT LOG HOOKS
+// =============================================================================
+
+export type AuditLogFilters = Partial<Omit<AuditLogQuery, 'page' | 'limit'>> & { page?: number; limit?: number };
+
+export interface AuditLogEntry extends Omit<AuditLogWithActor, 'created_at'> {
+  created_at: string;
+}
+
+export interface AuditLogPage {
+  data: AuditLogEntry[];
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    totalPages: number;
+    hasNext: boolean;
+    hasPrev: boolean;
+  };
+}
+
+export const useAuditLogs = (filters: AuditLogFilters, options?: Partial<UseQueryOptions<AuditLogPage>>) => {
+  return useQuery({
+    queryKey: queryKeys.auditLogsList(filters),
+    queryFn: () => apiClient
+      .get<AuditLogPage>('/api/audit-logs', { params: filters })
+      .then(res => res.data),
+    placeholderData: previous => previous,
+    ...options,
+  });
+};
+
+export const useDownloadAuditLogExport = () => {
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async (filters: AuditLogFilters) => {
+      const { page, limit, ...params } = filters;
+      const res = await apiClient.get<Blob>('/api/audit-logs/export', { params, responseType: 'blob' });
+      const filename = String(res.headers['content-disposition'] ?? '').match(/filename="(.+)"/)?.[1]
+        ?? 'journal-audit.csv';
+
+      const url = window.URL.createObjectURL(res.data);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = filename;
+      document.body.appendChild(a);
+      a.click();
+      window.URL.revokeObjectURL(url);
+      document.body.removeChild(a);
+
+      return filename;
+    },
+    onSuccess: (filename) => {
+      toast({
+        title: "Journal d'audit exporté",
+        description: `Le fichier ${filename} a été téléchargé`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Erreur",
+        description: handleApiError(error),
+        variant: "destructive",
+      });
+    },
+  });
+};
+
 // =============================================================================
 // PREFETCH HOOKS
 // =============================================================================
@@ -0,0 +1,141 @@
+import axios from 'axios';
+
+// Shared clocking terminals authenticate with a device token, not a user JWT:
+// they use their own client so apiClient's login redirect never kicks in.
+const KIOSK_TOKEN_KEY = 'kioskToken';
+const KIOSK_QUEUE_KEY = 'kioskQueue';
+
+export type KioskAction = 'clock_in' | 'break_start' | 'break_end' | 'clock_out';
+
+export type KioskCredentials =
+  | { employee_number: string; pin: string }
+  | { badge_code: string };
+
+// What the offline buffer keeps: never the PIN
+type BufferedCredentials = { employee_number: string } | { badge_code: string };
+
+export interface KioskEmployee {
+  id: number;
+  firstName: string;
+  lastName: string;
+}
+
+export interface KioskPunch {
+  id: number;
+  clockIn: string;
+  clockOut: string | null;
+  breakStartedAt: string | null;
+}
+
+export interface KioskDeviceInfo {
+  id: number;
+  name: string;
+  department_id: number | null;
+  work_site_id: number | null;
+}
+
+interface BufferedPunch {
+  credentials: KioskCredentials | BufferedCredentials;
+  action: KioskAction;
+  idempotency_key: string;
+  occurred_at: string;
+}
+
+export const kioskTokenManager = {
+  getToken: () => localStorage.getItem(KIOSK_TOKEN_KEY),
+  setToken: (token: string) => localStorage.setItem(KIOSK_TOKEN_KEY, token),
+  clearToken: () => localStorage.removeItem(KIOSK_TOKEN_KEY),
+};
+
+const kioskClient = axios.create({
+  baseURL: '/',
+  timeout: 10000,
+  headers: {
+    'Content-Type': 'application/json',
+  },
+});
+
+kioskClient.interceptors.request.use((config) => {
+  const token = kioskTokenManager.getToken();
+  if (token) {
+    config.headers['X-Kiosk-Token'] = token;
+  }
+  return config;
+});
+
+export const getKioskErrorCode = (error: unknown): string | undefined =>
+  axios.isAxiosError(error) ? error.response?.data?.code : undefined;
+
+// No answer, or an answer the kiosk should retry later (server error, rate
+// limit, kiosk token revoked until an admin re-registers the device)
+export const isRetryableKioskError = (error: unknown) => {
+  if (!axios.isAxiosError(error)) return false;
+  if (!error.response) return true;
+
+  const code = getKioskErrorCode(error);
+  return error.response.status >= 500
+    || (error.response.status === 429 && code !== 'PIN_LOCKED')
+    || code === 'INVALID_KIOSK_TOKEN'
+    || code === 'KIOSK_TOKEN_MISSING';
+};
+
+export const kioskAPI = {
+  me: async (): Promise<KioskDeviceInfo> => {
+    const response = await kioskClient.get('/api/kiosk/me');
+    return response.data.data.kiosk;
+  },
+
+  identify: async (credentials: KioskCredentials): Promise<{ employee: KioskEmployee; punch: KioskPunch | null }> => {
+    const response = await kioskClient.post('/api/kiosk/identify', credentials);
+    return response.data.data;
+  },
+
+  punch: async (punch: Omit<BufferedPunch, 'occurred_at'> & { occurred_at?: string }): Promise<{ employee: KioskEmployee; punch: KioskPunch }> => {
+    const response = await kioskClient.post('/api/kiosk/punch', punch);
+    return response.data.data;
+  },
+};
+
+// Offline buffer. PINs are dropped before anything reaches localStorage: the
+// server accepts the replayed employee number on the kiosk token and leaves the
+// punch for the manager to confirm. Punches are removed once the server answered.
+export const kioskQueue = {
+  getAll: (): BufferedPunch[] => {
+    try {
+      return JSON.parse(localStorage.getItem(KIOSK_QUEUE_KEY) || '[]');
+    } catch {
+      return [];
+    }
+  },
+
+  add: (punch: Omit<BufferedPunch, 'occurred_at'>) => {
+    const credentials: BufferedCredentials = 'badge_code' in punch.credentials
+      ? { badge_code: punch.credentials.badge_code }
+      : { employee_number: punch.credentials.employee_number };
+    const queue = kioskQueue.getAll();
+    queue.push({ ...punch, credentials, occurred_at: new Date().toISOString() });
+    localStorage.setItem(KIOSK_QUEUE_KEY, JSON.stringify(queue));
+  },
+
+  // Replays in order and stops at the first punch that must be retried;
+  // punches refused by the server (wrong PIN, out of sequence...) are dropped
+  flush: async (): Promise<{ sent: number; rejected: number; remaining: number }> => {
+    const queue = kioskQueue.getAll();
+    let sent = 0;
+    let rejected = 0;
+
+    while (queue.length > 0) {
+      try {
+        await kioskAPI.punch(queue[0]);
+        sent++;
+      } catch (error) {
+        if (isRetryableKioskError(error)) break;
+        rejected++;
+      }
+      queue.shift();
+      localStorage.setItem(KIOSK_QUEUE_KEY, JSON.stringify(queue));
+    }
+
+    return { sent, rejected, remaining: queue.length };
+  },
+};
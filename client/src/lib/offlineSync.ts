@@ -0,0 +1,277 @@
+import { apiClient } from './api';
+
+// Offline queue shared with the service worker (public/sw.js): same database,
+// same stores. Pages own the replay because only they hold the auth token.
+const DB_NAME = 'clockpilot-offline';
+const DB_VERSION = 2;
+const STORE_NAME = 'offline-queue';
+const META_STORE_NAME = 'meta';
+
+export type SyncMutationType =
+  | 'clock_in'
+  | 'break_start'
+  | 'break_end'
+  | 'clock_out'
+  | 'time_entry_create'
+  | 'time_entry_update'
+  | 'time_entry_delete';
+
+export type SyncConflictReason =
+  | 'ENTRY_NOT_FOUND'
+  | 'ENTRY_MODIFIED'
+  | 'PERIOD_CLOSED'
+  | 'PERIOD_VALIDATED'
+  | 'TIME_ENTRY_OVERLAP'
+  | 'OUTSIDE_WORK_SITE'
+  | 'ALREADY_CLOCKED_IN'
+  | 'NOT_CLOCKED_IN'
+  | 'BREAK_ALREADY_STARTED'
+  | 'NO_BREAK_IN_PROGRESS'
+  | 'OUT_OF_SEQUENCE';
+
+export interface SyncConflict {
+  reason: SyncConflictReason;
+  resolvable: boolean;
+  serverEntry: Record<string, any> | null;
+}
+
+export interface QueuedMutation {
+  id?: number;
+  client_id: string;
+  user_id?: number; // Signed-in user when queued; only that user replays it
+  type: SyncMutationType;
+  client_timestamp: string;
+  entry_id?: number;
+  base_version?: number;
+  data?: Record<string, any>;
+  conflict?: SyncConflict;
+  error?: string;
+}
+
+interface SyncMutationResult {
+  clientId: string;
+  status: 'applied' | 'duplicate' | 'conflict' | 'rejected';
+  entry?: Record<string, any> | null;
+  conflict?: SyncConflict;
+  error?: string;
+}
+
+export interface SyncStatus {
+  isOnline: boolean;
+  isSyncing: boolean;
+  queueCount: number;
+  conflictCount: number;
+  lastSyncTime?: number;
+  error?: string;
+}
+
+export type NewMutation = Pick<QueuedMutation, 'type' | 'entry_id' | 'base_version' | 'data'>;
+
+type StatusListener = (status: SyncStatus) => void;
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+class OfflineSyncManager {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+  private userId: number | null = null;
+  private listeners: StatusListener[] = [];
+  private status: SyncStatus = {
+    isOnline: typeof navigator === 'undefined' ? true : navigator.onLine,
+    isSyncing: false,
+    queueCount: 0,
+    conflictCount: 0,
+  };
+
+  constructor() {
+    if (typeof window === 'undefined') return;
+
+    window.addEventListener('online', () => {
+      this.setStatus({ isOnline: true });
+      this.sync();
+    });
+    window.addEventListener('offline', () => this.setStatus({ isOnline: false }));
+
+    // The service worker asks open pages to replay when background sync fires
+    navigator.serviceWorker?.addEventListener('message', (event) => {
+      if (event.data?.type === 'SYNC_REQUESTED') this.sync();
+    });
+
+    this.refreshCounts();
+  }
+
+  private openDB(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onerror = () => reject(request.error);
+        request.onsuccess = () => resolve(request.result);
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          // Version 1 stored raw requests that cannot be replayed safely
+          if (db.objectStoreNames.contains(STORE_NAME)) {
+            db.deleteObjectStore(STORE_NAME);
+          }
+          const store = db.createObjectStore(STORE_NAME, { keyPath: 'id', autoIncrement: true });
+          store.createIndex('client_id', 'client_id', { unique: true });
+          if (!db.objectStoreNames.contains(META_STORE_NAME)) {
+            db.createObjectStore(META_STORE_NAME, { keyPath: 'key' });
+          }
+        };
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private async store(name: string, mode: IDBTransactionMode): Promise<IDBObjectStore> {
+    const db = await this.openDB();
+    return db.transaction([name], mode).objectStore(name);
+  }
+
+  async getDeviceId(): Promise<string> {
+    const meta = await this.store(META_STORE_NAME, 'readonly');
+    const existing = await requestToPromise(meta.get('device_id'));
+    if (existing?.value) return existing.value;
+
+    const deviceId = crypto.randomUUID();
+    await requestToPromise((await this.store(META_STORE_NAME, 'readwrite')).put({ key: 'device_id', value: deviceId }));
+    return deviceId;
+  }
+
+  // The queue is partitioned by user: on a shared device, each user only sees
+  // and replays their own mutations. Also tells the service worker who queues.
+  async setUser(userId: number | null): Promise<void> {
+    this.userId = userId;
+    const meta = await this.store(META_STORE_NAME, 'readwrite');
+    if (userId === null) {
+      await requestToPromise(meta.delete('user_id'));
+    } else {
+      await requestToPromise(meta.put({ key: 'user_id', value: userId }));
+    }
+    await this.refreshCounts();
+    if (userId !== null) await this.sync();
+  }
+
+  // Mutations queued before they carried a user are left to the server, which rejects them
+  async getQueue(): Promise<QueuedMutation[]> {
+    if (this.userId === null) return [];
+    const store = await this.store(STORE_NAME, 'readonly');
+    const items = await requestToPromise(store.getAll()) as QueuedMutation[];
+    return items
+      .filter(item => item.user_id === undefined || item.user_id === this.userId)
+      .sort((a, b) => (a.id ?? 0) - (b.id ?? 0));
+  }
+
+  async getConflicts(): Promise<QueuedMutation[]> {
+    return (await this.getQueue()).filter(item => item.conflict || item.error);
+  }
+
+  // Stamps the mutation at the time of the user's action, not of the replay
+  async addToQueue(mutation: NewMutation): Promise<QueuedMutation> {
+    const item: QueuedMutation = {
+      ...mutation,
+      user_id: this.userId ?? undefined,
+      client_id: crypto.randomUUID(),
+      client_timestamp: new Date().toISOString(),
+    };
+    item.id = await requestToPromise((await this.store(STORE_NAME, 'readwrite')).add(item)) as number;
+
+    await this.refreshCounts();
+    navigator.serviceWorker?.ready
+      .then(registration => (registration as any).sync?.register('clockpilot-sync'))
+      .catch(() => undefined);
+
+    return item;
+  }
+
+  async sync(): Promise<void> {
+    if (this.status.isSyncing || !this.status.isOnline) return;
+
+    // Conflicting items wait for the user's decision and block nothing else
+    const pending = (await this.getQueue()).filter(item => !item.conflict && !item.error);
+    if (pending.length === 0) {
+      await this.refreshCounts();
+      return;
+    }
+
+    this.setStatus({ isSyncing: true, error: undefined });
+    try {
+      const response = await apiClient.post('/api/sync/batch', {
+        device_id: await this.getDeviceId(),
+        mutations: pending.map(({ id, conflict, error, ...mutation }) => mutation),
+      });
+      const results: SyncMutationResult[] = response.data.data.results;
+
+      const store = await this.store(STORE_NAME, 'readwrite');
+      for (const item of pending) {
+        const result = results.find(r => r.clientId === item.client_id);
+        if (!result) continue;
+
+        if (result.status === 'applied' || result.status === 'duplicate') {
+          store.delete(item.id!);
+        } else {
+          store.put({ ...item, conflict: result.conflict, error: result.error });
+        }
+      }
+
+      this.setStatus({ isSyncing: false, lastSyncTime: Date.now() });
+    } catch (error: any) {
+      this.setStatus({
+        isSyncing: false,
+        error: error?.response?.data?.error || 'Synchronisation impossible',
+      });
+    }
+
+    await this.refreshCounts();
+  }
+
+  async forceSync(): Promise<void> {
+    return this.sync();
+  }
+
+  // 'discard' keeps the server version; 'overwrite' replays the local change on top of it
+  async resolveConflict(item: QueuedMutation, resolution: 'discard' | 'overwrite'): Promise<void> {
+    const store = await this.store(STORE_NAME, 'readwrite');
+
+    if (resolution === 'discard' || !item.conflict?.resolvable) {
+      await requestToPromise(store.delete(item.id!));
+    } else {
+      const { conflict, error, ...mutation } = item;
+      await requestToPromise(store.put({
+        ...mutation,
+        base_version: conflict.serverEntry?.version ?? mutation.base_version,
+      }));
+    }
+
+    await this.refreshCounts();
+    if (resolution === 'overwrite') await this.sync();
+  }
+
+  addStatusListener(listener: StatusListener): () => void {
+    this.listeners.push(listener);
+    listener(this.status);
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+
+  private async refreshCounts(): Promise<void> {
+    try {
+      const queue = await this.getQueue();
+      const conflictCount = queue.filter(item => item.conflict || item.error).length;
+      this.setStatus({ queueCount: queue.length - conflictCount, conflictCount });
+    } catch (error) {
+      console.warn('File hors ligne indisponible:', error);
+    }
+  }
+
+  private setStatus(update: Partial<SyncStatus>) {
+    this.status = { ...this.status, ...update };
+    this.listeners.forEach(listener => listener(this.status));
+  }
+}
+
+export const syncManager = new OfflineSyncManager();
@@ -0,0 +1,40 @@
+import { hasPermission, type Permission, type PermissionScope, type UserRole } from '@shared/permissions';
+import type { User } from '@/contexts/AuthContext';
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  admin: 'Administrateur',
+  hr: 'RH',
+  manager: 'Manager',
+  employee: 'Employé',
+  auditor: 'Auditeur',
+};
+
+export interface PageAccess {
+  permission: Permission;
+  minScope: PermissionScope;
+}
+
+// Management pages in navigation order. Managers reach the pages covering their
+// team; the dashboard and the settings stay company-wide.
+export const MANAGEMENT_PAGES = {
+  '/admin/dashboard': { permission: 'reports:read', minScope: 'all' },
+  '/admin/employees': { permission: 'employees:read', minScope: 'team' },
+  '/admin/planning': { permission: 'planning:read', minScope: 'team' },
+  '/admin/validation': { permission: 'validations:read', minScope: 'team' },
+  '/admin/reports': { permission: 'reports:read', minScope: 'team' },
+  '/admin/settings': { permission: 'settings:manage', minScope: 'all' },
+} as const satisfies Record<string, PageAccess>;
+
+export type ManagementPath = keyof typeof MANAGEMENT_PAGES;
+
+export const canAccessPage = (user: User | null | undefined, path: ManagementPath) =>
+  !!user && hasPermission(user.role, MANAGEMENT_PAGES[path].permission, MANAGEMENT_PAGES[path].minScope);
+
+// Everyone but administrators tracks their own time in the employee space
+export const canUseSelfService = (user: User | null | undefined) => !!user && user.role !== 'admin';
+
+export const getManagementHomePath = (user: User | null | undefined) =>
+  (Object.keys(MANAGEMENT_PAGES) as ManagementPath[]).find(path => canAccessPage(user, path));
+
+export const getHomePath = (user: User | null | undefined) =>
+  canUseSelfService(user) ? '/employee/dashboard' : getManagementHomePath(user) ?? '/employee/dashboard';
@@ -0,0 +1,59 @@
+import { apiClient } from './api';
+
+// Web Push on this browser: the service worker (public/sw.js) shows the
+// notifications the server sends while no ClockPilot tab is connected.
+const SERVICE_WORKER_URL = '/sw.js';
+
+export function isPushSupported(): boolean {
+  return 'serviceWorker' in navigator && 'PushManager' in window && 'Notification' in window;
+}
+
+// VAPID keys are base64url encoded; the Push API expects raw bytes
+function urlBase64ToUint8Array(base64: string): Uint8Array {
+  const padded = (base64 + '='.repeat((4 - (base64.length % 4)) % 4)).replace(/-/g, '+').replace(/_/g, '/');
+  return Uint8Array.from(atob(padded), char => char.charCodeAt(0));
+}
+
+async function getRegistration(): Promise<ServiceWorkerRegistration> {
+  return (await navigator.serviceWorker.getRegistration(SERVICE_WORKER_URL))
+    ?? navigator.serviceWorker.register(SERVICE_WORKER_URL);
+}
+
+export async function getPushSubscription(): Promise<PushSubscription | null> {
+  if (!isPushSupported()) return null;
+
+  const registration = await navigator.serviceWorker.getRegistration(SERVICE_WORKER_URL);
+  return registration ? registration.pushManager.getSubscription() : null;
+}
+
+// Asks for the permission, subscribes the browser and registers it on the server
+export async function enablePushNotifications(): Promise<PushSubscription> {
+  if (!isPushSupported()) {
+    throw new Error('Votre navigateur ne prend pas en charge les notifications push');
+  }
+  if (await Notification.requestPermission() !== 'granted') {
+    throw new Error('Les notifications sont bloquées pour ce site dans votre navigateur');
+  }
+
+  const { data } = await apiClient.get<{ data: { publicKey: string } }>('/api/push/public-key');
+  const registration = await getRegistration();
+  await navigator.serviceWorker.ready;
+
+  const subscription = await registration.pushManager.getSubscription()
+    ?? await registration.pushManager.subscribe({
+      userVisibleOnly: true,
+      applicationServerKey: urlBase64ToUint8Array(data.data.publicKey),
+    });
+
+  await apiClient.post('/api/push/subscriptions', subscription.toJSON());
+  return subscription;
+}
+
+export async function disablePushNotifications(): Promise<void> {
+  const subscription = await getPushSubscription();
+  if (!subscription) return;
+
+  // Unsubscribe locally even if the server already forgot this device
+  await apiClient.delete('/api/push/subscriptions', { data: { endpoint: subscription.endpoint } }).catch(() => undefined);
+  await subscription.unsubscribe();
+}
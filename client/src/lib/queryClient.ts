@@ -104,6 +104,7 @@ export const queryKeys = {
   planningList: (filters?: any) => ['planning', 'list', filters] as const,
   planningWeek: (employeeId: number, date: string) => ['planning', 'week', employeeId, date] as const,
   planningConflicts: () => ['planning', 'conflicts'] as const,
+  planningTemplates: () => ['planning', 'templates'] as const,
   
   // Time Entries
   timeEntries: () => ['timeEntries'] as const,
@@ -125,9 +126,30 @@ export const queryKeys = {
   departments: () => ['departments'] as const,
   department: (id: number) => ['departments', 'detail', id] as const,
   
+  // Leave requests
+  leaveRequests: () => ['leaveRequests'] as const,
+  leaveRequestsList: (filters?: any) => ['leaveRequests', 'list', filters] as const,
+
+  // Weekly validations
+  validations: () => ['validations'] as const,
+  validationsList: (filters?: any) => ['validations', 'list', filters] as const,
+  validationWeek: (employeeId: number, weekStart: string) => ['validations', 'week', employeeId, weekStart] as const,
+
   // Reports
   reports: () => ['reports'] as const,
   reportData: (type: string, filters?: any) => ['reports', type, filters] as const,
+
+  // Kiosks
+  kiosks: () => ['kiosks'] as const,
+  kioskCredentials: () => ['kiosks', 'credentials'] as const,
+
+  // Scheduled jobs
+  jobs: () => ['jobs'] as const,
+  jobRuns: (name: string) => ['jobs', 'runs', name] as const,
+
+  // Audit log
+  auditLogs: () => ['auditLogs'] as const,
+  auditLogsList: (filters?: any) => ['auditLogs', 'list', filters] as const,
 } as const;
 
 // Cache invalidation helpers
@@ -137,6 +159,10 @@ export const invalidateQueries = {
   timeEntries: () => queryClient.invalidateQueries({ queryKey: queryKeys.timeEntries() }),
   tasks: () => queryClient.invalidateQueries({ queryKey: queryKeys.tasks() }),
   projects: () => queryClient.invalidateQueries({ queryKey: queryKeys.projects() }),
+  leaveRequests: () => queryClient.invalidateQueries({ queryKey: queryKeys.leaveRequests() }),
+  validations: () => queryClient.invalidateQueries({ queryKey: queryKeys.validations() }),
+  kiosks: () => queryClient.invalidateQueries({ queryKey: queryKeys.kiosks() }),
+  jobs: () => queryClient.invalidateQueries({ queryKey: queryKeys.jobs() }),
   all: () => queryClient.invalidateQueries(),
 };
 
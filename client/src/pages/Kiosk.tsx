@@ -0,0 +1,371 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Clock, Coffee, Delete, LogIn, LogOut, Maximize, ScanLine, WifiOff } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  kioskAPI,
+  kioskQueue,
+  kioskTokenManager,
+  getKioskErrorCode,
+  isRetryableKioskError,
+  type KioskAction,
+  type KioskCredentials,
+  type KioskDeviceInfo,
+  type KioskEmployee,
+  type KioskPunch,
+} from '@/lib/kiosk';
+
+// Back to the badge screen after this long without interaction
+const IDLE_RESET_MS = 20 * 1000;
+const CONFIRMATION_MS = 4 * 1000;
+const FLUSH_INTERVAL_MS = 30 * 1000;
+
+const ACTION_LABELS: Record<KioskAction, string> = {
+  clock_in: 'Arrivée',
+  break_start: 'Début de pause',
+  break_end: 'Fin de pause',
+  clock_out: 'Départ',
+};
+
+const ACTION_ICONS: Record<KioskAction, React.ElementType> = {
+  clock_in: LogIn,
+  break_start: Coffee,
+  break_end: Coffee,
+  clock_out: LogOut,
+};
+
+const ERROR_MESSAGES: Record<string, string> = {
+  INVALID_CREDENTIALS: 'Identifiants incorrects',
+  PIN_LOCKED: 'Trop de codes erronés, réessayez plus tard',
+  KIOSK_DEPARTMENT_MISMATCH: 'Cette borne est réservée à un autre service',
+  ALREADY_CLOCKED_IN: 'Vous avez déjà pointé votre arrivée',
+  NOT_CLOCKED_IN: "Aucune arrivée n'est enregistrée",
+  BREAK_ALREADY_STARTED: 'Une pause est déjà en cours',
+  NO_BREAK_IN_PROGRESS: 'Aucune pause en cours',
+  INVALID_KIOSK_TOKEN: "Cette borne n'est plus autorisée",
+};
+
+// Actions allowed by the open punch; unknown when offline
+const getAvailableActions = (punch: KioskPunch | null | undefined): KioskAction[] => {
+  if (punch === undefined) return ['clock_in', 'break_start', 'break_end', 'clock_out'];
+  if (!punch) return ['clock_in'];
+  return punch.breakStartedAt ? ['break_end', 'clock_out'] : ['break_start', 'clock_out'];
+};
+
+type Screen =
+  | { step: 'badge' }
+  | { step: 'pin'; employeeNumber: string; pin: string }
+  | { step: 'actions'; credentials: KioskCredentials; employee?: KioskEmployee; punch?: KioskPunch | null }
+  | { step: 'done'; message: string; offline?: boolean };
+
+export const Kiosk: React.FC = () => {
+  const [device, setDevice] = useState<KioskDeviceInfo | null>(null);
+  const [tokenInput, setTokenInput] = useState('');
+  const [setupError, setSetupError] = useState<string | null>(null);
+  const [screen, setScreen] = useState<Screen>({ step: 'badge' });
+  const [badgeInput, setBadgeInput] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [now, setNow] = useState(new Date());
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+  const [queueCount, setQueueCount] = useState(kioskQueue.getAll().length);
+  const badgeRef = useRef<HTMLInputElement>(null);
+
+  const reset = () => {
+    setScreen({ step: 'badge' });
+    setBadgeInput('');
+    setError(null);
+  };
+
+  const flushQueue = async () => {
+    if (kioskQueue.getAll().length === 0) return;
+    const { remaining } = await kioskQueue.flush();
+    setQueueCount(remaining);
+  };
+
+  // Registered kiosk: check the stored token once
+  useEffect(() => {
+    if (!kioskTokenManager.getToken()) return;
+    kioskAPI.me()
+      .then(setDevice)
+      .catch((err) => {
+        if (isRetryableKioskError(err) && getKioskErrorCode(err) !== 'INVALID_KIOSK_TOKEN') {
+          // Offline at start-up: keep working from the buffer
+          setDevice({ id: 0, name: 'Borne de pointage', department_id: null, work_site_id: null });
+        } else {
+          kioskTokenManager.clearToken();
+        }
+      });
+  }, []);
+
+  useEffect(() => {
+    const clock = setInterval(() => setNow(new Date()), 1000);
+    const flush = setInterval(flushQueue, FLUSH_INTERVAL_MS);
+    const goOnline = () => {
+      setIsOnline(true);
+      flushQueue();
+    };
+    const goOffline = () => setIsOnline(false);
+    window.addEventListener('online', goOnline);
+    window.addEventListener('offline', goOffline);
+    flushQueue();
+
+    return () => {
+      clearInterval(clock);
+      clearInterval(flush);
+      window.removeEventListener('online', goOnline);
+      window.removeEventListener('offline', goOffline);
+    };
+  }, []);
+
+  // Any screen other than the badge one times out back to it
+  useEffect(() => {
+    if (screen.step === 'badge') {
+      badgeRef.current?.focus();
+      return;
+    }
+    const timeout = setTimeout(reset, screen.step === 'done' ? CONFIRMATION_MS : IDLE_RESET_MS);
+    return () => clearTimeout(timeout);
+  }, [screen]);
+
+  const handleSetup = async (e: React.FormEvent) => {
+    e.preventDefault();
+    kioskTokenManager.setToken(tokenInput.trim());
+    try {
+      setDevice(await kioskAPI.me());
+      setSetupError(null);
+    } catch {
+      kioskTokenManager.clearToken();
+      setSetupError("Jeton de borne invalide ou désactivé");
+    }
+  };
+
+  const identify = async (credentials: KioskCredentials) => {
+    setBusy(true);
+    setError(null);
+    try {
+      const { employee, punch } = await kioskAPI.identify(credentials);
+      setScreen({ step: 'actions', credentials, employee, punch });
+    } catch (err) {
+      if (isRetryableKioskError(err)) {
+        // Nothing to check the PIN against offline: the buffered punch waits for the manager
+        setScreen({ step: 'actions', credentials });
+      } else {
+        const code = getKioskErrorCode(err);
+        setError(ERROR_MESSAGES[code ?? ''] ?? 'Identification impossible');
+        setScreen({ step: 'badge' });
+        setBadgeInput('');
+      }
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handlePunch = async (credentials: KioskCredentials, action: KioskAction, employee?: KioskEmployee) => {
+    setBusy(true);
+    const punch = { credentials, action, idempotency_key: crypto.randomUUID() };
+    try {
+      const result = await kioskAPI.punch(punch);
+      setScreen({
+        step: 'done',
+        message: `${ACTION_LABELS[action]} enregistré(e) pour ${result.employee.firstName} ${result.employee.lastName}`,
+      });
+    } catch (err) {
+      if (isRetryableKioskError(err)) {
+        kioskQueue.add(punch);
+        setQueueCount(kioskQueue.getAll().length);
+        setScreen({
+          step: 'done',
+          message: `${ACTION_LABELS[action]} enregistré(e)${employee ? ` pour ${employee.firstName} ${employee.lastName}` : ''}`,
+          offline: true,
+        });
+      } else {
+        const code = getKioskErrorCode(err);
+        setError(ERROR_MESSAGES[code ?? ''] ?? 'Pointage impossible');
+      }
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const pressKey = (key: string) => {
+    if (screen.step !== 'pin') return;
+    const pin = key === 'back' ? screen.pin.slice(0, -1) : (screen.pin + key).slice(0, 8);
+    setScreen({ ...screen, pin });
+  };
+
+  const enterFullscreen = () => {
+    document.documentElement.requestFullscreen?.().catch(() => undefined);
+  };
+
+  if (!device) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
+        <Card className="w-full max-w-md">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Clock className="h-5 w-5" />
+              Configuration de la borne
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleSetup} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="kiosk-token">Jeton de la borne</Label>
+                <Input
+                  id="kiosk-token"
+                  value={tokenInput}
+                  onChange={(e) => setTokenInput(e.target.value)}
+                  placeholder="Fourni par l'administrateur lors de l'enregistrement"
+                />
+              </div>
+              {setupError && <p className="text-sm text-red-600">{setupError}</p>}
+              <Button type="submit" className="w-full" disabled={!tokenInput.trim()}>
+                Activer la borne
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-900 text-white flex flex-col" onClick={() => screen.step === 'badge' && badgeRef.current?.focus()}>
+      <header className="flex items-center justify-between p-4">
+        <span className="font-medium">{device.name}</span>
+        <div className="flex items-center gap-4 text-sm">
+          {!isOnline && (
+            <span className="flex items-center gap-1 text-orange-400">
+              <WifiOff className="h-4 w-4" />
+              Hors ligne
+            </span>
+          )}
+          {queueCount > 0 && <span className="text-gray-300">{queueCount} pointage(s) en attente</span>}
+          <Button variant="ghost" size="icon" onClick={enterFullscreen} aria-label="Plein écran">
+            <Maximize className="h-4 w-4" />
+          </Button>
+        </div>
+      </header>
+
+      <main className="flex-1 flex flex-col items-center justify-center gap-8 p-4">
+        <div className="text-center">
+          <p className="text-6xl font-bold tabular-nums">
+            {now.toLocaleTimeString('fr-FR', { hour: '2-digit', minute: '2-digit' })}
+          </p>
+          <p className="text-gray-400 capitalize">
+            {now.toLocaleDateString('fr-FR', { weekday: 'long', day: 'numeric', month: 'long' })}
+          </p>
+        </div>
+
+        {error && <p className="text-lg text-red-400">{error}</p>}
+
+        {screen.step === 'badge' && (
+          <div className="w-full max-w-md space-y-6 text-center">
+            {/* Badge readers and QR scanners type the code followed by Enter */}
+            <form onSubmit={(e) => {
+              e.preventDefault();
+              if (badgeInput.trim().length >= 4) identify({ badge_code: badgeInput.trim() });
+            }}>
+              <div className="flex flex-col items-center gap-3">
+                <ScanLine className="h-16 w-16 text-gray-400" />
+                <p className="text-xl">Présentez votre badge</p>
+                <Input
+                  ref={badgeRef}
+                  type="password"
+                  autoFocus
+                  autoComplete="off"
+                  value={badgeInput}
+                  onChange={(e) => setBadgeInput(e.target.value)}
+                  className="max-w-xs bg-gray-800 border-gray-700 text-center"
+                  aria-label="Code badge"
+                  disabled={busy}
+                />
+              </div>
+            </form>
+            <div className="space-y-2">
+              <p className="text-gray-400">ou</p>
+              <div className="flex gap-2 max-w-xs mx-auto">
+                <Input
+                  placeholder="Matricule"
+                  className="bg-gray-800 border-gray-700"
+                  onKeyDown={(e) => {
+                    const value = (e.target as HTMLInputElement).value.trim();
+                    if (e.key === 'Enter' && value) setScreen({ step: 'pin', employeeNumber: value, pin: '' });
+                  }}
+                  onClick={(e) => e.stopPropagation()}
+                />
+              </div>
+            </div>
+          </div>
+        )}
+
+        {screen.step === 'pin' && (
+          <div className="w-full max-w-xs space-y-4 text-center">
+            <p className="text-xl">Code PIN du matricule {screen.employeeNumber}</p>
+            <p className="text-4xl tracking-widest h-12">{'•'.repeat(screen.pin.length)}</p>
+            <div className="grid grid-cols-3 gap-3">
+              {['1', '2', '3', '4', '5', '6', '7', '8', '9', 'back', '0', 'ok'].map(key => (
+                <Button
+                  key={key}
+                  variant={key === 'ok' ? 'default' : 'secondary'}
+                  className="h-16 text-2xl"
+                  disabled={busy || (key === 'ok' && screen.pin.length < 4)}
+                  onClick={() => key === 'ok'
+                    ? identify({ employee_number: screen.employeeNumber, pin: screen.pin })
+                    : pressKey(key)}
+                  aria-label={key === 'back' ? 'Effacer' : key === 'ok' ? 'Valider' : key}
+                >
+                  {key === 'back' ? <Delete className="h-6 w-6" /> : key === 'ok' ? 'OK' : key}
+                </Button>
+              ))}
+            </div>
+            <Button variant="ghost" onClick={reset}>Annuler</Button>
+          </div>
+        )}
+
+        {screen.step === 'actions' && (
+          <div className="w-full max-w-lg space-y-4 text-center">
+            <p className="text-2xl">
+              {screen.employee ? `Bonjour ${screen.employee.firstName}` : 'Pointage hors ligne'}
+            </p>
+            {screen.punch && (
+              <p className="text-gray-400">
+                Arrivée à {new Date(screen.punch.clockIn).toLocaleTimeString('fr-FR', { hour: '2-digit', minute: '2-digit' })}
+                {screen.punch.breakStartedAt && ' · en pause'}
+              </p>
+            )}
+            <div className="grid grid-cols-2 gap-3">
+              {getAvailableActions(screen.employee ? screen.punch : undefined).map(action => {
+                const Icon = ACTION_ICONS[action];
+                return (
+                  <Button
+                    key={action}
+                    className="h-20 text-xl gap-2"
+                    disabled={busy}
+                    onClick={() => handlePunch(screen.credentials, action, screen.employee)}
+                  >
+                    <Icon className="h-6 w-6" />
+                    {ACTION_LABELS[action]}
+                  </Button>
+                );
+              })}
+            </div>
+            <Button variant="ghost" onClick={reset}>Annuler</Button>
+          </div>
+        )}
+
+        {screen.step === 'done' && (
+          <div className="text-center space-y-2">
+            <p className="text-3xl text-green-400">{screen.message}</p>
+            {screen.offline && (
+              <p className="text-orange-400">Hors ligne : le pointage sera transmis au retour de la connexion</p>
+            )}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+};
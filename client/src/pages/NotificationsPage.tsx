@@ -1,7 +1,14 @@
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { useInfiniteScroll } from '@/hooks/useInfiniteScroll';
-import { useNotifications, type Notification, type NotificationFilters } from '@/hooks/useNotifications';
+import {
+  useNotifications,
+  type Notification,
+  type NotificationChannels,
+  type NotificationFilters,
+  type NotificationPreferences,
+  type NotificationType,
+} from '@/hooks/useNotifications';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
@@ -25,6 +32,12 @@ import { Switch } from '@/components/ui/switch';
 import { Label } from '@/components/ui/label';
 import { Separator } from '@/components/ui/separator';
 import { useToast } from '@/hooks/use-toast';
+import {
+  isPushSupported,
+  getPushSubscription,
+  enablePushNotifications,
+  disablePushNotifications,
+} from '@/lib/pushNotifications';
 import { format, isToday, isYesterday } from 'date-fns';
 import { fr } from 'date-fns/locale';
 import {
@@ -225,8 +238,77 @@ function NotificationItem({ notification, onMarkAsRead, onDelete }: Notification
 interface NotificationPreferencesModalProps {
   isOpen: boolean;
   onClose: () => void;
-  preferences: any;
-  onUpdatePreferences: (prefs: any) => void;
+  preferences: NotificationPreferences;
+  onUpdatePreferences: (prefs: Partial<NotificationPreferences>) => void;
+}
+
+const NOTIFICATION_TYPE_LABELS: Record<NotificationType, string> = {
+  task_assigned: 'Tâches assignées',
+  planning_modified: 'Modifications du planning',
+  validation_required: 'Validations',
+  time_missing: 'Saisies manquantes',
+  overtime_alert: 'Heures supplémentaires',
+  schedule_conflict: 'Conflits de planning',
+  system_update: 'Mises à jour',
+  reminder: 'Rappels',
+  leave_request: 'Congés',
+};
+
+const CHANNEL_LABELS: Record<keyof NotificationChannels, string> = {
+  in_app: 'Application',
+  email: 'Email',
+  push: 'Push',
+};
+
+// Push is subscribed per browser, so the switch applies at once instead of on save
+function PushDeviceSetting() {
+  const [enabled, setEnabled] = useState(false);
+  const [isUpdating, setIsUpdating] = useState(false);
+  const { toast } = useToast();
+  const supported = isPushSupported();
+
+  useEffect(() => {
+    getPushSubscription().then(subscription => setEnabled(!!subscription)).catch(() => undefined);
+  }, []);
+
+  const handleChange = async (checked: boolean) => {
+    setIsUpdating(true);
+    try {
+      if (checked) {
+        await enablePushNotifications();
+      } else {
+        await disablePushNotifications();
+      }
+      setEnabled(checked);
+    } catch (error) {
+      toast({
+        title: "Notifications push indisponibles",
+        description: error instanceof Error ? error.message : undefined,
+        variant: "destructive",
+      });
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  return (
+    <div className="flex items-center justify-between">
+      <div className="space-y-0.5">
+        <Label htmlFor="push-device">Push sur cet appareil</Label>
+        <p className="text-xs text-muted-foreground">
+          {supported
+            ? "Reçues lorsque ClockPilot n'est pas ouvert"
+            : 'Non pris en charge par ce navigateur'}
+        </p>
+      </div>
+      <Switch
+        id="push-device"
+        checked={enabled}
+        disabled={!supported || isUpdating}
+        onCheckedChange={handleChange}
+      />
+    </div>
+  );
 }
 
 function NotificationPreferencesModal({ 
@@ -235,16 +317,41 @@ function NotificationPreferencesModal({
   preferences, 
   onUpdatePreferences 
 }: NotificationPreferencesModalProps) {
-  const [localPrefs, setLocalPrefs] = useState(preferences);
+  const [channels, setChannels] = useState(preferences.channels);
+  const [quietHours, setQuietHours] = useState(preferences.quiet_hours);
+  const [digestFrequency, setDigestFrequency] = useState(preferences.digest_frequency);
+  const [language, setLanguage] = useState(preferences.language);
+  const [timezone, setTimezone] = useState(preferences.timezone);
+  const browserTimeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+  // Start from the saved preferences each time the modal opens
+  useEffect(() => {
+    if (!isOpen) return;
+    setChannels(preferences.channels);
+    setQuietHours(preferences.quiet_hours);
+    setDigestFrequency(preferences.digest_frequency);
+    setLanguage(preferences.language);
+    setTimezone(preferences.timezone);
+  }, [isOpen, preferences]);
+
+  const toggleChannel = (type: NotificationType, channel: keyof NotificationChannels, checked: boolean) => {
+    setChannels(prev => prev && ({ ...prev, [type]: { ...prev[type], [channel]: checked } }));
+  };
 
   const handleSave = () => {
-    onUpdatePreferences(localPrefs);
+    onUpdatePreferences({
+      ...(channels && { types: channels }),
+      quiet_hours: quietHours,
+      digest_frequency: digestFrequency,
+      language,
+      timezone,
+    });
     onClose();
   };
 
   return (
     <Dialog open={isOpen} onOpenChange={onClose}>
-      <DialogContent className="max-w-md">
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2">
             <Settings className="h-5 w-5" />
@@ -256,92 +363,122 @@ function NotificationPreferencesModal({
         </DialogHeader>
 
         <div className="space-y-6">
-          {/* Channels */}
-          <div className="space-y-4">
-            <h4 className="font-medium">Canaux de notification</h4>
-            
-            <div className="flex items-center justify-between">
-              <Label htmlFor="email-notifications">Email</Label>
-              <Switch
-                id="email-notifications"
-                checked={localPrefs.emailNotifications}
-                onCheckedChange={(checked) => 
-                  setLocalPrefs((prev: any) => ({ ...prev, emailNotifications: checked }))
-                }
-              />
-            </div>
-            
-            <div className="flex items-center justify-between">
-              <Label htmlFor="push-notifications">Push</Label>
-              <Switch
-                id="push-notifications"
-                checked={localPrefs.pushNotifications}
-                onCheckedChange={(checked) => 
-                  setLocalPrefs((prev: any) => ({ ...prev, pushNotifications: checked }))
-                }
-              />
+          {/* Channels per type */}
+          <div className="space-y-3">
+            <div className="grid grid-cols-[1fr_repeat(3,4.5rem)] items-center gap-2 text-xs text-muted-foreground">
+              <span>Type</span>
+              {Object.values(CHANNEL_LABELS).map(label => (
+                <span key={label} className="text-center">{label}</span>
+              ))}
             </div>
-            
+            {channels && (Object.keys(NOTIFICATION_TYPE_LABELS) as NotificationType[]).map(type => (
+              <div key={type} className="grid grid-cols-[1fr_repeat(3,4.5rem)] items-center gap-2">
+                <Label className="text-sm">{NOTIFICATION_TYPE_LABELS[type]}</Label>
+                {(Object.keys(CHANNEL_LABELS) as Array<keyof NotificationChannels>).map(channel => (
+                  <div key={channel} className="flex justify-center">
+                    <Switch
+                      checked={channels[type][channel]}
+                      onCheckedChange={(checked) => toggleChannel(type, channel, checked)}
+                      aria-label={`${NOTIFICATION_TYPE_LABELS[type]} - ${CHANNEL_LABELS[channel]}`}
+                    />
+                  </div>
+                ))}
+              </div>
+            ))}
+          </div>
+
+          <PushDeviceSetting />
+
+          <Separator />
+
+          {/* Quiet hours */}
+          <div className="space-y-3">
             <div className="flex items-center justify-between">
-              <Label htmlFor="inapp-notifications">Dans l'application</Label>
+              <div className="space-y-0.5">
+                <Label htmlFor="quiet-hours">Heures calmes</Label>
+                <p className="text-xs text-muted-foreground">
+                  Ni email ni push pendant cette plage, sauf notifications urgentes
+                </p>
+              </div>
               <Switch
-                id="inapp-notifications"
-                checked={localPrefs.inAppNotifications}
-                onCheckedChange={(checked) => 
-                  setLocalPrefs((prev: any) => ({ ...prev, inAppNotifications: checked }))
-                }
+                id="quiet-hours"
+                checked={quietHours !== null}
+                onCheckedChange={(checked) => setQuietHours(checked ? { start: '20:00', end: '07:00' } : null)}
               />
             </div>
+            {quietHours && (
+              <div className="grid grid-cols-2 gap-3">
+                <Input
+                  type="time"
+                  value={quietHours.start}
+                  onChange={(e) => setQuietHours({ ...quietHours, start: e.target.value })}
+                  aria-label="Début des heures calmes"
+                />
+                <Input
+                  type="time"
+                  value={quietHours.end}
+                  onChange={(e) => setQuietHours({ ...quietHours, end: e.target.value })}
+                  aria-label="Fin des heures calmes"
+                />
+              </div>
+            )}
           </div>
 
           <Separator />
 
           {/* Frequency */}
           <div className="space-y-3">
-            <Label htmlFor="digest-frequency">Fréquence du digest</Label>
+            <Label htmlFor="digest-frequency">Récapitulatif par email</Label>
             <Select
-              value={localPrefs.digestFrequency}
-              onValueChange={(value) => 
-                setLocalPrefs((prev: any) => ({ ...prev, digestFrequency: value }))
-              }
+              value={digestFrequency}
+              onValueChange={(value) => setDigestFrequency(value as NotificationPreferences['digest_frequency'])}
             >
-              <SelectTrigger>
+              <SelectTrigger id="digest-frequency">
                 <SelectValue />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="immediate">Immédiat</SelectItem>
+                <SelectItem value="none">Aucun (envoi immédiat)</SelectItem>
                 <SelectItem value="daily">Quotidien</SelectItem>
                 <SelectItem value="weekly">Hebdomadaire</SelectItem>
-                <SelectItem value="never">Jamais</SelectItem>
               </SelectContent>
             </Select>
           </div>
 
-          <Separator />
+          <div className="space-y-3">
+            <Label htmlFor="email-language">Langue des emails</Label>
+            <Select
+              value={language}
+              onValueChange={(value) => setLanguage(value as NotificationPreferences['language'])}
+            >
+              <SelectTrigger id="email-language">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="fr">Français</SelectItem>
+                <SelectItem value="en">English</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
 
-          {/* Types */}
-          <div className="space-y-4">
-            <h4 className="font-medium">Types de notifications</h4>
-            
-            {Object.entries(localPrefs.types).map(([type, enabled]) => (
-              <div key={type} className="flex items-center justify-between">
-                <Label htmlFor={`type-${type}`} className="capitalize">
-                  {type === 'info' ? 'Informations' : 
-                   type === 'warning' ? 'Avertissements' :
-                   type === 'error' ? 'Erreurs' : 'Succès'}
-                </Label>
-                <Switch
-                  id={`type-${type}`}
-                  checked={enabled as boolean}
-                  onCheckedChange={(checked) => 
-                    setLocalPrefs((prev: any) => ({ 
-                      ...prev, 
-                      types: { ...prev.types, [type]: checked }
-                    }))
-                  }
-                />
-              </div>
-            ))}
+          <div className="space-y-3">
+            <Label htmlFor="timezone">Fuseau horaire</Label>
+            <Select
+              value={timezone ?? 'company'}
+              onValueChange={(value) => setTimezone(value === 'company' ? null : value)}
+            >
+              <SelectTrigger id="timezone">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="company">Fuseau de l'entreprise</SelectItem>
+                {[browserTimeZone, timezone].filter((zone, index, zones): zone is string => !!zone && zones.indexOf(zone) === index).map(zone => (
+                  <SelectItem key={zone} value={zone}>{zone}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">
+              Utilisé pour les heures calmes et l'envoi du récapitulatif (8h)
+            </p>
           </div>
         </div>
 
@@ -487,7 +624,7 @@ export function NotificationsPage() {
     }
   };
 
-  const handleUpdatePreferences = async (prefs: any) => {
+  const handleUpdatePreferences = async (prefs: Partial<NotificationPreferences>) => {
     try {
       await updatePreferences(prefs);
       toast({
@@ -23,13 +23,42 @@ import {
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
 import {
   Calendar,
   Plus,
   Copy,
-  Clock
+  Clock,
+  Layers,
+  Pencil,
+  Trash2,
+  UserPlus,
+  Wand2,
+  X
 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import {
+  useDepartments,
+  useEmployees,
+  useGeneratePlanning,
+  usePlanningTemplates,
+  useSavePlanningTemplate,
+  useDeletePlanningTemplate,
+  useAssignPlanningTemplate,
+  useRemovePlanningTemplateAssignment,
+  type PlanningTemplate,
+  type PlanningTemplateInput,
+  type PlanningTemplateShift,
+} from '@/lib/api-hooks';
 
 interface Employee {
   id: string;
@@ -49,6 +78,582 @@ interface Shift {
   notes?: string;
 }
 
+const templateDays = [
+  { value: 1, label: 'Lundi' },
+  { value: 2, label: 'Mardi' },
+  { value: 3, label: 'Mercredi' },
+  { value: 4, label: 'Jeudi' },
+  { value: 5, label: 'Vendredi' },
+  { value: 6, label: 'Samedi' },
+  { value: 7, label: 'Dimanche' }
+];
+
+const shiftTypeLabels: Record<PlanningTemplateShift['type'], string> = {
+  work: 'Travail',
+  training: 'Formation',
+  meeting: 'Réunion',
+};
+
+const emptyTemplate = (): PlanningTemplateInput => ({
+  name: '',
+  description: '',
+  cycle_weeks: 1,
+  is_active: true,
+  shifts: [{ week_index: 0, day_of_week: 1, start_time: '09:00', end_time: '17:00', type: 'work' }],
+});
+
+const toTemplateInput = (template: PlanningTemplate): PlanningTemplateInput => ({
+  name: template.name,
+  description: template.description ?? '',
+  cycle_weeks: template.cycle_weeks,
+  is_active: template.is_active,
+  shifts: template.shifts.map(({ week_index, day_of_week, start_time, end_time, type, label }) => ({
+    week_index,
+    day_of_week,
+    start_time: start_time.slice(0, 5),
+    end_time: end_time.slice(0, 5),
+    type,
+    label: label ?? undefined,
+  })),
+});
+
+const getTemplateWeeklyHours = (template: PlanningTemplateInput) => {
+  const minutes = template.shifts.reduce((total, shift) => {
+    const [startH, startM] = shift.start_time.split(':').map(Number);
+    const [endH, endM] = shift.end_time.split(':').map(Number);
+    const duration = (endH * 60 + endM) - (startH * 60 + startM);
+    return total + (duration < 0 ? duration + 24 * 60 : duration);
+  }, 0);
+  return Math.round((minutes / 60 / template.cycle_weeks) * 10) / 10;
+};
+
+const TemplateDialog: React.FC<{
+  template: (PlanningTemplateInput & { id?: number }) | null;
+  onClose: () => void;
+}> = ({ template, onClose }) => {
+  const [form, setForm] = useState<PlanningTemplateInput & { id?: number }>(emptyTemplate());
+  const saveTemplate = useSavePlanningTemplate();
+
+  React.useEffect(() => {
+    if (template) setForm(template);
+  }, [template]);
+
+  const updateShift = (index: number, changes: Partial<PlanningTemplateShift>) => {
+    setForm(prev => ({
+      ...prev,
+      shifts: prev.shifts.map((shift, i) => (i === index ? { ...shift, ...changes } : shift)),
+    }));
+  };
+
+  const handleCycleChange = (cycleWeeks: number) => {
+    setForm(prev => ({
+      ...prev,
+      cycle_weeks: cycleWeeks,
+      shifts: prev.shifts.filter(shift => shift.week_index < cycleWeeks),
+    }));
+  };
+
+  const handleSave = () => {
+    saveTemplate.mutate(
+      { ...form, description: form.description || undefined },
+      { onSuccess: onClose }
+    );
+  };
+
+  return (
+    <Dialog open={!!template} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[760px]">
+        <DialogHeader>
+          <DialogTitle>{form.id ? 'Modifier le modèle' : 'Nouveau modèle de planning'}</DialogTitle>
+          <DialogDescription>
+            Définissez les créneaux de chaque semaine du cycle (journées en coupure, 4x10, rotations 2x8...).
+          </DialogDescription>
+        </DialogHeader>
+        <div className="grid gap-4 py-2">
+          <div className="grid grid-cols-3 gap-4">
+            <div className="grid gap-2 col-span-2">
+              <Label htmlFor="templateName">Nom</Label>
+              <Input
+                id="templateName"
+                value={form.name}
+                maxLength={100}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="cycleWeeks">Cycle (semaines)</Label>
+              <Input
+                id="cycleWeeks"
+                type="number"
+                min={1}
+                max={12}
+                value={form.cycle_weeks}
+                onChange={(e) => handleCycleChange(Math.min(12, Math.max(1, Number(e.target.value) || 1)))}
+              />
+            </div>
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor="templateDescription">Description</Label>
+            <Textarea
+              id="templateDescription"
+              maxLength={500}
+              value={form.description ?? ''}
+              onChange={(e) => setForm({ ...form, description: e.target.value })}
+            />
+          </div>
+          <div className="flex items-center space-x-2">
+            <Switch
+              id="templateActive"
+              checked={form.is_active}
+              onCheckedChange={(checked) => setForm({ ...form, is_active: checked })}
+            />
+            <Label htmlFor="templateActive">Modèle actif</Label>
+          </div>
+
+          <div className="space-y-2 max-h-72 overflow-y-auto">
+            {form.shifts.map((shift, index) => (
+              <div key={index} className="grid grid-cols-12 gap-2 items-center">
+                <Select
+                  value={String(shift.week_index)}
+                  onValueChange={(value) => updateShift(index, { week_index: Number(value) })}
+                >
+                  <SelectTrigger className="col-span-2">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Array.from({ length: form.cycle_weeks }, (_, week) => (
+                      <SelectItem key={week} value={String(week)}>Sem. {week + 1}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select
+                  value={String(shift.day_of_week)}
+                  onValueChange={(value) => updateShift(index, { day_of_week: Number(value) })}
+                >
+                  <SelectTrigger className="col-span-3">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {templateDays.map(day => (
+                      <SelectItem key={day.value} value={String(day.value)}>{day.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  className="col-span-2"
+                  type="time"
+                  value={shift.start_time}
+                  onChange={(e) => updateShift(index, { start_time: e.target.value })}
+                />
+                <Input
+                  className="col-span-2"
+                  type="time"
+                  value={shift.end_time}
+                  onChange={(e) => updateShift(index, { end_time: e.target.value })}
+                />
+                <Select
+                  value={shift.type}
+                  onValueChange={(value) => updateShift(index, { type: value as PlanningTemplateShift['type'] })}
+                >
+                  <SelectTrigger className="col-span-2">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(shiftTypeLabels).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="col-span-1"
+                  disabled={form.shifts.length === 1}
+                  onClick={() => setForm({ ...form, shifts: form.shifts.filter((_, i) => i !== index) })}
+                >
+                  <X className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+          <div className="flex items-center justify-between">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => {
+                const last = form.shifts[form.shifts.length - 1];
+                setForm({
+                  ...form,
+                  shifts: [...form.shifts, { ...last, day_of_week: last.day_of_week % 7 + 1, label: undefined }],
+                });
+              }}
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              Ajouter un créneau
+            </Button>
+            <span className="text-sm text-muted-foreground">
+              {getTemplateWeeklyHours(form)}h par semaine en moyenne
+            </span>
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Annuler</Button>
+          <Button onClick={handleSave} disabled={!form.name.trim() || saveTemplate.isPending}>
+            Enregistrer
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+const AssignTemplateDialog: React.FC<{
+  template: PlanningTemplate | null;
+  onClose: () => void;
+}> = ({ template, onClose }) => {
+  const [form, setForm] = useState({
+    target: 'department' as 'department' | 'employee',
+    targetId: '',
+    start_date: '',
+    end_date: '',
+    cycle_offset: 0,
+  });
+  const { data: departments = [] } = useDepartments();
+  const { data: employeesResponse } = useEmployees({ limit: 100, status: 'active' });
+  // useEmployees renvoie la réponse axios complète : { data: { data: [...], pagination } }
+  const employees: Array<{ id: number; first_name: string; last_name: string }> =
+    (employeesResponse as any)?.data?.data ?? [];
+  const assignTemplate = useAssignPlanningTemplate();
+
+  const handleAssign = () => {
+    if (!template) return;
+    assignTemplate.mutate(
+      {
+        templateId: template.id,
+        employee_id: form.target === 'employee' ? Number(form.targetId) : undefined,
+        department_id: form.target === 'department' ? Number(form.targetId) : undefined,
+        start_date: form.start_date,
+        end_date: form.end_date || undefined,
+        cycle_offset: form.cycle_offset,
+      },
+      {
+        onSuccess: () => {
+          setForm({ ...form, targetId: '', start_date: '', end_date: '', cycle_offset: 0 });
+          onClose();
+        },
+      }
+    );
+  };
+
+  return (
+    <Dialog open={!!template} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle>Affecter « {template?.name} »</DialogTitle>
+          <DialogDescription>
+            L'affectation d'un employé prime sur celle de son département.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="grid gap-4 py-2">
+          <div className="grid grid-cols-2 gap-4">
+            <Select
+              value={form.target}
+              onValueChange={(value) => setForm({ ...form, target: value as 'department' | 'employee', targetId: '' })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="department">Département</SelectItem>
+                <SelectItem value="employee">Employé</SelectItem>
+              </SelectContent>
+            </Select>
+            <Select value={form.targetId} onValueChange={(value) => setForm({ ...form, targetId: value })}>
+              <SelectTrigger>
+                <SelectValue placeholder="Sélectionner" />
+              </SelectTrigger>
+              <SelectContent>
+                {form.target === 'department'
+                  ? departments.map(department => (
+                      <SelectItem key={department.id} value={String(department.id)}>{department.name}</SelectItem>
+                    ))
+                  : employees.map(employee => (
+                      <SelectItem key={employee.id} value={String(employee.id)}>
+                        {employee.first_name} {employee.last_name}
+                      </SelectItem>
+                    ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="grid gap-2">
+              <Label htmlFor="assignStart">Début du cycle</Label>
+              <Input
+                id="assignStart"
+                type="date"
+                value={form.start_date}
+                onChange={(e) => setForm({ ...form, start_date: e.target.value })}
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="assignEnd">Fin (optionnel)</Label>
+              <Input
+                id="assignEnd"
+                type="date"
+                min={form.start_date}
+                value={form.end_date}
+                onChange={(e) => setForm({ ...form, end_date: e.target.value })}
+              />
+            </div>
+          </div>
+          {template && template.cycle_weeks > 1 && (
+            <div className="grid gap-2">
+              <Label>Semaine de départ dans le cycle</Label>
+              <Select
+                value={String(form.cycle_offset)}
+                onValueChange={(value) => setForm({ ...form, cycle_offset: Number(value) })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Array.from({ length: template.cycle_weeks }, (_, week) => (
+                    <SelectItem key={week} value={String(week)}>Semaine {week + 1}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Annuler</Button>
+          <Button
+            onClick={handleAssign}
+            disabled={!form.targetId || !form.start_date || assignTemplate.isPending}
+          >
+            Affecter
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+const GeneratePlanningDialog: React.FC<{
+  open: boolean;
+  templates: PlanningTemplate[];
+  onClose: () => void;
+}> = ({ open, templates, onClose }) => {
+  const [form, setForm] = useState({
+    department_id: '',
+    template_id: 'assignments',
+    start_date: '',
+    end_date: '',
+  });
+  const { data: departments = [] } = useDepartments();
+  const generatePlanning = useGeneratePlanning();
+
+  const handleGenerate = () => {
+    generatePlanning.mutate(
+      {
+        department_id: Number(form.department_id),
+        template_id: form.template_id === 'assignments' ? undefined : Number(form.template_id),
+        start_date: form.start_date,
+        end_date: form.end_date,
+      },
+      { onSuccess: onClose }
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle>Générer le planning</DialogTitle>
+          <DialogDescription>
+            Les congés et créneaux déjà planifiés sont conservés, les contraintes légales sont vérifiées.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="grid gap-4 py-2">
+          <div className="grid gap-2">
+            <Label>Département</Label>
+            <Select value={form.department_id} onValueChange={(value) => setForm({ ...form, department_id: value })}>
+              <SelectTrigger>
+                <SelectValue placeholder="Sélectionner un département" />
+              </SelectTrigger>
+              <SelectContent>
+                {departments.map(department => (
+                  <SelectItem key={department.id} value={String(department.id)}>{department.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="grid gap-2">
+            <Label>Modèle</Label>
+            <Select value={form.template_id} onValueChange={(value) => setForm({ ...form, template_id: value })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="assignments">Selon les affectations</SelectItem>
+                {templates.filter(template => template.is_active).map(template => (
+                  <SelectItem key={template.id} value={String(template.id)}>{template.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="grid gap-2">
+              <Label htmlFor="generateStart">Du</Label>
+              <Input
+                id="generateStart"
+                type="date"
+                value={form.start_date}
+                onChange={(e) => setForm({ ...form, start_date: e.target.value })}
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="generateEnd">Au</Label>
+              <Input
+                id="generateEnd"
+                type="date"
+                min={form.start_date}
+                value={form.end_date}
+                onChange={(e) => setForm({ ...form, end_date: e.target.value })}
+              />
+            </div>
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Annuler</Button>
+          <Button
+            onClick={handleGenerate}
+            disabled={!form.department_id || !form.start_date || !form.end_date || generatePlanning.isPending}
+          >
+            <Wand2 className="w-4 h-4 mr-2" />
+            Générer
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+const PlanningTemplatesCard: React.FC = () => {
+  const { data: templates = [], isLoading } = usePlanningTemplates();
+  const { data: departments = [] } = useDepartments();
+  const deleteTemplate = useDeletePlanningTemplate();
+  const removeAssignment = useRemovePlanningTemplateAssignment();
+  const [editing, setEditing] = useState<(PlanningTemplateInput & { id?: number }) | null>(null);
+  const [assigning, setAssigning] = useState<PlanningTemplate | null>(null);
+  const [isGenerateOpen, setIsGenerateOpen] = useState(false);
+
+  const getAssignmentLabel = (assignment: PlanningTemplate['assignments'][number]) => {
+    const target = assignment.department_id
+      ? departments.find(department => department.id === assignment.department_id)?.name ?? `Département ${assignment.department_id}`
+      : `Employé #${assignment.employee_id}`;
+    return `${target} · dès le ${new Date(assignment.start_date).toLocaleDateString('fr-FR')}`;
+  };
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span className="flex items-center gap-2">
+            <Layers className="h-5 w-5" />
+            Modèles de planning
+          </span>
+          <div className="flex items-center space-x-2">
+            <Button variant="outline" onClick={() => setIsGenerateOpen(true)}>
+              <Wand2 className="w-4 h-4 mr-2" />
+              Générer le planning
+            </Button>
+            <Button onClick={() => setEditing(emptyTemplate())}>
+              <Plus className="w-4 h-4 mr-2" />
+              Nouveau modèle
+            </Button>
+          </div>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-muted-foreground">Chargement...</p>
+        ) : templates.length === 0 ? (
+          <p className="text-muted-foreground">Aucun modèle de planning</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Modèle</TableHead>
+                <TableHead>Cycle</TableHead>
+                <TableHead>Heures / semaine</TableHead>
+                <TableHead>Affectations</TableHead>
+                <TableHead></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {templates.map(template => (
+                <TableRow key={template.id}>
+                  <TableCell>
+                    <div className="font-medium">{template.name}</div>
+                    {template.description && (
+                      <div className="text-xs text-muted-foreground">{template.description}</div>
+                    )}
+                    {!template.is_active && <Badge variant="outline" className="mt-1">Inactif</Badge>}
+                  </TableCell>
+                  <TableCell>
+                    {template.cycle_weeks} semaine{template.cycle_weeks > 1 ? 's' : ''} · {template.shifts.length} créneaux
+                  </TableCell>
+                  <TableCell>{getTemplateWeeklyHours(toTemplateInput(template))}h</TableCell>
+                  <TableCell>
+                    <div className="flex flex-wrap gap-1">
+                      {template.assignments.map(assignment => (
+                        <Badge key={assignment.id} variant="secondary" className="gap-1">
+                          {getAssignmentLabel(assignment)}
+                          <button
+                            onClick={() => removeAssignment.mutate({ templateId: template.id, assignmentId: assignment.id })}
+                            aria-label="Retirer l'affectation"
+                          >
+                            <X className="w-3 h-3" />
+                          </button>
+                        </Badge>
+                      ))}
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-right space-x-1">
+                    <Button variant="ghost" size="sm" onClick={() => setAssigning(template)}>
+                      <UserPlus className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setEditing({ ...toTemplateInput(template), id: template.id })}
+                    >
+                      <Pencil className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => deleteTemplate.mutate(template.id)}
+                      disabled={deleteTemplate.isPending}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <TemplateDialog template={editing} onClose={() => setEditing(null)} />
+      <AssignTemplateDialog template={assigning} onClose={() => setAssigning(null)} />
+      <GeneratePlanningDialog open={isGenerateOpen} templates={templates} onClose={() => setIsGenerateOpen(false)} />
+    </Card>
+  );
+};
+
 export const Planning: React.FC = () => {
   const { toast } = useToast();
   const [isShiftDialogOpen, setIsShiftDialogOpen] = useState(false);
@@ -256,6 +861,8 @@ export const Planning: React.FC = () => {
           </Card>
         </div>
 
+        <PlanningTemplatesCard />
+
         {/* Dialog Création de Shift */}
         <Dialog open={isShiftDialogOpen} onOpenChange={setIsShiftDialogOpen}>
           <DialogContent className="sm:max-w-[500px]">
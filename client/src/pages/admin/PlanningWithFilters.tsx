@@ -1,5 +1,6 @@
 import React, { useState } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { format, parseISO, startOfWeek } from 'date-fns';
 import { AdminSidebar } from '@/components/layouts/AdminSidebar';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -43,10 +44,17 @@ import {
   Users,
   Building,
   Download,
-  Upload
+  Upload,
+  Wand2,
+  ArrowRight,
+  Eye
 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/contexts/AuthContext';
 import { apiRequest } from '@/lib/queryClient';
+import { usePlanningBoard, useUpdatePlanningEntry } from '@/lib/api-hooks';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
 
 interface PlanningEntry {
   id: string;
@@ -58,6 +66,7 @@ interface PlanningEntry {
   status: string;
   validationStatus?: string;
   notes?: string;
+  version: number;
   plannedHours: number;
   hasConflicts: boolean;
   employee: {
@@ -80,6 +89,50 @@ interface Employee {
   lastName: string;
 }
 
+interface PlanningConflict {
+  type: string;
+  severity: 'error' | 'warning';
+  employeeId: number;
+  date: string;
+  description: string;
+  data?: Record<string, any>;
+}
+
+type ResolutionStrategy = 'shift' | 'trim' | 'merge' | 'move';
+
+interface PatchedEntry {
+  id: number;
+  date: string;
+  startTime: string;
+  endTime: string;
+}
+
+interface ResolutionPreview {
+  patch: {
+    updates: Array<{ before: PatchedEntry; after: PatchedEntry }>;
+    deletes: PatchedEntry[];
+  };
+  remainingConflicts: PlanningConflict[];
+  applied: boolean;
+}
+
+// Stratégies proposées par type de conflit (miroir de RESOLUTION_STRATEGIES côté serveur)
+const resolutionStrategies: Record<string, ResolutionStrategy[]> = {
+  overlap: ['shift', 'trim', 'merge', 'move'],
+  max_daily_hours: ['trim', 'move'],
+  max_weekly_hours: ['trim', 'move'],
+  min_rest_period: ['shift', 'trim', 'move'],
+  min_weekly_rest: ['move'],
+  sunday_work: ['move'],
+};
+
+const strategyLabels: Record<ResolutionStrategy, string> = {
+  shift: 'Décaler le créneau',
+  trim: 'Raccourcir le créneau',
+  merge: 'Fusionner les créneaux',
+  move: 'Déplacer sur un autre jour',
+};
+
 interface PlanningResponse {
   message: string;
   data: PlanningEntry[];
@@ -260,10 +313,137 @@ export const Planning: React.FC = () => {
     }
   };
 
+  // Conflits de la période filtrée
+  const { data: conflictsData } = useQuery<{ data: { conflicts: PlanningConflict[] } }>({
+    queryKey: ['/api/planning/conflicts', getQueryParams().start_date, getQueryParams().end_date],
+    queryFn: () => {
+      const { start_date, end_date } = getQueryParams();
+      const params = new URLSearchParams({
+        ...(start_date && { start_date }),
+        ...(end_date && { end_date }),
+      });
+      return apiRequest('/api/planning/conflicts?' + params.toString());
+    },
+  });
+  const resolvableConflicts = (conflictsData?.data.conflicts || []).filter(
+    conflict => (resolutionStrategies[conflict.type] || []).length > 0
+  );
+
+  // Résolution automatique : aperçu (dry-run) puis application
+  const [resolving, setResolving] = useState<PlanningConflict | null>(null);
+  const [strategy, setStrategy] = useState<ResolutionStrategy>('shift');
+  const [targetDate, setTargetDate] = useState('');
+  const [preview, setPreview] = useState<ResolutionPreview | null>(null);
+
+  const resolveConflictMutation = useMutation({
+    mutationFn: (dryRun: boolean) => apiRequest('/api/planning/conflicts/resolve', {
+      method: 'POST',
+      body: JSON.stringify({
+        conflict: resolving,
+        strategy,
+        target_date: strategy === 'move' && targetDate ? targetDate : undefined,
+        dry_run: dryRun,
+      }),
+    }),
+    onSuccess: (response: { data: ResolutionPreview }) => {
+      if (!response.data.applied) {
+        setPreview(response.data);
+        return;
+      }
+
+      queryClient.invalidateQueries({ queryKey: ['/api/planning'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/planning/conflicts'] });
+      setResolving(null);
+      toast({
+        title: "Conflit résolu",
+        description: "Le planning a été corrigé",
+      });
+    },
+    onError: () => {
+      setPreview(null);
+      toast({
+        title: "Résolution impossible",
+        description: "Aucune correction valide pour cette stratégie, ou le planning a changé entre-temps",
+        variant: "destructive"
+      });
+    }
+  });
+
+  const openResolveDialog = (conflict: PlanningConflict) => {
+    setResolving(conflict);
+    setStrategy(resolutionStrategies[conflict.type][0]);
+    setTargetDate('');
+    setPreview(null);
+  };
+
   // États pour les dialogs
   const [isAddDialogOpen, setIsAddDialogOpen] = useState(false);
   const [selectedEntry, setSelectedEntry] = useState<PlanningEntry | null>(null);
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
+  const [editForm, setEditForm] = useState({ date: '', startTime: '', endTime: '', type: 'work' });
+
+  // Planning collaboratif : semaine affichée (début du filtre ou semaine en cours)
+  // et administrateurs présents sur le planning
+  const { user } = useAuth();
+  const boardWeekStart = format(
+    startOfWeek(getQueryParams().start_date ? parseISO(getQueryParams().start_date) : new Date(), { weekStartsOn: 1 }),
+    'yyyy-MM-dd'
+  );
+  const { viewers, setEditing } = usePlanningBoard({ weekStart: boardWeekStart });
+  const otherViewers = viewers.filter(viewer => viewer.userId !== user?.id);
+  const weekViewers = otherViewers.filter(viewer => viewer.weekStart === boardWeekStart);
+  const getEditor = (entryId: number | string) =>
+    otherViewers.find(viewer => viewer.editingEntryId === Number(entryId));
+
+  const openEditDialog = (entry: PlanningEntry) => {
+    setSelectedEntry(entry);
+    setEditForm({
+      date: entry.date,
+      startTime: entry.startTime ? formatTime(entry.startTime) : '',
+      endTime: entry.endTime ? formatTime(entry.endTime) : '',
+      type: entry.type,
+    });
+    setIsEditDialogOpen(true);
+    setEditing(Number(entry.id));
+  };
+
+  const closeEditDialog = () => {
+    setIsEditDialogOpen(false);
+    setSelectedEntry(null);
+    setEditing(null);
+  };
+
+  const updateEntryMutation = useUpdatePlanningEntry({
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/planning'] });
+      closeEditDialog();
+      toast({
+        title: "Planning modifié",
+        description: "L'entrée de planning a été mise à jour",
+      });
+    },
+  });
+
+  // Version à jour de l'entrée en cours de modification, patchée par les événements temps réel
+  const liveSelectedEntry = selectedEntry
+    ? (planningData as PlanningResponse | undefined)?.data.find(entry => entry.id === selectedEntry.id) ?? selectedEntry
+    : null;
+  const editedElsewhere = !!selectedEntry && !!liveSelectedEntry && liveSelectedEntry.version !== selectedEntry.version
+    && !updateEntryMutation.isPending;
+
+  const saveEntry = () => {
+    if (!selectedEntry) return;
+    updateEntryMutation.mutate({
+      id: Number(selectedEntry.id),
+      version: selectedEntry.version,
+      data: {
+        date: editForm.date,
+        start_time: editForm.startTime,
+        end_time: editForm.endTime,
+        type: editForm.type,
+      },
+    });
+  };
 
   // Gestion de la validation
   const validatePlanningMutation = useMutation({
@@ -340,6 +520,7 @@ export const Planning: React.FC = () => {
     const labels: Record<string, string> = {
       work: 'Travail',
       vacation: 'Congés',
+      unpaid_leave: 'Congé sans solde',
       sick: 'Maladie',
       training: 'Formation',
       meeting: 'Réunion'
@@ -370,6 +551,27 @@ export const Planning: React.FC = () => {
               <p className="text-gray-600 mt-1">
                 {planningData?.pagination.total || 0} entrée(s) de planning au total
               </p>
+              {otherViewers.length > 0 && (
+                <div className="flex flex-wrap items-center gap-2 mt-2" data-testid="planning-presence">
+                  <Eye className="h-4 w-4 text-muted-foreground" />
+                  {weekViewers.map(viewer => (
+                    <Badge key={viewer.userId} variant={viewer.editingEntryId ? 'default' : 'secondary'}>
+                      {viewer.name}{viewer.editingEntryId ? ' (modifie)' : ''}
+                    </Badge>
+                  ))}
+                  {otherViewers.length > weekViewers.length && (
+                    <span
+                      className="text-xs text-muted-foreground"
+                      title={otherViewers
+                        .filter(viewer => viewer.weekStart !== boardWeekStart)
+                        .map(viewer => `${viewer.name} : semaine du ${formatDate(viewer.weekStart)}`)
+                        .join('\n')}
+                    >
+                      {otherViewers.length - weekViewers.length} sur d'autres semaines
+                    </span>
+                  )}
+                </div>
+              )}
             </div>
             
             <div className="flex items-center gap-3">
@@ -444,6 +646,49 @@ export const Planning: React.FC = () => {
               className="w-full"
             />
 
+            {/* Conflits résolubles automatiquement */}
+            {resolvableConflicts.length > 0 && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2 text-orange-600">
+                    <AlertTriangle className="h-5 w-5" />
+                    {resolvableConflicts.length} conflit(s) à résoudre
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-2">
+                  {resolvableConflicts.map((conflict, index) => (
+                    <div
+                      key={`${conflict.employeeId}-${conflict.date}-${conflict.type}-${index}`}
+                      className="flex items-center justify-between border rounded p-3"
+                    >
+                      <div>
+                        <div className="flex items-center gap-2">
+                          <Badge variant={conflict.severity === 'error' ? 'destructive' : 'secondary'}>
+                            {conflict.severity === 'error' ? 'Bloquant' : 'Avertissement'}
+                          </Badge>
+                          <span className="font-medium">{formatDate(conflict.date)}</span>
+                          <span className="text-sm text-muted-foreground">
+                            {employees.find(emp => emp.id === conflict.employeeId)?.firstName}{' '}
+                            {employees.find(emp => emp.id === conflict.employeeId)?.lastName}
+                          </span>
+                        </div>
+                        <p className="text-sm text-muted-foreground mt-1">{conflict.description}</p>
+                      </div>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => openResolveDialog(conflict)}
+                        data-testid={`button-resolve-conflict-${index}`}
+                      >
+                        <Wand2 className="h-4 w-4 mr-1" />
+                        Résoudre
+                      </Button>
+                    </div>
+                  ))}
+                </CardContent>
+              </Card>
+            )}
+
             {/* Table de planification */}
             <Card>
               <CardHeader>
@@ -566,13 +811,15 @@ export const Planning: React.FC = () => {
                                     </Button>
                                   </>
                                 )}
+                                {getEditor(entry.id) && (
+                                  <Badge variant="outline" className="text-orange-600">
+                                    Modifiée par {getEditor(entry.id)!.name}
+                                  </Badge>
+                                )}
                                 <Button
                                   variant="ghost"
                                   size="sm"
-                                  onClick={() => {
-                                    setSelectedEntry(entry);
-                                    setIsEditDialogOpen(true);
-                                  }}
+                                  onClick={() => openEditDialog(entry)}
                                   data-testid={`button-edit-${entry.id}`}
                                 >
                                   <Edit className="h-4 w-4" />
@@ -620,6 +867,181 @@ export const Planning: React.FC = () => {
           </div>
         </div>
       </div>
+
+      <Dialog open={isEditDialogOpen} onOpenChange={(open) => !open && closeEditDialog()}>
+        <DialogContent className="max-w-xl">
+          <DialogHeader>
+            <DialogTitle>Modifier l'entrée de planning</DialogTitle>
+            <DialogDescription>
+              {selectedEntry && `${selectedEntry.employee.firstName} ${selectedEntry.employee.lastName}`}
+            </DialogDescription>
+          </DialogHeader>
+          {editedElsewhere && (
+            <div className="flex items-center justify-between gap-2 border border-orange-200 bg-orange-50 rounded p-3 text-sm text-orange-700">
+              <span className="flex items-center gap-1">
+                <AlertTriangle className="h-4 w-4" />
+                Cette entrée vient d'être modifiée par un autre utilisateur.
+              </span>
+              <Button variant="outline" size="sm" onClick={() => liveSelectedEntry && openEditDialog(liveSelectedEntry)}>
+                Recharger
+              </Button>
+            </div>
+          )}
+          <div className="grid grid-cols-2 gap-4 py-2">
+            <div className="grid gap-2">
+              <Label htmlFor="editDate">Date</Label>
+              <Input
+                id="editDate"
+                type="date"
+                value={editForm.date}
+                onChange={(e) => setEditForm({ ...editForm, date: e.target.value })}
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label>Type</Label>
+              <Select value={editForm.type} onValueChange={(value) => setEditForm({ ...editForm, type: value })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {['work', 'vacation', 'sick', 'training', 'meeting'].map(type => (
+                    <SelectItem key={type} value={type}>{getTypeBadge(type)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="editStartTime">Début</Label>
+              <Input
+                id="editStartTime"
+                type="time"
+                value={editForm.startTime}
+                onChange={(e) => setEditForm({ ...editForm, startTime: e.target.value })}
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="editEndTime">Fin</Label>
+              <Input
+                id="editEndTime"
+                type="time"
+                value={editForm.endTime}
+                onChange={(e) => setEditForm({ ...editForm, endTime: e.target.value })}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={closeEditDialog}>
+              Annuler
+            </Button>
+            <Button
+              onClick={saveEntry}
+              disabled={updateEntryMutation.isPending || editedElsewhere}
+              data-testid="button-update-planning"
+            >
+              Enregistrer
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!resolving} onOpenChange={(open) => !open && setResolving(null)}>
+        <DialogContent className="max-w-xl">
+          <DialogHeader>
+            <DialogTitle>Résoudre le conflit</DialogTitle>
+            <DialogDescription>{resolving?.description}</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-2">
+            <div className="grid gap-2">
+              <Label>Stratégie</Label>
+              <Select
+                value={strategy}
+                onValueChange={(value) => {
+                  setStrategy(value as ResolutionStrategy);
+                  setPreview(null);
+                }}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(resolving ? resolutionStrategies[resolving.type] || [] : []).map(value => (
+                    <SelectItem key={value} value={value}>{strategyLabels[value]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {strategy === 'move' && (
+              <div className="grid gap-2">
+                <Label htmlFor="resolveTargetDate">Jour cible (optionnel)</Label>
+                <Input
+                  id="resolveTargetDate"
+                  type="date"
+                  value={targetDate}
+                  onChange={(e) => {
+                    setTargetDate(e.target.value);
+                    setPreview(null);
+                  }}
+                />
+                <p className="text-xs text-muted-foreground">
+                  Sans jour cible, le premier jour conforme de la semaine suivante est retenu.
+                </p>
+              </div>
+            )}
+
+            {preview && (
+              <div className="space-y-2 border rounded p-3">
+                {preview.patch.updates.map(({ before, after }) => (
+                  <div key={after.id} className="flex items-center gap-2 text-sm">
+                    <span>{formatDate(before.date)} {before.startTime}-{before.endTime}</span>
+                    <ArrowRight className="h-4 w-4" />
+                    <span className="font-medium">{formatDate(after.date)} {after.startTime}-{after.endTime}</span>
+                  </div>
+                ))}
+                {preview.patch.deletes.map(entry => (
+                  <div key={entry.id} className="text-sm text-red-600 line-through">
+                    {formatDate(entry.date)} {entry.startTime}-{entry.endTime}
+                  </div>
+                ))}
+                {preview.remainingConflicts.length > 0 ? (
+                  preview.remainingConflicts.map((conflict, index) => (
+                    <p key={index} className="text-sm text-orange-600 flex items-center gap-1">
+                      <AlertTriangle className="h-4 w-4" />
+                      {conflict.description}
+                    </p>
+                  ))
+                ) : (
+                  <p className="text-sm text-green-600 flex items-center gap-1">
+                    <CheckCircle className="h-4 w-4" />
+                    Aucun conflit bloquant après correction
+                  </p>
+                )}
+              </div>
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setResolving(null)}>
+              Annuler
+            </Button>
+            {preview ? (
+              <Button
+                onClick={() => resolveConflictMutation.mutate(false)}
+                disabled={resolveConflictMutation.isPending}
+                data-testid="button-apply-resolution"
+              >
+                Appliquer
+              </Button>
+            ) : (
+              <Button
+                onClick={() => resolveConflictMutation.mutate(true)}
+                disabled={resolveConflictMutation.isPending}
+                data-testid="button-preview-resolution"
+              >
+                Aperçu
+              </Button>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 };
\ No newline at end of file
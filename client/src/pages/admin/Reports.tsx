@@ -1,15 +1,35 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { ExportButton } from '@/components/ExportButton';
 import { useQuery } from '@tanstack/react-query';
 import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { usePayrollPreview, useDownloadPayrollExport, type PayrollExportFormat, type PayrollLine } from '@/lib/api-hooks';
 import { 
   FileSpreadsheet, 
   Users, 
   Calendar,
   Clock,
   TrendingUp,
-  Building2
+  Building2,
+  Wallet,
+  Download
 } from 'lucide-react';
 
 interface Employee {
@@ -20,6 +40,120 @@ interface Employee {
   position: string;
 }
 
+const PAYROLL_FORMAT_LABELS: Record<PayrollExportFormat, string> = {
+  csv: 'CSV générique',
+  fixed_width: 'Largeur fixe',
+  dsn: 'Structure DSN (JSON)',
+};
+
+const PAYROLL_UNIT_LABELS: Record<PayrollLine['unit'], string> = {
+  hours: 'h',
+  days: 'j',
+  units: '',
+};
+
+// Previous month by default: payroll is usually prepared once the month has ended
+const getPreviousMonth = () => {
+  const date = new Date();
+  date.setDate(1);
+  date.setMonth(date.getMonth() - 1);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+};
+
+function PayrollExportCard() {
+  const [month, setMonth] = useState(getPreviousMonth);
+  const [exportFormat, setExportFormat] = useState<PayrollExportFormat>('csv');
+  const [showPreview, setShowPreview] = useState(false);
+
+  const { data: report, isLoading } = usePayrollPreview({ month }, { enabled: showPreview && !!month });
+  const downloadMutation = useDownloadPayrollExport();
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Wallet className="h-5 w-5" />
+          Export de paie
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          Variables de paie du mois (heures normales, heures supplémentaires par majoration, nuit, dimanche, absences et titres-restaurant), calculées sur les heures validées.
+        </p>
+        <div className="flex flex-col md:flex-row gap-3">
+          <Input
+            type="month"
+            value={month}
+            onChange={(e) => setMonth(e.target.value)}
+            className="w-full md:w-48"
+          />
+          <Select value={exportFormat} onValueChange={(value) => setExportFormat(value as PayrollExportFormat)}>
+            <SelectTrigger className="w-full md:w-56">
+              <SelectValue placeholder="Format" />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(PAYROLL_FORMAT_LABELS) as PayrollExportFormat[]).map(value => (
+                <SelectItem key={value} value={value}>{PAYROLL_FORMAT_LABELS[value]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" onClick={() => setShowPreview(true)} disabled={!month}>
+            Aperçu
+          </Button>
+          <Button
+            onClick={() => downloadMutation.mutate({ month, format: exportFormat })}
+            disabled={!month || downloadMutation.isPending}
+          >
+            <Download className="h-4 w-4 mr-2" />
+            Télécharger
+          </Button>
+        </div>
+
+        {showPreview && (
+          isLoading ? (
+            <p className="text-sm text-gray-500">Calcul des variables de paie...</p>
+          ) : report && report.employees.some(employee => employee.lines.length > 0) ? (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Employé</TableHead>
+                  <TableHead>Rubrique</TableHead>
+                  <TableHead>Libellé</TableHead>
+                  <TableHead className="text-right">Quantité</TableHead>
+                  <TableHead className="text-right">Taux</TableHead>
+                  <TableHead className="text-right">Montant</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {report.employees.flatMap(employee => employee.lines.map((line, index) => (
+                  <TableRow key={`${employee.employeeId}-${line.variable}`}>
+                    <TableCell className="font-medium">
+                      {index === 0 && `${employee.lastName} ${employee.firstName}`}
+                    </TableCell>
+                    <TableCell><Badge variant="outline">{line.rubric}</Badge></TableCell>
+                    <TableCell>{line.label}</TableCell>
+                    <TableCell className="text-right">
+                      {line.quantity.toFixed(2)} {PAYROLL_UNIT_LABELS[line.unit]}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {line.rate !== null ? `×${line.rate}` : '-'}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {line.amount !== null ? `${line.amount.toFixed(2)} €` : '-'}
+                    </TableCell>
+                  </TableRow>
+                )))}
+              </TableBody>
+            </Table>
+          ) : (
+            <p className="text-sm text-gray-500">Aucune variable de paie pour ce mois</p>
+          )
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
 export function Reports() {
   // Fetch employees for export filters
   const { data: employees = [] } = useQuery<Employee[]>({
@@ -242,6 +376,9 @@ export function Reports() {
         </Card>
       </div>
 
+      {/* Payroll Export */}
+      <PayrollExportCard />
+
       {/* Help Section */}
       <Card>
         <CardHeader>
@@ -23,6 +23,9 @@ import {
   Users
 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import { KioskSettings } from '@/components/KioskSettings';
+import { ScheduledJobs } from '@/components/ScheduledJobs';
+import { AuditLogViewer } from '@/components/AuditLogViewer';
 
 export const Settings: React.FC = () => {
   const { toast } = useToast();
@@ -46,12 +49,15 @@ export const Settings: React.FC = () => {
         </div>
 
         <Tabs defaultValue="company" className="space-y-6">
-          <TabsList className="grid w-full grid-cols-5">
+          <TabsList className="grid w-full grid-cols-8">
             <TabsTrigger value="company">Entreprise</TabsTrigger>
             <TabsTrigger value="work-time">Horaires</TabsTrigger>
             <TabsTrigger value="notifications">Notifications</TabsTrigger>
             <TabsTrigger value="security">Sécurité</TabsTrigger>
             <TabsTrigger value="users">Utilisateurs</TabsTrigger>
+            <TabsTrigger value="kiosks">Bornes</TabsTrigger>
+            <TabsTrigger value="jobs">Tâches</TabsTrigger>
+            <TabsTrigger value="audit">Audit</TabsTrigger>
           </TabsList>
 
           <TabsContent value="company" className="space-y-6">
@@ -315,6 +321,18 @@ export const Settings: React.FC = () => {
               </CardContent>
             </Card>
           </TabsContent>
+
+          <TabsContent value="kiosks" className="space-y-6">
+            <KioskSettings />
+          </TabsContent>
+
+          <TabsContent value="jobs" className="space-y-6">
+            <ScheduledJobs />
+          </TabsContent>
+
+          <TabsContent value="audit" className="space-y-6">
+            <AuditLogViewer />
+          </TabsContent>
         </Tabs>
       </main>
     </div>
@@ -3,6 +3,8 @@ import { AdminSidebar } from '@/components/layouts/AdminSidebar';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Textarea } from '@/components/ui/textarea';
 import {
   Table,
   TableBody,
@@ -22,9 +24,9 @@ import {
   Dialog,
   DialogContent,
   DialogDescription,
+  DialogFooter,
   DialogHeader,
   DialogTitle,
-  DialogTrigger,
 } from '@/components/ui/dialog';
 import {
   CheckCircle,
@@ -33,94 +35,63 @@ import {
   Clock,
   AlertCircle,
   Calendar,
-  Users
+  Users,
+  MapPinOff
 } from 'lucide-react';
-import { useToast } from '@/hooks/use-toast';
+import {
+  useValidations,
+  useValidationWeek,
+  useDecideValidation,
+  useDepartments,
+  type ValidationWeek,
+  type ValidationWeekEntry,
+  type WeeklyValidationStatus,
+} from '@/lib/api-hooks';
+
+const formatDate = (date: string) => new Date(`${date}T00:00:00`).toLocaleDateString('fr-FR');
 
-interface TimeEntry {
-  id: string;
-  employeeName: string;
-  department: string;
-  date: string;
-  startTime: string;
-  endTime: string;
-  totalHours: number;
-  status: 'pending' | 'approved' | 'rejected';
-  notes?: string;
-  submittedAt: string;
-}
+const getEntryHours = (entry: ValidationWeekEntry) => {
+  if (!entry.start_time || !entry.end_time) return 0;
+  const [startHours, startMinutes] = entry.start_time.split(':').map(Number);
+  const [endHours, endMinutes] = entry.end_time.split(':').map(Number);
+  let minutes = endHours * 60 + endMinutes - (startHours * 60 + startMinutes);
+  if (minutes <= 0) minutes += 1440;
+  return Math.round(Math.max(0, minutes - (entry.break_duration || 0)) / 60 * 100) / 100;
+};
 
 export const Validation: React.FC = () => {
-  const { toast } = useToast();
-  const [statusFilter, setStatusFilter] = useState('pending');
+  const [statusFilter, setStatusFilter] = useState<WeeklyValidationStatus | 'all'>('pending');
   const [departmentFilter, setDepartmentFilter] = useState('all');
-  const [selectedEntry, setSelectedEntry] = useState<TimeEntry | null>(null);
-
-  const [timeEntries, setTimeEntries] = useState<TimeEntry[]>([
-    {
-      id: '1',
-      employeeName: 'Marie Dupont',
-      department: 'Production',
-      date: '2024-10-14',
-      startTime: '08:00',
-      endTime: '16:30',
-      totalHours: 8.5,
-      status: 'pending',
-      notes: 'Heures supplémentaires pour finir la commande urgente',
-      submittedAt: '2024-10-14 16:35'
-    },
-    {
-      id: '2',
-      employeeName: 'Jean Martin',
-      department: 'Logistique',
-      date: '2024-10-14',
-      startTime: '09:00',
-      endTime: '17:00',
-      totalHours: 8,
-      status: 'pending',
-      submittedAt: '2024-10-14 17:05'
-    },
-    {
-      id: '3',
-      employeeName: 'Sarah Wilson',
-      department: 'Qualité',
-      date: '2024-10-13',
-      startTime: '07:30',
-      endTime: '15:30',
-      totalHours: 8,
-      status: 'approved',
-      submittedAt: '2024-10-13 15:35'
-    },
-    {
-      id: '4',
-      employeeName: 'Thomas Bernard',
-      department: 'Maintenance',
-      date: '2024-10-13',
-      startTime: '10:00',
-      endTime: '18:00',
-      totalHours: 8,
-      status: 'rejected',
-      notes: 'Décalage horaire non autorisé',
-      submittedAt: '2024-10-13 18:10'
-    }
-  ]);
+  const [selectedWeek, setSelectedWeek] = useState<ValidationWeek | null>(null);
+  const [selectedEntryIds, setSelectedEntryIds] = useState<number[]>([]);
+  const [rejecting, setRejecting] = useState<{ week: ValidationWeek; entryIds?: number[] } | null>(null);
+  const [rejectionReason, setRejectionReason] = useState('');
 
-  const filteredEntries = timeEntries.filter(entry => {
-    const matchesStatus = statusFilter === 'all' || entry.status === statusFilter;
-    const matchesDepartment = departmentFilter === 'all' || entry.department === departmentFilter;
-    return matchesStatus && matchesDepartment;
+  const { data: validationsData, isLoading } = useValidations({
+    scope: 'all',
+    status: statusFilter,
+    department_id: departmentFilter === 'all' ? undefined : parseInt(departmentFilter),
   });
+  const { data: departments = [] } = useDepartments();
+  const { data: weekDetails } = useValidationWeek(
+    selectedWeek?.employeeId ?? 0,
+    selectedWeek?.weekStart ?? '',
+    !!selectedWeek
+  );
+  const decideValidation = useDecideValidation();
 
-  const pendingEntries = timeEntries.filter(entry => entry.status === 'pending');
-  const totalPendingHours = pendingEntries.reduce((sum, entry) => sum + entry.totalHours, 0);
-  const approvedThisMonth = timeEntries.filter(entry => entry.status === 'approved').length;
+  const weeks = validationsData?.data ?? [];
+  const stats = validationsData?.stats;
 
   const getStatusBadge = (status: string) => {
     switch (status) {
       case 'pending':
+      case 'submitted':
         return <Badge className="bg-yellow-100 text-yellow-800 hover:bg-yellow-100">En attente</Badge>;
-      case 'approved':
+      case 'validated':
         return <Badge className="bg-green-100 text-green-800 hover:bg-green-100">Validé</Badge>;
+      case 'partially_validated':
+        return <Badge className="bg-blue-100 text-blue-800 hover:bg-blue-100">Partiel</Badge>;
       case 'rejected':
         return <Badge className="bg-red-100 text-red-800 hover:bg-red-100">Rejeté</Badge>;
       default:
@@ -128,23 +99,54 @@ export const Validation: React.FC = () => {
     }
   };
 
-  const handleValidation = (entryId: string, action: 'approve' | 'reject') => {
-    setTimeEntries(prev => prev.map(entry => 
-      entry.id === entryId 
-        ? { ...entry, status: action === 'approve' ? 'approved' : 'rejected' }
-        : entry
-    ));
-    
-    toast({
-      title: action === 'approve' ? "Heures validées" : "Heures rejetées",
-      description: `Les heures ont été ${action === 'approve' ? 'validées' : 'rejetées'} avec succès.`,
-    });
+  const closeDetails = () => {
+    setSelectedWeek(null);
+    setSelectedEntryIds([]);
+  };
+
+  // Sans sélection, la décision porte sur toute la semaine
+  const handleApprove = (week: ValidationWeek, entryIds?: number[]) => {
+    decideValidation.mutate(
+      {
+        employee_id: week.employeeId,
+        week_start: week.weekStart,
+        action: 'approve',
+        time_entry_ids: entryIds,
+        planning_entry_ids: entryIds ? [] : undefined,
+      },
+      { onSuccess: () => setSelectedEntryIds([]) }
+    );
+  };
+
+  const handleReject = () => {
+    if (!rejecting) return;
+    decideValidation.mutate(
+      {
+        employee_id: rejecting.week.employeeId,
+        week_start: rejecting.week.weekStart,
+        action: 'reject',
+        time_entry_ids: rejecting.entryIds,
+        planning_entry_ids: rejecting.entryIds ? [] : undefined,
+        rejection_reason: rejectionReason,
+      },
+      {
+        onSuccess: () => {
+          setRejecting(null);
+          setRejectionReason('');
+          setSelectedEntryIds([]);
+        },
+      }
+    );
+  };
+
+  const toggleEntry = (entryId: number, checked: boolean) => {
+    setSelectedEntryIds(prev => checked ? [...prev, entryId] : prev.filter(id => id !== entryId));
   };
 
   return (
     <div className="min-h-screen bg-background">
       <AdminSidebar />
-      
+
       {/* Main Content */}
       <main className="ml-64 min-h-screen p-8">
         <div className="mb-8">
@@ -160,8 +162,8 @@ export const Validation: React.FC = () => {
               <AlertCircle className="h-4 w-4 text-yellow-600" />
             </CardHeader>
             <CardContent>
-              <div className="text-2xl font-bold">{pendingEntries.length}</div>
-              <p className="text-xs text-muted-foreground">demandes en attente</p>
+              <div className="text-2xl font-bold">{stats?.pendingWeeks ?? 0}</div>
+              <p className="text-xs text-muted-foreground">semaines en attente</p>
             </CardContent>
           </Card>
 
@@ -171,7 +173,7 @@ export const Validation: React.FC = () => {
               <Clock className="h-4 w-4 text-muted-foreground" />
             </CardHeader>
             <CardContent>
-              <div className="text-2xl font-bold">{totalPendingHours}h</div>
+              <div className="text-2xl font-bold">{stats?.pendingHours ?? 0}h</div>
               <p className="text-xs text-muted-foreground">heures totales</p>
             </CardContent>
           </Card>
@@ -182,7 +184,7 @@ export const Validation: React.FC = () => {
               <CheckCircle className="h-4 w-4 text-green-600" />
             </CardHeader>
             <CardContent>
-              <div className="text-2xl font-bold">{approvedThisMonth}</div>
+              <div className="text-2xl font-bold">{stats?.validatedThisMonth ?? 0}</div>
               <p className="text-xs text-muted-foreground">validations</p>
             </CardContent>
           </Card>
@@ -193,7 +195,7 @@ export const Validation: React.FC = () => {
               <Users className="h-4 w-4 text-muted-foreground" />
             </CardHeader>
             <CardContent>
-              <div className="text-2xl font-bold">18</div>
+              <div className="text-2xl font-bold">{stats?.activeEmployees ?? 0}</div>
               <p className="text-xs text-muted-foreground">employés</p>
             </CardContent>
           </Card>
@@ -203,14 +205,15 @@ export const Validation: React.FC = () => {
         <Card className="mb-6">
           <CardContent className="p-4">
             <div className="flex flex-col md:flex-row gap-4">
-              <Select value={statusFilter} onValueChange={setStatusFilter}>
+              <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as WeeklyValidationStatus | 'all')}>
                 <SelectTrigger className="w-full md:w-48">
                   <SelectValue placeholder="Filtrer par statut" />
                 </SelectTrigger>
                 <SelectContent>
                   <SelectItem value="all">Tous les statuts</SelectItem>
                   <SelectItem value="pending">En attente</SelectItem>
-                  <SelectItem value="approved">Validé</SelectItem>
+                  <SelectItem value="partially_validated">Partiellement validé</SelectItem>
+                  <SelectItem value="validated">Validé</SelectItem>
                   <SelectItem value="rejected">Rejeté</SelectItem>
                 </SelectContent>
               </Select>
@@ -220,121 +223,114 @@ export const Validation: React.FC = () => {
                 </SelectTrigger>
                 <SelectContent>
                   <SelectItem value="all">Tous les départements</SelectItem>
-                  <SelectItem value="Production">Production</SelectItem>
-                  <SelectItem value="Logistique">Logistique</SelectItem>
-                  <SelectItem value="Qualité">Qualité</SelectItem>
-                  <SelectItem value="Maintenance">Maintenance</SelectItem>
+                  {departments.map(department => (
+                    <SelectItem key={department.id} value={String(department.id)}>
+                      {department.name}
+                    </SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
             </div>
           </CardContent>
         </Card>
 
-        {/* Tableau des pointages */}
+        {/* Tableau des semaines soumises */}
         <Card>
           <CardContent className="p-0">
             <Table>
               <TableHeader>
                 <TableRow>
                   <TableHead>Employé</TableHead>
-                  <TableHead>Date</TableHead>
-                  <TableHead>Heures</TableHead>
+                  <TableHead>Semaine</TableHead>
                   <TableHead>Total</TableHead>
+                  <TableHead>Heures sup.</TableHead>
                   <TableHead>Statut</TableHead>
                   <TableHead>Soumis le</TableHead>
                   <TableHead className="text-right">Actions</TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
-                {filteredEntries.map((entry) => (
-                  <TableRow key={entry.id}>
+                {!isLoading && weeks.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={7} className="text-center text-muted-foreground py-8">
+                      Aucune semaine à afficher
+                    </TableCell>
+                  </TableRow>
+                )}
+                {weeks.map((week) => (
+                  <TableRow key={`${week.employeeId}-${week.weekStart}`}>
                     <TableCell>
                       <div>
-                        <p className="font-medium">{entry.employeeName}</p>
-                        <p className="text-sm text-muted-foreground">{entry.department}</p>
+                        <p className="font-medium">{week.employeeName}</p>
+                        <p className="text-sm text-muted-foreground">{week.departmentName ?? '—'}</p>
                       </div>
                     </TableCell>
                     <TableCell>
                       <div className="flex items-center gap-2">
                         <Calendar className="w-4 h-4 text-muted-foreground" />
-                        {new Date(entry.date).toLocaleDateString('fr-FR')}
+                        {formatDate(week.weekStart)} - {formatDate(week.weekEnd)}
                       </div>
                     </TableCell>
                     <TableCell>
-                      <div className="text-sm">
-                        <div>{entry.startTime} - {entry.endTime}</div>
-                      </div>
+                      <span className="font-medium">{week.totalHours}h</span>
                     </TableCell>
                     <TableCell>
-                      <span className="font-medium">{entry.totalHours}h</span>
+                      <span className={week.overtimeHours > 0 ? 'font-medium text-orange-600' : 'text-muted-foreground'}>
+                        {week.overtimeHours}h
+                      </span>
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        {getStatusBadge(week.status)}
+                        {week.approvalStatus === 'pending' && week.approvalStep && week.approvalStep > 1 && (
+                          <Badge variant="outline">Étape {week.approvalStep}</Badge>
+                        )}
+                        {week.lockedAt && <Badge variant="outline">Verrouillée</Badge>}
+                        {week.outOfZoneCount > 0 && (
+                          <Badge variant="outline" className="text-orange-700 border-orange-300">
+                            <MapPinOff className="w-3 h-3 mr-1" />
+                            {week.outOfZoneCount} hors zone
+                          </Badge>
+                        )}
+                      </div>
                     </TableCell>
-                    <TableCell>{getStatusBadge(entry.status)}</TableCell>
                     <TableCell className="text-sm text-muted-foreground">
-                      {new Date(entry.submittedAt).toLocaleDateString('fr-FR')} à{' '}
-                      {new Date(entry.submittedAt).toLocaleTimeString('fr-FR', { 
-                        hour: '2-digit', 
-                        minute: '2-digit' 
-                      })}
+                      {week.submittedAt && (
+                        <>
+                          {new Date(week.submittedAt).toLocaleDateString('fr-FR')} à{' '}
+                          {new Date(week.submittedAt).toLocaleTimeString('fr-FR', {
+                            hour: '2-digit',
+                            minute: '2-digit'
+                          })}
+                        </>
+                      )}
                     </TableCell>
                     <TableCell className="text-right">
                       <div className="flex justify-end gap-2">
-                        <Dialog>
-                          <DialogTrigger asChild>
-                            <Button 
-                              variant="ghost" 
-                              size="sm"
-                              onClick={() => setSelectedEntry(entry)}
-                            >
-                              <Eye className="w-4 h-4" />
-                            </Button>
-                          </DialogTrigger>
-                          <DialogContent>
-                            <DialogHeader>
-                              <DialogTitle>Détails du pointage</DialogTitle>
-                              <DialogDescription>
-                                {entry.employeeName} - {new Date(entry.date).toLocaleDateString('fr-FR')}
-                              </DialogDescription>
-                            </DialogHeader>
-                            <div className="space-y-4">
-                              <div className="grid grid-cols-2 gap-4">
-                                <div>
-                                  <label className="text-sm font-medium">Heure de début</label>
-                                  <p className="text-sm text-muted-foreground">{entry.startTime}</p>
-                                </div>
-                                <div>
-                                  <label className="text-sm font-medium">Heure de fin</label>
-                                  <p className="text-sm text-muted-foreground">{entry.endTime}</p>
-                                </div>
-                              </div>
-                              <div>
-                                <label className="text-sm font-medium">Total d'heures</label>
-                                <p className="text-sm text-muted-foreground">{entry.totalHours} heures</p>
-                              </div>
-                              {entry.notes && (
-                                <div>
-                                  <label className="text-sm font-medium">Notes</label>
-                                  <p className="text-sm text-muted-foreground">{entry.notes}</p>
-                                </div>
-                              )}
-                            </div>
-                          </DialogContent>
-                        </Dialog>
-                        
-                        {entry.status === 'pending' && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setSelectedWeek(week)}
+                        >
+                          <Eye className="w-4 h-4" />
+                        </Button>
+
+                        {week.pendingCount > 0 && !week.lockedAt && (
                           <>
-                            <Button 
-                              variant="ghost" 
+                            <Button
+                              variant="ghost"
                               size="sm"
                               className="text-green-600 hover:text-green-700"
-                              onClick={() => handleValidation(entry.id, 'approve')}
+                              onClick={() => handleApprove(week)}
+                              disabled={decideValidation.isPending}
                             >
                               <CheckCircle className="w-4 h-4" />
                             </Button>
-                            <Button 
-                              variant="ghost" 
+                            <Button
+                              variant="ghost"
                               size="sm"
                               className="text-red-600 hover:text-red-700"
-                              onClick={() => handleValidation(entry.id, 'reject')}
+                              onClick={() => setRejecting({ week })}
                             >
                               <XCircle className="w-4 h-4" />
                             </Button>
@@ -348,7 +344,132 @@ export const Validation: React.FC = () => {
             </Table>
           </CardContent>
         </Card>
+
+        {/* Détail d'une semaine */}
+        <Dialog open={!!selectedWeek} onOpenChange={(open) => !open && closeDetails()}>
+          <DialogContent className="max-w-3xl">
+            <DialogHeader>
+              <DialogTitle>Détails de la semaine</DialogTitle>
+              <DialogDescription>
+                {selectedWeek && `${selectedWeek.employeeName} - semaine du ${formatDate(selectedWeek.weekStart)}`}
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-4">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-8" />
+                    <TableHead>Date</TableHead>
+                    <TableHead>Horaires</TableHead>
+                    <TableHead>Total</TableHead>
+                    <TableHead>Statut</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {(weekDetails?.timeEntries ?? []).filter(entry => entry.status !== 'draft').map(entry => (
+                    <TableRow key={entry.id}>
+                      <TableCell>
+                        {entry.status === 'submitted' && (
+                          <Checkbox
+                            checked={selectedEntryIds.includes(entry.id)}
+                            onCheckedChange={(checked) => toggleEntry(entry.id, checked === true)}
+                          />
+                        )}
+                      </TableCell>
+                      <TableCell>{formatDate(entry.date)}</TableCell>
+                      <TableCell>
+                        <div className="flex items-center gap-2">
+                          {entry.start_time?.slice(0, 5)} - {entry.end_time?.slice(0, 5)}
+                          {entry.geofence_status === 'outside' && (
+                            <Badge variant="outline" className="text-orange-700 border-orange-300" title="Pointage hors du site de travail">
+                              <MapPinOff className="w-3 h-3 mr-1" />
+                              {entry.geofence_distance_meters} m
+                            </Badge>
+                          )}
+                          {entry.geofence_status === 'unknown' && (
+                            <Badge variant="outline" className="text-orange-700 border-orange-300">
+                              <MapPinOff className="w-3 h-3 mr-1" />
+                              Sans position
+                            </Badge>
+                          )}
+                          {entry.review_reason === 'unconfirmed_kiosk_punch' && (
+                            <Badge variant="outline" className="text-orange-700 border-orange-300" title="Pointage rejoué par une borne hors ligne, sans code PIN">
+                              <AlertCircle className="w-3 h-3 mr-1" />
+                              À confirmer
+                            </Badge>
+                          )}
+                          {entry.review_reason === 'delayed_punch' && (
+                            <Badge variant="outline" className="text-orange-700 border-orange-300" title="Pointage transmis en différé par un appareil hors ligne">
+                              <Clock className="w-3 h-3 mr-1" />
+                              Transmis en différé
+                            </Badge>
+                          )}
+                        </div>
+                      </TableCell>
+                      <TableCell>{getEntryHours(entry)}h</TableCell>
+                      <TableCell>{getStatusBadge(entry.status)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+              {weekDetails && weekDetails.planningEntries.length > 0 && (
+                <p className="text-sm text-muted-foreground">
+                  {weekDetails.planningEntries.length} créneau(x) planifié(s) cette semaine, validé(s) avec la semaine entière.
+                </p>
+              )}
+              {selectedWeek?.rejectionReason && (
+                <div>
+                  <label className="text-sm font-medium">Motif du dernier rejet</label>
+                  <p className="text-sm text-muted-foreground">{selectedWeek.rejectionReason}</p>
+                </div>
+              )}
+            </div>
+            {selectedWeek && selectedWeek.pendingCount > 0 && !selectedWeek.lockedAt && (
+              <DialogFooter>
+                <Button
+                  variant="outline"
+                  className="text-red-600"
+                  onClick={() => setRejecting({ week: selectedWeek, entryIds: selectedEntryIds.length > 0 ? selectedEntryIds : undefined })}
+                >
+                  {selectedEntryIds.length > 0 ? 'Rejeter la sélection' : 'Rejeter la semaine'}
+                </Button>
+                <Button
+                  onClick={() => handleApprove(selectedWeek, selectedEntryIds.length > 0 ? selectedEntryIds : undefined)}
+                  disabled={decideValidation.isPending}
+                >
+                  {selectedEntryIds.length > 0 ? 'Valider la sélection' : 'Valider la semaine'}
+                </Button>
+              </DialogFooter>
+            )}
+          </DialogContent>
+        </Dialog>
+
+        <Dialog open={!!rejecting} onOpenChange={(open) => !open && setRejecting(null)}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Rejeter les heures</DialogTitle>
+              <DialogDescription>
+                Indiquez le motif du rejet, il sera communiqué à l'employé.
+              </DialogDescription>
+            </DialogHeader>
+            <Textarea
+              value={rejectionReason}
+              maxLength={1000}
+              onChange={(e) => setRejectionReason(e.target.value)}
+            />
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setRejecting(null)}>Annuler</Button>
+              <Button
+                variant="destructive"
+                onClick={handleReject}
+                disabled={!rejectionReason.trim() || decideValidation.isPending}
+              >
+                Rejeter
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
       </main>
     </div>
   );
-};
\ No newline at end of file
+};
@@ -1,6 +1,6 @@
 import React, { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { Clock, CheckSquare, BarChart3, Calendar, Play, Pause, Square, ChevronLeft, ChevronRight } from 'lucide-react';
+import { Clock, CheckSquare, BarChart3, Calendar, Play, Pause, Square, ChevronLeft, ChevronRight, CalendarDays } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Progress } from '@/components/ui/progress';
@@ -8,6 +8,15 @@ import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { DashboardLayout } from '@/components/layouts/DashboardLayout';
 import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/contexts/AuthContext';
+import { useEmployeeStats } from '@/lib/api-hooks';
+
+interface LeaveBalance {
+  accrued: number;
+  taken: number;
+  carriedOver: number;
+  balance: number;
+}
 
 interface Pointage {
   id: string;
@@ -53,6 +62,9 @@ const mockPlanning: Planning[] = [
 export const EmployeeDashboard: React.FC = () => {
   const navigate = useNavigate();
   const { toast } = useToast();
+  const { user } = useAuth();
+  const { data: statsResponse } = useEmployeeStats(user?.employee?.id ?? 0);
+  const leaveBalances = statsResponse?.data?.data?.leaveBalances;
   
   const [currentTime, setCurrentTime] = useState(new Date());
   const [pointages, setPointages] = useState<Pointage[]>([]);
@@ -313,6 +325,35 @@ export const EmployeeDashboard: React.FC = () => {
           </Card>
         </div>
 
+        {/* Soldes de congés */}
+        {leaveBalances && (
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
+            {([
+              { key: 'cp', label: 'Congés payés' },
+              { key: 'rtt', label: 'RTT' },
+              { key: 'reposCompensateur', label: 'Repos compensateur' },
+            ] as const).map(({ key, label }) => {
+              const balance: LeaveBalance = leaveBalances[key];
+              return (
+                <Card key={key} className="cursor-pointer" onClick={() => navigate('/employee/leave-requests')}>
+                  <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                    <CardTitle className="text-sm font-medium">{label}</CardTitle>
+                    <CalendarDays className="h-4 w-4 text-muted-foreground" />
+                  </CardHeader>
+                  <CardContent>
+                    <div className="text-2xl font-bold">{balance.balance} j</div>
+                    <p className="text-xs text-muted-foreground">
+                      {balance.accrued} j acquis · {balance.taken} j pris
+                      {balance.carriedOver !== 0 && ` · ${balance.carriedOver} j reportés`}
+                    </p>
+                    <p className="text-xs text-muted-foreground">Période {leaveBalances.period.label}</p>
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+        )}
+
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
           {/* Pointage rapide */}
           <Card>
@@ -0,0 +1,330 @@
+import React, { useState } from 'react';
+import { CalendarDays, Send, X, CheckCircle, XCircle, Users } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { DashboardLayout } from '@/components/layouts/DashboardLayout';
+import {
+  useLeaveRequests,
+  useCreateLeaveRequest,
+  useDecideLeaveRequest,
+  useCancelLeaveRequest,
+  type LeaveRequest,
+} from '@/lib/api-hooks';
+
+const leaveTypeLabels: Record<LeaveRequest['type'], string> = {
+  vacation: 'Congés payés',
+  rtt: 'RTT',
+  compensatory_rest: 'Repos compensateur',
+  sick_leave: 'Arrêt maladie',
+  unpaid_leave: 'Congé sans solde',
+};
+
+const statusLabels: Record<LeaveRequest['status'], { label: string; className: string }> = {
+  pending: { label: 'En attente', className: 'text-orange-600 border-orange-600' },
+  approved: { label: 'Approuvé', className: 'text-green-600 border-green-600' },
+  rejected: { label: 'Refusé', className: 'text-red-600 border-red-600' },
+  cancelled: { label: 'Annulé', className: 'text-muted-foreground' },
+};
+
+const formatDate = (date: string) => new Date(date).toLocaleDateString('fr-FR');
+
+export const LeaveRequests: React.FC = () => {
+  const [form, setForm] = useState({
+    type: 'vacation' as LeaveRequest['type'],
+    start_date: '',
+    end_date: '',
+    reason: '',
+  });
+  const [rejecting, setRejecting] = useState<LeaveRequest | null>(null);
+  const [rejectionReason, setRejectionReason] = useState('');
+
+  const { data: myRequests = [], isLoading } = useLeaveRequests({ scope: 'mine' });
+  const { data: teamRequests = [] } = useLeaveRequests({ scope: 'team', status: 'pending' });
+  const createRequest = useCreateLeaveRequest();
+  const decideRequest = useDecideLeaveRequest();
+  const cancelRequest = useCancelLeaveRequest();
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    createRequest.mutate(
+      {
+        type: form.type,
+        start_date: form.start_date,
+        end_date: form.end_date,
+        reason: form.reason || undefined,
+      },
+      {
+        onSuccess: () => setForm({ type: 'vacation', start_date: '', end_date: '', reason: '' }),
+      }
+    );
+  };
+
+  const handleReject = () => {
+    if (!rejecting) return;
+    decideRequest.mutate(
+      { id: rejecting.id, decision: 'reject', comment: rejectionReason },
+      {
+        onSuccess: () => {
+          setRejecting(null);
+          setRejectionReason('');
+        },
+      }
+    );
+  };
+
+  return (
+    <DashboardLayout>
+      <div className="p-6 space-y-6">
+        <div>
+          <h1 className="text-2xl font-bold text-foreground">Congés</h1>
+          <p className="text-muted-foreground">Demandez un congé et suivez vos demandes</p>
+        </div>
+
+        <Tabs defaultValue="mine">
+          <TabsList>
+            <TabsTrigger value="mine">Mes demandes</TabsTrigger>
+            {teamRequests.length > 0 && (
+              <TabsTrigger value="team">
+                À valider
+                <Badge variant="secondary" className="ml-2">{teamRequests.length}</Badge>
+              </TabsTrigger>
+            )}
+          </TabsList>
+
+          <TabsContent value="mine" className="space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center">
+                  <CalendarDays className="h-5 w-5 mr-2" />
+                  Nouvelle demande
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <form onSubmit={handleSubmit} className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                  <div className="space-y-2">
+                    <Label>Type de congé</Label>
+                    <Select
+                      value={form.type}
+                      onValueChange={(value) => setForm({ ...form, type: value as LeaveRequest['type'] })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.entries(leaveTypeLabels).map(([value, label]) => (
+                          <SelectItem key={value} value={value}>{label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="start_date">Du</Label>
+                    <Input
+                      id="start_date"
+                      type="date"
+                      required
+                      value={form.start_date}
+                      onChange={(e) => setForm({ ...form, start_date: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="end_date">Au</Label>
+                    <Input
+                      id="end_date"
+                      type="date"
+                      required
+                      min={form.start_date}
+                      value={form.end_date}
+                      onChange={(e) => setForm({ ...form, end_date: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-2 md:col-span-4">
+                    <Label htmlFor="reason">Motif (optionnel)</Label>
+                    <Textarea
+                      id="reason"
+                      maxLength={500}
+                      value={form.reason}
+                      onChange={(e) => setForm({ ...form, reason: e.target.value })}
+                    />
+                  </div>
+                  <div className="md:col-span-4 flex justify-end">
+                    <Button type="submit" disabled={createRequest.isPending}>
+                      <Send className="h-4 w-4 mr-2" />
+                      Envoyer la demande
+                    </Button>
+                  </div>
+                </form>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Historique</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {isLoading ? (
+                  <p className="text-muted-foreground">Chargement...</p>
+                ) : myRequests.length === 0 ? (
+                  <p className="text-muted-foreground">Aucune demande de congé</p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Type</TableHead>
+                        <TableHead>Période</TableHead>
+                        <TableHead>Jours</TableHead>
+                        <TableHead>Statut</TableHead>
+                        <TableHead>Commentaire</TableHead>
+                        <TableHead></TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {myRequests.map((request) => (
+                        <TableRow key={request.id}>
+                          <TableCell>{leaveTypeLabels[request.type]}</TableCell>
+                          <TableCell>{formatDate(request.start_date)} – {formatDate(request.end_date)}</TableCell>
+                          <TableCell>{request.days_count}</TableCell>
+                          <TableCell>
+                            <Badge variant="outline" className={statusLabels[request.status].className}>
+                              {statusLabels[request.status].label}
+                            </Badge>
+                          </TableCell>
+                          <TableCell className="text-sm text-muted-foreground">
+                            {request.decision_comment || '-'}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {(request.status === 'pending' || request.status === 'approved') && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => cancelRequest.mutate(request.id)}
+                                disabled={cancelRequest.isPending}
+                              >
+                                <X className="h-4 w-4 mr-1" />
+                                Annuler
+                              </Button>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="team">
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center">
+                  <Users className="h-5 w-5 mr-2" />
+                  Demandes de mon équipe
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Employé</TableHead>
+                      <TableHead>Type</TableHead>
+                      <TableHead>Période</TableHead>
+                      <TableHead>Jours</TableHead>
+                      <TableHead>Motif</TableHead>
+                      <TableHead></TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {teamRequests.map((request) => (
+                      <TableRow key={request.id}>
+                        <TableCell className="font-medium">
+                          {request.employee_first_name} {request.employee_last_name}
+                        </TableCell>
+                        <TableCell>{leaveTypeLabels[request.type]}</TableCell>
+                        <TableCell>{formatDate(request.start_date)} – {formatDate(request.end_date)}</TableCell>
+                        <TableCell>{request.days_count}</TableCell>
+                        <TableCell className="text-sm text-muted-foreground">{request.reason || '-'}</TableCell>
+                        <TableCell className="text-right space-x-2">
+                          <Button
+                            size="sm"
+                            onClick={() => decideRequest.mutate({ id: request.id, decision: 'approve' })}
+                            disabled={decideRequest.isPending}
+                          >
+                            <CheckCircle className="h-4 w-4 mr-1" />
+                            Approuver
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => setRejecting(request)}
+                          >
+                            <XCircle className="h-4 w-4 mr-1" />
+                            Refuser
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          </TabsContent>
+        </Tabs>
+
+        <Dialog open={!!rejecting} onOpenChange={(open) => !open && setRejecting(null)}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Refuser la demande</DialogTitle>
+              <DialogDescription>
+                Indiquez le motif du refus, il sera communiqué à l'employé.
+              </DialogDescription>
+            </DialogHeader>
+            <Textarea
+              value={rejectionReason}
+              maxLength={500}
+              onChange={(e) => setRejectionReason(e.target.value)}
+            />
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setRejecting(null)}>Annuler</Button>
+              <Button
+                variant="destructive"
+                onClick={handleReject}
+                disabled={!rejectionReason.trim() || decideRequest.isPending}
+              >
+                Refuser
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+      </div>
+    </DashboardLayout>
+  );
+};
@@ -1,5 +1,6 @@
-import React, { useState } from 'react';
+import React, { useMemo, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
+import { endOfMonth, endOfWeek, format, parseISO, startOfMonth, startOfWeek } from 'date-fns';
 import { ChevronLeft, ChevronRight, Coffee, Home, Calendar as CalendarIcon, Clock, MapPin, FileText, AlertTriangle, CheckCircle, Info, Eye } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
@@ -11,6 +12,8 @@ import { Label } from '@/components/ui/label';
 import { DashboardLayout } from '@/components/layouts/DashboardLayout';
 import { useToast } from '@/hooks/use-toast';
 import { ExportButton } from '@/components/ExportButton';
+import { useAuth } from '@/contexts/AuthContext';
+import { usePlanning, usePlanningBoard } from '@/lib/api-hooks';
 
 const daysOfWeek = ['Lun', 'Mar', 'Mer', 'Jeu', 'Ven', 'Sam', 'Dim'];
 const daysOfWeekFull = ['Lundi', 'Mardi', 'Mercredi', 'Jeudi', 'Vendredi', 'Samedi', 'Dimanche'];
@@ -33,7 +36,7 @@ interface PlanningShift {
 
 interface PlanningDay {
   date: string;
-  type: 'travail' | 'conge' | 'repos' | 'ferie' | 'maladie' | 'mi-temps';
+  type: 'travail' | 'conge' | 'sans_solde' | 'repos' | 'ferie' | 'maladie' | 'mi-temps';
   shifts: PlanningShift[];
 }
 
@@ -61,6 +64,52 @@ interface DayComparison {
   };
 }
 
+// Entrée de planning telle que renvoyée par GET /api/planning
+interface PlanningApiEntry {
+  id: number;
+  date: string;
+  type: string;
+  startTime: string | null;
+  endTime: string | null;
+  comments?: string | null;
+}
+
+const planningDayTypes: Record<string, PlanningDay['type']> = {
+  work: 'travail',
+  training: 'travail',
+  meeting: 'travail',
+  vacation: 'conge',
+  unpaid_leave: 'sans_solde',
+  sick: 'maladie',
+  sick_leave: 'maladie',
+  rest_day: 'repos',
+};
+
+// Regroupe les entrées par jour au format de l'affichage
+const toPlanningDays = (entries: PlanningApiEntry[]): Map<string, PlanningDay> => {
+  const days = new Map<string, PlanningDay>();
+  for (const entry of entries) {
+    const day = days.get(entry.date) ?? { date: entry.date, type: planningDayTypes[entry.type] ?? 'travail', shifts: [] };
+    if (entry.startTime && entry.endTime) {
+      const start = entry.startTime.slice(0, 5);
+      const end = entry.endTime.slice(0, 5);
+      const [startHours, startMinutes] = start.split(':').map(Number);
+      const [endHours, endMinutes] = end.split(':').map(Number);
+      day.shifts.push({
+        start,
+        end,
+        pauseStart: '',
+        pauseEnd: '',
+        location: '',
+        totalHours: Math.max(0, (endHours * 60 + endMinutes - startHours * 60 - startMinutes) / 60),
+        notes: entry.comments ?? undefined,
+      });
+    }
+    days.set(entry.date, day);
+  }
+  return days;
+};
+
 // Données de démonstration enrichies - Planning employé
 const enrichedPlanning: PlanningDay[] = [
   {
@@ -249,6 +298,30 @@ export const Planning: React.FC = () => {
   const [showLegend, setShowLegend] = useState(true);
   const { toast } = useToast();
   const navigate = useNavigate();
+  const { user } = useAuth();
+
+  // Planning réel du mois affiché (semaines complètes), tenu à jour en direct
+  const { data: planningResponse } = usePlanning({
+    employeeId: user?.employee?.id,
+    startDate: format(startOfWeek(startOfMonth(currentDate), { weekStartsOn: 1 }), 'yyyy-MM-dd'),
+    endDate: format(endOfWeek(endOfMonth(currentDate), { weekStartsOn: 1 }), 'yyyy-MM-dd'),
+    limit: 100,
+  });
+  const livePlanning = useMemo(
+    () => toPlanningDays(((planningResponse as any)?.data?.data ?? []) as PlanningApiEntry[]),
+    [planningResponse]
+  );
+
+  usePlanningBoard({
+    onChange: (event) => {
+      if (event.actorUserId === user?.id) return;
+      const date = 'entry' in event ? event.entry.date : event.date;
+      toast({
+        title: "Planning mis à jour",
+        description: `Votre planning du ${parseISO(date).toLocaleDateString('fr-FR')} a été modifié`,
+      });
+    },
+  });
 
   const getDaysInMonth = (date: Date) => {
     return new Date(date.getFullYear(), date.getMonth() + 1, 0).getDate();
@@ -276,7 +349,7 @@ export const Planning: React.FC = () => {
   };
 
   const getPlanningForDate = (date: string): PlanningDay | null => {
-    return enrichedPlanning.find(p => p.date === date) || null;
+    return livePlanning.get(date) || enrichedPlanning.find(p => p.date === date) || null;
   };
 
   const getComparisonForDate = (date: string): DayComparison | null => {
@@ -288,6 +361,7 @@ export const Planning: React.FC = () => {
       case 'travail': return 'bg-primary text-primary-foreground';
       case 'mi-temps': return 'bg-blue-100 text-blue-800';
       case 'conge': return 'bg-orange-100 text-orange-800';
+      case 'sans_solde': return 'bg-amber-50 text-amber-900';
       case 'repos': return 'bg-gray-100 text-gray-800';
       case 'ferie': return 'bg-purple-100 text-purple-800';
       case 'maladie': return 'bg-red-100 text-red-800';
@@ -300,6 +374,7 @@ export const Planning: React.FC = () => {
       case 'travail': return 'Travail';
       case 'mi-temps': return 'Mi-temps';
       case 'conge': return 'Congé';
+      case 'sans_solde': return 'Sans solde';
       case 'repos': return 'Repos';
       case 'ferie': return 'Férié';
       case 'maladie': return 'Maladie';
@@ -1022,6 +1097,10 @@ export const Planning: React.FC = () => {
                     <div className="w-4 h-4 bg-orange-100 border border-orange-200 rounded"></div>
                     <span className="text-sm">Congé</span>
                   </div>
+                  <div className="flex items-center space-x-3">
+                    <div className="w-4 h-4 bg-amber-50 border border-amber-200 rounded"></div>
+                    <span className="text-sm">Congé sans solde</span>
+                  </div>
                   <div className="flex items-center space-x-3">
                     <div className="w-4 h-4 bg-gray-100 border border-gray-200 rounded"></div>
                     <span className="text-sm">Jour de repos</span>
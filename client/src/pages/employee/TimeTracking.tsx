@@ -1,6 +1,6 @@
 import { useState, useEffect } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { Clock, MapPin, Wifi, WifiOff, CheckCircle, XCircle, History, Timer } from 'lucide-react';
+import { Clock, MapPin, Wifi, WifiOff, CheckCircle, XCircle, History, Timer, Coffee, Play } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -14,7 +14,9 @@ interface TimeEntry {
   id: number;
   employeeId: number;
   clockIn: string;
-  clockOut?: string;
+  clockOut?: string | null;
+  breakStartedAt?: string | null;
+  breakMinutes: number;
   type: 'work' | 'break';
   location?: {
     latitude: number;
@@ -26,7 +28,9 @@ interface TimeEntry {
   updatedAt: string;
 }
 
+// Every punch carries its own idempotency key so offline replays cannot punch twice
 interface ClockInRequest {
+  idempotency_key: string;
   type: 'work' | 'break';
   location?: {
     latitude: number;
@@ -37,6 +41,7 @@ interface ClockInRequest {
 }
 
 interface ClockOutRequest {
+  idempotency_key: string;
   notes?: string;
 }
 
@@ -106,8 +111,9 @@ export default function TimeTracking() {
   const clockInMutation = useMutation({
     mutationFn: async (data: ClockInRequest) => {
       if (!offlineStatus.isOnline) {
-        // Store action for offline sync
-        await offlineStatus.syncManager.addToQueue();
+        // Store action for offline sync, stamped with the time of the punch
+        const { idempotency_key, type, ...punch } = data;
+        await offlineStatus.syncManager.addToQueue({ type: 'clock_in', data: punch });
         return { success: true, offline: true };
       }
       
@@ -126,6 +132,15 @@ export default function TimeTracking() {
           description: "L'action sera synchronisée dès que la connexion sera rétablie",
           variant: "default",
         });
+      } else if (data?.data?.warning) {
+        // Accepted outside the work site: the manager may review the punch
+        toast({
+          title: "Pointage hors zone",
+          description: `Votre position (à ${data.data.data.geofence?.distanceMeters ?? '?'} m du site) a été signalée`,
+          variant: "destructive",
+        });
+        queryClient.invalidateQueries({ queryKey: ['/api/time-entries/current'] });
+        queryClient.invalidateQueries({ queryKey: ['/api/time-entries/today'] });
       } else {
         toast({
           title: "Pointage d'entrée réussi",
@@ -149,8 +164,9 @@ export default function TimeTracking() {
   const clockOutMutation = useMutation({
     mutationFn: async (data: ClockOutRequest) => {
       if (!offlineStatus.isOnline) {
-        // Store action for offline sync
-        await offlineStatus.syncManager.addToQueue();
+        // Store action for offline sync, stamped with the time of the punch
+        const { idempotency_key, ...punch } = data;
+        await offlineStatus.syncManager.addToQueue({ type: 'clock_out', data: punch });
         return { success: true, offline: true };
       }
       
@@ -188,6 +204,40 @@ export default function TimeTracking() {
     },
   });
 
+  // Break start / end mutation
+  const breakMutation = useMutation({
+    mutationFn: async (action: 'break-start' | 'break-end') => {
+      if (!offlineStatus.isOnline) {
+        await offlineStatus.syncManager.addToQueue({ type: action === 'break-start' ? 'break_start' : 'break_end', data: {} });
+        return { success: true, offline: true };
+      }
+
+      return await apiRequest(`/api/time-entries/${action}`, {
+        method: 'POST',
+        body: JSON.stringify({ idempotency_key: crypto.randomUUID() }),
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      });
+    },
+    onSuccess: (data: any, action) => {
+      toast({
+        title: action === 'break-start' ? "Pause commencée" : "Pause terminée",
+        description: data?.offline ? "L'action sera synchronisée dès que la connexion sera rétablie" : undefined,
+        variant: "default",
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/time-entries/current'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/time-entries/today'] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Erreur de pointage",
+        description: error.message || "Une erreur est survenue",
+        variant: "destructive",
+      });
+    },
+  });
+
   // Calculate today's worked time
   const calculateWorkedTime = () => {
     let totalMinutes = 0;
@@ -201,7 +251,10 @@ export default function TimeTracking() {
             
             // Validate that dates are valid
             if (!isNaN(clockInTime.getTime()) && !isNaN(clockOutTime.getTime())) {
-              totalMinutes += differenceInMinutes(clockOutTime, clockInTime);
+              const ongoingBreak = entry.breakStartedAt
+                ? differenceInMinutes(currentTime, new Date(entry.breakStartedAt))
+                : 0;
+              totalMinutes += Math.max(0, differenceInMinutes(clockOutTime, clockInTime) - (entry.breakMinutes || 0) - ongoingBreak);
             }
           } catch (error) {
             console.warn('Invalid time entry found:', entry.clockIn, entry.clockOut);
@@ -217,9 +270,11 @@ export default function TimeTracking() {
 
   const workedTime = calculateWorkedTime();
   const isClockedIn = currentEntry && !currentEntry.clockOut;
+  const isOnBreak = !!currentEntry?.breakStartedAt;
 
   const handleClockIn = () => {
     const data: ClockInRequest = {
+      idempotency_key: crypto.randomUUID(),
       type: 'work',
       ...(geolocation && { location: geolocation }),
     };
@@ -227,7 +282,7 @@ export default function TimeTracking() {
   };
 
   const handleClockOut = () => {
-    const data: ClockOutRequest = {};
+    const data: ClockOutRequest = { idempotency_key: crypto.randomUUID() };
     clockOutMutation.mutate(data);
   };
 
@@ -353,6 +408,28 @@ export default function TimeTracking() {
               )}
             </div>
 
+            {/* Break Button */}
+            {isClockedIn && (
+              <Button
+                variant="outline"
+                onClick={() => breakMutation.mutate(isOnBreak ? 'break-end' : 'break-start')}
+                disabled={breakMutation.isPending || !offlineStatus.isOnline}
+                data-testid="button-break"
+              >
+                {isOnBreak ? (
+                  <>
+                    <Play className="h-4 w-4 mr-2" />
+                    Reprendre
+                  </>
+                ) : (
+                  <>
+                    <Coffee className="h-4 w-4 mr-2" />
+                    Pause
+                  </>
+                )}
+              </Button>
+            )}
+
             {/* Current Entry Info */}
             {isClockedIn && currentEntry && (
               <div className="bg-green-50 dark:bg-green-900/20 p-4 rounded-lg">
@@ -360,7 +437,10 @@ export default function TimeTracking() {
                   {(() => {
                     try {
                       const clockInDate = new Date(currentEntry.clockIn);
-                      return `Pointé depuis ${format(clockInDate, 'HH:mm', { locale: fr })}`;
+                      const since = `Pointé depuis ${format(clockInDate, 'HH:mm', { locale: fr })}`;
+                      return currentEntry.breakStartedAt
+                        ? `${since} - en pause depuis ${format(new Date(currentEntry.breakStartedAt), 'HH:mm', { locale: fr })}`
+                        : since;
                     } catch {
                       return 'Pointé depuis --:--';
                     }
@@ -13,15 +13,18 @@ const STATIC_ASSETS = [
 // API endpoints that can work offline
 const OFFLINE_ENDPOINTS = [
   '/api/time-entries/clock-in',
+  '/api/time-entries/break-start',
+  '/api/time-entries/break-end',
   '/api/time-entries/clock-out',
   '/api/time-entries/current',
   '/api/time-entries/today'
 ];
 
-// IndexedDB setup for offline queue
+// IndexedDB setup for offline queue (shared with client/src/lib/offlineSync.ts)
 const DB_NAME = 'clockpilot-offline';
-const DB_VERSION = 1;
+const DB_VERSION = 2;
 const STORE_NAME = 'offline-queue';
+const META_STORE_NAME = 'meta';
 
 class OfflineQueue {
   constructor() {
@@ -41,32 +44,45 @@ class OfflineQueue {
       
       request.onupgradeneeded = (event) => {
         const db = event.target.result;
-        if (!db.objectStoreNames.contains(STORE_NAME)) {
-          const store = db.createObjectStore(STORE_NAME, { keyPath: 'id', autoIncrement: true });
-          store.createIndex('timestamp', 'timestamp');
-          store.createIndex('type', 'type');
+        // Version 1 stored raw requests that cannot be replayed safely
+        if (db.objectStoreNames.contains(STORE_NAME)) {
+          db.deleteObjectStore(STORE_NAME);
+        }
+        const store = db.createObjectStore(STORE_NAME, { keyPath: 'id', autoIncrement: true });
+        store.createIndex('client_id', 'client_id', { unique: true });
+        if (!db.objectStoreNames.contains(META_STORE_NAME)) {
+          db.createObjectStore(META_STORE_NAME, { keyPath: 'key' });
         }
       };
     });
   }
 
-  async addToQueue(type, data, endpoint, method = 'POST') {
+  // Same mutation format as the page-side sync manager: replayed through /api/sync/batch
+  async addToQueue(type, data) {
     if (!this.db) await this.initDB();
     
-    const transaction = this.db.transaction([STORE_NAME], 'readwrite');
-    const store = transaction.objectStore(STORE_NAME);
-    
+    const { idempotency_key, ...payload } = data;
     const queueItem = {
+      client_id: idempotency_key || crypto.randomUUID(),
+      user_id: await this.getUserId(),
       type,
-      data,
-      endpoint,
-      method,
-      timestamp: Date.now(),
-      retryCount: 0,
-      synced: false
+      client_timestamp: new Date().toISOString(),
+      data: payload
     };
     
-    return store.add(queueItem);
+    const transaction = this.db.transaction([STORE_NAME], 'readwrite');
+    return transaction.objectStore(STORE_NAME).add(queueItem);
+  }
+
+  // Signed-in user, recorded by the page (syncManager.setUser)
+  async getUserId() {
+    if (!this.db) await this.initDB();
+
+    return new Promise((resolve, reject) => {
+      const request = this.db.transaction([META_STORE_NAME], 'readonly').objectStore(META_STORE_NAME).get('user_id');
+      request.onsuccess = () => resolve(request.result?.value);
+      request.onerror = () => reject(request.error);
+    });
   }
 
   async getQueuedItems() {
@@ -77,59 +93,10 @@ class OfflineQueue {
       const store = transaction.objectStore(STORE_NAME);
       const request = store.getAll();
       
-      request.onsuccess = () => resolve(request.result.filter(item => !item.synced));
+      request.onsuccess = () => resolve(request.result.filter(item => !item.conflict && !item.error));
       request.onerror = () => reject(request.error);
     });
   }
-
-  async markAsSynced(id) {
-    if (!this.db) await this.initDB();
-    
-    const transaction = this.db.transaction([STORE_NAME], 'readwrite');
-    const store = transaction.objectStore(STORE_NAME);
-    const request = store.get(id);
-    
-    request.onsuccess = () => {
-      const item = request.result;
-      if (item) {
-        item.synced = true;
-        store.put(item);
-      }
-    };
-  }
-
-  async incrementRetryCount(id) {
-    if (!this.db) await this.initDB();
-    
-    const transaction = this.db.transaction([STORE_NAME], 'readwrite');
-    const store = transaction.objectStore(STORE_NAME);
-    const request = store.get(id);
-    
-    request.onsuccess = () => {
-      const item = request.result;
-      if (item) {
-        item.retryCount = (item.retryCount || 0) + 1;
-        store.put(item);
-      }
-    };
-  }
-
-  async clearSyncedItems() {
-    if (!this.db) await this.initDB();
-    
-    const transaction = this.db.transaction([STORE_NAME], 'readwrite');
-    const store = transaction.objectStore(STORE_NAME);
-    const request = store.getAll();
-    
-    request.onsuccess = () => {
-      const items = request.result;
-      items.forEach(item => {
-        if (item.synced) {
-          store.delete(item.id);
-        }
-      });
-    };
-  }
 }
 
 const offlineQueue = new OfflineQueue();
@@ -241,12 +208,7 @@ async function handleApiRequest(request) {
       } else if (request.method === 'POST') {
         // Queue POST requests for later sync
         const data = await request.json().catch(() => ({}));
-        await offlineQueue.addToQueue(
-          getRequestType(url.pathname),
-          data,
-          url.pathname,
-          request.method
-        );
+        await offlineQueue.addToQueue(getRequestType(url.pathname), data);
         
         // Return a success response to prevent errors
         return new Response(JSON.stringify({
@@ -273,8 +235,10 @@ async function handleApiRequest(request) {
 
 // Get request type from pathname
 function getRequestType(pathname) {
-  if (pathname.includes('clock-in')) return 'clock-in';
-  if (pathname.includes('clock-out')) return 'clock-out';
+  if (pathname.includes('clock-in')) return 'clock_in';
+  if (pathname.includes('break-start')) return 'break_start';
+  if (pathname.includes('break-end')) return 'break_end';
+  if (pathname.includes('clock-out')) return 'clock_out';
   return 'unknown';
 }
 
@@ -288,60 +252,55 @@ self.addEventListener('sync', event => {
 });
 
 // Sync offline queue
+// The worker has no access to the auth token: open pages replay the queue
+// through the batch endpoint, which also reports conflicts per mutation.
 async function syncOfflineQueue() {
-  console.log('[SW] Syncing offline queue...');
-  
+  const queuedItems = await offlineQueue.getQueuedItems();
+  console.log('[SW] Found', queuedItems.length, 'items to sync');
+  if (queuedItems.length === 0) return;
+
+  const clients = await self.clients.matchAll({ type: 'window' });
+  clients.forEach(client => {
+    client.postMessage({ type: 'SYNC_REQUESTED' });
+  });
+}
+
+// Push notifications (payload built by server/pushService.ts)
+self.addEventListener('push', event => {
+  let payload = {};
   try {
-    const queuedItems = await offlineQueue.getQueuedItems();
-    console.log('[SW] Found', queuedItems.length, 'items to sync');
-    
-    for (const item of queuedItems) {
-      try {
-        const response = await fetch(item.endpoint, {
-          method: item.method,
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify(item.data)
-        });
-        
-        if (response.ok) {
-          await offlineQueue.markAsSynced(item.id);
-          console.log('[SW] Synced item:', item.id);
-          
-          // Notify clients about successful sync
-          const clients = await self.clients.matchAll();
-          clients.forEach(client => {
-            client.postMessage({
-              type: 'SYNC_SUCCESS',
-              data: { item, response: await response.json() }
-            });
-          });
-        } else {
-          await offlineQueue.incrementRetryCount(item.id);
-          console.log('[SW] Failed to sync item:', item.id);
-        }
-      } catch (error) {
-        console.log('[SW] Error syncing item:', item.id, error);
-        await offlineQueue.incrementRetryCount(item.id);
-      }
-    }
-    
-    // Clean up synced items
-    await offlineQueue.clearSyncedItems();
-    
-    // Notify clients about sync completion
-    const clients = await self.clients.matchAll();
-    clients.forEach(client => {
-      client.postMessage({
-        type: 'SYNC_COMPLETE'
-      });
-    });
-    
+    payload = event.data ? event.data.json() : {};
   } catch (error) {
-    console.error('[SW] Sync failed:', error);
+    payload = { body: event.data && event.data.text() };
   }
-}
+
+  event.waitUntil(
+    self.registration.showNotification(payload.title || 'ClockPilot', {
+      body: payload.body || '',
+      icon: '/favicon.ico',
+      tag: payload.tag,
+      requireInteraction: !!payload.requireInteraction,
+      data: { url: payload.url || '/notifications', notificationId: payload.notificationId }
+    })
+  );
+});
+
+// Focus an open ClockPilot tab on the notification's page, or open one
+self.addEventListener('notificationclick', event => {
+  event.notification.close();
+  const url = new URL(event.notification.data?.url || '/notifications', self.location.origin);
+  if (url.origin !== self.location.origin) return;
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then(clients => {
+      const client = clients.find(client => new URL(client.url).origin === url.origin);
+      if (client) {
+        return client.navigate(url.href).then(navigated => (navigated || client).focus());
+      }
+      return self.clients.openWindow(url.href);
+    })
+  );
+});
 
 // Message handling
 self.addEventListener('message', event => {
@@ -0,0 +1,97 @@
+import {
+  resolveStepApprover,
+  canActOnApproval,
+  getApprovalTransition,
+  isFinalApprovalStep,
+  getEscalationDays,
+  isApprovalOverdue,
+  getEscalationTarget,
+  type ApprovalStepConfig,
+} from './approvalChains';
+
+const steps: ApprovalStepConfig[] = [
+  { step_order: 1, approver_type: 'direct_manager', approver_id: null, escalation_days: null },
+  { step_order: 2, approver_type: 'department_head', approver_id: 20, escalation_days: 2 },
+  { step_order: 3, approver_type: 'hr', approver_id: 30, escalation_days: null },
+];
+
+describe('Approval Chains', () => {
+  describe('resolveStepApprover', () => {
+    it('should route direct manager steps to the employee manager', () => {
+      expect(resolveStepApprover(steps[0], { id: 1, manager_id: 10 })).toBe(10);
+      expect(resolveStepApprover(steps[0], { id: 1, manager_id: null })).toBeNull();
+    });
+
+    it('should use the configured approver for other steps', () => {
+      expect(resolveStepApprover(steps[1], { id: 1, manager_id: 10 })).toBe(20);
+    });
+
+    it('should never let employees approve their own requests', () => {
+      expect(resolveStepApprover(steps[1], { id: 20, manager_id: 10 })).toBe(10);
+    });
+  });
+
+  describe('canActOnApproval', () => {
+    const delegations = [
+      { delegator_id: 10, delegate_id: 11, start_date: '2024-03-01', end_date: '2024-03-10' },
+      { delegator_id: 11, delegate_id: 12, start_date: '2024-03-05', end_date: '2024-03-20' },
+      { delegator_id: 12, delegate_id: 10, start_date: '2024-03-01', end_date: '2024-03-31' },
+    ];
+
+    it('should allow the approver and active delegates only', () => {
+      expect(canActOnApproval(10, 10, [], '2024-03-01')).toBe(true);
+      expect(canActOnApproval(11, 10, delegations, '2024-03-02')).toBe(true);
+      expect(canActOnApproval(11, 10, delegations, '2024-03-15')).toBe(false);
+    });
+
+    it('should follow cascading delegations and stop on cycles', () => {
+      expect(canActOnApproval(12, 10, delegations, '2024-03-02')).toBe(false);
+      expect(canActOnApproval(12, 10, delegations, '2024-03-06')).toBe(true);
+      expect(canActOnApproval(13, 10, delegations, '2024-03-06')).toBe(false);
+    });
+
+    it('should reserve admin assignments to admins', () => {
+      expect(canActOnApproval(10, null, delegations, '2024-03-02')).toBe(false);
+    });
+  });
+
+  describe('getApprovalTransition', () => {
+    it('should move to the next step on approval', () => {
+      expect(getApprovalTransition(steps, 1, 'approved')).toEqual({ status: 'pending', step: steps[1] });
+      expect(getApprovalTransition(steps, 3, 'approved')).toEqual({ status: 'approved', step: null });
+    });
+
+    it('should close the chain on rejection at any step', () => {
+      expect(getApprovalTransition(steps, 1, 'rejected')).toEqual({ status: 'rejected', step: null });
+    });
+
+    it('should detect the final step', () => {
+      expect(isFinalApprovalStep(steps, 2)).toBe(false);
+      expect(isFinalApprovalStep(steps, 3)).toBe(true);
+    });
+  });
+
+  describe('escalation', () => {
+    it('should prefer the step delay over the chain delay', () => {
+      expect(getEscalationDays(steps[1], 5)).toBe(2);
+      expect(getEscalationDays(steps[0], 5)).toBe(5);
+      expect(getEscalationDays(steps[0], null)).toBeNull();
+    });
+
+    it('should flag requests waiting longer than the delay', () => {
+      const assignedAt = new Date('2024-03-01T09:00:00Z');
+
+      expect(isApprovalOverdue(assignedAt, 2, new Date('2024-03-03T08:59:00Z'))).toBe(false);
+      expect(isApprovalOverdue(assignedAt, 2, new Date('2024-03-03T09:00:00Z'))).toBe(true);
+      expect(isApprovalOverdue(assignedAt, null, new Date('2024-04-01T09:00:00Z'))).toBe(false);
+    });
+
+    it('should escalate to the approver manager, then to admins', () => {
+      const managers = { 10: 20, 20: null };
+
+      expect(getEscalationTarget(10, managers)).toBe(20);
+      expect(getEscalationTarget(20, managers)).toBeNull();
+      expect(getEscalationTarget(null, managers)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,107 @@
+import type { ApprovalChainStep, ApprovalDelegation } from '@shared/schema';
+
+// Étape de circuit nécessaire au calcul de l'approbateur
+export type ApprovalStepConfig = Pick<ApprovalChainStep, 'step_order' | 'approver_type' | 'approver_id' | 'escalation_days'>;
+
+export type DelegationWindow = Pick<ApprovalDelegation, 'delegator_id' | 'delegate_id' | 'start_date' | 'end_date'>;
+
+export interface ApprovalTransition {
+  status: 'pending' | 'approved' | 'rejected';
+  step: ApprovalStepConfig | null; // Étape suivante, null si le circuit est terminé
+}
+
+// Circuit appliqué sans configuration : validation par le manager direct uniquement
+export const DEFAULT_APPROVAL_STEPS: ApprovalStepConfig[] = [
+  { step_order: 1, approver_type: 'direct_manager', approver_id: null, escalation_days: null },
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ============================================================================
+// APPROBATEURS
+// ============================================================================
+
+// Approbateur d'une étape pour un employé (null = administrateurs).
+// Un employé ne valide jamais sa propre demande : on remonte alors à son manager.
+export function resolveStepApprover(
+  step: ApprovalStepConfig,
+  employee: { id: number; manager_id: number | null }
+): number | null {
+  const approverId = step.approver_type === 'direct_manager' ? employee.manager_id : step.approver_id;
+  return approverId === employee.id ? employee.manager_id : approverId;
+}
+
+// L'approbateur désigné et ses délégataires actifs (délégations en cascade) peuvent agir
+export function canActOnApproval(
+  actorId: number,
+  approverId: number | null,
+  delegations: DelegationWindow[],
+  date: string
+): boolean {
+  return approverId !== null && getDelegationChain(approverId, delegations, date).includes(actorId);
+}
+
+// Approbateur puis délégataires successifs actifs à la date (une boucle est coupée)
+function getDelegationChain(approverId: number, delegations: DelegationWindow[], date: string): number[] {
+  const chain = [approverId];
+
+  for (;;) {
+    const current = chain[chain.length - 1];
+    const delegation = delegations.find(candidate =>
+      candidate.delegator_id === current && candidate.start_date <= date && candidate.end_date >= date
+    );
+    if (!delegation || chain.includes(delegation.delegate_id)) return chain;
+
+    chain.push(delegation.delegate_id);
+  }
+}
+
+// ============================================================================
+// PROGRESSION DANS LE CIRCUIT
+// ============================================================================
+
+export function getApprovalStep(steps: ApprovalStepConfig[], stepOrder: number): ApprovalStepConfig | null {
+  return steps.find(step => step.step_order === stepOrder) ?? null;
+}
+
+// Effet d'une décision : un refus clôt le circuit, une approbation passe à l'étape suivante
+export function getApprovalTransition(
+  steps: ApprovalStepConfig[],
+  currentStep: number,
+  action: 'approved' | 'rejected'
+): ApprovalTransition {
+  if (action === 'rejected') {
+    return { status: 'rejected', step: null };
+  }
+
+  const next = steps
+    .filter(step => step.step_order > currentStep)
+    .sort((a, b) => a.step_order - b.step_order)[0];
+
+  return next ? { status: 'pending', step: next } : { status: 'approved', step: null };
+}
+
+export function isFinalApprovalStep(steps: ApprovalStepConfig[], currentStep: number): boolean {
+  return steps.every(step => step.step_order <= currentStep);
+}
+
+// ============================================================================
+// ESCALADE
+// ============================================================================
+
+// Délai d'escalade : celui de l'étape, à défaut celui du circuit (null = jamais)
+export function getEscalationDays(step: ApprovalStepConfig | null, chainEscalationDays: number | null): number | null {
+  return step?.escalation_days ?? chainEscalationDays;
+}
+
+export function isApprovalOverdue(assignedAt: Date, escalationDays: number | null, now: Date): boolean {
+  return escalationDays !== null && now.getTime() - assignedAt.getTime() >= escalationDays * DAY_MS;
+}
+
+// L'escalade remonte au manager de l'approbateur, puis aux administrateurs
+export function getEscalationTarget(
+  approverId: number | null,
+  managers: Record<number, number | null>
+): number | null {
+  return approverId === null ? null : managers[approverId] ?? null;
+}
@@ -0,0 +1,226 @@
+import type { Request } from 'express';
+import {
+  AUDITED_WRITES,
+  auditContextMiddleware,
+  buildAuditEntries,
+  diffAuditSnapshots,
+  formatAuditLogCsv,
+  withAuditLog,
+  type AuditTarget,
+} from './auditLog';
+import { logAuditEvent } from './logger';
+import type { AuditLogWithActor, InsertAuditLog } from '@shared/schema';
+
+jest.mock('./db', () => ({ db: {} }));
+jest.mock('./storage', () => ({ storage: {} }));
+jest.mock('./logger', () => ({ logAuditEvent: jest.fn() }));
+
+type Row = Record<string, unknown> & { id: number };
+
+// In-memory rows per entity type, with the storage methods the wrapper calls
+function createFakeStore(rows: Record<string, Row[]>) {
+  const written: InsertAuditLog[] = [];
+  const store = {
+    written,
+    async getAuditSnapshots(entityType: string, target: AuditTarget) {
+      const table = rows[entityType] ?? [];
+      const matching = 'ids' in target
+        ? table.filter(row => target.ids.includes(row.id))
+        : table.filter(row => row.employee_id === target.employeeId && String(row.date) >= target.from && String(row.date) <= target.to);
+      return matching.map(row => ({ ...row }));
+    },
+    async getLeaveRequest(id: number) {
+      return rows.leave_request?.find(row => row.id === id) as never;
+    },
+    async createAuditLogs(entries: InsertAuditLog[]) {
+      written.push(...entries);
+    },
+    async updatePlanningEntry(id: number, data: Partial<Row>) {
+      const entry = rows.planning_entry.find(row => row.id === id);
+      if (!entry) return undefined;
+      Object.assign(entry, data, { version: (entry.version as number) + 1, updated_at: new Date() });
+      return entry;
+    },
+    async createPlanningEntry(data: Omit<Row, 'id'>) {
+      const entry = { ...data, id: 40 };
+      rows.planning_entry.push(entry);
+      return entry;
+    },
+    async submitTimeEntries(employeeId: number) {
+      rows.time_entry.filter(row => row.employee_id === employeeId).forEach(row => { row.status = 'submitted'; });
+      // Nested audited call: logged once, as part of submitTimeEntries
+      await store.updatePlanningEntry(1, { comments: 'semaine soumise' });
+      return { success: true };
+    },
+  };
+  return store;
+}
+
+function runInRequest<T>(fn: () => Promise<T>): Promise<T> {
+  const req = {
+    user: { id: 2, role: 'admin' },
+    ip: '10.0.0.5',
+    method: 'PUT',
+    originalUrl: '/api/planning/1?force=true',
+    get: (header: string) => header === 'User-Agent' ? 'Mozilla/5.0' : undefined,
+  } as unknown as Request;
+
+  return new Promise((resolve, reject) => {
+    auditContextMiddleware(req, {} as never, () => { fn().then(resolve, reject); });
+  });
+}
+
+describe('Audit Log', () => {
+  const planningEntry = () => ({
+    id: 1,
+    employee_id: 3,
+    date: '2024-03-06',
+    start_time: '08:00:00',
+    end_time: '12:00:00',
+    comments: null,
+    version: 2,
+    updated_at: new Date('2024-03-01T08:00:00Z'),
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should keep only meaningful changes and hide secrets', () => {
+    expect(diffAuditSnapshots(
+      { role: 'employee', password: '[masqué]', version: 1, updated_at: '2024-03-01T08:00:00.000Z', email: 'a@b.fr' },
+      { role: 'admin', password: '[masqué]', version: 2, updated_at: '2024-03-02T08:00:00.000Z', email: 'a@b.fr' }
+    )).toEqual({ role: { before: 'employee', after: 'admin' } });
+
+    const [entry] = buildAuditEntries(
+      'user',
+      'updateUser',
+      [{ id: 4, password: 'hash-1', created_at: new Date('2024-03-01T08:00:00Z') }],
+      [{ id: 4, password: 'hash-2', created_at: new Date('2024-03-01T08:00:00Z') }]
+    );
+    expect(entry.changes).toEqual({ password: { before: '[masqué]', after: '[masqué]' } });
+    expect(entry.after).toEqual({ id: 4, password: '[masqué]', created_at: '2024-03-01T08:00:00.000Z' });
+  });
+
+  it('should tell creations, updates and deletions apart', () => {
+    const entries = buildAuditEntries(
+      'planning_entry',
+      'applyPlanningPatch',
+      [{ id: 1, end_time: '12:00' }, { id: 2, end_time: '18:00' }, { id: 3, end_time: '17:00' }],
+      [{ id: 1, end_time: '11:00' }, { id: 3, end_time: '17:00' }, { id: 5, end_time: '16:00' }]
+    );
+
+    expect(entries.map(entry => [entry.entity_id, entry.action])).toEqual([[1, 'update'], [2, 'delete'], [5, 'create']]);
+    expect(buildAuditEntries('employee', 'softDeleteEmployee', [{ id: 7, is_active: true }], [{ id: 7, is_active: false }], 'delete')[0].action)
+      .toBe('delete');
+  });
+
+  it('should record who changed what, from where', async () => {
+    const store = createFakeStore({ planning_entry: [planningEntry()] });
+    const audited = withAuditLog(store);
+
+    await runInRequest(() => audited.updatePlanningEntry(1, { end_time: '11:30:00' }));
+
+    expect(store.written).toEqual([{
+      action: 'update',
+      entity_type: 'planning_entry',
+      entity_id: 1,
+      operation: 'updatePlanningEntry',
+      changes: { end_time: { before: '12:00:00', after: '11:30:00' } },
+      before: expect.objectContaining({ end_time: '12:00:00', version: 2 }),
+      after: expect.objectContaining({ end_time: '11:30:00', version: 3 }),
+      actor_user_id: 2,
+      actor_role: 'admin',
+      ip_address: '10.0.0.5',
+      user_agent: 'Mozilla/5.0',
+      request_method: 'PUT',
+      request_path: '/api/planning/1',
+    }]);
+  });
+
+  it('should log created records and writes made outside a request', async () => {
+    const store = createFakeStore({ planning_entry: [] });
+
+    await withAuditLog(store).createPlanningEntry({ employee_id: 3, date: '2024-03-07', start_time: '09:00:00' });
+
+    expect(store.written).toHaveLength(1);
+    expect(store.written[0]).toMatchObject({
+      action: 'create',
+      entity_id: 40,
+      actor_user_id: null,
+      ip_address: null,
+      before: null,
+      changes: { employee_id: { before: null, after: 3 } },
+    });
+  });
+
+  it('should log the nested writes of an audited method once', async () => {
+    const store = createFakeStore({
+      planning_entry: [planningEntry()],
+      time_entry: [
+        { id: 10, employee_id: 3, date: '2024-03-05', status: 'draft' },
+        { id: 11, employee_id: 3, date: '2024-03-12', status: 'draft' },
+        { id: 12, employee_id: 4, date: '2024-03-05', status: 'draft' },
+      ],
+    });
+
+    await runInRequest(() => withAuditLog(store).submitTimeEntries(3, '2024-03-04'));
+
+    expect(store.written.map(entry => [entry.entity_type, entry.entity_id, entry.operation])).toEqual([
+      ['time_entry', 10, 'submitTimeEntries'],
+    ]);
+  });
+
+  it('should fall back to the audit file when the table cannot be written', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    const store = createFakeStore({ planning_entry: [planningEntry()] });
+    store.createAuditLogs = () => Promise.reject(new Error('connection lost'));
+
+    const result = await withAuditLog(store).updatePlanningEntry(1, { comments: 'décalé' });
+
+    expect(result).toMatchObject({ comments: 'décalé' });
+    expect(logAuditEvent).toHaveBeenCalledWith('update', 0, expect.objectContaining({ entity_id: 1, operation: 'updatePlanningEntry' }));
+    jest.restoreAllMocks();
+  });
+
+  it('should read back the leave movements written by a period closing', async () => {
+    const store = createFakeStore({});
+    const targets = await Promise.all(AUDITED_WRITES.closeLeavePeriod.map(write => write.targets!(['2024-06-01'], store)));
+
+    expect(targets).toEqual([
+      { match: { period_start: '2024-06-01' } },
+      { match: { period_start: '2025-06-01' } },
+    ]);
+    expect(await AUDITED_WRITES.accrueMonthlyLeave[0].targets!(['2024-02'], store))
+      .toEqual({ match: { movement_type: 'accrual', effective_date: '2024-02-29' } });
+  });
+
+  it('should export one CSV line per change', () => {
+    const log = {
+      id: 1,
+      actor_user_id: 2,
+      actor_name: 'Paul Martin',
+      actor_role: 'admin',
+      action: 'update',
+      entity_type: 'employee',
+      entity_id: 3,
+      operation: 'updateEmployee',
+      changes: { address: { before: null, after: '1 rue; Paris' } },
+      before: null,
+      after: null,
+      ip_address: '10.0.0.5',
+      user_agent: null,
+      request_method: 'PUT',
+      request_path: '/api/employees/3',
+      created_at: new Date('2024-03-05T09:15:00Z'),
+    } as AuditLogWithActor;
+
+    const [header, line] = formatAuditLogCsv([log]).split('\r\n');
+
+    expect(header.split(';')).toHaveLength(11);
+    expect(line).toBe(
+      '2024-03-05T09:15:00.000Z;Paul Martin;admin;update;employee;3;updateEmployee;' +
+      '"{""address"":{""before"":null,""after"":""1 rue; Paris""}}";10.0.0.5;;PUT /api/employees/3'
+    );
+  });
+});
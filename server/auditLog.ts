@@ -0,0 +1,405 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import type { NextFunction, Request, Response } from 'express';
+import { getWeekBounds } from './businessLogic';
+import { logAuditEvent } from './logger';
+import {
+  GEOFENCE_SETTING_KEY,
+  LABOR_RULES_SETTING_KEY,
+  PAYROLL_EXPORT_SETTING_KEY,
+  type AuditAction,
+  type AuditEntityType,
+  type AuditLogWithActor,
+  type InsertAuditLog,
+} from '@shared/schema';
+
+// ============================================================================
+// CONTEXTE DE LA REQUÊTE
+// ============================================================================
+
+// La requête en cours, retrouvée par la couche de stockage sans la passer en
+// paramètre ; l'utilisateur est lu au moment de l'écriture, une fois
+// l'authentification passée
+const requestContext = new AsyncLocalStorage<Request>();
+
+// Évite de journaliser deux fois une écriture faite par une méthode auditée
+// appelée depuis une autre
+const auditedCall = new AsyncLocalStorage<true>();
+
+export const auditContextMiddleware = (req: Request, _res: Response, next: NextFunction) => {
+  requestContext.run(req, next);
+};
+
+export function getAuditRequestContext(req = requestContext.getStore()): Pick<
+  InsertAuditLog,
+  'actor_user_id' | 'actor_role' | 'ip_address' | 'user_agent' | 'request_method' | 'request_path'
+> {
+  const user = (req as (Request & { user?: { id: number; role: string } }) | undefined)?.user;
+  return {
+    actor_user_id: user?.id ?? null,
+    actor_role: user?.role ?? null,
+    ip_address: req?.ip ?? null,
+    user_agent: req?.get('User-Agent') ?? null,
+    request_method: req?.method ?? null,
+    request_path: req?.originalUrl.split('?')[0] ?? null,
+  };
+}
+
+// ============================================================================
+// INSTANTANÉS ET DIFFÉRENCES
+// ============================================================================
+
+type AuditRecord = Record<string, unknown> & { id: number };
+
+// Champs techniques, modifiés à chaque écriture sans en changer le sens
+const IGNORED_FIELDS = new Set(['updated_at', 'version', 'last_seen_at', 'last_used_at']);
+// Jamais recopiés dans le journal : seule leur modification apparaît
+const REDACTED_FIELDS = new Set(['password', 'token_hash', 'kiosk_pin_hash']);
+const REDACTED = '[masqué]';
+
+const redact = (field: string, value: unknown) =>
+  REDACTED_FIELDS.has(field) && value !== null ? REDACTED : value;
+
+// Copie JSON de l'enregistrement, dates en ISO
+export function toAuditSnapshot(record: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(record).map(([field, value]) => [
+    field,
+    value instanceof Date ? value.toISOString() : value ?? null,
+  ]));
+}
+
+// Les secrets sont comparés puis masqués
+export function diffAuditSnapshots(
+  before: Record<string, unknown> | null,
+  after: Record<string, unknown> | null
+): Record<string, { before: unknown; after: unknown }> {
+  const changes: Record<string, { before: unknown; after: unknown }> = {};
+  const fields = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})]);
+
+  for (const field of Array.from(fields)) {
+    if (IGNORED_FIELDS.has(field)) continue;
+    const previous = before?.[field] ?? null;
+    const next = after?.[field] ?? null;
+    if (JSON.stringify(previous) !== JSON.stringify(next)) {
+      changes[field] = { before: redact(field, previous), after: redact(field, next) };
+    }
+  }
+
+  return changes;
+}
+
+const redactSnapshot = (snapshot: Record<string, unknown> | null) => snapshot &&
+  Object.fromEntries(Object.entries(snapshot).map(([field, value]) => [field, redact(field, value)]));
+
+// Une ligne par enregistrement réellement modifié : apparu (création),
+// disparu (suppression) ou dont un champ significatif a changé
+export function buildAuditEntries(
+  entityType: AuditEntityType,
+  operation: string,
+  before: AuditRecord[],
+  after: AuditRecord[],
+  action?: AuditAction
+): Array<Pick<InsertAuditLog, 'action' | 'entity_type' | 'entity_id' | 'operation' | 'changes' | 'before' | 'after'>> {
+  const previous = new Map(before.map(record => [record.id, toAuditSnapshot(record)]));
+  const next = new Map(after.map(record => [record.id, toAuditSnapshot(record)]));
+  const ids = Array.from(new Set([...Array.from(previous.keys()), ...Array.from(next.keys())])).sort((a, b) => a - b);
+
+  return ids.flatMap(id => {
+    const beforeSnapshot = previous.get(id) ?? null;
+    const afterSnapshot = next.get(id) ?? null;
+    const changes = diffAuditSnapshots(beforeSnapshot, afterSnapshot);
+    if (Object.keys(changes).length === 0) return [];
+
+    return [{
+      action: !beforeSnapshot ? 'create' : !afterSnapshot ? 'delete' : action ?? 'update',
+      entity_type: entityType,
+      entity_id: id,
+      operation,
+      changes,
+      before: redactSnapshot(beforeSnapshot),
+      after: redactSnapshot(afterSnapshot),
+    }];
+  });
+}
+
+// ============================================================================
+// MÉTHODES DE STOCKAGE AUDITÉES
+// ============================================================================
+
+// Enregistrements relus avant et après l'appel : par identifiant, toutes les
+// entrées d'un employé sur une période, ou ceux dont les champs valent les
+// valeurs données (créations et suppressions comprises)
+export type AuditTarget =
+  | { ids: number[] }
+  | { employeeId: number; from: string; to: string }
+  | { match: Record<string, string | number | null> };
+
+export interface AuditStore {
+  getAuditSnapshots(entityType: AuditEntityType, target: AuditTarget): Promise<AuditRecord[]>;
+  getLeaveRequest(id: number): Promise<{ employee_id: number; start_date: string; end_date: string } | undefined>;
+  createAuditLogs(entries: InsertAuditLog[]): Promise<void>;
+}
+
+interface AuditedWrite {
+  entity: AuditEntityType;
+  targets?: (args: any[], store: AuditStore) => AuditTarget | Promise<AuditTarget>;
+  // Enregistrements créés, lus dans le résultat de l'appel
+  created?: (result: any, args: any[]) => unknown;
+  // Action imposée aux modifications (suppression logique d'un employé)
+  action?: AuditAction;
+}
+
+const byId = (args: any[]): AuditTarget => ({ ids: [args[0]] });
+const fromResult = (result: any) => result;
+const weekOf = ([params]: any[]): AuditTarget => ({
+  employeeId: params.employeeId,
+  from: params.weekStart,
+  to: getWeekBounds(params.weekStart).weekEnd,
+});
+const dayOf = (employeeId: number, now: Date = new Date()): AuditTarget => {
+  // Un pointage de sortie peut clore une entrée ouverte la veille
+  const day = now.toISOString().split('T')[0];
+  const previousDay = new Date(now.getTime() - 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+  return { employeeId, from: previousDay, to: day };
+};
+// Paramètre global de l'entreprise, créé à son premier enregistrement
+const settingOf = (key: string) => (): AuditTarget => ({ match: { key, user_id: null } });
+// Dernier jour du mois (AAAA-MM), date des acquisitions mensuelles
+const monthEndOf = (month: string) => {
+  const [year, monthIndex] = month.split('-').map(Number);
+  return new Date(Date.UTC(year, monthIndex, 0)).toISOString().split('T')[0];
+};
+const nextPeriodOf = (periodStart: string) => `${parseInt(periodStart) + 1}-06-01`;
+
+// Une entrée par méthode d'écriture de la couche de stockage ; les écritures
+// purement techniques (notifications lues, e-mails, abonnements push, verrous
+// des tâches planifiées, file de synchronisation) n'y figurent pas
+export const AUDITED_WRITES: Record<string, AuditedWrite[]> = {
+  createUser: [{ entity: 'user', created: fromResult }],
+  updateUser: [{ entity: 'user', targets: byId }],
+  createEmployee: [{ entity: 'employee', created: fromResult }],
+  updateEmployee: [{ entity: 'employee', targets: byId }],
+  softDeleteEmployee: [{ entity: 'employee', targets: byId, action: 'delete' }],
+  createDepartment: [{ entity: 'department', created: fromResult }],
+
+  createPlanningEntry: [{ entity: 'planning_entry', created: fromResult }],
+  updatePlanningEntry: [{ entity: 'planning_entry', targets: byId }],
+  deletePlanningEntry: [{ entity: 'planning_entry', targets: byId }],
+  bulkCreatePlanningEntries: [{ entity: 'planning_entry', created: fromResult }],
+  bulkUpdatePlanningEntries: [{ entity: 'planning_entry', targets: ([updates]) => ({ ids: updates.map((update: { id: number }) => update.id) }) }],
+  applyPlanningPatch: [{
+    entity: 'planning_entry',
+    targets: ([patch]) => ({
+      ids: [...patch.updates.map((update: { after: { id: number } }) => update.after.id), ...patch.deletes.map((entry: { id: number }) => entry.id)],
+    }),
+  }],
+  autoSchedulePlanning: [{ entity: 'planning_entry', created: result => result.createdEntries }],
+
+  createValidation: [{ entity: 'validation', created: fromResult }],
+  updateValidation: [{ entity: 'validation', targets: byId }],
+  decideValidationWeek: [
+    { entity: 'time_entry', targets: weekOf },
+    { entity: 'planning_entry', targets: weekOf },
+    { entity: 'validation', created: result => result?.validation },
+    { entity: 'approval_request', targets: ([params]) => ({ ids: params.approval ? [params.approval.requestId] : [] }) },
+  ],
+
+  createTimeEntry: [{ entity: 'time_entry', created: fromResult }],
+  updateTimeEntry: [{ entity: 'time_entry', targets: byId }],
+  deleteTimeEntry: [{ entity: 'time_entry', targets: byId }],
+  bulkCreateTimeEntries: [{ entity: 'time_entry', created: fromResult }],
+  submitTimeEntries: [{
+    entity: 'time_entry',
+    targets: ([employeeId, weekStart]) => ({ employeeId, from: weekStart, to: getWeekBounds(weekStart).weekEnd }),
+  }],
+  recordClockEvent: [{ entity: 'time_entry', targets: ([employeeId, , , now]) => dayOf(employeeId, now) }],
+  applySyncMutation: [{
+    entity: 'time_entry',
+    targets: ([, , mutation]) => ({ ids: mutation.entry_id ? [mutation.entry_id] : [] }),
+    created: result => result.status === 'applied' ? result.entry : undefined,
+  }],
+  createTimeAdjustment: [{ entity: 'time_adjustment', created: fromResult }],
+  closePayPeriod: [{ entity: 'pay_period_closure', created: fromResult }],
+  updateLaborRuleConfig: [{ entity: 'setting', targets: settingOf(LABOR_RULES_SETTING_KEY) }],
+  updatePayrollExportConfig: [{ entity: 'setting', targets: settingOf(PAYROLL_EXPORT_SETTING_KEY) }],
+  updateGeofencePolicy: [{ entity: 'setting', targets: settingOf(GEOFENCE_SETTING_KEY) }],
+
+  createLeaveRequest: [{ entity: 'leave_request', created: fromResult }],
+  approveLeaveRequest: [
+    { entity: 'leave_request', targets: byId },
+    {
+      entity: 'planning_entry',
+      // Le congé remplace le planning de ses journées
+      targets: async ([id], store) => {
+        const request = await store.getLeaveRequest(id);
+        return request
+          ? { employeeId: request.employee_id, from: request.start_date, to: request.end_date }
+          : { ids: [] };
+      },
+    },
+    { entity: 'approval_request', targets: ([, decision]) => ({ ids: [decision.approvalRequestId] }) },
+    { entity: 'leave_balance_movement', targets: ([id]) => ({ match: { leave_request_id: id } }) },
+  ],
+  rejectLeaveRequest: [
+    { entity: 'leave_request', targets: byId },
+    { entity: 'approval_request', targets: ([, decision]) => ({ ids: [decision.approvalRequestId] }) },
+  ],
+  cancelLeaveRequest: [
+    { entity: 'leave_request', targets: byId },
+    {
+      entity: 'planning_entry',
+      targets: async ([id], store) => {
+        const request = await store.getLeaveRequest(id);
+        return request
+          ? { employeeId: request.employee_id, from: request.start_date, to: request.end_date }
+          : { ids: [] };
+      },
+    },
+    { entity: 'approval_request', targets: ([id]) => ({ match: { subject_type: 'leave_request', subject_id: id } }) },
+    { entity: 'leave_balance_movement', targets: ([id]) => ({ match: { leave_request_id: id } }) },
+  ],
+  createLeaveBalanceMovement: [{ entity: 'leave_balance_movement', created: fromResult }],
+  // Reprise de l'ancien compteur à la première lecture du solde
+  getLeaveBalances: [
+    { entity: 'leave_balance_movement', targets: ([employeeId]) => ({ match: { employee_id: employeeId, movement_type: 'opening' } }) },
+  ],
+  accrueMonthlyLeave: [
+    { entity: 'leave_balance_movement', targets: ([month]) => ({ match: { movement_type: 'accrual', effective_date: monthEndOf(month) } }) },
+    { entity: 'leave_balance_movement', targets: () => ({ match: { movement_type: 'opening' } }) },
+  ],
+  closeLeavePeriod: [
+    // Report et perte en fin de période, report à l'ouverture de la suivante
+    { entity: 'leave_balance_movement', targets: ([periodStart]) => ({ match: { period_start: periodStart } }) },
+    { entity: 'leave_balance_movement', targets: ([periodStart]) => ({ match: { period_start: nextPeriodOf(periodStart) } }) },
+  ],
+
+  startApprovalRequest: [{
+    entity: 'approval_request',
+    targets: ([subjectType, subjectId]) => ({ match: { subject_type: subjectType, subject_id: subjectId } }),
+  }],
+  recordApprovalDecision: [{ entity: 'approval_request', targets: byId }],
+  escalateOverdueApprovals: [{ entity: 'approval_request', targets: () => ({ match: { status: 'pending' } }) }],
+  createApprovalDelegation: [{ entity: 'approval_delegation', created: fromResult }],
+  deleteApprovalDelegation: [{ entity: 'approval_delegation', targets: byId }],
+
+  createProject: [{ entity: 'project', created: fromResult }],
+  updateProject: [{ entity: 'project', targets: byId }],
+  createTaskApi: [{ entity: 'task', created: fromResult }],
+  updateTaskApi: [{ entity: 'task', targets: byId }],
+  updateTaskStatus: [{ entity: 'task', targets: byId }],
+  assignProjectMember: [{ entity: 'project_member', created: fromResult }],
+  removeProjectMember: [{
+    entity: 'project_member',
+    targets: ([projectId, employeeId]) => ({ match: { project_id: projectId, employee_id: employeeId } }),
+  }],
+
+  createPlanningTemplate: [{ entity: 'planning_template', created: fromResult }],
+  updatePlanningTemplate: [{ entity: 'planning_template', targets: byId }],
+  deletePlanningTemplate: [{ entity: 'planning_template', targets: byId }],
+  createPlanningTemplateAssignment: [{ entity: 'planning_template_assignment', created: fromResult }],
+  deletePlanningTemplateAssignment: [{ entity: 'planning_template_assignment', targets: ([, assignmentId]) => ({ ids: [assignmentId] }) }],
+  createCoverageRequirement: [{ entity: 'coverage_requirement', created: fromResult }],
+  updateCoverageRequirement: [{ entity: 'coverage_requirement', targets: byId }],
+  deleteCoverageRequirement: [{ entity: 'coverage_requirement', targets: byId }],
+  createApprovalChain: [{ entity: 'approval_chain', created: fromResult }],
+  updateApprovalChain: [{ entity: 'approval_chain', targets: byId }],
+  deleteApprovalChain: [{ entity: 'approval_chain', targets: byId }],
+  createWorkSite: [{ entity: 'work_site', created: fromResult }],
+  updateWorkSite: [{ entity: 'work_site', targets: byId }],
+  deleteWorkSite: [{ entity: 'work_site', targets: byId }],
+  createKioskDevice: [{ entity: 'kiosk_device', created: fromResult }],
+  updateKioskDevice: [{ entity: 'kiosk_device', targets: byId }],
+  deleteKioskDevice: [{ entity: 'kiosk_device', targets: byId }],
+  updateKioskCredentials: [{ entity: 'employee', targets: byId }],
+};
+
+const toRecords = (value: unknown): AuditRecord[] =>
+  (Array.isArray(value) ? value : [value]).filter(
+    (record): record is AuditRecord => !!record && typeof record === 'object' && typeof (record as AuditRecord).id === 'number'
+  );
+
+// Enveloppe les méthodes d'écriture du stockage : les enregistrements visés
+// sont relus avant et après l'appel et chaque modification est journalisée.
+// Le journal est écrit après l'écriture métier ; s'il échoue, l'événement part
+// dans le fichier d'audit plutôt que de faire échouer la requête.
+export function withAuditLog<T extends AuditStore>(store: T, writes: Record<string, AuditedWrite[]> = AUDITED_WRITES): T {
+  const target = store as unknown as Record<string, (...args: any[]) => Promise<unknown>>;
+
+  for (const [operation, audited] of Object.entries(writes)) {
+    const original = target[operation];
+    if (typeof original !== 'function') continue;
+
+    target[operation] = async (...args: any[]) => {
+      if (auditedCall.getStore()) return original.apply(store, args);
+
+      return auditedCall.run(true, async () => {
+        const targets = await Promise.all(audited.map(write => write.targets?.(args, store)));
+        const before = await Promise.all(audited.map((write, i) =>
+          targets[i] ? store.getAuditSnapshots(write.entity, targets[i]!) : Promise.resolve([])
+        ));
+
+        const result = await original.apply(store, args);
+
+        const entries: InsertAuditLog[] = [];
+        try {
+          const context = getAuditRequestContext();
+          for (let i = 0; i < audited.length; i++) {
+            const write = audited[i];
+            const after = targets[i] ? await store.getAuditSnapshots(write.entity, targets[i]!) : [];
+            const created = write.created ? toRecords(write.created(result, args)) : [];
+            const known = new Set(after.map(record => record.id));
+
+            entries.push(...buildAuditEntries(
+              write.entity,
+              operation,
+              before[i],
+              [...after, ...created.filter(record => !known.has(record.id))],
+              write.action
+            ).map(entry => ({ ...entry, ...context })));
+          }
+
+          if (entries.length > 0) {
+            await store.createAuditLogs(entries);
+          }
+        } catch (error) {
+          console.error('Audit log error:', error);
+          entries.forEach(entry => logAuditEvent(entry.action, entry.actor_user_id ?? 0, entry));
+        }
+
+        return result;
+      });
+    };
+  }
+
+  return store;
+}
+
+// ============================================================================
+// EXPORT
+// ============================================================================
+
+// Une ligne par modification, au format CSV (séparateur point-virgule)
+export function formatAuditLogCsv(logs: AuditLogWithActor[]): string {
+  const escape = (value: string) =>
+    value.includes(';') || value.includes('"') || value.includes('\n')
+      ? `"${value.replace(/"/g, '""')}"`
+      : value;
+
+  const rows = [
+    ['date', 'utilisateur', 'role', 'action', 'entite', 'identifiant', 'operation', 'modifications', 'adresse_ip', 'navigateur', 'requete'],
+    ...logs.map(log => [
+      new Date(log.created_at).toISOString(),
+      log.actor_name ?? (log.actor_user_id ? String(log.actor_user_id) : 'système'),
+      log.actor_role ?? '',
+      log.action,
+      log.entity_type,
+      String(log.entity_id),
+      log.operation,
+      JSON.stringify(log.changes),
+      log.ip_address ?? '',
+      log.user_agent ?? '',
+      log.request_method && log.request_path ? `${log.request_method} ${log.request_path}` : '',
+    ]),
+  ];
+
+  return rows.map(row => row.map(escape).join(';')).join('\r\n') + '\r\n';
+}
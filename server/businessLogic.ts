@@ -1,19 +1,21 @@
 import { sql } from 'drizzle-orm';
 import { db } from './db';
-import { employees, planningEntries, timeEntries, validations } from '@shared/schema';
+import { employees, planningEntries, timeEntries, validations, ContractType, type LeaveBalanceType, type LaborRule, type LaborRuleType, type OvertimeCompensation, type OvertimePolicy, type ClockAction, type GeofenceStatus, type PunchReviewReason, type PlanningEntry, type TimeEntry } from '@shared/schema';
 import { eq, and, gte, lte, desc, asc } from 'drizzle-orm';
+import {
+  DEFAULT_LABOR_RULE_CONFIG,
+  resolveLaborRules,
+  findLaborRule,
+  evaluateLaborRules,
+  getLaborRulesDataRange,
+  parseMinutes,
+  type LaborRuleViolation,
+  type WorkShift,
+} from './laborRules';
 
 // Types pour la logique métier
-export interface LegalConstraints {
-  maxDailyHours: number;
-  maxWeeklyHours: number;
-  minRestHours: number;
-  averageWeeklyHours: number;
-  averageWeeksPeriod: number;
-}
-
 export interface PlanningConflict {
-  type: 'max_daily_hours' | 'max_weekly_hours' | 'min_rest_period' | 'overlap' | 'average_hours';
+  type: LaborRuleType | 'overlap';
   severity: 'error' | 'warning';
   employeeId: number;
   date: string;
@@ -42,19 +44,15 @@ export interface ScheduleConflict {
   type: 'overlap' | 'insufficient_rest';
 }
 
-// Contraintes légales françaises
-export const LEGAL_CONSTRAINTS: LegalConstraints = {
-  maxDailyHours: 10,
-  maxWeeklyHours: 48,
-  minRestHours: 11,
-  averageWeeklyHours: 35,
-  averageWeeksPeriod: 12,
-};
+// Durée légale hebdomadaire (base de calcul des RTT, distincte des plafonds configurables)
+export const LEGAL_WEEKLY_HOURS = 35;
 
 // ============================================================================
 // VÉRIFICATION DES CONTRAINTES LÉGALES
 // ============================================================================
 
+// Vérifie un créneau (nouveau ou modifié) contre les règles applicables à l'employé.
+// Seules les violations auxquelles ce créneau participe sont retournées.
 export async function checkLegalConstraints(
   employeeId: number,
   date: string,
@@ -62,222 +60,111 @@ export async function checkLegalConstraints(
   endTime: string,
   excludeEntryId?: number
 ): Promise<{ valid: boolean; conflicts: PlanningConflict[] }> {
-  const conflicts: PlanningConflict[] = [];
-
-  // Vérifier les heures quotidiennes
-  const dailyCheck = await checkDailyHours(employeeId, date, startTime, endTime, excludeEntryId);
-  if (!dailyCheck.valid) {
-    conflicts.push(...dailyCheck.conflicts);
-  }
+  const { storage } = await import('./storage');
+  const rules = await storage.getLaborRulesForEmployee(employeeId);
+  const range = getLaborRulesDataRange(rules, date, date);
 
-  // Vérifier les heures hebdomadaires
-  const weeklyCheck = await checkWeeklyHours(employeeId, date, startTime, endTime, excludeEntryId);
-  if (!weeklyCheck.valid) {
-    conflicts.push(...weeklyCheck.conflicts);
-  }
+  const candidateId = excludeEntryId ?? CANDIDATE_SHIFT_ID;
+  const existingShifts = await getPlannedWorkShifts(employeeId, range.start, range.end);
+  const shifts: WorkShift[] = [
+    ...existingShifts.filter(shift => shift.id !== excludeEntryId),
+    { id: candidateId, date, startTime, endTime },
+  ];
 
-  // Vérifier la période de repos
-  const restCheck = await checkRestPeriod(employeeId, date, startTime, excludeEntryId);
-  if (!restCheck.valid) {
-    conflicts.push(...restCheck.conflicts);
-  }
+  const conflicts = evaluateLaborRules(rules, shifts, { range })
+    .filter(violation => violation.shiftIds.includes(candidateId))
+    .map(violation => toPlanningConflict(violation, employeeId));
 
   return {
-    valid: conflicts.length === 0,
+    valid: !conflicts.some(conflict => conflict.severity === 'error'),
     conflicts
   };
 }
 
-async function checkDailyHours(
-  employeeId: number,
-  date: string,
-  startTime: string,
-  endTime: string,
-  excludeEntryId?: number
-): Promise<{ valid: boolean; conflicts: PlanningConflict[] }> {
-  const conflicts: PlanningConflict[] = [];
-
-  // Calculer les heures de cette entrée
-  const entryHours = calculateHoursBetween(startTime, endTime);
-
-  // Récupérer toutes les entrées du jour
-  let query = db
-    .select({
-      id: planningEntries.id,
-      startTime: planningEntries.start_time,
-      endTime: planningEntries.end_time,
-    })
-    .from(planningEntries)
-    .where(
-      and(
-        eq(planningEntries.employee_id, employeeId),
-        eq(planningEntries.date, date),
-        eq(planningEntries.type, 'work')
-      )
-    );
-
-  const existingEntries = await query;
-
-  // Exclure l'entrée en cours de modification
-  const filteredEntries = excludeEntryId 
-    ? existingEntries.filter(e => e.id !== excludeEntryId)
-    : existingEntries;
-
-  // Calculer le total des heures quotidiennes
-  let totalDailyHours = entryHours;
-  filteredEntries.forEach(entry => {
-    if (entry.startTime && entry.endTime) {
-      totalDailyHours += calculateHoursBetween(entry.startTime, entry.endTime);
-    }
-  });
-
-  if (totalDailyHours > LEGAL_CONSTRAINTS.maxDailyHours) {
-    conflicts.push({
-      type: 'max_daily_hours',
-      severity: 'error',
-      employeeId,
-      date,
-      description: `Dépassement de la limite quotidienne de ${LEGAL_CONSTRAINTS.maxDailyHours}h (${totalDailyHours.toFixed(1)}h prévues)`,
-      suggestions: [
-        'Réduire la durée de cette plage horaire',
-        'Diviser le travail sur plusieurs jours',
-        'Supprimer d\'autres créneaux du jour'
-      ],
-      data: { totalHours: totalDailyHours, limit: LEGAL_CONSTRAINTS.maxDailyHours }
-    });
-  }
+// Identifiant fictif du créneau en cours de création
+const CANDIDATE_SHIFT_ID = -1;
+
+const CONFLICT_SUGGESTIONS: Record<PlanningConflict['type'], string[]> = {
+  max_daily_hours: [
+    'Réduire la durée de cette plage horaire',
+    'Diviser le travail sur plusieurs jours',
+    'Supprimer d\'autres créneaux du jour'
+  ],
+  max_weekly_hours: [
+    'Réduire les heures quotidiennes',
+    'Ajouter des jours de repos',
+    'Reporter du travail sur la semaine suivante'
+  ],
+  average_hours: [
+    'Alléger les semaines à venir',
+    'Compenser par des jours de repos'
+  ],
+  min_rest_period: [
+    'Décaler l\'heure de début',
+    'Terminer plus tôt le jour précédent',
+    'Ajouter un jour de repos'
+  ],
+  min_weekly_rest: [
+    'Ajouter un jour de repos consécutif au week-end',
+    'Regrouper les jours travaillés'
+  ],
+  break_after_hours: [
+    'Ajouter une pause dans la journée'
+  ],
+  night_work: [
+    'Avancer la fin du créneau',
+    'Répartir le travail de nuit sur plusieurs salariés'
+  ],
+  sunday_work: [
+    'Déplacer le créneau sur un autre jour',
+    'Vérifier la dérogation au repos dominical'
+  ],
+  overlap: [
+    'Ajuster les heures de début/fin',
+    'Supprimer l\'une des entrées',
+    'Diviser en créneaux distincts'
+  ],
+};
 
-  return { valid: conflicts.length === 0, conflicts };
+export function toPlanningConflict(violation: LaborRuleViolation, employeeId: number): PlanningConflict {
+  return {
+    type: violation.type,
+    severity: violation.severity,
+    employeeId,
+    date: violation.date,
+    description: violation.description,
+    suggestions: CONFLICT_SUGGESTIONS[violation.type],
+    data: { ruleId: violation.ruleId, entryIds: violation.shiftIds, ...violation.data }
+  };
 }
 
-async function checkWeeklyHours(
-  employeeId: number,
-  date: string,
-  startTime: string,
-  endTime: string,
-  excludeEntryId?: number
-): Promise<{ valid: boolean; conflicts: PlanningConflict[] }> {
-  const conflicts: PlanningConflict[] = [];
-
-  // Calculer le début et fin de semaine
-  const { weekStart, weekEnd } = getWeekBounds(date);
-
-  // Calculer les heures de cette entrée
-  const entryHours = calculateHoursBetween(startTime, endTime);
-
-  // Récupérer toutes les entrées de la semaine
-  let query = db
+// Créneaux de travail planifiés d'un employé sur une période
+async function getPlannedWorkShifts(employeeId: number, startDate: string, endDate: string): Promise<WorkShift[]> {
+  const entries = await db
     .select({
       id: planningEntries.id,
+      date: planningEntries.date,
       startTime: planningEntries.start_time,
       endTime: planningEntries.end_time,
-      date: planningEntries.date,
     })
     .from(planningEntries)
     .where(
       and(
         eq(planningEntries.employee_id, employeeId),
-        gte(planningEntries.date, weekStart),
-        lte(planningEntries.date, weekEnd),
+        gte(planningEntries.date, startDate),
+        lte(planningEntries.date, endDate),
         eq(planningEntries.type, 'work')
       )
     );
 
-  const weeklyEntries = await query;
-
-  // Exclure l'entrée en cours de modification
-  const filteredEntries = excludeEntryId 
-    ? weeklyEntries.filter(e => e.id !== excludeEntryId)
-    : weeklyEntries;
-
-  // Calculer le total des heures hebdomadaires
-  let totalWeeklyHours = 0;
-  filteredEntries.forEach(entry => {
-    if (entry.startTime && entry.endTime) {
-      totalWeeklyHours += calculateHoursBetween(entry.startTime, entry.endTime);
-    }
-  });
-
-  // Ajouter les heures de cette entrée si elle est dans la même semaine
-  if (date >= weekStart && date <= weekEnd) {
-    totalWeeklyHours += entryHours;
-  }
-
-  if (totalWeeklyHours > LEGAL_CONSTRAINTS.maxWeeklyHours) {
-    conflicts.push({
-      type: 'max_weekly_hours',
-      severity: 'error',
-      employeeId,
-      date: weekStart,
-      description: `Dépassement de la limite hebdomadaire de ${LEGAL_CONSTRAINTS.maxWeeklyHours}h (${totalWeeklyHours.toFixed(1)}h prévues)`,
-      suggestions: [
-        'Réduire les heures quotidiennes',
-        'Ajouter des jours de repos',
-        'Reporter du travail sur la semaine suivante'
-      ],
-      data: { totalHours: totalWeeklyHours, limit: LEGAL_CONSTRAINTS.maxWeeklyHours, weekStart }
-    });
-  }
-
-  return { valid: conflicts.length === 0, conflicts };
-}
-
-async function checkRestPeriod(
-  employeeId: number,
-  date: string,
-  startTime: string,
-  excludeEntryId?: number
-): Promise<{ valid: boolean; conflicts: PlanningConflict[] }> {
-  const conflicts: PlanningConflict[] = [];
-
-  // Récupérer la dernière entrée du jour précédent
-  const previousDay = new Date(date);
-  previousDay.setDate(previousDay.getDate() - 1);
-  const previousDateStr = previousDay.toISOString().split('T')[0];
-
-  let query = db
-    .select({
-      id: planningEntries.id,
-      endTime: planningEntries.end_time,
-    })
-    .from(planningEntries)
-    .where(
-      and(
-        eq(planningEntries.employee_id, employeeId),
-        eq(planningEntries.date, previousDateStr),
-        eq(planningEntries.type, 'work')
-      )
-    )
-    .orderBy(desc(planningEntries.end_time))
-    .limit(1);
-
-  const [lastEntry] = await query;
-
-  if (lastEntry && lastEntry.endTime) {
-    // Calculer la période de repos
-    const lastEndTime = new Date(`${previousDateStr}T${lastEntry.endTime}:00`);
-    const nextStartTime = new Date(`${date}T${startTime}:00`);
-    
-    const restHours = (nextStartTime.getTime() - lastEndTime.getTime()) / (1000 * 60 * 60);
-
-    if (restHours < LEGAL_CONSTRAINTS.minRestHours) {
-      conflicts.push({
-        type: 'min_rest_period',
-        severity: 'error',
-        employeeId,
-        date,
-        description: `Période de repos insuffisante: ${restHours.toFixed(1)}h (minimum: ${LEGAL_CONSTRAINTS.minRestHours}h)`,
-        suggestions: [
-          'Décaler l\'heure de début',
-          'Terminer plus tôt le jour précédent',
-          'Ajouter un jour de repos'
-        ],
-        data: { restHours, minRestHours: LEGAL_CONSTRAINTS.minRestHours, previousEndTime: lastEntry.endTime }
-      });
-    }
-  }
-
-  return { valid: conflicts.length === 0, conflicts };
+  return entries
+    .filter(entry => entry.startTime && entry.endTime)
+    .map(entry => ({
+      id: entry.id,
+      date: entry.date,
+      startTime: entry.startTime!,
+      endTime: entry.endTime!,
+    }));
 }
 
 // ============================================================================
@@ -367,7 +254,7 @@ export async function calculateWeeklyHours(
 // ============================================================================
 
 export interface TimeAnomaly {
-  type: 'excessive_hours' | 'missing_break' | 'overlap' | 'unauthorized_overtime' | 'planning_mismatch';
+  type: 'excessive_hours' | 'missing_break' | 'overlap' | 'unauthorized_overtime' | 'planning_mismatch' | 'out_of_zone' | 'unconfirmed_punch' | LaborRuleType;
   severity: 'warning' | 'error';
   employeeId: number;
   date: string;
@@ -376,84 +263,129 @@ export interface TimeAnomaly {
   data?: any;
 }
 
-export interface OvertimeCalculation {
-  employeeId: number;
-  period: string;
+export interface OvertimeTierHours {
+  rate: number;
+  hours: number;
+}
+
+export interface WeeklyOvertime {
   regularHours: number;
   overtimeHours: number;
-  overtimeType: 'daily' | 'weekly' | 'monthly';
-  rate: number;
-  approved: boolean;
+  tiers: OvertimeTierHours[];
+}
+
+export interface OvertimeCalculation extends WeeklyOvertime {
+  employeeId: number;
+  period: string; // Lundi de la semaine
+  totalHours: number;
+  compensation: OvertimeCompensation;
+  approved: boolean; // Semaine entièrement validée
+}
+
+export interface OvertimeContingent {
+  limitHours: number;
+  usedHours: number; // Heures payées uniquement
+  remainingHours: number;
+  exceededHours: number;
+}
+
+// Heures supplémentaires d'une semaine, ventilées par majoration. Chaque heure
+// n'est comptée qu'une fois, dans la tranche qui la contient.
+export function computeWeeklyOvertime(totalHours: number, policy: OvertimePolicy): WeeklyOvertime {
+  const tiers = policy.tiers.map((tier, index) => {
+    const upperBound = policy.tiers[index + 1]?.from_hours ?? Infinity;
+    const hours = Math.max(0, Math.min(totalHours, upperBound) - tier.from_hours);
+    return { rate: tier.rate, hours: Math.round(hours * 100) / 100 };
+  });
+  const overtimeHours = tiers.reduce((sum, tier) => sum + tier.hours, 0);
+
+  return {
+    regularHours: Math.round((totalHours - overtimeHours) * 100) / 100,
+    overtimeHours: Math.round(overtimeHours * 100) / 100,
+    tiers,
+  };
+}
+
+// Repos compensateur de remplacement : chaque heure est convertie majoration comprise
+export function getCompensatoryRestHours(tiers: OvertimeTierHours[]): number {
+  return Math.round(tiers.reduce((sum, tier) => sum + tier.hours * tier.rate, 0) * 100) / 100;
 }
 
+// Conversion en jours du compteur de repos, sur la base d'une semaine de 5 jours
+export function convertRestHoursToDays(restHours: number, weeklyHours: number): number {
+  return Math.round((restHours / (weeklyHours / 5)) * 100) / 100;
+}
+
+// Seules les heures payées s'imputent sur le contingent annuel (L3121-30)
+export function computeOvertimeContingent(
+  weeks: Array<{ overtimeHours: number; compensation: OvertimeCompensation }>,
+  limitHours: number
+): OvertimeContingent {
+  const usedHours = Math.round(
+    weeks.filter(week => week.compensation === 'pay').reduce((sum, week) => sum + week.overtimeHours, 0) * 100
+  ) / 100;
+
+  return {
+    limitHours,
+    usedHours,
+    remainingHours: Math.max(0, Math.round((limitHours - usedHours) * 100) / 100),
+    exceededHours: Math.max(0, Math.round((usedHours - limitHours) * 100) / 100),
+  };
+}
+
+// Une semaine à cheval est rattachée au mois de paie au cours duquel elle se termine
+export function getOvertimePayrollMonth(weekStart: string): string {
+  return offsetDate(weekStart, 6).substring(0, 7);
+}
+
+// Heures supplémentaires par semaine civile (du lundi au dimanche) sur la période
 export async function calculateOvertime(
   employeeId: number,
   startDate: string,
   endDate: string
 ): Promise<OvertimeCalculation[]> {
   const { storage } = await import('./storage');
-  
-  const entries = await storage.getTimeEntries({
-    employeeId,
-    dateFrom: startDate,
-    dateTo: endDate,
-    limit: 1000,
-    offset: 0
-  });
+  const firstWeek = getWeekBounds(startDate).weekStart;
+  const lastWeek = getWeekBounds(endDate).weekStart;
 
-  const calculations: OvertimeCalculation[] = [];
-  const dailyOvertimes: Record<string, number> = {};
-  
-  // Calculate daily overtime (over 8 hours)
-  entries.data.forEach(entry => {
-    const date = entry.date;
-    const totalHours = entry.totalHours || 0;
-    const dailyOvertime = Math.max(0, totalHours - 8);
-    
-    if (!dailyOvertimes[date]) dailyOvertimes[date] = 0;
-    dailyOvertimes[date] += dailyOvertime;
-    
-    if (dailyOvertime > 0) {
-      calculations.push({
-        employeeId,
-        period: date,
-        regularHours: Math.min(8, totalHours),
-        overtimeHours: dailyOvertime,
-        overtimeType: 'daily',
-        rate: 1.25, // 25% premium for daily overtime
-        approved: entry.isOvertime || false
-      });
-    }
-  });
+  const [policy, entries, weekValidations] = await Promise.all([
+    storage.getOvertimePolicyForEmployee(employeeId),
+    storage.getTimeEntries({
+      employeeId,
+      dateFrom: firstWeek,
+      dateTo: offsetDate(lastWeek, 6),
+      limit: 5000,
+      offset: 0
+    }),
+    db
+      .select({ weekStart: validations.week_start_date, compensation: validations.overtime_compensation })
+      .from(validations)
+      .where(and(
+        eq(validations.employee_id, employeeId),
+        gte(validations.week_start_date, firstWeek),
+        lte(validations.week_start_date, lastWeek)
+      )),
+  ]);
+
+  const entriesByWeek: Record<string, ValidationWeekEntry[]> = {};
+  for (const entry of entries.data) {
+    const weekStart = getWeekBounds(entry.date).weekStart;
+    (entriesByWeek[weekStart] = entriesByWeek[weekStart] || []).push(entry);
+  }
 
-  // Calculate weekly overtime (over 35 hours average)
-  const weeklyHours: Record<string, number> = {};
-  entries.data.forEach(entry => {
-    const date = new Date(entry.date);
-    const weekStart = new Date(date);
-    weekStart.setDate(date.getDate() - date.getDay() + 1); // Monday
-    const weekKey = weekStart.toISOString().split('T')[0];
-    
-    if (!weeklyHours[weekKey]) weeklyHours[weekKey] = 0;
-    weeklyHours[weekKey] += entry.totalHours || 0;
-  });
+  return Object.keys(entriesByWeek).sort().map(weekStart => {
+    const summary = summarizeValidationWeek(entriesByWeek[weekStart]);
+    const compensation = weekValidations.find(week => week.weekStart === weekStart)?.compensation ?? policy.compensation;
 
-  Object.entries(weeklyHours).forEach(([weekStart, totalHours]) => {
-    const weeklyOvertime = Math.max(0, totalHours - 35);
-    if (weeklyOvertime > 0) {
-      calculations.push({
-        employeeId,
-        period: weekStart,
-        regularHours: Math.min(35, totalHours),
-        overtimeHours: weeklyOvertime,
-        overtimeType: 'weekly',
-        rate: 1.10, // 10% premium for weekly overtime
-        approved: false // Weekly overtime needs approval
-      });
-    }
+    return {
+      employeeId,
+      period: weekStart,
+      totalHours: summary.totalHours,
+      ...computeWeeklyOvertime(summary.totalHours, policy),
+      compensation,
+      approved: summary.status === 'validated',
+    };
   });
-
-  return calculations;
 }
 
 export async function detectAnomalies(
@@ -462,59 +394,43 @@ export async function detectAnomalies(
   endDate: string
 ): Promise<TimeAnomaly[]> {
   const { storage } = await import('./storage');
-  
+  const rules = await storage.getLaborRulesForEmployee(employeeId);
+  const dataRange = getLaborRulesDataRange(rules, startDate, endDate);
+
   const entries = await storage.getTimeEntries({
     employeeId,
-    dateFrom: startDate,
-    dateTo: endDate,
+    dateFrom: dataRange.start,
+    dateTo: dataRange.end,
     limit: 1000,
     offset: 0
   });
 
-  const anomalies: TimeAnomaly[] = [];
+  // Règles de temps de travail (plafonds, repos, pauses, nuit, dimanche)
+  const anomalies: TimeAnomaly[] = evaluateLaborRules(
+    rules,
+    entries.data.filter(entry => entry.endTime).map(toWorkShift),
+    { range: dataRange, focus: { start: startDate, end: endDate } }
+  ).map(violation => ({
+    type: ANOMALY_TYPES[violation.type] ?? violation.type,
+    severity: violation.severity,
+    employeeId,
+    date: violation.date,
+    description: violation.description,
+    suggestion: CONFLICT_SUGGESTIONS[violation.type][0],
+    data: { ruleId: violation.ruleId, entryIds: violation.shiftIds, ...violation.data }
+  }));
 
   // Group by date
   const dailyEntries: Record<string, any[]> = {};
-  entries.data.forEach(entry => {
-    if (!dailyEntries[entry.date]) dailyEntries[entry.date] = [];
-    dailyEntries[entry.date].push(entry);
-  });
+  entries.data
+    .filter(entry => entry.date >= startDate && entry.date <= endDate)
+    .forEach(entry => {
+      if (!dailyEntries[entry.date]) dailyEntries[entry.date] = [];
+      dailyEntries[entry.date].push(entry);
+    });
 
   // Detect various anomalies
   for (const [date, dayEntries] of Object.entries(dailyEntries)) {
-    const totalDailyHours = dayEntries.reduce((sum, entry) => sum + (entry.totalHours || 0), 0);
-    
-    // Excessive daily hours (over 10h according to French law)
-    if (totalDailyHours > 10) {
-      anomalies.push({
-        type: 'excessive_hours',
-        severity: 'error',
-        employeeId,
-        date,
-        description: `Dépassement de 10h journalières: ${totalDailyHours.toFixed(2)}h`,
-        suggestion: 'Réduire les heures ou obtenir une autorisation exceptionnelle',
-        data: { actualHours: totalDailyHours, limit: 10 }
-      });
-    }
-
-    // Missing breaks for long work periods
-    for (const entry of dayEntries) {
-      const workHours = entry.totalHours || 0;
-      const breakMinutes = entry.breakDuration || 0;
-      
-      if (workHours > 6 && breakMinutes < 20) {
-        anomalies.push({
-          type: 'missing_break',
-          severity: 'warning',
-          employeeId,
-          date,
-          description: `Pause insuffisante pour ${workHours.toFixed(2)}h de travail (${breakMinutes}min)`,
-          suggestion: 'Ajouter au moins 20 minutes de pause pour les journées de plus de 6h',
-          data: { workHours, breakMinutes, requiredBreak: 20 }
-        });
-      }
-    }
-
     // Overlapping time entries
     for (let i = 0; i < dayEntries.length - 1; i++) {
       for (let j = i + 1; j < dayEntries.length; j++) {
@@ -540,6 +456,16 @@ export async function detectAnomalies(
       }
     }
 
+    // Clock-ins outside the work sites (or without a position where sites apply)
+    for (const entry of dayEntries.filter(entry => entry.geofenceStatus === 'outside' || entry.geofenceStatus === 'unknown')) {
+      anomalies.push(getOutOfZoneAnomaly(employeeId, entry));
+    }
+
+    // Pointages à confirmer (rejeu sans code PIN, transmission différée)
+    for (const entry of dayEntries.filter(entry => entry.reviewReason)) {
+      anomalies.push(getPunchReviewAnomaly(employeeId, entry));
+    }
+
     // Unauthorized overtime
     const overtimeEntries = dayEntries.filter(entry => (entry.overtimeHours || 0) > 0);
     for (const entry of overtimeEntries) {
@@ -560,6 +486,59 @@ export async function detectAnomalies(
   return anomalies;
 }
 
+// Pointage d'entrée hors des sites de travail applicables
+export function getOutOfZoneAnomaly(
+  employeeId: number,
+  entry: { id: number; date: string; startTime: string; geofenceStatus: GeofenceStatus; workSiteId?: number | null; geofenceDistanceMeters?: number | null }
+): TimeAnomaly {
+  return {
+    type: 'out_of_zone',
+    severity: 'warning',
+    employeeId,
+    date: entry.date,
+    description: entry.geofenceStatus === 'outside'
+      ? `Pointage de ${entry.startTime} à ${entry.geofenceDistanceMeters} m du site de travail`
+      : `Pointage de ${entry.startTime} sans position alors qu'un site de travail s'applique`,
+    suggestion: "Vérifier le lieu de travail avec l'employé",
+    data: { entryId: entry.id, workSiteId: entry.workSiteId ?? null, distanceMeters: entry.geofenceDistanceMeters ?? null }
+  };
+}
+
+// Pointage que le responsable doit confirmer : rejoué sans authentification ou
+// transmis trop longtemps après son heure
+export function getPunchReviewAnomaly(
+  employeeId: number,
+  entry: { id: number; date: string; startTime: string; reviewReason: PunchReviewReason | null }
+): TimeAnomaly {
+  return {
+    type: 'unconfirmed_punch',
+    severity: 'warning',
+    employeeId,
+    date: entry.date,
+    description: entry.reviewReason === 'delayed_punch'
+      ? `Pointage de ${entry.startTime} transmis en différé par un appareil hors ligne`
+      : `Pointage de ${entry.startTime} rejoué par une borne hors ligne, sans code PIN`,
+    suggestion: "Confirmer l'heure du pointage avec l'employé avant de valider la semaine",
+    data: { entryId: entry.id, reviewReason: entry.reviewReason }
+  };
+}
+
+// Libellés d'anomalies historiques pour les règles équivalentes
+const ANOMALY_TYPES: Partial<Record<LaborRuleType, TimeAnomaly['type']>> = {
+  max_daily_hours: 'excessive_hours',
+  break_after_hours: 'missing_break',
+};
+
+function toWorkShift(entry: { id: number; date: string; startTime: string; endTime: string; breakDuration?: number | null }): WorkShift {
+  return {
+    id: entry.id,
+    date: entry.date,
+    startTime: entry.startTime,
+    endTime: entry.endTime,
+    breakMinutes: entry.breakDuration ?? 0,
+  };
+}
+
 export async function compareWithPlanning(
   employeeId: number,
   startDate: string,
@@ -679,7 +658,8 @@ export async function validateTimeConsistency(
     startTime: string;
     endTime: string;
     breakDuration?: number;
-  }>
+  }>,
+  rules: LaborRule[] = resolveLaborRules(DEFAULT_LABOR_RULE_CONFIG)
 ): Promise<{
   valid: boolean;
   errors: string[];
@@ -687,6 +667,7 @@ export async function validateTimeConsistency(
 }> {
   const errors: string[] = [];
   const warnings: string[] = [];
+  const shifts: WorkShift[] = [];
 
   for (const entry of entries) {
     const { date, startTime, endTime, breakDuration = 0 } = entry;
@@ -711,29 +692,28 @@ export async function validateTimeConsistency(
       continue;
     }
 
+    shifts.push({ date, startTime, endTime, breakMinutes: breakDuration });
+
     // Calculate work duration
     const totalMinutes = (end.getTime() - start.getTime()) / (1000 * 60);
     const workMinutes = totalMinutes - breakDuration;
     const workHours = workMinutes / 60;
 
-    // Check for excessive daily hours
-    if (workHours > 10) {
-      errors.push(`Dépassement de 10h journalières le ${date}: ${workHours.toFixed(2)}h`);
-    } else if (workHours > 8) {
+    if (workHours > 8) {
       warnings.push(`Plus de 8h de travail le ${date}: ${workHours.toFixed(2)}h (heures supplémentaires)`);
     }
 
-    // Check for insufficient breaks
-    if (workHours > 6 && breakDuration < 20) {
-      warnings.push(`Pause insuffisante le ${date}: ${breakDuration}min pour ${workHours.toFixed(2)}h de travail`);
-    }
-
     // Check for very long days
     if (totalMinutes > 12 * 60) { // More than 12 hours including breaks
       warnings.push(`Journée très longue le ${date}: ${(totalMinutes/60).toFixed(2)}h au total`);
     }
   }
 
+  // Règles de temps de travail sur l'ensemble des saisies valides
+  for (const violation of evaluateLaborRules(rules, shifts)) {
+    (violation.severity === 'error' ? errors : warnings).push(`${violation.description} (${violation.date})`);
+  }
+
   return {
     valid: errors.length === 0,
     errors,
@@ -774,6 +754,9 @@ export async function detectScheduleConflicts(
     conflicts.push(...employeeConflicts);
   }
 
+  // Moyenne glissante : une seule requête fenêtrée pour tous les employés
+  conflicts.push(...await detectAverageHoursConflicts(defaultStart, defaultEnd, employeeId));
+
   return conflicts;
 }
 
@@ -782,6 +765,7 @@ async function detectEmployeeConflicts(
   startDate: string,
   endDate: string
 ): Promise<PlanningConflict[]> {
+  const { storage } = await import('./storage');
   const conflicts: PlanningConflict[] = [];
 
   // Récupérer toutes les entrées de l'employé sur la période
@@ -833,11 +817,7 @@ async function detectEmployeeConflicts(
               employeeId,
               date,
               description: `Chevauchement d'horaires: ${entry1.startTime}-${entry1.endTime} et ${entry2.startTime}-${entry2.endTime}`,
-              suggestions: [
-                'Ajuster les heures de début/fin',
-                'Supprimer l\'une des entrées',
-                'Diviser en créneaux distincts'
-              ],
+              suggestions: CONFLICT_SUGGESTIONS.overlap,
               data: { entry1: entry1.id, entry2: entry2.id }
             });
           }
@@ -845,33 +825,102 @@ async function detectEmployeeConflicts(
       }
     }
 
-    // Vérifier les heures quotidiennes
-    let dailyHours = 0;
-    workEntries.forEach(entry => {
-      if (entry.startTime && entry.endTime) {
-        dailyHours += calculateHoursBetween(entry.startTime, entry.endTime);
-      }
-    });
+  }
 
-    if (dailyHours > LEGAL_CONSTRAINTS.maxDailyHours) {
-      conflicts.push({
-        type: 'max_daily_hours',
-        severity: 'error',
-        employeeId,
-        date,
-        description: `Dépassement de la limite quotidienne: ${dailyHours.toFixed(1)}h (max: ${LEGAL_CONSTRAINTS.maxDailyHours}h)`,
-        suggestions: [
-          'Réduire la durée des créneaux',
-          'Reporter du travail sur d\'autres jours'
-        ],
-        data: { totalHours: dailyHours }
-      });
-    }
+  // Règles de temps de travail ; la moyenne glissante est traitée par detectAverageHoursConflicts
+  const rules = (await storage.getLaborRulesForEmployee(employeeId)).filter(rule => rule.type !== 'average_hours');
+  const range = getLaborRulesDataRange(rules, startDate, endDate);
+  const shifts = await getPlannedWorkShifts(employeeId, range.start, range.end);
+
+  for (const violation of evaluateLaborRules(rules, shifts, { range, focus: { start: startDate, end: endDate } })) {
+    conflicts.push(toPlanningConflict(violation, employeeId));
   }
 
   return conflicts;
 }
 
+// ============================================================================
+// MOYENNE HEBDOMADAIRE GLISSANTE
+// ============================================================================
+
+const DEFAULT_AVERAGE_WEEKS = 12;
+
+// Conflits de moyenne sur la fenêtre glissante (réalisé prioritaire sur le planifié).
+// La fenêtre est celle des règles générales ; le plafond dépend du type de contrat.
+export async function detectAverageHoursConflicts(
+  startDate: string,
+  endDate: string,
+  employeeId?: number
+): Promise<PlanningConflict[]> {
+  const { storage } = await import('./storage');
+  const config = await storage.getLaborRuleConfig();
+
+  const weeks = findLaborRule(resolveLaborRules(config), 'average_hours')?.weeks ?? DEFAULT_AVERAGE_WEEKS;
+  const rulesByContract: Record<string, Extract<LaborRule, { type: 'average_hours' }> | undefined> = {};
+  for (const contractType of Object.values(ContractType)) {
+    rulesByContract[contractType] = findLaborRule(resolveLaborRules(config, { contractType }), 'average_hours');
+  }
+
+  const legalCaps = Object.values(rulesByContract).flatMap(rule => (rule ? [rule.max_hours] : []));
+  const rows = await storage.getRollingWeeklyHours({
+    startDate,
+    endDate,
+    weeks,
+    employeeId,
+    minAverageHours: legalCaps.length > 0 ? Math.min(...legalCaps) : null,
+  });
+
+  return rows.flatMap(row => {
+    const conflict = getAverageHoursConflict(row, rulesByContract[row.contractType], row.averageWeeks);
+    return conflict ? [conflict] : [];
+  });
+}
+
+// Semaines de la fenêtre glissante close par weekStart où l'employé était déjà
+// embauché : une embauche récente n'est pas moyennée sur des semaines à zéro
+export function getAverageWindowWeeks(weekStart: string, hireDate: string, weeks: number): number {
+  const hireWeek = new Date(`${hireDate}T00:00:00Z`);
+  hireWeek.setUTCDate(hireWeek.getUTCDate() - (hireWeek.getUTCDay() + 6) % 7);
+  const elapsedWeeks = Math.round((Date.parse(`${weekStart}T00:00:00Z`) - hireWeek.getTime()) / (7 * DAY_MS)) + 1;
+  return Math.min(weeks, Math.max(1, elapsedWeeks));
+}
+
+// Dépassement du plafond légal (erreur) ou, à défaut, de la durée contractuelle (alerte)
+export function getAverageHoursConflict(
+  row: { employeeId: number; weekStart: string; averageHours: number; contractHours: number },
+  rule: Extract<LaborRule, { type: 'average_hours' }> | undefined,
+  weeks: number
+): PlanningConflict | null {
+  const averageHours = Math.round(row.averageHours * 100) / 100;
+  const data = { averageHours, weeks, weekStart: row.weekStart, contractHours: row.contractHours };
+
+  if (rule && averageHours > rule.max_hours) {
+    return {
+      type: 'average_hours',
+      severity: rule.severity,
+      employeeId: row.employeeId,
+      date: row.weekStart,
+      description: `Moyenne de ${averageHours.toFixed(1)}h sur ${weeks} semaines (maximum légal: ${rule.max_hours}h)`,
+      suggestions: CONFLICT_SUGGESTIONS.average_hours,
+      data: { ...data, ruleId: rule.id, limit: rule.max_hours, source: 'legal' }
+    };
+  }
+
+  if (averageHours > row.contractHours) {
+    return {
+      type: 'average_hours',
+      severity: 'warning',
+      employeeId: row.employeeId,
+      date: row.weekStart,
+      description: `Moyenne de ${averageHours.toFixed(1)}h sur ${weeks} semaines (durée contractuelle: ${row.contractHours}h)`,
+      suggestions: CONFLICT_SUGGESTIONS.average_hours,
+      data: { ...data, limit: row.contractHours, source: 'contract' }
+    };
+  }
+
+  return null;
+}
+
 // ============================================================================
 // SUGGESTIONS DE RÉSOLUTION
 // ============================================================================
@@ -950,6 +999,922 @@ export function suggestResolutions(conflicts: PlanningConflict[]): Array<{
   return suggestions;
 }
 
+// ============================================================================
+// RÉSOLUTION AUTOMATIQUE DES CONFLITS
+// ============================================================================
+
+export type ResolutionStrategy = 'shift' | 'trim' | 'merge' | 'move';
+
+export interface PatchedEntry {
+  id: number;
+  date: string;
+  startTime: string;
+  endTime: string;
+}
+
+export interface PlanningPatch {
+  updates: Array<{ before: PatchedEntry; after: PatchedEntry }>;
+  deletes: PatchedEntry[];
+}
+
+// Stratégies applicables par type de conflit (vide = résolution manuelle)
+export const RESOLUTION_STRATEGIES: Record<PlanningConflict['type'], ResolutionStrategy[]> = {
+  overlap: ['shift', 'trim', 'merge', 'move'],
+  max_daily_hours: ['trim', 'move'],
+  max_weekly_hours: ['trim', 'move'],
+  min_rest_period: ['shift', 'trim', 'move'],
+  min_weekly_rest: ['move'],
+  sunday_work: ['move'],
+  night_work: [],
+  break_after_hours: [],
+  average_hours: [],
+};
+
+// Nombre de jours explorés pour déplacer un créneau
+const MOVE_SEARCH_DAYS = 7;
+
+// Créneaux impliqués dans un conflit (chevauchement ou violation de règle)
+export function getConflictEntryIds(conflict: Pick<PlanningConflict, 'type' | 'data'>): number[] {
+  if (conflict.type === 'overlap') {
+    return [conflict.data?.entry1, conflict.data?.entry2].filter((id): id is number => typeof id === 'number');
+  }
+  return Array.isArray(conflict.data?.entryIds) ? conflict.data.entryIds : [];
+}
+
+// Calcule le correctif concret d'une stratégie, ou null si elle ne s'applique pas
+export function computeResolutionPatch(
+  conflict: Pick<PlanningConflict, 'type' | 'data'>,
+  strategy: ResolutionStrategy,
+  shifts: WorkShift[],
+  rules: LaborRule[],
+  options: { targetDate?: string } = {}
+): PlanningPatch | null {
+  if (!RESOLUTION_STRATEGIES[conflict.type].includes(strategy)) return null;
+
+  const ids = getConflictEntryIds(conflict);
+  const involved = shifts
+    .filter(shift => shift.id !== undefined && ids.includes(shift.id))
+    .map(toPatchedEntry)
+    .sort((a, b) => toAbsoluteMinutes(a.date, a.startTime) - toAbsoluteMinutes(b.date, b.startTime));
+
+  if (involved.length === 0 || involved.length < ids.length) return null;
+
+  const first = involved[0];
+  const last = involved[involved.length - 1];
+  const restMinutes = (findLaborRule(rules, 'min_rest_period')?.min_hours ?? 0) * 60;
+
+  switch (strategy) {
+    case 'shift': {
+      if (involved.length < 2) return null;
+      const gap = conflict.type === 'min_rest_period' ? restMinutes : 0;
+      const start = getEndMinutes(first) + gap - toAbsoluteMinutes(last.date, '00:00');
+      return withUpdates([rescheduleEntry(last, last.date, start, start + getDurationMinutes(last))]);
+    }
+
+    case 'trim': {
+      if (conflict.type === 'overlap' || conflict.type === 'min_rest_period') {
+        if (involved.length < 2) return null;
+        const gap = conflict.type === 'min_rest_period' ? restMinutes : 0;
+        const end = toAbsoluteMinutes(last.date, last.startTime) - gap - toAbsoluteMinutes(first.date, '00:00');
+        return withUpdates([rescheduleEntry(first, first.date, parseMinutes(first.startTime), end)]);
+      }
+
+      // Dépassement quotidien ou hebdomadaire : on raccourcit le dernier créneau
+      const rule = conflict.type === 'max_daily_hours'
+        ? findLaborRule(rules, 'max_daily_hours')
+        : findLaborRule(rules, 'max_weekly_hours');
+      if (!rule) return null;
+
+      const totalMinutes = involved.reduce((sum, entry) => sum + getDurationMinutes(entry), 0);
+      const excess = totalMinutes - rule.max_hours * 60;
+      if (excess <= 0) return null;
+
+      const start = parseMinutes(last.startTime);
+      return withUpdates([rescheduleEntry(last, last.date, start, start + getDurationMinutes(last) - excess)]);
+    }
+
+    case 'merge': {
+      if (involved.some(entry => entry.date !== first.date)) return null;
+      const end = Math.max(...involved.map(getEndMinutes)) - toAbsoluteMinutes(first.date, '00:00');
+      const merged = rescheduleEntry(first, first.date, parseMinutes(first.startTime), end);
+      if (!merged) return null;
+      return { updates: [merged], deletes: involved.slice(1) };
+    }
+
+    case 'move': {
+      const others = shifts.filter(shift => shift.id !== last.id);
+      const start = parseMinutes(last.startTime);
+      const candidates = options.targetDate
+        ? [options.targetDate]
+        : Array.from({ length: MOVE_SEARCH_DAYS }, (_, i) => offsetDate(last.date, i + 1));
+
+      for (const date of candidates) {
+        const update = rescheduleEntry(last, date, start, start + getDurationMinutes(last));
+        if (!update) continue;
+        // Une date imposée est appliquée telle quelle ; sinon on retient la première date conforme
+        if (options.targetDate || getPatchConflicts(others.concat(update.after), rules, [last.id], 0).length === 0) {
+          return withUpdates([update]);
+        }
+      }
+      return null;
+    }
+  }
+}
+
+// Applique un correctif à une liste de créneaux (sans effet de bord)
+export function applyPlanningPatch(shifts: WorkShift[], patch: PlanningPatch): WorkShift[] {
+  const deleted = patch.deletes.map(entry => entry.id);
+  const updated: Record<number, PatchedEntry> = {};
+  for (const { after } of patch.updates) updated[after.id] = after;
+
+  return shifts
+    .filter(shift => shift.id === undefined || !deleted.includes(shift.id))
+    .map(shift => (shift.id !== undefined && updated[shift.id] ? updated[shift.id] : shift));
+}
+
+// Conflits bloquants (règles ou chevauchements) touchant les créneaux donnés
+export function getPatchConflicts(
+  shifts: WorkShift[],
+  rules: LaborRule[],
+  entryIds: number[],
+  employeeId: number
+): PlanningConflict[] {
+  const concerned = shifts.filter(shift => shift.id !== undefined && entryIds.includes(shift.id));
+  if (concerned.length === 0) return [];
+
+  const dates = concerned.map(shift => shift.date).sort();
+  const range = getLaborRulesDataRange(rules, dates[0], dates[dates.length - 1]);
+  const conflicts = evaluateLaborRules(rules, shifts, { range })
+    .filter(violation => violation.severity === 'error' && violation.shiftIds.some(id => entryIds.includes(id)))
+    .map(violation => toPlanningConflict(violation, employeeId));
+
+  for (const shift of concerned) {
+    const entry = toPatchedEntry(shift);
+    const overlapping = shifts.find(other =>
+      other.id !== shift.id &&
+      toAbsoluteMinutes(other.date, other.startTime) < getEndMinutes(entry) &&
+      toAbsoluteMinutes(shift.date, shift.startTime) < getEndMinutes(toPatchedEntry(other))
+    );
+
+    if (overlapping) {
+      conflicts.push({
+        type: 'overlap',
+        severity: 'error',
+        employeeId,
+        date: shift.date,
+        description: `Chevauchement d'horaires: ${entry.startTime}-${entry.endTime} et ${overlapping.startTime.slice(0, 5)}-${overlapping.endTime.slice(0, 5)}`,
+        suggestions: CONFLICT_SUGGESTIONS.overlap,
+        data: { entry1: shift.id, entry2: overlapping.id }
+      });
+    }
+  }
+
+  return conflicts;
+}
+
+// Calcule (et applique hors simulation) la résolution d'un conflit détecté
+export async function resolvePlanningConflict(
+  conflict: Pick<PlanningConflict, 'type' | 'employeeId' | 'date' | 'data'>,
+  strategy: ResolutionStrategy,
+  options: { targetDate?: string; dryRun?: boolean; closedThrough?: string | null } = {}
+): Promise<{ patch: PlanningPatch | null; remainingConflicts: PlanningConflict[]; applied: boolean }> {
+  const { storage } = await import('./storage');
+  const rules = await storage.getLaborRulesForEmployee(conflict.employeeId);
+  const range = getLaborRulesDataRange(
+    rules,
+    offsetDate(conflict.date, -MOVE_SEARCH_DAYS),
+    offsetDate(options.targetDate && options.targetDate > conflict.date ? options.targetDate : conflict.date, MOVE_SEARCH_DAYS)
+  );
+  const shifts = await getPlannedWorkShifts(conflict.employeeId, range.start, range.end);
+
+  // Un correctif qui toucherait une période de paie clôturée n'est pas applicable
+  const patch = computeResolutionPatch(conflict, strategy, shifts, rules, options);
+  if (!patch || getClosedDates(getPlanningPatchDates(patch), options.closedThrough ?? null).length > 0) {
+    return { patch: null, remainingConflicts: [], applied: false };
+  }
+
+  const patchedIds = patch.updates.map(update => update.after.id);
+  const remainingConflicts = getPatchConflicts(applyPlanningPatch(shifts, patch), rules, patchedIds, conflict.employeeId);
+
+  if (options.dryRun) return { patch, remainingConflicts, applied: false };
+
+  const applied = await storage.applyPlanningPatch(patch);
+  return { patch, remainingConflicts, applied };
+}
+
+function withUpdates(updates: Array<{ before: PatchedEntry; after: PatchedEntry } | null>): PlanningPatch | null {
+  if (updates.some(update => update === null)) return null;
+  return { updates: updates as Array<{ before: PatchedEntry; after: PatchedEntry }>, deletes: [] };
+}
+
+// Nouveaux horaires d'un créneau (minutes depuis minuit de `date`), dans la limite de 24h
+function rescheduleEntry(
+  entry: PatchedEntry,
+  date: string,
+  startMinutes: number,
+  endMinutes: number
+): { before: PatchedEntry; after: PatchedEntry } | null {
+  if (startMinutes < 0 || startMinutes >= 1440 || endMinutes <= startMinutes || endMinutes - startMinutes >= 1440) {
+    return null;
+  }
+
+  return {
+    before: entry,
+    after: {
+      id: entry.id,
+      date,
+      startTime: formatTimeMinutes(startMinutes),
+      endTime: formatTimeMinutes(endMinutes % 1440),
+    },
+  };
+}
+
+function toPatchedEntry(shift: WorkShift): PatchedEntry {
+  return { id: shift.id!, date: shift.date, startTime: shift.startTime.slice(0, 5), endTime: shift.endTime.slice(0, 5) };
+}
+
+function formatTimeMinutes(minutes: number): string {
+  return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+}
+
+function toAbsoluteMinutes(date: string, time: string): number {
+  return Date.parse(`${date}T00:00:00Z`) / 60000 + parseMinutes(time);
+}
+
+function getDurationMinutes(entry: PatchedEntry): number {
+  const duration = parseMinutes(entry.endTime) - parseMinutes(entry.startTime);
+  return duration <= 0 ? duration + 1440 : duration;
+}
+
+function getEndMinutes(entry: PatchedEntry): number {
+  return toAbsoluteMinutes(entry.date, entry.startTime) + getDurationMinutes(entry);
+}
+
+function offsetDate(date: string, days: number): string {
+  const result = new Date(`${date}T00:00:00Z`);
+  result.setUTCDate(result.getUTCDate() + days);
+  return result.toISOString().split('T')[0];
+}
+
+// ============================================================================
+// MODÈLES DE PLANNING ET ROTATIONS
+// ============================================================================
+
+export interface TemplateShiftPattern {
+  week_index: number; // Semaine du cycle (0 = première semaine)
+  day_of_week: number; // 1 = lundi ... 7 = dimanche
+  start_time: string;
+  end_time: string;
+  type: 'work' | 'training' | 'meeting';
+  label?: string | null;
+}
+
+export interface TemplateAssignmentWindow {
+  template_id: number;
+  employee_id: number | null;
+  department_id: number | null;
+  start_date: string;
+  end_date: string | null;
+  cycle_offset: number;
+}
+
+export interface GeneratedTemplateShift {
+  date: string;
+  start_time: string;
+  end_time: string;
+  type: TemplateShiftPattern['type'];
+  label: string | null;
+}
+
+// Planning appliqué quand aucun modèle n'est affecté : du lundi au vendredi, 9h-17h
+export const DEFAULT_WEEKLY_PATTERN: TemplateShiftPattern[] = [1, 2, 3, 4, 5].map(day => ({
+  week_index: 0,
+  day_of_week: day,
+  start_time: '09:00',
+  end_time: '17:00',
+  type: 'work' as const,
+}));
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function toUtcDate(date: string): Date {
+  return new Date(`${date}T00:00:00Z`);
+}
+
+function getIsoDayOfWeek(date: Date): number {
+  return date.getUTCDay() || 7;
+}
+
+// Semaine du cycle d'une date, comptée depuis le lundi de la semaine d'ancrage
+export function getCycleWeekIndex(date: string, anchorDate: string, cycleWeeks: number, cycleOffset = 0): number {
+  const current = toUtcDate(date);
+  const anchor = toUtcDate(anchorDate);
+  const currentMonday = current.getTime() - (getIsoDayOfWeek(current) - 1) * DAY_MS;
+  const anchorMonday = anchor.getTime() - (getIsoDayOfWeek(anchor) - 1) * DAY_MS;
+  const weeks = Math.round((currentMonday - anchorMonday) / (7 * DAY_MS)) + cycleOffset;
+
+  return ((weeks % cycleWeeks) + cycleWeeks) % cycleWeeks;
+}
+
+// Créneaux d'un modèle pour une date donnée (plusieurs en cas de journée en coupure)
+export function getTemplateShiftsForDate(
+  shifts: TemplateShiftPattern[],
+  cycleWeeks: number,
+  date: string,
+  anchorDate: string,
+  cycleOffset = 0
+): GeneratedTemplateShift[] {
+  const weekIndex = getCycleWeekIndex(date, anchorDate, cycleWeeks, cycleOffset);
+  const dayOfWeek = getIsoDayOfWeek(toUtcDate(date));
+
+  return shifts
+    .filter(shift => shift.week_index === weekIndex && shift.day_of_week === dayOfWeek)
+    .sort((a, b) => a.start_time.localeCompare(b.start_time))
+    .map(shift => ({
+      date,
+      start_time: shift.start_time.slice(0, 5),
+      end_time: shift.end_time.slice(0, 5),
+      type: shift.type,
+      label: shift.label ?? null,
+    }));
+}
+
+// Déroule un modèle sur une période à partir de sa date d'ancrage
+export function expandPlanningTemplate(
+  shifts: TemplateShiftPattern[],
+  cycleWeeks: number,
+  options: { startDate: string; endDate: string; anchorDate?: string; cycleOffset?: number }
+): GeneratedTemplateShift[] {
+  const { startDate, endDate, anchorDate = startDate, cycleOffset = 0 } = options;
+  const result: GeneratedTemplateShift[] = [];
+  const current = toUtcDate(startDate);
+  const end = toUtcDate(endDate);
+
+  while (current <= end) {
+    const date = current.toISOString().split('T')[0];
+    result.push(...getTemplateShiftsForDate(shifts, cycleWeeks, date, anchorDate, cycleOffset));
+    current.setUTCDate(current.getUTCDate() + 1);
+  }
+
+  return result;
+}
+
+// Affectation en vigueur à une date : celle de l'employé prime sur celle de son département,
+// puis la plus récente l'emporte
+export function selectTemplateAssignment<T extends TemplateAssignmentWindow>(
+  assignments: T[],
+  employee: { id: number; department_id: number | null },
+  date: string
+): T | undefined {
+  const active = assignments.filter(assignment =>
+    assignment.start_date <= date &&
+    (!assignment.end_date || assignment.end_date >= date) &&
+    (assignment.employee_id === employee.id ||
+      (assignment.employee_id === null && employee.department_id !== null && assignment.department_id === employee.department_id))
+  );
+
+  return active.sort((a, b) => {
+    const specificity = Number(b.employee_id !== null) - Number(a.employee_id !== null);
+    return specificity || b.start_date.localeCompare(a.start_date);
+  })[0];
+}
+
+// ============================================================================
+// GESTION DES CONGÉS
+// ============================================================================
+
+// Jours ouvrés (lundi-vendredi) couverts par une demande de congé
+export function getLeaveWorkingDates(startDate: string, endDate: string): string[] {
+  const dates: string[] = [];
+  const current = new Date(`${startDate}T00:00:00Z`);
+  const end = new Date(`${endDate}T00:00:00Z`);
+
+  while (current <= end) {
+    const dayOfWeek = current.getUTCDay();
+    if (dayOfWeek !== 0 && dayOfWeek !== 6) {
+      dates.push(current.toISOString().split('T')[0]);
+    }
+    current.setUTCDate(current.getUTCDate() + 1);
+  }
+
+  return dates;
+}
+
+// Compteur de solde associé à chaque type de demande (null = non décompté)
+export function getLeaveBalanceType(type: string): LeaveBalanceType | null {
+  switch (type) {
+    case 'vacation':
+      return 'cp';
+    case 'rtt':
+      return 'rtt';
+    case 'compensatory_rest':
+      return 'repos_compensateur';
+    default:
+      return null;
+  }
+}
+
+// Type des entrées de planning posées pour un congé approuvé : le congé sans
+// solde garde son propre type pour ne pas être confondu avec des congés payés
+export function getLeavePlanningType(type: string): PlanningEntry['type'] {
+  switch (type) {
+    case 'sick_leave':
+      return 'sick_leave';
+    case 'unpaid_leave':
+      return 'unpaid_leave';
+    case 'rtt':
+    case 'compensatory_rest':
+      return 'rest_day';
+    default:
+      return 'vacation';
+  }
+}
+
+export function isLeaveDeductible(type: string): boolean {
+  return getLeaveBalanceType(type) !== null;
+}
+
+// ============================================================================
+// SOLDES DE CONGÉS (ACQUISITION ET REPORT)
+// ============================================================================
+
+export interface LeaveAccrualRule {
+  monthlyDays: number | null; // null = acquisition calculée (RTT) ou manuelle
+  carryOverCap: number | null; // null = report illimité
+}
+
+// 2,08 jours ouvrés de CP par mois travaillé (25 jours par an)
+export const LEAVE_ACCRUAL_RULES: Record<LeaveBalanceType, LeaveAccrualRule> = {
+  cp: { monthlyDays: 2.08, carryOverCap: 5 },
+  rtt: { monthlyDays: null, carryOverCap: 0 },
+  repos_compensateur: { monthlyDays: null, carryOverCap: null },
+};
+
+const WORKED_WEEKS_PER_YEAR = 47;
+
+export interface LeaveBalanceSummary {
+  accrued: number;
+  taken: number;
+  carriedOver: number;
+  expired: number;
+  adjusted: number;
+  balance: number;
+}
+
+// Période de référence : du 1er juin au 31 mai
+export function getReferencePeriod(date: string): { start: string; end: string; label: string } {
+  const [year, month] = date.split('-').map(Number);
+  const startYear = month >= 6 ? year : year - 1;
+
+  return {
+    start: `${startYear}-06-01`,
+    end: `${startYear + 1}-05-31`,
+    label: `${startYear}-${startYear + 1}`,
+  };
+}
+
+// Part du mois pendant laquelle l'employé faisait partie des effectifs
+export function getMonthPresenceRatio(month: string, hireDate: string): number {
+  const [year, monthIndex] = month.split('-').map(Number);
+  const daysInMonth = new Date(Date.UTC(year, monthIndex, 0)).getUTCDate();
+  const monthStart = `${month}-01`;
+  const monthEnd = `${month}-${String(daysInMonth).padStart(2, '0')}`;
+
+  if (hireDate > monthEnd) return 0;
+  if (hireDate <= monthStart) return 1;
+
+  const hireDay = parseInt(hireDate.split('-')[2]);
+  return (daysInMonth - hireDay + 1) / daysInMonth;
+}
+
+// RTT : heures au-delà de 35h converties en journées, réparties sur 12 mois
+export function calculateRttMonthlyAccrual(weeklyHours: number): number {
+  if (weeklyHours <= LEGAL_WEEKLY_HOURS) return 0;
+
+  const dailyHours = weeklyHours / 5;
+  const annualDays = ((weeklyHours - LEGAL_WEEKLY_HOURS) * WORKED_WEEKS_PER_YEAR) / dailyHours;
+  return Math.round((annualDays / 12) * 100) / 100;
+}
+
+export function calculateMonthlyAccrual(
+  leaveType: LeaveBalanceType,
+  weeklyHours: number,
+  presenceRatio: number
+): number {
+  const rule = LEAVE_ACCRUAL_RULES[leaveType];
+  const monthlyDays = leaveType === 'rtt'
+    ? calculateRttMonthlyAccrual(weeklyHours)
+    : rule.monthlyDays ?? 0;
+
+  return Math.round(monthlyDays * presenceRatio * 100) / 100;
+}
+
+// Report en fin de période : le solde au-delà du plafond est perdu
+export function computePeriodClosing(
+  leaveType: LeaveBalanceType,
+  balance: number
+): { carriedOver: number; expired: number } {
+  if (balance <= 0) {
+    return { carriedOver: balance, expired: 0 };
+  }
+
+  const cap = LEAVE_ACCRUAL_RULES[leaveType].carryOverCap;
+  const carriedOver = cap === null ? balance : Math.min(balance, cap);
+
+  return {
+    carriedOver: Math.round(carriedOver * 100) / 100,
+    expired: Math.round((balance - carriedOver) * 100) / 100,
+  };
+}
+
+export function summarizeLeaveMovements(
+  movements: Array<{ leave_type: LeaveBalanceType; movement_type: string; days: string | number }>
+): Record<LeaveBalanceType, LeaveBalanceSummary> {
+  const summary = {} as Record<LeaveBalanceType, LeaveBalanceSummary>;
+  for (const leaveType of Object.keys(LEAVE_ACCRUAL_RULES) as LeaveBalanceType[]) {
+    summary[leaveType] = { accrued: 0, taken: 0, carriedOver: 0, expired: 0, adjusted: 0, balance: 0 };
+  }
+
+  for (const movement of movements) {
+    const days = typeof movement.days === 'string' ? parseFloat(movement.days) : movement.days;
+    const entry = summary[movement.leave_type];
+
+    switch (movement.movement_type) {
+      case 'accrual':
+        entry.accrued += days;
+        break;
+      case 'taken':
+        entry.taken -= days;
+        break;
+      case 'carry_over':
+        entry.carriedOver += days;
+        break;
+      case 'expiry':
+        entry.expired -= days;
+        break;
+      case 'adjustment':
+      case 'opening': // Reprise de l'ancien compteur, présentée comme un ajustement
+        entry.adjusted += days;
+        break;
+    }
+    entry.balance += days;
+  }
+
+  for (const entry of Object.values(summary)) {
+    for (const key of Object.keys(entry) as Array<keyof LeaveBalanceSummary>) {
+      entry[key] = Math.round(entry[key] * 100) / 100;
+    }
+  }
+
+  return summary;
+}
+
+// ============================================================================
+// VALIDATION HEBDOMADAIRE
+// ============================================================================
+
+export type WeeklyValidationStatus = 'pending' | 'validated' | 'rejected' | 'partially_validated';
+
+export interface ValidationWeekEntry {
+  type: string;
+  status: 'draft' | 'submitted' | 'validated' | 'rejected';
+  startTime: string | null;
+  endTime: string | null;
+  breakDuration?: number | null; // En minutes
+  geofenceStatus?: GeofenceStatus | null;
+}
+
+export interface ValidationWeekSummary {
+  totalHours: number;
+  overtimeHours: number;
+  pendingCount: number;
+  validatedCount: number;
+  rejectedCount: number;
+  outOfZoneCount: number; // Pointages hors zone ou sans position, à vérifier
+  status: WeeklyValidationStatus;
+}
+
+export interface ValidationWeek extends ValidationWeekSummary {
+  employeeId: number;
+  employeeName: string;
+  departmentId: number | null;
+  departmentName: string | null;
+  weekStart: string;
+  weekEnd: string;
+  submittedAt: Date | null;
+  validationId: number | null;
+  validatedBy: number | null;
+  validatedAt: Date | null;
+  comments: string | null;
+  rejectionReason: string | null;
+  // Circuit de validation (null tant qu'aucune décision n'a été prise)
+  approvalStatus: 'pending' | 'approved' | 'rejected' | 'cancelled' | null;
+  approvalStep: number | null;
+  approverId: number | null;
+  lockedAt: Date | null;
+}
+
+// Totaux d'une semaine soumise : les entrées rejetées et les brouillons ne sont pas
+// comptés, les heures supplémentaires partent de la durée légale hebdomadaire
+export function summarizeValidationWeek(
+  entries: ValidationWeekEntry[],
+  overtimeThreshold: number = LEGAL_WEEKLY_HOURS
+): ValidationWeekSummary {
+  let totalMinutes = 0;
+  let pendingCount = 0;
+  let validatedCount = 0;
+  let rejectedCount = 0;
+  let outOfZoneCount = 0;
+
+  for (const entry of entries) {
+    if (entry.status === 'draft') continue;
+
+    if (entry.geofenceStatus === 'outside' || entry.geofenceStatus === 'unknown') outOfZoneCount++;
+
+    if (entry.status === 'submitted') pendingCount++;
+    if (entry.status === 'validated') validatedCount++;
+    if (entry.status === 'rejected') {
+      rejectedCount++;
+      continue;
+    }
+
+    totalMinutes += getEntryNetMinutes(entry);
+  }
+
+  const totalHours = Math.round((totalMinutes / 60) * 100) / 100;
+
+  return {
+    totalHours,
+    overtimeHours: Math.round(Math.max(0, totalHours - overtimeThreshold) * 100) / 100,
+    pendingCount,
+    validatedCount,
+    rejectedCount,
+    outOfZoneCount,
+    status: getWeeklyValidationStatus(pendingCount, validatedCount, rejectedCount),
+  };
+}
+
+// Statut de la semaine selon les décisions déjà prises sur ses entrées
+export function getWeeklyValidationStatus(
+  pendingCount: number,
+  validatedCount: number,
+  rejectedCount: number
+): WeeklyValidationStatus {
+  if (validatedCount === 0 && rejectedCount === 0) return 'pending';
+  if (pendingCount > 0 || (validatedCount > 0 && rejectedCount > 0)) return 'partially_validated';
+  return validatedCount > 0 ? 'validated' : 'rejected';
+}
+
+// Durée travaillée d'une entrée, pauses déduites (les pauses ne comptent pas)
+function getEntryNetMinutes(entry: Pick<ValidationWeekEntry, 'type' | 'startTime' | 'endTime' | 'breakDuration'>): number {
+  if (entry.type === 'break' || !entry.startTime || !entry.endTime) return 0;
+
+  let duration = parseMinutes(entry.endTime) - parseMinutes(entry.startTime);
+  if (duration <= 0) duration += 1440; // Poste de nuit
+  return Math.max(0, duration - (entry.breakDuration || 0));
+}
+
+// ============================================================================
+// CLÔTURE DE PAIE ET RÉGULARISATIONS
+// ============================================================================
+
+export type AdjustedEntry = Pick<ValidationWeekEntry, 'type' | 'startTime' | 'endTime' | 'breakDuration'>;
+
+// Une entrée datée au plus tard du dernier jour clôturé est figée
+export function isDateInClosedPeriod(date: string, closedThrough: string | null): boolean {
+  return closedThrough !== null && date <= closedThrough;
+}
+
+// Dates figées parmi celles touchées par une modification (triées, sans doublon)
+export function getClosedDates(dates: Array<string | null | undefined>, closedThrough: string | null): string[] {
+  const closed = dates.filter((date): date is string => !!date && isDateInClosedPeriod(date, closedThrough));
+  return closed.filter((date, index) => closed.indexOf(date) === index).sort();
+}
+
+// Dates avant et après correctif d'un patch de résolution de conflit
+export function getPlanningPatchDates(patch: PlanningPatch): string[] {
+  return [
+    ...patch.updates.flatMap(update => [update.before.date, update.after.date]),
+    ...patch.deletes.map(entry => entry.date),
+  ];
+}
+
+// Les régularisations sont comptées par la paie au premier jour ouvert
+export function getAdjustmentEffectiveDate(today: string, closedThrough: string | null): string {
+  if (closedThrough === null || today > closedThrough) return today;
+  return offsetDate(closedThrough, 1);
+}
+
+export function getEntryNetHours(entry: AdjustedEntry): number {
+  return Math.round((getEntryNetMinutes(entry) / 60) * 100) / 100;
+}
+
+// Écart d'heures d'une régularisation par rapport aux heures déjà retenues
+// (entrée d'origine et régularisations précédentes) ; null = annulation
+export function getAdjustmentHoursDelta(previousHours: number, corrected: AdjustedEntry | null): number {
+  const correctedHours = corrected ? getEntryNetHours(corrected) : 0;
+  return Math.round((correctedHours - previousHours) * 100) / 100;
+}
+
+// ============================================================================
+// POINTAGE
+// ============================================================================
+
+export type ClockEventError = 'ALREADY_CLOCKED_IN' | 'NOT_CLOCKED_IN' | 'BREAK_ALREADY_STARTED' | 'NO_BREAK_IN_PROGRESS' | 'OUT_OF_SEQUENCE';
+
+export interface ClockPunch {
+  id: number;
+  employeeId: number;
+  date: string;
+  clockIn: string;
+  clockOut: string | null;
+  breakStartedAt: string | null;
+  breakMinutes: number;
+  type: TimeEntry['type'];
+  status: TimeEntry['status'];
+  location: { latitude: number; longitude: number; address?: string } | null;
+  geofence: { status: GeofenceStatus; workSiteId: number | null; distanceMeters: number | null } | null;
+  notes: string | null;
+}
+
+// Fuseau de l'entreprise : les heures de pointage sont celles du lieu de travail
+export const COMPANY_TIME_ZONE = process.env.DEFAULT_TIMEZONE || 'Europe/Paris';
+
+// Un seul pointage ouvert par employé ; la sortie clôt une pause en cours.
+// Un pointage rejoué hors ligne ne peut pas précéder le précédent.
+export function getClockEventError(
+  action: ClockAction,
+  openPunch: { clockInAt: Date | null; breakStartedAt: Date | null } | null,
+  at: Date = new Date()
+): ClockEventError | null {
+  if (action === 'clock_in') return openPunch ? 'ALREADY_CLOCKED_IN' : null;
+  if (!openPunch) return 'NOT_CLOCKED_IN';
+  if (action === 'break_start' && openPunch.breakStartedAt) return 'BREAK_ALREADY_STARTED';
+  if (action === 'break_end' && !openPunch.breakStartedAt) return 'NO_BREAK_IN_PROGRESS';
+
+  const lastEvent = openPunch.breakStartedAt ?? openPunch.clockInAt;
+  if (lastEvent && at < lastEvent) return 'OUT_OF_SEQUENCE';
+  return null;
+}
+
+// Date et heure (HH:MM) d'un instant dans le fuseau donné
+export function getZonedDateTime(instant: Date, timeZone: string): { date: string; time: string } {
+  const parts = new Intl.DateTimeFormat('en-CA', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(instant);
+  const part = (type: Intl.DateTimeFormatPartTypes) => parts.find(p => p.type === type)?.value ?? '00';
+
+  return {
+    date: `${part('year')}-${part('month')}-${part('day')}`,
+    time: `${part('hour')}:${part('minute')}`,
+  };
+}
+
+// Instant correspondant à une date et une heure locales du fuseau donné (deux
+// passes pour tenir compte d'un changement d'heure entre l'estimation et le résultat)
+export function getInstantFromZonedTime(date: string, time: string, timeZone: string): Date {
+  const target = Date.parse(`${date}T${time.slice(0, 5)}:00Z`);
+  let instant = target;
+  for (let i = 0; i < 2; i++) {
+    const local = getZonedDateTime(new Date(instant), timeZone);
+    instant += target - Date.parse(`${local.date}T${local.time}:00Z`);
+  }
+  return new Date(instant);
+}
+
+// Un pointage ouvert depuis plus longtemps est considéré comme une sortie oubliée
+export const MAX_OPEN_PUNCH_HOURS = 14;
+
+// Durée retenue pour une sortie oubliée sans fin de journée planifiée
+export const AUTO_CLOSE_DEFAULT_HOURS = 8;
+
+// Heure de sortie d'un pointage oublié : la fin planifiée de la journée si elle
+// suit l'entrée, sinon l'entrée plus la durée par défaut, jamais dans le futur
+export function getAutoCloseTime(
+  clockInAt: Date,
+  date: string,
+  plannedEnd: string | null,
+  now: Date,
+  timeZone: string = COMPANY_TIME_ZONE
+): Date {
+  const planned = plannedEnd ? getInstantFromZonedTime(date, plannedEnd, timeZone) : null;
+  const closeAt = planned && planned > clockInAt
+    ? planned
+    : new Date(clockInAt.getTime() + AUTO_CLOSE_DEFAULT_HOURS * 60 * 60 * 1000);
+  return closeAt > now ? now : closeAt;
+}
+
+// Durée d'une pause en minutes entières (une pause entamée compte pour une minute)
+export function getElapsedBreakMinutes(startedAt: Date, endedAt: Date): number {
+  return Math.max(0, Math.ceil((endedAt.getTime() - startedAt.getTime()) / 60000));
+}
+
+export function toClockPunch(entry: TimeEntry): ClockPunch {
+  return {
+    id: entry.id,
+    employeeId: entry.employee_id,
+    date: entry.date,
+    clockIn: (entry.clock_in_at ?? new Date(`${entry.date}T${entry.start_time}`)).toISOString(),
+    clockOut: entry.clock_out_at?.toISOString() ?? null,
+    breakStartedAt: entry.break_started_at?.toISOString() ?? null,
+    breakMinutes: entry.break_duration ?? 0,
+    type: entry.type,
+    status: entry.status,
+    location: entry.location_latitude && entry.location_longitude
+      ? {
+          latitude: parseFloat(entry.location_latitude),
+          longitude: parseFloat(entry.location_longitude),
+          ...(entry.location_address && { address: entry.location_address }),
+        }
+      : null,
+    geofence: entry.geofence_status
+      ? {
+          status: entry.geofence_status,
+          workSiteId: entry.work_site_id,
+          distanceMeters: entry.geofence_distance_meters,
+        }
+      : null,
+    notes: entry.description,
+  };
+}
+
+// ============================================================================
+// SYNCHRONISATION HORS LIGNE
+// ============================================================================
+
+export type SyncConflictReason =
+  | 'ENTRY_MODIFIED'
+  | 'ENTRY_NOT_FOUND'
+  | 'PERIOD_VALIDATED'
+  | 'PERIOD_CLOSED'
+  | 'TIME_ENTRY_OVERLAP'
+  | 'OUTSIDE_WORK_SITE'
+  | ClockEventError;
+
+export interface SyncMutationResult {
+  clientId: string;
+  status: 'applied' | 'duplicate' | 'conflict' | 'rejected';
+  entry?: TimeEntry | null;
+  conflict?: {
+    reason: SyncConflictReason;
+    resolvable: boolean; // Le client peut réappliquer sa version sur la version serveur
+    serverEntry: TimeEntry | null;
+  };
+  error?: string;
+}
+
+// Durée maximale hors ligne au-delà de laquelle un pointage n'est plus accepté
+export const MAX_OFFLINE_HOURS = 72;
+
+// Horodatage retenu pour une mutation hors ligne : l'heure du client, ramenée à
+// l'heure serveur si elle est dans le futur ; null si elle est trop ancienne
+export function resolveSyncTimestamp(clientTimestamp: string, receivedAt: Date, maxOfflineHours = MAX_OFFLINE_HOURS): Date | null {
+  const timestamp = new Date(clientTimestamp);
+  if (timestamp > receivedAt) return receivedAt;
+  if (receivedAt.getTime() - timestamp.getTime() > maxOfflineHours * 60 * 60 * 1000) return null;
+  return timestamp;
+}
+
+// Écart toléré entre l'heure d'un pointage et sa réception par le serveur
+export const PUNCH_DELAY_TOLERANCE_MINUTES = 15;
+
+// Pointage reçu bien après l'heure annoncée par l'appareil : l'heure n'est pas
+// vérifiable, le responsable la contrôle à la validation
+export function isDelayedPunch(occurredAt: Date, receivedAt: Date, toleranceMinutes = PUNCH_DELAY_TOLERANCE_MINUTES): boolean {
+  return receivedAt.getTime() - occurredAt.getTime() > toleranceMinutes * 60 * 1000;
+}
+
+// Conflit entre une mutation hors ligne et l'état serveur. `entry` vaut null pour
+// une entrée supprimée entre-temps et undefined pour une création.
+export function detectSyncConflict(params: {
+  entry?: { version: number; status: string } | null;
+  baseVersion?: number;
+  dates: string[];
+  validatedWeeks: string[]; // Lundis des semaines validées de l'employé
+  closedThrough: string | null;
+}): SyncConflictReason | null {
+  const { entry, baseVersion, dates, validatedWeeks, closedThrough } = params;
+
+  if (entry === null) return 'ENTRY_NOT_FOUND';
+  if (getClosedDates(dates, closedThrough).length > 0) return 'PERIOD_CLOSED';
+  if (entry?.status === 'validated' || dates.some(date => validatedWeeks.includes(getWeekBounds(date).weekStart))) {
+    return 'PERIOD_VALIDATED';
+  }
+  if (entry && baseVersion !== undefined && entry.version !== baseVersion) return 'ENTRY_MODIFIED';
+  return null;
+}
+
+// Seule une modification concurrente peut être écrasée par le client
+export function isSyncConflictResolvable(reason: SyncConflictReason): boolean {
+  return reason === 'ENTRY_MODIFIED';
+}
+
 // ============================================================================
 // FONCTIONS UTILITAIRES
 // ============================================================================
@@ -0,0 +1,89 @@
+import {
+  computeResolutionPatch,
+  applyPlanningPatch,
+  getPatchConflicts,
+  getConflictEntryIds,
+} from './businessLogic';
+import { DEFAULT_LABOR_RULE_CONFIG, resolveLaborRules, type WorkShift } from './laborRules';
+
+jest.mock('./db', () => ({ db: {} }));
+
+const rules = resolveLaborRules(DEFAULT_LABOR_RULE_CONFIG);
+
+// 2024-03-11 est un lundi
+const overlapping: WorkShift[] = [
+  { id: 1, date: '2024-03-11', startTime: '08:00', endTime: '12:00' },
+  { id: 2, date: '2024-03-11', startTime: '11:00', endTime: '15:00' },
+];
+const overlapConflict = { type: 'overlap' as const, data: { entry1: 1, entry2: 2 } };
+
+describe('Conflict Resolution', () => {
+  describe('getConflictEntryIds', () => {
+    it('should read overlap and rule conflict entries', () => {
+      expect(getConflictEntryIds(overlapConflict)).toEqual([1, 2]);
+      expect(getConflictEntryIds({ type: 'max_daily_hours', data: { entryIds: [4, 5] } })).toEqual([4, 5]);
+      expect(getConflictEntryIds({ type: 'average_hours', data: {} })).toEqual([]);
+    });
+  });
+
+  describe('computeResolutionPatch', () => {
+    it('should shift the later entry after the earlier one', () => {
+      const patch = computeResolutionPatch(overlapConflict, 'shift', overlapping, rules);
+
+      expect(patch?.updates).toEqual([{
+        before: { id: 2, date: '2024-03-11', startTime: '11:00', endTime: '15:00' },
+        after: { id: 2, date: '2024-03-11', startTime: '12:00', endTime: '16:00' },
+      }]);
+      expect(getPatchConflicts(applyPlanningPatch(overlapping, patch!), rules, [2], 7)).toEqual([]);
+    });
+
+    it('should trim the earlier entry to the start of the later one', () => {
+      const patch = computeResolutionPatch(overlapConflict, 'trim', overlapping, rules);
+
+      expect(patch?.updates[0].after).toEqual({ id: 1, date: '2024-03-11', startTime: '08:00', endTime: '11:00' });
+    });
+
+    it('should merge overlapping entries into one', () => {
+      const patch = computeResolutionPatch(overlapConflict, 'merge', overlapping, rules);
+
+      expect(patch?.updates[0].after).toEqual({ id: 1, date: '2024-03-11', startTime: '08:00', endTime: '15:00' });
+      expect(patch?.deletes.map(entry => entry.id)).toEqual([2]);
+      expect(applyPlanningPatch(overlapping, patch!)).toHaveLength(1);
+    });
+
+    it('should respect the minimum daily rest when shifting', () => {
+      const shifts: WorkShift[] = [
+        { id: 1, date: '2024-03-11', startTime: '14:00', endTime: '23:00' },
+        { id: 2, date: '2024-03-12', startTime: '07:00', endTime: '12:00' },
+      ];
+
+      const patch = computeResolutionPatch({ type: 'min_rest_period', data: { entryIds: [1, 2] } }, 'shift', shifts, rules);
+      expect(patch?.updates[0].after).toMatchObject({ id: 2, startTime: '10:00', endTime: '15:00' });
+    });
+
+    it('should trim the daily excess from the last entry', () => {
+      const shifts: WorkShift[] = [
+        { id: 1, date: '2024-03-11', startTime: '07:00', endTime: '12:00' },
+        { id: 2, date: '2024-03-11', startTime: '13:00', endTime: '19:30' },
+      ];
+
+      const patch = computeResolutionPatch({ type: 'max_daily_hours', data: { entryIds: [1, 2] } }, 'trim', shifts, rules);
+      expect(patch?.updates[0].after).toMatchObject({ id: 2, startTime: '13:00', endTime: '18:00' });
+    });
+
+    it('should move the entry to the first compliant day', () => {
+      const shifts: WorkShift[] = [
+        { id: 1, date: '2024-03-17', startTime: '09:00', endTime: '17:00' },
+        { id: 2, date: '2024-03-18', startTime: '09:00', endTime: '17:00' },
+      ];
+
+      const patch = computeResolutionPatch({ type: 'sunday_work', data: { entryIds: [1] } }, 'move', shifts, rules);
+      expect(patch?.updates[0].after).toMatchObject({ id: 1, date: '2024-03-19' });
+    });
+
+    it('should refuse strategies that do not apply', () => {
+      expect(computeResolutionPatch(overlapConflict, 'merge', [overlapping[0]], rules)).toBeNull();
+      expect(computeResolutionPatch({ type: 'sunday_work', data: { entryIds: [1] } }, 'trim', overlapping, rules)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,130 @@
+// Expressions cron à cinq champs (minute heure jour mois jour-de-semaine),
+// évaluées dans un fuseau horaire. Sont acceptés : *, listes (1,15),
+// intervalles (1-5) et pas (*/15, 8-18/2). Le dimanche vaut 0 ou 7.
+
+export interface CronSchedule {
+  expression: string;
+  minutes: Set<number>;
+  hours: Set<number>;
+  days: Set<number>;
+  months: Set<number>;
+  weekdays: Set<number>;
+  // Comme cron : si jour et jour de semaine sont restreints, l'un ou l'autre suffit
+  anyDay: boolean;
+  anyWeekday: boolean;
+}
+
+const FIELD_RANGES: Array<[number, number]> = [[0, 59], [0, 23], [1, 31], [1, 12], [0, 7]];
+
+// Au-delà, l'expression ne correspond à aucune date (31 février...)
+const MAX_SEARCH_MS = 366 * 24 * 60 * 60 * 1000;
+
+function parseField(field: string, [min, max]: [number, number]): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const match = /^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/.exec(part);
+    if (!match) throw new Error(`Invalid cron field "${field}"`);
+
+    const start = match[1] === '*' ? min : parseInt(match[2]);
+    const end = match[1] === '*' ? max : match[3] !== undefined ? parseInt(match[3]) : match[4] ? max : start;
+    const step = match[4] ? parseInt(match[4]) : 1;
+    if (start < min || end > max || start > end || step < 1) {
+      throw new Error(`Invalid cron field "${field}"`);
+    }
+
+    for (let value = start; value <= end; value += step) values.add(value);
+  }
+
+  return values;
+}
+
+export function parseCron(expression: string): CronSchedule {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(`Invalid cron expression "${expression}": 5 fields expected`);
+  }
+
+  const [minutes, hours, days, months, weekdays] = fields.map((field, index) => parseField(field, FIELD_RANGES[index]));
+  if (weekdays.has(7)) weekdays.add(0);
+
+  return {
+    expression,
+    minutes,
+    hours,
+    days,
+    months,
+    weekdays,
+    anyDay: fields[2] === '*',
+    anyWeekday: fields[4] === '*',
+  };
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getZonedParts(instant: Date, timeZone: string) {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      weekday: 'short',
+      hourCycle: 'h23',
+    });
+    formatters.set(timeZone, formatter);
+  }
+
+  const parts = formatter.formatToParts(instant);
+  const part = (type: Intl.DateTimeFormatPartTypes) => parts.find(p => p.type === type)?.value ?? '';
+
+  return {
+    minute: parseInt(part('minute')),
+    hour: parseInt(part('hour')),
+    day: parseInt(part('day')),
+    month: parseInt(part('month')),
+    weekday: ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'].indexOf(part('weekday')),
+  };
+}
+
+function matchesDay(schedule: CronSchedule, parts: ReturnType<typeof getZonedParts>): boolean {
+  if (!schedule.hours.has(parts.hour) || !schedule.months.has(parts.month)) return false;
+
+  const dayMatches = schedule.days.has(parts.day);
+  const weekdayMatches = schedule.weekdays.has(parts.weekday);
+  if (schedule.anyDay || schedule.anyWeekday) {
+    return dayMatches && weekdayMatches;
+  }
+  return dayMatches || weekdayMatches;
+}
+
+// La minute de l'instant (heure locale du fuseau) correspond-elle à l'expression ?
+export function cronMatches(schedule: CronSchedule, instant: Date, timeZone: string): boolean {
+  const parts = getZonedParts(instant, timeZone);
+  return schedule.minutes.has(parts.minute) && matchesDay(schedule, parts);
+}
+
+export function startOfMinute(instant: Date): Date {
+  return new Date(Math.floor(instant.getTime() / 60000) * 60000);
+}
+
+// Prochaine minute strictement après `after` qui correspond, ou null. Les heures
+// qui ne correspondent pas sont sautées d'un bloc.
+export function getNextCronRun(schedule: CronSchedule, after: Date, timeZone: string): Date | null {
+  const candidate = startOfMinute(after);
+  candidate.setTime(candidate.getTime() + 60000);
+  const limit = candidate.getTime() + MAX_SEARCH_MS;
+
+  while (candidate.getTime() < limit) {
+    const parts = getZonedParts(candidate, timeZone);
+    if (!matchesDay(schedule, parts)) {
+      candidate.setTime(candidate.getTime() + (60 - parts.minute) * 60000);
+      continue;
+    }
+    if (schedule.minutes.has(parts.minute)) return new Date(candidate);
+    candidate.setTime(candidate.getTime() + 60000);
+  }
+  return null;
+}
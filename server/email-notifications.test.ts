@@ -0,0 +1,133 @@
+import { renderNotificationEmail, toAbsoluteUrl } from './emailTemplates';
+import { EmailService, getEmailRetryDelayMinutes, isPermanentSmtpFailure } from './emailService';
+import { storage } from './storage';
+
+const sendMail = jest.fn();
+
+jest.mock('./db', () => ({ db: {} }));
+jest.mock('nodemailer', () => ({ __esModule: true, default: { createTransport: () => ({ sendMail }) } }));
+jest.mock('../shared/env', () => ({
+  env: { NOTIFICATION_EMAIL_ENABLED: true, SMTP_HOST: 'localhost', SMTP_PORT: 1025, SMTP_SECURE: false, PORT: 5000 },
+}));
+jest.mock('./storage', () => ({
+  storage: {
+    claimDueEmailDeliveries: jest.fn(),
+    markEmailSent: jest.fn(),
+    markEmailFailed: jest.fn(),
+  },
+}));
+
+const mockedStorage = storage as jest.Mocked<typeof storage>;
+
+describe('Email Notifications', () => {
+  const notification = {
+    type: 'leave_request' as const,
+    title: 'Demande de congé approuvée',
+    message: 'Votre demande du 04/03 au 08/03 a été approuvée <3',
+    action_url: '/employee/leave-requests',
+    priority: 'medium' as const,
+  };
+
+  describe('renderNotificationEmail', () => {
+    it('should render French emails with the notification title as subject', () => {
+      const email = renderNotificationEmail(notification, 'fr', 'https://app.clockpilot.fr/');
+
+      expect(email.subject).toBe('Demande de congé approuvée');
+      expect(email.text).toContain('Voir la demande : https://app.clockpilot.fr/employee/leave-requests');
+      expect(email.html).toContain('<html lang="fr">');
+    });
+
+    it('should write English emails from the notification event and data', () => {
+      const email = renderNotificationEmail({
+        ...notification,
+        priority: 'urgent',
+        data: { event: 'leave_decided', leaveRequestId: 4, status: 'approved', startDate: '2024-03-04', endDate: '2024-03-08' },
+      }, 'en', 'https://app.clockpilot.fr');
+
+      expect(email.subject).toBe('[Urgent] Leave approved');
+      expect(email.text).toContain('Your leave request from 2024-03-04 to 2024-03-08 was approved.');
+      expect(email.text).toContain('View request : https://app.clockpilot.fr/employee/leave-requests');
+      expect(email.text).not.toContain('approuvée');
+    });
+
+    it('should keep the text of notifications written by hand', () => {
+      const email = renderNotificationEmail(notification, 'en', 'https://app.clockpilot.fr');
+
+      expect(email.subject).toBe('Demande de congé approuvée');
+      expect(email.text).toContain('Leave request');
+    });
+
+    it('should escape notification content in the HTML version', () => {
+      const email = renderNotificationEmail(notification, 'fr', 'https://app.clockpilot.fr');
+
+      expect(email.html).toContain('approuvée &lt;3');
+      expect(email.html).not.toContain('approuvée <3');
+    });
+
+    it('should leave out the link when the notification has none', () => {
+      const email = renderNotificationEmail({ ...notification, action_url: null }, 'fr', 'https://app.clockpilot.fr');
+
+      expect(email.html).not.toContain('<a href');
+      expect(email.text).not.toContain('Voir la demande');
+    });
+  });
+
+  describe('toAbsoluteUrl', () => {
+    it('should keep absolute links', () => {
+      expect(toAbsoluteUrl('https://example.com/a', 'https://app.clockpilot.fr')).toBe('https://example.com/a');
+      expect(toAbsoluteUrl(null, 'https://app.clockpilot.fr')).toBeNull();
+    });
+  });
+
+  describe('retry policy', () => {
+    it('should space out retries and give up after the last one', () => {
+      expect(getEmailRetryDelayMinutes(1)).toBe(1);
+      expect(getEmailRetryDelayMinutes(5)).toBe(720);
+      expect(getEmailRetryDelayMinutes(6)).toBeNull();
+    });
+
+    it('should only treat SMTP 5xx replies as permanent', () => {
+      expect(isPermanentSmtpFailure({ responseCode: 550 })).toBe(true);
+      expect(isPermanentSmtpFailure({ responseCode: 421 })).toBe(false);
+      expect(isPermanentSmtpFailure(new Error('ECONNREFUSED'))).toBe(false);
+    });
+  });
+
+  describe('EmailService.processQueue', () => {
+    const now = new Date('2024-03-04T08:00:00Z');
+    const delivery = {
+      id: 12,
+      to_address: 'marie@clockpilot.fr',
+      subject: 'Rappel',
+      html: '<p>Rappel</p>',
+      text: 'Rappel',
+      attempts: 0,
+    };
+
+    beforeEach(() => {
+      jest.clearAllMocks();
+      mockedStorage.claimDueEmailDeliveries.mockResolvedValue([delivery] as any);
+    });
+
+    it('should record the Message-ID of sent emails', async () => {
+      sendMail.mockResolvedValue({ messageId: '<abc@clockpilot>' });
+
+      await expect(new EmailService().processQueue(now)).resolves.toEqual({ sent: 1, failed: 0 });
+      expect(mockedStorage.markEmailSent).toHaveBeenCalledWith(12, '<abc@clockpilot>');
+    });
+
+    it('should reschedule temporary failures', async () => {
+      sendMail.mockRejectedValue(Object.assign(new Error('Try again later'), { responseCode: 421 }));
+
+      await new EmailService().processQueue(now);
+      expect(mockedStorage.markEmailFailed).toHaveBeenCalledWith(12, 'Try again later', new Date('2024-03-04T08:01:00Z'));
+    });
+
+    it('should give up on permanent failures', async () => {
+      sendMail.mockRejectedValue(Object.assign(new Error('Mailbox unavailable'), { responseCode: 550 }));
+
+      await new EmailService().processQueue(now);
+      expect(mockedStorage.markEmailFailed).toHaveBeenCalledWith(12, 'Mailbox unavailable', null);
+    });
+  });
+});
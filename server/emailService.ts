@@ -0,0 +1,158 @@
+import nodemailer, { type Transporter } from 'nodemailer';
+import { storage } from './storage';
+import { renderDigestEmail, renderNotificationEmail, type EmailLocale, type RenderedEmail } from './emailTemplates';
+import { type DigestGroup } from './notificationDigests';
+import { env } from '../shared/env';
+import { type DigestFrequency, type Notification } from '@shared/schema';
+
+// Delay before each retry, in minutes: the email is given up after the last one
+export const EMAIL_RETRY_DELAYS_MINUTES = [1, 5, 30, 120, 720];
+
+const QUEUE_BATCH_SIZE = 20;
+const DEFAULT_FROM = 'ClockPilot <noreply@clockpilot.local>';
+
+// Returns null once every retry has been used
+export function getEmailRetryDelayMinutes(attempts: number): number | null {
+  return EMAIL_RETRY_DELAYS_MINUTES[attempts - 1] ?? null;
+}
+
+// SMTP 5xx replies (unknown mailbox, rejected sender...) will not succeed on retry
+export function isPermanentSmtpFailure(error: unknown): boolean {
+  const responseCode = (error as { responseCode?: number } | null)?.responseCode;
+  return typeof responseCode === 'number' && responseCode >= 500;
+}
+
+export class EmailService {
+  private transporter: Transporter | null;
+  private processing = false;
+
+  constructor() {
+    // Any SMTP server works, including a local catcher such as MailHog
+    this.transporter = env.NOTIFICATION_EMAIL_ENABLED && env.SMTP_HOST
+      ? nodemailer.createTransport({
+          host: env.SMTP_HOST,
+          port: env.SMTP_PORT ?? (env.SMTP_SECURE ? 465 : 587),
+          secure: env.SMTP_SECURE,
+          ...(env.SMTP_USER && { auth: { user: env.SMTP_USER, pass: env.SMTP_PASS } }),
+        })
+      : null;
+  }
+
+  isEnabled(): boolean {
+    return this.transporter !== null;
+  }
+
+  // Queue the email version of a notification; it is sent by the queue worker
+  async enqueueNotificationEmail(
+    userId: number,
+    notification: Pick<Notification, 'type' | 'title' | 'message' | 'action_url' | 'priority'> & Partial<Pick<Notification, 'data'>> & { id?: number },
+    locale: EmailLocale
+  ) {
+    const email = renderNotificationEmail(notification, locale, this.getBaseUrl());
+    return this.enqueue(userId, email, notification.id ?? null);
+  }
+
+  // Queue a daily or weekly digest; notificationId is its in-app summary
+  async enqueueDigestEmail(
+    userId: number,
+    groups: DigestGroup[],
+    frequency: DigestFrequency,
+    locale: EmailLocale,
+    notificationId: number | null
+  ) {
+    const email = renderDigestEmail(groups, frequency, locale, this.getBaseUrl());
+    return this.enqueue(userId, email, notificationId);
+  }
+
+  private getBaseUrl(): string {
+    return env.BASE_URL || `http://localhost:${env.PORT}`;
+  }
+
+  private async enqueue(userId: number, email: RenderedEmail, notificationId: number | null) {
+    if (!this.isEnabled()) return null;
+
+    const user = await storage.getUser(userId);
+    if (!user) return null;
+
+    return storage.createEmailDelivery({
+      user_id: userId,
+      notification_id: notificationId,
+      to_address: user.email,
+      ...email,
+    });
+  }
+
+  // Send the emails that are due (run by the email_queue job); failures are
+  // rescheduled or given up
+  async processQueue(now: Date = new Date()): Promise<{ sent: number; failed: number }> {
+    if (!this.transporter || this.processing) return { sent: 0, failed: 0 };
+
+    this.processing = true;
+    let sent = 0;
+    let failed = 0;
+    try {
+      const deliveries = await storage.claimDueEmailDeliveries(QUEUE_BATCH_SIZE, now);
+      for (const delivery of deliveries) {
+        try {
+          const info = await this.transporter.sendMail({
+            from: env.EMAIL_FROM || DEFAULT_FROM,
+            to: delivery.to_address,
+            subject: delivery.subject,
+            html: delivery.html,
+            text: delivery.text,
+          });
+          await storage.markEmailSent(delivery.id, info.messageId);
+          sent++;
+        } catch (error) {
+          const attempts = delivery.attempts + 1;
+          const delay = isPermanentSmtpFailure(error) ? null : getEmailRetryDelayMinutes(attempts);
+          const message = error instanceof Error ? error.message : String(error);
+          await storage.markEmailFailed(
+            delivery.id,
+            message,
+            delay === null ? null : new Date(now.getTime() + delay * 60 * 1000)
+          );
+          console.error(`Email ${delivery.id} to ${delivery.to_address} failed (attempt ${attempts}):`, message);
+          failed++;
+        }
+      }
+    } catch (error) {
+      console.error('Error processing email queue:', error);
+    } finally {
+      this.processing = false;
+    }
+
+    return { sent, failed };
+  }
+
+  // Send a message directly, bypassing the queue (SMTP configuration check)
+  async sendTestEmail(to: string) {
+    if (!this.transporter) {
+      throw new Error('Email channel is not configured (SMTP_HOST)');
+    }
+
+    return this.transporter.sendMail({
+      from: env.EMAIL_FROM || DEFAULT_FROM,
+      to,
+      subject: 'ClockPilot - Email de test',
+      text: 'Cet email confirme que ClockPilot peut joindre votre serveur SMTP.',
+    });
+  }
+}
+
+// Singleton instance
+let emailService: EmailService | null = null;
+
+export const initializeEmailService = (): EmailService => {
+  if (!emailService) {
+    emailService = new EmailService();
+  }
+  return emailService;
+};
+
+export const getEmailService = (): EmailService => {
+  if (!emailService) {
+    throw new Error('EmailService not initialized. Call initializeEmailService first.');
+  }
+  return emailService;
+};
@@ -0,0 +1,266 @@
+import type { DigestFrequency, Notification, NotificationType } from '@shared/schema';
+import type { DigestGroup } from './notificationDigests';
+
+export type EmailLocale = 'fr' | 'en';
+
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+interface TypeTemplate {
+  heading: string;
+  action: string; // Libellé du lien vers l'application
+}
+
+// Le titre et le message de la notification sont rédigés par le service de
+// notification ; le gabarit ajoute un en-tête et un lien propres au type
+const TYPE_TEMPLATES: Record<NotificationType, Record<EmailLocale, TypeTemplate>> = {
+  task_assigned: {
+    fr: { heading: 'Nouvelle tâche', action: 'Voir la tâche' },
+    en: { heading: 'New task assigned', action: 'View task' },
+  },
+  planning_modified: {
+    fr: { heading: 'Planning modifié', action: 'Voir mon planning' },
+    en: { heading: 'Schedule changed', action: 'View my schedule' },
+  },
+  validation_required: {
+    fr: { heading: 'Validation', action: 'Ouvrir les validations' },
+    en: { heading: 'Approval', action: 'Open approvals' },
+  },
+  time_missing: {
+    fr: { heading: 'Saisie de temps manquante', action: 'Saisir mes heures' },
+    en: { heading: 'Missing time entry', action: 'Enter my hours' },
+  },
+  overtime_alert: {
+    fr: { heading: 'Heures supplémentaires', action: 'Voir mes heures' },
+    en: { heading: 'Overtime alert', action: 'View my hours' },
+  },
+  schedule_conflict: {
+    fr: { heading: 'Conflit de planning', action: 'Voir le conflit' },
+    en: { heading: 'Schedule conflict', action: 'View conflict' },
+  },
+  system_update: {
+    fr: { heading: 'Information ClockPilot', action: "Ouvrir l'application" },
+    en: { heading: 'ClockPilot update', action: 'Open the app' },
+  },
+  reminder: {
+    fr: { heading: 'Rappel', action: "Ouvrir l'application" },
+    en: { heading: 'Reminder', action: 'Open the app' },
+  },
+  leave_request: {
+    fr: { heading: 'Congés', action: 'Voir la demande' },
+    en: { heading: 'Leave request', action: 'View request' },
+  },
+};
+
+type NotificationData = Record<string, any>;
+
+interface NotificationContent {
+  title: string;
+  message: string;
+}
+
+const WEEK_DECISION_TITLES: Record<string, string> = {
+  pending: 'Hours awaiting approval',
+  validated: 'Hours approved',
+  rejected: 'Hours rejected',
+  partially_validated: 'Hours partially approved',
+};
+
+const withReason = (reason: unknown) => (reason ? `: ${reason}` : '.');
+
+// Version anglaise des notifications rédigées par le service de notification :
+// data.event désigne le message et data porte les valeurs qu'il cite
+const EN_NOTIFICATIONS: Record<string, (data: NotificationData) => NotificationContent> = {
+  task_assigned: data => ({
+    title: 'New task assigned',
+    message: `${data.assignedByName ?? 'Someone'} assigned you a new task.`,
+  }),
+  planning_modified: data => ({
+    title: 'Schedule changed',
+    message: `${data.modifiedByName ?? 'A manager'} changed your schedule for ${data.date}.`,
+  }),
+  week_submitted: data => ({
+    title: 'Approval required',
+    message: `${data.employeeName ?? 'An employee'} submitted their hours for approval (week of ${data.weekStart}).`,
+  }),
+  time_missing: data => ({
+    title: 'Missing time entry',
+    message: `Don't forget to enter your hours for ${data.date}.`,
+  }),
+  overtime_alert: data => ({
+    title: 'Overtime alert',
+    message: `You reached ${data.hours}h of overtime on ${data.date}. Please add a justification if needed.`,
+  }),
+  week_submission_reminder: data => ({
+    title: 'Submit your week',
+    message: `${data.draftCount} entry(ies) for the week of ${data.weekStart} are still drafts. Remember to submit your hours.`,
+  }),
+  pending_validations: data => ({
+    title: 'Pending approvals',
+    message: `${data.weeks} submitted week(s) are awaiting your approval.`,
+  }),
+  punch_auto_closed: data => ({
+    title: 'Missing clock-out',
+    message: `Your punch on ${data.date} was left open: the clock-out was recorded at ${data.endTime}. Correct it if needed.`,
+  }),
+  leave_requested: data => ({
+    title: 'New leave request',
+    message: `${data.employeeName ?? 'An employee'} requests leave from ${data.startDate} to ${data.endDate} (${data.daysCount} day(s)).`,
+  }),
+  leave_decided: data => data.status === 'approved'
+    ? {
+        title: 'Leave approved',
+        message: `Your leave request from ${data.startDate} to ${data.endDate} was approved.`,
+      }
+    : {
+        title: 'Leave rejected',
+        message: `Your leave request from ${data.startDate} to ${data.endDate} was rejected${withReason(data.comment)}`,
+      },
+  week_decided: data => ({
+    title: WEEK_DECISION_TITLES[data.status] ?? 'Hours processed',
+    message: data.status === 'rejected'
+      ? `Your hours for the week of ${data.weekStart} were rejected${withReason(data.reason)}`
+      : `Your hours for the week of ${data.weekStart} were processed (${data.totalHours}h kept).`,
+  }),
+  approval_escalated: data => ({
+    title: 'Approval escalated',
+    message: `With no answer in time, ${data.employeeName ?? 'an employee'}'s ${data.subjectType === 'leave_request' ? 'leave request' : 'timesheet'} was passed on to you.`,
+  }),
+  out_of_zone_punch: data => ({
+    title: 'Out-of-zone punch',
+    message: data.geofenceStatus === 'outside'
+      ? `${data.employeeName ?? 'An employee'} clocked in on ${data.date} at ${data.startTime}, ${data.distanceMeters} m from the work site.`
+      : `${data.employeeName ?? 'An employee'} clocked in on ${data.date} at ${data.startTime} without a location.`,
+  }),
+};
+
+// Les notifications saisies librement (sans data.event) gardent leur texte
+export function getNotificationContent(
+  notification: Pick<Notification, 'title' | 'message'> & Partial<Pick<Notification, 'data'>>,
+  locale: EmailLocale
+): NotificationContent {
+  const data = (notification.data ?? {}) as NotificationData;
+  const render = locale === 'en' ? EN_NOTIFICATIONS[data.event] : undefined;
+  return render ? render(data) : { title: notification.title, message: notification.message };
+}
+
+const FOOTERS: Record<EmailLocale, string> = {
+  fr: 'Vous recevez cet email selon vos préférences de notification ClockPilot.',
+  en: 'You receive this email according to your ClockPilot notification preferences.',
+};
+
+const DIGEST_LABELS: Record<EmailLocale, { daily: string; weekly: string; action: string; urgent: string }> = {
+  fr: { daily: 'Votre récapitulatif ClockPilot quotidien', weekly: 'Votre récapitulatif ClockPilot hebdomadaire', action: 'Voir mes notifications', urgent: 'urgente(s)' },
+  en: { daily: 'Your daily ClockPilot digest', weekly: 'Your weekly ClockPilot digest', action: 'View my notifications', urgent: 'urgent' },
+};
+
+export function getNotificationTypeHeading(type: NotificationType, locale: EmailLocale): string {
+  return TYPE_TEMPLATES[type][locale].heading;
+}
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+// Les liens des notifications sont relatifs à l'application
+export function toAbsoluteUrl(actionUrl: string | null | undefined, baseUrl: string): string | null {
+  if (!actionUrl) return null;
+  if (/^https?:\/\//.test(actionUrl)) return actionUrl;
+  return `${baseUrl.replace(/\/$/, '')}/${actionUrl.replace(/^\//, '')}`;
+}
+
+export function renderNotificationEmail(
+  notification: Pick<Notification, 'type' | 'title' | 'message' | 'action_url' | 'priority'> & Partial<Pick<Notification, 'data'>>,
+  locale: EmailLocale,
+  baseUrl: string
+): RenderedEmail {
+  const template = TYPE_TEMPLATES[notification.type][locale];
+  const { title, message } = getNotificationContent(notification, locale);
+  const url = toAbsoluteUrl(notification.action_url, baseUrl);
+  const urgent = notification.priority === 'urgent';
+
+  const subject = `${urgent ? '[Urgent] ' : ''}${title}`;
+
+  const text = [
+    template.heading,
+    '',
+    title,
+    message,
+    ...(url ? ['', `${template.action} : ${url}`] : []),
+    '',
+    '--',
+    FOOTERS[locale],
+  ].join('\n');
+
+  const html = `<!DOCTYPE html>
+<html lang="${locale}">
+<head><meta charset="utf-8"><title>${escapeHtml(subject)}</title></head>
+<body style="font-family: Arial, sans-serif; color: #1f2937; background: #f9fafb; margin: 0; padding: 24px;">
+  <div style="max-width: 560px; margin: 0 auto; background: #ffffff; border-radius: 8px; padding: 24px;">
+    <p style="color: #6b7280; font-size: 12px; text-transform: uppercase; margin: 0 0 8px;">${escapeHtml(template.heading)}</p>
+    <h1 style="font-size: 20px; margin: 0 0 16px;">${escapeHtml(title)}</h1>
+    <p style="font-size: 15px; line-height: 1.5; margin: 0 0 24px;">${escapeHtml(message)}</p>
+    ${url ? `<a href="${escapeHtml(url)}" style="display: inline-block; background: #2563eb; color: #ffffff; text-decoration: none; padding: 10px 16px; border-radius: 6px;">${escapeHtml(template.action)}</a>` : ''}
+  </div>
+  <p style="max-width: 560px; margin: 16px auto 0; color: #9ca3af; font-size: 12px;">${escapeHtml(FOOTERS[locale])}</p>
+</body>
+</html>`;
+
+  return { subject, html, text };
+}
+
+// Récapitulatif : une section par type avec les titres les plus récents
+export function renderDigestEmail(
+  groups: DigestGroup[],
+  frequency: DigestFrequency,
+  locale: EmailLocale,
+  baseUrl: string
+): RenderedEmail {
+  const labels = DIGEST_LABELS[locale];
+  const total = groups.reduce((sum, group) => sum + group.count, 0);
+  const url = toAbsoluteUrl('/notifications', baseUrl);
+  const subject = `${labels[frequency]} (${total})`;
+
+  const urgentSuffix = (group: DigestGroup) =>
+    group.priorities.urgent ? ` - ${group.priorities.urgent} ${labels.urgent}` : '';
+
+  const text = [
+    labels[frequency],
+    '',
+    ...groups.flatMap(group => [
+      `${getNotificationTypeHeading(group.type, locale)} (${group.count}${urgentSuffix(group)})`,
+      ...group.titles.map(title => `  - ${title}`),
+      '',
+    ]),
+    `${labels.action} : ${url}`,
+    '',
+    '--',
+    FOOTERS[locale],
+  ].join('\n');
+
+  const sections = groups.map(group => `
+    <h2 style="font-size: 16px; margin: 16px 0 8px;">${escapeHtml(getNotificationTypeHeading(group.type, locale))} (${group.count}${escapeHtml(urgentSuffix(group))})</h2>
+    <ul style="margin: 0; padding-left: 20px;">${group.titles.map(title => `<li>${escapeHtml(title)}</li>`).join('')}</ul>`).join('');
+
+  const html = `<!DOCTYPE html>
+<html lang="${locale}">
+<head><meta charset="utf-8"><title>${escapeHtml(subject)}</title></head>
+<body style="font-family: Arial, sans-serif; color: #1f2937; background: #f9fafb; margin: 0; padding: 24px;">
+  <div style="max-width: 560px; margin: 0 auto; background: #ffffff; border-radius: 8px; padding: 24px;">
+    <h1 style="font-size: 20px; margin: 0 0 8px;">${escapeHtml(labels[frequency])}</h1>${sections}
+    <p style="margin: 24px 0 0;"><a href="${escapeHtml(url!)}" style="display: inline-block; background: #2563eb; color: #ffffff; text-decoration: none; padding: 10px 16px; border-radius: 6px;">${escapeHtml(labels.action)}</a></p>
+  </div>
+  <p style="max-width: 560px; margin: 16px auto 0; color: #9ca3af; font-size: 12px;">${escapeHtml(FOOTERS[locale])}</p>
+</body>
+</html>`;
+
+  return { subject, html, text };
+}
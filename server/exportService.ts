@@ -2,6 +2,9 @@ import { Response } from 'express';
 import xlsx from 'xlsx';
 import puppeteer from 'puppeteer';
 import { DatabaseStorage } from './storage';
+import { calculateOvertime, getOvertimePayrollMonth, getCompensatoryRestHours, type OvertimeCalculation, type OvertimeContingent } from './businessLogic';
+import { computePayrollVariables, getPayrollDataRange, PAYROLL_FORMATTERS, type PayrollReport } from './payrollExport';
+import type { PayrollExportFormat } from '@shared/schema';
 
 export interface ExportOptions {
   format: 'excel' | 'pdf';
@@ -218,6 +221,10 @@ export class ExportService {
       ['Métriques', 'Valeur'],
       ['Total Heures Travaillées', data.stats.totalHours.toFixed(1)],
       ['Heures Supplémentaires', data.stats.overtimeHours.toFixed(1)],
+      ...Object.entries(data.stats.overtimeByRate as Record<string, number>)
+        .map(([rate, hours]) => [`Heures Supplémentaires à +${rate}`, hours.toFixed(1)]),
+      ['Repos Compensateur (h)', data.stats.compensatoryRestHours.toFixed(1)],
+      ['Contingent Annuel Utilisé', `${data.stats.contingent.usedHours.toFixed(1)} / ${data.stats.contingent.limitHours}`],
       ['Jours Travaillés', data.stats.workDays],
       ['Projets', data.stats.projectCount]
     ];
@@ -270,6 +277,37 @@ export class ExportService {
     res.send(pdf);
   }
 
+  // ============================================================================
+  // PAYROLL EXPORTS
+  // ============================================================================
+
+  async buildPayrollReport(
+    month: string,
+    filters: { employeeIds?: number[]; departmentId?: number } = {}
+  ): Promise<PayrollReport> {
+    const [config, sources] = await Promise.all([
+      this.storage.getPayrollExportConfig(),
+      this.storage.getPayrollSources(month, filters),
+    ]);
+    const { monthStart, monthEnd } = getPayrollDataRange(month);
+
+    return {
+      month,
+      startDate: monthStart,
+      endDate: monthEnd,
+      employees: sources.map(source => computePayrollVariables(source, month, config)),
+    };
+  }
+
+  async exportPayroll(report: PayrollReport, format: PayrollExportFormat, res: Response): Promise<void> {
+    const config = await this.storage.getPayrollExportConfig();
+    const file = PAYROLL_FORMATTERS[format](report, config);
+
+    res.setHeader('Content-Type', file.contentType);
+    res.setHeader('Content-Disposition', `attachment; filename="paie_${report.month}.${file.extension}"`);
+    res.send(file.content);
+  }
+
   // ============================================================================
   // DATA PREPARATION METHODS
   // ============================================================================
@@ -353,7 +391,15 @@ export class ExportService {
       offset: 0
     });
 
-    const stats = this.calculateMonthlyStats(timeEntries.data, planningEntries);
+    // Heures supplémentaires des semaines se terminant dans le mois, contingent de l'année
+    const month = dates.start.substring(0, 7);
+    const [overtimeWeeks, contingent] = await Promise.all([
+      calculateOvertime(employeeId, dates.start, dates.end),
+      this.storage.getOvertimeContingent(employeeId, parseInt(month.substring(0, 4))),
+    ]);
+    const monthOvertime = overtimeWeeks.filter(week => getOvertimePayrollMonth(week.period) === month);
+
+    const stats = this.calculateMonthlyStats(timeEntries.data, planningEntries, monthOvertime, contingent);
 
     return {
       employee,
@@ -508,9 +554,13 @@ export class ExportService {
     };
   }
 
-  private calculateMonthlyStats(timeEntries: any[], planningEntries: any[]) {
+  private calculateMonthlyStats(
+    timeEntries: any[],
+    planningEntries: any[],
+    overtimeWeeks: OvertimeCalculation[],
+    contingent: OvertimeContingent
+  ) {
     let totalHours = 0;
-    let overtimeHours = 0;
 
     timeEntries.forEach(entry => {
       if (!entry.start_time || !entry.end_time) return;
@@ -519,9 +569,22 @@ export class ExportService {
       const duration = (end.getTime() - start.getTime()) / (1000 * 60 * 60);
       
       totalHours += duration;
-      if (entry.type === 'overtime') {
-        overtimeHours += duration;
+    });
+
+    // Heures par taux de majoration ; les heures converties en repos ne sont pas payées
+    const overtimeByRate: Record<string, number> = {};
+    let overtimeHours = 0;
+    let compensatoryRestHours = 0;
+    overtimeWeeks.forEach(week => {
+      overtimeHours += week.overtimeHours;
+      if (week.compensation === 'rest') {
+        compensatoryRestHours += getCompensatoryRestHours(week.tiers);
+        return;
       }
+      week.tiers.forEach(tier => {
+        const key = `${Math.round((tier.rate - 1) * 100)}%`;
+        overtimeByRate[key] = (overtimeByRate[key] || 0) + tier.hours;
+      });
     });
 
     const workDays = new Set(timeEntries.map(e => e.date)).size;
@@ -530,6 +593,9 @@ export class ExportService {
     return {
       totalHours,
       overtimeHours,
+      overtimeByRate,
+      compensatoryRestHours,
+      contingent,
       workDays,
       projectCount,
       month: timeEntries[0]?.date?.substring(0, 7) || ''
@@ -686,6 +752,13 @@ export class ExportService {
         <div class="stat-card">
           <h4>Heures Supplémentaires</h4>
           <span class="stat-value">${data.stats.overtimeHours.toFixed(1)}h</span>
+          ${Object.entries(data.stats.overtimeByRate as Record<string, number>)
+            .map(([rate, hours]) => `<p>+${rate} : ${hours.toFixed(1)}h</p>`).join('')}
+        </div>
+        <div class="stat-card">
+          <h4>Contingent Annuel</h4>
+          <span class="stat-value">${data.stats.contingent.usedHours.toFixed(1)}h / ${data.stats.contingent.limitHours}h</span>
+          ${data.stats.compensatoryRestHours > 0 ? `<p>Repos compensateur : ${data.stats.compensatoryRestHours.toFixed(1)}h</p>` : ''}
         </div>
         <div class="stat-card">
           <h4>Jours Travaillés</h4>
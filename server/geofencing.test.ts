@@ -0,0 +1,103 @@
+import {
+  getDistanceMeters,
+  getDistanceToZone,
+  evaluateGeofence,
+  toWorkSiteZone,
+  DEFAULT_GEOFENCE_POLICY,
+  type WorkSiteZone,
+} from './geofencing';
+import type { WorkSite } from '@shared/schema';
+
+// Place de la Concorde : cercle de 100 m et carré d'environ 220 m de côté
+const circle: WorkSiteZone = {
+  id: 1,
+  name: 'Concorde',
+  shape: 'circle',
+  center: { latitude: 48.8656, longitude: 2.3212 },
+  radiusMeters: 100,
+};
+
+const square: WorkSiteZone = {
+  id: 2,
+  name: 'Entrepôt',
+  shape: 'polygon',
+  polygon: [
+    { latitude: 48.8600, longitude: 2.3400 },
+    { latitude: 48.8600, longitude: 2.3430 },
+    { latitude: 48.8620, longitude: 2.3430 },
+    { latitude: 48.8620, longitude: 2.3400 },
+  ],
+};
+
+describe('Geofencing', () => {
+  describe('getDistanceMeters', () => {
+    it('should measure great-circle distances', () => {
+      // Un millième de degré de latitude vaut environ 111 m
+      expect(getDistanceMeters({ latitude: 48.8656, longitude: 2.3212 }, { latitude: 48.8666, longitude: 2.3212 })).toBeCloseTo(111.2, 0);
+    });
+  });
+
+  describe('getDistanceToZone', () => {
+    it('should measure the distance beyond a circle radius', () => {
+      expect(getDistanceToZone({ latitude: 48.8660, longitude: 2.3212 }, circle)).toBe(0);
+      expect(getDistanceToZone({ latitude: 48.8676, longitude: 2.3212 }, circle)).toBeCloseTo(122.4, 0);
+    });
+
+    it('should detect points inside a polygon and measure to its nearest edge', () => {
+      expect(getDistanceToZone({ latitude: 48.8610, longitude: 2.3415 }, square)).toBe(0);
+      expect(getDistanceToZone({ latitude: 48.8630, longitude: 2.3415 }, square)).toBeCloseTo(111.2, 0);
+    });
+  });
+
+  describe('evaluateGeofence', () => {
+    const outside = { latitude: 48.8700, longitude: 2.3212 };
+
+    it('should not check employees without applicable sites', () => {
+      expect(evaluateGeofence(outside, [], DEFAULT_GEOFENCE_POLICY)).toEqual({
+        status: null,
+        workSiteId: null,
+        distanceMeters: null,
+        blocked: false,
+        flagged: false,
+      });
+    });
+
+    it('should retain the nearest site and absorb GPS inaccuracy', () => {
+      const result = evaluateGeofence({ latitude: 48.8667, longitude: 2.3212 }, [square, circle], DEFAULT_GEOFENCE_POLICY);
+
+      expect(result).toMatchObject({ status: 'inside', workSiteId: 1, blocked: false, flagged: false });
+      expect(result.distanceMeters).toBeGreaterThan(0);
+    });
+
+    it('should apply the policy to out-of-zone clock-ins', () => {
+      expect(evaluateGeofence(outside, [circle], { ...DEFAULT_GEOFENCE_POLICY, mode: 'block' })).toMatchObject({ status: 'outside', blocked: true });
+      expect(evaluateGeofence(outside, [circle], { ...DEFAULT_GEOFENCE_POLICY, mode: 'flag' })).toMatchObject({ status: 'outside', blocked: false, flagged: true });
+      expect(evaluateGeofence(outside, [circle], DEFAULT_GEOFENCE_POLICY)).toMatchObject({ status: 'outside', blocked: false, flagged: false });
+    });
+
+    it('should only treat missing positions as out of zone when required', () => {
+      const policy = { ...DEFAULT_GEOFENCE_POLICY, mode: 'block' as const };
+
+      expect(evaluateGeofence(undefined, [circle], policy)).toMatchObject({ status: 'unknown', blocked: false });
+      expect(evaluateGeofence(undefined, [circle], { ...policy, require_location: true })).toMatchObject({ status: 'unknown', blocked: true });
+    });
+  });
+
+  describe('toWorkSiteZone', () => {
+    it('should convert stored decimals and skip incomplete sites', () => {
+      const site = {
+        id: 1,
+        name: 'Concorde',
+        shape: 'circle',
+        center_latitude: '48.86560000',
+        center_longitude: '2.32120000',
+        radius_meters: 100,
+        polygon: null,
+      } as WorkSite;
+
+      expect(toWorkSiteZone(site)).toEqual(circle);
+      expect(toWorkSiteZone({ ...site, radius_meters: null })).toBeNull();
+      expect(toWorkSiteZone({ ...site, shape: 'polygon' })).toBeNull();
+    });
+  });
+});
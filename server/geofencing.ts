@@ -0,0 +1,127 @@
+import type { GeofencePolicy, GeofenceStatus, WorkSite } from '@shared/schema';
+
+export interface GeoPoint {
+  latitude: number;
+  longitude: number;
+}
+
+// Zone d'un site de travail, coordonnées converties depuis les décimaux de la base
+export type WorkSiteZone =
+  | { id: number; name: string; shape: 'circle'; center: GeoPoint; radiusMeters: number }
+  | { id: number; name: string; shape: 'polygon'; polygon: GeoPoint[] };
+
+export interface GeofenceCheck {
+  status: GeofenceStatus | null; // null : aucun site ne s'applique à l'employé
+  workSiteId: number | null; // Site le plus proche
+  distanceMeters: number | null; // Distance au bord du site le plus proche, 0 à l'intérieur
+  blocked: boolean;
+  flagged: boolean; // Pointage accepté, à revoir par le responsable
+}
+
+export const DEFAULT_GEOFENCE_POLICY: GeofencePolicy = {
+  mode: 'warn',
+  tolerance_meters: 50,
+  require_location: false,
+};
+
+const EARTH_RADIUS_METERS = 6371000;
+
+const toRadians = (degrees: number) => degrees * Math.PI / 180;
+
+// Distance orthodromique (formule de haversine)
+export function getDistanceMeters(a: GeoPoint, b: GeoPoint): number {
+  const dLat = toRadians(b.latitude - a.latitude);
+  const dLon = toRadians(b.longitude - a.longitude);
+  const h = Math.sin(dLat / 2) ** 2
+    + Math.cos(toRadians(a.latitude)) * Math.cos(toRadians(b.latitude)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.sqrt(h));
+}
+
+// Distance d'un point au bord d'une zone, 0 s'il est à l'intérieur. Les polygones
+// sont projetés sur un plan local centré sur le point, ce qui reste précis à
+// l'échelle d'un site.
+export function getDistanceToZone(point: GeoPoint, zone: WorkSiteZone): number {
+  if (zone.shape === 'circle') {
+    return Math.max(0, getDistanceMeters(point, zone.center) - zone.radiusMeters);
+  }
+
+  const metersPerDegree = EARTH_RADIUS_METERS * Math.PI / 180;
+  const vertices = zone.polygon.map(vertex => ({
+    x: (vertex.longitude - point.longitude) * metersPerDegree * Math.cos(toRadians(point.latitude)),
+    y: (vertex.latitude - point.latitude) * metersPerDegree,
+  }));
+
+  let inside = false;
+  let distance = Infinity;
+  for (let i = 0, j = vertices.length - 1; i < vertices.length; j = i++) {
+    const a = vertices[j];
+    const b = vertices[i];
+
+    // Lancer de rayon depuis l'origine (le point testé)
+    if ((a.y > 0) !== (b.y > 0) && 0 < a.x + (0 - a.y) * (b.x - a.x) / (b.y - a.y)) {
+      inside = !inside;
+    }
+
+    // Distance de l'origine au segment [a, b]
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const lengthSquared = dx * dx + dy * dy;
+    const t = lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, -(a.x * dx + a.y * dy) / lengthSquared));
+    distance = Math.min(distance, Math.hypot(a.x + t * dx, a.y + t * dy));
+  }
+
+  return inside ? 0 : distance;
+}
+
+export function toWorkSiteZone(site: WorkSite): WorkSiteZone | null {
+  if (site.shape === 'polygon') {
+    return site.polygon && site.polygon.length >= 3
+      ? { id: site.id, name: site.name, shape: 'polygon', polygon: site.polygon }
+      : null;
+  }
+  if (site.center_latitude === null || site.center_longitude === null || !site.radius_meters) return null;
+
+  return {
+    id: site.id,
+    name: site.name,
+    shape: 'circle',
+    center: { latitude: Number(site.center_latitude), longitude: Number(site.center_longitude) },
+    radiusMeters: site.radius_meters,
+  };
+}
+
+// Contrôle d'un pointage d'entrée par rapport aux sites applicables : le plus
+// proche est retenu, la tolérance absorbe l'imprécision du GPS
+export function evaluateGeofence(
+  position: GeoPoint | undefined,
+  zones: WorkSiteZone[],
+  policy: GeofencePolicy
+): GeofenceCheck {
+  if (zones.length === 0) {
+    return { status: null, workSiteId: null, distanceMeters: null, blocked: false, flagged: false };
+  }
+
+  let status: GeofenceStatus = 'unknown';
+  let workSiteId: number | null = null;
+  let distanceMeters: number | null = null;
+
+  if (position) {
+    for (const zone of zones) {
+      const distance = Math.round(getDistanceToZone(position, zone));
+      if (distanceMeters === null || distance < distanceMeters) {
+        distanceMeters = distance;
+        workSiteId = zone.id;
+      }
+    }
+    status = distanceMeters! <= policy.tolerance_meters ? 'inside' : 'outside';
+  }
+
+  const outOfZone = status === 'outside' || (status === 'unknown' && policy.require_location);
+  return {
+    status,
+    workSiteId,
+    distanceMeters,
+    blocked: outOfZone && policy.mode === 'block',
+    flagged: outOfZone && policy.mode === 'flag',
+  };
+}
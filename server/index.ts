@@ -10,6 +10,13 @@ app.use(express.urlencoded({ extended: false }));
 // Serve static files from uploads directory (fallback mode)
 app.use('/uploads', express.static('uploads'));
 
+// Service worker (offline queue, push notifications), served from the site root
+// so that it controls every page; never cached so updates reach the browsers
+app.get('/sw.js', (_req, res) => {
+  res.set('Cache-Control', 'no-cache');
+  res.sendFile('sw.js', { root: 'public' });
+});
+
 app.use((req, res, next) => {
   const start = Date.now();
   const path = req.path;
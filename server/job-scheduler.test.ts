@@ -0,0 +1,145 @@
+import { parseCron, cronMatches, getNextCronRun } from './cron';
+import { JobScheduler } from './jobScheduler';
+import { getAutoCloseTime } from './businessLogic';
+import { storage } from './storage';
+import { redis } from './redis';
+
+jest.mock('./db', () => ({ db: {} }));
+jest.mock('./redis', () => ({
+  redis: { set: jest.fn(), eval: jest.fn() },
+}));
+jest.mock('./storage', () => ({
+  storage: {
+    startJobRun: jest.fn(),
+    finishJobRun: jest.fn(),
+  },
+}));
+
+const mockedStorage = storage as jest.Mocked<typeof storage>;
+const mockedRedis = redis as jest.Mocked<typeof redis>;
+
+describe('Job Scheduler', () => {
+  describe('cron expressions', () => {
+    it('should reject malformed expressions', () => {
+      expect(() => parseCron('0 19 * *')).toThrow('5 fields expected');
+      expect(() => parseCron('61 * * * *')).toThrow('Invalid cron field');
+      expect(() => parseCron('*/0 * * * *')).toThrow('Invalid cron field');
+    });
+
+    it('should match in the given time zone', () => {
+      const schedule = parseCron('0 19 * * *');
+
+      // 19:00 à Paris = 18:00 UTC en hiver, 17:00 UTC en été
+      expect(cronMatches(schedule, new Date('2024-03-05T18:00:00Z'), 'Europe/Paris')).toBe(true);
+      expect(cronMatches(schedule, new Date('2024-07-05T17:00:00Z'), 'Europe/Paris')).toBe(true);
+      expect(cronMatches(schedule, new Date('2024-03-05T19:00:00Z'), 'Europe/Paris')).toBe(false);
+    });
+
+    it('should support steps, ranges and Sunday as 7', () => {
+      expect(cronMatches(parseCron('*/15 8-18 * * 1-5'), new Date('2024-03-05T09:45:00Z'), 'UTC')).toBe(true);
+      expect(cronMatches(parseCron('*/15 8-18 * * 1-5'), new Date('2024-03-09T09:45:00Z'), 'UTC')).toBe(false);
+      expect(cronMatches(parseCron('0 0 * * 7'), new Date('2024-03-10T00:00:00Z'), 'UTC')).toBe(true);
+    });
+
+    it('should compute the next run strictly after the given instant', () => {
+      // 2024-03-08 est un vendredi
+      const friday = parseCron('0 14 * * 5');
+
+      expect(getNextCronRun(friday, new Date('2024-03-05T10:00:00Z'), 'Europe/Paris')).toEqual(new Date('2024-03-08T13:00:00Z'));
+      expect(getNextCronRun(friday, new Date('2024-03-08T13:00:00Z'), 'Europe/Paris')).toEqual(new Date('2024-03-15T13:00:00Z'));
+      expect(getNextCronRun(parseCron('0 0 31 2 *'), new Date('2024-03-05T10:00:00Z'), 'UTC')).toBeNull();
+    });
+  });
+
+  describe('runJob', () => {
+    const run = { id: 1, job_name: 'test_job', status: 'running' };
+    let scheduler: JobScheduler;
+    let jobFn: jest.Mock;
+
+    beforeEach(() => {
+      jest.clearAllMocks();
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+      jest.spyOn(console, 'warn').mockImplementation(() => {});
+      mockedRedis.set.mockResolvedValue('OK' as never);
+      mockedRedis.eval.mockResolvedValue(1 as never);
+      mockedStorage.startJobRun.mockResolvedValue(run as never);
+      mockedStorage.finishJobRun.mockImplementation(async (id, outcome) => ({ ...run, ...outcome }) as never);
+
+      jobFn = jest.fn().mockResolvedValue({ notified: 2 });
+      scheduler = new JobScheduler('UTC');
+      scheduler.register({ name: 'test_job', description: 'Test', cron: '0 19 * * *', run: jobFn });
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should record a successful run with its result and release the lock', async () => {
+      const scheduledFor = new Date('2024-03-05T19:00:00Z');
+      const outcome = await scheduler.runJob('test_job', 'schedule', scheduledFor);
+
+      expect(jobFn).toHaveBeenCalledWith(scheduledFor);
+      expect(mockedStorage.startJobRun).toHaveBeenCalledWith('test_job', scheduledFor, 'schedule', expect.any(String));
+      expect(mockedStorage.finishJobRun).toHaveBeenCalledWith(1, expect.objectContaining({ status: 'succeeded', result: { notified: 2 } }));
+      expect(outcome).toEqual({ run: expect.objectContaining({ status: 'succeeded' }) });
+      expect(mockedRedis.eval).toHaveBeenCalled();
+    });
+
+    it('should record the error of a failed run', async () => {
+      jobFn.mockRejectedValue(new Error('SMTP down'));
+
+      await scheduler.runJob('test_job', 'manual');
+
+      expect(mockedStorage.finishJobRun).toHaveBeenCalledWith(1, expect.objectContaining({ status: 'failed', error: 'SMTP down' }));
+    });
+
+    it('should not run while another instance holds the lock', async () => {
+      mockedRedis.set.mockResolvedValue(null as never);
+
+      expect(await scheduler.runJob('test_job', 'manual')).toEqual({ error: 'JOB_ALREADY_RUNNING' });
+      expect(jobFn).not.toHaveBeenCalled();
+    });
+
+    it('should run a cron tick only once', async () => {
+      mockedStorage.startJobRun.mockResolvedValue(undefined as never);
+
+      expect(await scheduler.runJob('test_job', 'schedule')).toEqual({ error: 'JOB_ALREADY_RAN' });
+      expect(jobFn).not.toHaveBeenCalled();
+    });
+
+    it('should still run when Redis is unavailable', async () => {
+      mockedRedis.set.mockRejectedValue(new Error('ECONNREFUSED') as never);
+
+      await scheduler.runJob('test_job', 'manual');
+
+      expect(jobFn).toHaveBeenCalled();
+    });
+
+    it('should only run the jobs due on a tick', async () => {
+      await scheduler.tick(new Date('2024-03-05T18:00:30Z'));
+      expect(jobFn).not.toHaveBeenCalled();
+
+      await scheduler.tick(new Date('2024-03-05T19:00:30Z'));
+      expect(jobFn).toHaveBeenCalledWith(new Date('2024-03-05T19:00:00Z'));
+    });
+  });
+
+  describe('getAutoCloseTime', () => {
+    const clockInAt = new Date('2024-03-05T07:00:00Z'); // 08:00 à Paris
+    const now = new Date('2024-03-06T10:00:00Z');
+
+    it('should close at the planned end of the day', () => {
+      expect(getAutoCloseTime(clockInAt, '2024-03-05', '17:30', now, 'Europe/Paris')).toEqual(new Date('2024-03-05T16:30:00Z'));
+    });
+
+    it('should fall back to the default duration without a planned end', () => {
+      expect(getAutoCloseTime(clockInAt, '2024-03-05', null, now, 'Europe/Paris')).toEqual(new Date('2024-03-05T15:00:00Z'));
+      expect(getAutoCloseTime(clockInAt, '2024-03-05', '06:00', now, 'Europe/Paris')).toEqual(new Date('2024-03-05T15:00:00Z'));
+    });
+
+    it('should never close in the future', () => {
+      const soon = new Date('2024-03-05T12:00:00Z');
+      expect(getAutoCloseTime(clockInAt, '2024-03-05', null, soon, 'Europe/Paris')).toEqual(soon);
+    });
+  });
+});
@@ -0,0 +1,184 @@
+import { hostname } from 'os';
+import { randomBytes } from 'crypto';
+import { storage } from './storage';
+import { redis } from './redis';
+import { parseCron, cronMatches, getNextCronRun, startOfMinute, type CronSchedule } from './cron';
+import { COMPANY_TIME_ZONE } from './businessLogic';
+import { type JobRun, type JobRunTrigger } from '@shared/schema';
+
+export interface ScheduledJob {
+  name: string;
+  description: string;
+  cron: string; // Evaluated in the company time zone
+  run: (now: Date) => Promise<Record<string, unknown> | void>;
+  lockTtlMs?: number; // Upper bound of a run; the lock expires after it if the process dies
+}
+
+export interface JobStatus {
+  name: string;
+  description: string;
+  cron: string;
+  nextRunAt: string | null;
+  lastRun: JobRun | null;
+  running: boolean;
+}
+
+export type JobRunOutcome =
+  | { run: JobRun }
+  | { error: 'JOB_ALREADY_RUNNING' | 'JOB_ALREADY_RAN' };
+
+const DEFAULT_LOCK_TTL_MS = 10 * 60 * 1000;
+
+// Releases the lock only if it still holds our token, so an expired lock taken
+// over by another instance is left alone
+const RELEASE_LOCK_SCRIPT = `
+if redis.call('get', KEYS[1]) == ARGV[1] then
+  return redis.call('del', KEYS[1])
+end
+return 0`;
+
+export class JobScheduler {
+  private jobs = new Map<string, ScheduledJob & { schedule: CronSchedule }>();
+  private running = new Set<string>();
+  private timer: NodeJS.Timeout | null = null;
+  private readonly instanceId = `${hostname()}:${process.pid}`;
+
+  constructor(private readonly timeZone: string = COMPANY_TIME_ZONE) {}
+
+  register(job: ScheduledJob) {
+    if (this.jobs.has(job.name)) {
+      throw new Error(`Job ${job.name} is already registered`);
+    }
+    this.jobs.set(job.name, { ...job, schedule: parseCron(job.cron) });
+  }
+
+  hasJob(name: string): boolean {
+    return this.jobs.has(name);
+  }
+
+  // Checks the schedule at the start of every minute
+  start() {
+    if (this.timer) return;
+
+    const scheduleNextTick = () => {
+      const delay = 60000 - (Date.now() % 60000);
+      this.timer = setTimeout(() => {
+        void this.tick(new Date());
+        scheduleNextTick();
+      }, delay);
+      this.timer.unref();
+    };
+    scheduleNextTick();
+  }
+
+  stop() {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  async tick(now: Date): Promise<void> {
+    const minute = startOfMinute(now);
+    const due = Array.from(this.jobs.values()).filter(job => cronMatches(job.schedule, minute, this.timeZone));
+
+    // Jobs run one after the other: they are short and share the database pool
+    for (const job of due) {
+      await this.runJob(job.name, 'schedule', minute);
+    }
+  }
+
+  // Runs a job under a cluster-wide lock and records the run. A scheduled run is
+  // keyed by its cron tick, so it happens once even if the lock is unavailable.
+  async runJob(name: string, trigger: JobRunTrigger, scheduledFor: Date = new Date()): Promise<JobRunOutcome> {
+    const job = this.jobs.get(name);
+    if (!job) throw new Error(`Unknown job ${name}`);
+
+    const lockToken = await this.acquireLock(job);
+    if (!lockToken) return { error: 'JOB_ALREADY_RUNNING' };
+
+    try {
+      const run = await storage.startJobRun(name, scheduledFor, trigger, this.instanceId);
+      if (!run) return { error: 'JOB_ALREADY_RAN' };
+
+      const startedAt = Date.now();
+      this.running.add(name);
+      try {
+        const result = await job.run(scheduledFor);
+        const finished = await storage.finishJobRun(run.id, {
+          status: 'succeeded',
+          result: result || undefined,
+          durationMs: Date.now() - startedAt,
+        });
+        return { run: finished ?? run };
+      } catch (error) {
+        console.error(`Job ${name} failed:`, error);
+        const finished = await storage.finishJobRun(run.id, {
+          status: 'failed',
+          error: error instanceof Error ? error.message : String(error),
+          durationMs: Date.now() - startedAt,
+        });
+        return { run: finished ?? run };
+      } finally {
+        this.running.delete(name);
+      }
+    } finally {
+      await this.releaseLock(job, lockToken);
+    }
+  }
+
+  async getJobStatuses(now: Date = new Date()): Promise<JobStatus[]> {
+    const latestRuns = await storage.getLatestJobRuns();
+
+    return Array.from(this.jobs.values()).map(job => ({
+      name: job.name,
+      description: job.description,
+      cron: job.cron,
+      nextRunAt: getNextCronRun(job.schedule, now, this.timeZone)?.toISOString() ?? null,
+      lastRun: latestRuns.find(run => run.job_name === job.name) ?? null,
+      running: this.running.has(job.name),
+    }));
+  }
+
+  // Without Redis (single instance, development) the process-local guard and
+  // the unique run row are enough
+  private async acquireLock(job: ScheduledJob): Promise<string | null> {
+    if (this.running.has(job.name)) return null;
+
+    const token = randomBytes(16).toString('hex');
+    try {
+      const acquired = await redis.set(`jobs:lock:${job.name}`, token, 'PX', job.lockTtlMs ?? DEFAULT_LOCK_TTL_MS, 'NX');
+      return acquired === 'OK' ? token : null;
+    } catch (error) {
+      console.warn(`Redis unavailable, running job ${job.name} without a cluster lock:`, error instanceof Error ? error.message : error);
+      return token;
+    }
+  }
+
+  private async releaseLock(job: ScheduledJob, token: string) {
+    try {
+      await redis.eval(RELEASE_LOCK_SCRIPT, 1, `jobs:lock:${job.name}`, token);
+    } catch (error) {
+      console.warn(`Could not release the lock of job ${job.name}:`, error instanceof Error ? error.message : error);
+    }
+  }
+}
+
+// Singleton instance
+let jobScheduler: JobScheduler | null = null;
+
+export const initializeJobScheduler = (jobs: ScheduledJob[]): JobScheduler => {
+  if (!jobScheduler) {
+    jobScheduler = new JobScheduler();
+    jobs.forEach(job => jobScheduler!.register(job));
+    jobScheduler.start();
+  }
+  return jobScheduler;
+};
+
+export const getJobScheduler = (): JobScheduler => {
+  if (!jobScheduler) {
+    throw new Error('JobScheduler not initialized. Call initializeJobScheduler first.');
+  }
+  return jobScheduler;
+};
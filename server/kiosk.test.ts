@@ -0,0 +1,123 @@
+import { kioskPunchSchema } from '@shared/schema';
+import { createPinLockout, generateKioskToken, hashKioskToken } from './security';
+
+jest.mock('./redis', () => ({ redis: {} }));
+
+describe('Kiosk', () => {
+  describe('createPinLockout', () => {
+    // Expiring string keys, with the commands createPinLockout uses
+    function createFakeRedis() {
+      const keys = new Map<string, { value: number; expiresAt: number }>();
+      const read = (key: string) => {
+        const entry = keys.get(key);
+        if (entry && entry.expiresAt <= Date.now()) keys.delete(key);
+        return keys.get(key);
+      };
+
+      return {
+        pttl: async (key: string) => {
+          const entry = read(key);
+          return entry ? entry.expiresAt - Date.now() : -2;
+        },
+        del: async (...names: string[]) => { names.forEach(name => keys.delete(name)); },
+        // RECORD_PIN_FAILURE_SCRIPT
+        eval: async (_script: string, _keys: number, failuresKey: string, lockKey: string, maxAttempts: number, lockoutMs: number) => {
+          const failures = (read(failuresKey)?.value ?? 0) + 1;
+          keys.set(failuresKey, { value: failures, expiresAt: Date.now() + lockoutMs });
+          if (failures >= maxAttempts) {
+            keys.set(lockKey, { value: 1, expiresAt: Date.now() + lockoutMs });
+            keys.delete(failuresKey);
+          }
+          return failures;
+        },
+      };
+    }
+
+    let fakeRedis: ReturnType<typeof createFakeRedis>;
+
+    beforeEach(() => {
+      jest.useFakeTimers({ now: new Date('2024-03-04T08:00:00Z') });
+      fakeRedis = createFakeRedis();
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should lock an employee number after too many wrong PINs', async () => {
+      const lockout = createPinLockout(3, 60 * 1000, fakeRedis as never);
+
+      await lockout.recordFailure('E001');
+      await lockout.recordFailure('E001');
+      expect(await lockout.getRemainingLockout('E001')).toBe(0);
+
+      jest.advanceTimersByTime(1000);
+      await lockout.recordFailure('E001');
+      expect(await lockout.getRemainingLockout('E001')).toBe(60 * 1000);
+      expect(await lockout.getRemainingLockout('E002')).toBe(0);
+    });
+
+    it('should share the lockout between instances', async () => {
+      const instanceA = createPinLockout(2, 60 * 1000, fakeRedis as never);
+      const instanceB = createPinLockout(2, 60 * 1000, fakeRedis as never);
+
+      await instanceA.recordFailure('E001');
+      await instanceB.recordFailure('E001');
+
+      expect(await instanceA.getRemainingLockout('E001')).toBe(60 * 1000);
+    });
+
+    it('should count failures from zero once the lockout has expired', async () => {
+      const lockout = createPinLockout(2, 60 * 1000, fakeRedis as never);
+      await lockout.recordFailure('E001');
+      await lockout.recordFailure('E001');
+
+      jest.advanceTimersByTime(61 * 1000);
+      expect(await lockout.getRemainingLockout('E001')).toBe(0);
+      await lockout.recordFailure('E001');
+      expect(await lockout.getRemainingLockout('E001')).toBe(0);
+    });
+
+    it('should forget failures after a correct PIN', async () => {
+      const lockout = createPinLockout(2, 60 * 1000, fakeRedis as never);
+      await lockout.recordFailure('E001');
+      await lockout.reset('E001');
+      await lockout.recordFailure('E001');
+
+      expect(await lockout.getRemainingLockout('E001')).toBe(0);
+    });
+
+    it('should not lock anyone out when Redis is unavailable', async () => {
+      jest.spyOn(console, 'warn').mockImplementation(() => {});
+      const down = { pttl: jest.fn().mockRejectedValue(new Error('ECONNREFUSED')), eval: jest.fn().mockRejectedValue(new Error('ECONNREFUSED')) };
+      const lockout = createPinLockout(1, 60 * 1000, down as never);
+
+      await lockout.recordFailure('E001');
+
+      expect(await lockout.getRemainingLockout('E001')).toBe(0);
+    });
+  });
+
+  describe('kioskPunchSchema', () => {
+    const punch = { action: 'clock_in', idempotency_key: 'kiosk-punch-1' };
+
+    it('should only accept an employee number without PIN on replayed punches', () => {
+      const credentials = { employee_number: 'E001' };
+
+      expect(kioskPunchSchema.safeParse({ ...punch, credentials }).success).toBe(false);
+      expect(kioskPunchSchema.safeParse({ ...punch, credentials, occurred_at: '2024-03-04T08:00:00Z' }).success).toBe(true);
+      expect(kioskPunchSchema.safeParse({ ...punch, credentials: { ...credentials, pin: '1234' } }).success).toBe(true);
+      expect(kioskPunchSchema.safeParse({ ...punch, credentials: { badge_code: 'BADGE-001' } }).success).toBe(true);
+    });
+  });
+
+  describe('kiosk tokens', () => {
+    it('should only store a stable hash of a random token', () => {
+      const token = generateKioskToken();
+
+      expect(token).not.toBe(generateKioskToken());
+      expect(hashKioskToken(token)).toBe(hashKioskToken(token));
+      expect(hashKioskToken(token)).not.toContain(token);
+    });
+  });
+});
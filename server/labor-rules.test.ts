@@ -0,0 +1,169 @@
+import {
+  DEFAULT_LABOR_RULE_CONFIG,
+  DEFAULT_LABOR_RULE_SET,
+  resolveLaborRules,
+  evaluateLaborRules,
+  getLaborRulesDataRange,
+  findLaborRule,
+  type WorkShift,
+} from './laborRules';
+import { getAverageHoursConflict, getAverageWindowWeeks } from './businessLogic';
+import type { LaborRuleConfig } from '@shared/schema';
+
+jest.mock('./db', () => ({ db: {} }));
+
+const rules = resolveLaborRules(DEFAULT_LABOR_RULE_CONFIG);
+const ruleTypes = (violations: { type: string }[]) => violations.map(v => v.type);
+
+describe('Labor Rules', () => {
+  describe('resolveLaborRules', () => {
+    it('should apply the French defaults', () => {
+      expect(rules).toHaveLength(DEFAULT_LABOR_RULE_SET.rules.length);
+      expect(findLaborRule(rules, 'max_daily_hours')?.max_hours).toBe(10);
+    });
+
+    it('should let the most specific rule set override a rule', () => {
+      const config: LaborRuleConfig = {
+        ...DEFAULT_LABOR_RULE_CONFIG,
+        collective_agreement: 'hcr',
+        rule_sets: [
+          DEFAULT_LABOR_RULE_SET,
+          {
+            id: 'hcr-cdd',
+            name: 'HCR - CDD',
+            scope: { collective_agreement: 'hcr', contract_type: 'CDD' },
+            rules: [{ id: 'hcr-daily', type: 'max_daily_hours', severity: 'error', enabled: true, max_hours: 11 }],
+          },
+          {
+            id: 'hcr',
+            name: 'HCR',
+            scope: { collective_agreement: 'hcr' },
+            rules: [
+              { id: 'hcr-daily', type: 'max_daily_hours', severity: 'error', enabled: true, max_hours: 11.5 },
+              { id: 'hcr-sunday', type: 'sunday_work', severity: 'warning', enabled: false, allowed: false },
+            ],
+          },
+        ],
+      };
+
+      expect(findLaborRule(resolveLaborRules(config, { contractType: 'CDD' }), 'max_daily_hours')?.max_hours).toBe(11);
+      expect(findLaborRule(resolveLaborRules(config, { contractType: 'CDI' }), 'max_daily_hours')?.max_hours).toBe(11.5);
+      expect(findLaborRule(resolveLaborRules(config), 'sunday_work')).toBeUndefined();
+    });
+  });
+
+  describe('getLaborRulesDataRange', () => {
+    it('should cover the averaging window and a day of margin', () => {
+      // 2024-03-13 est un mercredi
+      expect(getLaborRulesDataRange(rules, '2024-03-13', '2024-03-13')).toEqual({
+        start: '2023-12-24',
+        end: '2024-03-18',
+      });
+    });
+  });
+
+  describe('evaluateLaborRules', () => {
+    it('should accept a regular working week', () => {
+      const shifts = ['2024-03-11', '2024-03-12', '2024-03-13', '2024-03-14', '2024-03-15'].map(date => ({
+        date, startTime: '09:00', endTime: '17:00', breakMinutes: 60,
+      }));
+
+      expect(evaluateLaborRules(rules, shifts, { range: { start: '2024-03-10', end: '2024-03-18' } })).toEqual([]);
+    });
+
+    it('should flag daily hours above the limit', () => {
+      const violations = evaluateLaborRules(rules, [
+        { id: 1, date: '2024-03-11', startTime: '07:00', endTime: '12:00' },
+        { id: 2, date: '2024-03-11', startTime: '13:00', endTime: '19:00' },
+      ]);
+
+      expect(ruleTypes(violations)).toEqual(['max_daily_hours']);
+      expect(violations[0].shiftIds).toEqual([1, 2]);
+    });
+
+    it('should flag an insufficient daily rest across midnight', () => {
+      const violations = evaluateLaborRules(rules, [
+        { id: 1, date: '2024-03-11', startTime: '14:00', endTime: '23:00' },
+        { id: 2, date: '2024-03-12', startTime: '07:00', endTime: '12:00' },
+      ]);
+
+      expect(ruleTypes(violations)).toEqual(['min_rest_period']);
+      expect(violations[0].date).toBe('2024-03-12');
+      expect(violations[0].data.restHours).toBe(8);
+    });
+
+    it('should flag a missing break only when the break is known', () => {
+      const shift = { date: '2024-03-11', startTime: '08:00', endTime: '15:00' };
+
+      expect(ruleTypes(evaluateLaborRules(rules, [{ ...shift, breakMinutes: 10 }]))).toEqual(['break_after_hours']);
+      expect(evaluateLaborRules(rules, [shift])).toEqual([]);
+    });
+
+    it('should flag seven consecutive working days', () => {
+      const shifts = Array.from({ length: 7 }, (_, i) => ({
+        date: `2024-03-1${i + 1}`, startTime: '09:00', endTime: '15:00',
+      }));
+
+      const violations = evaluateLaborRules(rules, shifts, { range: { start: '2024-03-10', end: '2024-03-18' } });
+      expect(ruleTypes(violations)).toEqual(['min_weekly_rest', 'sunday_work']);
+    });
+
+    it('should flag long night shifts', () => {
+      const violations = evaluateLaborRules(rules, [
+        { date: '2024-03-11', startTime: '20:00', endTime: '06:00', breakMinutes: 30 },
+      ]);
+
+      expect(ruleTypes(violations)).toEqual(['night_work']);
+      expect(violations[0].data.nightHours).toBe(9);
+    });
+
+    it('should flag a 12-week average above 44h', () => {
+      const shifts: WorkShift[] = [];
+      for (let week = 0; week < 12; week++) {
+        for (let day = 0; day < 5; day++) {
+          const date = new Date(Date.UTC(2024, 0, 1 + week * 7 + day)).toISOString().split('T')[0];
+          shifts.push({ date, startTime: '08:00', endTime: '17:30' });
+        }
+      }
+
+      const violations = evaluateLaborRules(rules, shifts, { focus: { start: '2024-03-18', end: '2024-03-24' } });
+      expect(ruleTypes(violations)).toEqual(['average_hours']);
+      expect(violations[0].data.averageHours).toBeCloseTo(47.5);
+    });
+  });
+
+  describe('getAverageHoursConflict', () => {
+    const averageRule = findLaborRule(rules, 'average_hours');
+    const row = { employeeId: 7, weekStart: '2024-03-18', contractHours: 35 };
+
+    it('should report an error above the legal cap', () => {
+      const conflict = getAverageHoursConflict({ ...row, averageHours: 45.2 }, averageRule, 12);
+
+      expect(conflict?.severity).toBe('error');
+      expect(conflict?.data).toMatchObject({ source: 'legal', limit: 44, weekStart: '2024-03-18' });
+    });
+
+    it('should warn above the contractual weekly hours', () => {
+      const conflict = getAverageHoursConflict({ ...row, averageHours: 39 }, averageRule, 12);
+
+      expect(conflict?.severity).toBe('warning');
+      expect(conflict?.data).toMatchObject({ source: 'contract', limit: 35 });
+    });
+
+    it('should accept an average within the contract', () => {
+      expect(getAverageHoursConflict({ ...row, averageHours: 34.5 }, averageRule, 12)).toBeNull();
+    });
+  });
+
+  describe('getAverageWindowWeeks', () => {
+    it('should use the whole window once the employee has been hired long enough', () => {
+      expect(getAverageWindowWeeks('2024-03-18', '2020-01-06', 12)).toBe(12);
+    });
+
+    it('should average a recent hire over the weeks since the hiring week only', () => {
+      // Embauché le mercredi 2024-03-06 : semaines du 04/03, du 11/03 et du 18/03
+      expect(getAverageWindowWeeks('2024-03-18', '2024-03-06', 12)).toBe(3);
+      expect(getAverageWindowWeeks('2024-03-04', '2024-03-06', 12)).toBe(1);
+    });
+  });
+});
@@ -0,0 +1,386 @@
+import type { LaborRule, LaborRuleConfig, LaborRuleSet, LaborRuleType, OvertimePolicy } from '@shared/schema';
+
+// Types pour le moteur de règles
+export interface WorkShift {
+  id?: number;
+  date: string;
+  startTime: string;
+  endTime: string;
+  breakMinutes?: number; // Inconnue pour les créneaux planifiés
+}
+
+export interface LaborRuleViolation {
+  ruleId: string;
+  type: LaborRuleType;
+  severity: 'error' | 'warning';
+  date: string;
+  endDate?: string;
+  description: string;
+  shiftIds: number[];
+  data: Record<string, any>;
+}
+
+export interface LaborRuleContext {
+  contractType?: string | null;
+}
+
+interface DateRange {
+  start: string;
+  end: string;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// ============================================================================
+// RÈGLES PAR DÉFAUT (CODE DU TRAVAIL)
+// ============================================================================
+
+// Heures supplémentaires (L3121-36) : +25 % de la 36e à la 43e heure, +50 % au-delà,
+// contingent annuel réglementaire de 220h (D3121-24)
+export const DEFAULT_OVERTIME_POLICY: OvertimePolicy = {
+  tiers: [
+    { from_hours: 35, rate: 1.25 },
+    { from_hours: 43, rate: 1.5 },
+  ],
+  annual_contingent_hours: 220,
+  compensation: 'pay',
+};
+
+export const DEFAULT_LABOR_RULE_SET: LaborRuleSet = {
+  id: 'fr-code-du-travail',
+  name: 'Code du travail (France)',
+  scope: { country: 'FR' },
+  rules: [
+    { id: 'fr-daily-max', type: 'max_daily_hours', label: 'Durée quotidienne maximale (L3121-18)', severity: 'error', enabled: true, max_hours: 10 },
+    { id: 'fr-weekly-max', type: 'max_weekly_hours', label: 'Durée hebdomadaire maximale (L3121-20)', severity: 'error', enabled: true, max_hours: 48 },
+    { id: 'fr-weekly-average', type: 'average_hours', label: 'Moyenne sur 12 semaines (L3121-22)', severity: 'error', enabled: true, max_hours: 44, weeks: 12 },
+    { id: 'fr-daily-rest', type: 'min_rest_period', label: 'Repos quotidien (L3131-1)', severity: 'error', enabled: true, min_hours: 11 },
+    { id: 'fr-weekly-rest', type: 'min_weekly_rest', label: 'Repos hebdomadaire (L3132-2)', severity: 'error', enabled: true, min_hours: 35 },
+    { id: 'fr-break', type: 'break_after_hours', label: 'Pause obligatoire (L3121-16)', severity: 'warning', enabled: true, after_hours: 6, min_break_minutes: 20 },
+    { id: 'fr-night-work', type: 'night_work', label: 'Travail de nuit (L3122-6)', severity: 'warning', enabled: true, night_start: '21:00', night_end: '06:00', max_hours: 8 },
+    { id: 'fr-sunday-work', type: 'sunday_work', label: 'Repos dominical (L3132-3)', severity: 'warning', enabled: true, allowed: false },
+  ],
+  overtime: DEFAULT_OVERTIME_POLICY,
+};
+
+export const DEFAULT_LABOR_RULE_CONFIG: LaborRuleConfig = {
+  country: 'FR',
+  collective_agreement: null,
+  rule_sets: [DEFAULT_LABOR_RULE_SET],
+};
+
+// ============================================================================
+// RÉSOLUTION DES RÈGLES APPLICABLES
+// ============================================================================
+
+// Les jeux de règles applicables sont fusionnés du plus général au plus
+// spécifique : pour un même type, la règle la plus spécifique l'emporte
+export function resolveLaborRules(config: LaborRuleConfig, context: LaborRuleContext = {}): LaborRule[] {
+  const rulesByType = new Map<LaborRuleType, LaborRule>();
+  for (const set of getApplicableRuleSets(config, context)) {
+    for (const rule of set.rules) {
+      rulesByType.set(rule.type, rule);
+    }
+  }
+
+  return Array.from(rulesByType.values()).filter(rule => rule.enabled);
+}
+
+// Barème d'heures supplémentaires du jeu applicable le plus spécifique qui en définit un
+export function resolveOvertimePolicy(config: LaborRuleConfig, context: LaborRuleContext = {}): OvertimePolicy {
+  const sets = getApplicableRuleSets(config, context).filter(set => set.overtime);
+  return sets[sets.length - 1]?.overtime ?? DEFAULT_OVERTIME_POLICY;
+}
+
+// Jeux applicables, du plus général au plus spécifique
+function getApplicableRuleSets(config: LaborRuleConfig, context: LaborRuleContext): LaborRuleSet[] {
+  return config.rule_sets
+    .filter(set =>
+      (!set.scope.country || set.scope.country === config.country) &&
+      (!set.scope.collective_agreement || set.scope.collective_agreement === config.collective_agreement) &&
+      (!set.scope.contract_type || set.scope.contract_type === context.contractType)
+    )
+    .map((set, index) => ({ set, index, specificity: Object.values(set.scope).filter(Boolean).length }))
+    .sort((a, b) => a.specificity - b.specificity || a.index - b.index)
+    .map(({ set }) => set);
+}
+
+export function findLaborRule<T extends LaborRuleType>(
+  rules: LaborRule[],
+  type: T
+): Extract<LaborRule, { type: T }> | undefined {
+  return rules.find((rule): rule is Extract<LaborRule, { type: T }> => rule.type === type);
+}
+
+// Période de données à charger pour évaluer les règles sur [start, end] :
+// fenêtre de moyenne en amont, et un jour de marge pour les repos
+export function getLaborRulesDataRange(rules: LaborRule[], start: string, end: string): DateRange {
+  const averageWeeks = rules.reduce(
+    (max, rule) => (rule.type === 'average_hours' ? Math.max(max, rule.weeks) : max),
+    1
+  );
+
+  return {
+    start: addDays(getWeekStart(start), -(averageWeeks - 1) * 7 - 1),
+    end: addDays(getWeekStart(end), 7),
+  };
+}
+
+// ============================================================================
+// ÉVALUATION
+// ============================================================================
+
+interface ShiftInterval {
+  shift: WorkShift;
+  start: number;
+  end: number;
+  workHours: number;
+}
+
+// Évalue toutes les règles sur les créneaux d'un même employé.
+// `range` indique la période effectivement chargée (par défaut, les semaines
+// des créneaux) ; `focus` limite le résultat aux violations touchant ces dates.
+export function evaluateLaborRules(
+  rules: LaborRule[],
+  shifts: WorkShift[],
+  options: { range?: DateRange; focus?: DateRange } = {}
+): LaborRuleViolation[] {
+  const intervals = shifts
+    .filter(shift => shift.startTime && shift.endTime)
+    .map(toInterval)
+    .sort((a, b) => a.start - b.start);
+
+  if (intervals.length === 0) return [];
+
+  const range = options.range ?? {
+    start: getWeekStart(intervals[0].shift.date),
+    end: addDays(getWeekStart(intervals[intervals.length - 1].shift.date), 6),
+  };
+
+  const violations: LaborRuleViolation[] = [];
+  for (const rule of rules) {
+    violations.push(...evaluateRule(rule, intervals, range));
+  }
+
+  const { focus } = options;
+  if (!focus) return violations;
+
+  return violations.filter(v => v.date <= focus.end && (v.endDate ?? v.date) >= focus.start);
+}
+
+function evaluateRule(rule: LaborRule, intervals: ShiftInterval[], range: DateRange): LaborRuleViolation[] {
+  const violations: LaborRuleViolation[] = [];
+  const violation = (date: string, involved: ShiftInterval[], description: string, data: Record<string, any>, endDate?: string) => {
+    violations.push({
+      ruleId: rule.id,
+      type: rule.type,
+      severity: rule.severity,
+      date,
+      endDate,
+      description,
+      shiftIds: involved.map(i => i.shift.id).filter((id): id is number => id !== undefined),
+      data,
+    });
+  };
+
+  switch (rule.type) {
+    case 'max_daily_hours': {
+      for (const [date, dayIntervals] of groupBy(intervals, i => i.shift.date)) {
+        const totalHours = sumWorkHours(dayIntervals);
+        if (totalHours > rule.max_hours) {
+          violation(date, dayIntervals,
+            `Dépassement de la limite quotidienne de ${rule.max_hours}h (${totalHours.toFixed(1)}h)`,
+            { totalHours, limit: rule.max_hours });
+        }
+      }
+      break;
+    }
+
+    case 'max_weekly_hours': {
+      for (const [weekStart, weekIntervals] of groupBy(intervals, i => getWeekStart(i.shift.date))) {
+        const totalHours = sumWorkHours(weekIntervals);
+        if (totalHours > rule.max_hours) {
+          violation(weekStart, weekIntervals,
+            `Dépassement de la limite hebdomadaire de ${rule.max_hours}h (${totalHours.toFixed(1)}h)`,
+            { totalHours, limit: rule.max_hours, weekStart }, addDays(weekStart, 6));
+        }
+      }
+      break;
+    }
+
+    case 'average_hours': {
+      // Les semaines sans créneau comptent pour 0h dans la moyenne
+      for (const [weekStart] of groupBy(intervals, i => getWeekStart(i.shift.date))) {
+        const windowStart = addDays(weekStart, -(rule.weeks - 1) * 7);
+        const windowIntervals = intervals.filter(i => {
+          const week = getWeekStart(i.shift.date);
+          return week >= windowStart && week <= weekStart;
+        });
+        const averageHours = sumWorkHours(windowIntervals) / rule.weeks;
+        if (averageHours > rule.max_hours) {
+          violation(weekStart, windowIntervals,
+            `Moyenne de ${averageHours.toFixed(1)}h sur ${rule.weeks} semaines (maximum: ${rule.max_hours}h)`,
+            { averageHours, limit: rule.max_hours, weeks: rule.weeks, windowStart, weekStart }, addDays(weekStart, 6));
+        }
+      }
+      break;
+    }
+
+    case 'min_rest_period': {
+      for (let i = 1; i < intervals.length; i++) {
+        const previous = intervals[i - 1];
+        const current = intervals[i];
+        if (previous.shift.date === current.shift.date) continue;
+
+        const restHours = (current.start - previous.end) / HOUR_MS;
+        if (restHours >= 0 && restHours < rule.min_hours) {
+          violation(current.shift.date, [previous, current],
+            `Période de repos insuffisante: ${restHours.toFixed(1)}h (minimum: ${rule.min_hours}h)`,
+            { restHours, minRestHours: rule.min_hours, previousEndTime: previous.shift.endTime });
+        }
+      }
+      break;
+    }
+
+    case 'min_weekly_rest': {
+      // Plus long repos continu chevauchant la semaine ; au-delà des créneaux
+      // connus, le repos s'étend jusqu'aux bornes de la période chargée
+      const rangeStart = toUtc(range.start);
+      const rangeEnd = toUtc(range.end) + DAY_MS;
+      const boundaries = [...intervals.map(({ start, end }) => ({ start, end })), { start: rangeEnd, end: rangeEnd }];
+
+      for (const [weekStart, weekIntervals] of groupBy(intervals, i => getWeekStart(i.shift.date))) {
+        const weekStartMs = toUtc(weekStart);
+        const weekEndMs = weekStartMs + 7 * DAY_MS;
+
+        let longestRest = 0;
+        let previousEnd = rangeStart;
+        for (const interval of boundaries) {
+          if (interval.start > weekStartMs && previousEnd < weekEndMs) {
+            longestRest = Math.max(longestRest, interval.start - previousEnd);
+          }
+          previousEnd = Math.max(previousEnd, interval.end);
+        }
+
+        const restHours = longestRest / HOUR_MS;
+        if (restHours < rule.min_hours) {
+          violation(weekStart, weekIntervals,
+            `Repos hebdomadaire insuffisant: ${restHours.toFixed(1)}h consécutives (minimum: ${rule.min_hours}h)`,
+            { restHours, minRestHours: rule.min_hours, weekStart }, addDays(weekStart, 6));
+        }
+      }
+      break;
+    }
+
+    case 'break_after_hours': {
+      // Sans durée de pause connue (créneaux planifiés), la règle ne s'applique pas
+      for (const interval of intervals) {
+        const breakMinutes = interval.shift.breakMinutes;
+        if (breakMinutes === undefined) continue;
+        if (interval.workHours > rule.after_hours && breakMinutes < rule.min_break_minutes) {
+          violation(interval.shift.date, [interval],
+            `Pause insuffisante pour ${interval.workHours.toFixed(2)}h de travail (${breakMinutes}min, minimum: ${rule.min_break_minutes}min)`,
+            { workHours: interval.workHours, breakMinutes, requiredBreak: rule.min_break_minutes });
+        }
+      }
+      break;
+    }
+
+    case 'night_work': {
+      const nightStart = parseMinutes(rule.night_start);
+      const nightEnd = parseMinutes(rule.night_end);
+
+      for (const [date, dayIntervals] of groupBy(intervals, i => i.shift.date)) {
+        const nightHours = dayIntervals.reduce((sum, interval) => {
+          let overlap = 0;
+          // Fenêtres de nuit commençant la veille, le jour même et le lendemain
+          for (const offset of [-1, 0, 1]) {
+            const windowStart = toUtc(addDays(date, offset)) + nightStart * 60000;
+            const windowEnd = windowStart + ((nightEnd - nightStart + 1440) % 1440 || 1440) * 60000;
+            overlap += Math.max(0, Math.min(interval.end, windowEnd) - Math.max(interval.start, windowStart));
+          }
+          return sum + overlap / HOUR_MS;
+        }, 0);
+
+        if (nightHours > rule.max_hours) {
+          violation(date, dayIntervals,
+            `Dépassement de la durée de travail de nuit de ${rule.max_hours}h (${nightHours.toFixed(1)}h entre ${rule.night_start} et ${rule.night_end})`,
+            { nightHours, limit: rule.max_hours });
+        }
+      }
+      break;
+    }
+
+    case 'sunday_work': {
+      if (rule.allowed) break;
+      for (const [date, dayIntervals] of groupBy(intervals, i => i.shift.date)) {
+        if (new Date(toUtc(date)).getUTCDay() === 0) {
+          violation(date, dayIntervals,
+            'Travail le dimanche sans dérogation au repos dominical',
+            { totalHours: sumWorkHours(dayIntervals) });
+        }
+      }
+      break;
+    }
+  }
+
+  return violations;
+}
+
+// ============================================================================
+// FONCTIONS UTILITAIRES
+// ============================================================================
+
+function toInterval(shift: WorkShift): ShiftInterval {
+  const dayStart = toUtc(shift.date);
+  const startMinutes = parseMinutes(shift.startTime);
+  let endMinutes = parseMinutes(shift.endTime);
+
+  // Créneau de nuit se terminant le lendemain
+  if (endMinutes <= startMinutes) endMinutes += 1440;
+
+  const start = dayStart + startMinutes * 60000;
+  const end = dayStart + endMinutes * 60000;
+
+  return {
+    shift,
+    start,
+    end,
+    workHours: Math.max(0, (end - start) / HOUR_MS - (shift.breakMinutes ?? 0) / 60),
+  };
+}
+
+function sumWorkHours(intervals: ShiftInterval[]): number {
+  return intervals.reduce((sum, interval) => sum + interval.workHours, 0);
+}
+
+function groupBy<T>(items: T[], key: (item: T) => string): Array<[string, T[]]> {
+  const groups: Record<string, T[]> = {};
+  for (const item of items) {
+    const k = key(item);
+    if (!groups[k]) groups[k] = [];
+    groups[k].push(item);
+  }
+  return Object.entries(groups);
+}
+
+// Accepte HH:MM et HH:MM:SS (format des colonnes time)
+export function parseMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+// Minuit UTC d'une date AAAA-MM-JJ, en millisecondes
+export function toUtc(date: string): number {
+  return Date.parse(`${date}T00:00:00Z`);
+}
+
+export function addDays(date: string, days: number): string {
+  return new Date(toUtc(date) + days * DAY_MS).toISOString().split('T')[0];
+}
+
+function getWeekStart(date: string): string {
+  const day = new Date(toUtc(date)).getUTCDay();
+  return addDays(date, day === 0 ? -6 : 1 - day);
+}
@@ -0,0 +1,134 @@
+import {
+  getLeaveWorkingDates,
+  isLeaveDeductible,
+  getLeaveBalanceType,
+  getLeavePlanningType,
+  getReferencePeriod,
+  getMonthPresenceRatio,
+  calculateMonthlyAccrual,
+  computePeriodClosing,
+  summarizeLeaveMovements,
+} from './businessLogic';
+
+jest.mock('./db', () => ({ db: {} }));
+
+describe('Leave Requests', () => {
+  describe('getLeaveWorkingDates', () => {
+    it('should count only weekdays in the range', () => {
+      // Du vendredi 2 au mardi 6 août 2024
+      const dates = getLeaveWorkingDates('2024-08-02', '2024-08-06');
+      expect(dates).toEqual(['2024-08-02', '2024-08-05', '2024-08-06']);
+    });
+
+    it('should return a single day for a one-day request', () => {
+      expect(getLeaveWorkingDates('2024-08-07', '2024-08-07')).toEqual(['2024-08-07']);
+    });
+
+    it('should return no day for a weekend-only request', () => {
+      expect(getLeaveWorkingDates('2024-08-03', '2024-08-04')).toHaveLength(0);
+    });
+
+    it('should span month boundaries', () => {
+      const dates = getLeaveWorkingDates('2024-08-26', '2024-09-06');
+      expect(dates).toHaveLength(10);
+      expect(dates[dates.length - 1]).toBe('2024-09-06');
+    });
+  });
+
+  describe('isLeaveDeductible', () => {
+    it('should deduct paid vacation only', () => {
+      expect(isLeaveDeductible('vacation')).toBe(true);
+      expect(isLeaveDeductible('sick_leave')).toBe(false);
+      expect(isLeaveDeductible('unpaid_leave')).toBe(false);
+    });
+
+    it('should map each deductible type to its balance', () => {
+      expect(getLeaveBalanceType('vacation')).toBe('cp');
+      expect(getLeaveBalanceType('rtt')).toBe('rtt');
+      expect(getLeaveBalanceType('compensatory_rest')).toBe('repos_compensateur');
+      expect(getLeaveBalanceType('sick_leave')).toBeNull();
+    });
+  });
+
+  describe('getLeavePlanningType', () => {
+    it('should keep unpaid leave apart from paid vacation in the planning', () => {
+      expect(getLeavePlanningType('vacation')).toBe('vacation');
+      expect(getLeavePlanningType('unpaid_leave')).toBe('unpaid_leave');
+      expect(getLeavePlanningType('sick_leave')).toBe('sick_leave');
+      expect(getLeavePlanningType('rtt')).toBe('rest_day');
+    });
+  });
+});
+
+describe('Leave Balances', () => {
+  describe('getReferencePeriod', () => {
+    it('should start on June 1st of the current year from June onwards', () => {
+      expect(getReferencePeriod('2024-06-01')).toEqual({ start: '2024-06-01', end: '2025-05-31', label: '2024-2025' });
+      expect(getReferencePeriod('2024-12-15').start).toBe('2024-06-01');
+    });
+
+    it('should belong to the previous period before June', () => {
+      expect(getReferencePeriod('2025-05-31')).toEqual({ start: '2024-06-01', end: '2025-05-31', label: '2024-2025' });
+    });
+  });
+
+  describe('calculateMonthlyAccrual', () => {
+    it('should accrue 2.08 CP days per full month worked', () => {
+      expect(calculateMonthlyAccrual('cp', 35, 1)).toBe(2.08);
+    });
+
+    it('should prorate the first month after hiring', () => {
+      const ratio = getMonthPresenceRatio('2024-09', '2024-09-16');
+      expect(ratio).toBe(0.5);
+      expect(calculateMonthlyAccrual('cp', 35, ratio)).toBe(1.04);
+    });
+
+    it('should not accrue before the hire date', () => {
+      expect(getMonthPresenceRatio('2024-08', '2024-09-02')).toBe(0);
+    });
+
+    it('should accrue RTT only above 35 hours per week', () => {
+      expect(calculateMonthlyAccrual('rtt', 35, 1)).toBe(0);
+      expect(calculateMonthlyAccrual('rtt', 39, 1)).toBeCloseTo(2.01, 2);
+    });
+
+    it('should not accrue compensatory rest automatically', () => {
+      expect(calculateMonthlyAccrual('repos_compensateur', 39, 1)).toBe(0);
+    });
+  });
+
+  describe('computePeriodClosing', () => {
+    it('should cap CP carry-over and expire the rest', () => {
+      expect(computePeriodClosing('cp', 8.5)).toEqual({ carriedOver: 5, expired: 3.5 });
+    });
+
+    it('should expire all remaining RTT', () => {
+      expect(computePeriodClosing('rtt', 2)).toEqual({ carriedOver: 0, expired: 2 });
+    });
+
+    it('should carry over compensatory rest without limit', () => {
+      expect(computePeriodClosing('repos_compensateur', 12)).toEqual({ carriedOver: 12, expired: 0 });
+    });
+
+    it('should carry a negative balance over as is', () => {
+      expect(computePeriodClosing('cp', -1)).toEqual({ carriedOver: -1, expired: 0 });
+    });
+  });
+
+  describe('summarizeLeaveMovements', () => {
+    it('should aggregate movements per balance', () => {
+      const summary = summarizeLeaveMovements([
+        { leave_type: 'cp', movement_type: 'carry_over', days: '5.00' },
+        { leave_type: 'cp', movement_type: 'accrual', days: '2.08' },
+        { leave_type: 'cp', movement_type: 'accrual', days: '2.08' },
+        { leave_type: 'cp', movement_type: 'taken', days: '-3.00' },
+        { leave_type: 'rtt', movement_type: 'adjustment', days: '1.50' },
+        { leave_type: 'cp', movement_type: 'opening', days: '10.00' },
+      ]);
+
+      expect(summary.cp).toEqual({ accrued: 4.16, taken: 3, carriedOver: 5, expired: 0, adjusted: 10, balance: 16.16 });
+      expect(summary.rtt.balance).toBe(1.5);
+      expect(summary.repos_compensateur.balance).toBe(0);
+    });
+  });
+});
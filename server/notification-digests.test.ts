@@ -0,0 +1,77 @@
+import {
+  getDueDigestPeriod,
+  getDigestWindowStart,
+  groupDigestNotifications,
+  formatDigestMessage,
+  getDigestTitle,
+} from './notificationDigests';
+import { renderDigestEmail } from './emailTemplates';
+
+jest.mock('./db', () => ({ db: {} }));
+
+describe('Notification Digests', () => {
+  describe('getDueDigestPeriod', () => {
+    // 2024-03-04 est un lundi ; heure de Paris = UTC + 1
+    it('should send daily digests from 08:00 local time', () => {
+      expect(getDueDigestPeriod('daily', new Date('2024-03-05T06:59:00Z'), 'Europe/Paris')).toBeNull();
+      expect(getDueDigestPeriod('daily', new Date('2024-03-05T07:00:00Z'), 'Europe/Paris')).toBe('2024-03-05');
+    });
+
+    it("should use the user's time zone", () => {
+      // 13:30 UTC = 08:30 à Montréal
+      expect(getDueDigestPeriod('daily', new Date('2024-03-05T13:30:00Z'), 'America/Montreal')).toBe('2024-03-05');
+      expect(getDueDigestPeriod('daily', new Date('2024-03-05T12:30:00Z'), 'America/Montreal')).toBeNull();
+    });
+
+    it('should key weekly digests on the Monday and catch up later in the week', () => {
+      expect(getDueDigestPeriod('weekly', new Date('2024-03-04T06:00:00Z'), 'Europe/Paris')).toBeNull();
+      expect(getDueDigestPeriod('weekly', new Date('2024-03-04T07:00:00Z'), 'Europe/Paris')).toBe('2024-03-04');
+      expect(getDueDigestPeriod('weekly', new Date('2024-03-10T20:00:00Z'), 'Europe/Paris')).toBe('2024-03-04');
+    });
+  });
+
+  describe('getDigestWindowStart', () => {
+    const now = new Date('2024-03-11T07:00:00Z');
+
+    it('should start at the previous digest, or one period back', () => {
+      expect(getDigestWindowStart('weekly', now, new Date('2024-03-04T07:05:00Z'))).toEqual(new Date('2024-03-04T07:05:00Z'));
+      expect(getDigestWindowStart('weekly', now, null)).toEqual(new Date('2024-03-04T07:00:00Z'));
+      expect(getDigestWindowStart('daily', now, null)).toEqual(new Date('2024-03-10T07:00:00Z'));
+    });
+  });
+
+  describe('groupDigestNotifications', () => {
+    const notifications = [
+      { type: 'leave_request' as const, priority: 'medium' as const, title: 'Congé A', created_at: new Date('2024-03-04T09:00:00Z') },
+      { type: 'leave_request' as const, priority: 'medium' as const, title: 'Congé B', created_at: new Date('2024-03-04T10:00:00Z') },
+      { type: 'time_missing' as const, priority: 'urgent' as const, title: 'Heures du 01/03', created_at: new Date('2024-03-04T08:00:00Z') },
+    ];
+
+    it('should group by type with counts per priority, most urgent first', () => {
+      expect(groupDigestNotifications(notifications)).toEqual([
+        { type: 'time_missing', count: 1, priorities: { urgent: 1 }, titles: ['Heures du 01/03'] },
+        { type: 'leave_request', count: 2, priorities: { medium: 2 }, titles: ['Congé B', 'Congé A'] },
+      ]);
+    });
+
+    it('should summarize the groups for the in-app notification', () => {
+      expect(formatDigestMessage(groupDigestNotifications(notifications), 'fr'))
+        .toBe('3 notifications non lues : Saisie de temps manquante (1), Congés (2)');
+    });
+
+    it('should title and summarize the in-app notification in the user\'s language', () => {
+      expect(getDigestTitle('weekly', 'en')).toBe('Weekly digest');
+      expect(formatDigestMessage(groupDigestNotifications(notifications), 'en'))
+        .toBe('3 unread notifications: Missing time entry (1), Leave request (2)');
+    });
+
+    it('should render one email section per type', () => {
+      const email = renderDigestEmail(groupDigestNotifications(notifications), 'weekly', 'en', 'https://app.clockpilot.fr');
+
+      expect(email.subject).toBe('Your weekly ClockPilot digest (3)');
+      expect(email.text).toContain('Missing time entry (1 - 1 urgent)');
+      expect(email.text).toContain('  - Congé B');
+      expect(email.html).toContain('https://app.clockpilot.fr/notifications');
+    });
+  });
+});
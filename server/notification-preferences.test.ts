@@ -0,0 +1,95 @@
+import {
+  DEFAULT_NOTIFICATION_PREFERENCES,
+  getTypeChannels,
+  isWithinQuietHours,
+  resolveNotificationChannels,
+  mergeNotificationPreferences,
+} from './notificationPreferences';
+
+jest.mock('./db', () => ({ db: {} }));
+
+describe('Notification Preferences', () => {
+  describe('getTypeChannels', () => {
+    it('should fall back to the defaults of the notification type', () => {
+      expect(getTypeChannels(DEFAULT_NOTIFICATION_PREFERENCES, 'leave_request')).toEqual({ in_app: true, email: true, push: false });
+    });
+
+    it('should apply the channels the user changed', () => {
+      const preferences = { ...DEFAULT_NOTIFICATION_PREFERENCES, types: { leave_request: { email: false } } };
+
+      expect(getTypeChannels(preferences, 'leave_request')).toEqual({ in_app: true, email: false, push: false });
+    });
+  });
+
+  describe('isWithinQuietHours', () => {
+    // 2024-03-04 : heure de Paris = UTC + 1
+    it('should handle ranges within the day', () => {
+      const quietHours = { start: '12:00', end: '14:00' };
+
+      expect(isWithinQuietHours(quietHours, new Date('2024-03-04T11:30:00Z'))).toBe(true);
+      expect(isWithinQuietHours(quietHours, new Date('2024-03-04T13:00:00Z'))).toBe(false);
+    });
+
+    it('should handle ranges across midnight', () => {
+      const quietHours = { start: '22:00', end: '07:00' };
+
+      expect(isWithinQuietHours(quietHours, new Date('2024-03-04T21:30:00Z'))).toBe(true);
+      expect(isWithinQuietHours(quietHours, new Date('2024-03-05T05:59:00Z'))).toBe(true);
+      expect(isWithinQuietHours(quietHours, new Date('2024-03-05T06:00:00Z'))).toBe(false);
+    });
+
+    it('should ignore missing or empty ranges', () => {
+      expect(isWithinQuietHours(null, new Date('2024-03-04T21:30:00Z'))).toBe(false);
+      expect(isWithinQuietHours({ start: '22:00', end: '22:00' }, new Date('2024-03-04T21:30:00Z'))).toBe(false);
+    });
+  });
+
+  describe('resolveNotificationChannels', () => {
+    const preferences = { ...DEFAULT_NOTIFICATION_PREFERENCES, quiet_hours: { start: '22:00', end: '07:00' } };
+    const night = new Date('2024-03-04T23:00:00Z');
+
+    it('should keep only in-app delivery during quiet hours', () => {
+      expect(resolveNotificationChannels(preferences, 'time_missing', 'medium', night)).toEqual({ in_app: true, email: false, push: false });
+    });
+
+    it('should let urgent notifications through quiet hours', () => {
+      expect(resolveNotificationChannels(preferences, 'time_missing', 'urgent', night)).toEqual({ in_app: true, email: true, push: true });
+    });
+
+    it("should apply quiet hours in the user's time zone", () => {
+      const montreal = { ...preferences, timezone: 'America/Montreal' };
+
+      // 23:00 UTC = 18:00 à Montréal
+      expect(resolveNotificationChannels(montreal, 'time_missing', 'medium', night)).toEqual({ in_app: true, email: true, push: true });
+    });
+
+    it('should hold back non-urgent emails for the digest', () => {
+      const digest = { ...DEFAULT_NOTIFICATION_PREFERENCES, digest_frequency: 'daily' as const };
+      const noon = new Date('2024-03-04T11:00:00Z');
+
+      expect(resolveNotificationChannels(digest, 'time_missing', 'high', noon)).toEqual({ in_app: true, email: false, push: true });
+      expect(resolveNotificationChannels(digest, 'time_missing', 'urgent', noon)).toEqual({ in_app: true, email: true, push: true });
+    });
+  });
+
+  describe('mergeNotificationPreferences', () => {
+    it('should only change the types and settings given', () => {
+      const current = {
+        types: { task_assigned: { push: false }, leave_request: { email: false } },
+        quiet_hours: { start: '22:00', end: '07:00' },
+        digest_frequency: 'daily' as const,
+        language: 'en' as const,
+        timezone: 'America/Montreal',
+      };
+
+      expect(mergeNotificationPreferences(current, { types: { task_assigned: { email: true } } })).toEqual({
+        types: { task_assigned: { push: false, email: true }, leave_request: { email: false } },
+        quiet_hours: { start: '22:00', end: '07:00' },
+        digest_frequency: 'daily',
+        language: 'en',
+        timezone: 'America/Montreal',
+      });
+      expect(mergeNotificationPreferences(current, { quiet_hours: null }).quiet_hours).toBeNull();
+    });
+  });
+});
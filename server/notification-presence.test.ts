@@ -0,0 +1,108 @@
+import { PresenceRegistry } from './presence';
+
+jest.mock('./redis', () => ({ redis: {} }));
+
+// Sorted sets shared by the "instances", with the commands PresenceRegistry uses
+function createFakeRedis() {
+  const sets = new Map<string, Map<string, number>>();
+  const zset = (key: string) => {
+    if (!sets.has(key)) sets.set(key, new Map());
+    return sets.get(key)!;
+  };
+  const zadd = (key: string, score: number, member: string) => { zset(key).set(member, score); };
+  const zremrangebyscore = (key: string, _min: string, max: number) => {
+    Array.from(zset(key)).forEach(([member, score]) => { if (score <= max) zset(key).delete(member); });
+  };
+
+  const chain = () => {
+    const commands: Array<() => void> = [];
+    const builder = {
+      zadd: (key: string, score: number, member: string) => { commands.push(() => zadd(key, score, member)); return builder; },
+      pexpire: () => builder,
+      zremrangebyscore: (key: string, min: string, max: number) => { commands.push(() => zremrangebyscore(key, min, max)); return builder; },
+      exec: async () => { commands.forEach(command => command()); return []; },
+    };
+    return builder;
+  };
+
+  return {
+    multi: chain,
+    pipeline: chain,
+    // REMOVE_SOCKET_SCRIPT
+    eval: async (_script: string, _keys: number, userKey: string, usersKey: string, socketId: string, now: number, userId: string) => {
+      zset(userKey).delete(socketId);
+      zremrangebyscore(userKey, '-inf', now);
+      if (zset(userKey).size === 0) zset(usersKey).delete(userId);
+      return 0;
+    },
+    zcount: async (key: string, min: number) => Array.from(zset(key).values()).filter(score => score >= min).length,
+  };
+}
+
+describe('Notification Presence', () => {
+  let fakeRedis: ReturnType<typeof createFakeRedis>;
+  let instanceA: PresenceRegistry;
+  let instanceB: PresenceRegistry;
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date('2024-03-05T09:00:00Z') });
+    fakeRedis = createFakeRedis();
+    instanceA = new PresenceRegistry(fakeRedis as never);
+    instanceB = new PresenceRegistry(fakeRedis as never);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should see users connected to another instance', async () => {
+    await instanceA.add(7, 'socket-a');
+
+    expect(await instanceB.isOnline(7)).toBe(true);
+    expect(await instanceB.isOnline(8)).toBe(false);
+    expect(await instanceB.countOnlineUsers()).toBe(1);
+  });
+
+  it('should keep a user online while one of their devices is connected anywhere', async () => {
+    await instanceA.add(7, 'socket-a');
+    await instanceB.add(7, 'socket-b');
+
+    await instanceA.remove(7, 'socket-a');
+    expect(await instanceA.isOnline(7)).toBe(true);
+
+    await instanceB.remove(7, 'socket-b');
+    expect(await instanceA.isOnline(7)).toBe(false);
+    expect(await instanceA.countOnlineUsers()).toBe(0);
+  });
+
+  it('should expire the sockets of an instance that stopped refreshing them', async () => {
+    await instanceA.add(7, 'socket-a');
+    await instanceB.add(8, 'socket-b');
+
+    jest.advanceTimersByTime(60 * 1000);
+    await instanceB.refresh();
+    jest.advanceTimersByTime(60 * 1000);
+
+    expect(await instanceB.isOnline(7)).toBe(false);
+    expect(await instanceA.isOnline(8)).toBe(true);
+    expect(await instanceA.countOnlineUsers()).toBe(1);
+  });
+
+  it('should fall back to local sockets when Redis is unavailable', async () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const failing = () => Promise.reject(new Error('ECONNREFUSED'));
+    const brokenRedis = {
+      ...fakeRedis,
+      multi: () => ({ zadd() { return this; }, pexpire() { return this; }, exec: failing }),
+      zcount: failing,
+    };
+    const registry = new PresenceRegistry(brokenRedis as never);
+
+    await registry.add(7, 'socket-a');
+
+    expect(await registry.isOnline(7)).toBe(true);
+    expect(await registry.isOnline(8)).toBe(false);
+    expect(await registry.countOnlineUsers()).toBe(1);
+    jest.restoreAllMocks();
+  });
+});
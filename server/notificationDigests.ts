@@ -0,0 +1,86 @@
+import type { DigestFrequency, Notification, NotificationPriority, NotificationType } from '@shared/schema';
+import { getZonedDateTime } from './businessLogic';
+import { getNotificationTypeHeading, type EmailLocale } from './emailTemplates';
+
+// Heure locale d'envoi des récapitulatifs (le lundi pour l'hebdomadaire)
+export const DIGEST_SEND_TIME = '08:00';
+
+const DIGEST_PERIOD_DAYS: Record<DigestFrequency, number> = { daily: 1, weekly: 7 };
+
+export const DIGEST_TITLES_PER_GROUP = 3;
+
+const DIGEST_TITLES: Record<EmailLocale, Record<DigestFrequency, string>> = {
+  fr: { daily: 'Récapitulatif quotidien', weekly: 'Récapitulatif hebdomadaire' },
+  en: { daily: 'Daily digest', weekly: 'Weekly digest' },
+};
+
+const PRIORITY_RANK: Record<NotificationPriority, number> = { urgent: 0, high: 1, medium: 2, low: 3 };
+
+export interface DigestGroup {
+  type: NotificationType;
+  count: number;
+  priorities: Partial<Record<NotificationPriority, number>>;
+  titles: string[]; // Les plus récents d'abord, au plus DIGEST_TITLES_PER_GROUP
+}
+
+// Période de récapitulatif dont l'envoi est échu, ou null avant l'heure d'envoi.
+// Le journalier est identifié par la date locale, l'hebdomadaire par le lundi de
+// la semaine locale : un envoi manqué est rattrapé dans la même période.
+export function getDueDigestPeriod(frequency: DigestFrequency, now: Date, timeZone: string): string | null {
+  const { date, time } = getZonedDateTime(now, timeZone);
+  const day = new Date(`${date}T00:00:00Z`);
+
+  if (frequency === 'daily') {
+    return time >= DIGEST_SEND_TIME ? date : null;
+  }
+
+  const daysSinceMonday = (day.getUTCDay() + 6) % 7;
+  if (daysSinceMonday === 0 && time < DIGEST_SEND_TIME) return null;
+
+  day.setUTCDate(day.getUTCDate() - daysSinceMonday);
+  return day.toISOString().slice(0, 10);
+}
+
+// Début de la fenêtre couverte : le récapitulatif précédent, ou à défaut une
+// période entière
+export function getDigestWindowStart(frequency: DigestFrequency, now: Date, lastSentAt: Date | null): Date {
+  return lastSentAt ?? new Date(now.getTime() - DIGEST_PERIOD_DAYS[frequency] * 24 * 60 * 60 * 1000);
+}
+
+// Regroupe par type, les types portant les notifications les plus prioritaires en tête
+export function groupDigestNotifications(
+  notifications: Array<Pick<Notification, 'type' | 'priority' | 'title' | 'created_at'>>
+): DigestGroup[] {
+  const sorted = [...notifications].sort((a, b) => b.created_at.getTime() - a.created_at.getTime());
+  const groups = new Map<NotificationType, DigestGroup>();
+
+  for (const notification of sorted) {
+    const group = groups.get(notification.type) ?? { type: notification.type, count: 0, priorities: {}, titles: [] };
+    group.count++;
+    group.priorities[notification.priority] = (group.priorities[notification.priority] ?? 0) + 1;
+    if (group.titles.length < DIGEST_TITLES_PER_GROUP) group.titles.push(notification.title);
+    groups.set(notification.type, group);
+  }
+
+  const topRank = (group: DigestGroup) =>
+    Math.min(...(Object.keys(group.priorities) as NotificationPriority[]).map(priority => PRIORITY_RANK[priority]));
+
+  return Array.from(groups.values()).sort((a, b) => topRank(a) - topRank(b) || b.count - a.count);
+}
+
+// Titre et message de la notification de récapitulatif dans l'application,
+// dans la langue choisie par l'utilisateur
+export function getDigestTitle(frequency: DigestFrequency, locale: EmailLocale): string {
+  return DIGEST_TITLES[locale][frequency];
+}
+
+export function formatDigestMessage(groups: DigestGroup[], locale: EmailLocale): string {
+  const total = groups.reduce((sum, group) => sum + group.count, 0);
+  const plural = total > 1 ? 's' : '';
+  const details = groups
+    .map(group => `${getNotificationTypeHeading(group.type, locale)} (${group.count})`)
+    .join(', ');
+  return locale === 'en'
+    ? `${total} unread notification${plural}: ${details}`
+    : `${total} notification${plural} non lue${plural} : ${details}`;
+}
@@ -0,0 +1,94 @@
+import type {
+  NotificationChannels,
+  NotificationPreferences,
+  NotificationPriority,
+  NotificationType,
+  UpdateNotificationPreferences,
+} from '@shared/schema';
+import { getZonedDateTime, COMPANY_TIME_ZONE } from './businessLogic';
+
+// Canaux par défaut : tout arrive dans l'application ; l'email est réservé à ce
+// qui attend une action, le push à ce qui concerne la journée en cours et aux
+// validations en attente
+export const DEFAULT_NOTIFICATION_CHANNELS: Record<NotificationType, NotificationChannels> = {
+  task_assigned: { in_app: true, email: false, push: true },
+  planning_modified: { in_app: true, email: true, push: true },
+  validation_required: { in_app: true, email: true, push: true },
+  time_missing: { in_app: true, email: true, push: true },
+  overtime_alert: { in_app: true, email: false, push: true },
+  schedule_conflict: { in_app: true, email: false, push: true },
+  system_update: { in_app: true, email: false, push: false },
+  reminder: { in_app: true, email: false, push: true },
+  leave_request: { in_app: true, email: true, push: false },
+};
+
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  types: {},
+  quiet_hours: null,
+  digest_frequency: 'none',
+  language: 'fr',
+  timezone: null,
+};
+
+// Choix de l'utilisateur complété par les canaux par défaut du type
+export function getTypeChannels(preferences: NotificationPreferences, type: NotificationType): NotificationChannels {
+  return { ...DEFAULT_NOTIFICATION_CHANNELS[type], ...preferences.types[type] };
+}
+
+// Les heures calmes peuvent passer minuit (22:00 - 07:00) ; début inclus, fin exclue
+export function isWithinQuietHours(
+  quietHours: NotificationPreferences['quiet_hours'],
+  at: Date,
+  timeZone: string = COMPANY_TIME_ZONE
+): boolean {
+  if (!quietHours || quietHours.start === quietHours.end) return false;
+
+  const { time } = getZonedDateTime(at, timeZone);
+  return quietHours.start < quietHours.end
+    ? time >= quietHours.start && time < quietHours.end
+    : time >= quietHours.start || time < quietHours.end;
+}
+
+export function getPreferredTimeZone(preferences: NotificationPreferences): string {
+  return preferences.timezone ?? COMPANY_TIME_ZONE;
+}
+
+// Canaux à utiliser pour une notification : pendant les heures calmes, seules
+// les notifications urgentes sortent par email ou push. Avec un récapitulatif,
+// l'email immédiat est lui aussi réservé aux notifications urgentes.
+export function resolveNotificationChannels(
+  preferences: NotificationPreferences,
+  type: NotificationType,
+  priority: NotificationPriority,
+  at: Date = new Date()
+): NotificationChannels {
+  const channels = getTypeChannels(preferences, type);
+  if (priority === 'urgent') return channels;
+
+  if (isWithinQuietHours(preferences.quiet_hours, at, getPreferredTimeZone(preferences))) {
+    return { ...channels, email: false, push: false };
+  }
+  if (preferences.digest_frequency !== 'none') {
+    return { ...channels, email: false };
+  }
+  return channels;
+}
+
+// Mise à jour partielle : les types non transmis gardent leurs réglages
+export function mergeNotificationPreferences(
+  current: NotificationPreferences,
+  update: UpdateNotificationPreferences
+): NotificationPreferences {
+  const types = { ...current.types };
+  for (const [type, channels] of Object.entries(update.types ?? {}) as Array<[NotificationType, Partial<NotificationChannels>]>) {
+    types[type] = { ...types[type], ...channels };
+  }
+
+  return {
+    types,
+    quiet_hours: update.quiet_hours !== undefined ? update.quiet_hours : current.quiet_hours,
+    digest_frequency: update.digest_frequency ?? current.digest_frequency,
+    language: update.language ?? current.language,
+    timezone: update.timezone !== undefined ? update.timezone : current.timezone,
+  };
+}
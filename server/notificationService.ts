@@ -1,17 +1,35 @@
 import { Server as SocketIOServer, Socket } from 'socket.io';
+import { createAdapter } from '@socket.io/redis-adapter';
 import { Server as HTTPServer } from 'http';
 import jwt from 'jsonwebtoken';
 import { storage } from './storage';
-import { type CreateNotification } from '@shared/schema';
+import { redis } from './redis';
+import { PresenceRegistry } from './presence';
+import { PlanningBoard } from './planningBoard';
+import { getPreferredTimeZone, resolveNotificationChannels } from './notificationPreferences';
+import { formatDigestMessage, getDigestTitle, getDigestWindowStart, getDueDigestPeriod, groupDigestNotifications } from './notificationDigests';
+import { getEmailService } from './emailService';
+import { getPushService } from './pushService';
+import { type ApprovalRequest, type CreateNotification, type LeaveRequest, type Notification, type TimeEntry, type Validation } from '@shared/schema';
 
 interface AuthenticatedSocket extends Socket {
   userId?: number;
   userRole?: string;
 }
 
+// Devices have this long to acknowledge a notification
+const ACK_TIMEOUT_MS = 10 * 1000;
+
+// Unacknowledged notifications replayed when a device connects
+const REPLAY_WINDOW_DAYS = 7;
+const REPLAY_LIMIT = 50;
+
+const REDIS_CONNECT_TIMEOUT_MS = 3000;
+
 export class NotificationService {
   private io: SocketIOServer;
-  private connectedUsers = new Map<number, Set<string>>(); // userId -> Set of socketIds
+  private presence = new PresenceRegistry();
+  private planningBoard: PlanningBoard;
 
   constructor(httpServer: HTTPServer) {
     this.io = new SocketIOServer(httpServer, {
@@ -21,8 +39,31 @@ export class NotificationService {
         methods: ["GET", "POST"]
       }
     });
+    this.planningBoard = new PlanningBoard(this.io);
 
     this.setupSocketHandlers();
+    this.presence.start();
+  }
+
+  // Fan events out through Redis pub/sub, so that a notification created on one
+  // instance reaches the sockets held by the others. Without Redis the default
+  // in-memory adapter stays, which is enough for a single instance.
+  async attachRedisAdapter(): Promise<boolean> {
+    try {
+      await Promise.race([
+        redis.ping(),
+        new Promise((_, reject) => setTimeout(() => reject(new Error('Connection timeout')), REDIS_CONNECT_TIMEOUT_MS).unref()),
+      ]);
+    } catch (error) {
+      console.warn('Redis unavailable, notifications only reach the sockets of this instance:', error instanceof Error ? error.message : error);
+      return false;
+    }
+
+    // Publishing waits for Redis to come back instead of failing
+    const pubClient = redis.duplicate({ maxRetriesPerRequest: null });
+    const subClient = redis.duplicate();
+    this.io.adapter(createAdapter(pubClient, subClient, { key: 'clockpilot:socket.io' }));
+    return true;
   }
 
   private setupSocketHandlers() {
@@ -54,25 +95,19 @@ export class NotificationService {
       const userId = socket.userId!;
       console.log(`User ${userId} connected via WebSocket`);
 
-      // Add socket to user's connected sockets
-      if (!this.connectedUsers.has(userId)) {
-        this.connectedUsers.set(userId, new Set());
-      }
-      this.connectedUsers.get(userId)!.add(socket.id);
+      // Record presence across instances
+      void this.presence.add(userId, socket.id);
 
       // Join user's personal room
       socket.join(`user_${userId}`);
 
+      // Live planning board (admins)
+      this.planningBoard.registerSocket(socket, userId, socket.userRole);
+
       // Handle disconnect
       socket.on('disconnect', () => {
         console.log(`User ${userId} disconnected from WebSocket`);
-        const userSockets = this.connectedUsers.get(userId);
-        if (userSockets) {
-          userSockets.delete(socket.id);
-          if (userSockets.size === 0) {
-            this.connectedUsers.delete(userId);
-          }
-        }
+        void this.presence.remove(userId, socket.id);
       });
 
       // Handle mark notification as read
@@ -117,26 +152,97 @@ export class NotificationService {
 
       // Send initial unread count
       this.sendUnreadCount(userId);
+      void this.replayMissedNotifications(socket, userId);
     });
   }
 
-  // Send notification to specific user
-  async sendNotificationToUser(userId: number, notification: CreateNotification) {
+  // Devices acknowledge each notification they receive: the first
+  // acknowledgement marks it delivered, otherwise it is replayed later
+  private emitNotification(userId: number, notification: Notification) {
+    this.io.to(`user_${userId}`).timeout(ACK_TIMEOUT_MS).emit('new_notification', notification, (_error: Error | null, acks: unknown[]) => {
+      if (acks.length > 0) {
+        void this.markDelivered(userId, [notification.id]);
+      }
+    });
+  }
+
+  // Notifications no device acknowledged while the user was away, sent in one batch
+  private async replayMissedNotifications(socket: AuthenticatedSocket, userId: number) {
     try {
-      // Save notification to database
-      const savedNotification = await storage.createNotification({
-        ...notification,
-        user_id: userId
+      const since = new Date(Date.now() - REPLAY_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+      const missed = await storage.getUndeliveredNotifications(userId, since, REPLAY_LIMIT);
+      if (missed.length === 0) return;
+
+      socket.timeout(ACK_TIMEOUT_MS).emit('missed_notifications', missed, (error: Error | null) => {
+        if (!error) {
+          void this.markDelivered(userId, missed.map(notification => notification.id));
+        }
       });
+    } catch (error) {
+      console.error('Error replaying missed notifications:', error);
+    }
+  }
 
-      // Send to all connected devices of the user
-      this.io.to(`user_${userId}`).emit('new_notification', savedNotification);
+  private async markDelivered(userId: number, ids: number[]) {
+    try {
+      await storage.markNotificationsDelivered(userId, ids);
+    } catch (error) {
+      console.error('Error marking notifications as delivered:', error);
+    }
+  }
 
-      // Update unread count
-      const unreadCount = await storage.getUnreadNotificationCount(userId);
-      this.io.to(`user_${userId}`).emit('unread_count_updated', { count: unreadCount });
+  // Send notification to specific user, on the channels chosen in their preferences.
+  // Returns null when the user has turned off in-app notifications for this type.
+  async sendNotificationToUser(userId: number, notification: CreateNotification) {
+    try {
+      const preferences = await storage.getNotificationPreferences(userId);
+      const channels = resolveNotificationChannels(preferences, notification.type, notification.priority);
+
+      let savedNotification = null;
+      if (channels.in_app) {
+        // Save notification to database
+        savedNotification = await storage.createNotification({
+          ...notification,
+          user_id: userId
+        });
+
+        // Send to all connected devices of the user, on every instance
+        this.emitNotification(userId, savedNotification);
+
+        // Update unread count
+        const unreadCount = await storage.getUnreadNotificationCount(userId);
+        this.io.to(`user_${userId}`).emit('unread_count_updated', { count: unreadCount });
+
+        console.log(`Notification sent to user ${userId}:`, notification.title);
+      }
+
+      if (channels.email) {
+        // A queueing failure must not lose the in-app notification
+        try {
+          await getEmailService().enqueueNotificationEmail(
+            userId,
+            { ...notification, action_url: notification.action_url ?? null, id: savedNotification?.id },
+            preferences.language
+          );
+        } catch (error) {
+          console.error(`Error queueing notification email for user ${userId}:`, error);
+        }
+      }
+
+      // A connected user already sees the notification; otherwise it would wait
+      // for their next visit, so it goes to their subscribed devices
+      if (channels.push && !(await this.isUserConnected(userId))) {
+        try {
+          await getPushService().sendToUser(userId, {
+            ...notification,
+            action_url: notification.action_url ?? null,
+            id: savedNotification?.id,
+          });
+        } catch (error) {
+          console.error(`Error sending push notification to user ${userId}:`, error);
+        }
+      }
 
-      console.log(`Notification sent to user ${userId}:`, notification.title);
       return savedNotification;
     } catch (error) {
       console.error('Error sending notification:', error);
@@ -171,14 +277,74 @@ export class NotificationService {
     }
   }
 
-  // Get connected users count
-  getConnectedUsersCount(): number {
-    return this.connectedUsers.size;
+  // Send the daily and weekly digests that are due in each user's time zone
+  // (run by the notification_digests job). Returns the number of digests sent.
+  async sendDueDigests(now: Date = new Date()): Promise<number> {
+    let sent = 0;
+    const recipients = await storage.getDigestRecipients();
+
+    for (const { userId, preferences } of recipients) {
+      const frequency = preferences.digest_frequency;
+      if (frequency === 'none') continue;
+
+      try {
+        const periodKey = getDueDigestPeriod(frequency, now, getPreferredTimeZone(preferences));
+        if (!periodKey) continue;
+
+        const last = await storage.getLastNotificationDigest(userId);
+        const digest = await storage.claimNotificationDigest(userId, frequency, periodKey);
+        if (!digest) continue;
+
+        const items = await storage.collectDigestNotifications(
+          userId,
+          getDigestWindowStart(frequency, now, last?.sent_at ?? null),
+          now
+        );
+        // An empty period is closed as well, so that the next digest starts after it
+        if (items.length === 0) {
+          await storage.completeNotificationDigest(digest.id, { notification_count: 0, notification_id: null });
+          continue;
+        }
+
+        const groups = groupDigestNotifications(items);
+
+        // The summary itself is never part of a later digest
+        const summary = await storage.createNotification({
+          user_id: userId,
+          type: 'reminder',
+          priority: 'low',
+          title: getDigestTitle(frequency, preferences.language),
+          message: formatDigestMessage(groups, preferences.language),
+          action_url: '/notifications',
+          data: { digestId: digest.id },
+          digested_at: now,
+        });
+        this.emitNotification(userId, summary);
+        await this.sendUnreadCount(userId);
+
+        await getEmailService().enqueueDigestEmail(userId, groups, frequency, preferences.language, summary.id);
+        await storage.completeNotificationDigest(digest.id, { notification_count: items.length, notification_id: summary.id });
+        sent++;
+      } catch (error) {
+        console.error(`Error sending notification digest to user ${userId}:`, error);
+      }
+    }
+
+    return sent;
   }
 
-  // Check if user is online
-  isUserConnected(userId: number): boolean {
-    return this.connectedUsers.has(userId);
+  getPlanningBoard(): PlanningBoard {
+    return this.planningBoard;
+  }
+
+  // Users connected to any instance
+  async getConnectedUsersCount(): Promise<number> {
+    return this.presence.countOnlineUsers();
+  }
+
+  // Check if user is online on any instance
+  async isUserConnected(userId: number): Promise<boolean> {
+    return this.presence.isOnline(userId);
   }
 
   // Trigger-based notification senders
@@ -193,7 +359,7 @@ export class NotificationService {
       message: `${assignerName} vous a assigné une nouvelle tâche.`,
       action_url: `/tasks/${taskId}`,
       priority: 'medium',
-      data: { taskId, assignedBy: assignedByUserId }
+      data: { event: 'task_assigned', taskId, assignedBy: assignedByUserId, assignedByName: assignedByUser?.username }
     });
   }
 
@@ -208,7 +374,7 @@ export class NotificationService {
       message: `${modifierName} a modifié votre planning pour le ${date}.`,
       action_url: `/planning?date=${date}`,
       priority: 'medium',
-      data: { date, modifiedBy: modifiedByUserId }
+      data: { event: 'planning_modified', date, modifiedBy: modifiedByUserId, modifiedByName: modifiedByUser?.username }
     });
   }
 
@@ -223,7 +389,7 @@ export class NotificationService {
       message: `${employeeName} a soumis ses heures pour validation (semaine du ${weekStart}).`,
       action_url: `/validation?employee=${employeeUserId}&week=${weekStart}`,
       priority: 'high',
-      data: { employeeId: employeeUserId, weekStart }
+      data: { event: 'week_submitted', employeeId: employeeUserId, weekStart, employeeName: employee?.username }
     });
   }
 
@@ -235,7 +401,7 @@ export class NotificationService {
       message: `N'oubliez pas de saisir vos heures pour le ${date}.`,
       action_url: `/time-entries?date=${date}`,
       priority: 'medium',
-      data: { date }
+      data: { event: 'time_missing', date }
     });
   }
 
@@ -247,7 +413,153 @@ export class NotificationService {
       message: `Vous avez atteint ${hours}h supplémentaires le ${date}. Pensez à justifier si nécessaire.`,
       action_url: `/time-entries?date=${date}`,
       priority: 'high',
-      data: { date, hours }
+      data: { event: 'overtime_alert', date, hours }
+    });
+  }
+
+  async sendWeekSubmissionReminderNotification(employeeUserId: number, weekStart: string, draftCount: number) {
+    return this.sendNotificationToUser(employeeUserId, {
+      user_id: employeeUserId,
+      type: 'reminder',
+      title: 'Soumettez votre semaine',
+      message: `${draftCount} saisie(s) de la semaine du ${weekStart} sont encore en brouillon. Pensez à soumettre vos heures.`,
+      action_url: `/time-entries?week=${weekStart}`,
+      priority: 'medium',
+      data: { event: 'week_submission_reminder', weekStart, draftCount }
+    });
+  }
+
+  async sendPendingValidationsReminderNotification(approverUserId: number, weeks: number) {
+    return this.sendNotificationToUser(approverUserId, {
+      user_id: approverUserId,
+      type: 'validation_required',
+      title: 'Validations en attente',
+      message: `${weeks} semaine(s) soumise(s) attendent votre validation.`,
+      action_url: '/admin/validation',
+      priority: 'medium',
+      data: { event: 'pending_validations', weeks }
+    });
+  }
+
+  async sendPunchAutoClosedNotification(employeeUserId: number, entry: TimeEntry) {
+    return this.sendNotificationToUser(employeeUserId, {
+      user_id: employeeUserId,
+      type: 'time_missing',
+      title: 'Sortie non pointée',
+      message: `Votre pointage du ${entry.date} est resté ouvert : la sortie a été enregistrée à ${entry.end_time?.slice(0, 5)}. Corrigez-la si nécessaire.`,
+      action_url: `/time-entries?date=${entry.date}`,
+      priority: 'high',
+      data: { event: 'punch_auto_closed', timeEntryId: entry.id, date: entry.date, endTime: entry.end_time?.slice(0, 5) }
+    });
+  }
+
+  async sendLeaveRequestedNotification(managerUserId: number, employeeName: string, leaveRequest: LeaveRequest) {
+    return this.sendNotificationToUser(managerUserId, {
+      user_id: managerUserId,
+      type: 'leave_request',
+      title: 'Nouvelle demande de congé',
+      message: `${employeeName} demande un congé du ${leaveRequest.start_date} au ${leaveRequest.end_date} (${leaveRequest.days_count} jour(s)).`,
+      action_url: `/employee/leave-requests?id=${leaveRequest.id}`,
+      priority: 'high',
+      data: {
+        event: 'leave_requested',
+        leaveRequestId: leaveRequest.id,
+        employeeId: leaveRequest.employee_id,
+        employeeName,
+        startDate: leaveRequest.start_date,
+        endDate: leaveRequest.end_date,
+        daysCount: leaveRequest.days_count,
+      }
+    });
+  }
+
+  async sendLeaveDecisionNotification(employeeUserId: number, leaveRequest: LeaveRequest) {
+    const approved = leaveRequest.status === 'approved';
+
+    return this.sendNotificationToUser(employeeUserId, {
+      user_id: employeeUserId,
+      type: 'leave_request',
+      title: approved ? 'Congé approuvé' : 'Congé refusé',
+      message: approved
+        ? `Votre demande de congé du ${leaveRequest.start_date} au ${leaveRequest.end_date} a été approuvée.`
+        : `Votre demande de congé du ${leaveRequest.start_date} au ${leaveRequest.end_date} a été refusée${leaveRequest.decision_comment ? ` : ${leaveRequest.decision_comment}` : '.'}`,
+      action_url: `/employee/leave-requests?id=${leaveRequest.id}`,
+      priority: 'medium',
+      data: {
+        event: 'leave_decided',
+        leaveRequestId: leaveRequest.id,
+        status: leaveRequest.status,
+        startDate: leaveRequest.start_date,
+        endDate: leaveRequest.end_date,
+        comment: leaveRequest.decision_comment,
+      }
+    });
+  }
+
+  async sendWeekValidationDecisionNotification(employeeUserId: number, validation: Validation) {
+    const titles: Record<Validation['status'], string> = {
+      pending: 'Heures en attente de validation',
+      validated: 'Heures validées',
+      rejected: 'Heures refusées',
+      partially_validated: 'Heures partiellement validées',
+    };
+
+    return this.sendNotificationToUser(employeeUserId, {
+      user_id: employeeUserId,
+      type: 'validation_required',
+      title: titles[validation.status],
+      message: validation.status === 'rejected'
+        ? `Vos heures de la semaine du ${validation.week_start_date} ont été refusées${validation.rejection_reason ? ` : ${validation.rejection_reason}` : '.'}`
+        : `Vos heures de la semaine du ${validation.week_start_date} ont été traitées (${validation.total_hours}h retenues).`,
+      action_url: `/time-entries?week=${validation.week_start_date}`,
+      priority: validation.status === 'rejected' ? 'high' : 'medium',
+      data: {
+        event: 'week_decided',
+        validationId: validation.id,
+        weekStart: validation.week_start_date,
+        status: validation.status,
+        totalHours: validation.total_hours,
+        reason: validation.rejection_reason,
+      }
+    });
+  }
+
+  async sendApprovalEscalatedNotification(approverUserId: number, employeeName: string, approval: ApprovalRequest) {
+    const subject = approval.subject_type === 'leave_request' ? 'la demande de congé' : 'la feuille de temps';
+
+    return this.sendNotificationToUser(approverUserId, {
+      user_id: approverUserId,
+      type: 'validation_required',
+      title: 'Validation escaladée',
+      message: `Sans réponse dans les délais, ${subject} de ${employeeName} vous a été transmise.`,
+      action_url: approval.subject_type === 'leave_request'
+        ? `/employee/leave-requests?id=${approval.subject_id}`
+        : '/admin/validation',
+      priority: 'high',
+      data: { event: 'approval_escalated', approvalId: approval.id, subjectType: approval.subject_type, subjectId: approval.subject_id, employeeName }
+    });
+  }
+
+  async sendOutOfZonePunchNotification(managerUserId: number, employeeName: string, entry: TimeEntry) {
+    return this.sendNotificationToUser(managerUserId, {
+      user_id: managerUserId,
+      type: 'validation_required',
+      title: 'Pointage hors zone',
+      message: entry.geofence_status === 'outside'
+        ? `${employeeName} a pointé le ${entry.date} à ${entry.start_time} à ${entry.geofence_distance_meters} m du site de travail.`
+        : `${employeeName} a pointé le ${entry.date} à ${entry.start_time} sans position.`,
+      action_url: '/admin/validation',
+      priority: 'medium',
+      data: {
+        event: 'out_of_zone_punch',
+        timeEntryId: entry.id,
+        workSiteId: entry.work_site_id,
+        distanceMeters: entry.geofence_distance_meters,
+        geofenceStatus: entry.geofence_status,
+        employeeName,
+        date: entry.date,
+        startTime: entry.start_time,
+      }
     });
   }
 }
@@ -255,9 +567,10 @@ export class NotificationService {
 // Singleton instance
 let notificationService: NotificationService | null = null;
 
-export const initializeNotificationService = (httpServer: HTTPServer): NotificationService => {
+export const initializeNotificationService = async (httpServer: HTTPServer): Promise<NotificationService> => {
   if (!notificationService) {
     notificationService = new NotificationService(httpServer);
+    await notificationService.attachRedisAdapter();
   }
   return notificationService;
 };
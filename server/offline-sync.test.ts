@@ -0,0 +1,72 @@
+import {
+  resolveSyncTimestamp,
+  isDelayedPunch,
+  detectSyncConflict,
+  isSyncConflictResolvable,
+  MAX_OFFLINE_HOURS,
+} from './businessLogic';
+
+jest.mock('./db', () => ({ db: {} }));
+
+describe('Offline Sync', () => {
+  describe('resolveSyncTimestamp', () => {
+    const receivedAt = new Date('2024-03-06T12:00:00Z');
+
+    it('should keep the time of the offline action', () => {
+      expect(resolveSyncTimestamp('2024-03-06T09:30:00+01:00', receivedAt)).toEqual(new Date('2024-03-06T08:30:00Z'));
+    });
+
+    it('should bring clocks running ahead back to server time', () => {
+      expect(resolveSyncTimestamp('2024-03-06T12:05:00Z', receivedAt)).toEqual(receivedAt);
+    });
+
+    it('should reject actions older than the offline window', () => {
+      const tooOld = new Date(receivedAt.getTime() - (MAX_OFFLINE_HOURS + 1) * 60 * 60 * 1000).toISOString();
+
+      expect(resolveSyncTimestamp(tooOld, receivedAt)).toBeNull();
+      expect(resolveSyncTimestamp(tooOld, receivedAt, MAX_OFFLINE_HOURS + 2)).not.toBeNull();
+    });
+  });
+
+  describe('isDelayedPunch', () => {
+    const receivedAt = new Date('2024-03-06T12:00:00Z');
+
+    it('should flag punches received long after their time', () => {
+      expect(isDelayedPunch(new Date('2024-03-06T11:50:00Z'), receivedAt)).toBe(false);
+      expect(isDelayedPunch(new Date('2024-03-06T08:30:00Z'), receivedAt)).toBe(true);
+      expect(isDelayedPunch(new Date('2024-03-06T08:30:00Z'), receivedAt, 240)).toBe(false);
+    });
+  });
+
+  describe('detectSyncConflict', () => {
+    const entry = { version: 2, status: 'draft' };
+    const base = { dates: ['2024-03-06'], validatedWeeks: [], closedThrough: null };
+
+    it('should apply changes made on the version the client last saw', () => {
+      expect(detectSyncConflict({ ...base, entry, baseVersion: 2 })).toBeNull();
+      expect(detectSyncConflict({ ...base })).toBeNull();
+    });
+
+    it('should detect an entry edited on the server meanwhile', () => {
+      expect(detectSyncConflict({ ...base, entry, baseVersion: 1 })).toBe('ENTRY_MODIFIED');
+    });
+
+    it('should detect an entry deleted meanwhile', () => {
+      expect(detectSyncConflict({ ...base, entry: null, baseVersion: 1 })).toBe('ENTRY_NOT_FOUND');
+    });
+
+    it('should detect validated weeks and closed periods before version mismatches', () => {
+      expect(detectSyncConflict({ ...base, entry, baseVersion: 1, validatedWeeks: ['2024-03-04'] })).toBe('PERIOD_VALIDATED');
+      expect(detectSyncConflict({ ...base, entry: { version: 2, status: 'validated' }, baseVersion: 2 })).toBe('PERIOD_VALIDATED');
+      expect(detectSyncConflict({ ...base, entry, baseVersion: 1, closedThrough: '2024-03-31' })).toBe('PERIOD_CLOSED');
+    });
+  });
+
+  describe('isSyncConflictResolvable', () => {
+    it('should only let the client overwrite concurrent edits', () => {
+      expect(isSyncConflictResolvable('ENTRY_MODIFIED')).toBe(true);
+      expect(isSyncConflictResolvable('PERIOD_VALIDATED')).toBe(false);
+      expect(isSyncConflictResolvable('ALREADY_CLOCKED_IN')).toBe(false);
+    });
+  });
+});
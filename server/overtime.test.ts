@@ -0,0 +1,80 @@
+import {
+  computeWeeklyOvertime,
+  getCompensatoryRestHours,
+  convertRestHoursToDays,
+  computeOvertimeContingent,
+  getOvertimePayrollMonth,
+} from './businessLogic';
+import { DEFAULT_LABOR_RULE_CONFIG, DEFAULT_OVERTIME_POLICY, resolveOvertimePolicy } from './laborRules';
+import type { LaborRuleConfig } from '@shared/schema';
+
+jest.mock('./db', () => ({ db: {} }));
+
+describe('Overtime', () => {
+  describe('computeWeeklyOvertime', () => {
+    it('should not count overtime up to the legal 35 hours', () => {
+      expect(computeWeeklyOvertime(35, DEFAULT_OVERTIME_POLICY)).toEqual({
+        regularHours: 35,
+        overtimeHours: 0,
+        tiers: [{ rate: 1.25, hours: 0 }, { rate: 1.5, hours: 0 }],
+      });
+    });
+
+    it('should pay hours 36 to 43 at +25% and beyond at +50%, each hour once', () => {
+      expect(computeWeeklyOvertime(40, DEFAULT_OVERTIME_POLICY).tiers).toEqual([
+        { rate: 1.25, hours: 5 },
+        { rate: 1.5, hours: 0 },
+      ]);
+
+      const overtime = computeWeeklyOvertime(46.5, DEFAULT_OVERTIME_POLICY);
+      expect(overtime.tiers).toEqual([{ rate: 1.25, hours: 8 }, { rate: 1.5, hours: 3.5 }]);
+      expect(overtime.overtimeHours).toBe(11.5);
+      expect(overtime.regularHours).toBe(35);
+    });
+  });
+
+  describe('resolveOvertimePolicy', () => {
+    it('should apply the collective agreement rates when configured', () => {
+      const agreementPolicy = {
+        tiers: [{ from_hours: 35, rate: 1.1 }, { from_hours: 39, rate: 1.25 }],
+        annual_contingent_hours: 130,
+        compensation: 'rest' as const,
+      };
+      const config: LaborRuleConfig = {
+        ...DEFAULT_LABOR_RULE_CONFIG,
+        collective_agreement: 'HCR',
+        rule_sets: [
+          ...DEFAULT_LABOR_RULE_CONFIG.rule_sets,
+          { id: 'hcr', name: 'HCR', scope: { collective_agreement: 'HCR' }, rules: [], overtime: agreementPolicy },
+        ],
+      };
+
+      expect(resolveOvertimePolicy(config)).toEqual(agreementPolicy);
+      expect(resolveOvertimePolicy({ ...config, collective_agreement: 'SYNTEC' })).toEqual(DEFAULT_OVERTIME_POLICY);
+    });
+  });
+
+  describe('compensatory rest', () => {
+    it('should convert overtime including its premium', () => {
+      expect(getCompensatoryRestHours([{ rate: 1.25, hours: 8 }, { rate: 1.5, hours: 2 }])).toBe(13);
+      expect(convertRestHoursToDays(14, 35)).toBe(2);
+    });
+  });
+
+  describe('computeOvertimeContingent', () => {
+    it('should only charge paid overtime against the annual contingent', () => {
+      const contingent = computeOvertimeContingent([
+        { overtimeHours: 150, compensation: 'pay' },
+        { overtimeHours: 40, compensation: 'rest' },
+        { overtimeHours: 80, compensation: 'pay' },
+      ], 220);
+
+      expect(contingent).toEqual({ limitHours: 220, usedHours: 230, remainingHours: 0, exceededHours: 10 });
+    });
+  });
+
+  it('should attach a week to the payroll month in which it ends', () => {
+    expect(getOvertimePayrollMonth('2024-01-29')).toBe('2024-02');
+    expect(getOvertimePayrollMonth('2024-01-22')).toBe('2024-01');
+  });
+});
@@ -0,0 +1,56 @@
+import {
+  isDateInClosedPeriod,
+  getClosedDates,
+  getPlanningPatchDates,
+  getAdjustmentEffectiveDate,
+  getEntryNetHours,
+  getAdjustmentHoursDelta,
+} from './businessLogic';
+
+jest.mock('./db', () => ({ db: {} }));
+
+describe('Pay Period Lock', () => {
+  describe('closed dates', () => {
+    it('should freeze entries up to the closing date included', () => {
+      expect(isDateInClosedPeriod('2024-03-31', '2024-03-31')).toBe(true);
+      expect(isDateInClosedPeriod('2024-04-01', '2024-03-31')).toBe(false);
+      expect(isDateInClosedPeriod('2020-01-01', null)).toBe(false);
+    });
+
+    it('should list each closed date once, ignoring missing dates', () => {
+      expect(getClosedDates(['2024-03-30', undefined, '2024-04-02', '2024-03-12', '2024-03-30', null], '2024-03-31'))
+        .toEqual(['2024-03-12', '2024-03-30']);
+    });
+
+    it('should collect both sides of a planning patch', () => {
+      const entry = (id: number, date: string) => ({ id, date, startTime: '09:00', endTime: '17:00' });
+
+      expect(getPlanningPatchDates({
+        updates: [{ before: entry(1, '2024-03-29'), after: entry(1, '2024-04-01') }],
+        deletes: [entry(2, '2024-04-03')],
+      })).toEqual(['2024-03-29', '2024-04-01', '2024-04-03']);
+    });
+  });
+
+  describe('adjustments', () => {
+    it('should account adjustments on the first open day', () => {
+      expect(getAdjustmentEffectiveDate('2024-04-10', '2024-03-31')).toBe('2024-04-10');
+      expect(getAdjustmentEffectiveDate('2024-03-31', '2024-03-31')).toBe('2024-04-01');
+      expect(getAdjustmentEffectiveDate('2024-04-10', null)).toBe('2024-04-10');
+    });
+
+    it('should compute net hours including night shifts', () => {
+      expect(getEntryNetHours({ type: 'work', startTime: '09:00', endTime: '17:30', breakDuration: 30 })).toBe(8);
+      expect(getEntryNetHours({ type: 'work', startTime: '22:00', endTime: '06:00' })).toBe(8);
+      expect(getEntryNetHours({ type: 'break', startTime: '12:00', endTime: '13:00' })).toBe(0);
+    });
+
+    it('should compute the delta against the hours already retained', () => {
+      const corrected = { type: 'work', startTime: '09:00', endTime: '18:00', breakDuration: 60 };
+
+      expect(getAdjustmentHoursDelta(7, corrected)).toBe(1);
+      expect(getAdjustmentHoursDelta(8.5, corrected)).toBe(-0.5);
+      expect(getAdjustmentHoursDelta(7.25, null)).toBe(-7.25);
+    });
+  });
+});
@@ -0,0 +1,176 @@
+import {
+  computePayrollVariables,
+  getPayrollDataRange,
+  formatPayrollCsv,
+  formatPayrollFixedWidth,
+  formatPayrollDsn,
+  DEFAULT_NIGHT_WINDOW,
+  DEFAULT_PAYROLL_EXPORT_CONFIG,
+  PayrollFieldTooLongError,
+  type PayrollEmployeeSource,
+  type PayrollReport,
+} from './payrollExport';
+import { DEFAULT_OVERTIME_POLICY } from './laborRules';
+import { PAYROLL_VARIABLES } from '@shared/schema';
+
+jest.mock('./db', () => ({ db: {} }));
+
+// Semaine du lundi 2024-03-04 : 5 jours de 9h nettes (45h)
+const fullWeek = ['2024-03-04', '2024-03-05', '2024-03-06', '2024-03-07', '2024-03-08'].map(date => ({
+  date,
+  type: 'work',
+  startTime: '08:00',
+  endTime: '18:00',
+  breakDuration: 60,
+}));
+
+const buildSource = (overrides: Partial<PayrollEmployeeSource> = {}): PayrollEmployeeSource => ({
+  employee: { id: 1, employeeNumber: 'E001', firstName: 'Marie', lastName: 'Martin', hourlyRate: 20 },
+  entries: fullWeek,
+  leaves: [],
+  adjustments: [],
+  weekCompensations: {},
+  overtimePolicy: DEFAULT_OVERTIME_POLICY,
+  nightWindow: DEFAULT_NIGHT_WINDOW,
+  ...overrides,
+});
+
+const quantityOf = (source: PayrollEmployeeSource, variable: string, config = DEFAULT_PAYROLL_EXPORT_CONFIG) =>
+  computePayrollVariables(source, '2024-03', config).lines.find(line => line.variable === variable)?.quantity;
+
+describe('Payroll Export', () => {
+  describe('getPayrollDataRange', () => {
+    it('should load data from the Monday of the first payroll week', () => {
+      expect(getPayrollDataRange('2024-03')).toEqual({
+        start: '2024-02-26',
+        end: '2024-03-31',
+        monthStart: '2024-03-01',
+        monthEnd: '2024-03-31',
+      });
+    });
+  });
+
+  describe('computePayrollVariables', () => {
+    it('should split regular hours and overtime tiers with amounts from the hourly rate', () => {
+      const report = computePayrollVariables(buildSource(), '2024-03', DEFAULT_PAYROLL_EXPORT_CONFIG);
+
+      expect(report.lines.slice(0, 3)).toEqual([
+        { variable: 'regular_hours', rubric: 'regular_hours', label: 'Heures normales', unit: 'hours', quantity: 35, rate: 1, amount: 700 },
+        { variable: 'overtime_tier_1', rubric: 'overtime_tier_1', label: 'Heures supplémentaires (1re tranche)', unit: 'hours', quantity: 8, rate: 1.25, amount: 200 },
+        { variable: 'overtime_tier_2', rubric: 'overtime_tier_2', label: 'Heures supplémentaires (2e tranche)', unit: 'hours', quantity: 2, rate: 1.5, amount: 60 },
+      ]);
+    });
+
+    it('should convert overtime to compensatory rest for weeks compensated by rest', () => {
+      const source = buildSource({ weekCompensations: { '2024-03-04': 'rest' } });
+
+      expect(quantityOf(source, 'overtime_tier_1')).toBeUndefined();
+      expect(quantityOf(source, 'compensatory_rest_hours')).toBe(13);
+    });
+
+    it('should attribute a week to the month in which it ends', () => {
+      const source = buildSource({
+        entries: [{ date: '2024-02-26', type: 'work', startTime: '09:00', endTime: '17:00', breakDuration: 0 }],
+      });
+
+      expect(quantityOf(source, 'regular_hours')).toBe(8);
+      expect(quantityOf(source, 'meal_vouchers')).toBeUndefined();
+    });
+
+    it('should count night and Sunday hours across midnight', () => {
+      const source = buildSource({
+        entries: [{ date: '2024-03-09', type: 'work', startTime: '22:00', endTime: '06:00', breakDuration: 30 }],
+      });
+
+      expect(quantityOf(source, 'night_hours')).toBe(8);
+      expect(quantityOf(source, 'sunday_hours')).toBe(6);
+    });
+
+    it('should count absences in working days within the month', () => {
+      const source = buildSource({
+        leaves: [
+          { type: 'vacation', startDate: '2024-02-28', endDate: '2024-03-05' },
+          { type: 'sick_leave', startDate: '2024-03-29', endDate: '2024-04-03' },
+        ],
+      });
+
+      expect(quantityOf(source, 'absence_vacation')).toBe(3);
+      expect(quantityOf(source, 'absence_sick_leave')).toBe(1);
+    });
+
+    it('should grant meal vouchers from the configured daily threshold', () => {
+      expect(quantityOf(buildSource(), 'meal_vouchers')).toBe(5);
+      expect(quantityOf(buildSource(), 'meal_vouchers', { ...DEFAULT_PAYROLL_EXPORT_CONFIG, meal_voucher_min_hours: 10 })).toBeUndefined();
+    });
+
+    it('should apply rubric mapping and exclusions', () => {
+      const config = {
+        ...DEFAULT_PAYROLL_EXPORT_CONFIG,
+        rubrics: { regular_hours: '1000' },
+        excluded_variables: ['meal_vouchers' as const],
+      };
+      const report = computePayrollVariables(buildSource({ adjustments: [{ hoursDelta: -1.5 }] }), '2024-03', config);
+
+      expect(report.lines[0].rubric).toBe('1000');
+      expect(report.lines.find(line => line.variable === 'meal_vouchers')).toBeUndefined();
+      expect(report.lines.find(line => line.variable === 'adjustment_hours')).toMatchObject({ quantity: -1.5, amount: -30 });
+    });
+
+    it('should leave amounts empty without hourly rate', () => {
+      const source = buildSource({ employee: { ...buildSource().employee, hourlyRate: null } });
+      const report = computePayrollVariables(source, '2024-03', DEFAULT_PAYROLL_EXPORT_CONFIG);
+
+      expect(report.lines.every(line => line.amount === null)).toBe(true);
+    });
+  });
+
+  describe('formatters', () => {
+    const report: PayrollReport = {
+      month: '2024-03',
+      startDate: '2024-03-01',
+      endDate: '2024-03-31',
+      employees: [computePayrollVariables(buildSource(), '2024-03', DEFAULT_PAYROLL_EXPORT_CONFIG)],
+    };
+
+    it('should write one CSV row per rubric with French decimals', () => {
+      const lines = formatPayrollCsv(report, DEFAULT_PAYROLL_EXPORT_CONFIG).content.split('\r\n');
+
+      expect(lines[0]).toBe('matricule;nom;prenom;periode;rubrique;libelle;quantite;unite;taux;montant');
+      expect(lines[1]).toBe('E001;Martin;Marie;2024-03;regular_hours;Heures normales;35,00;hours;1,00;700,00');
+    });
+
+    it('should write fixed-width records with implied decimals', () => {
+      const config = { ...DEFAULT_PAYROLL_EXPORT_CONFIG, rubrics: {
+        ...Object.fromEntries(PAYROLL_VARIABLES.map((variable, index) => [variable, String(2000 + index)])),
+        regular_hours: '1000',
+      } };
+      const mapped = { ...report, employees: [computePayrollVariables(buildSource(), '2024-03', config)] };
+      const [first] = formatPayrollFixedWidth(mapped, config).content.split('\r\n');
+
+      expect(first).toBe('202403E001      1000      0000003500000000070000');
+      expect(first).toHaveLength(6 + 10 + 10 + 10 + 12);
+    });
+
+    it('should refuse to truncate an employee number', () => {
+      const config = { ...DEFAULT_PAYROLL_EXPORT_CONFIG, fixed_width: { ...DEFAULT_PAYROLL_EXPORT_CONFIG.fixed_width, employee_number: 4 } };
+      const long = { ...report, employees: [{ ...report.employees[0], employeeNumber: 'E00012' }] };
+
+      expect(() => formatPayrollFixedWidth(long, config)).toThrow(PayrollFieldTooLongError);
+    });
+
+    it('should refuse to truncate an unmapped rubric', () => {
+      expect(() => formatPayrollFixedWidth(report, DEFAULT_PAYROLL_EXPORT_CONFIG)).toThrow('rubric "regular_hours"');
+    });
+
+    it('should group elements by DSN block', () => {
+      const structure = JSON.parse(formatPayrollDsn(report).content);
+      const individual = structure.individuals[0];
+
+      expect(individual.remunerations).toEqual([
+        { block: 'S21.G00.51', type: '002', hours: 35, amount: 700 },
+        { block: 'S21.G00.51', type: '017', hours: 10, amount: 260 },
+      ]);
+      expect(individual.activities[0]).toMatchObject({ block: 'S21.G00.53', quantity: 45, unit: '10' });
+    });
+  });
+});
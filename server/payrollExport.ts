@@ -0,0 +1,411 @@
+import {
+  payrollExportConfigSchema,
+  type OvertimeCompensation,
+  type OvertimePolicy,
+  type PayrollExportConfig,
+  type PayrollExportFormat,
+  type PayrollVariable,
+} from '@shared/schema';
+import {
+  computeWeeklyOvertime,
+  getCompensatoryRestHours,
+  getEntryNetHours,
+  getLeaveWorkingDates,
+  getOvertimePayrollMonth,
+  getWeekBounds,
+  type AdjustedEntry,
+} from './businessLogic';
+import { addDays, parseMinutes, toUtc } from './laborRules';
+
+// Données d'un employé nécessaires au calcul de ses variables de paie
+export interface PayrollEmployeeSource {
+  employee: {
+    id: number;
+    employeeNumber: string | null;
+    firstName: string;
+    lastName: string;
+    hourlyRate: number | null;
+  };
+  entries: Array<AdjustedEntry & { date: string }>; // Entrées validées de la période de données
+  leaves: Array<{ type: string; startDate: string; endDate: string }>; // Congés approuvés
+  adjustments: Array<{ hoursDelta: number }>; // Régularisations prises en compte dans le mois
+  weekCompensations: Record<string, OvertimeCompensation>; // Par lundi de semaine validée
+  overtimePolicy: OvertimePolicy;
+  nightWindow: { start: string; end: string };
+}
+
+export type PayrollUnit = 'hours' | 'days' | 'units';
+
+export interface PayrollLine {
+  variable: PayrollVariable;
+  rubric: string;
+  label: string;
+  unit: PayrollUnit;
+  quantity: number;
+  rate: number | null; // Coefficient appliqué au taux horaire
+  amount: number | null; // null si non valorisé ou taux horaire inconnu
+}
+
+export interface PayrollEmployeeReport {
+  employeeId: number;
+  employeeNumber: string | null;
+  firstName: string;
+  lastName: string;
+  hourlyRate: number | null;
+  lines: PayrollLine[];
+}
+
+export interface PayrollReport {
+  month: string;
+  startDate: string;
+  endDate: string;
+  employees: PayrollEmployeeReport[];
+}
+
+export interface PayrollExportFile {
+  content: string;
+  contentType: string;
+  extension: string;
+}
+
+export const DEFAULT_PAYROLL_EXPORT_CONFIG: PayrollExportConfig = payrollExportConfigSchema.parse({});
+
+// Fenêtre de nuit retenue lorsque la règle de travail de nuit est désactivée (L3122-2)
+export const DEFAULT_NIGHT_WINDOW = { start: '21:00', end: '06:00' };
+
+export const PAYROLL_VARIABLE_LABELS: Record<PayrollVariable, string> = {
+  regular_hours: 'Heures normales',
+  overtime_tier_1: 'Heures supplémentaires (1re tranche)',
+  overtime_tier_2: 'Heures supplémentaires (2e tranche)',
+  overtime_tier_3: 'Heures supplémentaires (3e tranche)',
+  overtime_tier_4: 'Heures supplémentaires (4e tranche)',
+  overtime_tier_5: 'Heures supplémentaires (5e tranche)',
+  compensatory_rest_hours: 'Repos compensateur acquis',
+  night_hours: 'Heures de nuit',
+  sunday_hours: 'Heures du dimanche',
+  adjustment_hours: 'Régularisation d\'heures',
+  absence_vacation: 'Congés payés',
+  absence_rtt: 'RTT',
+  absence_compensatory_rest: 'Repos compensateur pris',
+  absence_sick_leave: 'Arrêt maladie',
+  absence_unpaid_leave: 'Congé sans solde',
+  meal_vouchers: 'Titres-restaurant',
+};
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+// ============================================================================
+// PÉRIODE DE PAIE
+// ============================================================================
+
+// Les heures normales et supplémentaires suivent les semaines se terminant dans
+// le mois (comme le décompte des heures supplémentaires) ; les autres variables
+// suivent le mois civil. Les données sont donc chargées dès le lundi de la
+// première semaine.
+export function getPayrollDataRange(month: string): { start: string; end: string; monthStart: string; monthEnd: string } {
+  const monthStart = `${month}-01`;
+  const monthEnd = addDays(`${getNextMonth(month)}-01`, -1);
+
+  return {
+    start: getWeekBounds(monthStart).weekStart,
+    end: monthEnd,
+    monthStart,
+    monthEnd,
+  };
+}
+
+// ============================================================================
+// CALCUL DES VARIABLES
+// ============================================================================
+
+export function computePayrollVariables(
+  source: PayrollEmployeeSource,
+  month: string,
+  config: PayrollExportConfig
+): PayrollEmployeeReport {
+  const { monthStart, monthEnd } = getPayrollDataRange(month);
+  const quantities: Array<{ variable: PayrollVariable; unit: PayrollUnit; quantity: number; rate: number | null }> = [];
+
+  // Heures normales et supplémentaires, semaine par semaine
+  const weekTotals: Record<string, number> = {};
+  for (const entry of source.entries) {
+    const weekStart = getWeekBounds(entry.date).weekStart;
+    if (getOvertimePayrollMonth(weekStart) !== month) continue;
+    weekTotals[weekStart] = (weekTotals[weekStart] || 0) + getEntryNetHours(entry);
+  }
+
+  let regularHours = 0;
+  let restHours = 0;
+  const tierHours = source.overtimePolicy.tiers.map(() => 0);
+  for (const [weekStart, totalHours] of Object.entries(weekTotals)) {
+    const overtime = computeWeeklyOvertime(totalHours, source.overtimePolicy);
+    regularHours += overtime.regularHours;
+
+    // Les heures converties en repos ne sont pas payées
+    if ((source.weekCompensations[weekStart] ?? source.overtimePolicy.compensation) === 'rest') {
+      restHours += getCompensatoryRestHours(overtime.tiers);
+    } else {
+      overtime.tiers.forEach((tier, index) => { tierHours[index] += tier.hours; });
+    }
+  }
+
+  quantities.push({ variable: 'regular_hours', unit: 'hours', quantity: regularHours, rate: 1 });
+  source.overtimePolicy.tiers.forEach((tier, index) => {
+    quantities.push({ variable: `overtime_tier_${index + 1}` as PayrollVariable, unit: 'hours', quantity: tierHours[index], rate: tier.rate });
+  });
+  quantities.push({ variable: 'compensatory_rest_hours', unit: 'hours', quantity: restHours, rate: null });
+
+  // Heures de nuit, du dimanche et titres-restaurant sur le mois civil. La position
+  // des pauses n'étant pas connue, les heures de nuit et du dimanche sont brutes.
+  const monthEntries = source.entries.filter(entry => entry.date >= monthStart && entry.date <= monthEnd);
+  const dailyHours: Record<string, number> = {};
+  let nightMinutes = 0;
+  let sundayMinutes = 0;
+  for (const entry of monthEntries) {
+    dailyHours[entry.date] = (dailyHours[entry.date] || 0) + getEntryNetHours(entry);
+    if (entry.type === 'break' || !entry.startTime || !entry.endTime) continue;
+
+    const interval = toInterval(entry.date, entry.startTime, entry.endTime);
+    nightMinutes += getNightOverlapMinutes(interval, source.nightWindow);
+    sundayMinutes += getSundayOverlapMinutes(interval);
+  }
+
+  quantities.push({ variable: 'night_hours', unit: 'hours', quantity: nightMinutes / 60, rate: null });
+  quantities.push({ variable: 'sunday_hours', unit: 'hours', quantity: sundayMinutes / 60, rate: null });
+
+  const adjustmentHours = source.adjustments.reduce((sum, adjustment) => sum + adjustment.hoursDelta, 0);
+  quantities.push({ variable: 'adjustment_hours', unit: 'hours', quantity: adjustmentHours, rate: 1 });
+
+  // Absences en jours ouvrés, limitées au mois
+  const absenceDays: Record<string, number> = {};
+  for (const leave of source.leaves) {
+    const start = leave.startDate > monthStart ? leave.startDate : monthStart;
+    const end = leave.endDate < monthEnd ? leave.endDate : monthEnd;
+    if (start > end) continue;
+    absenceDays[leave.type] = (absenceDays[leave.type] || 0) + getLeaveWorkingDates(start, end).length;
+  }
+  for (const [type, days] of Object.entries(absenceDays)) {
+    quantities.push({ variable: `absence_${type}` as PayrollVariable, unit: 'days', quantity: days, rate: null });
+  }
+
+  const mealVouchers = Object.values(dailyHours)
+    .filter(hours => hours > 0 && hours >= config.meal_voucher_min_hours)
+    .length;
+  quantities.push({ variable: 'meal_vouchers', unit: 'units', quantity: mealVouchers, rate: null });
+
+  const { hourlyRate } = source.employee;
+  const lines = quantities
+    .map(line => ({ ...line, quantity: round(line.quantity) }))
+    .filter(line => line.quantity !== 0 && !config.excluded_variables.includes(line.variable))
+    .map(line => ({
+      ...line,
+      rubric: config.rubrics[line.variable] ?? line.variable,
+      label: PAYROLL_VARIABLE_LABELS[line.variable],
+      amount: line.rate !== null && hourlyRate !== null ? round(line.quantity * hourlyRate * line.rate) : null,
+    }));
+
+  return {
+    employeeId: source.employee.id,
+    employeeNumber: source.employee.employeeNumber,
+    firstName: source.employee.firstName,
+    lastName: source.employee.lastName,
+    hourlyRate,
+    lines,
+  };
+}
+
+// ============================================================================
+// FORMATS D'EXPORT
+// ============================================================================
+
+// Un format par logiciel cible ; ajouter un format revient à ajouter une entrée
+export const PAYROLL_FORMATTERS: Record<PayrollExportFormat, (report: PayrollReport, config: PayrollExportConfig) => PayrollExportFile> = {
+  csv: formatPayrollCsv,
+  fixed_width: formatPayrollFixedWidth,
+  dsn: formatPayrollDsn,
+};
+
+// Une ligne par employé et par rubrique
+export function formatPayrollCsv(report: PayrollReport, config: PayrollExportConfig): PayrollExportFile {
+  const { separator, decimal_separator } = config.csv;
+  const formatNumber = (value: number | null) =>
+    value === null ? '' : value.toFixed(2).replace('.', decimal_separator);
+  const escape = (value: string) =>
+    value.includes(separator) || value.includes('"') || value.includes('\n')
+      ? `"${value.replace(/"/g, '""')}"`
+      : value;
+
+  const rows = [
+    ['matricule', 'nom', 'prenom', 'periode', 'rubrique', 'libelle', 'quantite', 'unite', 'taux', 'montant'],
+    ...report.employees.flatMap(employee => employee.lines.map(line => [
+      employee.employeeNumber ?? String(employee.employeeId),
+      employee.lastName,
+      employee.firstName,
+      report.month,
+      line.rubric,
+      line.label,
+      formatNumber(line.quantity),
+      line.unit,
+      formatNumber(line.rate),
+      formatNumber(line.amount),
+    ])),
+  ];
+
+  return {
+    content: rows.map(row => row.map(escape).join(separator)).join('\r\n') + '\r\n',
+    contentType: 'text/csv; charset=utf-8',
+    extension: 'csv',
+  };
+}
+
+export type PayrollIdentifierField = 'employee_number' | 'rubric';
+
+// Identifiant plus long que la colonne qui lui est réservée dans l'export
+export class PayrollFieldTooLongError extends Error {
+  constructor(
+    public readonly field: PayrollIdentifierField,
+    public readonly value: string,
+    public readonly width: number
+  ) {
+    super(`${field} "${value}" does not fit the ${width}-character column`);
+    this.name = 'PayrollFieldTooLongError';
+    Object.setPrototypeOf(this, PayrollFieldTooLongError.prototype);
+  }
+}
+
+// Enregistrements de longueur fixe : période (AAAAMM), matricule, rubrique,
+// quantité et montant en centièmes signés, cadrés à droite sur des zéros
+export function formatPayrollFixedWidth(report: PayrollReport, config: PayrollExportConfig): PayrollExportFile {
+  const widths = config.fixed_width;
+  const period = report.month.replace('-', '');
+
+  const records = report.employees.flatMap(employee => employee.lines.map(line =>
+    period +
+    fitIdentifier('employee_number', employee.employeeNumber ?? String(employee.employeeId), widths.employee_number) +
+    fitIdentifier('rubric', line.rubric, widths.rubric) +
+    formatImpliedDecimals(line.quantity, widths.quantity) +
+    formatImpliedDecimals(line.amount ?? 0, widths.amount)
+  ));
+
+  return {
+    content: records.map(record => record + '\r\n').join(''),
+    contentType: 'text/plain; charset=utf-8',
+    extension: 'txt',
+  };
+}
+
+// Structure intermédiaire alimentant un générateur de DSN : les éléments sont
+// regroupés par individu selon les blocs Rémunération (S21.G00.51), Activité
+// (S21.G00.53) et Suspension (S21.G00.65), sans produire la norme elle-même
+export function formatPayrollDsn(report: PayrollReport): PayrollExportFile {
+  const structure = {
+    period: { month: report.month, start: report.startDate, end: report.endDate },
+    individuals: report.employees.map(employee => {
+      const hoursLines = employee.lines.filter(line => line.variable === 'regular_hours' || line.variable === 'adjustment_hours');
+      const overtimeLines = employee.lines.filter(line => line.variable.startsWith('overtime_tier_'));
+
+      return {
+        matricule: employee.employeeNumber ?? String(employee.employeeId),
+        nom: employee.lastName,
+        prenoms: employee.firstName,
+        remunerations: [
+          ...(hoursLines.length > 0 ? [{
+            block: 'S21.G00.51',
+            type: '002', // Salaire brut soumis à contributions d'assurance chômage
+            hours: round(sumBy(hoursLines, line => line.quantity)),
+            amount: sumAmounts(hoursLines),
+          }] : []),
+          ...(overtimeLines.length > 0 ? [{
+            block: 'S21.G00.51',
+            type: '017', // Heures supplémentaires ou complémentaires
+            hours: round(sumBy(overtimeLines, line => line.quantity)),
+            amount: sumAmounts(overtimeLines),
+          }] : []),
+        ],
+        activities: hoursLines.length + overtimeLines.length > 0 ? [{
+          block: 'S21.G00.53',
+          type: '01', // Travail rémunéré
+          quantity: round(sumBy([...hoursLines, ...overtimeLines], line => line.quantity)),
+          unit: '10', // Heure
+        }] : [],
+        suspensions: employee.lines
+          .filter(line => line.variable.startsWith('absence_'))
+          .map(line => ({ block: 'S21.G00.65', reason: line.variable, rubric: line.rubric, days: line.quantity })),
+        other_elements: employee.lines
+          .filter(line => ['compensatory_rest_hours', 'night_hours', 'sunday_hours', 'meal_vouchers'].includes(line.variable))
+          .map(line => ({ rubric: line.rubric, label: line.label, quantity: line.quantity, unit: line.unit })),
+      };
+    }),
+  };
+
+  return {
+    content: JSON.stringify(structure, null, 2),
+    contentType: 'application/json; charset=utf-8',
+    extension: 'json',
+  };
+}
+
+// ============================================================================
+// FONCTIONS UTILITAIRES
+// ============================================================================
+
+function toInterval(date: string, startTime: string, endTime: string): { start: number; end: number } {
+  const start = toUtc(date) + parseMinutes(startTime) * MINUTE_MS;
+  let end = toUtc(date) + parseMinutes(endTime) * MINUTE_MS;
+  if (end <= start) end += DAY_MS; // Poste de nuit
+  return { start, end };
+}
+
+// Fenêtres de nuit commençant la veille, le jour même et le lendemain
+function getNightOverlapMinutes(interval: { start: number; end: number }, window: { start: string; end: string }): number {
+  const nightStart = parseMinutes(window.start);
+  const nightLength = ((parseMinutes(window.end) - nightStart + 1440) % 1440 || 1440) * MINUTE_MS;
+  const day = Math.floor(interval.start / DAY_MS) * DAY_MS;
+
+  let overlap = 0;
+  for (const offset of [-1, 0, 1]) {
+    const windowStart = day + offset * DAY_MS + nightStart * MINUTE_MS;
+    overlap += Math.max(0, Math.min(interval.end, windowStart + nightLength) - Math.max(interval.start, windowStart));
+  }
+  return overlap / MINUTE_MS;
+}
+
+// Un poste de nuit peut commencer le samedi et se terminer le dimanche
+function getSundayOverlapMinutes(interval: { start: number; end: number }): number {
+  let overlap = 0;
+  for (let day = Math.floor(interval.start / DAY_MS) * DAY_MS; day < interval.end; day += DAY_MS) {
+    if (new Date(day).getUTCDay() !== 0) continue;
+    overlap += Math.max(0, Math.min(interval.end, day + DAY_MS) - Math.max(interval.start, day));
+  }
+  return overlap / MINUTE_MS;
+}
+
+// Un identifiant tronqué pourrait désigner un autre salarié ou une autre
+// rubrique dans le logiciel de paie : l'export échoue plutôt que de couper
+function fitIdentifier(field: PayrollIdentifierField, value: string, width: number): string {
+  if (value.length > width) throw new PayrollFieldTooLongError(field, value, width);
+  return value.padEnd(width, ' ');
+}
+
+function formatImpliedDecimals(value: number, width: number): string {
+  const digits = String(Math.round(Math.abs(value) * 100));
+  return value < 0 ? `-${digits.padStart(width - 1, '0')}` : digits.padStart(width, '0');
+}
+
+function sumBy<T>(items: T[], value: (item: T) => number): number {
+  return items.reduce((sum, item) => sum + value(item), 0);
+}
+
+function sumAmounts(lines: PayrollLine[]): number | null {
+  return lines.some(line => line.amount === null) ? null : round(sumBy(lines, line => line.amount!));
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function getNextMonth(month: string): string {
+  const [year, monthNum] = month.split('-').map(Number);
+  return monthNum === 12 ? `${year + 1}-01` : `${year}-${String(monthNum + 1).padStart(2, '0')}`;
+}
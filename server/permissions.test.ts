@@ -0,0 +1,83 @@
+import { getPermissionEmployeeIds, getScopedEmployeeIds, getTeamEmployeeIds, type HierarchyEmployee } from './permissions';
+import { getPermissionScope, hasPermission, USER_ROLES } from '@shared/permissions';
+
+// 1 dirige 2 et 3, 3 dirige 4 ; 5 est dans le département de 2 sans lien hiérarchique
+const employees: HierarchyEmployee[] = [
+  { id: 1, manager_id: null, department_id: 10 },
+  { id: 2, manager_id: 1, department_id: 10 },
+  { id: 3, manager_id: 1, department_id: 20 },
+  { id: 4, manager_id: 3, department_id: 20 },
+  { id: 5, manager_id: null, department_id: 10 },
+  { id: 6, manager_id: null, department_id: null },
+];
+
+describe('Permissions', () => {
+  describe('getTeamEmployeeIds', () => {
+    it('should include the manager and every level below them', () => {
+      expect(getTeamEmployeeIds(employees, 1)).toEqual([1, 2, 3, 4]);
+      expect(getTeamEmployeeIds(employees, 3)).toEqual([3, 4]);
+      expect(getTeamEmployeeIds(employees, 4)).toEqual([4]);
+    });
+
+    it('should stop on a manager_id cycle', () => {
+      const cyclic = [
+        { id: 1, manager_id: 2, department_id: null },
+        { id: 2, manager_id: 1, department_id: null },
+      ];
+
+      expect(getTeamEmployeeIds(cyclic, 1)).toEqual([1, 2]);
+    });
+  });
+
+  describe('getScopedEmployeeIds', () => {
+    it('should resolve each scope from the user employee record', () => {
+      expect(getScopedEmployeeIds('all', employees[0], employees)).toBeNull();
+      expect(getScopedEmployeeIds('self', employees[2], employees)).toEqual([3]);
+      expect(getScopedEmployeeIds('team', employees[2], employees)).toEqual([3, 4]);
+    });
+
+    it('should add the whole department to the team', () => {
+      expect(getScopedEmployeeIds('department', employees[1], employees)).toEqual([1, 2, 5]);
+      expect(getScopedEmployeeIds('department', employees[2], employees)).toEqual([3, 4]);
+      expect(getScopedEmployeeIds('department', employees[5], employees)).toEqual([6]);
+    });
+
+    it('should grant nothing without a scope or an employee record', () => {
+      expect(getScopedEmployeeIds(undefined, employees[0], employees)).toEqual([]);
+      expect(getScopedEmployeeIds('team', undefined, employees)).toEqual([]);
+    });
+  });
+
+  describe('getPermissionEmployeeIds', () => {
+    it('should never let a manager approve their own records', () => {
+      expect(getPermissionEmployeeIds('validations:decide', 'team', employees[2], employees)).toEqual([4]);
+      expect(getPermissionEmployeeIds('leave:approve', 'team', employees[0], employees)).toEqual([2, 3, 4]);
+    });
+
+    it('should keep the user in the scope of other permissions', () => {
+      expect(getPermissionEmployeeIds('time_entries:write', 'team', employees[2], employees)).toEqual([3, 4]);
+      expect(getPermissionEmployeeIds('validations:decide', 'all', employees[2], employees)).toBeNull();
+    });
+  });
+
+  describe('hasPermission', () => {
+    it('should compare the role scope with the required one', () => {
+      expect(hasPermission('manager', 'planning:write', 'team')).toBe(true);
+      expect(hasPermission('manager', 'planning:write', 'all')).toBe(false);
+      expect(hasPermission('employee', 'time_entries:write')).toBe(true);
+      expect(hasPermission('employee', 'validations:decide')).toBe(false);
+    });
+
+    it('should keep auditors read-only and the settings to administrators', () => {
+      expect(hasPermission('auditor', 'audit:read', 'all')).toBe(true);
+      expect(hasPermission('auditor', 'employees:write')).toBe(false);
+      expect(hasPermission('auditor', 'validations:decide')).toBe(false);
+      expect(USER_ROLES.filter(role => hasPermission(role, 'settings:manage'))).toEqual(['admin']);
+    });
+
+    it('should grant nothing to unknown roles', () => {
+      expect(getPermissionScope('intern', 'employees:read')).toBeUndefined();
+      expect(hasPermission('intern', 'employees:read')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,81 @@
+import { type Permission, type PermissionScope } from '@shared/permissions';
+
+// ============================================================================
+// PORTÉE DES PERMISSIONS
+// ============================================================================
+
+export interface HierarchyEmployee {
+  id: number;
+  manager_id: number | null;
+  department_id: number | null;
+}
+
+// Le responsable et tous les employés placés sous lui, à tous les niveaux ;
+// un cycle dans manager_id ne fait pas boucler le parcours
+export function getTeamEmployeeIds(employees: HierarchyEmployee[], managerId: number): number[] {
+  const reports = new Map<number, number[]>();
+  for (const employee of employees) {
+    if (employee.manager_id === null) continue;
+    if (!reports.has(employee.manager_id)) {
+      reports.set(employee.manager_id, []);
+    }
+    reports.get(employee.manager_id)!.push(employee.id);
+  }
+
+  const team = new Set([managerId]);
+  const queue = [managerId];
+  while (queue.length > 0) {
+    for (const reportId of reports.get(queue.shift()!) ?? []) {
+      if (team.has(reportId)) continue;
+      team.add(reportId);
+      queue.push(reportId);
+    }
+  }
+
+  return Array.from(team).sort((a, b) => a - b);
+}
+
+// Employés couverts par une portée, null lorsqu'elle couvre tout le monde.
+// Sans fiche employé, l'utilisateur n'a de droits qu'avec la portée « all ».
+export function getScopedEmployeeIds(
+  scope: PermissionScope | undefined,
+  self: HierarchyEmployee | undefined,
+  employees: HierarchyEmployee[]
+): number[] | null {
+  if (scope === 'all') return null;
+  if (!scope || !self) return [];
+
+  switch (scope) {
+    case 'self':
+      return [self.id];
+    case 'team':
+      return getTeamEmployeeIds(employees, self.id);
+    case 'department': {
+      const ids = new Set(getTeamEmployeeIds(employees, self.id));
+      if (self.department_id !== null) {
+        employees
+          .filter(employee => employee.department_id === self.department_id)
+          .forEach(employee => ids.add(employee.id));
+      }
+      return Array.from(ids).sort((a, b) => a - b);
+    }
+  }
+}
+
+// Permissions qui décident sur le travail d'autrui
+const APPROVAL_PERMISSIONS: Permission[] = ['validations:decide', 'leave:approve'];
+
+// Employés couverts par une permission : comme getScopedEmployeeIds, mais un
+// responsable ne valide jamais ses propres semaines ni ses propres congés, même
+// s'il fait partie de sa propre équipe. La portée « all » reste le dernier recours
+// des demandes sans autre valideur.
+export function getPermissionEmployeeIds(
+  permission: Permission,
+  scope: PermissionScope | undefined,
+  self: HierarchyEmployee | undefined,
+  employees: HierarchyEmployee[]
+): number[] | null {
+  const employeeIds = getScopedEmployeeIds(scope, self, employees);
+  if (employeeIds === null || !APPROVAL_PERMISSIONS.includes(permission)) return employeeIds;
+  return employeeIds.filter(employeeId => employeeId !== self?.id);
+}
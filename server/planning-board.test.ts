@@ -0,0 +1,187 @@
+import {
+  PlanningBoard,
+  PLANNING_BOARD_ALL_ROOM,
+  PLANNING_BOARD_ROOM,
+  planningBoardDepartmentRoom,
+  planningBoardTeamRoom,
+  toBoardEntry,
+  toBoardViewers,
+} from './planningBoard';
+import { storage } from './storage';
+
+jest.mock('./db', () => ({ db: {} }));
+jest.mock('./storage', () => ({
+  storage: {
+    getEmployee: jest.fn(),
+    getEmployeeByUserId: jest.fn(),
+    getUser: jest.fn(),
+  },
+}));
+
+const mockedStorage = storage as jest.Mocked<typeof storage>;
+
+// Records the emitted events and serves the sockets of the board room
+function createFakeIo(boardSockets: Array<{ data: any }> = []) {
+  const emitted: Array<{ rooms: string[]; event: string; payload: any }> = [];
+  return {
+    emitted,
+    to: (rooms: string[]) => ({
+      emit: (event: string, payload: any) => { emitted.push({ rooms, event, payload }); },
+    }),
+    in: () => ({ fetchSockets: async () => boardSockets }),
+  };
+}
+
+function createFakeSocket() {
+  const handlers = new Map<string, (...args: any[]) => any>();
+  return {
+    handlers,
+    data: {} as any,
+    on: (event: string, handler: (...args: any[]) => any) => { handlers.set(event, handler); },
+    join: jest.fn(),
+    leave: jest.fn(),
+  };
+}
+
+describe('Planning Board', () => {
+  const entry = {
+    id: 12,
+    employee_id: 3,
+    date: '2024-03-06',
+    type: 'work' as const,
+    start_time: '08:30:00',
+    end_time: '12:00:00',
+    status: 'draft' as const,
+    validated_by: null,
+    validated_at: null,
+    comments: null,
+    rejection_reason: null,
+    version: 4,
+    created_at: new Date('2024-03-01T08:00:00Z'),
+    updated_at: new Date('2024-03-05T09:15:00Z'),
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should send entries in the shape of the planning lists', () => {
+    expect(toBoardEntry(entry, { first_name: 'Marie', last_name: 'Dupont' })).toEqual({
+      id: 12,
+      employeeId: 3,
+      date: '2024-03-06',
+      type: 'work',
+      startTime: '08:30',
+      endTime: '12:00',
+      status: 'draft',
+      comments: null,
+      version: 4,
+      plannedHours: 3.5,
+      updatedAt: '2024-03-05T09:15:00.000Z',
+      employeeFirstName: 'Marie',
+      employeeLastName: 'Dupont',
+      employee: { firstName: 'Marie', lastName: 'Dupont' },
+    });
+    expect(toBoardEntry({ ...entry, type: 'vacation', start_time: null, end_time: null }).plannedHours).toBe(0);
+  });
+
+  it('should list each admin once per week and keep the entry being edited', () => {
+    const viewers = toBoardViewers([
+      { data: { planning: { userId: 2, name: 'Paul Martin', weekStart: '2024-03-04', editingEntryId: null } } },
+      { data: { planning: { userId: 2, name: 'Paul Martin', weekStart: '2024-03-04', editingEntryId: 12 } } },
+      { data: { planning: { userId: 1, name: 'Alice Bernard', weekStart: '2024-03-04', editingEntryId: null } } },
+      { data: { planning: { userId: 1, name: 'Alice Bernard', weekStart: '2024-02-26', editingEntryId: null } } },
+      { data: {} },
+    ]);
+
+    expect(viewers).toEqual([
+      { userId: 1, name: 'Alice Bernard', weekStart: '2024-02-26', editingEntryId: null },
+      { userId: 1, name: 'Alice Bernard', weekStart: '2024-03-04', editingEntryId: null },
+      { userId: 2, name: 'Paul Martin', weekStart: '2024-03-04', editingEntryId: 12 },
+    ]);
+  });
+
+  it('should send changes to the viewers covering the employee and to the employee concerned', async () => {
+    // 3 est dans l'équipe de 5, elle-même dans celle de 1
+    const hierarchy: Record<number, object> = {
+      3: { id: 3, user_id: 7, manager_id: 5, department_id: 10, first_name: 'Marie', last_name: 'Dupont' },
+      5: { id: 5, user_id: 8, manager_id: 1, department_id: 10 },
+      1: { id: 1, user_id: 2, manager_id: null, department_id: null },
+    };
+    mockedStorage.getEmployee.mockImplementation(async (id) => hierarchy[id] as never);
+    const io = createFakeIo();
+
+    await new PlanningBoard(io as never).publish({
+      created: [entry],
+      deleted: [{ id: 9, employee_id: 3, date: '2024-03-10' }],
+    }, 2);
+
+    const rooms = [
+      PLANNING_BOARD_ALL_ROOM,
+      'user_7',
+      planningBoardDepartmentRoom(10),
+      planningBoardTeamRoom(3),
+      planningBoardTeamRoom(5),
+      planningBoardTeamRoom(1),
+    ];
+    expect(io.emitted).toEqual([
+      {
+        rooms,
+        event: 'planning:entry_created',
+        payload: { entry: toBoardEntry(entry, { first_name: 'Marie', last_name: 'Dupont' }), weekStart: '2024-03-04', actorUserId: 2 },
+      },
+      {
+        rooms,
+        event: 'planning:entry_deleted',
+        payload: { entryId: 9, employeeId: 3, date: '2024-03-10', weekStart: '2024-03-04', actorUserId: 2 },
+      },
+    ]);
+    expect(mockedStorage.getEmployee).toHaveBeenCalledTimes(3);
+  });
+
+  it('should put admins on the board for the week of the given day', async () => {
+    mockedStorage.getEmployeeByUserId.mockResolvedValue({ first_name: 'Paul', last_name: 'Martin' } as never);
+    const socket = createFakeSocket();
+    const io = createFakeIo([socket]);
+    new PlanningBoard(io as never).registerSocket(socket as never, 2, 'admin');
+
+    await socket.handlers.get('planning:join_week')!('2024-03-07');
+    await socket.handlers.get('planning:editing')!(12);
+
+    expect(socket.join).toHaveBeenCalledWith([PLANNING_BOARD_ROOM, PLANNING_BOARD_ALL_ROOM]);
+    expect(io.emitted.at(-1)).toEqual({
+      rooms: [PLANNING_BOARD_ROOM],
+      event: 'planning:presence',
+      payload: { viewers: [{ userId: 2, name: 'Paul Martin', weekStart: '2024-03-04', editingEntryId: 12 }] },
+    });
+  });
+
+  it('should only put managers in the rooms of their scope', async () => {
+    mockedStorage.getEmployeeByUserId.mockResolvedValue({ id: 5, department_id: 10, first_name: 'Paul', last_name: 'Martin' } as never);
+    const managerSocket = createFakeSocket();
+    const employeeLessSocket = createFakeSocket();
+    const board = new PlanningBoard(createFakeIo() as never);
+
+    board.registerSocket(managerSocket as never, 8, 'manager');
+    await managerSocket.handlers.get('planning:join_week')!('2024-03-07');
+    expect(managerSocket.join).toHaveBeenCalledWith([PLANNING_BOARD_ROOM, planningBoardTeamRoom(5), planningBoardDepartmentRoom(10)]);
+
+    mockedStorage.getEmployeeByUserId.mockResolvedValue(undefined as never);
+    board.registerSocket(employeeLessSocket as never, 9, 'manager');
+    await employeeLessSocket.handlers.get('planning:join_week')!('2024-03-07');
+    expect(employeeLessSocket.join).toHaveBeenCalledWith([PLANNING_BOARD_ROOM]);
+  });
+
+  it('should ignore board events from employees and malformed weeks', async () => {
+    const employeeSocket = createFakeSocket();
+    const adminSocket = createFakeSocket();
+    const board = new PlanningBoard(createFakeIo() as never);
+
+    board.registerSocket(employeeSocket as never, 7, 'employee');
+    board.registerSocket(adminSocket as never, 2, 'admin');
+    await adminSocket.handlers.get('planning:join_week')!('next week');
+
+    expect(employeeSocket.handlers.size).toBe(0);
+    expect(adminSocket.join).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,124 @@
+import {
+  DEFAULT_WEEKLY_PATTERN,
+  getCycleWeekIndex,
+  getTemplateShiftsForDate,
+  expandPlanningTemplate,
+  selectTemplateAssignment,
+  type TemplateShiftPattern,
+  type TemplateAssignmentWindow,
+} from './businessLogic';
+
+jest.mock('./db', () => ({ db: {} }));
+
+// Rotation 2x8 sur deux semaines : matin puis après-midi
+const rotation: TemplateShiftPattern[] = [1, 2, 3, 4, 5].flatMap(day => [
+  { week_index: 0, day_of_week: day, start_time: '06:00', end_time: '14:00', type: 'work' as const },
+  { week_index: 1, day_of_week: day, start_time: '14:00', end_time: '22:00', type: 'work' as const },
+]);
+
+describe('Planning Templates', () => {
+  describe('getCycleWeekIndex', () => {
+    it('should count weeks from the Monday of the anchor week', () => {
+      // 2024-03-13 est un mercredi
+      expect(getCycleWeekIndex('2024-03-11', '2024-03-13', 2)).toBe(0);
+      expect(getCycleWeekIndex('2024-03-17', '2024-03-13', 2)).toBe(0);
+      expect(getCycleWeekIndex('2024-03-18', '2024-03-13', 2)).toBe(1);
+      expect(getCycleWeekIndex('2024-03-25', '2024-03-13', 2)).toBe(0);
+    });
+
+    it('should handle dates before the anchor and cycle offsets', () => {
+      expect(getCycleWeekIndex('2024-03-04', '2024-03-11', 3)).toBe(2);
+      expect(getCycleWeekIndex('2024-03-11', '2024-03-11', 3, 1)).toBe(1);
+    });
+  });
+
+  describe('getTemplateShiftsForDate', () => {
+    it('should return every shift of a split day in chronological order', () => {
+      const splitShift: TemplateShiftPattern[] = [
+        { week_index: 0, day_of_week: 1, start_time: '18:00', end_time: '22:00', type: 'work', label: 'Soir' },
+        { week_index: 0, day_of_week: 1, start_time: '11:00:00', end_time: '14:30:00', type: 'work', label: 'Midi' },
+      ];
+
+      expect(getTemplateShiftsForDate(splitShift, 1, '2024-03-11', '2024-03-11')).toEqual([
+        { date: '2024-03-11', start_time: '11:00', end_time: '14:30', type: 'work', label: 'Midi' },
+        { date: '2024-03-11', start_time: '18:00', end_time: '22:00', type: 'work', label: 'Soir' },
+      ]);
+    });
+
+    it('should return nothing on days off', () => {
+      expect(getTemplateShiftsForDate(DEFAULT_WEEKLY_PATTERN, 1, '2024-03-16', '2024-03-11')).toEqual([]);
+    });
+  });
+
+  describe('expandPlanningTemplate', () => {
+    it('should alternate the rotation from one week to the next', () => {
+      const shifts = expandPlanningTemplate(rotation, 2, {
+        startDate: '2024-03-15',
+        endDate: '2024-03-18',
+        anchorDate: '2024-03-11',
+      });
+
+      expect(shifts.map(shift => [shift.date, shift.start_time])).toEqual([
+        ['2024-03-15', '06:00'],
+        ['2024-03-18', '14:00'],
+      ]);
+    });
+
+    it('should stagger teams with a cycle offset', () => {
+      const [shift] = expandPlanningTemplate(rotation, 2, {
+        startDate: '2024-03-11',
+        endDate: '2024-03-11',
+        anchorDate: '2024-03-11',
+        cycleOffset: 1,
+      });
+
+      expect(shift.start_time).toBe('14:00');
+    });
+
+    it('should expand a 4x10 week', () => {
+      const fourTens: TemplateShiftPattern[] = [1, 2, 3, 4].map(day => ({
+        week_index: 0, day_of_week: day, start_time: '07:00', end_time: '17:30', type: 'work' as const,
+      }));
+
+      const shifts = expandPlanningTemplate(fourTens, 1, { startDate: '2024-03-11', endDate: '2024-03-24' });
+      expect(shifts).toHaveLength(8);
+      expect(shifts.some(shift => shift.date === '2024-03-15')).toBe(false);
+    });
+  });
+
+  describe('selectTemplateAssignment', () => {
+    const employee = { id: 4, department_id: 2 };
+    const assignment = (overrides: Partial<TemplateAssignmentWindow>): TemplateAssignmentWindow => ({
+      template_id: 1,
+      employee_id: null,
+      department_id: 2,
+      start_date: '2024-01-01',
+      end_date: null,
+      cycle_offset: 0,
+      ...overrides,
+    });
+
+    it('should prefer the employee assignment over the department one', () => {
+      const assignments = [assignment({ template_id: 1 }), assignment({ template_id: 2, employee_id: 4, department_id: null })];
+
+      expect(selectTemplateAssignment(assignments, employee, '2024-03-11')?.template_id).toBe(2);
+    });
+
+    it('should use the most recent assignment in force at the date', () => {
+      const assignments = [
+        assignment({ template_id: 1 }),
+        assignment({ template_id: 3, start_date: '2024-03-18' }),
+        assignment({ template_id: 5, department_id: 9 }),
+      ];
+
+      expect(selectTemplateAssignment(assignments, employee, '2024-03-11')?.template_id).toBe(1);
+      expect(selectTemplateAssignment(assignments, employee, '2024-03-18')?.template_id).toBe(3);
+    });
+
+    it('should ignore expired assignments', () => {
+      const assignments = [assignment({ end_date: '2024-02-29' })];
+
+      expect(selectTemplateAssignment(assignments, employee, '2024-03-11')).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,227 @@
+import type { Server as SocketIOServer, Socket } from 'socket.io';
+import { storage } from './storage';
+import { calculateHoursBetween, getWeekBounds } from './businessLogic';
+import {
+  type Employee,
+  type PlanningBoardEntry,
+  type PlanningBoardServerEvents,
+  type PlanningBoardViewer,
+  type PlanningEntry,
+} from '@shared/schema';
+import { getPermissionScope, type PermissionScope } from '@shared/permissions';
+
+// Board sockets share this room. Presence is read back from the
+// sockets of the room, across instances once the Redis adapter is attached, so
+// the viewers of a crashed instance disappear with its sockets.
+export const PLANNING_BOARD_ROOM = 'planning_board';
+
+// Entry changes go to the rooms matching the viewer's planning:read scope: the
+// whole company, a department, or the team below a manager (whose own planning
+// is part of their team)
+export const PLANNING_BOARD_ALL_ROOM = 'planning_board:all';
+export const planningBoardDepartmentRoom = (departmentId: number) => `planning_board:department_${departmentId}`;
+export const planningBoardTeamRoom = (managerId: number) => `planning_board:team_${managerId}`;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export interface PlanningBoardPresence {
+  userId: number;
+  name: string;
+  weekStart: string;
+  editingEntryId: number | null;
+}
+
+export interface PlanningBoardChanges {
+  created?: PlanningEntry[];
+  updated?: PlanningEntry[];
+  deleted?: Array<Pick<PlanningEntry, 'id' | 'employee_id' | 'date'>>;
+}
+
+export function toBoardEntry(entry: PlanningEntry, employee?: Pick<Employee, 'first_name' | 'last_name'>): PlanningBoardEntry {
+  const startTime = entry.start_time?.slice(0, 5) ?? null;
+  const endTime = entry.end_time?.slice(0, 5) ?? null;
+
+  return {
+    id: entry.id,
+    employeeId: entry.employee_id,
+    date: entry.date,
+    type: entry.type,
+    startTime,
+    endTime,
+    status: entry.status,
+    comments: entry.comments,
+    version: entry.version,
+    plannedHours: startTime && endTime ? Math.max(0, calculateHoursBetween(startTime, endTime)) : 0,
+    updatedAt: new Date(entry.updated_at).toISOString(),
+    ...(employee && {
+      employeeFirstName: employee.first_name,
+      employeeLastName: employee.last_name,
+      employee: { firstName: employee.first_name, lastName: employee.last_name },
+    }),
+  };
+}
+
+// One viewer per admin and week, even with several tabs open on the same week
+export function toBoardViewers(sockets: Array<{ data: { planning?: PlanningBoardPresence } }>): PlanningBoardViewer[] {
+  const viewers = new Map<string, PlanningBoardViewer>();
+
+  for (const { data } of sockets) {
+    const presence = data.planning;
+    if (!presence) continue;
+
+    const key = `${presence.userId}:${presence.weekStart}`;
+    const viewer = viewers.get(key);
+    if (!viewer) {
+      viewers.set(key, { ...presence });
+    } else if (viewer.editingEntryId === null) {
+      viewer.editingEntryId = presence.editingEntryId;
+    }
+  }
+
+  return Array.from(viewers.values()).sort((a, b) => a.weekStart.localeCompare(b.weekStart) || a.name.localeCompare(b.name));
+}
+
+export class PlanningBoard {
+  constructor(private readonly io: SocketIOServer) {}
+
+  // Board events are handled for team, department and company-wide planning
+  // readers, who only receive the changes within their scope; employees just
+  // receive the changes to their own planning in their personal room
+  registerSocket(socket: Socket, userId: number, role?: string) {
+    const scope = role ? getPermissionScope(role, 'planning:read') : undefined;
+    if (!scope || scope === 'self') return;
+
+    socket.on('planning:join_week', async (weekStart: unknown) => {
+      if (typeof weekStart !== 'string' || !DATE_PATTERN.test(weekStart)) return;
+
+      // The scope rooms are resolved once per socket, like the display name
+      if (!socket.data.planningRooms) {
+        socket.data.planningRooms = await this.getScopeRooms(userId, scope);
+      }
+
+      const presence: PlanningBoardPresence = {
+        userId,
+        name: socket.data.planning?.name ?? await this.getDisplayName(userId),
+        weekStart: getWeekBounds(weekStart).weekStart,
+        editingEntryId: null,
+      };
+      socket.data.planning = presence;
+      await socket.join([PLANNING_BOARD_ROOM, ...socket.data.planningRooms]);
+      await this.broadcastPresence();
+    });
+
+    socket.on('planning:leave_week', async () => {
+      if (!socket.data.planning) return;
+
+      delete socket.data.planning;
+      for (const room of [PLANNING_BOARD_ROOM, ...socket.data.planningRooms]) {
+        await socket.leave(room);
+      }
+      await this.broadcastPresence();
+    });
+
+    socket.on('planning:editing', async (entryId: unknown) => {
+      if (!socket.data.planning) return;
+
+      socket.data.planning.editingEntryId = typeof entryId === 'number' ? entryId : null;
+      await this.broadcastPresence();
+    });
+
+    // The socket has already left its rooms when 'disconnect' fires
+    socket.on('disconnect', () => {
+      if (socket.data.planning) {
+        void this.broadcastPresence();
+      }
+    });
+  }
+
+  // Sends each change to the board viewers whose scope covers the employee and
+  // to the employee concerned
+  async publish(changes: PlanningBoardChanges, actorUserId: number | null = null): Promise<void> {
+    try {
+      const employees = new Map<number, Employee | undefined>();
+      const getEmployee = async (employeeId: number) => {
+        if (!employees.has(employeeId)) {
+          employees.set(employeeId, await storage.getEmployee(employeeId));
+        }
+        return employees.get(employeeId);
+      };
+      const roomsFor = async (employee?: Employee) => {
+        const rooms = [PLANNING_BOARD_ALL_ROOM];
+        if (!employee) return rooms;
+
+        if (employee.user_id) rooms.push(`user_${employee.user_id}`);
+        if (employee.department_id !== null) rooms.push(planningBoardDepartmentRoom(employee.department_id));
+
+        // The employee and every manager above them, stopping on a manager_id cycle
+        const seen = new Set<number>();
+        let current: Employee | undefined = employee;
+        while (current && !seen.has(current.id)) {
+          seen.add(current.id);
+          rooms.push(planningBoardTeamRoom(current.id));
+          current = current.manager_id ? await getEmployee(current.manager_id) : undefined;
+        }
+        return rooms;
+      };
+
+      for (const [event, entries] of [
+        ['planning:entry_created', changes.created ?? []],
+        ['planning:entry_updated', changes.updated ?? []],
+      ] as const) {
+        for (const entry of entries) {
+          const employee = await getEmployee(entry.employee_id);
+          this.emit(await roomsFor(employee), event, {
+            entry: toBoardEntry(entry, employee),
+            weekStart: getWeekBounds(entry.date).weekStart,
+            actorUserId,
+          });
+        }
+      }
+
+      for (const entry of changes.deleted ?? []) {
+        this.emit(await roomsFor(await getEmployee(entry.employee_id)), 'planning:entry_deleted', {
+          entryId: entry.id,
+          employeeId: entry.employee_id,
+          date: entry.date,
+          weekStart: getWeekBounds(entry.date).weekStart,
+          actorUserId,
+        });
+      }
+    } catch (error) {
+      console.error('Error publishing planning changes:', error);
+    }
+  }
+
+  private async broadcastPresence() {
+    try {
+      const sockets = await this.io.in(PLANNING_BOARD_ROOM).fetchSockets();
+      this.emit([PLANNING_BOARD_ROOM], 'planning:presence', { viewers: toBoardViewers(sockets) });
+    } catch (error) {
+      console.error('Error broadcasting planning presence:', error);
+    }
+  }
+
+  // Same coverage as getScopedEmployeeIds: nothing without an employee record
+  private async getScopeRooms(userId: number, scope: PermissionScope): Promise<string[]> {
+    if (scope === 'all') return [PLANNING_BOARD_ALL_ROOM];
+
+    const employee = await storage.getEmployeeByUserId(userId);
+    if (!employee) return [];
+
+    return scope === 'department' && employee.department_id !== null
+      ? [planningBoardTeamRoom(employee.id), planningBoardDepartmentRoom(employee.department_id)]
+      : [planningBoardTeamRoom(employee.id)];
+  }
+
+  private async getDisplayName(userId: number): Promise<string> {
+    const employee = await storage.getEmployeeByUserId(userId);
+    if (employee) return `${employee.first_name} ${employee.last_name}`;
+
+    const user = await storage.getUser(userId);
+    return user?.username ?? `Utilisateur ${userId}`;
+  }
+
+  private emit<E extends keyof PlanningBoardServerEvents>(rooms: string[], event: E, ...args: Parameters<PlanningBoardServerEvents[E]>) {
+    this.io.to(rooms).emit(event, ...args);
+  }
+}
@@ -0,0 +1,121 @@
+import { redis } from './redis';
+
+// A socket entry expires unless its instance refreshes it, so the sockets of a
+// crashed instance disappear on their own
+const PRESENCE_TTL_MS = 90 * 1000;
+const HEARTBEAT_INTERVAL_MS = 30 * 1000;
+
+const USERS_KEY = 'presence:users';
+const userKey = (userId: number) => `presence:user:${userId}`;
+
+// Removes the socket and, once the user has no live socket left anywhere,
+// the user; in one step so a connection on another instance is not lost
+const REMOVE_SOCKET_SCRIPT = `
+redis.call('zrem', KEYS[1], ARGV[1])
+redis.call('zremrangebyscore', KEYS[1], '-inf', ARGV[2])
+if redis.call('zcard', KEYS[1]) == 0 then
+  redis.call('zrem', KEYS[2], ARGV[3])
+end
+return 0`;
+
+// Cluster-wide presence of the notification sockets. Each user has a sorted
+// set of socket ids scored by expiry, and presence:users holds the users with
+// at least one live socket. Without Redis, presence is local to this instance.
+export class PresenceRegistry {
+  private localSockets = new Map<number, Set<string>>(); // userId -> Set of socketIds
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(private readonly client = redis) {}
+
+  start() {
+    if (this.timer) return;
+    this.timer = setInterval(() => void this.refresh(), HEARTBEAT_INTERVAL_MS);
+    this.timer.unref();
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  async add(userId: number, socketId: string): Promise<void> {
+    if (!this.localSockets.has(userId)) {
+      this.localSockets.set(userId, new Set());
+    }
+    this.localSockets.get(userId)!.add(socketId);
+
+    const expiresAt = Date.now() + PRESENCE_TTL_MS;
+    try {
+      await this.client
+        .multi()
+        .zadd(userKey(userId), expiresAt, socketId)
+        .pexpire(userKey(userId), PRESENCE_TTL_MS)
+        .zadd(USERS_KEY, expiresAt, String(userId))
+        .exec();
+    } catch (error) {
+      this.warn('register socket', error);
+    }
+  }
+
+  async remove(userId: number, socketId: string): Promise<void> {
+    const userSockets = this.localSockets.get(userId);
+    if (userSockets) {
+      userSockets.delete(socketId);
+      if (userSockets.size === 0) {
+        this.localSockets.delete(userId);
+      }
+    }
+
+    try {
+      await this.client.eval(REMOVE_SOCKET_SCRIPT, 2, userKey(userId), USERS_KEY, socketId, Date.now(), String(userId));
+    } catch (error) {
+      this.warn('unregister socket', error);
+    }
+  }
+
+  async isOnline(userId: number): Promise<boolean> {
+    if (this.localSockets.has(userId)) return true;
+
+    try {
+      return await this.client.zcount(userKey(userId), Date.now(), '+inf') > 0;
+    } catch (error) {
+      this.warn('read presence', error);
+      return false;
+    }
+  }
+
+  async countOnlineUsers(): Promise<number> {
+    try {
+      return await this.client.zcount(USERS_KEY, Date.now(), '+inf');
+    } catch (error) {
+      this.warn('read presence', error);
+      return this.localSockets.size;
+    }
+  }
+
+  // Pushes back the expiry of this instance's sockets and drops expired users
+  async refresh(): Promise<void> {
+    const now = Date.now();
+    const expiresAt = now + PRESENCE_TTL_MS;
+    const pipeline = this.client.pipeline().zremrangebyscore(USERS_KEY, '-inf', now);
+
+    for (const [userId, socketIds] of Array.from(this.localSockets)) {
+      for (const socketId of Array.from(socketIds)) {
+        pipeline.zadd(userKey(userId), expiresAt, socketId);
+      }
+      pipeline.pexpire(userKey(userId), PRESENCE_TTL_MS).zadd(USERS_KEY, expiresAt, String(userId));
+    }
+
+    try {
+      await pipeline.exec();
+    } catch (error) {
+      this.warn('refresh presence', error);
+    }
+  }
+
+  private warn(action: string, error: unknown) {
+    console.warn(`Redis unavailable, could not ${action}:`, error instanceof Error ? error.message : error);
+  }
+}
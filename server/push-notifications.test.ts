@@ -0,0 +1,128 @@
+import webpush from 'web-push';
+import { PushService, buildPushPayload, getPushUrgency, isExpiredSubscription } from './pushService';
+import { storage } from './storage';
+
+jest.mock('./db', () => ({ db: {} }));
+jest.mock('web-push', () => ({
+  __esModule: true,
+  default: { setVapidDetails: jest.fn(), sendNotification: jest.fn() },
+}));
+jest.mock('../shared/env', () => ({
+  env: {
+    NOTIFICATION_PUSH_ENABLED: true,
+    VAPID_PUBLIC_KEY: 'public-key',
+    VAPID_PRIVATE_KEY: 'private-key',
+    VAPID_SUBJECT: 'mailto:admin@clockpilot.fr',
+  },
+}));
+jest.mock('./storage', () => ({
+  storage: {
+    getPushSubscriptions: jest.fn(),
+    deletePushSubscription: jest.fn(),
+    markPushSubscriptionUsed: jest.fn(),
+  },
+}));
+
+const mockedWebpush = webpush as jest.Mocked<typeof webpush>;
+const mockedStorage = storage as jest.Mocked<typeof storage>;
+
+describe('Push Notifications', () => {
+  const notification = {
+    id: 42,
+    type: 'validation_required' as const,
+    title: 'Validation requise',
+    message: 'Marie Dupont a soumis ses heures pour validation (semaine du 2024-03-04).',
+    action_url: '/validation?employee=3&week=2024-03-04',
+    priority: 'high' as const,
+  };
+
+  describe('buildPushPayload', () => {
+    it('should deep-link to the action URL of the notification', () => {
+      expect(buildPushPayload(notification)).toEqual({
+        title: 'Validation requise',
+        body: notification.message,
+        url: '/validation?employee=3&week=2024-03-04',
+        tag: 'notification-42',
+        notificationId: 42,
+        requireInteraction: false,
+      });
+    });
+
+    it('should fall back to the notifications page and truncate long messages', () => {
+      const payload = buildPushPayload({ ...notification, id: undefined, action_url: null, message: 'x'.repeat(1500) });
+
+      expect(payload.url).toBe('/notifications');
+      expect(payload.tag).toBe('validation_required');
+      expect(payload.body).toHaveLength(1000);
+    });
+
+    it('should keep urgent notifications on screen', () => {
+      expect(buildPushPayload({ ...notification, priority: 'urgent' }).requireInteraction).toBe(true);
+    });
+  });
+
+  it('should map priorities to push urgencies', () => {
+    expect(getPushUrgency('urgent')).toBe('high');
+    expect(getPushUrgency('high')).toBe('high');
+    expect(getPushUrgency('medium')).toBe('normal');
+    expect(getPushUrgency('low')).toBe('low');
+  });
+
+  it('should treat 404 and 410 as expired subscriptions', () => {
+    expect(isExpiredSubscription({ statusCode: 410 })).toBe(true);
+    expect(isExpiredSubscription({ statusCode: 404 })).toBe(true);
+    expect(isExpiredSubscription({ statusCode: 429 })).toBe(false);
+    expect(isExpiredSubscription(new Error('ECONNRESET'))).toBe(false);
+  });
+
+  describe('sendToUser', () => {
+    const subscriptions = [
+      { id: 1, user_id: 7, endpoint: 'https://push.example.com/phone', p256dh: 'key-1', auth: 'auth-1' },
+      { id: 2, user_id: 7, endpoint: 'https://push.example.com/laptop', p256dh: 'key-2', auth: 'auth-2' },
+    ];
+
+    beforeEach(() => {
+      jest.clearAllMocks();
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+      mockedStorage.getPushSubscriptions.mockResolvedValue(subscriptions as never);
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should configure the VAPID details', () => {
+      const service = new PushService();
+
+      expect(service.isEnabled()).toBe(true);
+      expect(service.getPublicKey()).toBe('public-key');
+      expect(mockedWebpush.setVapidDetails).toHaveBeenCalledWith('mailto:admin@clockpilot.fr', 'public-key', 'private-key');
+    });
+
+    it('should send the payload to every device of the user', async () => {
+      mockedWebpush.sendNotification.mockResolvedValue({ statusCode: 201 } as never);
+
+      const sent = await new PushService().sendToUser(7, notification);
+
+      expect(sent).toBe(2);
+      expect(mockedWebpush.sendNotification).toHaveBeenCalledWith(
+        { endpoint: 'https://push.example.com/phone', keys: { p256dh: 'key-1', auth: 'auth-1' } },
+        JSON.stringify(buildPushPayload(notification)),
+        { TTL: 86400, urgency: 'high' }
+      );
+      expect(mockedStorage.markPushSubscriptionUsed).toHaveBeenCalledTimes(2);
+    });
+
+    it('should remove expired subscriptions and keep going after failures', async () => {
+      mockedWebpush.sendNotification
+        .mockRejectedValueOnce(Object.assign(new Error('Gone'), { statusCode: 410 }))
+        .mockRejectedValueOnce(Object.assign(new Error('Too many requests'), { statusCode: 429 }));
+
+      const sent = await new PushService().sendToUser(7, notification);
+
+      expect(sent).toBe(0);
+      expect(mockedStorage.deletePushSubscription).toHaveBeenCalledTimes(1);
+      expect(mockedStorage.deletePushSubscription).toHaveBeenCalledWith('https://push.example.com/phone');
+    });
+  });
+});
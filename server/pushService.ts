@@ -0,0 +1,122 @@
+import webpush, { type Urgency } from 'web-push';
+import { storage } from './storage';
+import { env } from '../shared/env';
+import { type Notification, type NotificationPriority } from '@shared/schema';
+
+// Push services keep an undelivered message this long while the device is offline
+const PUSH_TTL_SECONDS = 24 * 60 * 60;
+
+// Encrypted payloads are limited to about 4 KB
+const MAX_BODY_LENGTH = 1000;
+
+export type PushNotification = Pick<Notification, 'type' | 'title' | 'message' | 'action_url' | 'priority'> & { id?: number };
+
+// Read by the service worker (public/sw.js)
+export interface PushPayload {
+  title: string;
+  body: string;
+  url: string;
+  tag: string;
+  notificationId: number | null;
+  requireInteraction: boolean;
+}
+
+export function buildPushPayload(notification: PushNotification): PushPayload {
+  return {
+    title: notification.title,
+    body: notification.message.length > MAX_BODY_LENGTH
+      ? `${notification.message.slice(0, MAX_BODY_LENGTH - 1)}…`
+      : notification.message,
+    url: notification.action_url || '/notifications',
+    // A notification shown twice on a device replaces itself instead of stacking
+    tag: notification.id ? `notification-${notification.id}` : notification.type,
+    notificationId: notification.id ?? null,
+    requireInteraction: notification.priority === 'urgent',
+  };
+}
+
+// Low-urgency messages may be delayed by the push service to save battery
+export function getPushUrgency(priority: NotificationPriority): Urgency {
+  switch (priority) {
+    case 'urgent':
+    case 'high':
+      return 'high';
+    case 'low':
+      return 'low';
+    default:
+      return 'normal';
+  }
+}
+
+// 404 and 410 mean the browser dropped the subscription: it will never work again
+export function isExpiredSubscription(error: unknown): boolean {
+  const statusCode = (error as { statusCode?: number } | null)?.statusCode;
+  return statusCode === 404 || statusCode === 410;
+}
+
+export class PushService {
+  private enabled: boolean;
+
+  constructor() {
+    this.enabled = env.NOTIFICATION_PUSH_ENABLED && !!env.VAPID_PUBLIC_KEY && !!env.VAPID_PRIVATE_KEY;
+    if (this.enabled) {
+      webpush.setVapidDetails(env.VAPID_SUBJECT, env.VAPID_PUBLIC_KEY!, env.VAPID_PRIVATE_KEY!);
+    }
+  }
+
+  isEnabled(): boolean {
+    return this.enabled;
+  }
+
+  // Application server key the browser needs to subscribe
+  getPublicKey(): string | null {
+    return this.enabled ? env.VAPID_PUBLIC_KEY! : null;
+  }
+
+  // Send a notification to every subscribed device of the user. Returns the
+  // number of devices reached; expired subscriptions are removed.
+  async sendToUser(userId: number, notification: PushNotification): Promise<number> {
+    if (!this.enabled) return 0;
+
+    const subscriptions = await storage.getPushSubscriptions(userId);
+    const payload = JSON.stringify(buildPushPayload(notification));
+    let sent = 0;
+
+    for (const subscription of subscriptions) {
+      try {
+        await webpush.sendNotification(
+          { endpoint: subscription.endpoint, keys: { p256dh: subscription.p256dh, auth: subscription.auth } },
+          payload,
+          { TTL: PUSH_TTL_SECONDS, urgency: getPushUrgency(notification.priority) }
+        );
+        await storage.markPushSubscriptionUsed(subscription.id);
+        sent++;
+      } catch (error) {
+        if (isExpiredSubscription(error)) {
+          await storage.deletePushSubscription(subscription.endpoint);
+          continue;
+        }
+        console.error(`Push to subscription ${subscription.id} of user ${userId} failed:`, error instanceof Error ? error.message : error);
+      }
+    }
+
+    return sent;
+  }
+}
+
+// Singleton instance
+let pushService: PushService | null = null;
+
+export const initializePushService = (): PushService => {
+  if (!pushService) {
+    pushService = new PushService();
+  }
+  return pushService;
+};
+
+export const getPushService = (): PushService => {
+  if (!pushService) {
+    throw new Error('PushService not initialized. Call initializePushService first.');
+  }
+  return pushService;
+};
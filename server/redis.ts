@@ -16,8 +16,12 @@ const redisConfig = {
   keyPrefix: `clockpilot:${env.NODE_ENV}:`,
 };
 
-// Instance Redis principale
-export const redis = new Redis(redisConfig);
+// Instance Redis principale. REDIS_URL (production) prime sur l'hôte et le port :
+// ioredis donnerait sinon la priorité aux options sur l'URL
+const { host, port, password, ...connectionOptions } = redisConfig;
+export const redis = env.REDIS_URL
+  ? new Redis(env.REDIS_URL, connectionOptions)
+  : new Redis(redisConfig);
 
 // Gestion des événements Redis
 redis.on('connect', () => {
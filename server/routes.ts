@@ -1,6 +1,6 @@
 import type { Express, Request, Response, NextFunction } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
+import { storage, type LeaveDecisionError, type ValidationDecisionError } from "./storage";
 import bcrypt from "bcryptjs";
 import jwt from "jsonwebtoken";
 import { z } from "zod";
@@ -25,6 +25,7 @@ import {
   updatePlanningEntrySchema,
   bulkPlanningSchema,
   validatePlanningSchema,
+  resolvePlanningConflictSchema,
   timeEntryQuerySchema,
   createTimeEntrySchema,
   updateTimeEntrySchema,
@@ -41,12 +42,88 @@ import {
   insertTaskApiSchema,
   updateTaskApiSchema,
   insertProjectSchema,
+  createLeaveRequestSchema,
+  leaveRequestQuerySchema,
+  approveLeaveRequestSchema,
+  rejectLeaveRequestSchema,
+  leaveBalanceAdjustmentSchema,
+  leaveAccrualRunSchema,
+  leavePeriodCloseSchema,
+  laborRuleConfigSchema,
+  createPlanningTemplateSchema,
+  updatePlanningTemplateSchema,
+  assignPlanningTemplateSchema,
+  createCoverageRequirementSchema,
+  updateCoverageRequirementSchema,
+  autoSchedulePlanningSchema,
+  validationQuerySchema,
+  decideValidationSchema,
+  createApprovalChainSchema,
+  updateApprovalChainSchema,
+  createApprovalDelegationSchema,
+  closePayPeriodSchema,
+  createTimeAdjustmentSchema,
+  timeAdjustmentQuerySchema,
+  payrollExportConfigSchema,
+  payrollExportQuerySchema,
+  clockEventSchema,
+  syncBatchSchema,
+  createWorkSiteSchema,
+  updateWorkSiteSchema,
+  geofencePolicySchema,
+  createKioskDeviceSchema,
+  updateKioskDeviceSchema,
+  kioskCredentialsSchema,
+  kioskIdentifySchema,
+  kioskPunchSchema,
+  updateNotificationPreferencesSchema,
+  emailDeliveryQuerySchema,
+  emailBounceSchema,
+  jobRunQuerySchema,
+  auditLogQuerySchema,
+  pushSubscriptionSchema,
+  pushUnsubscribeSchema,
+  NOTIFICATION_TYPES,
+  type ClockAction,
+  type SyncBatch,
+  type KioskDevice,
+  type KioskIdentify,
+  type KioskPunchCredentials,
+  type ApprovalRequest,
+  type ApprovalSubjectType,
   type User,
   type Employee,
   type Notification
 } from "@shared/schema";
 import { initializeNotificationService, getNotificationService } from "./notificationService";
+import { type PlanningBoardChanges } from "./planningBoard";
+import { initializeEmailService, getEmailService } from "./emailService";
+import { initializePushService, getPushService } from "./pushService";
+import { initializeJobScheduler, getJobScheduler } from "./jobScheduler";
+import { auditContextMiddleware, formatAuditLogCsv } from "./auditLog";
+import { BUILT_IN_JOBS, escalateOverdueApprovals } from "./scheduledJobs";
 import { ExportService } from "./exportService";
+import {
+  getLeaveWorkingDates,
+  getLeaveBalanceType,
+  getReferencePeriod,
+  checkLegalConstraints,
+  detectScheduleConflicts,
+  resolvePlanningConflict,
+  getClosedDates,
+  calculateOvertime,
+  RESOLUTION_STRATEGIES,
+  getWeekBounds,
+  getZonedDateTime,
+  toClockPunch,
+  resolveSyncTimestamp,
+  COMPANY_TIME_ZONE,
+} from "./businessLogic";
+import { canActOnApproval } from "./approvalChains";
+import { DEFAULT_LABOR_RULE_CONFIG } from "./laborRules";
+import { DEFAULT_PAYROLL_EXPORT_CONFIG, PAYROLL_VARIABLE_LABELS, PayrollFieldTooLongError } from "./payrollExport";
+import { DEFAULT_GEOFENCE_POLICY } from "./geofencing";
+import { getTypeChannels } from "./notificationPreferences";
 import { exportService as newExportService, ExportOptions } from "./services/export.service";
 import { db } from "./db";
 import { setupHealthRoutes, metricsMiddleware } from "./monitoring";
@@ -57,11 +134,18 @@ import {
   authRateLimit,
   apiRateLimit,
   strictRateLimit,
+  kioskRateLimit,
+  kioskPinLockout,
+  generateKioskToken,
+  hashKioskToken,
   securityAuditMiddleware
 } from "./security";
 import { sql, and, or, eq } from "drizzle-orm";
+import { timingSafeEqual } from "crypto";
 import { timeEntries } from "@shared/schema";
 import { env } from "../shared/env";
+import { getPermissionScope, hasPermission, type Permission, type PermissionScope } from "@shared/permissions";
+import { getPermissionEmployeeIds, getTeamEmployeeIds } from "./permissions";
 
 // ============================================================================
 // INTERFACES
@@ -73,6 +157,12 @@ interface AuthRequest extends Request {
     role: string;
     username: string;
   };
+  // Employees reachable through each permission, resolved once per request
+  permittedEmployeeIds?: Map<Permission, Promise<number[] | null>>;
+}
+
+interface KioskRequest extends Request {
+  kiosk?: KioskDevice;
 }
 
 interface JWTPayload {
@@ -131,6 +221,125 @@ const getUserResponse = (user: User, employee?: Employee | null) => {
   };
 };
 
+// Closed pay periods are frozen: changes go through time adjustments instead.
+// Returns true once the error response has been sent.
+const rejectClosedPayPeriod = async (res: Response, dates: Array<string | null | undefined>) => {
+  const closedDates = getClosedDates(dates, await storage.getPayPeriodClosedThrough());
+  if (closedDates.length === 0) return false;
+
+  res.status(409).json({
+    error: 'Pay period is closed for these dates, use a time adjustment instead',
+    code: 'PAY_PERIOD_CLOSED',
+    closedDates,
+  });
+  return true;
+};
+
+// Live planning board: the board viewers whose scope covers the employee, and
+// the employee concerned, see planning writes without reloading
+const publishPlanningChanges = (actorUserId: number | undefined, changes: PlanningBoardChanges) => {
+  void getNotificationService().getPlanningBoard().publish(changes, actorUserId ?? null);
+};
+
+// Employees whose data the current user reaches through a permission, null
+// when it covers everyone (see shared/permissions.ts for the scopes)
+const getPermittedEmployeeIds = (req: AuthRequest, permission: Permission): Promise<number[] | null> => {
+  req.permittedEmployeeIds ??= new Map();
+  if (!req.permittedEmployeeIds.has(permission)) {
+    req.permittedEmployeeIds.set(permission, (async () => {
+      const scope = getPermissionScope(req.user!.role, permission);
+      if (!scope || scope === 'all') return getPermissionEmployeeIds(permission, scope, undefined, []);
+
+      const [self, hierarchy] = await Promise.all([
+        storage.getEmployeeByUserId(req.user!.id),
+        scope === 'self' ? [] : storage.getEmployeeHierarchy(),
+      ]);
+      return getPermissionEmployeeIds(permission, scope, self, hierarchy);
+    })());
+  }
+  return req.permittedEmployeeIds.get(permission)!;
+};
+
+const canAccessEmployee = async (req: AuthRequest, permission: Permission, employeeId: number) => {
+  const employeeIds = await getPermittedEmployeeIds(req, permission);
+  return employeeIds === null || employeeIds.includes(employeeId);
+};
+
+// Returns true once the error response has been sent
+const rejectEmployeesOutOfScope = async (req: AuthRequest, res: Response, permission: Permission, employeeIds: number[]) => {
+  const permitted = await getPermittedEmployeeIds(req, permission);
+  const outOfScope = permitted === null
+    ? []
+    : Array.from(new Set(employeeIds)).filter(employeeId => !permitted.includes(employeeId));
+  if (outOfScope.length === 0) return false;
+
+  res.status(403).json({
+    error: 'Access denied - employee outside your scope',
+    code: 'ACCESS_DENIED',
+    employeeIds: outOfScope,
+  });
+  return true;
+};
+
+// The employee a write applies to: the requested one when within the scope,
+// otherwise the user's own record. Undefined once the error response has been sent
+const resolveTargetEmployeeId = async (req: AuthRequest, res: Response, permission: Permission, requestedEmployeeId?: number) => {
+  const scope = getPermissionScope(req.user!.role, permission);
+  if (requestedEmployeeId && scope !== 'self') {
+    if (await rejectEmployeesOutOfScope(req, res, permission, [requestedEmployeeId])) return undefined;
+    return requestedEmployeeId;
+  }
+
+  if (scope === 'all') {
+    res.status(400).json({
+      error: 'Employee ID is required',
+      code: 'EMPLOYEE_ID_REQUIRED'
+    });
+    return undefined;
+  }
+
+  const currentUserEmployee = await storage.getEmployeeByUserId(req.user!.id);
+  if (!currentUserEmployee) {
+    res.status(403).json({
+      error: 'Employee profile not found',
+      code: 'EMPLOYEE_NOT_FOUND'
+    });
+    return undefined;
+  }
+  return currentUserEmployee.id;
+};
+
+// The employees a read covers: the requested ones when all within the scope, otherwise
+// the whole scope (null for everyone). Undefined once the error response has been sent
+const resolveScopedEmployeeIds = async (req: AuthRequest, res: Response, permission: Permission, requestedEmployeeIds?: number[]) => {
+  if (requestedEmployeeIds?.length) {
+    if (await rejectEmployeesOutOfScope(req, res, permission, requestedEmployeeIds)) return undefined;
+    return requestedEmployeeIds;
+  }
+
+  const permittedEmployeeIds = await getPermittedEmployeeIds(req, permission);
+  if (permittedEmployeeIds?.length === 0) {
+    res.status(403).json({
+      error: 'Employee profile not found',
+      code: 'EMPLOYEE_NOT_FOUND'
+    });
+    return undefined;
+  }
+  return permittedEmployeeIds;
+};
+
+// Roles grant permissions, so only those who manage the settings assign them.
+// Returns true once the error response has been sent.
+const rejectRoleAssignment = (req: AuthRequest, res: Response, role: string | undefined) => {
+  if (role === undefined || hasPermission(req.user!.role, 'settings:manage', 'all')) return false;
+
+  res.status(403).json({
+    error: 'Only administrators can assign roles',
+    code: 'ROLE_ASSIGNMENT_DENIED'
+  });
+  return true;
+};
+
 // ============================================================================
 // MIDDLEWARE
 // ============================================================================
@@ -225,11 +434,68 @@ export const authorizeRole = (allowedRoles: string[]) => {
   };
 };
 
+// Shared clocking terminals send their device token instead of a user JWT
+export const authenticateKiosk = async (req: KioskRequest, res: Response, next: NextFunction) => {
+  try {
+    const token = req.get('X-Kiosk-Token');
+    if (!token) {
+      return res.status(401).json({
+        error: 'Kiosk token required',
+        code: 'KIOSK_TOKEN_MISSING'
+      });
+    }
+
+    const kiosk = await storage.getKioskDeviceByTokenHash(hashKioskToken(token));
+    if (!kiosk || !kiosk.is_active) {
+      return res.status(401).json({
+        error: 'Invalid or disabled kiosk',
+        code: 'INVALID_KIOSK_TOKEN'
+      });
+    }
+
+    // Last contact, recorded at most once a minute
+    const now = new Date();
+    if (!kiosk.last_seen_at || now.getTime() - kiosk.last_seen_at.getTime() > 60 * 1000) {
+      await storage.updateKioskDevice(kiosk.id, { last_seen_at: now });
+    }
+
+    req.kiosk = kiosk;
+    next();
+  } catch (error) {
+    console.error('Kiosk authentication error:', error);
+    return res.status(500).json({
+      error: 'Authentication failed',
+      code: 'AUTH_ERROR'
+    });
+  }
+};
+
 // Alias for verifyToken to maintain consistency with naming conventions
 export const verifyToken = authenticateToken;
 
-// Alias for requirePermission
-export const requirePermission = (role: string) => authorizeRole([role]);
+// Checks the role holds the permission with at least the given scope; routes
+// still check the employees concerned fall within that scope
+export const requirePermission = (permission: Permission, minScope: PermissionScope = 'self') => {
+  return (req: AuthRequest, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return res.status(401).json({ 
+        error: 'Authentication required',
+        code: 'AUTH_REQUIRED' 
+      });
+    }
+
+    if (!hasPermission(req.user.role, permission, minScope)) {
+      return res.status(403).json({
+        error: 'Insufficient permissions',
+        code: 'INSUFFICIENT_PERMISSIONS',
+        requiredPermission: permission,
+        userRole: req.user.role
+      });
+    }
+
+    next();
+  };
+};
 
 // ============================================================================
 // VALIDATION MIDDLEWARE
@@ -279,6 +545,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Always apply metrics and health monitoring
   app.use(metricsMiddleware);
   setupHealthRoutes(app);
+
+  // Makes the request (user, IP, user agent) available to the audit log of the storage layer
+  app.use('/api', auditContextMiddleware);
   
   // ========================================
   // AUTH ENDPOINTS - Rate Limited
@@ -298,7 +567,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // POST /api/auth/register
   app.post('/api/auth/register', validateRequest(registerSchema), async (req: Request, res: Response) => {
     try {
-      const { username, email, password, firstName, lastName, role } = req.body;
+      const { username, email, password, firstName, lastName } = req.body;
 
       // Check if user already exists
       const existingUserByEmail = await storage.getUserByEmail(email);
@@ -321,12 +590,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const saltRounds = 12;
       const hashedPassword = await bcrypt.hash(password, saltRounds);
 
-      // Create user
+      // Create user - self-registered accounts are always employees, roles are assigned by admins
       const newUser = await storage.createUser({
         username,
         email,
         password: hashedPassword,
-        role,
+        role: 'employee',
       });
 
       // Create employee record
@@ -537,8 +806,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // EMPLOYEE CRUD ENDPOINTS
   // ========================================
 
-  // GET /api/employees - List employees with pagination and filters (Admin only)
-  app.get('/api/employees', authenticateToken, authorizeRole(['admin']), async (req: AuthRequest, res: Response) => {
+  // GET /api/employees - List employees with pagination and filters (within employees:read scope)
+  app.get('/api/employees', authenticateToken, requirePermission('employees:read', 'team'), async (req: AuthRequest, res: Response) => {
     try {
       // Validate query parameters
       const queryValidation = employeeQuerySchema.safeParse(req.query);
@@ -568,7 +837,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
         sortOrder 
       } = queryValidation.data;
 
+      const employeeIds = await getPermittedEmployeeIds(req, 'employees:read');
       const result = await storage.getEmployeesWithPagination(page, limit, {
+        employeeIds: employeeIds ?? undefined,
         search,
         department,
         status,
@@ -605,7 +876,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // GET /api/employees/:id - Get employee details (Admin or self)
+  // GET /api/employees/:id - Get employee details (within employees:read scope)
   app.get('/api/employees/:id', authenticateToken, async (req: AuthRequest, res: Response) => {
     try {
       const employeeId = parseInt(req.params.id);
@@ -616,17 +887,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
 
-      // Check permissions - admin can see all, employees can only see themselves
-      const isAdmin = req.user!.role === 'admin';
-      if (!isAdmin) {
-        const currentUserEmployee = await storage.getEmployeeByUserId(req.user!.id);
-        if (!currentUserEmployee || currentUserEmployee.id !== employeeId) {
-          return res.status(403).json({
-            error: 'Access denied - can only view own profile',
-            code: 'ACCESS_DENIED'
-          });
-        }
-      }
+      // Check permissions - employees within the scope of employees:read, at least themselves
+      if (await rejectEmployeesOutOfScope(req, res, 'employees:read', [employeeId])) return;
 
       const employee = await storage.getEmployeeWithDetails(employeeId);
       if (!employee) {
@@ -649,11 +911,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // POST /api/employees - Create new employee (Admin only)
-  app.post('/api/employees', authenticateToken, authorizeRole(['admin']), validateRequest(createEmployeeSchema), async (req: AuthRequest, res: Response) => {
+  // POST /api/employees - Create new employee (employees:write)
+  app.post('/api/employees', authenticateToken, requirePermission('employees:write', 'all'), validateRequest(createEmployeeSchema), async (req: AuthRequest, res: Response) => {
     try {
       const employeeData = req.body;
 
+      if (rejectRoleAssignment(req, res, employeeData.role)) return;
+
       // Check if email already exists
       const existingUser = await storage.getUserByEmail(employeeData.email);
       if (existingUser) {
@@ -675,7 +939,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         username: employeeData.email.split('@')[0], // Use email prefix as username
         email: employeeData.email,
         password: hashedPassword,
-        role: 'employee',
+        role: employeeData.role ?? 'employee',
       });
 
       // Create employee record
@@ -714,7 +978,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // PUT /api/employees/:id - Update employee (Admin or self with limitations)
+  // PUT /api/employees/:id - Update employee (employees:write scope, or self with limitations)
   app.put('/api/employees/:id', authenticateToken, validateRequest(updateEmployeeSchema), async (req: AuthRequest, res: Response) => {
     try {
       const employeeId = parseInt(req.params.id);
@@ -725,11 +989,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
 
-      const updateData = req.body;
-      const isAdmin = req.user!.role === 'admin';
+      if (rejectRoleAssignment(req, res, req.body.role)) return;
 
-      // Check permissions
-      if (!isAdmin) {
+      const { role, ...updateData } = req.body;
+      const canEditEmployee = await canAccessEmployee(req, 'employees:write', employeeId);
+
+      // Check permissions - outside employees:write, only limited fields of one's own profile
+      if (!canEditEmployee) {
         const currentUserEmployee = await storage.getEmployeeByUserId(req.user!.id);
         if (!currentUserEmployee || currentUserEmployee.id !== employeeId) {
           return res.status(403).json({
@@ -738,7 +1004,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           });
         }
 
-        // Non-admin users can only update limited fields
+        // Own profile: limited fields only
         const allowedFields = ['phone', 'address'];
         const hasRestrictedFields = Object.keys(updateData).some(key => 
           !allowedFields.includes(key)
@@ -771,7 +1037,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       // Update associated user if email changed (admin only)
-      if (isAdmin && updateData.email && updateData.email !== existingEmployee.user_id) {
+      if (canEditEmployee && updateData.email && updateData.email !== existingEmployee.user_id) {
         const existingUser = await storage.getUserByEmail(updateData.email);
         if (existingUser && existingUser.id !== existingEmployee.user_id) {
           return res.status(409).json({
@@ -785,6 +1051,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
 
+      if (role) {
+        await storage.updateUser(existingEmployee.user_id, { role });
+      }
+
       // Get updated employee with details
       const employeeWithDetails = await storage.getEmployeeWithDetails(employeeId);
 
@@ -801,8 +1071,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // DELETE /api/employees/:id - Soft delete employee (Admin only)
-  app.delete('/api/employees/:id', authenticateToken, authorizeRole(['admin']), async (req: AuthRequest, res: Response) => {
+  // DELETE /api/employees/:id - Soft delete employee (within employees:write scope)
+  app.delete('/api/employees/:id', authenticateToken, requirePermission('employees:write'), async (req: AuthRequest, res: Response) => {
     try {
       const employeeId = parseInt(req.params.id);
       if (isNaN(employeeId)) {
@@ -812,6 +1082,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
 
+      if (await rejectEmployeesOutOfScope(req, res, 'employees:write', [employeeId])) return;
+
       // Check if employee exists
       const existingEmployee = await storage.getEmployee(employeeId);
       if (!existingEmployee) {
@@ -865,7 +1137,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // GET /api/employees/:id/stats - Get employee statistics (Admin or self)
+  // GET /api/employees/:id/stats - Get employee statistics (within employees:read scope)
   app.get('/api/employees/:id/stats', authenticateToken, async (req: AuthRequest, res: Response) => {
     try {
       const employeeId = parseInt(req.params.id);
@@ -876,17 +1148,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
 
-      // Check permissions
-      const isAdmin = req.user!.role === 'admin';
-      if (!isAdmin) {
-        const currentUserEmployee = await storage.getEmployeeByUserId(req.user!.id);
-        if (!currentUserEmployee || currentUserEmployee.id !== employeeId) {
-          return res.status(403).json({
-            error: 'Access denied - can only view own stats',
-            code: 'ACCESS_DENIED'
-          });
-        }
-      }
+      // Check permissions - employees within the scope of employees:read, at least themselves
+      if (await rejectEmployeesOutOfScope(req, res, 'employees:read', [employeeId])) return;
 
       const stats = await storage.getEmployeeStats(employeeId);
       if (!stats) {
@@ -909,7 +1172,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // PUT /api/employees/:id - Update employee (Admin or self with restrictions)
+  // PUT /api/employees/:id - Update employee (employees:write scope, or self with restrictions)
   app.put('/api/employees/:id', authenticateToken, validateRequest(updateEmployeeSchema), async (req: AuthRequest, res: Response) => {
     try {
       const employeeId = parseInt(req.params.id);
@@ -920,11 +1183,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
 
-      const updateData = req.body;
-      const isAdmin = req.user!.role === 'admin';
+      if (rejectRoleAssignment(req, res, req.body.role)) return;
 
-      // Check permissions
-      if (!isAdmin) {
+      const { role, ...updateData } = req.body;
+      const canEditEmployee = await canAccessEmployee(req, 'employees:write', employeeId);
+
+      // Check permissions - outside employees:write, only limited fields of one's own profile
+      if (!canEditEmployee) {
         const currentUserEmployee = await storage.getEmployeeByUserId(req.user!.id);
         if (!currentUserEmployee || currentUserEmployee.id !== employeeId) {
           return res.status(403).json({
@@ -982,8 +1247,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
 
-      // TODO: Log the changes for audit trail
-      console.log(`Employee ${employeeId} updated by user ${req.user!.id}:`, Object.keys(dbUpdateData));
+      if (role) {
+        await storage.updateUser(existingEmployee.user_id, { role });
+      }
 
       res.json({
         message: 'Employee updated successfully',
@@ -998,8 +1264,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // DELETE /api/employees/:id - Soft delete employee (Admin only)
-  app.delete('/api/employees/:id', authenticateToken, authorizeRole(['admin']), async (req: AuthRequest, res: Response) => {
+  // DELETE /api/employees/:id - Soft delete employee (within employees:write scope)
+  app.delete('/api/employees/:id', authenticateToken, requirePermission('employees:write'), async (req: AuthRequest, res: Response) => {
     try {
       const employeeId = parseInt(req.params.id);
       if (isNaN(employeeId)) {
@@ -1009,6 +1275,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
 
+      if (await rejectEmployeesOutOfScope(req, res, 'employees:write', [employeeId])) return;
+
       // Verify employee exists
       const existingEmployee = await storage.getEmployee(employeeId);
       if (!existingEmployee) {
@@ -1048,7 +1316,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // GET /api/employees/:id/stats - Get employee statistics (Admin or self)
+  // GET /api/employees/:id/stats - Get employee statistics (within employees:read scope)
   app.get('/api/employees/:id/stats', authenticateToken, async (req: AuthRequest, res: Response) => {
     try {
       const employeeId = parseInt(req.params.id);
@@ -1059,17 +1327,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
 
-      // Check permissions - admin can see all, employees can only see themselves
-      const isAdmin = req.user!.role === 'admin';
-      if (!isAdmin) {
-        const currentUserEmployee = await storage.getEmployeeByUserId(req.user!.id);
-        if (!currentUserEmployee || currentUserEmployee.id !== employeeId) {
-          return res.status(403).json({
-            error: 'Access denied - can only view own stats',
-            code: 'ACCESS_DENIED'
-          });
-        }
-      }
+      // Check permissions - employees within the scope of employees:read, at least themselves
+      if (await rejectEmployeesOutOfScope(req, res, 'employees:read', [employeeId])) return;
 
       const stats = await storage.getEmployeeStats(employeeId);
       if (!stats) {
@@ -1122,16 +1381,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       // Check permissions
-      const isAdmin = req.user!.role === 'admin';
-      if (!isAdmin) {
-        const currentUserEmployee = await storage.getEmployeeByUserId(req.user!.id);
-        if (!currentUserEmployee || currentUserEmployee.id !== employeeId) {
-          return res.status(403).json({
-            error: 'Access denied - can only view own planning',
-            code: 'ACCESS_DENIED'
-          });
-        }
-      }
+      if (await rejectEmployeesOutOfScope(req, res, 'planning:read', [employeeId])) return;
 
       const weeklyPlanning = await storage.getEmployeeWeeklyPlanning(employeeId, weekStart);
 
@@ -1160,7 +1410,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       const updateData = req.body;
-      const isAdmin = req.user!.role === 'admin';
 
       // Get existing entry to check ownership
       const existingEntries = await storage.getPlanningEntries(
@@ -1178,17 +1427,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
 
-      // Check permissions
-      if (!isAdmin) {
-        const currentUserEmployee = await storage.getEmployeeByUserId(req.user!.id);
-        if (!currentUserEmployee || currentUserEmployee.id !== existingEntry.employeeId) {
-          return res.status(403).json({
-            error: 'Access denied - can only update own planning',
-            code: 'ACCESS_DENIED'
-          });
-        }
+      // Check permissions - the entry stays within the scope of planning:write
+      if (await rejectEmployeesOutOfScope(req, res, 'planning:write', [existingEntry.employeeId])) return;
+
+      if (updateData.version !== undefined && updateData.version !== existingEntry.version) {
+        return res.status(409).json({
+          error: 'Planning entry was modified by someone else',
+          code: 'PLANNING_VERSION_CONFLICT',
+          data: existingEntry,
+        });
       }
 
+      if (await rejectClosedPayPeriod(res, [existingEntry.date, updateData.date])) return;
+
       // Validate conflicts if changing time/date
       if (updateData.date || updateData.start_time || updateData.end_time) {
         const targetDate = updateData.date || existingEntry.date;
@@ -1196,33 +1447,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
         const targetEndTime = updateData.end_time || existingEntry.endTime;
 
         if (targetStartTime && targetEndTime) {
-          const workingHours = storage.calculateWorkingHours(targetStartTime, targetEndTime, 0);
-          const validation = await storage.validateDailyHours(
+          const validation = await checkLegalConstraints(
             existingEntry.employeeId,
             targetDate,
-            workingHours
+            targetStartTime,
+            targetEndTime,
+            entryId
           );
 
           if (!validation.valid) {
             return res.status(409).json({
               error: 'Planning conflicts detected',
               code: 'PLANNING_CONFLICTS',
-              errors: validation.errors,
-            });
-          }
-
-          // Check rest period
-          const restValidation = await storage.validateRestPeriod(
-            existingEntry.employeeId,
-            targetDate,
-            targetStartTime
-          );
-
-          if (!restValidation.valid) {
-            return res.status(409).json({
-              error: 'Rest period violation',
-              code: 'REST_PERIOD_VIOLATION',
-              errors: restValidation.errors,
+              errors: validation.conflicts.map(conflict => conflict.description),
+              conflicts: validation.conflicts,
             });
           }
         }
@@ -1237,15 +1475,26 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (updateData.status) dbUpdateData.status = updateData.status;
       if (updateData.notes) dbUpdateData.notes = updateData.notes;
 
-      const updatedEntry = await storage.updatePlanningEntry(entryId, dbUpdateData);
+      const updatedEntry = await storage.updatePlanningEntry(entryId, dbUpdateData, updateData.version);
       
       if (!updatedEntry) {
+        if (updateData.version !== undefined) {
+          // Edited by someone else since the client read it
+          const [currentEntry] = await storage.getPlanningEntriesByIds([entryId]);
+          return res.status(409).json({
+            error: 'Planning entry was modified by someone else',
+            code: 'PLANNING_VERSION_CONFLICT',
+            data: currentEntry,
+          });
+        }
         return res.status(500).json({
           error: 'Failed to update planning entry',
           code: 'UPDATE_FAILED'
         });
       }
 
+      publishPlanningChanges(req.user!.id, { updated: [updatedEntry] });
+
       res.json({
         message: 'Planning entry updated successfully',
         data: updatedEntry,
@@ -1259,8 +1508,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // POST /api/planning/bulk - Bulk create/update planning entries (Admin only)
-  app.post('/api/planning/bulk', authenticateToken, authorizeRole(['admin']), validateRequest(bulkPlanningSchema), async (req: AuthRequest, res: Response) => {
+  // POST /api/planning/bulk - Bulk create/update planning entries (within planning:write scope)
+  app.post('/api/planning/bulk', authenticateToken, requirePermission('planning:write', 'team'), validateRequest(bulkPlanningSchema), async (req: AuthRequest, res: Response) => {
     try {
       const { entries } = req.body;
       
@@ -1268,21 +1517,31 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const createEntries = entries.filter((e: any) => !e.id);
       const updateEntries = entries.filter((e: any) => e.id);
 
+      const updatedEntries = await storage.getPlanningEntriesByIds(updateEntries.map((e: any) => e.id));
+      if (await rejectEmployeesOutOfScope(req, res, 'planning:write', [
+        ...entries.map((e: any) => e.employee_id),
+        ...updatedEntries.map(entry => entry.employee_id),
+      ])) return;
+
+      const existingDates = await storage.getEntryDates('planning_entry', updateEntries.map((e: any) => e.id));
+      if (await rejectClosedPayPeriod(res, [...existingDates, ...entries.map((e: any) => e.date)])) return;
+
       // Validate all entries for conflicts
       const validationResults = [];
       for (const entry of entries) {
         if (entry.start_time && entry.end_time) {
-          const workingHours = storage.calculateWorkingHours(entry.start_time, entry.end_time, 0);
-          const validation = await storage.validateDailyHours(
+          const validation = await checkLegalConstraints(
             entry.employee_id,
             entry.date,
-            workingHours
+            entry.start_time,
+            entry.end_time,
+            entry.id
           );
           
           if (!validation.valid) {
             validationResults.push({
               entry,
-              errors: validation.errors,
+              errors: validation.conflicts.map(conflict => conflict.description),
             });
           }
         }
@@ -1302,25 +1561,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
         updated: [],
       };
 
-      if (createEntries.length > 0) {
-        const createdEntries = await storage.bulkCreatePlanningEntries(
-          createEntries.map((e: any) => ({
-            employee_id: e.employee_id,
-            date: e.date,
-            start_time: e.start_time,
-            end_time: e.end_time,
-            type: e.type || 'work',
-            status: 'draft',
-            notes: e.notes,
-          }))
-        );
-        results.created = createdEntries as any;
-      }
-
+      // Updates first: a version conflict then leaves the planning untouched
       if (updateEntries.length > 0) {
         const updatedEntries = await storage.bulkUpdatePlanningEntries(
           updateEntries.map((e: any) => ({
             id: e.id,
+            version: e.version,
             data: {
               date: e.date,
               start_time: e.start_time,
@@ -1330,9 +1576,32 @@ export async function registerRoutes(app: Express): Promise<Server> {
             },
           }))
         );
+        if (!updatedEntries) {
+          return res.status(409).json({
+            error: 'Planning entries were modified by someone else, nothing was saved',
+            code: 'PLANNING_VERSION_CONFLICT'
+          });
+        }
         results.updated = updatedEntries as any;
       }
 
+      if (createEntries.length > 0) {
+        const createdEntries = await storage.bulkCreatePlanningEntries(
+          createEntries.map((e: any) => ({
+            employee_id: e.employee_id,
+            date: e.date,
+            start_time: e.start_time,
+            end_time: e.end_time,
+            type: e.type || 'work',
+            status: 'draft',
+            notes: e.notes,
+          }))
+        );
+        results.created = createdEntries as any;
+      }
+
+      publishPlanningChanges(req.user!.id, results);
+
       res.status(201).json({
         message: 'Bulk planning operation completed successfully',
         data: results,
@@ -1352,10 +1621,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // POST /api/planning/validate - Validate planning for employee/week (Admin/Manager only)
-  app.post('/api/planning/validate', authenticateToken, authorizeRole(['admin']), validateRequest(validatePlanningSchema), async (req: AuthRequest, res: Response) => {
+  app.post('/api/planning/validate', authenticateToken, requirePermission('validations:decide', 'team'), validateRequest(validatePlanningSchema), async (req: AuthRequest, res: Response) => {
     try {
       const { employee_id, week_start, status, comments } = req.body;
 
+      if (await rejectEmployeesOutOfScope(req, res, 'validations:decide', [employee_id])) return;
+
       // Check if employee exists
       const employee = await storage.getEmployee(employee_id);
       if (!employee) {
@@ -1365,6 +1636,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
 
+      if (await rejectClosedPayPeriod(res, [week_start])) return;
+
       // Check for existing validation
       const existingValidation = await storage.getValidationByEmployeeAndWeek(employee_id, week_start);
       if (existingValidation) {
@@ -1408,68 +1681,27 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const { employee_id, start_date, end_date } = req.query;
       
-      // Check permissions
-      const isAdmin = req.user!.role === 'admin';
+      // Check permissions - conflicts of the employees within the scope of planning:read
+      const permittedEmployeeIds = await getPermittedEmployeeIds(req, 'planning:read');
       let targetEmployeeId = employee_id ? parseInt(employee_id as string) : undefined;
       
-      if (!isAdmin) {
-        const currentUserEmployee = await storage.getEmployeeByUserId(req.user!.id);
-        if (!currentUserEmployee) {
-          return res.status(403).json({
-            error: 'Employee profile not found',
-            code: 'EMPLOYEE_NOT_FOUND'
-          });
-        }
-        
-        // Override to only check current user's conflicts
-        targetEmployeeId = currentUserEmployee.id;
+      if (permittedEmployeeIds?.length === 1) {
+        // Only check the current user's own conflicts
+        targetEmployeeId = permittedEmployeeIds[0];
+      } else if (targetEmployeeId !== undefined) {
+        if (await rejectEmployeesOutOfScope(req, res, 'planning:read', [targetEmployeeId])) return;
+      } else if (permittedEmployeeIds?.length === 0) {
+        return res.status(403).json({
+          error: 'Employee profile not found',
+          code: 'EMPLOYEE_NOT_FOUND'
+        });
       }
 
-      // Utiliser la nouvelle implémentation de détection des conflits
-      const planningResult = await storage.getPlanningEntries({
-        startDate: start_date as string,
-        endDate: end_date as string,
-        employeeId: targetEmployeeId,
-        limit: 1000,
-        page: 1
-      });
-      const planningData = planningResult.data;
-
-      const conflicts: any[] = [];
-      
-      // Vérifier les heures journalières (max 10h selon la loi française)
-      const dailyHours: Record<string, Record<number, number>> = {};
-      
-      for (const entry of planningData) {
-        const date = entry.date;
-        const empId = entry.employeeId;
-        
-        if (!dailyHours[date]) dailyHours[date] = {};
-        if (!dailyHours[date][empId]) dailyHours[date][empId] = 0;
-        
-        if (entry.startTime && entry.endTime && entry.type === 'work') {
-          const start = new Date(`1970-01-01T${entry.startTime}:00`);
-          const end = new Date(`1970-01-01T${entry.endTime}:00`);
-          const hours = (end.getTime() - start.getTime()) / (1000 * 60 * 60);
-          dailyHours[date][empId] += hours;
-        }
-      }
-      
-      // Détecter les conflits d'heures journalières
-      for (const [date, employees] of Object.entries(dailyHours)) {
-        for (const [empId, hours] of Object.entries(employees)) {
-          if (hours > 10) {
-            conflicts.push({
-              type: 'max_daily_hours',
-              severity: 'error',
-              employeeId: parseInt(empId),
-              date,
-              description: `Dépassement de 10h journalières: ${hours}h planifiées`,
-              suggestion: 'Réduire les heures de travail ou répartir sur plusieurs jours'
-            });
-          }
-        }
-      }
+      const conflicts = (await detectScheduleConflicts(
+        targetEmployeeId,
+        start_date as string | undefined,
+        end_date as string | undefined
+      )).filter(conflict => !permittedEmployeeIds || permittedEmployeeIds.includes(conflict.employeeId));
 
       // Group conflicts by severity
       const groupedConflicts = {
@@ -1499,34 +1731,90 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // ========================================
-  // TIME ENTRIES API ENDPOINTS
-  // ========================================
-
-  // GET /api/time-entries - Get time entries with filters and grouping
-  app.get('/api/time-entries', authenticateToken, validateRequest(timeEntryQuerySchema), async (req: AuthRequest, res: Response) => {
+  // POST /api/planning/conflicts/resolve - Preview or apply an automatic resolution (within planning:write scope)
+  app.post('/api/planning/conflicts/resolve', authenticateToken, requirePermission('planning:write', 'team'), validateRequest(resolvePlanningConflictSchema), async (req: AuthRequest, res: Response) => {
     try {
-      const { employee_id, date_from, date_to, status, group_by, page, limit } = req.query as any;
-      
-      // Check permissions - employees can only see their own time entries
-      const isAdmin = req.user!.role === 'admin';
-      let targetEmployeeId = employee_id;
-      
-      if (!isAdmin) {
-        const currentUserEmployee = await storage.getEmployeeByUserId(req.user!.id);
-        if (!currentUserEmployee) {
-          return res.status(403).json({
-            error: 'Employee profile not found',
-            code: 'EMPLOYEE_NOT_FOUND'
-          });
-        }
-        
-        // Override employee_id to only show current user's time entries
-        targetEmployeeId = currentUserEmployee.id;
+      const { conflict, strategy, target_date, dry_run } = req.body;
+
+      if (await rejectEmployeesOutOfScope(req, res, 'planning:write', [conflict.employeeId])) return;
+
+      if (!RESOLUTION_STRATEGIES[conflict.type as keyof typeof RESOLUTION_STRATEGIES].includes(strategy)) {
+        return res.status(422).json({
+          error: 'This strategy cannot resolve this type of conflict',
+          code: 'STRATEGY_NOT_APPLICABLE',
+          availableStrategies: RESOLUTION_STRATEGIES[conflict.type as keyof typeof RESOLUTION_STRATEGIES],
+        });
+      }
+
+      if (await rejectClosedPayPeriod(res, [conflict.date, target_date])) return;
+
+      const result = await resolvePlanningConflict(conflict, strategy, {
+        targetDate: target_date,
+        dryRun: dry_run,
+        closedThrough: await storage.getPayPeriodClosedThrough(),
+      });
+
+      if (!result.patch) {
+        return res.status(422).json({
+          error: 'No valid patch could be computed for this conflict',
+          code: 'CONFLICT_NOT_RESOLVABLE'
+        });
+      }
+
+      if (!dry_run && !result.applied) {
+        return res.status(409).json({
+          error: 'Planning entries changed since the conflict was detected',
+          code: 'PLANNING_PATCH_STALE'
+        });
+      }
+
+      if (result.applied) {
+        publishPlanningChanges(req.user!.id, {
+          updated: await storage.getPlanningEntriesByIds(result.patch.updates.map(update => update.after.id)),
+          deleted: result.patch.deletes.map(entry => ({ id: entry.id, employee_id: conflict.employeeId, date: entry.date })),
+        });
+      }
+
+      res.json({
+        message: dry_run ? 'Conflict resolution preview' : 'Conflict resolved successfully',
+        data: {
+          patch: result.patch,
+          remainingConflicts: result.remainingConflicts,
+          applied: result.applied,
+        },
+      });
+    } catch (error) {
+      console.error('Resolve conflict error:', error);
+      res.status(500).json({
+        error: 'Failed to resolve planning conflict',
+        code: 'RESOLVE_CONFLICT_ERROR'
+      });
+    }
+  });
+
+  // ========================================
+  // TIME ENTRIES API ENDPOINTS
+  // ========================================
+
+  // GET /api/time-entries - Get time entries with filters and grouping
+  app.get('/api/time-entries', authenticateToken, requirePermission('time_entries:read'), validateRequest(timeEntryQuerySchema), async (req: AuthRequest, res: Response) => {
+    try {
+      const { employee_id, date_from, date_to, status, group_by, page, limit } = req.query as any;
+      
+      // Check permissions - time entries of the employees within the time_entries:read scope
+      const permittedEmployeeIds = await getPermittedEmployeeIds(req, 'time_entries:read');
+      if (permittedEmployeeIds?.length === 0) {
+        return res.status(403).json({
+          error: 'Employee profile not found',
+          code: 'EMPLOYEE_NOT_FOUND'
+        });
       }
+      const targetEmployeeId = employee_id ? parseInt(employee_id) : undefined;
+      if (targetEmployeeId && await rejectEmployeesOutOfScope(req, res, 'time_entries:read', [targetEmployeeId])) return;
 
       const result = await storage.getTimeEntriesWithFilters({
         employeeId: targetEmployeeId,
+        employeeIds: permittedEmployeeIds ?? undefined,
         startDate: date_from,
         endDate: date_to,
         status,
@@ -1623,16 +1911,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       // Check permissions
-      const isAdmin = req.user!.role === 'admin';
-      if (!isAdmin) {
-        const currentUserEmployee = await storage.getEmployeeByUserId(req.user!.id);
-        if (!currentUserEmployee || currentUserEmployee.id !== employeeId) {
-          return res.status(403).json({
-            error: 'Access denied - can only view own time entries',
-            code: 'ACCESS_DENIED'
-          });
-        }
-      }
+      if (await rejectEmployeesOutOfScope(req, res, 'time_entries:read', [employeeId])) return;
 
       const currentEntries = await storage.getCurrentDayTimeEntries(employeeId);
       
@@ -1672,26 +1951,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post('/api/time-entries', authenticateToken, validateRequest(createTimeEntrySchema), async (req: AuthRequest, res: Response) => {
     try {
       const timeEntryData = req.body;
-      const isAdmin = req.user!.role === 'admin';
 
-      // Determine target employee ID
-      let targetEmployeeId = timeEntryData.employee_id;
-      if (!isAdmin) {
-        // Non-admin users can only create entries for themselves
-        const currentUserEmployee = await storage.getEmployeeByUserId(req.user!.id);
-        if (!currentUserEmployee) {
-          return res.status(403).json({
-            error: 'Employee profile not found',
-            code: 'EMPLOYEE_NOT_FOUND'
-          });
-        }
-        targetEmployeeId = currentUserEmployee.id;
-      } else if (!targetEmployeeId) {
-        return res.status(400).json({
-          error: 'Employee ID is required for admin users',
-          code: 'EMPLOYEE_ID_REQUIRED'
-        });
-      }
+      // Determine target employee ID - users with the 'self' scope only create their own entries
+      const targetEmployeeId = await resolveTargetEmployeeId(req, res, 'time_entries:write', timeEntryData.employee_id);
+      if (targetEmployeeId === undefined) return;
+
+      if (await rejectClosedPayPeriod(res, [timeEntryData.date])) return;
 
       // Validate overlap
       const overlapValidation = await storage.validateTimeEntryOverlap(
@@ -1781,7 +2046,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       const updateData = req.body;
-      const isAdmin = req.user!.role === 'admin';
 
       // Get existing entry to check ownership and status
       const existingEntry = await storage.getTimeEntry(entryId);
@@ -1802,15 +2066,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       // Check permissions
-      if (!isAdmin) {
-        const currentUserEmployee = await storage.getEmployeeByUserId(req.user!.id);
-        if (!currentUserEmployee || currentUserEmployee.id !== existingEntry.employeeId) {
-          return res.status(403).json({
-            error: 'Access denied - can only update own time entries',
-            code: 'ACCESS_DENIED'
-          });
-        }
-      }
+      if (await rejectEmployeesOutOfScope(req, res, 'time_entries:write', [existingEntry.employee_id])) return;
+
+      if (await rejectClosedPayPeriod(res, [existingEntry.date, updateData.date])) return;
 
       // Validate overlap if changing time
       if (updateData.start_time || updateData.end_time || updateData.date) {
@@ -1894,8 +2152,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
 
-      const isAdmin = req.user!.role === 'admin';
-
       // Get existing entry to check ownership and status
       const existingEntry = await storage.getTimeEntry(entryId);
 
@@ -1915,15 +2171,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       // Check permissions
-      if (!isAdmin) {
-        const currentUserEmployee = await storage.getEmployeeByUserId(req.user!.id);
-        if (!currentUserEmployee || currentUserEmployee.id !== existingEntry.employeeId) {
-          return res.status(403).json({
-            error: 'Access denied - can only delete own time entries',
-            code: 'ACCESS_DENIED'
-          });
-        }
-      }
+      if (await rejectEmployeesOutOfScope(req, res, 'time_entries:write', [existingEntry.employee_id])) return;
+
+      if (await rejectClosedPayPeriod(res, [existingEntry.date])) return;
 
       const deleted = await storage.deleteTimeEntry(entryId);
       
@@ -1951,11 +2201,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post('/api/time-entries/bulk', authenticateToken, validateRequest(bulkTimeEntriesSchema), async (req: AuthRequest, res: Response) => {
     try {
       const { entries, week_start } = req.body;
-      const isAdmin = req.user!.role === 'admin';
+      const scope = getPermissionScope(req.user!.role, 'time_entries:write');
 
-      // Determine target employee ID and validate permissions
-      let targetEmployeeId;
-      if (!isAdmin) {
+      // Determine target employee ID - entries without employee_id are the user's own
+      let targetEmployeeId: number | undefined;
+      if (scope !== 'all') {
         const currentUserEmployee = await storage.getEmployeeByUserId(req.user!.id);
         if (!currentUserEmployee) {
           return res.status(403).json({
@@ -1964,21 +2214,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
           });
         }
         targetEmployeeId = currentUserEmployee.id;
-        
-        // Ensure all entries are for the current user
-        const invalidEntries = entries.filter((e: any) => e.employee_id && e.employee_id !== targetEmployeeId);
-        if (invalidEntries.length > 0) {
-          return res.status(403).json({
-            error: 'Cannot create time entries for other employees',
-            code: 'INVALID_EMPLOYEE_ENTRIES'
-          });
-        }
       }
 
       // Separate creates and updates
       const createEntries = entries.filter((e: any) => !e.id);
       const updateEntries = entries.filter((e: any) => e.id);
 
+      // Ensure all entries, before and after the update, are within the time_entries:write scope
+      const existingEntries = await Promise.all(updateEntries.map((e: any) => storage.getTimeEntry(e.id)));
+      if (await rejectEmployeesOutOfScope(req, res, 'time_entries:write', [
+        ...entries.map((e: any) => e.employee_id || targetEmployeeId),
+        ...existingEntries.filter(entry => entry !== undefined).map(entry => entry!.employee_id),
+      ])) return;
+
+      const existingDates = await storage.getEntryDates('time_entry', updateEntries.map((e: any) => e.id));
+      if (await rejectClosedPayPeriod(res, [...existingDates, ...entries.map((e: any) => e.date)])) return;
+
       // Validate all entries for overlaps and consistency
       const validationResults = [];
       for (const entry of entries) {
@@ -2113,25 +2364,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post('/api/time-entries/submit', authenticateToken, validateRequest(submitTimeEntriesSchema), async (req: AuthRequest, res: Response) => {
     try {
       const { week_start_date, employee_id } = req.body;
-      const isAdmin = req.user!.role === 'admin';
 
-      // Determine target employee ID
-      let targetEmployeeId = employee_id;
-      if (!isAdmin) {
-        const currentUserEmployee = await storage.getEmployeeByUserId(req.user!.id);
-        if (!currentUserEmployee) {
-          return res.status(403).json({
-            error: 'Employee profile not found',
-            code: 'EMPLOYEE_NOT_FOUND'
-          });
-        }
-        targetEmployeeId = currentUserEmployee.id;
-      } else if (!targetEmployeeId) {
-        return res.status(400).json({
-          error: 'Employee ID is required for admin users',
-          code: 'EMPLOYEE_ID_REQUIRED'
-        });
-      }
+      // Determine target employee ID - users with the 'self' scope only submit their own week
+      const targetEmployeeId = await resolveTargetEmployeeId(req, res, 'time_entries:write', employee_id);
+      if (targetEmployeeId === undefined) return;
+
+      if (await rejectClosedPayPeriod(res, [week_start_date])) return;
 
       // Verify completeness and submit
       const submissionResult = await storage.submitWeeklyTimeEntries(targetEmployeeId, week_start_date);
@@ -2183,16 +2421,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       // Check permissions
-      const isAdmin = req.user!.role === 'admin';
-      if (!isAdmin) {
-        const currentUserEmployee = await storage.getEmployeeByUserId(req.user!.id);
-        if (!currentUserEmployee || currentUserEmployee.id !== employeeId) {
-          return res.status(403).json({
-            error: 'Access denied - can only view own time comparison',
-            code: 'ACCESS_DENIED'
-          });
-        }
-      }
+      if (await rejectEmployeesOutOfScope(req, res, 'time_entries:read', [employeeId])) return;
 
       // Default to current week if no dates provided
       const defaultDateFrom = date_from as string || (() => {
@@ -2256,7 +2485,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // GET /api/departments - Both admin and employee
-  app.get('/api/departments', authenticateToken, authorizeRole(['admin', 'employee']), async (req: AuthRequest, res: Response) => {
+  app.get('/api/departments', authenticateToken, requirePermission('employees:read'), async (req: AuthRequest, res: Response) => {
     try {
       const departments = await storage.getAllDepartments();
       res.json({ departments });
@@ -2434,8 +2663,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
         // Check permissions
         if (type === 'logos') {
-          // Only admin can delete logos
-          if (req.user?.role !== 'admin') {
+          // Only users managing the settings can delete logos
+          if (!hasPermission(req.user!.role, 'settings:manage', 'all')) {
             return res.status(403).json({ error: 'Permission insuffisante' });
           }
         } else if (type === 'avatars') {
@@ -2483,7 +2712,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           return res.status(400).json({ error: 'Type invalide' });
         }
 
-        if (type === 'logo' && req.user?.role !== 'admin') {
+        if (type === 'logo' && !hasPermission(req.user!.role, 'settings:manage', 'all')) {
           return res.status(403).json({ error: 'Permission insuffisante' });
         }
 
@@ -2716,934 +2945,3767 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-
-
-
-
-
-
-
-
   // ========================================
-  // PLANNING API ENDPOINTS
+  // EMAIL API ROUTES
   // ========================================
 
-  // 1. GET /api/planning - Récupérer les entrées de planning avec filtres
-  app.get('/api/planning', verifyToken, async (req: any, res) => {
+  // POST /api/email/bounces - Bounce report from the mail provider (X-Webhook-Secret)
+  app.post('/api/email/bounces', validateRequest(emailBounceSchema), async (req: Request, res: Response) => {
     try {
-      const {
-        startDate,
-        endDate,
-        employeeId,
-        departmentId,
-        status,
-        type,
-        search,
-        sortBy,
-        sortOrder,
-        groupBy,
-        limit = 20,
-        offset = 0,
-        page
-      } = req.query;
-
-      // Validation des paramètres
-      if (!startDate || !endDate) {
-        return res.status(400).json({ 
-          error: 'Les paramètres startDate et endDate sont requis',
-          code: 'MISSING_DATE_PARAMS'
+      const secret = req.get('X-Webhook-Secret') || '';
+      const expected = env.WEBHOOK_SECRET || '';
+      if (!expected || secret.length !== expected.length || !timingSafeEqual(Buffer.from(secret), Buffer.from(expected))) {
+        return res.status(401).json({
+          error: 'Invalid webhook secret',
+          code: 'INVALID_WEBHOOK_SECRET'
         });
       }
 
-      // Prepare filters for QueryBuilder integration
-      const filters = {
-        startDate,
-        endDate,
-        employeeId: employeeId ? parseInt(employeeId) : undefined,
-        departmentId: departmentId ? parseInt(departmentId) : undefined,
-        status,
-        type,
-        search,
-        sortBy,
-        sortOrder,
-        limit: parseInt(limit),
-        offset: parseInt(offset),
-        page: page ? parseInt(page) : Math.floor(parseInt(offset) / parseInt(limit)) + 1
-      };
-
-      // Use the improved QueryBuilder-based method
-      const result = await storage.getPlanningEntries(filters);
-
-      // Group by day if requested (post-processing)
-      let responseData = result.data;
-      if (groupBy === 'day') {
-        const groupedByDay: Record<string, any[]> = {};
-        result.data.forEach(entry => {
-          const date = entry.date;
-          if (!groupedByDay[date]) {
-            groupedByDay[date] = [];
-          }
-          groupedByDay[date].push(entry);
+      const count = await storage.recordEmailBounce(req.body);
+      if (count === 0) {
+        return res.status(404).json({
+          error: 'Email delivery not found',
+          code: 'EMAIL_DELIVERY_NOT_FOUND'
         });
-        responseData = groupedByDay;
       }
 
       res.json({
         success: true,
-        message: 'Planning retrieved successfully',
-        data: responseData,
-        pagination: {
-          page: result.page,
-          limit: parseInt(limit),
-          total: result.total,
-          totalPages: result.totalPages,
-          hasNext: result.page < result.totalPages,
-          hasPrev: result.page > 1,
-        },
-        filters: {
-          ...filters,
-          applied: Object.keys(filters).filter(key => 
-            filters[key] !== undefined && filters[key] !== null && filters[key] !== ''
-          )
-        }
+        data: { bounced: count },
       });
-
     } catch (error) {
-      console.error('Planning fetch error:', error);
-      res.status(500).json({ 
-        error: 'Erreur lors de la récupération du planning',
-        code: 'PLANNING_FETCH_ERROR'
+      console.error('Record email bounce error:', error);
+      res.status(500).json({
+        error: 'Failed to record email bounce',
+        code: 'EMAIL_BOUNCE_ERROR'
       });
     }
   });
 
-  // 2. POST /api/planning/generate - Générer un planning automatique
-  app.post('/api/planning/generate', verifyToken, requirePermission('admin'), validateRequest(generatePlanningSchema), async (req: any, res) => {
+  // GET /api/email/deliveries - Email queue with delivery status (Admin only)
+  app.get('/api/email/deliveries', authenticateToken, authorizeRole(['admin']), async (req: AuthRequest, res: Response) => {
     try {
-      const { employee_ids: employeeIds, start_date: startDate, end_date: endDate, template_id: templateId, respectConstraints = true } = req.body;
-
-      if (!employeeIds || !Array.isArray(employeeIds) || !startDate || !endDate) {
-        return res.status(400).json({ 
-          error: 'employeeIds (array), startDate et endDate sont requis' 
+      const queryValidation = emailDeliveryQuerySchema.safeParse(req.query);
+      if (!queryValidation.success) {
+        return res.status(400).json({
+          error: 'Invalid query parameters',
+          code: 'VALIDATION_ERROR',
+          details: queryValidation.error.errors,
         });
       }
 
-      const result = await storage.generatePlanning({
-        employeeIds,
-        startDate,
-        endDate,
-        templateId,
-        respectConstraints
-      });
-
-      // Envoyer des notifications pour les conflits
-      if (result.conflicts.length > 0) {
-        for (const conflict of result.conflicts) {
-          await storage.createNotification({
-            user_id: req.user.id,
-            type: 'schedule_conflict',
-            title: 'Conflit de planning détecté',
-            message: conflict.description,
-            priority: 'high',
-            metadata: { conflict }
-          });
-        }
-      }
+      const { status, page, limit } = queryValidation.data;
+      const { deliveries, total } = await storage.getEmailDeliveries({ status, page, limit });
 
       res.json({
         success: true,
-        message: `${result.generatedEntries.length} entrées générées`,
-        data: {
-          generatedEntries: result.generatedEntries,
-          conflictsCount: result.conflicts.length,
-          conflicts: result.conflicts,
-          warnings: result.warnings
-        }
+        data: deliveries,
+        pagination: { page, limit, total, totalPages: Math.ceil(total / limit) },
       });
-
     } catch (error) {
-      console.error('Planning generation error:', error);
-      res.status(500).json({ error: 'Erreur lors de la génération du planning' });
+      console.error('Get email deliveries error:', error);
+      res.status(500).json({
+        error: 'Failed to fetch email deliveries',
+        code: 'FETCH_EMAIL_DELIVERIES_ERROR'
+      });
     }
   });
 
-  // 3. GET /api/planning/:employee_id/week/:date - Planning hebdomadaire détaillé
-  app.get('/api/planning/:employee_id/week/:date', verifyToken, async (req: any, res) => {
+  // POST /api/email/deliveries/:id/retry - Queue a failed email again (Admin only)
+  app.post('/api/email/deliveries/:id/retry', authenticateToken, authorizeRole(['admin']), async (req: AuthRequest, res: Response) => {
     try {
-      const employeeId = parseInt(req.params.employee_id);
-      const weekStart = req.params.date;
-
-      if (isNaN(employeeId)) {
-        return res.status(400).json({ error: 'ID employé invalide' });
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({
+          error: 'Invalid email delivery ID',
+          code: 'INVALID_EMAIL_DELIVERY_ID'
+        });
       }
 
-      // Vérifier que l'utilisateur a accès à cet employé (admin ou l'employé lui-même)
-      if (req.user.role !== 'admin' && req.user.employee_id !== employeeId) {
-        return res.status(403).json({ error: 'Accès non autorisé' });
+      const result = await storage.retryEmailDelivery(id);
+      if ('error' in result) {
+        return res.status(result.error === 'EMAIL_DELIVERY_NOT_FOUND' ? 404 : 409).json({
+          error: result.error === 'EMAIL_DELIVERY_NOT_FOUND' ? 'Email delivery not found' : 'Only failed emails can be retried',
+          code: result.error
+        });
       }
 
-      const weeklyPlanning = await storage.getEmployeeWeeklyPlanning(employeeId, weekStart);
-
       res.json({
-        success: true,
-        data: weeklyPlanning
+        message: 'Email queued for delivery',
+        data: result,
       });
-
     } catch (error) {
-      console.error('Weekly planning error:', error);
-      res.status(500).json({ error: 'Erreur lors de la récupération du planning hebdomadaire' });
+      console.error('Retry email delivery error:', error);
+      res.status(500).json({
+        error: 'Failed to retry email delivery',
+        code: 'RETRY_EMAIL_DELIVERY_ERROR'
+      });
     }
   });
 
-  // 4. PUT /api/planning/:id - Modifier une entrée de planning
-  app.put('/api/planning/:id', verifyToken, async (req: any, res) => {
+  // POST /api/email/test - Send a test email to the current admin, bypassing the queue (Admin only)
+  app.post('/api/email/test', authenticateToken, authorizeRole(['admin']), async (req: AuthRequest, res: Response) => {
     try {
-      const id = parseInt(req.params.id);
-      const updateData = req.body;
-
-      if (isNaN(id)) {
-        return res.status(400).json({ error: 'ID invalide' });
-      }
-
-      // Récupérer l'entrée existante  
-      const allEntries = await storage.getPlanningEntries({ 
-        startDate: '2020-01-01', 
-        endDate: '2030-12-31', 
-        limit: 1000, 
-        offset: 0 
-      });
-      const entry = allEntries.find(e => e.id === id);
-      
-      if (!entry) {
-        return res.status(404).json({ error: 'Entrée de planning non trouvée' });
+      const emailService = getEmailService();
+      if (!emailService.isEnabled()) {
+        return res.status(503).json({
+          error: 'Email channel is not configured',
+          code: 'EMAIL_DISABLED'
+        });
       }
 
-      // Vérifier les permissions
-      if (req.user.role !== 'admin' && req.user.employee_id !== entry.employeeId) {
-        return res.status(403).json({ error: 'Accès non autorisé' });
-      }
+      const info = await emailService.sendTestEmail(req.user!.email);
 
-      // Vérifier les contraintes légales si on modifie les horaires
-      if (updateData.start_time && updateData.end_time) {
-        const { checkLegalConstraints } = await import('./businessLogic');
-        const constraintCheck = await checkLegalConstraints(
-          entry.employeeId,
-          updateData.date || entry.date,
-          updateData.start_time,
-          updateData.end_time,
-          id
-        );
+      res.json({
+        success: true,
+        data: { to: req.user!.email, messageId: info.messageId },
+      });
+    } catch (error) {
+      console.error('Send test email error:', error);
+      res.status(502).json({
+        error: 'SMTP server rejected the test email',
+        code: 'EMAIL_SEND_ERROR'
+      });
+    }
+  });
 
-        if (!constraintCheck.valid) {
-          return res.status(400).json({
-            error: 'Contraintes légales non respectées',
-            conflicts: constraintCheck.conflicts
-          });
-        }
-      }
+  // ========================================
+  // PUSH API ROUTES
+  // ========================================
 
-      const updatedEntry = await storage.updatePlanningEntry(id, updateData);
+  // GET /api/push/public-key - VAPID key the browser needs to subscribe
+  app.get('/api/push/public-key', authenticateToken, async (req: AuthRequest, res: Response) => {
+    const publicKey = getPushService().getPublicKey();
+    if (!publicKey) {
+      return res.status(503).json({
+        error: 'Push notifications are not configured',
+        code: 'PUSH_DISABLED'
+      });
+    }
 
-      if (!updatedEntry) {
-        return res.status(404).json({ error: 'Entrée non trouvée' });
-      }
+    res.json({
+      success: true,
+      data: { publicKey },
+    });
+  });
 
-      // Notifier si l'entrée était déjà validée
-      if (entry.status === 'validated') {
-        await storage.createNotification({
-          user_id: entry.employeeId,
-          type: 'planning_modified',
-          title: 'Planning modifié',
-          message: `Votre planning du ${entry.date} a été modifié`,
-          priority: 'medium',
-          metadata: { entryId: id, changes: updateData }
+  // POST /api/push/subscriptions - Register this browser for push notifications
+  app.post('/api/push/subscriptions', authenticateToken, validateRequest(pushSubscriptionSchema), async (req: AuthRequest, res: Response) => {
+    try {
+      if (!getPushService().isEnabled()) {
+        return res.status(503).json({
+          error: 'Push notifications are not configured',
+          code: 'PUSH_DISABLED'
         });
       }
 
-      res.json({
-        success: true,
-        message: 'Entrée de planning mise à jour',
-        data: updatedEntry
-      });
+      const subscription = await storage.savePushSubscription(req.user!.id, req.body, req.get('user-agent'));
 
+      res.status(201).json({
+        message: 'Push subscription saved',
+        data: { id: subscription.id, endpoint: subscription.endpoint, created_at: subscription.created_at },
+      });
     } catch (error) {
-      console.error('Planning update error:', error);
-      res.status(500).json({ error: 'Erreur lors de la mise à jour' });
+      console.error('Save push subscription error:', error);
+      res.status(500).json({
+        error: 'Failed to save push subscription',
+        code: 'SAVE_PUSH_SUBSCRIPTION_ERROR'
+      });
     }
   });
 
-  // 5. POST /api/planning/bulk - Opérations en lot
-  app.post('/api/planning/bulk', verifyToken, requirePermission('admin'), async (req: any, res) => {
+  // DELETE /api/push/subscriptions - Stop push notifications on this browser
+  app.delete('/api/push/subscriptions', authenticateToken, validateRequest(pushUnsubscribeSchema), async (req: AuthRequest, res: Response) => {
     try {
-      const { operation, entries, updates } = req.body;
-
-      if (!operation || !['create', 'update', 'delete'].includes(operation)) {
-        return res.status(400).json({ error: 'Opération invalide (create, update, delete)' });
+      const deleted = await storage.deletePushSubscription(req.body.endpoint, req.user!.id);
+      if (!deleted) {
+        return res.status(404).json({
+          error: 'Push subscription not found',
+          code: 'PUSH_SUBSCRIPTION_NOT_FOUND'
+        });
       }
 
-      let result;
-
-      if (operation === 'create' && entries && Array.isArray(entries)) {
-        // Vérifier les contraintes pour chaque entrée
-        for (const entry of entries) {
-          if (entry.start_time && entry.end_time) {
-            const { checkLegalConstraints } = await import('./businessLogic');
-            const constraintCheck = await checkLegalConstraints(
-              entry.employee_id,
-              entry.date,
-              entry.start_time,
-              entry.end_time
-            );
+      res.json({ message: 'Push subscription deleted' });
+    } catch (error) {
+      console.error('Delete push subscription error:', error);
+      res.status(500).json({
+        error: 'Failed to delete push subscription',
+        code: 'DELETE_PUSH_SUBSCRIPTION_ERROR'
+      });
+    }
+  });
 
-            if (!constraintCheck.valid) {
-              return res.status(400).json({
-                error: `Contraintes légales non respectées pour l'employé ${entry.employee_id} le ${entry.date}`,
-                conflicts: constraintCheck.conflicts
-              });
-            }
-          }
-        }
+  // ========================================
+  // SCHEDULED JOBS API ROUTES
+  // ========================================
 
-        result = await storage.bulkCreatePlanningEntries(entries);
-        
-      } else if (operation === 'update' && updates && Array.isArray(updates)) {
-        result = await storage.bulkUpdatePlanningEntries(updates);
-        
-      } else {
-        return res.status(400).json({ error: 'Données invalides pour l\'opération' });
-      }
+  // GET /api/jobs - Background jobs with their schedule and last run (Admin only)
+  app.get('/api/jobs', authenticateToken, authorizeRole(['admin']), async (req: AuthRequest, res: Response) => {
+    try {
+      const jobs = await getJobScheduler().getJobStatuses();
 
       res.json({
         success: true,
-        message: `${operation} en lot effectué avec succès`,
-        data: result,
-        count: result.length
+        data: jobs,
       });
-
     } catch (error) {
-      console.error('Bulk operation error:', error);
-      res.status(500).json({ error: 'Erreur lors de l\'opération en lot' });
+      console.error('Get jobs error:', error);
+      res.status(500).json({
+        error: 'Failed to fetch jobs',
+        code: 'FETCH_JOBS_ERROR'
+      });
     }
   });
 
-  // 6. POST /api/planning/validate - Valider le planning d'un employé pour une semaine
-  app.post('/api/planning/validate', verifyToken, requirePermission('admin'), async (req: any, res) => {
+  // GET /api/jobs/:name/runs - Run history of a job, most recent first (Admin only)
+  app.get('/api/jobs/:name/runs', authenticateToken, authorizeRole(['admin']), async (req: AuthRequest, res: Response) => {
     try {
-      const { employeeId, weekStart, status, comments, rejectionReason } = req.body;
-
-      if (!employeeId || !weekStart || !status) {
-        return res.status(400).json({ 
-          error: 'employeeId, weekStart et status sont requis' 
+      if (!getJobScheduler().hasJob(req.params.name)) {
+        return res.status(404).json({
+          error: 'Job not found',
+          code: 'JOB_NOT_FOUND'
         });
       }
 
-      if (!['validated', 'rejected', 'partially_validated'].includes(status)) {
-        return res.status(400).json({ 
-          error: 'Status invalide (validated, rejected, partially_validated)' 
+      const queryValidation = jobRunQuerySchema.safeParse(req.query);
+      if (!queryValidation.success) {
+        return res.status(400).json({
+          error: 'Invalid query parameters',
+          code: 'VALIDATION_ERROR',
+          details: queryValidation.error.errors,
         });
       }
 
-      // Vérifier si une validation existe déjà
-      let validation = await storage.getValidationByEmployeeAndWeek(employeeId, weekStart);
+      const runs = await storage.getJobRuns(req.params.name, queryValidation.data.limit);
 
-      const validationData = {
-        employee_id: employeeId,
-        week_start_date: weekStart,
-        status,
-        validated_by: req.user.employee_id,
-        validated_at: new Date(),
-        comments,
-        rejection_reason: rejectionReason,
-        updated_at: new Date()
-      };
+      res.json({
+        success: true,
+        data: runs,
+      });
+    } catch (error) {
+      console.error('Get job runs error:', error);
+      res.status(500).json({
+        error: 'Failed to fetch job runs',
+        code: 'FETCH_JOB_RUNS_ERROR'
+      });
+    }
+  });
 
-      if (validation) {
-        // Mettre à jour
-        validation = await storage.updateValidation(validation.id, validationData);
-      } else {
-        // Créer nouvelle validation
-        validation = await storage.createValidation({
-          ...validationData,
-          created_at: new Date()
+  // POST /api/jobs/:name/run - Run a job now and wait for the result (Admin only)
+  app.post('/api/jobs/:name/run', authenticateToken, authorizeRole(['admin']), async (req: AuthRequest, res: Response) => {
+    try {
+      const scheduler = getJobScheduler();
+      if (!scheduler.hasJob(req.params.name)) {
+        return res.status(404).json({
+          error: 'Job not found',
+          code: 'JOB_NOT_FOUND'
         });
       }
 
-      // Mettre à jour le statut de toutes les entrées de planning de la semaine
-      const weekEnd = new Date(weekStart);
-      weekEnd.setDate(weekEnd.getDate() + 6);
-      const weekEndStr = weekEnd.toISOString().split('T')[0];
+      const outcome = await scheduler.runJob(req.params.name, 'manual');
+      if ('error' in outcome) {
+        return res.status(409).json({
+          error: 'Job is already running',
+          code: outcome.error
+        });
+      }
 
-      const weekEntries = await storage.getPlanningEntries({
-        startDate: weekStart,
-        endDate: weekEndStr,
-        employeeId,
-        limit: 100,
-        offset: 0
+      res.json({
+        message: outcome.run.status === 'succeeded' ? 'Job completed' : 'Job failed',
+        data: outcome.run,
+      });
+    } catch (error) {
+      console.error('Run job error:', error);
+      res.status(500).json({
+        error: 'Failed to run job',
+        code: 'RUN_JOB_ERROR'
       });
+    }
+  });
 
-      // Mettre à jour chaque entrée
-      const updatePromises = weekEntries.map(entry => 
-        storage.updatePlanningEntry(entry.id, { 
-          status,
-          validated_by: req.user.employee_id,
-          validated_at: new Date()
-        })
-      );
+  // ========================================
+  // AUDIT LOG API ROUTES
+  // ========================================
 
-      await Promise.all(updatePromises);
+  // Rows in one audit export; narrow the filters beyond that
+  const AUDIT_EXPORT_LIMIT = 10000;
 
-      // Envoyer notification à l'employé
-      const statusMessages = {
-        validated: 'validé et approuvé',
-        rejected: 'rejeté',
-        partially_validated: 'partiellement validé'
-      };
+  // GET /api/audit-logs - Changes made through the API, most recent first (company-wide audit:read)
+  app.get('/api/audit-logs', authenticateToken, requirePermission('audit:read', 'all'), async (req: AuthRequest, res: Response) => {
+    try {
+      const queryValidation = auditLogQuerySchema.safeParse(req.query);
+      if (!queryValidation.success) {
+        return res.status(400).json({
+          error: 'Invalid query parameters',
+          code: 'VALIDATION_ERROR',
+          details: queryValidation.error.errors,
+        });
+      }
 
-      await storage.createNotification({
-        user_id: employeeId,
-        type: 'validation_required',
-        title: 'Planning validé',
-        message: `Votre planning de la semaine du ${weekStart} a été ${statusMessages[status]}`,
-        priority: status === 'rejected' ? 'high' : 'medium',
-        metadata: { 
-          weekStart, 
-          status, 
-          comments,
-          validatedBy: req.user.employee_id 
-        }
-      });
+      const { page, limit } = queryValidation.data;
+      const result = await storage.getAuditLogs(queryValidation.data);
+      const totalPages = Math.ceil(result.total / limit);
 
       res.json({
         success: true,
-        message: 'Planning validé avec succès',
-        data: {
-          validation,
-          entriesUpdated: weekEntries.length
-        }
+        data: result.data,
+        pagination: {
+          page,
+          limit,
+          total: result.total,
+          totalPages,
+          hasNext: page < totalPages,
+          hasPrev: page > 1,
+        },
       });
-
     } catch (error) {
-      console.error('Planning validation error:', error);
-      res.status(500).json({ error: 'Erreur lors de la validation du planning' });
+      console.error('Get audit logs error:', error);
+      res.status(500).json({
+        error: 'Failed to fetch audit logs',
+        code: 'FETCH_AUDIT_LOGS_ERROR'
+      });
     }
   });
 
-  // 7. GET /api/planning/conflicts - Détecter les conflits de planning
-  app.get('/api/planning/conflicts', verifyToken, async (req: any, res) => {
+  // GET /api/audit-logs/export - Filtered audit log as a CSV file (company-wide audit:read)
+  app.get('/api/audit-logs/export', authenticateToken, requirePermission('audit:read', 'all'), async (req: AuthRequest, res: Response) => {
     try {
-      const { employeeId, startDate, endDate } = req.query;
-
-      // Pour l'instant, simuler la détection de conflits basée sur les heures journalières max
-      const planningData = await storage.getPlanningEntries({
-        startDate,
-        endDate,
-        employeeId: employeeId ? parseInt(employeeId) : undefined,
-        limit: 1000,
-        offset: 0
+      const queryValidation = auditLogQuerySchema.safeParse(req.query);
+      if (!queryValidation.success) {
+        return res.status(400).json({
+          error: 'Invalid query parameters',
+          code: 'VALIDATION_ERROR',
+          details: queryValidation.error.errors,
+        });
+      }
+
+      const result = await storage.getAuditLogs({ ...queryValidation.data, page: 1, limit: AUDIT_EXPORT_LIMIT });
+      if (result.total > AUDIT_EXPORT_LIMIT) {
+        return res.status(413).json({
+          error: `Too many audit entries to export (${result.total}), narrow the filters`,
+          code: 'AUDIT_EXPORT_TOO_LARGE'
+        });
+      }
+
+      const filename = `journal-audit-${new Date().toISOString().split('T')[0]}.csv`;
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+      // BOM so spreadsheet software reads the accents correctly
+      res.send('\uFEFF' + formatAuditLogCsv(result.data));
+    } catch (error) {
+      console.error('Audit log export error:', error);
+      res.status(500).json({
+        error: 'Failed to export audit logs',
+        code: 'EXPORT_AUDIT_LOGS_ERROR'
       });
+    }
+  });
 
-      const conflicts: any[] = [];
-      
-      // Vérifier les heures journalières (max 10h selon la loi française)
-      const dailyHours: Record<string, Record<number, number>> = {};
+  // ========================================
+  // PLANNING API ENDPOINTS
+  // ========================================
+
+  // 1. GET /api/planning - Récupérer les entrées de planning avec filtres
+  app.get('/api/planning', verifyToken, async (req: any, res) => {
+    try {
+      const {
+        startDate,
+        endDate,
+        employeeId,
+        departmentId,
+        status,
+        type,
+        search,
+        sortBy,
+        sortOrder,
+        groupBy,
+        limit = 20,
+        offset = 0,
+        page
+      } = req.query;
+
+      // Validation des paramètres
+      if (!startDate || !endDate) {
+        return res.status(400).json({ 
+          error: 'Les paramètres startDate et endDate sont requis',
+          code: 'MISSING_DATE_PARAMS'
+        });
+      }
+
+      // Prepare filters for QueryBuilder integration
+      const filters = {
+        startDate,
+        endDate,
+        employeeId: employeeId ? parseInt(employeeId) : undefined,
+        departmentId: departmentId ? parseInt(departmentId) : undefined,
+        status,
+        type,
+        search,
+        sortBy,
+        sortOrder,
+        limit: parseInt(limit),
+        offset: parseInt(offset),
+        page: page ? parseInt(page) : Math.floor(parseInt(offset) / parseInt(limit)) + 1
+      };
+
+      // Use the improved QueryBuilder-based method, restricted to the planning:read scope
+      const permittedEmployeeIds = await getPermittedEmployeeIds(req, 'planning:read');
+      const result = await storage.getPlanningEntriesAdvanced({
+        ...filters,
+        employeeIds: permittedEmployeeIds ?? undefined,
+      });
+
+      // Group by day if requested (post-processing)
+      let responseData = result.data;
+      if (groupBy === 'day') {
+        const groupedByDay: Record<string, any[]> = {};
+        result.data.forEach(entry => {
+          const date = entry.date;
+          if (!groupedByDay[date]) {
+            groupedByDay[date] = [];
+          }
+          groupedByDay[date].push(entry);
+        });
+        responseData = groupedByDay;
+      }
+
+      res.json({
+        success: true,
+        message: 'Planning retrieved successfully',
+        data: responseData,
+        pagination: {
+          page: result.page,
+          limit: parseInt(limit),
+          total: result.total,
+          totalPages: result.totalPages,
+          hasNext: result.page < result.totalPages,
+          hasPrev: result.page > 1,
+        },
+        filters: {
+          ...filters,
+          applied: Object.keys(filters).filter(key => 
+            filters[key] !== undefined && filters[key] !== null && filters[key] !== ''
+          )
+        }
+      });
+
+    } catch (error) {
+      console.error('Planning fetch error:', error);
+      res.status(500).json({ 
+        error: 'Erreur lors de la récupération du planning',
+        code: 'PLANNING_FETCH_ERROR'
+      });
+    }
+  });
+
+  // 2. POST /api/planning/generate - Générer un planning automatique
+  app.post('/api/planning/generate', verifyToken, requirePermission('planning:write', 'all'), validateRequest(generatePlanningSchema), async (req: any, res) => {
+    try {
+      const {
+        employee_ids: employeeIds,
+        department_id: departmentId,
+        start_date: startDate,
+        end_date: endDate,
+        template_id: templateId,
+        respect_constraints: respectConstraints
+      } = req.body;
+
+      if (templateId && !(await storage.getPlanningTemplate(templateId))) {
+        return res.status(404).json({
+          error: 'Modèle de planning non trouvé',
+          code: 'PLANNING_TEMPLATE_NOT_FOUND'
+        });
+      }
+
+      if (await rejectClosedPayPeriod(res, [startDate])) return;
+
+      const result = await storage.generatePlanning({
+        employeeIds,
+        departmentId,
+        startDate,
+        endDate,
+        templateId,
+        respectConstraints
+      });
+
+      // Envoyer des notifications pour les conflits
+      if (result.conflicts.length > 0) {
+        for (const conflict of result.conflicts) {
+          await storage.createNotification({
+            user_id: req.user.id,
+            type: 'schedule_conflict',
+            title: 'Conflit de planning détecté',
+            message: conflict.description,
+            priority: 'high',
+            metadata: { conflict }
+          });
+        }
+      }
+
+      publishPlanningChanges(req.user.id, { created: result.generatedEntries });
+
+      res.json({
+        success: true,
+        message: `${result.generatedEntries.length} entrées générées`,
+        data: {
+          generatedEntries: result.generatedEntries,
+          conflictsCount: result.conflicts.length,
+          conflicts: result.conflicts,
+          warnings: result.warnings
+        }
+      });
+
+    } catch (error) {
+      console.error('Planning generation error:', error);
+      res.status(500).json({ error: 'Erreur lors de la génération du planning' });
+    }
+  });
+
+  // 3. GET /api/planning/:employee_id/week/:date - Planning hebdomadaire détaillé
+  app.get('/api/planning/:employee_id/week/:date', verifyToken, async (req: any, res) => {
+    try {
+      const employeeId = parseInt(req.params.employee_id);
+      const weekStart = req.params.date;
+
+      if (isNaN(employeeId)) {
+        return res.status(400).json({ error: 'ID employé invalide' });
+      }
+
+      // Vérifier que l'employé est dans le périmètre de planning:read de l'utilisateur
+      if (await rejectEmployeesOutOfScope(req, res, 'planning:read', [employeeId])) return;
+
+      const weeklyPlanning = await storage.getEmployeeWeeklyPlanning(employeeId, weekStart);
+
+      res.json({
+        success: true,
+        data: weeklyPlanning
+      });
+
+    } catch (error) {
+      console.error('Weekly planning error:', error);
+      res.status(500).json({ error: 'Erreur lors de la récupération du planning hebdomadaire' });
+    }
+  });
+
+  // 4. PUT /api/planning/:id - Modifier une entrée de planning
+  app.put('/api/planning/:id', verifyToken, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const updateData = req.body;
+
+      if (isNaN(id)) {
+        return res.status(400).json({ error: 'ID invalide' });
+      }
+
+      // Récupérer l'entrée existante  
+      const allEntries = await storage.getPlanningEntries({ 
+        startDate: '2020-01-01', 
+        endDate: '2030-12-31', 
+        limit: 1000, 
+        offset: 0 
+      });
+      const entry = allEntries.find(e => e.id === id);
       
-      for (const entry of planningData) {
-        const date = entry.date;
-        const empId = entry.employeeId;
-        
-        if (!dailyHours[date]) dailyHours[date] = {};
-        if (!dailyHours[date][empId]) dailyHours[date][empId] = 0;
-        
-        if (entry.startTime && entry.endTime && entry.type === 'work') {
-          const start = new Date(`1970-01-01T${entry.startTime}:00`);
-          const end = new Date(`1970-01-01T${entry.endTime}:00`);
-          const hours = (end.getTime() - start.getTime()) / (1000 * 60 * 60);
-          dailyHours[date][empId] += hours;
+      if (!entry) {
+        return res.status(404).json({ error: 'Entrée de planning non trouvée' });
+      }
+
+      // Vérifier les permissions
+      if (await rejectEmployeesOutOfScope(req, res, 'planning:write', [entry.employeeId])) return;
+
+      if (await rejectClosedPayPeriod(res, [entry.date, updateData.date])) return;
+
+      // Vérifier les contraintes légales si on modifie les horaires
+      if (updateData.start_time && updateData.end_time) {
+        const { checkLegalConstraints } = await import('./businessLogic');
+        const constraintCheck = await checkLegalConstraints(
+          entry.employeeId,
+          updateData.date || entry.date,
+          updateData.start_time,
+          updateData.end_time,
+          id
+        );
+
+        if (!constraintCheck.valid) {
+          return res.status(400).json({
+            error: 'Contraintes légales non respectées',
+            conflicts: constraintCheck.conflicts
+          });
         }
       }
-      
-      // Détecter les conflits d'heures journalières
-      for (const [date, employees] of Object.entries(dailyHours)) {
-        for (const [empId, hours] of Object.entries(employees)) {
-          if (hours > 10) {
-            conflicts.push({
-              type: 'max_daily_hours',
-              severity: 'error',
-              employeeId: parseInt(empId),
-              date,
-              description: `Dépassement de 10h journalières: ${hours}h planifiées`,
-              suggestion: 'Réduire les heures de travail ou répartir sur plusieurs jours'
-            });
+
+      const updatedEntry = await storage.updatePlanningEntry(id, updateData);
+
+      if (!updatedEntry) {
+        return res.status(404).json({ error: 'Entrée non trouvée' });
+      }
+
+      publishPlanningChanges(req.user.id, { updated: [updatedEntry] });
+
+      // Notifier si l'entrée était déjà validée
+      if (entry.status === 'validated') {
+        await storage.createNotification({
+          user_id: entry.employeeId,
+          type: 'planning_modified',
+          title: 'Planning modifié',
+          message: `Votre planning du ${entry.date} a été modifié`,
+          priority: 'medium',
+          metadata: { entryId: id, changes: updateData }
+        });
+      }
+
+      res.json({
+        success: true,
+        message: 'Entrée de planning mise à jour',
+        data: updatedEntry
+      });
+
+    } catch (error) {
+      console.error('Planning update error:', error);
+      res.status(500).json({ error: 'Erreur lors de la mise à jour' });
+    }
+  });
+
+  // 5. POST /api/planning/bulk - Opérations en lot
+  app.post('/api/planning/bulk', verifyToken, requirePermission('planning:write', 'all'), async (req: any, res) => {
+    try {
+      const { operation, entries, updates } = req.body;
+
+      if (!operation || !['create', 'update', 'delete'].includes(operation)) {
+        return res.status(400).json({ error: 'Opération invalide (create, update, delete)' });
+      }
+
+      const existingDates = Array.isArray(updates)
+        ? await storage.getEntryDates('planning_entry', updates.map((update: any) => update.id))
+        : [];
+      const newDates = [...(entries ?? []), ...(updates ?? []).map((update: any) => update.data ?? {})]
+        .map((entry: any) => entry.date);
+      if (await rejectClosedPayPeriod(res, [...existingDates, ...newDates])) return;
+
+      let result;
+
+      if (operation === 'create' && entries && Array.isArray(entries)) {
+        // Vérifier les contraintes pour chaque entrée
+        for (const entry of entries) {
+          if (entry.start_time && entry.end_time) {
+            const { checkLegalConstraints } = await import('./businessLogic');
+            const constraintCheck = await checkLegalConstraints(
+              entry.employee_id,
+              entry.date,
+              entry.start_time,
+              entry.end_time
+            );
+
+            if (!constraintCheck.valid) {
+              return res.status(400).json({
+                error: `Contraintes légales non respectées pour l'employé ${entry.employee_id} le ${entry.date}`,
+                conflicts: constraintCheck.conflicts
+              });
+            }
+          }
+        }
+
+        result = await storage.bulkCreatePlanningEntries(entries);
+        publishPlanningChanges(req.user.id, { created: result });
+        
+      } else if (operation === 'update' && updates && Array.isArray(updates)) {
+        result = await storage.bulkUpdatePlanningEntries(updates);
+        publishPlanningChanges(req.user.id, { updated: result ?? [] });
+        
+      } else {
+        return res.status(400).json({ error: 'Données invalides pour l\'opération' });
+      }
+
+      res.json({
+        success: true,
+        message: `${operation} en lot effectué avec succès`,
+        data: result,
+        count: result.length
+      });
+
+    } catch (error) {
+      console.error('Bulk operation error:', error);
+      res.status(500).json({ error: 'Erreur lors de l\'opération en lot' });
+    }
+  });
+
+  // 6. POST /api/planning/validate - Valider le planning d'un employé pour une semaine
+  app.post('/api/planning/validate', verifyToken, requirePermission('validations:decide', 'all'), async (req: any, res) => {
+    try {
+      const { employeeId, weekStart, status, comments, rejectionReason } = req.body;
+
+      if (!employeeId || !weekStart || !status) {
+        return res.status(400).json({ 
+          error: 'employeeId, weekStart et status sont requis' 
+        });
+      }
+
+      if (!['validated', 'rejected', 'partially_validated'].includes(status)) {
+        return res.status(400).json({ 
+          error: 'Status invalide (validated, rejected, partially_validated)' 
+        });
+      }
+
+      if (await rejectClosedPayPeriod(res, [weekStart])) return;
+
+      // Vérifier si une validation existe déjà
+      let validation = await storage.getValidationByEmployeeAndWeek(employeeId, weekStart);
+
+      const validationData = {
+        employee_id: employeeId,
+        week_start_date: weekStart,
+        status,
+        validated_by: req.user.employee_id,
+        validated_at: new Date(),
+        comments,
+        rejection_reason: rejectionReason,
+        updated_at: new Date()
+      };
+
+      if (validation) {
+        // Mettre à jour
+        validation = await storage.updateValidation(validation.id, validationData);
+      } else {
+        // Créer nouvelle validation
+        validation = await storage.createValidation({
+          ...validationData,
+          created_at: new Date()
+        });
+      }
+
+      // Mettre à jour le statut de toutes les entrées de planning de la semaine
+      const weekEnd = new Date(weekStart);
+      weekEnd.setDate(weekEnd.getDate() + 6);
+      const weekEndStr = weekEnd.toISOString().split('T')[0];
+
+      const weekEntries = await storage.getPlanningEntries({
+        startDate: weekStart,
+        endDate: weekEndStr,
+        employeeId,
+        limit: 100,
+        offset: 0
+      });
+
+      // Mettre à jour chaque entrée
+      const updatePromises = weekEntries.map(entry => 
+        storage.updatePlanningEntry(entry.id, { 
+          status,
+          validated_by: req.user.employee_id,
+          validated_at: new Date()
+        })
+      );
+
+      const updatedEntries = await Promise.all(updatePromises);
+      publishPlanningChanges(req.user.id, { updated: updatedEntries.flatMap(entry => entry ? [entry] : []) });
+
+      // Envoyer notification à l'employé
+      const statusMessages = {
+        validated: 'validé et approuvé',
+        rejected: 'rejeté',
+        partially_validated: 'partiellement validé'
+      };
+
+      await storage.createNotification({
+        user_id: employeeId,
+        type: 'validation_required',
+        title: 'Planning validé',
+        message: `Votre planning de la semaine du ${weekStart} a été ${statusMessages[status]}`,
+        priority: status === 'rejected' ? 'high' : 'medium',
+        metadata: { 
+          weekStart, 
+          status, 
+          comments,
+          validatedBy: req.user.employee_id 
+        }
+      });
+
+      res.json({
+        success: true,
+        message: 'Planning validé avec succès',
+        data: {
+          validation,
+          entriesUpdated: weekEntries.length
+        }
+      });
+
+    } catch (error) {
+      console.error('Planning validation error:', error);
+      res.status(500).json({ error: 'Erreur lors de la validation du planning' });
+    }
+  });
+
+  // 7. GET /api/planning/conflicts - Détecter les conflits de planning
+  app.get('/api/planning/conflicts', verifyToken, async (req: any, res) => {
+    try {
+      const { employeeId, startDate, endDate } = req.query;
+
+      // Pour l'instant, simuler la détection de conflits basée sur les heures journalières max
+      const planningData = await storage.getPlanningEntries({
+        startDate,
+        endDate,
+        employeeId: employeeId ? parseInt(employeeId) : undefined,
+        limit: 1000,
+        offset: 0
+      });
+
+      const conflicts: any[] = [];
+      
+      // Vérifier les heures journalières (max 10h selon la loi française)
+      const dailyHours: Record<string, Record<number, number>> = {};
+      
+      for (const entry of planningData) {
+        const date = entry.date;
+        const empId = entry.employeeId;
+        
+        if (!dailyHours[date]) dailyHours[date] = {};
+        if (!dailyHours[date][empId]) dailyHours[date][empId] = 0;
+        
+        if (entry.startTime && entry.endTime && entry.type === 'work') {
+          const start = new Date(`1970-01-01T${entry.startTime}:00`);
+          const end = new Date(`1970-01-01T${entry.endTime}:00`);
+          const hours = (end.getTime() - start.getTime()) / (1000 * 60 * 60);
+          dailyHours[date][empId] += hours;
+        }
+      }
+      
+      // Détecter les conflits d'heures journalières
+      for (const [date, employees] of Object.entries(dailyHours)) {
+        for (const [empId, hours] of Object.entries(employees)) {
+          if (hours > 10) {
+            conflicts.push({
+              type: 'max_daily_hours',
+              severity: 'error',
+              employeeId: parseInt(empId),
+              date,
+              description: `Dépassement de 10h journalières: ${hours}h planifiées`,
+              suggestion: 'Réduire les heures de travail ou répartir sur plusieurs jours'
+            });
+          }
+        }
+      }
+
+      // Grouper les conflits par type et gravité
+      const conflictSummary = conflicts.reduce((acc, conflict) => {
+        const key = `${conflict.type}_${conflict.severity}`;
+        if (!acc[key]) {
+          acc[key] = { type: conflict.type, severity: conflict.severity, count: 0 };
+        }
+        acc[key].count++;
+        return acc;
+      }, {} as Record<string, any>);
+
+      res.json({
+        success: true,
+        data: {
+          conflicts,
+          totalCount: conflicts.length,
+          summary: Object.values(conflictSummary),
+          hasErrors: conflicts.some(c => c.severity === 'error'),
+          hasWarnings: conflicts.some(c => c.severity === 'warning')
+        }
+      });
+
+    } catch (error) {
+      console.error('Conflict detection error:', error);
+      res.status(500).json({ error: 'Erreur lors de la détection des conflits' });
+    }
+  });
+
+  // ========================================
+  // NOTIFICATIONS ROUTES
+  // ========================================
+  
+  // Get notifications with pagination and filters
+  app.get('/api/notifications', authenticateToken, async (req: AuthRequest, res: Response) => {
+    try {
+      const userId = req.user!.id;
+      const page = parseInt(req.query.page as string) || 1;
+      const limit = parseInt(req.query.limit as string) || 20;
+      const type = req.query.type as string;
+      const isRead = req.query.isRead ? req.query.isRead === 'true' : undefined;
+      const search = req.query.search as string;
+
+      const notifications = await storage.getNotifications({
+        userId,
+        page,
+        limit,
+        type,
+        isRead,
+        search
+      });
+
+      const unreadCount = await storage.getUnreadNotificationCount(userId);
+
+      res.json({
+        data: {
+          notifications,
+          unreadCount,
+          hasMore: notifications.length === limit
+        }
+      });
+    } catch (error) {
+      console.error('Error fetching notifications:', error);
+      res.status(500).json({ message: 'Erreur lors de la récupération des notifications' });
+    }
+  });
+
+  // Mark notification as read
+  app.patch('/api/notifications/:id/read', authenticateToken, async (req: AuthRequest, res: Response) => {
+    try {
+      const notificationId = parseInt(req.params.id);
+      const userId = req.user!.id;
+
+      await storage.markNotificationAsRead(notificationId, userId);
+      
+      res.json({ message: 'Notification marquée comme lue' });
+    } catch (error) {
+      console.error('Error marking notification as read:', error);
+      res.status(500).json({ message: 'Erreur lors de la mise à jour de la notification' });
+    }
+  });
+
+  // Mark all notifications as read
+  app.patch('/api/notifications/read-all', authenticateToken, async (req: AuthRequest, res: Response) => {
+    try {
+      const userId = req.user!.id;
+
+      await storage.markAllNotificationsAsRead(userId);
+      
+      res.json({ message: 'Toutes les notifications marquées comme lues' });
+    } catch (error) {
+      console.error('Error marking all notifications as read:', error);
+      res.status(500).json({ message: 'Erreur lors de la mise à jour des notifications' });
+    }
+  });
+
+  // Delete notification
+  app.delete('/api/notifications/:id', authenticateToken, async (req: AuthRequest, res: Response) => {
+    try {
+      const notificationId = parseInt(req.params.id);
+      const userId = req.user!.id;
+
+      await storage.deleteNotification(notificationId, userId);
+      
+      res.json({ message: 'Notification supprimée' });
+    } catch (error) {
+      console.error('Error deleting notification:', error);
+      res.status(500).json({ message: 'Erreur lors de la suppression de la notification' });
+    }
+  });
+
+  // Get notification preferences, with the channels applied to each notification type
+  app.get('/api/notifications/preferences', authenticateToken, async (req: AuthRequest, res: Response) => {
+    try {
+      const userId = req.user!.id;
+
+      const preferences = await storage.getNotificationPreferences(userId);
+      
+      res.json({
+        data: {
+          ...preferences,
+          channels: Object.fromEntries(NOTIFICATION_TYPES.map(type => [type, getTypeChannels(preferences, type)])),
+        },
+      });
+    } catch (error) {
+      console.error('Error fetching notification preferences:', error);
+      res.status(500).json({ message: 'Erreur lors de la récupération des préférences' });
+    }
+  });
+
+  // Update notification preferences; notification types left out keep their channels
+  app.patch('/api/notifications/preferences', authenticateToken, validateRequest(updateNotificationPreferencesSchema), async (req: AuthRequest, res: Response) => {
+    try {
+      const userId = req.user!.id;
+
+      const preferences = await storage.updateNotificationPreferences(userId, req.body);
+      
+      res.json({ message: 'Préférences mises à jour', data: preferences });
+    } catch (error) {
+      console.error('Error updating notification preferences:', error);
+      res.status(500).json({ message: 'Erreur lors de la mise à jour des préférences' });
+    }
+  });
+
+  // ========================================
+  // EXPORT ROUTES - New comprehensive implementation
+  // ========================================
+  
+  app.post('/api/export/comprehensive', authenticateToken, requirePermission('reports:read'), async (req: AuthRequest, res: Response) => {
+    try {
+      const exportOptions: ExportOptions = req.body;
+      
+      // Validate export options
+      const { type, format, dateRange, employeeIds, departmentFilter } = exportOptions;
+      
+      if (!type || !format || !dateRange) {
+        return res.status(400).json({ 
+          message: 'Type, format et période requis' 
+        });
+      }
+
+      // Permission check - only the employees within the reports:read scope
+      const scopedEmployeeIds = await resolveScopedEmployeeIds(req, res, 'reports:read', employeeIds);
+      if (scopedEmployeeIds === undefined) return;
+      const allowedEmployeeIds = scopedEmployeeIds ?? employeeIds;
+
+      // Fetch data based on filters
+      const employees = await storage.getEmployees({
+        departmentFilter,
+        ids: allowedEmployeeIds
+      });
+
+      const timeEntries = await storage.getTimeEntries({
+        startDate: dateRange.start,
+        endDate: dateRange.end,
+        employeeIds: allowedEmployeeIds
+      });
+
+      const planningEntries = await storage.getPlanningEntries({
+        startDate: dateRange.start,
+        endDate: dateRange.end,
+        employeeIds: allowedEmployeeIds
+      });
+
+      const exportData = {
+        employees: employees.map(emp => ({
+          id: emp.id,
+          firstName: emp.firstName,
+          lastName: emp.lastName,
+          email: emp.email,
+          position: emp.position,
+          department: emp.department,
+          contractType: emp.contractType || 'CDI',
+          weeklyHours: emp.weeklyHours || 35
+        })),
+        timeEntries: timeEntries.map(entry => ({
+          id: entry.id,
+          employeeId: entry.employeeId,
+          employeeName: `${employees.find(e => e.id === entry.employeeId)?.firstName} ${employees.find(e => e.id === entry.employeeId)?.lastName}`,
+          clockIn: entry.clockIn || '',
+          clockOut: entry.clockOut || undefined,
+          type: entry.type as 'work' | 'break',
+          duration: entry.duration || 0,
+          date: entry.date || new Date().toISOString().split('T')[0]
+        })),
+        planningEntries: planningEntries.map(entry => ({
+          id: entry.id,
+          employeeId: entry.employeeId,
+          employeeName: `${employees.find(e => e.id === entry.employeeId)?.firstName} ${employees.find(e => e.id === entry.employeeId)?.lastName}`,
+          startTime: entry.startTime,
+          endTime: entry.endTime,
+          type: entry.type as 'work' | 'break' | 'vacation' | 'sick',
+          status: entry.status as 'planned' | 'validated' | 'rejected',
+          date: entry.date
+        }))
+      };
+
+      if (format === 'excel') {
+        await newExportService.generateExcelExport(exportData, exportOptions, res);
+      } else if (format === 'pdf') {
+        // Import PDF service 
+        const { pdfService } = await import('./services/pdf.service');
+        await pdfService.generatePDF(exportData, exportOptions, res);
+      } else {
+        res.status(400).json({ message: 'Format non supporté' });
+      }
+
+    } catch (error) {
+      console.error('Comprehensive export error:', error);
+      res.status(500).json({ 
+        message: 'Erreur lors de l\'export',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  });
+
+  // ========================================
+  
+  // Initialize Export Service
+  const exportServiceInstance = new ExportService(storage);
+
+  // GET /api/planning/export - Export planning data
+  app.get('/api/planning/export', authenticateToken, requirePermission('reports:read'), async (req: AuthRequest, res: Response) => {
+    try {
+      const { format = 'excel', period = 'week', startDate, endDate, employeeIds } = req.query;
+      
+      // Parse employeeIds if provided
+      let parsedEmployeeIds: number[] | undefined;
+      if (employeeIds) {
+        parsedEmployeeIds = Array.isArray(employeeIds) 
+          ? employeeIds.map(id => parseInt(id as string)).filter(id => !isNaN(id))
+          : [parseInt(employeeIds as string)].filter(id => !isNaN(id));
+      }
+      
+      // Validate format
+      if (!['excel', 'pdf'].includes(format as string)) {
+        return res.status(400).json({
+          error: 'Invalid format. Must be excel or pdf',
+          code: 'INVALID_FORMAT'
+        });
+      }
+
+      // Permission check: only the employees within the reports:read scope
+      const scopedEmployeeIds = await resolveScopedEmployeeIds(req, res, 'reports:read', parsedEmployeeIds);
+      if (scopedEmployeeIds === undefined) return;
+      parsedEmployeeIds = scopedEmployeeIds ?? parsedEmployeeIds;
+
+      await exportServiceInstance.exportPlanning({
+        format: format as 'excel' | 'pdf',
+        period: period as string,
+        startDate: startDate as string,
+        endDate: endDate as string,
+        employeeIds: parsedEmployeeIds
+      }, res);
+
+    } catch (error) {
+      console.error('Planning export error:', error);
+      res.status(500).json({
+        error: 'Failed to export planning data',
+        code: 'EXPORT_PLANNING_ERROR'
+      });
+    }
+  });
+
+  // GET /api/time-entries/export - Export time entries data
+  app.get('/api/time-entries/export', authenticateToken, requirePermission('reports:read'), async (req: AuthRequest, res: Response) => {
+    try {
+      const { format = 'excel', startDate, endDate, employeeIds, projectIds } = req.query;
+      
+      // Parse IDs if provided
+      let parsedEmployeeIds: number[] | undefined;
+      if (employeeIds) {
+        parsedEmployeeIds = Array.isArray(employeeIds) 
+          ? employeeIds.map(id => parseInt(id as string)).filter(id => !isNaN(id))
+          : [parseInt(employeeIds as string)].filter(id => !isNaN(id));
+      }
+
+      let parsedProjectIds: number[] | undefined;
+      if (projectIds) {
+        parsedProjectIds = Array.isArray(projectIds) 
+          ? projectIds.map(id => parseInt(id as string)).filter(id => !isNaN(id))
+          : [parseInt(projectIds as string)].filter(id => !isNaN(id));
+      }
+      
+      // Validate format
+      if (!['excel', 'pdf'].includes(format as string)) {
+        return res.status(400).json({
+          error: 'Invalid format. Must be excel or pdf',
+          code: 'INVALID_FORMAT'
+        });
+      }
+
+      // Permission check: only the employees within the reports:read scope
+      const scopedEmployeeIds = await resolveScopedEmployeeIds(req, res, 'reports:read', parsedEmployeeIds);
+      if (scopedEmployeeIds === undefined) return;
+      parsedEmployeeIds = scopedEmployeeIds ?? parsedEmployeeIds;
+
+      await exportServiceInstance.exportTimeEntries({
+        format: format as 'excel' | 'pdf',
+        startDate: startDate as string,
+        endDate: endDate as string,
+        employeeIds: parsedEmployeeIds,
+        projectIds: parsedProjectIds
+      }, res);
+
+    } catch (error) {
+      console.error('Time entries export error:', error);
+      res.status(500).json({
+        error: 'Failed to export time entries data',
+        code: 'EXPORT_TIME_ENTRIES_ERROR'
+      });
+    }
+  });
+
+  // GET /api/reports/monthly/:employee_id - Export monthly report for specific employee
+  app.get('/api/reports/monthly/:employee_id', authenticateToken, requirePermission('reports:read'), async (req: AuthRequest, res: Response) => {
+    try {
+      const employeeId = parseInt(req.params.employee_id);
+      if (isNaN(employeeId)) {
+        return res.status(400).json({
+          error: 'Invalid employee ID',
+          code: 'INVALID_EMPLOYEE_ID'
+        });
+      }
+
+      const { format = 'pdf', month } = req.query;
+      
+      // Validate format
+      if (!['excel', 'pdf'].includes(format as string)) {
+        return res.status(400).json({
+          error: 'Invalid format. Must be excel or pdf',
+          code: 'INVALID_FORMAT'
+        });
+      }
+
+      // Validate month format (YYYY-MM)
+      const monthRegex = /^\d{4}-\d{2}$/;
+      if (!month || !monthRegex.test(month as string)) {
+        return res.status(400).json({
+          error: 'Invalid month format. Must be YYYY-MM',
+          code: 'INVALID_MONTH_FORMAT'
+        });
+      }
+
+      // Permission check: only the reports of employees within the reports:read scope
+      if (await rejectEmployeesOutOfScope(req, res, 'reports:read', [employeeId])) return;
+
+      // Verify employee exists
+      const employee = await storage.getEmployee(employeeId);
+      if (!employee) {
+        return res.status(404).json({
+          error: 'Employee not found',
+          code: 'EMPLOYEE_NOT_FOUND'
+        });
+      }
+
+      await exportServiceInstance.exportMonthlyReport(
+        employeeId,
+        month as string,
+        { format: format as 'excel' | 'pdf' },
+        res
+      );
+
+    } catch (error) {
+      console.error('Monthly report export error:', error);
+      res.status(500).json({
+        error: 'Failed to export monthly report',
+        code: 'EXPORT_MONTHLY_REPORT_ERROR'
+      });
+    }
+  });
+
+  // GET /api/reports/export-options - Get available export options and formats
+  app.get('/api/reports/export-options', authenticateToken, async (req: AuthRequest, res: Response) => {
+    try {
+      const isAdmin = req.user!.role === 'admin';
+      const currentEmployee = await storage.getEmployeeByUserId(req.user!.id);
+
+      res.json({
+        success: true,
+        data: {
+          formats: ['excel', 'pdf'],
+          periods: ['week', 'month', 'year'],
+          exportTypes: [
+            {
+              id: 'planning',
+              name: 'Planning Export',
+              description: 'Export planning entries with employee schedules',
+              endpoint: '/api/planning/export',
+              availableFormats: ['excel', 'pdf']
+            },
+            {
+              id: 'time-entries',
+              name: 'Time Entries Export',
+              description: 'Export time tracking data for payroll and analysis',
+              endpoint: '/api/time-entries/export',
+              availableFormats: ['excel', 'pdf']
+            },
+            {
+              id: 'monthly-report',
+              name: 'Monthly Report',
+              description: 'Comprehensive monthly report for individual employees',
+              endpoint: '/api/reports/monthly/:employee_id',
+              availableFormats: ['excel', 'pdf']
+            },
+            ...(hasPermission(req.user!.role, 'payroll:export', 'all') ? [{
+              id: 'payroll',
+              name: 'Payroll Export',
+              description: 'Monthly payroll variables for import into payroll software',
+              endpoint: '/api/payroll/export',
+              availableFormats: ['csv', 'fixed_width', 'dsn']
+            }] : [])
+          ],
+          userPermissions: {
+            isAdmin,
+            canExportAllEmployees: hasPermission(req.user!.role, 'reports:read', 'all'),
+            ownEmployeeId: currentEmployee?.id || null
+          }
+        }
+      });
+
+    } catch (error) {
+      console.error('Export options error:', error);
+      res.status(500).json({
+        error: 'Failed to fetch export options',
+        code: 'EXPORT_OPTIONS_ERROR'
+      });
+    }
+  });
+
+  // ========================================
+  // LEAVE REQUESTS API ROUTES
+  // ========================================
+
+  const LEAVE_DECISION_ERRORS: Record<LeaveDecisionError, string> = {
+    LEAVE_REQUEST_NOT_PENDING: 'Leave request is no longer pending',
+    APPROVAL_STEP_STALE: 'Approval step has already been decided',
+  };
+
+  // Employees under the current user through manager_id, for the "team" views
+  const getManagedEmployeeIds = async (req: AuthRequest) => {
+    const currentUserEmployee = await storage.getEmployeeByUserId(req.user!.id);
+    if (!currentUserEmployee) return undefined;
+
+    return getTeamEmployeeIds(await storage.getEmployeeHierarchy(), currentUserEmployee.id)
+      .filter(employeeId => employeeId !== currentUserEmployee.id);
+  };
+
+  // Checks that the current user may act on the current step of an approval chain
+  // (company-wide approvers, assigned approver or one of their active delegates)
+  const canActOnApprovalRequest = async (req: AuthRequest, approval: Pick<ApprovalRequest, 'subject_type' | 'current_approver_id'>) => {
+    const currentUserEmployee = await storage.getEmployeeByUserId(req.user!.id);
+    const actorId = currentUserEmployee?.id ?? null;
+
+    const permission = approval.subject_type === 'leave_request' ? 'leave:approve' : 'validations:decide';
+    if (hasPermission(req.user!.role, permission, 'all')) {
+      return { allowed: true, actorId };
+    }
+
+    const today = new Date().toISOString().split('T')[0];
+    const delegations = await storage.getApprovalDelegations({ activeOn: today });
+    const allowed = actorId !== null && canActOnApproval(actorId, approval.current_approver_id, delegations, today);
+
+    return { allowed, actorId };
+  };
+
+  // Pending request, or the first step a new chain would start at: the caller is
+  // checked before the chain is started so a refused call writes nothing
+  const getApprovalToActOn = async (subjectType: ApprovalSubjectType, subjectId: number | undefined, employeeId: number) => {
+    const approval = subjectId === undefined ? undefined : await storage.getApprovalRequest(subjectType, subjectId);
+    if (approval?.status === 'pending') return approval;
+
+    return {
+      subject_type: subjectType,
+      current_approver_id: await storage.getFirstApproverId(subjectType, employeeId),
+      status: approval?.status,
+    };
+  };
+
+  // User account of the approver assigned to the current step, for notifications
+  const getApproverUser = async (approval: ApprovalRequest) => {
+    if (!approval.current_approver_id) return undefined;
+    return (await storage.getEmployee(approval.current_approver_id))?.user_id;
+  };
+
+  // GET /api/leave-requests - List leave requests (own, team or all)
+  app.get('/api/leave-requests', authenticateToken, async (req: AuthRequest, res: Response) => {
+    try {
+      const queryValidation = leaveRequestQuerySchema.safeParse(req.query);
+      if (!queryValidation.success) {
+        return res.status(400).json({
+          error: 'Invalid query parameters',
+          code: 'VALIDATION_ERROR',
+          details: queryValidation.error.errors,
+        });
+      }
+
+      const { scope, status, employee_id, start_date, end_date } = queryValidation.data;
+      const currentUserEmployee = await storage.getEmployeeByUserId(req.user!.id);
+
+      if (scope === 'all' && !hasPermission(req.user!.role, 'leave:approve', 'all')) {
+        return res.status(403).json({
+          error: 'Access denied',
+          code: 'ACCESS_DENIED'
+        });
+      }
+
+      if (scope !== 'all' && !currentUserEmployee) {
+        return res.status(404).json({
+          error: 'Employee profile not found',
+          code: 'EMPLOYEE_NOT_FOUND'
+        });
+      }
+
+      const requests = await storage.getLeaveRequests({
+        employeeId: scope === 'mine' ? currentUserEmployee!.id : employee_id,
+        employeeIds: scope === 'team' ? await getManagedEmployeeIds(req) : undefined,
+        status,
+        startDate: start_date,
+        endDate: end_date,
+      });
+
+      res.json({
+        success: true,
+        data: requests,
+      });
+    } catch (error) {
+      console.error('Get leave requests error:', error);
+      res.status(500).json({
+        error: 'Failed to fetch leave requests',
+        code: 'FETCH_LEAVE_REQUESTS_ERROR'
+      });
+    }
+  });
+
+  // GET /api/leave-requests/:id - Get a single leave request
+  app.get('/api/leave-requests/:id', authenticateToken, async (req: AuthRequest, res: Response) => {
+    try {
+      const requestId = parseInt(req.params.id);
+      if (isNaN(requestId)) {
+        return res.status(400).json({
+          error: 'Invalid leave request ID',
+          code: 'INVALID_LEAVE_REQUEST_ID'
+        });
+      }
+
+      const leaveRequest = await storage.getLeaveRequest(requestId);
+      if (!leaveRequest) {
+        return res.status(404).json({
+          error: 'Leave request not found',
+          code: 'LEAVE_REQUEST_NOT_FOUND'
+        });
+      }
+
+      const currentUserEmployee = await storage.getEmployeeByUserId(req.user!.id);
+      const isOwner = currentUserEmployee?.id === leaveRequest.employee_id;
+      const allowed = await canAccessEmployee(req, 'leave:approve', leaveRequest.employee_id);
+
+      if (!isOwner && !allowed) {
+        return res.status(403).json({
+          error: 'Access denied',
+          code: 'ACCESS_DENIED'
+        });
+      }
+
+      res.json({
+        success: true,
+        data: leaveRequest,
+      });
+    } catch (error) {
+      console.error('Get leave request error:', error);
+      res.status(500).json({
+        error: 'Failed to fetch leave request',
+        code: 'FETCH_LEAVE_REQUEST_ERROR'
+      });
+    }
+  });
+
+  // POST /api/leave-requests - Submit a leave request
+  app.post('/api/leave-requests', authenticateToken, validateRequest(createLeaveRequestSchema), async (req: AuthRequest, res: Response) => {
+    try {
+      const { employee_id, type, start_date, end_date, reason } = req.body;
+
+      // Determine target employee ID - only company-wide approvers submit for someone else
+      let targetEmployeeId = employee_id;
+      if (!hasPermission(req.user!.role, 'leave:approve', 'all') || !targetEmployeeId) {
+        const currentUserEmployee = await storage.getEmployeeByUserId(req.user!.id);
+        if (!currentUserEmployee) {
+          return res.status(404).json({
+            error: 'Employee profile not found',
+            code: 'EMPLOYEE_NOT_FOUND'
+          });
+        }
+        targetEmployeeId = currentUserEmployee.id;
+      }
+
+      const employee = await storage.getEmployee(targetEmployeeId);
+      if (!employee) {
+        return res.status(404).json({
+          error: 'Employee not found',
+          code: 'EMPLOYEE_NOT_FOUND'
+        });
+      }
+
+      const daysCount = getLeaveWorkingDates(start_date, end_date).length;
+      if (daysCount === 0) {
+        return res.status(400).json({
+          error: 'Leave request does not cover any working day',
+          code: 'NO_WORKING_DAYS'
+        });
+      }
+
+      if (await storage.hasOverlappingLeaveRequest(targetEmployeeId, start_date, end_date)) {
+        return res.status(409).json({
+          error: 'A leave request already exists for this period',
+          code: 'LEAVE_REQUEST_OVERLAP'
+        });
+      }
+
+      const balanceType = getLeaveBalanceType(type);
+      if (balanceType) {
+        const { balances } = await storage.getLeaveBalances(targetEmployeeId, start_date);
+        const pendingDays = await storage.getPendingLeaveDays(targetEmployeeId, type);
+        const remaining = balances[balanceType].balance - pendingDays;
+        if (daysCount > remaining) {
+          return res.status(400).json({
+            error: 'Insufficient leave balance',
+            code: 'INSUFFICIENT_BALANCE',
+            details: { leaveType: balanceType, requested: daysCount, remaining },
+          });
+        }
+      }
+
+      const leaveRequest = await storage.createLeaveRequest({
+        employee_id: targetEmployeeId,
+        type,
+        start_date,
+        end_date,
+        days_count: daysCount,
+        reason,
+      });
+
+      const approval = await storage.startApprovalRequest('leave_request', leaveRequest.id, targetEmployeeId);
+
+      // Notify the first approver of the chain
+      try {
+        const approverUserId = await getApproverUser(approval);
+        if (approverUserId) {
+          await getNotificationService().sendLeaveRequestedNotification(
+            approverUserId,
+            `${employee.first_name} ${employee.last_name}`,
+            leaveRequest
+          );
+        }
+      } catch (notificationError) {
+        console.error('Leave request notification error:', notificationError);
+      }
+
+      res.status(201).json({
+        message: 'Leave request submitted successfully',
+        data: leaveRequest,
+      });
+    } catch (error) {
+      console.error('Create leave request error:', error);
+      res.status(500).json({
+        error: 'Failed to create leave request',
+        code: 'CREATE_LEAVE_REQUEST_ERROR'
+      });
+    }
+  });
+
+  // POST /api/leave-requests/:id/approve - Approve a leave request (manager or admin)
+  app.post('/api/leave-requests/:id/approve', authenticateToken, validateRequest(approveLeaveRequestSchema), async (req: AuthRequest, res: Response) => {
+    try {
+      const requestId = parseInt(req.params.id);
+      const leaveRequest = isNaN(requestId) ? undefined : await storage.getLeaveRequest(requestId);
+      if (!leaveRequest) {
+        return res.status(404).json({
+          error: 'Leave request not found',
+          code: 'LEAVE_REQUEST_NOT_FOUND'
+        });
+      }
+
+      if (leaveRequest.status !== 'pending') {
+        return res.status(409).json({
+          error: 'Leave request is no longer pending',
+          code: 'LEAVE_REQUEST_NOT_PENDING'
+        });
+      }
+
+      // Approval rewrites the planning of the leave days
+      if (await rejectClosedPayPeriod(res, [leaveRequest.start_date])) return;
+
+      const pendingApproval = await getApprovalToActOn('leave_request', requestId, leaveRequest.employee_id);
+      const { allowed, actorId } = await canActOnApprovalRequest(req, pendingApproval);
+      if (!allowed) {
+        return res.status(403).json({
+          error: 'Only the current approver can approve this request',
+          code: 'ACCESS_DENIED'
+        });
+      }
+
+      // Requests submitted before approval chains existed start their chain here
+      const approval = 'id' in pendingApproval
+        ? pendingApproval
+        : await storage.startApprovalRequest('leave_request', requestId, leaveRequest.employee_id);
+
+      // Intermediate step: the request moves on to the next approver
+      if (!approval.is_final_step) {
+        const forwarded = await storage.recordApprovalDecision(approval.id, {
+          stepOrder: approval.current_step,
+          actorId,
+          action: 'approved',
+          comment: req.body.comment,
+        });
+        if (!forwarded) {
+          return res.status(409).json({
+            error: 'Approval step has already been decided',
+            code: 'APPROVAL_STEP_STALE'
+          });
+        }
+
+        try {
+          const approverUserId = await getApproverUser(forwarded);
+          const employee = await storage.getEmployee(leaveRequest.employee_id);
+          if (approverUserId && employee) {
+            await getNotificationService().sendLeaveRequestedNotification(
+              approverUserId,
+              `${employee.first_name} ${employee.last_name}`,
+              leaveRequest
+            );
+          }
+        } catch (notificationError) {
+          console.error('Leave request notification error:', notificationError);
+        }
+
+        return res.json({
+          message: 'Leave request forwarded to the next approver',
+          data: { request: leaveRequest, approval: forwarded },
+        });
+      }
+
+      const result = await storage.approveLeaveRequest(requestId, {
+        approvalRequestId: approval.id,
+        stepOrder: approval.current_step,
+        actorId,
+        comment: req.body.comment,
+      });
+      if ('error' in result) {
+        return res.status(409).json({
+          error: LEAVE_DECISION_ERRORS[result.error],
+          code: result.error
+        });
+      }
+
+      publishPlanningChanges(req.user!.id, {
+        deleted: result.replacedPlanningEntries,
+        created: result.planningEntries,
+      });
+
+      try {
+        const employee = await storage.getEmployee(leaveRequest.employee_id);
+        if (employee) {
+          await getNotificationService().sendLeaveDecisionNotification(employee.user_id, result.request);
+        }
+      } catch (notificationError) {
+        console.error('Leave decision notification error:', notificationError);
+      }
+
+      res.json({
+        message: 'Leave request approved successfully',
+        data: result,
+      });
+    } catch (error) {
+      console.error('Approve leave request error:', error);
+      res.status(500).json({
+        error: 'Failed to approve leave request',
+        code: 'APPROVE_LEAVE_REQUEST_ERROR'
+      });
+    }
+  });
+
+  // POST /api/leave-requests/:id/reject - Reject a leave request (manager or admin)
+  app.post('/api/leave-requests/:id/reject', authenticateToken, validateRequest(rejectLeaveRequestSchema), async (req: AuthRequest, res: Response) => {
+    try {
+      const requestId = parseInt(req.params.id);
+      const leaveRequest = isNaN(requestId) ? undefined : await storage.getLeaveRequest(requestId);
+      if (!leaveRequest) {
+        return res.status(404).json({
+          error: 'Leave request not found',
+          code: 'LEAVE_REQUEST_NOT_FOUND'
+        });
+      }
+
+      if (leaveRequest.status !== 'pending') {
+        return res.status(409).json({
+          error: 'Leave request is no longer pending',
+          code: 'LEAVE_REQUEST_NOT_PENDING'
+        });
+      }
+
+      const pendingApproval = await getApprovalToActOn('leave_request', requestId, leaveRequest.employee_id);
+      const { allowed, actorId } = await canActOnApprovalRequest(req, pendingApproval);
+      if (!allowed) {
+        return res.status(403).json({
+          error: 'Only the current approver can reject this request',
+          code: 'ACCESS_DENIED'
+        });
+      }
+
+      const approval = 'id' in pendingApproval
+        ? pendingApproval
+        : await storage.startApprovalRequest('leave_request', requestId, leaveRequest.employee_id);
+
+      // A rejection at any step closes the chain
+      const result = await storage.rejectLeaveRequest(requestId, {
+        approvalRequestId: approval.id,
+        stepOrder: approval.current_step,
+        actorId,
+        comment: req.body.reason,
+      });
+      if ('error' in result) {
+        return res.status(409).json({
+          error: LEAVE_DECISION_ERRORS[result.error],
+          code: result.error
+        });
+      }
+
+      try {
+        const employee = await storage.getEmployee(leaveRequest.employee_id);
+        if (employee) {
+          await getNotificationService().sendLeaveDecisionNotification(employee.user_id, result.request);
+        }
+      } catch (notificationError) {
+        console.error('Leave decision notification error:', notificationError);
+      }
+
+      res.json({
+        message: 'Leave request rejected',
+        data: result.request,
+      });
+    } catch (error) {
+      console.error('Reject leave request error:', error);
+      res.status(500).json({
+        error: 'Failed to reject leave request',
+        code: 'REJECT_LEAVE_REQUEST_ERROR'
+      });
+    }
+  });
+
+  // POST /api/leave-requests/:id/cancel - Cancel own pending or approved leave request
+  app.post('/api/leave-requests/:id/cancel', authenticateToken, async (req: AuthRequest, res: Response) => {
+    try {
+      const requestId = parseInt(req.params.id);
+      const leaveRequest = isNaN(requestId) ? undefined : await storage.getLeaveRequest(requestId);
+      if (!leaveRequest) {
+        return res.status(404).json({
+          error: 'Leave request not found',
+          code: 'LEAVE_REQUEST_NOT_FOUND'
+        });
+      }
+
+      const currentUserEmployee = await storage.getEmployeeByUserId(req.user!.id);
+      if (!hasPermission(req.user!.role, 'leave:approve', 'all') && currentUserEmployee?.id !== leaveRequest.employee_id) {
+        return res.status(403).json({
+          error: 'Access denied',
+          code: 'ACCESS_DENIED'
+        });
+      }
+
+      // An approved leave gives its days back to the planning
+      if (leaveRequest.status === 'approved' && await rejectClosedPayPeriod(res, [leaveRequest.start_date, leaveRequest.end_date])) return;
+
+      const cancelled = await storage.cancelLeaveRequest(requestId, currentUserEmployee?.id ?? null);
+      if (!cancelled) {
+        return res.status(409).json({
+          error: 'Only pending or approved leave requests can be cancelled',
+          code: 'LEAVE_REQUEST_NOT_CANCELLABLE'
+        });
+      }
+
+      publishPlanningChanges(req.user!.id, { deleted: cancelled.deletedPlanningEntries });
+
+      res.json({
+        message: 'Leave request cancelled',
+        data: cancelled.request,
+      });
+    } catch (error) {
+      console.error('Cancel leave request error:', error);
+      res.status(500).json({
+        error: 'Failed to cancel leave request',
+        code: 'CANCEL_LEAVE_REQUEST_ERROR'
+      });
+    }
+  });
+
+  // ========================================
+  // LEAVE BALANCES API ROUTES
+  // ========================================
+
+  // GET /api/employees/:id/leave-balances - Balances and movement history (Admin, manager or self)
+  app.get('/api/employees/:id/leave-balances', authenticateToken, async (req: AuthRequest, res: Response) => {
+    try {
+      const employeeId = parseInt(req.params.id);
+      if (isNaN(employeeId)) {
+        return res.status(400).json({
+          error: 'Invalid employee ID',
+          code: 'INVALID_ID'
+        });
+      }
+
+      const employee = await storage.getEmployee(employeeId);
+      if (!employee) {
+        return res.status(404).json({
+          error: 'Employee not found',
+          code: 'EMPLOYEE_NOT_FOUND'
+        });
+      }
+
+      const currentUserEmployee = await storage.getEmployeeByUserId(req.user!.id);
+      const isSelf = currentUserEmployee?.id === employeeId;
+      if (!isSelf && !(await canAccessEmployee(req, 'leave:approve', employeeId))) {
+        return res.status(403).json({
+          error: 'Access denied',
+          code: 'ACCESS_DENIED'
+        });
+      }
+
+      const date = typeof req.query.date === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(req.query.date)
+        ? req.query.date
+        : undefined;
+      const { period, balances } = await storage.getLeaveBalances(employeeId, date);
+      const movements = await storage.getLeaveBalanceMovements(employeeId, { periodStart: period.start });
+
+      res.json({
+        success: true,
+        data: { period, balances, movements },
+      });
+    } catch (error) {
+      console.error('Get leave balances error:', error);
+      res.status(500).json({
+        error: 'Failed to fetch leave balances',
+        code: 'FETCH_LEAVE_BALANCES_ERROR'
+      });
+    }
+  });
+
+  // POST /api/employees/:id/leave-balances/adjustments - Manual balance adjustment (company-wide leave:approve)
+  app.post('/api/employees/:id/leave-balances/adjustments', authenticateToken, requirePermission('leave:approve', 'all'), validateRequest(leaveBalanceAdjustmentSchema), async (req: AuthRequest, res: Response) => {
+    try {
+      const employeeId = parseInt(req.params.id);
+      const employee = isNaN(employeeId) ? undefined : await storage.getEmployee(employeeId);
+      if (!employee) {
+        return res.status(404).json({
+          error: 'Employee not found',
+          code: 'EMPLOYEE_NOT_FOUND'
+        });
+      }
+
+      const { leave_type, days, description } = req.body;
+      const effectiveDate = req.body.effective_date || new Date().toISOString().split('T')[0];
+
+      const movement = await storage.createLeaveBalanceMovement({
+        employee_id: employeeId,
+        leave_type,
+        movement_type: 'adjustment',
+        days: days.toString(),
+        period_start: getReferencePeriod(effectiveDate).start,
+        effective_date: effectiveDate,
+        description,
+        created_by: req.user!.id,
+      });
+
+      res.status(201).json({
+        message: 'Leave balance adjusted successfully',
+        data: movement,
+      });
+    } catch (error) {
+      console.error('Adjust leave balance error:', error);
+      res.status(500).json({
+        error: 'Failed to adjust leave balance',
+        code: 'ADJUST_LEAVE_BALANCE_ERROR'
+      });
+    }
+  });
+
+  // POST /api/leave-balances/accrue - Run monthly accrual for all active employees (company-wide leave:approve)
+  app.post('/api/leave-balances/accrue', authenticateToken, requirePermission('leave:approve', 'all'), validateRequest(leaveAccrualRunSchema), async (req: AuthRequest, res: Response) => {
+    try {
+      const result = await storage.accrueMonthlyLeave(req.body.month);
+
+      res.json({
+        message: 'Monthly leave accrual completed',
+        data: result,
+      });
+    } catch (error) {
+      console.error('Leave accrual error:', error);
+      res.status(500).json({
+        error: 'Failed to run leave accrual',
+        code: 'LEAVE_ACCRUAL_ERROR'
+      });
+    }
+  });
+
+  // POST /api/leave-balances/close-period - Close a reference period with carry-over (company-wide leave:approve)
+  app.post('/api/leave-balances/close-period', authenticateToken, requirePermission('leave:approve', 'all'), validateRequest(leavePeriodCloseSchema), async (req: AuthRequest, res: Response) => {
+    try {
+      const result = await storage.closeLeavePeriod(req.body.period_start);
+
+      res.json({
+        message: 'Reference period closed',
+        data: result,
+      });
+    } catch (error) {
+      console.error('Close leave period error:', error);
+      res.status(500).json({
+        error: 'Failed to close reference period',
+        code: 'CLOSE_LEAVE_PERIOD_ERROR'
+      });
+    }
+  });
+
+  // ========================================
+  // LABOR RULES API ROUTES
+  // ========================================
+
+  // GET /api/labor-rules - Current rule configuration and built-in defaults (Admin only)
+  app.get('/api/labor-rules', authenticateToken, authorizeRole(['admin']), async (req: AuthRequest, res: Response) => {
+    try {
+      const config = await storage.getLaborRuleConfig();
+
+      res.json({
+        success: true,
+        data: { config, defaults: DEFAULT_LABOR_RULE_CONFIG },
+      });
+    } catch (error) {
+      console.error('Get labor rules error:', error);
+      res.status(500).json({
+        error: 'Failed to fetch labor rules',
+        code: 'FETCH_LABOR_RULES_ERROR'
+      });
+    }
+  });
+
+  // PUT /api/labor-rules - Replace rule sets and company context (Admin only)
+  app.put('/api/labor-rules', authenticateToken, authorizeRole(['admin']), validateRequest(laborRuleConfigSchema), async (req: AuthRequest, res: Response) => {
+    try {
+      const config = await storage.updateLaborRuleConfig(req.body);
+
+      res.json({
+        message: 'Labor rules updated successfully',
+        data: config,
+      });
+    } catch (error) {
+      console.error('Update labor rules error:', error);
+      res.status(500).json({
+        error: 'Failed to update labor rules',
+        code: 'UPDATE_LABOR_RULES_ERROR'
+      });
+    }
+  });
+
+  // GET /api/employees/:id/labor-rules - Rules resolved for an employee (within planning:read scope)
+  app.get('/api/employees/:id/labor-rules', authenticateToken, async (req: AuthRequest, res: Response) => {
+    try {
+      const employeeId = parseInt(req.params.id);
+      const employee = isNaN(employeeId) ? undefined : await storage.getEmployee(employeeId);
+      if (!employee) {
+        return res.status(404).json({
+          error: 'Employee not found',
+          code: 'EMPLOYEE_NOT_FOUND'
+        });
+      }
+
+      if (await rejectEmployeesOutOfScope(req, res, 'planning:read', [employeeId])) return;
+
+      const rules = await storage.getLaborRulesForEmployee(employeeId);
+
+      res.json({
+        success: true,
+        data: rules,
+      });
+    } catch (error) {
+      console.error('Get employee labor rules error:', error);
+      res.status(500).json({
+        error: 'Failed to fetch employee labor rules',
+        code: 'FETCH_EMPLOYEE_LABOR_RULES_ERROR'
+      });
+    }
+  });
+
+  // ========================================
+  // PLANNING TEMPLATES API ROUTES
+  // ========================================
+
+  // GET /api/planning/templates - List templates with their shifts and assignments (company-wide planning:write)
+  app.get('/api/planning/templates', authenticateToken, requirePermission('planning:write', 'all'), async (req: AuthRequest, res: Response) => {
+    try {
+      const templates = await storage.getPlanningTemplates();
+
+      res.json({
+        success: true,
+        data: templates,
+      });
+    } catch (error) {
+      console.error('Get planning templates error:', error);
+      res.status(500).json({
+        error: 'Failed to fetch planning templates',
+        code: 'FETCH_PLANNING_TEMPLATES_ERROR'
+      });
+    }
+  });
+
+  // GET /api/planning/templates/:id - Template details (company-wide planning:write)
+  app.get('/api/planning/templates/:id', authenticateToken, requirePermission('planning:write', 'all'), async (req: AuthRequest, res: Response) => {
+    try {
+      const templateId = parseInt(req.params.id);
+      const template = isNaN(templateId) ? undefined : await storage.getPlanningTemplate(templateId);
+      if (!template) {
+        return res.status(404).json({
+          error: 'Planning template not found',
+          code: 'PLANNING_TEMPLATE_NOT_FOUND'
+        });
+      }
+
+      res.json({
+        success: true,
+        data: template,
+      });
+    } catch (error) {
+      console.error('Get planning template error:', error);
+      res.status(500).json({
+        error: 'Failed to fetch planning template',
+        code: 'FETCH_PLANNING_TEMPLATE_ERROR'
+      });
+    }
+  });
+
+  // POST /api/planning/templates - Create a weekly pattern or an N-week rotation (company-wide planning:write)
+  app.post('/api/planning/templates', authenticateToken, requirePermission('planning:write', 'all'), validateRequest(createPlanningTemplateSchema), async (req: AuthRequest, res: Response) => {
+    try {
+      const templates = await storage.getPlanningTemplates();
+      if (templates.some(template => template.name === req.body.name)) {
+        return res.status(409).json({
+          error: 'A planning template with this name already exists',
+          code: 'PLANNING_TEMPLATE_EXISTS'
+        });
+      }
+
+      const template = await storage.createPlanningTemplate(req.body, req.user!.id);
+
+      res.status(201).json({
+        message: 'Planning template created successfully',
+        data: template,
+      });
+    } catch (error) {
+      console.error('Create planning template error:', error);
+      res.status(500).json({
+        error: 'Failed to create planning template',
+        code: 'CREATE_PLANNING_TEMPLATE_ERROR'
+      });
+    }
+  });
+
+  // PUT /api/planning/templates/:id - Replace a template and its shifts (company-wide planning:write)
+  app.put('/api/planning/templates/:id', authenticateToken, requirePermission('planning:write', 'all'), validateRequest(updatePlanningTemplateSchema), async (req: AuthRequest, res: Response) => {
+    try {
+      const templateId = parseInt(req.params.id);
+      const templates = await storage.getPlanningTemplates();
+      if (templates.some(template => template.name === req.body.name && template.id !== templateId)) {
+        return res.status(409).json({
+          error: 'A planning template with this name already exists',
+          code: 'PLANNING_TEMPLATE_EXISTS'
+        });
+      }
+
+      const template = isNaN(templateId) ? undefined : await storage.updatePlanningTemplate(templateId, req.body);
+      if (!template) {
+        return res.status(404).json({
+          error: 'Planning template not found',
+          code: 'PLANNING_TEMPLATE_NOT_FOUND'
+        });
+      }
+
+      res.json({
+        message: 'Planning template updated successfully',
+        data: template,
+      });
+    } catch (error) {
+      console.error('Update planning template error:', error);
+      res.status(500).json({
+        error: 'Failed to update planning template',
+        code: 'UPDATE_PLANNING_TEMPLATE_ERROR'
+      });
+    }
+  });
+
+  // DELETE /api/planning/templates/:id - Delete a template and its assignments (company-wide planning:write)
+  app.delete('/api/planning/templates/:id', authenticateToken, requirePermission('planning:write', 'all'), async (req: AuthRequest, res: Response) => {
+    try {
+      const templateId = parseInt(req.params.id);
+      const deleted = !isNaN(templateId) && await storage.deletePlanningTemplate(templateId);
+      if (!deleted) {
+        return res.status(404).json({
+          error: 'Planning template not found',
+          code: 'PLANNING_TEMPLATE_NOT_FOUND'
+        });
+      }
+
+      res.json({ message: 'Planning template deleted successfully' });
+    } catch (error) {
+      console.error('Delete planning template error:', error);
+      res.status(500).json({
+        error: 'Failed to delete planning template',
+        code: 'DELETE_PLANNING_TEMPLATE_ERROR'
+      });
+    }
+  });
+
+  // POST /api/planning/templates/:id/assignments - Assign a template to an employee or a department (company-wide planning:write)
+  app.post('/api/planning/templates/:id/assignments', authenticateToken, requirePermission('planning:write', 'all'), validateRequest(assignPlanningTemplateSchema), async (req: AuthRequest, res: Response) => {
+    try {
+      const templateId = parseInt(req.params.id);
+      const template = isNaN(templateId) ? undefined : await storage.getPlanningTemplate(templateId);
+      if (!template) {
+        return res.status(404).json({
+          error: 'Planning template not found',
+          code: 'PLANNING_TEMPLATE_NOT_FOUND'
+        });
+      }
+
+      if (req.body.employee_id && !(await storage.getEmployee(req.body.employee_id))) {
+        return res.status(404).json({
+          error: 'Employee not found',
+          code: 'EMPLOYEE_NOT_FOUND'
+        });
+      }
+
+      if (req.body.department_id && !(await storage.getDepartment(req.body.department_id))) {
+        return res.status(404).json({
+          error: 'Department not found',
+          code: 'DEPARTMENT_NOT_FOUND'
+        });
+      }
+
+      const assignment = await storage.createPlanningTemplateAssignment(templateId, req.body);
+
+      res.status(201).json({
+        message: 'Planning template assigned successfully',
+        data: assignment,
+      });
+    } catch (error) {
+      console.error('Assign planning template error:', error);
+      res.status(500).json({
+        error: 'Failed to assign planning template',
+        code: 'ASSIGN_PLANNING_TEMPLATE_ERROR'
+      });
+    }
+  });
+
+  // DELETE /api/planning/templates/:id/assignments/:assignmentId - Remove an assignment (company-wide planning:write)
+  app.delete('/api/planning/templates/:id/assignments/:assignmentId', authenticateToken, requirePermission('planning:write', 'all'), async (req: AuthRequest, res: Response) => {
+    try {
+      const templateId = parseInt(req.params.id);
+      const assignmentId = parseInt(req.params.assignmentId);
+      const deleted = !isNaN(templateId) && !isNaN(assignmentId) &&
+        await storage.deletePlanningTemplateAssignment(templateId, assignmentId);
+      if (!deleted) {
+        return res.status(404).json({
+          error: 'Planning template assignment not found',
+          code: 'PLANNING_TEMPLATE_ASSIGNMENT_NOT_FOUND'
+        });
+      }
+
+      res.json({ message: 'Planning template assignment removed successfully' });
+    } catch (error) {
+      console.error('Remove planning template assignment error:', error);
+      res.status(500).json({
+        error: 'Failed to remove planning template assignment',
+        code: 'REMOVE_PLANNING_TEMPLATE_ASSIGNMENT_ERROR'
+      });
+    }
+  });
+
+  // ========================================
+  // COVERAGE REQUIREMENTS & AUTO-SCHEDULING API ROUTES
+  // ========================================
+
+  // GET /api/coverage-requirements - List staffing requirements (company-wide planning:write)
+  app.get('/api/coverage-requirements', authenticateToken, requirePermission('planning:write', 'all'), async (req: AuthRequest, res: Response) => {
+    try {
+      const departmentId = req.query.department_id ? parseInt(req.query.department_id as string) : undefined;
+      const requirements = await storage.getCoverageRequirements({
+        departmentId: departmentId && !isNaN(departmentId) ? departmentId : undefined,
+      });
+
+      res.json({
+        success: true,
+        data: requirements,
+      });
+    } catch (error) {
+      console.error('Get coverage requirements error:', error);
+      res.status(500).json({
+        error: 'Failed to fetch coverage requirements',
+        code: 'FETCH_COVERAGE_REQUIREMENTS_ERROR'
+      });
+    }
+  });
+
+  // POST /api/coverage-requirements - Declare a staffing requirement (company-wide planning:write)
+  app.post('/api/coverage-requirements', authenticateToken, requirePermission('planning:write', 'all'), validateRequest(createCoverageRequirementSchema), async (req: AuthRequest, res: Response) => {
+    try {
+      if (req.body.department_id && !(await storage.getDepartment(req.body.department_id))) {
+        return res.status(404).json({
+          error: 'Department not found',
+          code: 'DEPARTMENT_NOT_FOUND'
+        });
+      }
+
+      const requirement = await storage.createCoverageRequirement(req.body, req.user!.id);
+
+      res.status(201).json({
+        message: 'Coverage requirement created successfully',
+        data: requirement,
+      });
+    } catch (error) {
+      console.error('Create coverage requirement error:', error);
+      res.status(500).json({
+        error: 'Failed to create coverage requirement',
+        code: 'CREATE_COVERAGE_REQUIREMENT_ERROR'
+      });
+    }
+  });
+
+  // PUT /api/coverage-requirements/:id - Update a staffing requirement (company-wide planning:write)
+  app.put('/api/coverage-requirements/:id', authenticateToken, requirePermission('planning:write', 'all'), validateRequest(updateCoverageRequirementSchema), async (req: AuthRequest, res: Response) => {
+    try {
+      if (req.body.department_id && !(await storage.getDepartment(req.body.department_id))) {
+        return res.status(404).json({
+          error: 'Department not found',
+          code: 'DEPARTMENT_NOT_FOUND'
+        });
+      }
+
+      const requirementId = parseInt(req.params.id);
+      const requirement = isNaN(requirementId) ? undefined : await storage.updateCoverageRequirement(requirementId, req.body);
+      if (!requirement) {
+        return res.status(404).json({
+          error: 'Coverage requirement not found',
+          code: 'COVERAGE_REQUIREMENT_NOT_FOUND'
+        });
+      }
+
+      res.json({
+        message: 'Coverage requirement updated successfully',
+        data: requirement,
+      });
+    } catch (error) {
+      console.error('Update coverage requirement error:', error);
+      res.status(500).json({
+        error: 'Failed to update coverage requirement',
+        code: 'UPDATE_COVERAGE_REQUIREMENT_ERROR'
+      });
+    }
+  });
+
+  // DELETE /api/coverage-requirements/:id - Delete a staffing requirement (company-wide planning:write)
+  app.delete('/api/coverage-requirements/:id', authenticateToken, requirePermission('planning:write', 'all'), async (req: AuthRequest, res: Response) => {
+    try {
+      const requirementId = parseInt(req.params.id);
+      const deleted = !isNaN(requirementId) && await storage.deleteCoverageRequirement(requirementId);
+      if (!deleted) {
+        return res.status(404).json({
+          error: 'Coverage requirement not found',
+          code: 'COVERAGE_REQUIREMENT_NOT_FOUND'
+        });
+      }
+
+      res.json({ message: 'Coverage requirement deleted successfully' });
+    } catch (error) {
+      console.error('Delete coverage requirement error:', error);
+      res.status(500).json({
+        error: 'Failed to delete coverage requirement',
+        code: 'DELETE_COVERAGE_REQUIREMENT_ERROR'
+      });
+    }
+  });
+
+  // POST /api/planning/auto-schedule - Propose an assignment covering the staffing requirements (company-wide planning:write)
+  app.post('/api/planning/auto-schedule', authenticateToken, requirePermission('planning:write', 'all'), validateRequest(autoSchedulePlanningSchema), async (req: AuthRequest, res: Response) => {
+    try {
+      const { start_date, end_date, department_id, requirement_ids, persist } = req.body;
+
+      // Previews stay available on closed periods, only persisting is refused
+      if (persist && await rejectClosedPayPeriod(res, [start_date])) return;
+
+      const result = await storage.autoSchedulePlanning({
+        startDate: start_date,
+        endDate: end_date,
+        departmentId: department_id,
+        requirementIds: requirement_ids,
+        persist,
+      });
+
+      if (result.createdEntries.length > 0) {
+        publishPlanningChanges(req.user!.id, { created: result.createdEntries });
+      }
+
+      res.json({
+        success: true,
+        data: {
+          shifts: result.shifts,
+          createdEntries: result.createdEntries,
+          gaps: result.gaps,
+          fairnessScore: result.fairnessScore,
+          workload: result.workload,
+        },
+      });
+    } catch (error) {
+      console.error('Auto-schedule planning error:', error);
+      res.status(500).json({
+        error: 'Failed to auto-schedule planning',
+        code: 'AUTO_SCHEDULE_ERROR'
+      });
+    }
+  });
+
+  // ========================================
+  // VALIDATIONS API ROUTES
+  // ========================================
+
+  // GET /api/validations - List submitted weeks (team or all) with validation stats
+  app.get('/api/validations', authenticateToken, async (req: AuthRequest, res: Response) => {
+    try {
+      const queryValidation = validationQuerySchema.safeParse(req.query);
+      if (!queryValidation.success) {
+        return res.status(400).json({
+          error: 'Invalid query parameters',
+          code: 'VALIDATION_ERROR',
+          details: queryValidation.error.errors,
+        });
+      }
+
+      const { scope, status, department_id, start_date, end_date } = queryValidation.data;
+
+      if (scope === 'all' && !hasPermission(req.user!.role, 'validations:read', 'all')) {
+        return res.status(403).json({
+          error: 'Access denied',
+          code: 'ACCESS_DENIED'
+        });
+      }
+
+      let employeeIds: number[] | undefined;
+      if (scope === 'team') {
+        employeeIds = await getManagedEmployeeIds(req);
+        if (!employeeIds) {
+          return res.status(404).json({
+            error: 'Employee profile not found',
+            code: 'EMPLOYEE_NOT_FOUND'
+          });
+        }
+      }
+
+      const [weeks, stats] = await Promise.all([
+        storage.getValidationWeeks({
+          employeeIds,
+          departmentId: department_id,
+          status: status === 'all' ? undefined : status,
+          startDate: start_date,
+          endDate: end_date,
+        }),
+        storage.getValidationStats({ employeeIds, departmentId: department_id }),
+      ]);
+
+      res.json({
+        success: true,
+        data: weeks,
+        stats,
+      });
+    } catch (error) {
+      console.error('Get validations error:', error);
+      res.status(500).json({
+        error: 'Failed to fetch validations',
+        code: 'FETCH_VALIDATIONS_ERROR'
+      });
+    }
+  });
+
+  // GET /api/validations/:employeeId/:weekStart - Week details with time and planning entries
+  app.get('/api/validations/:employeeId/:weekStart', authenticateToken, async (req: AuthRequest, res: Response) => {
+    try {
+      const employeeId = parseInt(req.params.employeeId);
+      const { weekStart } = req.params;
+      if (isNaN(employeeId) || !/^\d{4}-\d{2}-\d{2}$/.test(weekStart)) {
+        return res.status(400).json({
+          error: 'Invalid employee ID or week start',
+          code: 'INVALID_PARAMETERS'
+        });
+      }
+
+      const monday = getWeekBounds(weekStart).weekStart;
+      const currentUserEmployee = await storage.getEmployeeByUserId(req.user!.id);
+      const allowed = await canAccessEmployee(req, 'validations:read', employeeId);
+
+      // Later approvers of the chain are not necessarily the employee's manager
+      let isApprover = false;
+      if (!allowed && currentUserEmployee?.id !== employeeId) {
+        const weekValidation = await storage.getValidationByEmployeeAndWeek(employeeId, monday);
+        const approval = weekValidation && await storage.getApprovalRequest('time_sheet', weekValidation.id);
+        isApprover = !!approval && (await canActOnApprovalRequest(req, approval)).allowed;
+      }
+
+      if (!allowed && !isApprover && currentUserEmployee?.id !== employeeId) {
+        return res.status(403).json({
+          error: 'Access denied',
+          code: 'ACCESS_DENIED'
+        });
+      }
+
+      const details = await storage.getValidationWeekDetails(employeeId, monday);
+
+      res.json({
+        success: true,
+        data: details,
+      });
+    } catch (error) {
+      console.error('Get validation week error:', error);
+      res.status(500).json({
+        error: 'Failed to fetch validation week',
+        code: 'FETCH_VALIDATION_WEEK_ERROR'
+      });
+    }
+  });
+
+  const VALIDATION_DECISION_ERRORS: Record<ValidationDecisionError, string> = {
+    NO_PENDING_ENTRIES: 'No pending entries to validate for this week',
+    APPROVAL_STEP_STALE: 'Approval step has already been decided',
+  };
+
+  // POST /api/validations/decide - Approve or reject a week, or some of its entries (current approver)
+  app.post('/api/validations/decide', authenticateToken, validateRequest(decideValidationSchema), async (req: AuthRequest, res: Response) => {
+    try {
+      const {
+        employee_id,
+        week_start,
+        action,
+        time_entry_ids,
+        planning_entry_ids,
+        comments,
+        rejection_reason,
+        overtime_compensation,
+      } = req.body;
+
+      const employee = await storage.getEmployee(employee_id);
+      if (!employee) {
+        return res.status(404).json({
+          error: 'Employee not found',
+          code: 'EMPLOYEE_NOT_FOUND'
+        });
+      }
+
+      if (await rejectClosedPayPeriod(res, [week_start])) return;
+
+      const existingValidation = await storage.getValidationByEmployeeAndWeek(employee_id, week_start);
+      const pendingApproval = await getApprovalToActOn('time_sheet', existingValidation?.id, employee_id);
+      if (pendingApproval.status === 'approved') {
+        return res.status(409).json({
+          error: 'This week has been approved and is locked',
+          code: 'TIME_SHEET_LOCKED'
+        });
+      }
+
+      const { allowed, actorId } = await canActOnApprovalRequest(req, pendingApproval);
+      if (!allowed) {
+        return res.status(403).json({
+          error: 'Only the current approver can validate this week',
+          code: 'ACCESS_DENIED'
+        });
+      }
+
+      // A rejected week starts a new approval cycle once resubmitted
+      const weekValidation = existingValidation ?? await storage.ensureWeekValidation(employee_id, week_start);
+      const approval = 'id' in pendingApproval
+        ? pendingApproval
+        : await storage.startApprovalRequest('time_sheet', weekValidation.id, employee_id);
+
+      const partial = !!time_entry_ids || !!planning_entry_ids;
+
+      // Intermediate step: the whole week moves on to the next approver, entries stay submitted
+      if (!approval.is_final_step && action === 'approve') {
+        if (partial) {
+          return res.status(422).json({
+            error: 'Individual entries can only be approved at the last step of the chain',
+            code: 'PARTIAL_APPROVAL_NOT_ALLOWED'
+          });
+        }
+
+        const forwarded = await storage.recordApprovalDecision(approval.id, {
+          stepOrder: approval.current_step,
+          actorId,
+          action: 'approved',
+          comment: comments,
+        });
+        if (!forwarded) {
+          return res.status(409).json({
+            error: 'Approval step has already been decided',
+            code: 'APPROVAL_STEP_STALE'
+          });
+        }
+
+        try {
+          const approverUserId = await getApproverUser(forwarded);
+          if (approverUserId) {
+            await getNotificationService().sendValidationRequiredNotification(approverUserId, employee.user_id, week_start);
+          }
+        } catch (notificationError) {
+          console.error('Week validation notification error:', notificationError);
+        }
+
+        return res.json({
+          message: 'Week forwarded to the next approver',
+          data: { validation: weekValidation, timeEntries: [], planningEntries: [], approval: forwarded },
+        });
+      }
+
+      // The week and its approval step are decided together: a step decided
+      // meanwhile leaves the entries untouched
+      const result = await storage.decideValidationWeek({
+        employeeId: employee_id,
+        weekStart: week_start,
+        action,
+        validatorId: actorId,
+        timeEntryIds: time_entry_ids,
+        planningEntryIds: planning_entry_ids,
+        comments,
+        rejectionReason: rejection_reason,
+        overtimeCompensation: overtime_compensation,
+        approval: { requestId: approval.id, stepOrder: approval.current_step },
+      });
+
+      if ('error' in result) {
+        return res.status(409).json({
+          error: VALIDATION_DECISION_ERRORS[result.error],
+          code: result.error
+        });
+      }
+
+      publishPlanningChanges(req.user!.id, { updated: result.planningEntries });
+
+      try {
+        await getNotificationService().sendWeekValidationDecisionNotification(employee.user_id, result.validation);
+      } catch (notificationError) {
+        console.error('Week validation notification error:', notificationError);
+      }
+
+      res.json({
+        message: action === 'approve' ? 'Entries validated successfully' : 'Entries rejected',
+        data: { ...result, approval: result.approval ?? approval },
+      });
+    } catch (error) {
+      console.error('Decide validation error:', error);
+      res.status(500).json({
+        error: 'Failed to update validation',
+        code: 'DECIDE_VALIDATION_ERROR'
+      });
+    }
+  });
+
+  // ========================================
+  // APPROVAL CHAINS API ROUTES
+  // ========================================
+
+  // GET /api/approval-chains - List approval chains with their steps (Admin only)
+  app.get('/api/approval-chains', authenticateToken, authorizeRole(['admin']), async (req: AuthRequest, res: Response) => {
+    try {
+      const chains = await storage.getApprovalChains();
+
+      res.json({
+        success: true,
+        data: chains,
+      });
+    } catch (error) {
+      console.error('Get approval chains error:', error);
+      res.status(500).json({
+        error: 'Failed to fetch approval chains',
+        code: 'FETCH_APPROVAL_CHAINS_ERROR'
+      });
+    }
+  });
+
+  // POST /api/approval-chains - Create an approval chain (Admin only)
+  app.post('/api/approval-chains', authenticateToken, authorizeRole(['admin']), validateRequest(createApprovalChainSchema), async (req: AuthRequest, res: Response) => {
+    try {
+      const chain = await storage.createApprovalChain(req.body);
+
+      res.status(201).json({
+        message: 'Approval chain created successfully',
+        data: chain,
+      });
+    } catch (error) {
+      console.error('Create approval chain error:', error);
+      res.status(500).json({
+        error: 'Failed to create approval chain',
+        code: 'CREATE_APPROVAL_CHAIN_ERROR'
+      });
+    }
+  });
+
+  // PUT /api/approval-chains/:id - Replace an approval chain and its steps (Admin only)
+  app.put('/api/approval-chains/:id', authenticateToken, authorizeRole(['admin']), validateRequest(updateApprovalChainSchema), async (req: AuthRequest, res: Response) => {
+    try {
+      const chainId = parseInt(req.params.id);
+      const chain = isNaN(chainId) ? undefined : await storage.updateApprovalChain(chainId, req.body);
+      if (!chain) {
+        return res.status(404).json({
+          error: 'Approval chain not found',
+          code: 'APPROVAL_CHAIN_NOT_FOUND'
+        });
+      }
+
+      res.json({
+        message: 'Approval chain updated successfully',
+        data: chain,
+      });
+    } catch (error) {
+      console.error('Update approval chain error:', error);
+      res.status(500).json({
+        error: 'Failed to update approval chain',
+        code: 'UPDATE_APPROVAL_CHAIN_ERROR'
+      });
+    }
+  });
+
+  // DELETE /api/approval-chains/:id - Delete an approval chain (Admin only)
+  app.delete('/api/approval-chains/:id', authenticateToken, authorizeRole(['admin']), async (req: AuthRequest, res: Response) => {
+    try {
+      const chainId = parseInt(req.params.id);
+      const deleted = !isNaN(chainId) && await storage.deleteApprovalChain(chainId);
+      if (!deleted) {
+        return res.status(404).json({
+          error: 'Approval chain not found',
+          code: 'APPROVAL_CHAIN_NOT_FOUND'
+        });
+      }
+
+      res.json({
+        message: 'Approval chain deleted successfully',
+      });
+    } catch (error) {
+      console.error('Delete approval chain error:', error);
+      res.status(500).json({
+        error: 'Failed to delete approval chain',
+        code: 'DELETE_APPROVAL_CHAIN_ERROR'
+      });
+    }
+  });
+
+  // GET /api/approval-delegations - List own delegations (all for admins)
+  app.get('/api/approval-delegations', authenticateToken, async (req: AuthRequest, res: Response) => {
+    try {
+      const isAdmin = hasPermission(req.user!.role, 'settings:manage', 'all');
+      const currentUserEmployee = await storage.getEmployeeByUserId(req.user!.id);
+      if (!isAdmin && !currentUserEmployee) {
+        return res.status(404).json({
+          error: 'Employee profile not found',
+          code: 'EMPLOYEE_NOT_FOUND'
+        });
+      }
+
+      const delegations = await storage.getApprovalDelegations({
+        delegatorId: isAdmin ? undefined : currentUserEmployee!.id,
+      });
+
+      res.json({
+        success: true,
+        data: delegations,
+      });
+    } catch (error) {
+      console.error('Get approval delegations error:', error);
+      res.status(500).json({
+        error: 'Failed to fetch approval delegations',
+        code: 'FETCH_APPROVAL_DELEGATIONS_ERROR'
+      });
+    }
+  });
+
+  // POST /api/approval-delegations - Delegate approvals during an absence
+  app.post('/api/approval-delegations', authenticateToken, validateRequest(createApprovalDelegationSchema), async (req: AuthRequest, res: Response) => {
+    try {
+      const isAdmin = hasPermission(req.user!.role, 'settings:manage', 'all');
+      let delegatorId = req.body.delegator_id;
+      if (!isAdmin || !delegatorId) {
+        const currentUserEmployee = await storage.getEmployeeByUserId(req.user!.id);
+        if (!currentUserEmployee) {
+          return res.status(404).json({
+            error: 'Employee profile not found',
+            code: 'EMPLOYEE_NOT_FOUND'
+          });
+        }
+        delegatorId = currentUserEmployee.id;
+      }
+
+      if (delegatorId === req.body.delegate_id) {
+        return res.status(400).json({
+          error: 'An approver cannot delegate to themselves',
+          code: 'INVALID_DELEGATE'
+        });
+      }
+
+      const delegate = await storage.getEmployee(req.body.delegate_id);
+      if (!delegate || !delegate.is_active) {
+        return res.status(404).json({
+          error: 'Delegate not found',
+          code: 'EMPLOYEE_NOT_FOUND'
+        });
+      }
+
+      const delegation = await storage.createApprovalDelegation({ ...req.body, delegator_id: delegatorId });
+
+      res.status(201).json({
+        message: 'Approval delegation created successfully',
+        data: delegation,
+      });
+    } catch (error) {
+      console.error('Create approval delegation error:', error);
+      res.status(500).json({
+        error: 'Failed to create approval delegation',
+        code: 'CREATE_APPROVAL_DELEGATION_ERROR'
+      });
+    }
+  });
+
+  // DELETE /api/approval-delegations/:id - Remove a delegation (delegator or admin)
+  app.delete('/api/approval-delegations/:id', authenticateToken, async (req: AuthRequest, res: Response) => {
+    try {
+      const delegationId = parseInt(req.params.id);
+      const delegation = isNaN(delegationId) ? undefined : await storage.getApprovalDelegation(delegationId);
+      if (!delegation) {
+        return res.status(404).json({
+          error: 'Approval delegation not found',
+          code: 'APPROVAL_DELEGATION_NOT_FOUND'
+        });
+      }
+
+      const currentUserEmployee = await storage.getEmployeeByUserId(req.user!.id);
+      if (!hasPermission(req.user!.role, 'settings:manage', 'all') && currentUserEmployee?.id !== delegation.delegator_id) {
+        return res.status(403).json({
+          error: 'Access denied',
+          code: 'ACCESS_DENIED'
+        });
+      }
+
+      await storage.deleteApprovalDelegation(delegationId);
+
+      res.json({
+        message: 'Approval delegation deleted successfully',
+      });
+    } catch (error) {
+      console.error('Delete approval delegation error:', error);
+      res.status(500).json({
+        error: 'Failed to delete approval delegation',
+        code: 'DELETE_APPROVAL_DELEGATION_ERROR'
+      });
+    }
+  });
+
+  // GET /api/approvals/inbox - Pending approval steps assigned to (or delegated to) the current user
+  app.get('/api/approvals/inbox', authenticateToken, async (req: AuthRequest, res: Response) => {
+    try {
+      const currentUserEmployee = await storage.getEmployeeByUserId(req.user!.id);
+      if (!currentUserEmployee) {
+        return res.status(404).json({
+          error: 'Employee profile not found',
+          code: 'EMPLOYEE_NOT_FOUND'
+        });
+      }
+
+      const inbox = await storage.getApprovalInbox(currentUserEmployee.id, new Date().toISOString().split('T')[0]);
+
+      res.json({
+        success: true,
+        data: inbox,
+      });
+    } catch (error) {
+      console.error('Get approval inbox error:', error);
+      res.status(500).json({
+        error: 'Failed to fetch approval inbox',
+        code: 'FETCH_APPROVAL_INBOX_ERROR'
+      });
+    }
+  });
+
+  // GET /api/approvals/:subjectType/:subjectId - Approval status and step history
+  app.get('/api/approvals/:subjectType/:subjectId', authenticateToken, async (req: AuthRequest, res: Response) => {
+    try {
+      const { subjectType } = req.params;
+      const subjectId = parseInt(req.params.subjectId);
+      if ((subjectType !== 'time_sheet' && subjectType !== 'leave_request') || isNaN(subjectId)) {
+        return res.status(400).json({
+          error: 'Invalid approval subject',
+          code: 'INVALID_PARAMETERS'
+        });
+      }
+
+      const approval = await storage.getApprovalRequest(subjectType, subjectId);
+      if (!approval) {
+        return res.status(404).json({
+          error: 'Approval not found',
+          code: 'APPROVAL_NOT_FOUND'
+        });
+      }
+
+      const currentUserEmployee = await storage.getEmployeeByUserId(req.user!.id);
+      const allowed = await canAccessEmployee(
+        req,
+        approval.subject_type === 'leave_request' ? 'leave:approve' : 'validations:read',
+        approval.employee_id
+      );
+      const isOwner = currentUserEmployee?.id === approval.employee_id;
+      if (!allowed && !isOwner && !(await canActOnApprovalRequest(req, approval)).allowed) {
+        return res.status(403).json({
+          error: 'Access denied',
+          code: 'ACCESS_DENIED'
+        });
+      }
+
+      res.json({
+        success: true,
+        data: approval,
+      });
+    } catch (error) {
+      console.error('Get approval error:', error);
+      res.status(500).json({
+        error: 'Failed to fetch approval',
+        code: 'FETCH_APPROVAL_ERROR'
+      });
+    }
+  });
+
+  // POST /api/approvals/escalate - Escalate steps left without action past their deadline (Admin only)
+  app.post('/api/approvals/escalate', authenticateToken, authorizeRole(['admin']), async (req: AuthRequest, res: Response) => {
+    try {
+      const escalated = await escalateOverdueApprovals();
+
+      res.json({
+        message: `${escalated.length} approval(s) escalated`,
+        data: escalated,
+      });
+    } catch (error) {
+      console.error('Escalate approvals error:', error);
+      res.status(500).json({
+        error: 'Failed to escalate approvals',
+        code: 'ESCALATE_APPROVALS_ERROR'
+      });
+    }
+  });
+
+  // ========================================
+  // PAY PERIODS API ROUTES
+  // ========================================
+
+  // GET /api/pay-periods/closures - Closure history and current lock date (company-wide payroll:export)
+  app.get('/api/pay-periods/closures', authenticateToken, requirePermission('payroll:export', 'all'), async (req: AuthRequest, res: Response) => {
+    try {
+      const closures = await storage.getPayPeriodClosures();
+
+      res.json({
+        success: true,
+        data: {
+          closedThrough: closures[0]?.closed_through ?? null,
+          closures,
+        },
+      });
+    } catch (error) {
+      console.error('Get pay period closures error:', error);
+      res.status(500).json({
+        error: 'Failed to fetch pay period closures',
+        code: 'FETCH_PAY_PERIOD_CLOSURES_ERROR'
+      });
+    }
+  });
+
+  // POST /api/pay-periods/close - Freeze all time and planning entries up to a date (company-wide payroll:export)
+  app.post('/api/pay-periods/close', authenticateToken, requirePermission('payroll:export', 'all'), validateRequest(closePayPeriodSchema), async (req: AuthRequest, res: Response) => {
+    try {
+      const { closed_through, comment } = req.body;
+      const today = new Date().toISOString().split('T')[0];
+
+      if (closed_through >= today) {
+        return res.status(400).json({
+          error: 'Only past days can be closed',
+          code: 'INVALID_CLOSING_DATE'
+        });
+      }
+
+      // Closures never move backwards: a closed period cannot be reopened
+      const currentClosedThrough = await storage.getPayPeriodClosedThrough();
+      if (currentClosedThrough && closed_through <= currentClosedThrough) {
+        return res.status(409).json({
+          error: `Pay period is already closed through ${currentClosedThrough}`,
+          code: 'PAY_PERIOD_ALREADY_CLOSED'
+        });
+      }
+
+      const closure = await storage.closePayPeriod(closed_through, req.user!.id, comment);
+
+      res.status(201).json({
+        message: 'Pay period closed successfully',
+        data: closure,
+      });
+    } catch (error) {
+      console.error('Close pay period error:', error);
+      res.status(500).json({
+        error: 'Failed to close pay period',
+        code: 'CLOSE_PAY_PERIOD_ERROR'
+      });
+    }
+  });
+
+  // GET /api/time-adjustments - Adjustments of frozen entries (own for employees)
+  app.get('/api/time-adjustments', authenticateToken, async (req: AuthRequest, res: Response) => {
+    try {
+      const queryValidation = timeAdjustmentQuerySchema.safeParse(req.query);
+      if (!queryValidation.success) {
+        return res.status(400).json({
+          error: 'Invalid query parameters',
+          code: 'VALIDATION_ERROR',
+          details: queryValidation.error.errors,
+        });
+      }
+
+      const { employee_id, start_date, end_date } = queryValidation.data;
+      let employeeId = employee_id;
+
+      // Adjustments of an employee within the time_entries:read scope, by default the user's own
+      if (employeeId) {
+        if (await rejectEmployeesOutOfScope(req, res, 'time_entries:read', [employeeId])) return;
+      } else if (!hasPermission(req.user!.role, 'time_entries:read', 'all')) {
+        const currentUserEmployee = await storage.getEmployeeByUserId(req.user!.id);
+        if (!currentUserEmployee) {
+          return res.status(404).json({
+            error: 'Employee profile not found',
+            code: 'EMPLOYEE_NOT_FOUND'
+          });
+        }
+        employeeId = currentUserEmployee.id;
+      }
+
+      const adjustments = await storage.getTimeAdjustments({ employeeId, startDate: start_date, endDate: end_date });
+
+      res.json({
+        success: true,
+        data: adjustments,
+      });
+    } catch (error) {
+      console.error('Get time adjustments error:', error);
+      res.status(500).json({
+        error: 'Failed to fetch time adjustments',
+        code: 'FETCH_TIME_ADJUSTMENTS_ERROR'
+      });
+    }
+  });
+
+  // POST /api/time-adjustments - Correct or cancel an entry of a closed pay period (company-wide payroll:export)
+  app.post('/api/time-adjustments', authenticateToken, requirePermission('payroll:export', 'all'), validateRequest(createTimeAdjustmentSchema), async (req: AuthRequest, res: Response) => {
+    try {
+      const { subject_type, subject_id } = req.body;
+
+      const [entryDate] = await storage.getEntryDates(subject_type, [subject_id]);
+      if (!entryDate) {
+        return res.status(404).json({
+          error: 'Entry not found',
+          code: 'ENTRY_NOT_FOUND'
+        });
+      }
+
+      // Entries of open periods are edited directly
+      if (getClosedDates([entryDate], await storage.getPayPeriodClosedThrough()).length === 0) {
+        return res.status(409).json({
+          error: 'Entry belongs to an open pay period and can be edited directly',
+          code: 'PAY_PERIOD_OPEN'
+        });
+      }
+
+      const today = new Date().toISOString().split('T')[0];
+      const adjustment = await storage.createTimeAdjustment(req.body, req.user!.id, today);
+      if (!adjustment) {
+        return res.status(404).json({
+          error: 'Entry not found',
+          code: 'ENTRY_NOT_FOUND'
+        });
+      }
+
+      res.status(201).json({
+        message: 'Time adjustment recorded successfully',
+        data: adjustment,
+      });
+    } catch (error) {
+      console.error('Create time adjustment error:', error);
+      res.status(500).json({
+        error: 'Failed to record time adjustment',
+        code: 'CREATE_TIME_ADJUSTMENT_ERROR'
+      });
+    }
+  });
+
+  // ========================================
+  // OVERTIME API ROUTES
+  // ========================================
+
+  // GET /api/employees/:id/overtime - Weekly overtime by pay tier and annual contingent
+  app.get('/api/employees/:id/overtime', authenticateToken, async (req: AuthRequest, res: Response) => {
+    try {
+      const employeeId = parseInt(req.params.id);
+      const year = req.query.year ? parseInt(req.query.year as string) : new Date().getFullYear();
+      if (isNaN(employeeId) || isNaN(year)) {
+        return res.status(400).json({
+          error: 'Invalid employee ID or year',
+          code: 'INVALID_PARAMETERS'
+        });
+      }
+
+      const currentUserEmployee = await storage.getEmployeeByUserId(req.user!.id);
+      const allowed = await canAccessEmployee(req, 'time_entries:read', employeeId);
+      if (currentUserEmployee?.id !== employeeId && !allowed) {
+        return res.status(403).json({
+          error: 'Access denied',
+          code: 'ACCESS_DENIED'
+        });
+      }
+
+      const [weeks, contingent, policy] = await Promise.all([
+        calculateOvertime(employeeId, `${year}-01-01`, `${year}-12-31`),
+        storage.getOvertimeContingent(employeeId, year),
+        storage.getOvertimePolicyForEmployee(employeeId),
+      ]);
+
+      res.json({
+        success: true,
+        data: {
+          year,
+          policy,
+          contingent,
+          weeks: weeks.filter(week => week.overtimeHours > 0),
+        },
+      });
+    } catch (error) {
+      console.error('Get overtime error:', error);
+      res.status(500).json({
+        error: 'Failed to compute overtime',
+        code: 'FETCH_OVERTIME_ERROR'
+      });
+    }
+  });
+
+  // ========================================
+  // PAYROLL EXPORT API ROUTES
+  // ========================================
+
+  // GET /api/payroll/config - Rubric mapping and file layouts (company-wide payroll:export)
+  app.get('/api/payroll/config', authenticateToken, requirePermission('payroll:export', 'all'), async (req: AuthRequest, res: Response) => {
+    try {
+      const config = await storage.getPayrollExportConfig();
+
+      res.json({
+        success: true,
+        data: { config, defaults: DEFAULT_PAYROLL_EXPORT_CONFIG, variables: PAYROLL_VARIABLE_LABELS },
+      });
+    } catch (error) {
+      console.error('Get payroll config error:', error);
+      res.status(500).json({
+        error: 'Failed to fetch payroll export configuration',
+        code: 'FETCH_PAYROLL_CONFIG_ERROR'
+      });
+    }
+  });
+
+  // PUT /api/payroll/config - Replace the rubric mapping (company-wide payroll:export)
+  app.put('/api/payroll/config', authenticateToken, requirePermission('payroll:export', 'all'), validateRequest(payrollExportConfigSchema), async (req: AuthRequest, res: Response) => {
+    try {
+      const config = await storage.updatePayrollExportConfig(req.body);
+
+      res.json({
+        message: 'Payroll export configuration updated successfully',
+        data: config,
+      });
+    } catch (error) {
+      console.error('Update payroll config error:', error);
+      res.status(500).json({
+        error: 'Failed to update payroll export configuration',
+        code: 'UPDATE_PAYROLL_CONFIG_ERROR'
+      });
+    }
+  });
+
+  // GET /api/payroll/export - Payroll variables of a month, as a file or a JSON preview (company-wide payroll:export)
+  app.get('/api/payroll/export', authenticateToken, requirePermission('payroll:export', 'all'), async (req: AuthRequest, res: Response) => {
+    try {
+      const queryValidation = payrollExportQuerySchema.safeParse(req.query);
+      if (!queryValidation.success) {
+        return res.status(400).json({
+          error: 'Invalid query parameters',
+          code: 'VALIDATION_ERROR',
+          details: queryValidation.error.errors,
+        });
+      }
+
+      const { month, format, employee_ids, department_id, preview } = queryValidation.data;
+      const report = await exportServiceInstance.buildPayrollReport(month, {
+        employeeIds: employee_ids,
+        departmentId: department_id,
+      });
+
+      if (preview) {
+        return res.json({ success: true, data: report });
+      }
+
+      await exportServiceInstance.exportPayroll(report, format, res);
+    } catch (error) {
+      // A truncated employee number or rubric would be booked to the wrong record
+      if (error instanceof PayrollFieldTooLongError) {
+        return res.status(422).json({
+          error: `Cannot export: ${error.field === 'employee_number' ? 'employee number' : 'rubric code'} "${error.value}" is longer than its ${error.width}-character column`,
+          code: 'PAYROLL_FIELD_TOO_LONG',
+          field: error.field,
+          value: error.value,
+          width: error.width,
+        });
+      }
+      console.error('Payroll export error:', error);
+      res.status(500).json({
+        error: 'Failed to export payroll variables',
+        code: 'EXPORT_PAYROLL_ERROR'
+      });
+    }
+  });
+
+  // ========================================
+  // TIME CLOCK API ROUTES
+  // ========================================
+
+  const CLOCK_EVENT_ERRORS: Record<string, string> = {
+    ALREADY_CLOCKED_IN: 'Already clocked in - clock out first',
+    NOT_CLOCKED_IN: 'Not clocked in',
+    BREAK_ALREADY_STARTED: 'A break is already in progress',
+    NO_BREAK_IN_PROGRESS: 'No break in progress',
+    OUT_OF_SEQUENCE: 'Punch is older than the previous one',
+    OUTSIDE_WORK_SITE: 'Clock-in position is outside the work sites',
+    IDEMPOTENCY_KEY_REUSED: 'Idempotency key already used for another action',
+  };
+
+  const CLOCK_EVENT_MESSAGES: Record<ClockAction, string> = {
+    clock_in: 'Clocked in successfully',
+    break_start: 'Break started',
+    break_end: 'Break ended',
+    clock_out: 'Clocked out successfully',
+  };
+
+  // Punches the current user's own clock; the idempotency key comes from the body or the Idempotency-Key header
+  const handleClockEvent = (action: ClockAction) => async (req: AuthRequest, res: Response) => {
+    try {
+      const validation = clockEventSchema.safeParse({
+        ...req.body,
+        idempotency_key: req.body?.idempotency_key ?? req.get('Idempotency-Key'),
+      });
+      if (!validation.success) {
+        return res.status(400).json({
+          error: 'Invalid request body',
+          code: 'VALIDATION_ERROR',
+          details: validation.error.errors,
+        });
+      }
+
+      const currentUserEmployee = await storage.getEmployeeByUserId(req.user!.id);
+      if (!currentUserEmployee) {
+        return res.status(404).json({
+          error: 'Employee profile not found',
+          code: 'EMPLOYEE_NOT_FOUND'
+        });
+      }
+
+      const result = await storage.recordClockEvent(currentUserEmployee.id, action, validation.data);
+      if ('error' in result) {
+        return res.status(409).json({
+          error: CLOCK_EVENT_ERRORS[result.error],
+          code: result.error
+        });
+      }
+
+      // Flagged clock-ins are accepted and sent to the manager for review
+      if (result.geofence?.flagged && currentUserEmployee.manager_id) {
+        try {
+          const manager = await storage.getEmployee(currentUserEmployee.manager_id);
+          if (manager?.user_id) {
+            await getNotificationService().sendOutOfZonePunchNotification(
+              manager.user_id,
+              `${currentUserEmployee.first_name} ${currentUserEmployee.last_name}`,
+              result.entry
+            );
           }
+        } catch (notificationError) {
+          console.error('Out of zone punch notification error:', notificationError);
         }
       }
 
-      // Grouper les conflits par type et gravité
-      const conflictSummary = conflicts.reduce((acc, conflict) => {
-        const key = `${conflict.type}_${conflict.severity}`;
-        if (!acc[key]) {
-          acc[key] = { type: conflict.type, severity: conflict.severity, count: 0 };
-        }
-        acc[key].count++;
-        return acc;
-      }, {} as Record<string, any>);
+      res.status(action === 'clock_in' && !result.replayed ? 201 : 200).json({
+        message: CLOCK_EVENT_MESSAGES[action],
+        data: toClockPunch(result.entry),
+        replayed: result.replayed,
+        ...(result.geofence?.status === 'outside' && {
+          warning: `Clock-in recorded ${result.geofence.distanceMeters} m away from the work site`,
+        }),
+      });
+    } catch (error) {
+      console.error(`Clock event (${action}) error:`, error);
+      res.status(500).json({
+        error: 'Failed to record clock event',
+        code: 'CLOCK_EVENT_ERROR'
+      });
+    }
+  };
+
+  // POST /api/time-entries/clock-in - Open a punch at server time
+  app.post('/api/time-entries/clock-in', authenticateToken, handleClockEvent('clock_in'));
+
+  // POST /api/time-entries/break-start - Start a break within the open punch
+  app.post('/api/time-entries/break-start', authenticateToken, handleClockEvent('break_start'));
+
+  // POST /api/time-entries/break-end - End the break in progress
+  app.post('/api/time-entries/break-end', authenticateToken, handleClockEvent('break_end'));
+
+  // POST /api/time-entries/clock-out - Close the open punch, ending any break in progress
+  app.post('/api/time-entries/clock-out', authenticateToken, handleClockEvent('clock_out'));
+
+  // GET /api/time-entries/current - Current user's open punch, if any
+  app.get('/api/time-entries/current', authenticateToken, async (req: AuthRequest, res: Response) => {
+    try {
+      const currentUserEmployee = await storage.getEmployeeByUserId(req.user!.id);
+      if (!currentUserEmployee) {
+        return res.status(404).json({
+          error: 'Employee profile not found',
+          code: 'EMPLOYEE_NOT_FOUND'
+        });
+      }
+
+      const entry = await storage.getOpenPunch(currentUserEmployee.id);
 
       res.json({
         success: true,
-        data: {
-          conflicts,
-          totalCount: conflicts.length,
-          summary: Object.values(conflictSummary),
-          hasErrors: conflicts.some(c => c.severity === 'error'),
-          hasWarnings: conflicts.some(c => c.severity === 'warning')
-        }
+        data: entry ? toClockPunch(entry) : null,
+      });
+    } catch (error) {
+      console.error('Get current punch error:', error);
+      res.status(500).json({
+        error: 'Failed to fetch current punch',
+        code: 'FETCH_CURRENT_PUNCH_ERROR'
       });
+    }
+  });
+
+  // GET /api/time-entries/today - Current user's punches for today (company time zone)
+  app.get('/api/time-entries/today', authenticateToken, async (req: AuthRequest, res: Response) => {
+    try {
+      const currentUserEmployee = await storage.getEmployeeByUserId(req.user!.id);
+      if (!currentUserEmployee) {
+        return res.status(404).json({
+          error: 'Employee profile not found',
+          code: 'EMPLOYEE_NOT_FOUND'
+        });
+      }
+
+      const { date } = getZonedDateTime(new Date(), COMPANY_TIME_ZONE);
+      const entries = await storage.getPunchesForDate(currentUserEmployee.id, date);
 
+      res.json({
+        success: true,
+        data: entries.map(toClockPunch),
+      });
     } catch (error) {
-      console.error('Conflict detection error:', error);
-      res.status(500).json({ error: 'Erreur lors de la détection des conflits' });
+      console.error('Get today punches error:', error);
+      res.status(500).json({
+        error: 'Failed to fetch today punches',
+        code: 'FETCH_TODAY_PUNCHES_ERROR'
+      });
     }
   });
 
   // ========================================
-  // NOTIFICATIONS ROUTES
+  // WORK SITES API ROUTES
   // ========================================
-  
-  // Get notifications with pagination and filters
-  app.get('/api/notifications', authenticateToken, async (req: AuthRequest, res: Response) => {
-    try {
-      const userId = req.user!.id;
-      const page = parseInt(req.query.page as string) || 1;
-      const limit = parseInt(req.query.limit as string) || 20;
-      const type = req.query.type as string;
-      const isRead = req.query.isRead ? req.query.isRead === 'true' : undefined;
-      const search = req.query.search as string;
 
-      const notifications = await storage.getNotifications({
-        userId,
-        page,
-        limit,
-        type,
-        isRead,
-        search
+  // GET /api/work-sites - List work sites (Admin only)
+  app.get('/api/work-sites', authenticateToken, authorizeRole(['admin']), async (req: AuthRequest, res: Response) => {
+    try {
+      const departmentId = req.query.department_id ? parseInt(req.query.department_id as string) : undefined;
+      const projectId = req.query.project_id ? parseInt(req.query.project_id as string) : undefined;
+      const sites = await storage.getWorkSites({
+        departmentId: departmentId && !isNaN(departmentId) ? departmentId : undefined,
+        projectId: projectId && !isNaN(projectId) ? projectId : undefined,
       });
 
-      const unreadCount = await storage.getUnreadNotificationCount(userId);
-
       res.json({
-        data: {
-          notifications,
-          unreadCount,
-          hasMore: notifications.length === limit
-        }
+        success: true,
+        data: sites,
       });
     } catch (error) {
-      console.error('Error fetching notifications:', error);
-      res.status(500).json({ message: 'Erreur lors de la récupération des notifications' });
+      console.error('Get work sites error:', error);
+      res.status(500).json({
+        error: 'Failed to fetch work sites',
+        code: 'FETCH_WORK_SITES_ERROR'
+      });
     }
   });
 
-  // Mark notification as read
-  app.patch('/api/notifications/:id/read', authenticateToken, async (req: AuthRequest, res: Response) => {
+  // Checks the department and project a work site is attached to
+  const rejectMissingWorkSiteScope = async (res: Response, site: { department_id?: number | null; project_id?: number | null }) => {
+    if (site.department_id && !(await storage.getDepartment(site.department_id))) {
+      res.status(404).json({
+        error: 'Department not found',
+        code: 'DEPARTMENT_NOT_FOUND'
+      });
+      return true;
+    }
+    if (site.project_id && !(await storage.getProject(site.project_id))) {
+      res.status(404).json({
+        error: 'Project not found',
+        code: 'PROJECT_NOT_FOUND'
+      });
+      return true;
+    }
+    return false;
+  };
+
+  // POST /api/work-sites - Define a work site (Admin only)
+  app.post('/api/work-sites', authenticateToken, authorizeRole(['admin']), validateRequest(createWorkSiteSchema), async (req: AuthRequest, res: Response) => {
     try {
-      const notificationId = parseInt(req.params.id);
-      const userId = req.user!.id;
+      if (await rejectMissingWorkSiteScope(res, req.body)) return;
 
-      await storage.markNotificationAsRead(notificationId, userId);
-      
-      res.json({ message: 'Notification marquée comme lue' });
+      const site = await storage.createWorkSite(req.body, req.user!.id);
+
+      res.status(201).json({
+        message: 'Work site created successfully',
+        data: site,
+      });
     } catch (error) {
-      console.error('Error marking notification as read:', error);
-      res.status(500).json({ message: 'Erreur lors de la mise à jour de la notification' });
+      console.error('Create work site error:', error);
+      res.status(500).json({
+        error: 'Failed to create work site',
+        code: 'CREATE_WORK_SITE_ERROR'
+      });
     }
   });
 
-  // Mark all notifications as read
-  app.patch('/api/notifications/read-all', authenticateToken, async (req: AuthRequest, res: Response) => {
+  // PUT /api/work-sites/:id - Update a work site (Admin only)
+  app.put('/api/work-sites/:id', authenticateToken, authorizeRole(['admin']), validateRequest(updateWorkSiteSchema), async (req: AuthRequest, res: Response) => {
     try {
-      const userId = req.user!.id;
+      if (await rejectMissingWorkSiteScope(res, req.body)) return;
 
-      await storage.markAllNotificationsAsRead(userId);
-      
-      res.json({ message: 'Toutes les notifications marquées comme lues' });
+      const siteId = parseInt(req.params.id);
+      const site = isNaN(siteId) ? undefined : await storage.updateWorkSite(siteId, req.body);
+      if (!site) {
+        return res.status(404).json({
+          error: 'Work site not found',
+          code: 'WORK_SITE_NOT_FOUND'
+        });
+      }
+
+      res.json({
+        message: 'Work site updated successfully',
+        data: site,
+      });
     } catch (error) {
-      console.error('Error marking all notifications as read:', error);
-      res.status(500).json({ message: 'Erreur lors de la mise à jour des notifications' });
+      console.error('Update work site error:', error);
+      res.status(500).json({
+        error: 'Failed to update work site',
+        code: 'UPDATE_WORK_SITE_ERROR'
+      });
     }
   });
 
-  // Delete notification
-  app.delete('/api/notifications/:id', authenticateToken, async (req: AuthRequest, res: Response) => {
+  // DELETE /api/work-sites/:id - Delete a work site; past punches keep their geofence status (Admin only)
+  app.delete('/api/work-sites/:id', authenticateToken, authorizeRole(['admin']), async (req: AuthRequest, res: Response) => {
     try {
-      const notificationId = parseInt(req.params.id);
-      const userId = req.user!.id;
+      const siteId = parseInt(req.params.id);
+      const deleted = !isNaN(siteId) && await storage.deleteWorkSite(siteId);
+      if (!deleted) {
+        return res.status(404).json({
+          error: 'Work site not found',
+          code: 'WORK_SITE_NOT_FOUND'
+        });
+      }
 
-      await storage.deleteNotification(notificationId, userId);
-      
-      res.json({ message: 'Notification supprimée' });
+      res.json({ message: 'Work site deleted successfully' });
     } catch (error) {
-      console.error('Error deleting notification:', error);
-      res.status(500).json({ message: 'Erreur lors de la suppression de la notification' });
+      console.error('Delete work site error:', error);
+      res.status(500).json({
+        error: 'Failed to delete work site',
+        code: 'DELETE_WORK_SITE_ERROR'
+      });
     }
   });
 
-  // Get notification preferences
-  app.get('/api/notifications/preferences', authenticateToken, async (req: AuthRequest, res: Response) => {
+  // GET /api/geofence/policy - Policy applied to out-of-zone clock-ins (Admin only)
+  app.get('/api/geofence/policy', authenticateToken, authorizeRole(['admin']), async (req: AuthRequest, res: Response) => {
     try {
-      const userId = req.user!.id;
+      const policy = await storage.getGeofencePolicy();
 
-      const preferences = await storage.getNotificationPreferences(userId);
-      
-      res.json({ data: preferences });
+      res.json({
+        success: true,
+        data: { policy, defaults: DEFAULT_GEOFENCE_POLICY },
+      });
     } catch (error) {
-      console.error('Error fetching notification preferences:', error);
-      res.status(500).json({ message: 'Erreur lors de la récupération des préférences' });
+      console.error('Get geofence policy error:', error);
+      res.status(500).json({
+        error: 'Failed to fetch geofence policy',
+        code: 'FETCH_GEOFENCE_POLICY_ERROR'
+      });
     }
   });
 
-  // Update notification preferences
-  app.patch('/api/notifications/preferences', authenticateToken, async (req: AuthRequest, res: Response) => {
+  // PUT /api/geofence/policy - Block, warn or flag out-of-zone clock-ins (Admin only)
+  app.put('/api/geofence/policy', authenticateToken, authorizeRole(['admin']), validateRequest(geofencePolicySchema), async (req: AuthRequest, res: Response) => {
     try {
-      const userId = req.user!.id;
-      const preferences = req.body;
+      const policy = await storage.updateGeofencePolicy(req.body);
 
-      await storage.updateNotificationPreferences(userId, preferences);
-      
-      res.json({ message: 'Préférences mises à jour' });
+      res.json({
+        message: 'Geofence policy updated successfully',
+        data: policy,
+      });
     } catch (error) {
-      console.error('Error updating notification preferences:', error);
-      res.status(500).json({ message: 'Erreur lors de la mise à jour des préférences' });
+      console.error('Update geofence policy error:', error);
+      res.status(500).json({
+        error: 'Failed to update geofence policy',
+        code: 'UPDATE_GEOFENCE_POLICY_ERROR'
+      });
     }
   });
 
   // ========================================
-  // EXPORT ROUTES - New comprehensive implementation
+  // KIOSK API ROUTES
   // ========================================
-  
-  app.post('/api/export/comprehensive', authenticateToken, async (req: AuthRequest, res: Response) => {
-    try {
-      const exportOptions: ExportOptions = req.body;
-      
-      // Validate export options
-      const { type, format, dateRange, employeeIds, departmentFilter } = exportOptions;
-      
-      if (!type || !format || !dateRange) {
-        return res.status(400).json({ 
-          message: 'Type, format et période requis' 
-        });
-      }
-
-      // Permission check
-      const isAdmin = req.user!.role === 'admin';
-      let allowedEmployeeIds = employeeIds;
-      
-      if (!isAdmin) {
-        const currentEmployee = await storage.getEmployeeByUserId(req.user!.id);
-        if (!currentEmployee) {
-          return res.status(403).json({ message: 'Profil employé non trouvé' });
-        }
-        allowedEmployeeIds = [currentEmployee.id];
-      }
 
-      // Fetch data based on filters
-      const employees = await storage.getEmployees({
-        departmentFilter,
-        ids: allowedEmployeeIds
-      });
+  // The token hash never leaves the server
+  const toKioskDeviceResponse = ({ token_hash, ...device }: KioskDevice) => device;
 
-      const timeEntries = await storage.getTimeEntries({
-        startDate: dateRange.start,
-        endDate: dateRange.end,
-        employeeIds: allowedEmployeeIds
+  // Checks the department and work site a kiosk is attached to
+  const rejectMissingKioskScope = async (res: Response, kiosk: { department_id?: number | null; work_site_id?: number | null }) => {
+    if (kiosk.department_id && !(await storage.getDepartment(kiosk.department_id))) {
+      res.status(404).json({
+        error: 'Department not found',
+        code: 'DEPARTMENT_NOT_FOUND'
       });
-
-      const planningEntries = await storage.getPlanningEntries({
-        startDate: dateRange.start,
-        endDate: dateRange.end,
-        employeeIds: allowedEmployeeIds
+      return true;
+    }
+    if (kiosk.work_site_id && !(await storage.getWorkSite(kiosk.work_site_id))) {
+      res.status(404).json({
+        error: 'Work site not found',
+        code: 'WORK_SITE_NOT_FOUND'
       });
+      return true;
+    }
+    return false;
+  };
 
-      const exportData = {
-        employees: employees.map(emp => ({
-          id: emp.id,
-          firstName: emp.firstName,
-          lastName: emp.lastName,
-          email: emp.email,
-          position: emp.position,
-          department: emp.department,
-          contractType: emp.contractType || 'CDI',
-          weeklyHours: emp.weeklyHours || 35
-        })),
-        timeEntries: timeEntries.map(entry => ({
-          id: entry.id,
-          employeeId: entry.employeeId,
-          employeeName: `${employees.find(e => e.id === entry.employeeId)?.firstName} ${employees.find(e => e.id === entry.employeeId)?.lastName}`,
-          clockIn: entry.clockIn || '',
-          clockOut: entry.clockOut || undefined,
-          type: entry.type as 'work' | 'break',
-          duration: entry.duration || 0,
-          date: entry.date || new Date().toISOString().split('T')[0]
-        })),
-        planningEntries: planningEntries.map(entry => ({
-          id: entry.id,
-          employeeId: entry.employeeId,
-          employeeName: `${employees.find(e => e.id === entry.employeeId)?.firstName} ${employees.find(e => e.id === entry.employeeId)?.lastName}`,
-          startTime: entry.startTime,
-          endTime: entry.endTime,
-          type: entry.type as 'work' | 'break' | 'vacation' | 'sick',
-          status: entry.status as 'planned' | 'validated' | 'rejected',
-          date: entry.date
-        }))
-      };
-
-      if (format === 'excel') {
-        await newExportService.generateExcelExport(exportData, exportOptions, res);
-      } else if (format === 'pdf') {
-        // Import PDF service 
-        const { pdfService } = await import('./services/pdf.service');
-        await pdfService.generatePDF(exportData, exportOptions, res);
-      } else {
-        res.status(400).json({ message: 'Format non supporté' });
-      }
+  // GET /api/kiosks - List kiosk devices (Admin only)
+  app.get('/api/kiosks', authenticateToken, authorizeRole(['admin']), async (req: AuthRequest, res: Response) => {
+    try {
+      const devices = await storage.getKioskDevices();
 
+      res.json({
+        success: true,
+        data: devices.map(toKioskDeviceResponse),
+      });
     } catch (error) {
-      console.error('Comprehensive export error:', error);
-      res.status(500).json({ 
-        message: 'Erreur lors de l\'export',
-        error: error instanceof Error ? error.message : 'Unknown error'
+      console.error('Get kiosks error:', error);
+      res.status(500).json({
+        error: 'Failed to fetch kiosks',
+        code: 'FETCH_KIOSKS_ERROR'
       });
     }
   });
 
-  // ========================================
-  
-  // Initialize Export Service
-  const exportServiceInstance = new ExportService(storage);
+  // POST /api/kiosks - Register a kiosk; its token is only returned here (Admin only)
+  app.post('/api/kiosks', authenticateToken, authorizeRole(['admin']), validateRequest(createKioskDeviceSchema), async (req: AuthRequest, res: Response) => {
+    try {
+      if (await rejectMissingKioskScope(res, req.body)) return;
 
-  // GET /api/planning/export - Export planning data
-  app.get('/api/planning/export', authenticateToken, async (req: AuthRequest, res: Response) => {
+      const token = generateKioskToken();
+      const device = await storage.createKioskDevice(req.body, hashKioskToken(token), req.user!.id);
+
+      res.status(201).json({
+        message: 'Kiosk created successfully',
+        data: { ...toKioskDeviceResponse(device), token },
+      });
+    } catch (error) {
+      console.error('Create kiosk error:', error);
+      res.status(500).json({
+        error: 'Failed to create kiosk',
+        code: 'CREATE_KIOSK_ERROR'
+      });
+    }
+  });
+
+  // PUT /api/kiosks/:id - Rename, move or disable a kiosk (Admin only)
+  app.put('/api/kiosks/:id', authenticateToken, authorizeRole(['admin']), validateRequest(updateKioskDeviceSchema), async (req: AuthRequest, res: Response) => {
     try {
-      const { format = 'excel', period = 'week', startDate, endDate, employeeIds } = req.query;
-      
-      // Parse employeeIds if provided
-      let parsedEmployeeIds: number[] | undefined;
-      if (employeeIds) {
-        parsedEmployeeIds = Array.isArray(employeeIds) 
-          ? employeeIds.map(id => parseInt(id as string)).filter(id => !isNaN(id))
-          : [parseInt(employeeIds as string)].filter(id => !isNaN(id));
-      }
-      
-      // Validate format
-      if (!['excel', 'pdf'].includes(format as string)) {
-        return res.status(400).json({
-          error: 'Invalid format. Must be excel or pdf',
-          code: 'INVALID_FORMAT'
-        });
-      }
+      if (await rejectMissingKioskScope(res, req.body)) return;
 
-      // Permission check: non-admin can only export their own data
-      if (req.user!.role !== 'admin') {
-        const currentUserEmployee = await storage.getEmployeeByUserId(req.user!.id);
-        if (!currentUserEmployee) {
-          return res.status(403).json({
-            error: 'Employee profile not found',
-            code: 'EMPLOYEE_NOT_FOUND'
-          });
-        }
-        parsedEmployeeIds = [currentUserEmployee.id];
+      const kioskId = parseInt(req.params.id);
+      const device = isNaN(kioskId) ? undefined : await storage.updateKioskDevice(kioskId, req.body);
+      if (!device) {
+        return res.status(404).json({
+          error: 'Kiosk not found',
+          code: 'KIOSK_NOT_FOUND'
+        });
       }
 
-      await exportServiceInstance.exportPlanning({
-        format: format as 'excel' | 'pdf',
-        period: period as string,
-        startDate: startDate as string,
-        endDate: endDate as string,
-        employeeIds: parsedEmployeeIds
-      }, res);
-
+      res.json({
+        message: 'Kiosk updated successfully',
+        data: toKioskDeviceResponse(device),
+      });
     } catch (error) {
-      console.error('Planning export error:', error);
+      console.error('Update kiosk error:', error);
       res.status(500).json({
-        error: 'Failed to export planning data',
-        code: 'EXPORT_PLANNING_ERROR'
+        error: 'Failed to update kiosk',
+        code: 'UPDATE_KIOSK_ERROR'
       });
     }
   });
 
-  // GET /api/time-entries/export - Export time entries data
-  app.get('/api/time-entries/export', authenticateToken, async (req: AuthRequest, res: Response) => {
+  // POST /api/kiosks/:id/token - Issue a new token, revoking the previous one (Admin only)
+  app.post('/api/kiosks/:id/token', authenticateToken, authorizeRole(['admin']), async (req: AuthRequest, res: Response) => {
     try {
-      const { format = 'excel', startDate, endDate, employeeIds, projectIds } = req.query;
-      
-      // Parse IDs if provided
-      let parsedEmployeeIds: number[] | undefined;
-      if (employeeIds) {
-        parsedEmployeeIds = Array.isArray(employeeIds) 
-          ? employeeIds.map(id => parseInt(id as string)).filter(id => !isNaN(id))
-          : [parseInt(employeeIds as string)].filter(id => !isNaN(id));
+      const kioskId = parseInt(req.params.id);
+      const token = generateKioskToken();
+      const device = isNaN(kioskId) ? undefined : await storage.updateKioskDevice(kioskId, { token_hash: hashKioskToken(token) });
+      if (!device) {
+        return res.status(404).json({
+          error: 'Kiosk not found',
+          code: 'KIOSK_NOT_FOUND'
+        });
       }
 
-      let parsedProjectIds: number[] | undefined;
-      if (projectIds) {
-        parsedProjectIds = Array.isArray(projectIds) 
-          ? projectIds.map(id => parseInt(id as string)).filter(id => !isNaN(id))
-          : [parseInt(projectIds as string)].filter(id => !isNaN(id));
-      }
-      
-      // Validate format
-      if (!['excel', 'pdf'].includes(format as string)) {
-        return res.status(400).json({
-          error: 'Invalid format. Must be excel or pdf',
-          code: 'INVALID_FORMAT'
+      res.json({
+        message: 'Kiosk token regenerated successfully',
+        data: { ...toKioskDeviceResponse(device), token },
+      });
+    } catch (error) {
+      console.error('Regenerate kiosk token error:', error);
+      res.status(500).json({
+        error: 'Failed to regenerate kiosk token',
+        code: 'REGENERATE_KIOSK_TOKEN_ERROR'
+      });
+    }
+  });
+
+  // DELETE /api/kiosks/:id - Remove a kiosk; its punches are kept (Admin only)
+  app.delete('/api/kiosks/:id', authenticateToken, authorizeRole(['admin']), async (req: AuthRequest, res: Response) => {
+    try {
+      const kioskId = parseInt(req.params.id);
+      const deleted = !isNaN(kioskId) && await storage.deleteKioskDevice(kioskId);
+      if (!deleted) {
+        return res.status(404).json({
+          error: 'Kiosk not found',
+          code: 'KIOSK_NOT_FOUND'
         });
       }
 
-      // Permission check: non-admin can only export their own data
-      if (req.user!.role !== 'admin') {
-        const currentUserEmployee = await storage.getEmployeeByUserId(req.user!.id);
-        if (!currentUserEmployee) {
-          return res.status(403).json({
-            error: 'Employee profile not found',
-            code: 'EMPLOYEE_NOT_FOUND'
-          });
-        }
-        parsedEmployeeIds = [currentUserEmployee.id];
-      }
+      res.json({ message: 'Kiosk deleted successfully' });
+    } catch (error) {
+      console.error('Delete kiosk error:', error);
+      res.status(500).json({
+        error: 'Failed to delete kiosk',
+        code: 'DELETE_KIOSK_ERROR'
+      });
+    }
+  });
 
-      await exportServiceInstance.exportTimeEntries({
-        format: format as 'excel' | 'pdf',
-        startDate: startDate as string,
-        endDate: endDate as string,
-        employeeIds: parsedEmployeeIds,
-        projectIds: parsedProjectIds
-      }, res);
+  // GET /api/kiosks/credentials - Which employees have a PIN or a badge (Admin only)
+  app.get('/api/kiosks/credentials', authenticateToken, authorizeRole(['admin']), async (req: AuthRequest, res: Response) => {
+    try {
+      const statuses = await storage.getKioskCredentialStatuses();
 
+      res.json({
+        success: true,
+        data: statuses,
+      });
     } catch (error) {
-      console.error('Time entries export error:', error);
+      console.error('Get kiosk credentials error:', error);
       res.status(500).json({
-        error: 'Failed to export time entries data',
-        code: 'EXPORT_TIME_ENTRIES_ERROR'
+        error: 'Failed to fetch kiosk credentials',
+        code: 'FETCH_KIOSK_CREDENTIALS_ERROR'
       });
     }
   });
 
-  // GET /api/reports/monthly/:employee_id - Export monthly report for specific employee
-  app.get('/api/reports/monthly/:employee_id', authenticateToken, async (req: AuthRequest, res: Response) => {
+  // PUT /api/employees/:id/kiosk-credentials - Set or remove an employee's PIN and badge (Admin only)
+  app.put('/api/employees/:id/kiosk-credentials', authenticateToken, authorizeRole(['admin']), validateRequest(kioskCredentialsSchema), async (req: AuthRequest, res: Response) => {
     try {
-      const employeeId = parseInt(req.params.employee_id);
+      const employeeId = parseInt(req.params.id);
       if (isNaN(employeeId)) {
         return res.status(400).json({
           error: 'Invalid employee ID',
-          code: 'INVALID_EMPLOYEE_ID'
+          code: 'INVALID_ID'
         });
       }
 
-      const { format = 'pdf', month } = req.query;
-      
-      // Validate format
-      if (!['excel', 'pdf'].includes(format as string)) {
-        return res.status(400).json({
-          error: 'Invalid format. Must be excel or pdf',
-          code: 'INVALID_FORMAT'
+      const { pin, badge_code } = req.body;
+      const result = await storage.updateKioskCredentials(employeeId, {
+        ...(pin !== undefined && { kiosk_pin_hash: pin === null ? null : await bcrypt.hash(pin, 12) }),
+        ...(badge_code !== undefined && { badge_code }),
+      });
+      if ('error' in result) {
+        return res.status(result.error === 'BADGE_CODE_TAKEN' ? 409 : 404).json({
+          error: result.error === 'BADGE_CODE_TAKEN' ? 'Badge code already assigned to another employee' : 'Employee not found',
+          code: result.error
         });
       }
 
-      // Validate month format (YYYY-MM)
-      const monthRegex = /^\d{4}-\d{2}$/;
-      if (!month || !monthRegex.test(month as string)) {
-        return res.status(400).json({
-          error: 'Invalid month format. Must be YYYY-MM',
-          code: 'INVALID_MONTH_FORMAT'
+      res.json({
+        message: 'Kiosk credentials updated successfully',
+        data: {
+          employeeId: result.id,
+          hasPin: result.kiosk_pin_hash !== null,
+          badgeCode: result.badge_code,
+        },
+      });
+    } catch (error) {
+      console.error('Update kiosk credentials error:', error);
+      res.status(500).json({
+        error: 'Failed to update kiosk credentials',
+        code: 'UPDATE_KIOSK_CREDENTIALS_ERROR'
+      });
+    }
+  });
+
+  // Identifies the employee at the kiosk; wrong PINs count towards a lockout of
+  // the employee number. Sends the error response and returns null on failure.
+  // Employee number without PIN only comes from replayed offline punches:
+  // the kiosk token vouches for them, and the punch waits for the manager
+  const identifyKioskEmployee = async (req: KioskRequest, res: Response, credentials: KioskIdentify | KioskPunchCredentials) => {
+    const lockoutKey = 'pin' in credentials ? credentials.employee_number : null;
+    if (lockoutKey) {
+      const remaining = await kioskPinLockout.getRemainingLockout(lockoutKey);
+      if (remaining > 0) {
+        res.status(429).json({
+          error: 'Too many wrong PINs, try again later',
+          code: 'PIN_LOCKED',
+          retryAfter: Math.ceil(remaining / 1000)
         });
+        return null;
       }
+    }
 
-      // Permission check: non-admin can only export their own report
-      if (req.user!.role !== 'admin') {
-        const currentUserEmployee = await storage.getEmployeeByUserId(req.user!.id);
-        if (!currentUserEmployee || currentUserEmployee.id !== employeeId) {
-          return res.status(403).json({
-            error: 'Access denied - can only export own reports',
-            code: 'ACCESS_DENIED'
-          });
-        }
-      }
+    const employee = await storage.getEmployeeForKiosk(credentials);
+    const valid = !!employee && (!('pin' in credentials)
+      || (!!employee.kiosk_pin_hash && await bcrypt.compare(credentials.pin, employee.kiosk_pin_hash)));
 
-      // Verify employee exists
-      const employee = await storage.getEmployee(employeeId);
-      if (!employee) {
-        return res.status(404).json({
-          error: 'Employee not found',
-          code: 'EMPLOYEE_NOT_FOUND'
+    if (!valid) {
+      if (lockoutKey) await kioskPinLockout.recordFailure(lockoutKey);
+      // Same answer for an unknown employee and a wrong PIN
+      res.status(401).json({
+        error: 'Invalid credentials',
+        code: 'INVALID_CREDENTIALS'
+      });
+      return null;
+    }
+    if (lockoutKey) await kioskPinLockout.reset(lockoutKey);
+
+    if (req.kiosk!.department_id && employee!.department_id !== req.kiosk!.department_id) {
+      res.status(403).json({
+        error: 'This kiosk is reserved for another department',
+        code: 'KIOSK_DEPARTMENT_MISMATCH'
+      });
+      return null;
+    }
+
+    return employee!;
+  };
+
+  // GET /api/kiosk/me - Kiosk identity and server time (Kiosk token)
+  app.get('/api/kiosk/me', kioskRateLimit, authenticateKiosk, async (req: KioskRequest, res: Response) => {
+    res.json({
+      success: true,
+      data: {
+        kiosk: toKioskDeviceResponse(req.kiosk!),
+        serverTime: new Date().toISOString(),
+      },
+    });
+  });
+
+  // POST /api/kiosk/identify - Check credentials and return the employee's open punch (Kiosk token)
+  app.post('/api/kiosk/identify', kioskRateLimit, authenticateKiosk, validateRequest(kioskIdentifySchema), async (req: KioskRequest, res: Response) => {
+    try {
+      const employee = await identifyKioskEmployee(req, res, req.body);
+      if (!employee) return;
+
+      const openPunch = await storage.getOpenPunch(employee.id);
+
+      res.json({
+        success: true,
+        data: {
+          employee: { id: employee.id, firstName: employee.first_name, lastName: employee.last_name },
+          punch: openPunch ? toClockPunch(openPunch) : null,
+        },
+      });
+    } catch (error) {
+      console.error('Kiosk identify error:', error);
+      res.status(500).json({
+        error: 'Failed to identify employee',
+        code: 'KIOSK_IDENTIFY_ERROR'
+      });
+    }
+  });
+
+  // POST /api/kiosk/punch - Punch for the identified employee; punches buffered
+  // offline by the kiosk carry the time they were made (Kiosk token)
+  app.post('/api/kiosk/punch', kioskRateLimit, authenticateKiosk, validateRequest(kioskPunchSchema), async (req: KioskRequest, res: Response) => {
+    try {
+      const employee = await identifyKioskEmployee(req, res, req.body.credentials);
+      if (!employee) return;
+
+      const receivedAt = new Date();
+      const occurredAt = req.body.occurred_at ? resolveSyncTimestamp(req.body.occurred_at, receivedAt) : receivedAt;
+      if (!occurredAt) {
+        return res.status(409).json({
+          error: 'Punch is too old to be replayed',
+          code: 'STALE_PUNCH'
         });
       }
+      if (req.body.occurred_at && await rejectClosedPayPeriod(res, [getZonedDateTime(occurredAt, COMPANY_TIME_ZONE).date])) return;
 
-      await exportServiceInstance.exportMonthlyReport(
-        employeeId,
-        month as string,
-        { format: format as 'excel' | 'pdf' },
-        res
+      const action: ClockAction = req.body.action;
+      const unconfirmed = !('pin' in req.body.credentials) && 'employee_number' in req.body.credentials;
+      const result = await storage.recordClockEvent(
+        employee.id,
+        action,
+        { idempotency_key: req.body.idempotency_key },
+        occurredAt,
+        { kiosk: req.kiosk, receivedAt, ...(unconfirmed && { reviewReason: 'unconfirmed_kiosk_punch' as const }) }
       );
+      if ('error' in result) {
+        return res.status(409).json({
+          error: CLOCK_EVENT_ERRORS[result.error],
+          code: result.error
+        });
+      }
 
+      res.status(action === 'clock_in' && !result.replayed ? 201 : 200).json({
+        message: CLOCK_EVENT_MESSAGES[action],
+        data: {
+          employee: { id: employee.id, firstName: employee.first_name, lastName: employee.last_name },
+          punch: toClockPunch(result.entry),
+        },
+        replayed: result.replayed,
+      });
     } catch (error) {
-      console.error('Monthly report export error:', error);
+      console.error('Kiosk punch error:', error);
       res.status(500).json({
-        error: 'Failed to export monthly report',
-        code: 'EXPORT_MONTHLY_REPORT_ERROR'
+        error: 'Failed to record clock event',
+        code: 'CLOCK_EVENT_ERROR'
       });
     }
   });
 
-  // GET /api/reports/export-options - Get available export options and formats
-  app.get('/api/reports/export-options', authenticateToken, async (req: AuthRequest, res: Response) => {
+  // ========================================
+  // OFFLINE SYNC API ROUTES
+  // ========================================
+
+  // POST /api/sync/batch - Replay the current user's offline queue in order
+  app.post('/api/sync/batch', authenticateToken, validateRequest(syncBatchSchema), async (req: AuthRequest, res: Response) => {
     try {
-      const isAdmin = req.user!.role === 'admin';
-      let currentEmployee = null;
-      
-      if (!isAdmin) {
-        currentEmployee = await storage.getEmployeeByUserId(req.user!.id);
+      const currentUserEmployee = await storage.getEmployeeByUserId(req.user!.id);
+      if (!currentUserEmployee) {
+        return res.status(404).json({
+          error: 'Employee profile not found',
+          code: 'EMPLOYEE_NOT_FOUND'
+        });
+      }
+
+      const { device_id, mutations } = req.body as SyncBatch;
+      const receivedAt = new Date();
+
+      // Sequential on purpose: punches of the same day depend on each other.
+      // Mutations queued by another user of the device are never applied.
+      const results = [];
+      for (const mutation of mutations) {
+        results.push(mutation.user_id === req.user!.id
+          ? await storage.applySyncMutation(currentUserEmployee.id, device_id, mutation, receivedAt)
+          : { clientId: mutation.client_id, status: 'rejected' as const, error: 'USER_MISMATCH' });
       }
 
       res.json({
         success: true,
         data: {
-          formats: ['excel', 'pdf'],
-          periods: ['week', 'month', 'year'],
-          exportTypes: [
-            {
-              id: 'planning',
-              name: 'Planning Export',
-              description: 'Export planning entries with employee schedules',
-              endpoint: '/api/planning/export',
-              availableFormats: ['excel', 'pdf']
-            },
-            {
-              id: 'time-entries',
-              name: 'Time Entries Export',
-              description: 'Export time tracking data for payroll and analysis',
-              endpoint: '/api/time-entries/export',
-              availableFormats: ['excel', 'pdf']
-            },
-            {
-              id: 'monthly-report',
-              name: 'Monthly Report',
-              description: 'Comprehensive monthly report for individual employees',
-              endpoint: '/api/reports/monthly/:employee_id',
-              availableFormats: ['excel', 'pdf']
-            }
-          ],
-          userPermissions: {
-            isAdmin,
-            canExportAllEmployees: isAdmin,
-            ownEmployeeId: currentEmployee?.id || null
-          }
-        }
+          results,
+          serverTime: receivedAt.toISOString(),
+        },
       });
-
     } catch (error) {
-      console.error('Export options error:', error);
+      console.error('Sync batch error:', error);
       res.status(500).json({
-        error: 'Failed to fetch export options',
-        code: 'EXPORT_OPTIONS_ERROR'
+        error: 'Failed to synchronize offline changes',
+        code: 'SYNC_BATCH_ERROR'
       });
     }
   });
@@ -3893,7 +6955,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // ========================================
   
   // GET /api/dashboard/admin - Admin dashboard data
-  app.get('/api/dashboard/admin', authenticateToken, authorizeRole(['admin']), async (req: AuthRequest, res: Response) => {
+  app.get('/api/dashboard/admin', authenticateToken, requirePermission('reports:read', 'all'), async (req: AuthRequest, res: Response) => {
     try {
       const dashboardData = await storage.getAdminDashboardData();
       res.json(dashboardData);
@@ -3935,8 +6997,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
   const httpServer = createServer(app);
   
   // Initialize notification service with WebSocket support
-  initializeNotificationService(httpServer);
+  initializeEmailService();
+  initializePushService();
+  await initializeNotificationService(httpServer);
   console.log('✅ Notification service with WebSocket initialized');
+
+  initializeJobScheduler(BUILT_IN_JOBS);
+  console.log('✅ Job scheduler started');
   
   return httpServer;
 }
@@ -0,0 +1,179 @@
+import { storage } from './storage';
+import { getNotificationService } from './notificationService';
+import { getEmailService } from './emailService';
+import { type ScheduledJob } from './jobScheduler';
+import {
+  COMPANY_TIME_ZONE,
+  MAX_OPEN_PUNCH_HOURS,
+  getAutoCloseTime,
+  getWeekBounds,
+  getZonedDateTime,
+} from './businessLogic';
+
+// Run history kept for the admin page
+const JOB_RUN_RETENTION_DAYS = 30;
+
+// Escalate approval steps left without action past their deadline and tell
+// the new approvers. Also used by POST /api/approvals/escalate.
+export async function escalateOverdueApprovals(now: Date = new Date()) {
+  const escalated = await storage.escalateOverdueApprovals(now);
+
+  for (const approval of escalated) {
+    try {
+      const approver = approval.current_approver_id ? await storage.getEmployee(approval.current_approver_id) : undefined;
+      const employee = await storage.getEmployee(approval.employee_id);
+      if (approver && employee) {
+        await getNotificationService().sendApprovalEscalatedNotification(
+          approver.user_id,
+          `${employee.first_name} ${employee.last_name}`,
+          approval
+        );
+      }
+    } catch (notificationError) {
+      console.error('Approval escalation notification error:', notificationError);
+    }
+  }
+
+  return escalated;
+}
+
+// Employees planned to work today who have not entered any time
+async function remindMissingTimeEntries(now: Date) {
+  const { date } = getZonedDateTime(now, COMPANY_TIME_ZONE);
+  const employees = await storage.getEmployeesMissingTimeEntries(date);
+
+  for (const employee of employees) {
+    await getNotificationService().sendTimeMissingNotification(employee.userId, date);
+  }
+  return { date, notified: employees.length };
+}
+
+async function remindWeekSubmission(now: Date) {
+  const { weekStart, weekEnd } = getWeekBounds(getZonedDateTime(now, COMPANY_TIME_ZONE).date);
+  const employees = await storage.getEmployeesWithDraftWeek(weekStart, weekEnd);
+
+  for (const employee of employees) {
+    await getNotificationService().sendWeekSubmissionReminderNotification(employee.userId, weekStart, employee.draftCount);
+  }
+  return { weekStart, notified: employees.length };
+}
+
+// Managers are reminded of their team's submitted weeks; weeks of employees
+// without a manager go to the admins
+async function remindPendingValidations() {
+  const counts = await storage.getPendingValidationCounts();
+  const weeksByUser = new Map<number, number>();
+
+  for (const { managerId, weeks } of counts) {
+    const manager = managerId ? await storage.getEmployee(managerId) : undefined;
+    const userIds = manager ? [manager.user_id] : await storage.getAdminUserIds();
+    for (const userId of userIds) {
+      weeksByUser.set(userId, (weeksByUser.get(userId) ?? 0) + weeks);
+    }
+  }
+
+  for (const [userId, weeks] of Array.from(weeksByUser)) {
+    await getNotificationService().sendPendingValidationsReminderNotification(userId, weeks);
+  }
+  return { notified: weeksByUser.size };
+}
+
+// Close punches left open past MAX_OPEN_PUNCH_HOURS, at the planned end of the
+// day when there is one. The idempotency key makes a replayed run harmless.
+async function closeForgottenPunches(now: Date) {
+  const openedBefore = new Date(now.getTime() - MAX_OPEN_PUNCH_HOURS * 60 * 60 * 1000);
+  const punches = await storage.getForgottenPunches(openedBefore);
+  let closed = 0;
+
+  for (const { entry, plannedEnd } of punches) {
+    const closeAt = getAutoCloseTime(entry.clock_in_at!, entry.date, plannedEnd, now);
+    const result = await storage.recordClockEvent(entry.employee_id, 'clock_out', {
+      idempotency_key: `auto-close-${entry.id}`,
+      notes: [entry.description, 'Sortie non pointée, clôturée automatiquement'].filter(Boolean).join(' - ').slice(0, 500),
+    }, closeAt);
+
+    if ('error' in result) {
+      console.error(`Could not close forgotten punch ${entry.id}:`, result.error);
+      continue;
+    }
+    closed++;
+
+    try {
+      const employee = await storage.getEmployee(entry.employee_id);
+      if (employee) {
+        await getNotificationService().sendPunchAutoClosedNotification(employee.user_id, result.entry);
+      }
+    } catch (notificationError) {
+      console.error('Auto-closed punch notification error:', notificationError);
+    }
+  }
+
+  return { found: punches.length, closed };
+}
+
+// Credit the leave earned during the previous month. Also available through
+// POST /api/leave-balances/accrue for any month.
+export async function accruePreviousMonthLeave(now: Date = new Date()) {
+  const [year, month] = getZonedDateTime(now, COMPANY_TIME_ZONE).date.split('-').map(Number);
+  const previous = month === 1 ? `${year - 1}-12` : `${year}-${String(month - 1).padStart(2, '0')}`;
+  return { month: previous, ...await storage.accrueMonthlyLeave(previous) };
+}
+
+export const BUILT_IN_JOBS: ScheduledJob[] = [
+  {
+    name: 'missing_time_entries',
+    description: 'Rappel aux employés planifiés sans saisie de temps en fin de journée',
+    cron: '0 19 * * *',
+    run: remindMissingTimeEntries,
+  },
+  {
+    name: 'week_submission_reminder',
+    description: 'Rappel du vendredi pour soumettre les heures de la semaine',
+    cron: '0 14 * * 5',
+    run: remindWeekSubmission,
+  },
+  {
+    name: 'pending_validations_reminder',
+    description: 'Rappel du lundi aux managers ayant des semaines à valider',
+    cron: '0 9 * * 1',
+    run: remindPendingValidations,
+  },
+  {
+    name: 'forgotten_clock_outs',
+    description: 'Clôture des pointages restés ouverts (sortie oubliée)',
+    cron: '30 * * * *',
+    run: closeForgottenPunches,
+  },
+  {
+    name: 'approval_escalation',
+    description: 'Escalade des validations restées sans réponse dans les délais',
+    cron: '0 * * * *',
+    run: async (now) => ({ escalated: (await escalateOverdueApprovals(now)).length }),
+  },
+  {
+    name: 'monthly_leave_accrual',
+    description: 'Acquisition mensuelle des congés payés et RTT du mois écoulé',
+    cron: '0 2 1 * *',
+    run: accruePreviousMonthLeave,
+  },
+  {
+    name: 'email_queue',
+    description: 'Envoi des emails en attente et nouvelles tentatives',
+    cron: '* * * * *',
+    run: async (now) => getEmailService().processQueue(now),
+  },
+  {
+    name: 'notification_digests',
+    description: 'Récapitulatifs quotidiens et hebdomadaires des notifications',
+    cron: '*/15 * * * *',
+    run: async (now) => ({ sent: await getNotificationService().sendDueDigests(now) }),
+  },
+  {
+    name: 'job_runs_cleanup',
+    description: `Suppression de l'historique des tâches de plus de ${JOB_RUN_RETENTION_DAYS} jours`,
+    cron: '0 3 * * *',
+    run: async (now) => ({
+      deleted: await storage.deleteJobRunsBefore(new Date(now.getTime() - JOB_RUN_RETENTION_DAYS * 24 * 60 * 60 * 1000)),
+    }),
+  },
+];
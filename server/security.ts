@@ -1,7 +1,9 @@
 import helmet from 'helmet';
-import rateLimit from 'express-rate-limit';
+import rateLimit, { ipKeyGenerator } from 'express-rate-limit';
 import compression from 'compression';
 import express from 'express';
+import { createHash, randomBytes } from 'crypto';
+import { redis } from './redis';
 
 // Enhanced rate limiting with different tiers
 export const createRateLimiter = (windowMs: number = 15 * 60 * 1000, max: number = 100) => {
@@ -27,6 +29,79 @@ export const authRateLimit = createRateLimiter(15 * 60 * 1000, 5); // 5 login at
 export const apiRateLimit = createRateLimiter(15 * 60 * 1000, 100); // 100 API calls per 15 minutes
 export const strictRateLimit = createRateLimiter(60 * 1000, 10); // 10 requests per minute for sensitive operations
 
+// Kiosks share an IP on site networks, so they are limited per device token
+export const kioskRateLimit = rateLimit({
+  windowMs: 60 * 1000,
+  max: 30, // 30 identifications or punches per minute per kiosk
+  keyGenerator: (req) => {
+    const token = req.get('X-Kiosk-Token');
+    return token ? hashKioskToken(token) : ipKeyGenerator(req.ip || '');
+  },
+  message: {
+    error: 'Too many requests',
+    retryAfter: 60
+  },
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
+// Kiosk device tokens: shown once at registration, only the hash is stored
+export const generateKioskToken = () => randomBytes(32).toString('base64url');
+
+export const hashKioskToken = (token: string) => createHash('sha256').update(token).digest('hex');
+
+// Counts a wrong PIN and, at the limit, replaces the failure counter with the
+// lockout; both keys expire on their own
+const RECORD_PIN_FAILURE_SCRIPT = `
+local failures = redis.call('incr', KEYS[1])
+redis.call('pexpire', KEYS[1], ARGV[2])
+if failures >= tonumber(ARGV[1]) then
+  redis.call('set', KEYS[2], '1', 'PX', ARGV[2])
+  redis.call('del', KEYS[1])
+end
+return failures`;
+
+// Locks an identifier (e.g. an employee number) after too many wrong PINs, on
+// top of the per-kiosk rate limit: short PINs must not be guessable by retrying.
+// Failures and lockouts live in Redis so they hold across instances and
+// restarts; without Redis, only the per-kiosk rate limit applies.
+export const createPinLockout = (maxAttempts: number = 5, lockoutMs: number = 15 * 60 * 1000, client = redis) => {
+  const failuresKey = (key: string) => `kiosk:pin:failures:${key}`;
+  const lockKey = (key: string) => `kiosk:pin:lock:${key}`;
+  const warn = (action: string, error: unknown) =>
+    console.warn(`Redis unavailable, could not ${action}:`, error instanceof Error ? error.message : error);
+
+  return {
+    // Remaining lockout in milliseconds, 0 when a PIN may be tried
+    async getRemainingLockout(key: string): Promise<number> {
+      try {
+        return Math.max(0, await client.pttl(lockKey(key)));
+      } catch (error) {
+        warn('read PIN lockout', error);
+        return 0;
+      }
+    },
+
+    async recordFailure(key: string): Promise<void> {
+      try {
+        await client.eval(RECORD_PIN_FAILURE_SCRIPT, 2, failuresKey(key), lockKey(key), maxAttempts, lockoutMs);
+      } catch (error) {
+        warn('record PIN failure', error);
+      }
+    },
+
+    async reset(key: string): Promise<void> {
+      try {
+        await client.del(failuresKey(key), lockKey(key));
+      } catch (error) {
+        warn('reset PIN failures', error);
+      }
+    },
+  };
+};
+
+export const kioskPinLockout = createPinLockout();
+
 // Enhanced security headers
 export const securityMiddleware = helmet({
   contentSecurityPolicy: {
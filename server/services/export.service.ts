@@ -495,6 +495,7 @@ export class ExportService {
       'work': 'Travail',
       'break': 'Pause',
       'vacation': 'Congé',
+      'unpaid_leave': 'Congé sans solde',
       'sick': 'Maladie'
     };
     return typeMap[type as keyof typeof typeMap] || type;
@@ -0,0 +1,142 @@
+import {
+  buildStaffingSchedule,
+  calculateFairnessScore,
+  getCoverageSlots,
+  type StaffingEmployee,
+  type StaffingRequirement,
+} from './staffingScheduler';
+import { DEFAULT_LABOR_RULE_CONFIG, resolveLaborRules } from './laborRules';
+
+const rules = resolveLaborRules(DEFAULT_LABOR_RULE_CONFIG);
+
+// Semaine du lundi 11 au dimanche 17 mars 2024
+const week = { startDate: '2024-03-11', endDate: '2024-03-17' };
+
+const morningRequirement: StaffingRequirement = {
+  id: 1,
+  name: 'Accueil matin',
+  department_id: 10,
+  days_of_week: [1, 2, 3, 4, 5, 6],
+  start_time: '08:00',
+  end_time: '12:00',
+  required_staff: 2,
+};
+
+const employee = (id: number, overrides: Partial<StaffingEmployee> = {}): StaffingEmployee => ({
+  id,
+  departmentId: 10,
+  weeklyHours: 35,
+  rules,
+  shifts: [],
+  unavailableDates: [],
+  ...overrides,
+});
+
+describe('Staffing Scheduler', () => {
+  describe('getCoverageSlots', () => {
+    it('should expand requirements on their days and validity period', () => {
+      const slots = getCoverageSlots([{ ...morningRequirement, valid_to: '2024-03-13' }], week.startDate, week.endDate);
+
+      expect(slots.map(slot => slot.date)).toEqual(['2024-03-11', '2024-03-12', '2024-03-13']);
+      expect(slots[0].hours).toBe(4);
+    });
+  });
+
+  describe('buildStaffingSchedule', () => {
+    it('should cover every slot and spread hours evenly', () => {
+      const result = buildStaffingSchedule([morningRequirement], [employee(1), employee(2), employee(3)], week);
+
+      expect(result.gaps).toEqual([]);
+      expect(result.shifts).toHaveLength(12);
+      expect(result.workload.map(load => load.plannedHours)).toEqual([16, 16, 16]);
+      expect(result.fairnessScore).toBe(1);
+    });
+
+    it('should be deterministic', () => {
+      const staff = [employee(3), employee(1, { weeklyHours: 24 }), employee(2)];
+
+      expect(buildStaffingSchedule([morningRequirement], staff, week))
+        .toEqual(buildStaffingSchedule([morningRequirement], [...staff].reverse(), week));
+    });
+
+    it('should skip employees on leave and report the gap', () => {
+      const result = buildStaffingSchedule(
+        [morningRequirement],
+        [employee(1), employee(2, { unavailableDates: ['2024-03-12'] })],
+        week
+      );
+
+      expect(result.gaps).toEqual([
+        expect.objectContaining({ date: '2024-03-12', assigned: 1, missing: 1, reasons: { unavailable: 1, busy: 0, laborRules: 0 } }),
+      ]);
+      expect(result.shifts.some(shift => shift.employeeId === 2 && shift.date === '2024-03-12')).toBe(false);
+    });
+
+    it('should only staff employees of the requirement department', () => {
+      const result = buildStaffingSchedule(
+        [{ ...morningRequirement, required_staff: 1 }],
+        [employee(1, { departmentId: 20 }), employee(2)],
+        week
+      );
+
+      expect(result.shifts.every(shift => shift.employeeId === 2)).toBe(true);
+    });
+
+    it('should count existing shifts covering a slot', () => {
+      const result = buildStaffingSchedule(
+        [{ ...morningRequirement, required_staff: 1, days_of_week: [1] }],
+        [employee(1, { shifts: [{ id: 5, date: '2024-03-11', startTime: '07:00', endTime: '15:00' }] }), employee(2)],
+        week
+      );
+
+      expect(result.shifts).toEqual([]);
+      expect(result.gaps).toEqual([]);
+    });
+
+    it('should refuse assignments breaking the daily rest rule', () => {
+      const evening: StaffingRequirement = {
+        ...morningRequirement,
+        id: 2,
+        name: 'Fermeture',
+        days_of_week: [1],
+        start_time: '17:00',
+        end_time: '23:00',
+        required_staff: 1,
+      };
+      const early: StaffingRequirement = {
+        ...morningRequirement,
+        id: 3,
+        name: 'Ouverture',
+        days_of_week: [2],
+        start_time: '06:00',
+        end_time: '10:00',
+        required_staff: 1,
+      };
+
+      const result = buildStaffingSchedule([evening, early], [employee(1)], week);
+
+      expect(result.shifts.map(shift => shift.requirementId)).toEqual([2]);
+      expect(result.gaps).toEqual([
+        expect.objectContaining({ requirementId: 3, reasons: { unavailable: 0, busy: 0, laborRules: 1 } }),
+      ]);
+    });
+
+    it('should prefer employees still below their contract hours', () => {
+      const result = buildStaffingSchedule(
+        [{ ...morningRequirement, required_staff: 1, days_of_week: [5] }],
+        [employee(1, { weeklyHours: 8, shifts: [{ date: '2024-03-11', startTime: '09:00', endTime: '17:00' }] }), employee(2)],
+        week
+      );
+
+      expect(result.shifts.map(shift => shift.employeeId)).toEqual([2]);
+    });
+  });
+
+  describe('calculateFairnessScore', () => {
+    it('should range from 1/n to 1', () => {
+      expect(calculateFairnessScore([0.5, 0.5, 0.5])).toBe(1);
+      expect(calculateFairnessScore([1, 0, 0, 0])).toBe(0.25);
+      expect(calculateFairnessScore([])).toBe(1);
+    });
+  });
+});
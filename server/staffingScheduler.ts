@@ -0,0 +1,292 @@
+import type { LaborRule } from '@shared/schema';
+import { evaluateLaborRules, getLaborRulesDataRange, parseMinutes, type WorkShift } from './laborRules';
+
+// Types pour la planification automatique par besoins de couverture
+export interface StaffingRequirement {
+  id: number;
+  name: string;
+  department_id: number | null; // null = tous les départements
+  days_of_week: number[]; // 1 = lundi ... 7 = dimanche
+  start_time: string;
+  end_time: string;
+  required_staff: number;
+  valid_from?: string | null;
+  valid_to?: string | null;
+}
+
+export interface StaffingEmployee {
+  id: number;
+  departmentId: number | null;
+  weeklyHours: number; // Durée contractuelle
+  rules: LaborRule[];
+  shifts: WorkShift[]; // Créneaux de travail déjà planifiés
+  unavailableDates: string[]; // Congés approuvés, absences, repos
+}
+
+export interface ProposedShift {
+  employeeId: number;
+  requirementId: number;
+  date: string;
+  startTime: string;
+  endTime: string;
+  hours: number;
+  warnings: string[];
+}
+
+export interface CoverageGap {
+  requirementId: number;
+  requirementName: string;
+  date: string;
+  startTime: string;
+  endTime: string;
+  required: number;
+  assigned: number;
+  missing: number;
+  // Nombre de candidats écartés par motif
+  reasons: { unavailable: number; busy: number; laborRules: number };
+}
+
+export interface EmployeeWorkload {
+  employeeId: number;
+  targetHours: number;
+  plannedHours: number;
+  utilization: number;
+}
+
+export interface StaffingScheduleResult {
+  shifts: ProposedShift[];
+  gaps: CoverageGap[];
+  workload: EmployeeWorkload[];
+  fairnessScore: number;
+}
+
+interface CoverageSlot {
+  requirement: StaffingRequirement;
+  date: string;
+  start: number;
+  end: number;
+  hours: number;
+}
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+// ============================================================================
+// PLANIFICATION
+// ============================================================================
+
+// Affecte les employés aux besoins de couverture de la période.
+// Algorithme glouton déterministe : les créneaux sont traités dans l'ordre
+// chronologique, et pour chacun on retient les candidats les moins chargés
+// qui respectent les règles légales (aucune source d'aléa).
+export function buildStaffingSchedule(
+  requirements: StaffingRequirement[],
+  employees: StaffingEmployee[],
+  period: { startDate: string; endDate: string }
+): StaffingScheduleResult {
+  const sortedEmployees = [...employees].sort((a, b) => a.id - b.id);
+  const assigned: Record<number, WorkShift[]> = {};
+  const weekHours: Record<string, number> = {};
+  const periodHours: Record<number, number> = {};
+
+  for (const employee of sortedEmployees) {
+    assigned[employee.id] = [];
+    periodHours[employee.id] = 0;
+    for (const shift of employee.shifts) {
+      const hours = toSlotRange(shift.date, shift.startTime, shift.endTime).hours;
+      weekHours[weekKey(employee.id, shift.date)] = (weekHours[weekKey(employee.id, shift.date)] ?? 0) + hours;
+      if (shift.date >= period.startDate && shift.date <= period.endDate) {
+        periodHours[employee.id] += hours;
+      }
+    }
+  }
+
+  const shifts: ProposedShift[] = [];
+  const gaps: CoverageGap[] = [];
+  let nextShiftId = -1;
+
+  for (const slot of getCoverageSlots(requirements, period.startDate, period.endDate)) {
+    const { requirement } = slot;
+    const reasons = { unavailable: 0, busy: 0, laborRules: 0 };
+    const eligible = sortedEmployees.filter(employee =>
+      requirement.department_id === null || employee.departmentId === requirement.department_id
+    );
+
+    // Les créneaux déjà planifiés couvrant entièrement le besoin sont décomptés
+    let covered = eligible.filter(employee =>
+      employee.shifts.some(shift => {
+        const range = toSlotRange(shift.date, shift.startTime, shift.endTime);
+        return range.start <= slot.start && range.end >= slot.end;
+      })
+    ).length;
+
+    const candidates: Array<{ employee: StaffingEmployee; warnings: string[]; exceedsContract: boolean; weekLoad: number }> = [];
+
+    for (const employee of eligible) {
+      if (employee.unavailableDates.includes(slot.date)) {
+        reasons.unavailable++;
+        continue;
+      }
+
+      const employeeShifts = employee.shifts.concat(assigned[employee.id]);
+      if (employeeShifts.some(shift => overlaps(toSlotRange(shift.date, shift.startTime, shift.endTime), slot))) {
+        reasons.busy++;
+        continue;
+      }
+
+      const candidate: WorkShift = {
+        id: nextShiftId,
+        date: slot.date,
+        startTime: requirement.start_time,
+        endTime: requirement.end_time,
+      };
+      const violations = evaluateLaborRules(employee.rules, employeeShifts.concat(candidate), {
+        range: getLaborRulesDataRange(employee.rules, slot.date, slot.date),
+      }).filter(violation => violation.shiftIds.includes(nextShiftId));
+
+      if (violations.some(violation => violation.severity === 'error')) {
+        reasons.laborRules++;
+        continue;
+      }
+
+      const currentWeekHours = weekHours[weekKey(employee.id, slot.date)] ?? 0;
+      candidates.push({
+        employee,
+        warnings: violations.map(violation => violation.description),
+        exceedsContract: currentWeekHours + slot.hours > employee.weeklyHours,
+        weekLoad: currentWeekHours / Math.max(employee.weeklyHours, 1),
+      });
+    }
+
+    // Priorité : dans le contrat, puis semaine la moins chargée, puis période la moins chargée
+    candidates.sort((a, b) =>
+      Number(a.exceedsContract) - Number(b.exceedsContract) ||
+      a.weekLoad - b.weekLoad ||
+      periodHours[a.employee.id] - periodHours[b.employee.id] ||
+      a.employee.id - b.employee.id
+    );
+
+    for (const { employee, warnings } of candidates) {
+      if (covered >= requirement.required_staff) break;
+
+      assigned[employee.id].push({
+        id: nextShiftId--,
+        date: slot.date,
+        startTime: requirement.start_time,
+        endTime: requirement.end_time,
+      });
+      weekHours[weekKey(employee.id, slot.date)] = (weekHours[weekKey(employee.id, slot.date)] ?? 0) + slot.hours;
+      periodHours[employee.id] += slot.hours;
+      covered++;
+
+      shifts.push({
+        employeeId: employee.id,
+        requirementId: requirement.id,
+        date: slot.date,
+        startTime: requirement.start_time,
+        endTime: requirement.end_time,
+        hours: slot.hours,
+        warnings,
+      });
+    }
+
+    if (covered < requirement.required_staff) {
+      gaps.push({
+        requirementId: requirement.id,
+        requirementName: requirement.name,
+        date: slot.date,
+        startTime: requirement.start_time,
+        endTime: requirement.end_time,
+        required: requirement.required_staff,
+        assigned: covered,
+        missing: requirement.required_staff - covered,
+        reasons,
+      });
+    }
+  }
+
+  const periodWeeks = (Date.parse(`${period.endDate}T00:00:00Z`) - Date.parse(`${period.startDate}T00:00:00Z`) + DAY_MS) / (7 * DAY_MS);
+  const workload = sortedEmployees.map(employee => {
+    const targetHours = round(employee.weeklyHours * periodWeeks);
+    return {
+      employeeId: employee.id,
+      targetHours,
+      plannedHours: round(periodHours[employee.id]),
+      utilization: targetHours > 0 ? round(periodHours[employee.id] / targetHours) : 0,
+    };
+  });
+
+  return {
+    shifts,
+    gaps,
+    workload,
+    fairnessScore: calculateFairnessScore(workload.filter(load => load.targetHours > 0).map(load => load.utilization)),
+  };
+}
+
+// Indice d'équité de Jain sur les taux de charge : 1 = charge parfaitement
+// proportionnelle aux contrats, 1/n = tout repose sur un seul employé
+export function calculateFairnessScore(utilizations: number[]): number {
+  const sum = utilizations.reduce((total, value) => total + value, 0);
+  const sumOfSquares = utilizations.reduce((total, value) => total + value * value, 0);
+
+  if (utilizations.length === 0 || sumOfSquares === 0) return 1;
+  return round((sum * sum) / (utilizations.length * sumOfSquares));
+}
+
+// Occurrences datées des besoins sur la période, dans l'ordre chronologique
+export function getCoverageSlots(requirements: StaffingRequirement[], startDate: string, endDate: string): CoverageSlot[] {
+  const slots: CoverageSlot[] = [];
+  const current = new Date(`${startDate}T00:00:00Z`);
+  const end = new Date(`${endDate}T00:00:00Z`);
+
+  while (current <= end) {
+    const date = current.toISOString().split('T')[0];
+    const dayOfWeek = current.getUTCDay() || 7;
+
+    for (const requirement of requirements) {
+      if (!requirement.days_of_week.includes(dayOfWeek)) continue;
+      if (requirement.valid_from && date < requirement.valid_from) continue;
+      if (requirement.valid_to && date > requirement.valid_to) continue;
+
+      slots.push({ requirement, date, ...toSlotRange(date, requirement.start_time, requirement.end_time) });
+    }
+
+    current.setUTCDate(current.getUTCDate() + 1);
+  }
+
+  return slots.sort((a, b) => a.start - b.start || a.requirement.id - b.requirement.id);
+}
+
+// ============================================================================
+// FONCTIONS UTILITAIRES
+// ============================================================================
+
+function toSlotRange(date: string, startTime: string, endTime: string): { start: number; end: number; hours: number } {
+  const dayStart = Date.parse(`${date}T00:00:00Z`);
+  const startMinutes = parseMinutes(startTime);
+  let endMinutes = parseMinutes(endTime);
+
+  // Créneau de nuit se terminant le lendemain
+  if (endMinutes <= startMinutes) endMinutes += 1440;
+
+  return {
+    start: dayStart + startMinutes * MINUTE_MS,
+    end: dayStart + endMinutes * MINUTE_MS,
+    hours: (endMinutes - startMinutes) / 60,
+  };
+}
+
+function overlaps(a: { start: number; end: number }, b: { start: number; end: number }): boolean {
+  return a.start < b.end && b.start < a.end;
+}
+
+function weekKey(employeeId: number, date: string): string {
+  const day = new Date(`${date}T00:00:00Z`).getUTCDay();
+  const monday = new Date(Date.parse(`${date}T00:00:00Z`) - (day === 0 ? 6 : day - 1) * DAY_MS);
+  return `${employeeId}:${monday.toISOString().split('T')[0]}`;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -11,6 +11,19 @@ import {
   settings,
   validations,
   notifications,
+  leaveRequests,
+  leaveBalanceMovements,
+  planningTemplates,
+  planningTemplateShifts,
+  planningTemplateAssignments,
+  coverageRequirements,
+  approvalChains,
+  approvalChainSteps,
+  approvalDelegations,
+  approvalRequests,
+  approvalSteps,
+  payPeriodClosures,
+  timeAdjustments,
   type User, 
   type InsertUser,
   type Employee,
@@ -38,10 +51,203 @@ import {
   type UpdateTaskStatusApi,
   type Validation,
   type InsertValidation,
+  type LeaveRequest,
+  type InsertLeaveRequest,
+  type LeaveBalanceMovement,
+  type InsertLeaveBalanceMovement,
+  type LeaveBalanceType,
+  type LaborRule,
+  type LaborRuleConfig,
+  type OvertimePolicy,
+  type OvertimeCompensation,
+  type PlanningTemplateAssignment,
+  type PlanningTemplateWithDetails,
+  type CreatePlanningTemplate,
+  type AssignPlanningTemplate,
+  type CoverageRequirement,
+  type CreateCoverageRequirement,
+  type ApprovalChainWithSteps,
+  type ApprovalDelegation,
+  type ApprovalRequest,
+  type ApprovalRequestWithSteps,
+  type ApprovalSubjectType,
+  type CreateApprovalChain,
+  type CreateApprovalDelegation,
+  type PayPeriodClosure,
+  type TimeAdjustment,
+  type TimeAdjustmentSubjectType,
+  type CreateTimeAdjustment,
+  type PayrollExportConfig,
+  type ClockAction,
+  type ClockEventInput,
+  type SyncMutation,
+  type WorkSite,
+  type CreateWorkSite,
+  type GeofencePolicy,
+  type KioskDevice,
+  type PunchReviewReason,
+  type CreateKioskDevice,
+  type NotificationPreferences,
+  type UpdateNotificationPreferences,
+  type EmailDelivery,
+  type InsertEmailDelivery,
+  type EmailDeliveryStatus,
+  type EmailBounce,
+  type NotificationDigest,
+  type DigestFrequency,
+  type JobRun,
+  type JobRunTrigger,
+  type PushSubscription,
+  type CreatePushSubscription,
+  type InsertAuditLog,
+  type AuditEntityType,
+  type AuditLogQuery,
+  type AuditLogWithActor,
+  auditLogs,
+  emailDeliveries,
+  jobRuns,
+  pushSubscriptions,
+  notificationDigests,
+  timeClockEvents,
+  kioskDevices,
+  syncMutations,
+  workSites,
+  laborRuleConfigSchema,
+  payrollExportConfigSchema,
+  geofencePolicySchema,
+  notificationPreferencesSchema,
+  LABOR_RULES_SETTING_KEY,
+  PAYROLL_EXPORT_SETTING_KEY,
+  GEOFENCE_SETTING_KEY,
+  NOTIFICATION_PREFERENCES_SETTING_KEY,
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, and, gte, lte, desc, asc, sql, like, or, isNull, isNotNull, ilike, count, inArray } from "drizzle-orm";
+import { eq, and, gte, lte, desc, asc, sql, like, or, isNull, isNotNull, ilike, count, inArray, getTableColumns, TransactionRollbackError, type AnyColumn } from "drizzle-orm";
 import { queryBuilder, FilterOptions, SortOptions, PaginationOptions } from "./queryBuilder";
+import {
+  getLeaveWorkingDates,
+  getLeaveBalanceType,
+  getLeavePlanningType,
+  getReferencePeriod,
+  getMonthPresenceRatio,
+  getAverageWindowWeeks,
+  calculateMonthlyAccrual,
+  computePeriodClosing,
+  summarizeLeaveMovements,
+  LEAVE_ACCRUAL_RULES,
+  DEFAULT_WEEKLY_PATTERN,
+  getTemplateShiftsForDate,
+  selectTemplateAssignment,
+  checkLegalConstraints,
+  getWeekBounds,
+  summarizeValidationWeek,
+  getEntryNetHours,
+  getAdjustmentHoursDelta,
+  getAdjustmentEffectiveDate,
+  computeWeeklyOvertime,
+  computeOvertimeContingent,
+  getClockEventError,
+  getZonedDateTime,
+  getElapsedBreakMinutes,
+  COMPANY_TIME_ZONE,
+  resolveSyncTimestamp,
+  isDelayedPunch,
+  detectSyncConflict,
+  isSyncConflictResolvable,
+  type ClockEventError,
+  type SyncConflictReason,
+  type SyncMutationResult,
+  getCompensatoryRestHours,
+  convertRestHoursToDays,
+  getOutOfZoneAnomaly,
+  getPunchReviewAnomaly,
+  type LeaveBalanceSummary,
+  type OvertimeContingent,
+  type PlanningConflict,
+  type PlanningPatch,
+  type ValidationWeek,
+  type WeeklyValidationStatus,
+} from "./businessLogic";
+import {
+  DEFAULT_LABOR_RULE_CONFIG,
+  resolveLaborRules,
+  resolveOvertimePolicy,
+  findLaborRule,
+  evaluateLaborRules,
+  getLaborRulesDataRange,
+} from "./laborRules";
+import { buildStaffingSchedule, type StaffingScheduleResult } from "./staffingScheduler";
+import { withAuditLog, type AuditTarget } from "./auditLog";
+import { type HierarchyEmployee } from "./permissions";
+import { DEFAULT_NIGHT_WINDOW, DEFAULT_PAYROLL_EXPORT_CONFIG, getPayrollDataRange, type PayrollEmployeeSource } from "./payrollExport";
+import { DEFAULT_NOTIFICATION_PREFERENCES, mergeNotificationPreferences } from "./notificationPreferences";
+import { DEFAULT_GEOFENCE_POLICY, evaluateGeofence, toWorkSiteZone, type GeofenceCheck, type WorkSiteZone } from "./geofencing";
+import {
+  DEFAULT_APPROVAL_STEPS,
+  resolveStepApprover,
+  canActOnApproval,
+  getApprovalStep,
+  getApprovalTransition,
+  isFinalApprovalStep,
+  getEscalationDays,
+  isApprovalOverdue,
+  getEscalationTarget,
+  type ApprovalStepConfig,
+} from "./approvalChains";
+
+export interface RollingWeeklyHours {
+  employeeId: number;
+  weekStart: string;
+  weeklyHours: number;
+  averageHours: number;
+  averageWeeks: number; // Weeks of the window the average is computed on
+  contractHours: number;
+  contractType: string;
+}
+
+type DbTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Decision taken at the current step of an approval request
+export interface ApprovalDecision {
+  stepOrder: number;
+  actorId: number | null;
+  action: 'approved' | 'rejected';
+  comment?: string;
+}
+
+// Final decision on a leave request, recorded with the step of its approval chain
+export type LeaveDecision = Omit<ApprovalDecision, 'action'> & { approvalRequestId: number };
+
+export type LeaveDecisionError = 'LEAVE_REQUEST_NOT_PENDING' | 'APPROVAL_STEP_STALE';
+
+// Current step of the week's approval chain; it is decided with the week once
+// the week is rejected or fully validated
+export interface WeekApprovalStep {
+  requestId: number;
+  stepOrder: number;
+}
+
+export type ValidationDecisionError = 'NO_PENDING_ENTRIES' | 'APPROVAL_STEP_STALE';
+
+// Planning entry removed to make room for an approved leave
+export type ReplacedPlanningEntry = Pick<PlanningEntry, 'id' | 'employee_id' | 'date'>;
+
+// Origin of a punch: an offline replay from a personal device, or a shared kiosk
+export interface ClockEventSource {
+  deviceId?: string;
+  kiosk?: KioskDevice;
+  reviewReason?: PunchReviewReason; // Punch the manager must confirm
+  receivedAt?: Date; // Set for punches carrying the device's time
+}
+
+export interface KioskCredentialStatus {
+  employeeId: number;
+  employeeNumber: string | null;
+  firstName: string;
+  lastName: string;
+  hasPin: boolean;
+  badgeCode: string | null;
+}
 
 // ============================================================================
 // STORAGE INTERFACE - Define all CRUD operations needed by the application
@@ -60,6 +266,7 @@ export interface IStorage {
   getAllEmployees(): Promise<Employee[]>;
   getEmployeesByDepartment(departmentId: number): Promise<Employee[]>;
   getEmployeesByManager(managerId: number): Promise<Employee[]>;
+  getEmployeeHierarchy(): Promise<HierarchyEmployee[]>;
   createEmployee(employee: InsertEmployee): Promise<Employee>;
   updateEmployee(id: number, employee: Partial<InsertEmployee>): Promise<Employee | undefined>;
   
@@ -68,6 +275,7 @@ export interface IStorage {
     page: number, 
     limit: number, 
     filters?: { 
+      employeeIds?: number[];
       search?: string; 
       department?: number; 
       status?: string; 
@@ -96,10 +304,12 @@ export interface IStorage {
   ): Promise<any[]>;
   getEmployeeWeeklyPlanning(employeeId: number, weekStart: string): Promise<any>;
   createPlanningEntry(entry: InsertPlanningEntry): Promise<PlanningEntry>;
-  updatePlanningEntry(id: number, entry: Partial<InsertPlanningEntry>): Promise<PlanningEntry | undefined>;
+  updatePlanningEntry(id: number, entry: Partial<InsertPlanningEntry>, expectedVersion?: number): Promise<PlanningEntry | undefined>;
   deletePlanningEntry(id: number): Promise<boolean>;
   bulkCreatePlanningEntries(entries: InsertPlanningEntry[]): Promise<PlanningEntry[]>;
-  bulkUpdatePlanningEntries(entries: { id: number; data: Partial<InsertPlanningEntry> }[]): Promise<PlanningEntry[]>;
+  bulkUpdatePlanningEntries(entries: { id: number; data: Partial<InsertPlanningEntry>; version?: number }[]): Promise<PlanningEntry[] | undefined>;
+  getPlanningEntriesByIds(ids: number[]): Promise<PlanningEntry[]>;
+  applyPlanningPatch(patch: PlanningPatch): Promise<boolean>;
   
   // Planning validation
   createValidation(validation: InsertValidation): Promise<Validation>;
@@ -107,10 +317,6 @@ export interface IStorage {
   
   // Planning conflicts and validation logic
   detectPlanningConflicts(employeeId?: number, startDate?: string, endDate?: string): Promise<any[]>;
-  validateDailyHours(employeeId: number, date: string, startTime: string, endTime: string): Promise<{ valid: boolean; hours: number; conflicts: string[] }>;
-  validateDailyHours(employeeId: number, date: string, totalHours: number): Promise<{ valid: boolean; errors: string[] }>;
-  validateWeeklyHours(employeeId: number, weekStart: string): Promise<{ valid: boolean; totalHours: number; conflicts: string[] }>;
-  validateRestPeriod(employeeId: number, date: string, startTime: string): Promise<{ valid: boolean; conflicts: string[] }>;
   
   // Planning generation
   generatePlanningForPeriod(
@@ -144,14 +350,10 @@ export interface IStorage {
   submitWeeklyTimeEntries(employeeId: number, weekStart: string): Promise<{ submitted: number; errors: string[] }>;
   
   // Time entry validation and business logic
-  validateTimeEntryOverlap(employeeId: number, date: string, startTime: string, endTime: string, excludeId?: number): Promise<{ valid: boolean; conflicts: string[] }>;
+  validateTimeEntryOverlap(employeeId: number, date: string, startTime: string, endTime: string, excludeId?: number, tx?: DbTransaction): Promise<{ valid: boolean; conflicts: string[] }>;
   calculateWorkingHours(startTime: string, endTime: string, breakDuration: number): number;
   calculateOvertimeHours(employeeId: number, date: string, totalHours: number): Promise<{ regularHours: number; overtimeHours: number }>;
   
-  // French labor law validation methods
-  validateWeeklyHours(employeeId: number, weekStart: string, totalHours: number): Promise<{ valid: boolean; errors: string[] }>;
-  validateRestPeriod(employeeId: number, date: string, startTime: string): Promise<{ valid: boolean; errors: string[] }>;
-  
   // Time comparison and analysis
   compareTimeWithPlanning(employeeId: number, dateFrom: string, dateTo: string): Promise<any>;
   detectTimeAnomalies(employeeId: number, dateFrom?: string, dateTo?: string): Promise<any[]>;
@@ -165,6 +367,44 @@ export interface IStorage {
   markAllNotificationsAsRead(userId: number): Promise<number>;
   deleteNotification(id: number): Promise<boolean>;
   getUnreadNotificationCount(userId: number): Promise<number>;
+  getNotificationPreferences(userId: number): Promise<NotificationPreferences>;
+  updateNotificationPreferences(userId: number, update: UpdateNotificationPreferences): Promise<NotificationPreferences>;
+  markNotificationsDelivered(userId: number, ids: number[]): Promise<number>;
+  getUndeliveredNotifications(userId: number, since: Date, limit: number): Promise<Notification[]>;
+
+  // Email deliveries (notification email queue)
+  createEmailDelivery(delivery: Pick<InsertEmailDelivery, 'user_id' | 'notification_id' | 'to_address' | 'subject' | 'html' | 'text'>): Promise<EmailDelivery>;
+  claimDueEmailDeliveries(limit: number, now?: Date): Promise<EmailDelivery[]>;
+  markEmailSent(id: number, messageId: string): Promise<void>;
+  markEmailFailed(id: number, error: string, nextAttemptAt: Date | null): Promise<void>;
+  recordEmailBounce(bounce: EmailBounce): Promise<number>;
+  getEmailDeliveries(filters: { status?: EmailDeliveryStatus; page: number; limit: number }): Promise<{ deliveries: EmailDelivery[]; total: number }>;
+  retryEmailDelivery(id: number): Promise<EmailDelivery | { error: 'EMAIL_DELIVERY_NOT_FOUND' | 'EMAIL_NOT_RETRYABLE' }>;
+
+  // Notification digests
+  getDigestRecipients(): Promise<Array<{ userId: number; preferences: NotificationPreferences }>>;
+  getLastNotificationDigest(userId: number): Promise<NotificationDigest | undefined>;
+  claimNotificationDigest(userId: number, frequency: DigestFrequency, periodKey: string): Promise<NotificationDigest | undefined>;
+  collectDigestNotifications(userId: number, since: Date, digestedAt: Date): Promise<Notification[]>;
+  completeNotificationDigest(id: number, result: { notification_count: number; notification_id: number | null }): Promise<void>;
+
+  // Scheduled jobs
+  startJobRun(jobName: string, scheduledFor: Date, trigger: JobRunTrigger, instanceId: string): Promise<JobRun | undefined>;
+  finishJobRun(id: number, outcome: { status: 'succeeded' | 'failed'; result?: Record<string, unknown>; error?: string; durationMs: number }): Promise<JobRun | undefined>;
+  getJobRuns(jobName: string, limit: number): Promise<JobRun[]>;
+  getLatestJobRuns(): Promise<JobRun[]>;
+  deleteJobRunsBefore(before: Date): Promise<number>;
+  getAdminUserIds(): Promise<number[]>;
+  getEmployeesMissingTimeEntries(date: string): Promise<Array<{ employeeId: number; userId: number }>>;
+  getEmployeesWithDraftWeek(weekStart: string, weekEnd: string): Promise<Array<{ employeeId: number; userId: number; draftCount: number }>>;
+  getPendingValidationCounts(): Promise<Array<{ managerId: number | null; weeks: number }>>;
+  getForgottenPunches(openedBefore: Date): Promise<Array<{ entry: TimeEntry; plannedEnd: string | null }>>;
+
+  // Web Push subscriptions
+  savePushSubscription(userId: number, subscription: CreatePushSubscription, userAgent?: string): Promise<PushSubscription>;
+  getPushSubscriptions(userId: number): Promise<PushSubscription[]>;
+  deletePushSubscription(endpoint: string, userId?: number): Promise<boolean>;
+  markPushSubscriptionUsed(id: number): Promise<void>;
 
   // Departments
   getDepartment(id: number): Promise<Department | undefined>;
@@ -184,7 +424,7 @@ export interface IStorage {
   getPlanningEntriesByEmployee(employeeId: number, startDate?: string, endDate?: string): Promise<PlanningEntry[]>;
   getPlanningEntriesByStatus(status: string): Promise<PlanningEntry[]>;
   createPlanningEntry(entry: InsertPlanningEntry): Promise<PlanningEntry>;
-  updatePlanningEntry(id: number, entry: Partial<InsertPlanningEntry>): Promise<PlanningEntry | undefined>;
+  updatePlanningEntry(id: number, entry: Partial<InsertPlanningEntry>, expectedVersion?: number): Promise<PlanningEntry | undefined>;
 
   // Time Entries
   getTimeEntry(id: number): Promise<TimeEntry | undefined>;
@@ -225,6 +465,158 @@ export interface IStorage {
   updateTaskApi(id: number, task: UpdateTaskApi): Promise<Task | undefined>;
   updateTaskStatus(id: number, status: UpdateTaskStatusApi): Promise<Task | undefined>;
 
+  // Leave requests
+  getLeaveRequest(id: number): Promise<LeaveRequest | undefined>;
+  getLeaveRequests(filters?: { employeeId?: number; employeeIds?: number[]; status?: string; startDate?: string; endDate?: string; }): Promise<any[]>;
+  createLeaveRequest(request: InsertLeaveRequest): Promise<LeaveRequest>;
+  hasOverlappingLeaveRequest(employeeId: number, startDate: string, endDate: string): Promise<boolean>;
+  approveLeaveRequest(id: number, decision: LeaveDecision): Promise<{ request: LeaveRequest; planningEntries: PlanningEntry[]; replacedPlanningEntries: ReplacedPlanningEntry[]; approval: ApprovalRequest } | { error: LeaveDecisionError }>;
+  rejectLeaveRequest(id: number, decision: LeaveDecision): Promise<{ request: LeaveRequest; approval: ApprovalRequest } | { error: LeaveDecisionError }>;
+  cancelLeaveRequest(id: number, actorId: number | null): Promise<{ request: LeaveRequest; deletedPlanningEntries: ReplacedPlanningEntry[] } | undefined>;
+  getPendingLeaveDays(employeeId: number, type: string): Promise<number>;
+
+  // Leave balances ledger
+  getLeaveBalanceMovements(employeeId: number, filters?: { leaveType?: LeaveBalanceType; periodStart?: string }): Promise<LeaveBalanceMovement[]>;
+  createLeaveBalanceMovement(movement: InsertLeaveBalanceMovement): Promise<LeaveBalanceMovement>;
+  getLeaveBalances(employeeId: number, date?: string): Promise<{ period: { start: string; end: string; label: string }; balances: Record<LeaveBalanceType, LeaveBalanceSummary> }>;
+  accrueMonthlyLeave(month: string): Promise<{ employees: number; movements: number }>;
+  closeLeavePeriod(periodStart: string): Promise<{ employees: number; movements: number }>;
+
+  // Labor rules
+  getLaborRuleConfig(): Promise<LaborRuleConfig>;
+  updateLaborRuleConfig(config: LaborRuleConfig): Promise<LaborRuleConfig>;
+  getLaborRulesForEmployee(employeeId: number): Promise<LaborRule[]>;
+  getOvertimePolicyForEmployee(employeeId: number): Promise<OvertimePolicy>;
+  getOvertimeContingent(employeeId: number, year: number): Promise<OvertimeContingent>;
+  getRollingWeeklyHours(params: { startDate: string; endDate: string; weeks: number; employeeId?: number; minAverageHours?: number | null }): Promise<RollingWeeklyHours[]>;
+
+  // Planning templates
+  getPlanningTemplates(): Promise<PlanningTemplateWithDetails[]>;
+  getPlanningTemplate(id: number): Promise<PlanningTemplateWithDetails | undefined>;
+  createPlanningTemplate(template: CreatePlanningTemplate, createdBy: number | null): Promise<PlanningTemplateWithDetails>;
+  updatePlanningTemplate(id: number, template: CreatePlanningTemplate): Promise<PlanningTemplateWithDetails | undefined>;
+  deletePlanningTemplate(id: number): Promise<boolean>;
+  createPlanningTemplateAssignment(templateId: number, assignment: AssignPlanningTemplate): Promise<PlanningTemplateAssignment>;
+  deletePlanningTemplateAssignment(templateId: number, assignmentId: number): Promise<boolean>;
+  getCoverageRequirements(filters?: { departmentId?: number; activeOnly?: boolean }): Promise<CoverageRequirement[]>;
+  getCoverageRequirement(id: number): Promise<CoverageRequirement | undefined>;
+  createCoverageRequirement(requirement: CreateCoverageRequirement, createdBy: number | null): Promise<CoverageRequirement>;
+  updateCoverageRequirement(id: number, requirement: CreateCoverageRequirement): Promise<CoverageRequirement | undefined>;
+  deleteCoverageRequirement(id: number): Promise<boolean>;
+  autoSchedulePlanning(params: {
+    startDate: string;
+    endDate: string;
+    departmentId?: number;
+    requirementIds?: number[];
+    persist?: boolean;
+  }): Promise<StaffingScheduleResult & { createdEntries: PlanningEntry[] }>;
+  generatePlanning(params: {
+    employeeIds?: number[];
+    departmentId?: number;
+    startDate: string;
+    endDate: string;
+    templateId?: number;
+    respectConstraints?: boolean;
+  }): Promise<{ generatedEntries: PlanningEntry[]; conflicts: PlanningConflict[]; warnings: string[] }>;
+
+  // Weekly validations
+  getValidationWeeks(filters?: {
+    employeeId?: number;
+    employeeIds?: number[];
+    departmentId?: number;
+    status?: WeeklyValidationStatus;
+    startDate?: string;
+    endDate?: string;
+  }): Promise<ValidationWeek[]>;
+  getValidationWeekDetails(employeeId: number, weekStart: string): Promise<{
+    week: ValidationWeek | null;
+    timeEntries: TimeEntry[];
+    planningEntries: PlanningEntry[];
+  }>;
+  getValidationStats(filters?: { employeeIds?: number[]; departmentId?: number }): Promise<{
+    pendingWeeks: number;
+    pendingHours: number;
+    validatedThisMonth: number;
+    activeEmployees: number;
+  }>;
+  decideValidationWeek(params: {
+    employeeId: number;
+    weekStart: string;
+    action: 'approve' | 'reject';
+    validatorId: number | null;
+    timeEntryIds?: number[];
+    planningEntryIds?: number[];
+    comments?: string;
+    rejectionReason?: string;
+    overtimeCompensation?: OvertimeCompensation;
+    approval?: WeekApprovalStep;
+  }): Promise<{ validation: Validation; timeEntries: TimeEntry[]; planningEntries: PlanningEntry[]; approval?: ApprovalRequest } | { error: ValidationDecisionError }>;
+  ensureWeekValidation(employeeId: number, weekStart: string): Promise<Validation>;
+
+  // Approval chains
+  getApprovalChains(): Promise<ApprovalChainWithSteps[]>;
+  getApprovalChain(id: number): Promise<ApprovalChainWithSteps | undefined>;
+  createApprovalChain(chain: CreateApprovalChain): Promise<ApprovalChainWithSteps>;
+  updateApprovalChain(id: number, chain: CreateApprovalChain): Promise<ApprovalChainWithSteps | undefined>;
+  deleteApprovalChain(id: number): Promise<boolean>;
+  getApprovalDelegations(filters?: { delegatorId?: number; activeOn?: string }): Promise<ApprovalDelegation[]>;
+  getApprovalDelegation(id: number): Promise<ApprovalDelegation | undefined>;
+  createApprovalDelegation(delegation: CreateApprovalDelegation & { delegator_id: number }): Promise<ApprovalDelegation>;
+  deleteApprovalDelegation(id: number): Promise<boolean>;
+  getApprovalRequest(subjectType: ApprovalSubjectType, subjectId: number): Promise<ApprovalRequestWithSteps | undefined>;
+  getFirstApproverId(subjectType: ApprovalSubjectType, employeeId: number): Promise<number | null>;
+  startApprovalRequest(subjectType: ApprovalSubjectType, subjectId: number, employeeId: number): Promise<ApprovalRequestWithSteps>;
+  recordApprovalDecision(requestId: number, decision: ApprovalDecision): Promise<ApprovalRequest | undefined>;
+  getApprovalInbox(actorId: number, date: string): Promise<any[]>;
+  escalateOverdueApprovals(now?: Date): Promise<ApprovalRequest[]>;
+
+  // Pay period closures
+  getPayPeriodClosedThrough(): Promise<string | null>;
+  getPayPeriodClosures(): Promise<PayPeriodClosure[]>;
+  closePayPeriod(closedThrough: string, closedBy: number, comment?: string): Promise<PayPeriodClosure>;
+  getEntryDates(subjectType: TimeAdjustmentSubjectType, ids: number[]): Promise<string[]>;
+  getTimeAdjustments(filters?: { employeeId?: number; startDate?: string; endDate?: string }): Promise<TimeAdjustment[]>;
+  createTimeAdjustment(adjustment: CreateTimeAdjustment, createdBy: number, today: string): Promise<TimeAdjustment | undefined>;
+
+  // Payroll export
+  getPayrollExportConfig(): Promise<PayrollExportConfig>;
+  updatePayrollExportConfig(config: PayrollExportConfig): Promise<PayrollExportConfig>;
+  getPayrollSources(month: string, filters?: { employeeIds?: number[]; departmentId?: number }): Promise<PayrollEmployeeSource[]>;
+
+  // Time clock
+  getOpenPunch(employeeId: number): Promise<TimeEntry | undefined>;
+  getPunchesForDate(employeeId: number, date: string): Promise<TimeEntry[]>;
+  recordClockEvent(employeeId: number, action: ClockAction, input: ClockEventInput, now?: Date, source?: ClockEventSource): Promise<{ entry: TimeEntry; replayed: boolean; geofence?: GeofenceCheck } | { error: ClockEventError | 'IDEMPOTENCY_KEY_REUSED' | 'OUTSIDE_WORK_SITE' }>;
+
+  // Work sites (geofencing)
+  getWorkSites(filters?: { departmentId?: number; projectId?: number; activeOnly?: boolean }): Promise<WorkSite[]>;
+  getWorkSite(id: number): Promise<WorkSite | undefined>;
+  createWorkSite(site: CreateWorkSite, createdBy: number | null): Promise<WorkSite>;
+  updateWorkSite(id: number, site: CreateWorkSite): Promise<WorkSite | undefined>;
+  deleteWorkSite(id: number): Promise<boolean>;
+  getGeofencePolicy(): Promise<GeofencePolicy>;
+  updateGeofencePolicy(policy: GeofencePolicy): Promise<GeofencePolicy>;
+  getApplicableWorkSiteZones(employeeId: number, projectId?: number): Promise<WorkSiteZone[]>;
+
+  // Kiosks (shared clocking terminals)
+  getKioskDevices(): Promise<KioskDevice[]>;
+  getKioskDevice(id: number): Promise<KioskDevice | undefined>;
+  getKioskDeviceByTokenHash(tokenHash: string): Promise<KioskDevice | undefined>;
+  createKioskDevice(device: CreateKioskDevice, tokenHash: string, createdBy: number | null): Promise<KioskDevice>;
+  updateKioskDevice(id: number, device: Partial<CreateKioskDevice> & { token_hash?: string; last_seen_at?: Date }): Promise<KioskDevice | undefined>;
+  deleteKioskDevice(id: number): Promise<boolean>;
+  getEmployeeForKiosk(identifier: { employee_number: string } | { badge_code: string }): Promise<Employee | undefined>;
+  getKioskCredentialStatuses(): Promise<KioskCredentialStatus[]>;
+  updateKioskCredentials(employeeId: number, credentials: { kiosk_pin_hash?: string | null; badge_code?: string | null }): Promise<Employee | { error: 'EMPLOYEE_NOT_FOUND' | 'BADGE_CODE_TAKEN' }>;
+
+  // Offline sync
+  applySyncMutation(employeeId: number, deviceId: string, mutation: SyncMutation, receivedAt?: Date): Promise<SyncMutationResult>;
+
+  // Audit log (append-only)
+  createAuditLogs(entries: InsertAuditLog[]): Promise<void>;
+  getAuditLogs(filters: AuditLogQuery): Promise<{ data: AuditLogWithActor[]; total: number }>;
+  getAuditSnapshots(entityType: AuditEntityType, target: AuditTarget): Promise<Array<Record<string, unknown> & { id: number }>>;
+
   // Dashboard Data
   getAdminDashboardData(): Promise<any>;
   getEmployeeDashboardData(employeeId: number): Promise<any>;
@@ -299,6 +691,18 @@ export class DatabaseStorage implements IStorage {
       .orderBy(asc(employees.last_name));
   }
 
+  // Organigramme complet, pour la portée des permissions (équipe, département) ;
+  // les employés inactifs en font partie pour garder l'accès à leur historique
+  async getEmployeeHierarchy(): Promise<HierarchyEmployee[]> {
+    return await db
+      .select({
+        id: employees.id,
+        manager_id: employees.manager_id,
+        department_id: employees.department_id,
+      })
+      .from(employees);
+  }
+
   async createEmployee(insertEmployee: InsertEmployee): Promise<Employee> {
     const [employee] = await db
       .insert(employees)
@@ -323,6 +727,7 @@ export class DatabaseStorage implements IStorage {
     page: number = 1, 
     limit: number = 10, 
     filters?: { 
+      employeeIds?: number[];
       search?: string; 
       department?: number; 
       status?: string; 
@@ -356,10 +761,16 @@ export class DatabaseStorage implements IStorage {
       created_at: employees.created_at,
     };
 
+    // Portée des permissions : une liste vide ne donne accès à personne
+    if (filters?.employeeIds?.length === 0) {
+      return { employees: [], total: 0, page, totalPages: 0 };
+    }
+
     // Prepare advanced filter options
     const filterOptions: FilterOptions = {
       searchFields: ['first_name', 'last_name', 'employee_number', 'email'],
       exactMatches: [],
+      inFilters: filters?.employeeIds ? [{ field: 'id', values: filters.employeeIds }] : [],
       dateRanges: [],
       booleanFilters: [],
     };
@@ -704,6 +1115,7 @@ export class DatabaseStorage implements IStorage {
       );
 
     const vacationDaysRemaining = employee.vacation_days_total - employee.vacation_days_used;
+    const leaveBalances = await this.getLeaveBalances(id);
     const validationRate = planningStats[0]?.total > 0 
       ? Math.round((planningStats[0]?.validated / planningStats[0]?.total) * 100)
       : 0;
@@ -724,6 +1136,12 @@ export class DatabaseStorage implements IStorage {
         used: employee.vacation_days_used,
         remaining: vacationDaysRemaining,
       },
+      leaveBalances: {
+        period: leaveBalances.period,
+        cp: leaveBalances.balances.cp,
+        rtt: leaveBalances.balances.rtt,
+        reposCompensateur: leaveBalances.balances.repos_compensateur,
+      },
       planning: {
         total: planningStats[0]?.total || 0,
         validated: planningStats[0]?.validated || 0,
@@ -788,6 +1206,7 @@ export class DatabaseStorage implements IStorage {
         validatedAt: planningEntries.validated_at,
         comments: planningEntries.comments,
         rejectionReason: planningEntries.rejection_reason,
+        version: planningEntries.version,
         createdAt: planningEntries.created_at,
         updatedAt: planningEntries.updated_at,
         // Employee info
@@ -826,6 +1245,7 @@ export class DatabaseStorage implements IStorage {
       startDate?: string;
       endDate?: string;
       employeeId?: number;
+      employeeIds?: number[];
       projectId?: number;
       status?: string;
       type?: string;
@@ -868,6 +1288,7 @@ export class DatabaseStorage implements IStorage {
       exactMatches: [],
       dateRanges: [],
       booleanFilters: [],
+      inFilters: filters?.employeeIds ? [{ field: 'employee_id', values: filters.employeeIds }] : [],
     };
 
     // Map filters to QueryBuilder format
@@ -929,6 +1350,11 @@ export class DatabaseStorage implements IStorage {
     const page = filters?.page || Math.floor((filters?.offset || 0) / limit) + 1;
     const paginationOptions: PaginationOptions = { page, limit };
 
+    // Aucun employé dans le périmètre : inutile d'interroger la base
+    if (filters?.employeeIds?.length === 0) {
+      return { data: [], total: 0, page, totalPages: 0 };
+    }
+
     // Build base query with joins
     let baseQuery = db
       .select({
@@ -946,6 +1372,10 @@ export class DatabaseStorage implements IStorage {
         locationLatitude: timeEntries.location_latitude,
         locationLongitude: timeEntries.location_longitude,
         locationAddress: timeEntries.location_address,
+        geofenceStatus: timeEntries.geofence_status,
+        workSiteId: timeEntries.work_site_id,
+        geofenceDistanceMeters: timeEntries.geofence_distance_meters,
+        reviewReason: timeEntries.review_reason,
         validatedBy: timeEntries.validated_by,
         validatedAt: timeEntries.validated_at,
         createdAt: timeEntries.created_at,
@@ -1009,6 +1439,7 @@ export class DatabaseStorage implements IStorage {
     startDate?: string;
     endDate?: string;
     employeeId?: number;
+    employeeIds?: number[];
     departmentId?: number;
     status?: string;
     type?: string;
@@ -1046,6 +1477,7 @@ export class DatabaseStorage implements IStorage {
       exactMatches: [],
       dateRanges: [],
       booleanFilters: [],
+      inFilters: filters?.employeeIds ? [{ field: 'employee_id', values: filters.employeeIds }] : [],
     };
 
     // Map filters to QueryBuilder format
@@ -1098,6 +1530,11 @@ export class DatabaseStorage implements IStorage {
     const page = filters?.page || Math.floor((filters?.offset || 0) / limit) + 1;
     const paginationOptions: PaginationOptions = { page, limit };
 
+    // Aucun employé dans le périmètre : inutile d'interroger la base
+    if (filters?.employeeIds?.length === 0) {
+      return { data: [], total: 0, page, totalPages: 0 };
+    }
+
     // Build base query with joins
     let baseQuery = db
       .select({
@@ -1112,6 +1549,7 @@ export class DatabaseStorage implements IStorage {
         validatedAt: planningEntries.validated_at,
         comments: planningEntries.comments,
         rejectionReason: planningEntries.rejection_reason,
+        version: planningEntries.version,
         createdAt: planningEntries.created_at,
         updatedAt: planningEntries.updated_at,
         // Employee info
@@ -1293,11 +1731,17 @@ export class DatabaseStorage implements IStorage {
     return newEntry;
   }
 
-  async updatePlanningEntry(id: number, entry: Partial<InsertPlanningEntry>): Promise<PlanningEntry | undefined> {
+  // Avec expectedVersion, la mise à jour n'a lieu que si l'entrée n'a pas été
+  // modifiée entre-temps (undefined sinon)
+  async updatePlanningEntry(id: number, entry: Partial<InsertPlanningEntry>, expectedVersion?: number): Promise<PlanningEntry | undefined> {
     const [updatedEntry] = await db
       .update(planningEntries)
-      .set({ ...entry, updated_at: new Date() })
-      .where(eq(planningEntries.id, id))
+      .set({ ...entry, version: sql`${planningEntries.version} + 1`, updated_at: new Date() })
+      .where(
+        expectedVersion === undefined
+          ? eq(planningEntries.id, id)
+          : and(eq(planningEntries.id, id), eq(planningEntries.version, expectedVersion))
+      )
       .returning();
     return updatedEntry || undefined;
   }
@@ -1317,17 +1761,90 @@ export class DatabaseStorage implements IStorage {
     return newEntries;
   }
 
-  async bulkUpdatePlanningEntries(updates: { id: number; data: Partial<InsertPlanningEntry> }[]): Promise<PlanningEntry[]> {
-    const results = [];
-    
-    for (const update of updates) {
-      const result = await this.updatePlanningEntry(update.id, update.data);
-      if (result) {
-        results.push(result);
-      }
+  // Tout ou rien : undefined, sans aucune écriture, dès qu'une entrée versionnée
+  // a été modifiée depuis sa lecture par le client
+  async bulkUpdatePlanningEntries(updates: { id: number; data: Partial<InsertPlanningEntry>; version?: number }[]): Promise<PlanningEntry[] | undefined> {
+    try {
+      return await db.transaction(async (tx) => {
+        const results: PlanningEntry[] = [];
+
+        for (const update of updates) {
+          const [result] = await tx
+            .update(planningEntries)
+            .set({ ...update.data, version: sql`${planningEntries.version} + 1`, updated_at: new Date() })
+            .where(
+              update.version === undefined
+                ? eq(planningEntries.id, update.id)
+                : and(eq(planningEntries.id, update.id), eq(planningEntries.version, update.version))
+            )
+            .returning();
+
+          if (result) {
+            results.push(result);
+          } else if (update.version !== undefined) {
+            tx.rollback();
+          }
+        }
+
+        return results;
+      });
+    } catch (error) {
+      if (error instanceof TransactionRollbackError) return undefined;
+      throw error;
     }
-    
-    return results;
+  }
+
+  async getPlanningEntriesByIds(ids: number[]): Promise<PlanningEntry[]> {
+    if (ids.length === 0) return [];
+    return await db.select().from(planningEntries).where(inArray(planningEntries.id, ids));
+  }
+
+  // Correctif de résolution de conflit : refusé si les créneaux ont changé depuis le calcul
+  async applyPlanningPatch(patch: PlanningPatch): Promise<boolean> {
+    const entries = patch.updates.map(update => update.before).concat(patch.deletes);
+    if (entries.length === 0) return true;
+
+    return await db.transaction(async (tx) => {
+      const current = await tx
+        .select({
+          id: planningEntries.id,
+          date: planningEntries.date,
+          start_time: planningEntries.start_time,
+          end_time: planningEntries.end_time,
+        })
+        .from(planningEntries)
+        .where(inArray(planningEntries.id, entries.map(entry => entry.id)))
+        .for('update');
+
+      const unchanged = entries.every(entry => current.some(row =>
+        row.id === entry.id &&
+        row.date === entry.date &&
+        row.start_time?.slice(0, 5) === entry.startTime &&
+        row.end_time?.slice(0, 5) === entry.endTime
+      ));
+      if (!unchanged) return false;
+
+      for (const { after } of patch.updates) {
+        await tx
+          .update(planningEntries)
+          .set({
+            date: after.date,
+            start_time: after.startTime,
+            end_time: after.endTime,
+            version: sql`${planningEntries.version} + 1`,
+            updated_at: new Date(),
+          })
+          .where(eq(planningEntries.id, after.id));
+      }
+
+      if (patch.deletes.length > 0) {
+        await tx
+          .delete(planningEntries)
+          .where(inArray(planningEntries.id, patch.deletes.map(entry => entry.id)));
+      }
+
+      return true;
+    });
   }
 
   // ========================================
@@ -1554,6 +2071,7 @@ export class DatabaseStorage implements IStorage {
         date: timeEntries.date,
         startTime: timeEntries.start_time,
         endTime: timeEntries.end_time,
+        breakDuration: timeEntries.break_duration,
         type: timeEntries.type,
         category: timeEntries.category,
         description: timeEntries.description,
@@ -1562,6 +2080,10 @@ export class DatabaseStorage implements IStorage {
         locationLatitude: timeEntries.location_latitude,
         locationLongitude: timeEntries.location_longitude,
         locationAddress: timeEntries.location_address,
+        geofenceStatus: timeEntries.geofence_status,
+        workSiteId: timeEntries.work_site_id,
+        geofenceDistanceMeters: timeEntries.geofence_distance_meters,
+        reviewReason: timeEntries.review_reason,
         validatedBy: timeEntries.validated_by,
         validatedAt: timeEntries.validated_at,
         createdAt: timeEntries.created_at,
@@ -1704,7 +2226,7 @@ export class DatabaseStorage implements IStorage {
 
     const [updatedEntry] = await db
       .update(timeEntries)
-      .set({ ...updateData, updated_at: new Date() })
+      .set({ ...updateData, version: sql`${timeEntries.version} + 1`, updated_at: new Date() })
       .where(eq(timeEntries.id, id))
       .returning();
 
@@ -1755,11 +2277,17 @@ export class DatabaseStorage implements IStorage {
     return newEntries;
   }
 
-  async detectTimeAnomalies(employeeId: number, dateFrom: string, dateTo: string): Promise<any[]> {
+  async detectTimeAnomalies(employeeId: number, dateFrom: string, dateTo?: string): Promise<any[]> {
+    const periodEnd = dateTo || new Date().toISOString().split('T')[0];
+
+    // Rolling averages and rest periods need entries beyond the analysed period
+    const rules = await this.getLaborRulesForEmployee(employeeId);
+    const dataRange = getLaborRulesDataRange(rules, dateFrom, periodEnd);
+
     const entries = await this.getTimeEntries({
       employeeId,
-      dateFrom,
-      dateTo,
+      dateFrom: dataRange.start,
+      dateTo: dataRange.end,
       limit: 1000,
       offset: 0
     });
@@ -1768,45 +2296,43 @@ export class DatabaseStorage implements IStorage {
 
     // Group by date for daily analysis
     const dailyEntries: Record<string, any[]> = {};
-    entries.data.forEach(entry => {
-      if (!dailyEntries[entry.date]) dailyEntries[entry.date] = [];
-      dailyEntries[entry.date].push(entry);
-    });
-
-    // Detect anomalies
-    for (const [date, dayEntries] of Object.entries(dailyEntries)) {
-      const totalHours = dayEntries.reduce((sum, entry) => sum + (entry.totalHours || 0), 0);
-      
-      // Check for excessive daily hours
-      if (totalHours > 10) {
-        anomalies.push({
-          type: 'excessive_daily_hours',
-          severity: 'error',
-          employeeId,
-          date,
-          description: `Dépassement de 10h journalières: ${totalHours.toFixed(2)}h`,
-          entries: dayEntries.map(e => e.id)
-        });
-      }
-
-      // Check for missing breaks (if over 6 hours without break)
-      const hasLongEntry = dayEntries.some(entry => {
-        const hours = entry.totalHours || 0;
-        const breakDuration = entry.breakDuration || 0;
-        return hours > 6 && breakDuration < 30; // Less than 30min break for 6+ hour work
+    entries.data
+      .filter(entry => entry.date >= dateFrom && entry.date <= periodEnd)
+      .forEach(entry => {
+        if (!dailyEntries[entry.date]) dailyEntries[entry.date] = [];
+        dailyEntries[entry.date].push(entry);
       });
 
-      if (hasLongEntry) {
-        anomalies.push({
-          type: 'missing_break',
-          severity: 'warning',
-          employeeId,
-          date,
-          description: 'Pause manquante pour une journée de plus de 6h',
-          entries: dayEntries.filter(e => (e.totalHours || 0) > 6 && (e.breakDuration || 0) < 30).map(e => e.id)
-        });
-      }
+    // Labor rules (daily/weekly limits, rest periods, breaks, night and Sunday work)
+    const violations = evaluateLaborRules(
+      rules,
+      entries.data
+        .filter(entry => entry.endTime)
+        .map(entry => ({
+          id: entry.id,
+          date: entry.date,
+          startTime: entry.startTime,
+          endTime: entry.endTime,
+          breakMinutes: entry.breakDuration || 0,
+        })),
+      { range: dataRange, focus: { start: dateFrom, end: periodEnd } }
+    );
+
+    for (const violation of violations) {
+      anomalies.push({
+        type: violation.type === 'max_daily_hours' ? 'excessive_daily_hours'
+          : violation.type === 'break_after_hours' ? 'missing_break'
+          : violation.type,
+        severity: violation.severity,
+        employeeId,
+        date: violation.date,
+        description: violation.description,
+        entries: violation.shiftIds,
+        data: { ruleId: violation.ruleId, ...violation.data }
+      });
+    }
 
+    for (const [date, dayEntries] of Object.entries(dailyEntries)) {
       // Check for overlapping entries
       for (let i = 0; i < dayEntries.length - 1; i++) {
         for (let j = i + 1; j < dayEntries.length; j++) {
@@ -1830,6 +2356,16 @@ export class DatabaseStorage implements IStorage {
           }
         }
       }
+
+      // Clock-ins outside the work sites, punches waiting for confirmation
+      for (const entry of dayEntries) {
+        if (entry.geofenceStatus === 'outside' || entry.geofenceStatus === 'unknown') {
+          anomalies.push({ ...getOutOfZoneAnomaly(employeeId, entry), entries: [entry.id] });
+        }
+        if (entry.reviewReason) {
+          anomalies.push({ ...getPunchReviewAnomaly(employeeId, entry), entries: [entry.id] });
+        }
+      }
     }
 
     return anomalies;
@@ -1884,7 +2420,7 @@ export class DatabaseStorage implements IStorage {
     // Update all entries to submitted status
     await db
       .update(timeEntries)
-      .set({ status: 'submitted', updated_at: new Date() })
+      .set({ status: 'submitted', version: sql`${timeEntries.version} + 1`, updated_at: new Date() })
       .where(
         and(
           eq(timeEntries.employee_id, employeeId),
@@ -1919,21 +2455,20 @@ export class DatabaseStorage implements IStorage {
     date: string, 
     startTime: string, 
     endTime: string, 
-    excludeId?: number
+    excludeId?: number,
+    tx?: DbTransaction
   ): Promise<{ valid: boolean; conflicts: string[] }> {
-    const existingEntries = await this.getTimeEntries({
-      employeeId,
-      dateFrom: date,
-      dateTo: date,
-      limit: 100,
-      offset: 0
-    });
+    // Dans une transaction, les entrées verrouillées ou écrites par celle-ci
+    const existingEntries = await (tx ?? db)
+      .select({ id: timeEntries.id, startTime: timeEntries.start_time, endTime: timeEntries.end_time })
+      .from(timeEntries)
+      .where(and(eq(timeEntries.employee_id, employeeId), eq(timeEntries.date, date)));
 
     const conflicts: string[] = [];
     const newStart = new Date(`1970-01-01T${startTime}:00`);
     const newEnd = new Date(`1970-01-01T${endTime}:00`);
 
-    for (const entry of existingEntries.data) {
+    for (const entry of existingEntries) {
       if (excludeId && entry.id === excludeId) continue;
       
       const existingStart = new Date(`1970-01-01T${entry.startTime}:00`);
@@ -1968,8 +2503,9 @@ export class DatabaseStorage implements IStorage {
       return { regularHours: totalHours, overtimeHours: 0 };
     }
 
-    // French law: max 10h/day, 35h/week standard
-    const maxDailyHours = 10;
+    // Daily cap from the employee's labor rules, 5-day work week baseline
+    const rules = await this.getLaborRulesForEmployee(employeeId);
+    const maxDailyHours = findLaborRule(rules, 'max_daily_hours')?.max_hours ?? Infinity;
     const standardDailyHours = (employee.weekly_hours || 35) / 5; // Assume 5-day work week
 
     let regularHours = Math.min(totalHours, standardDailyHours);
@@ -1984,177 +2520,149 @@ export class DatabaseStorage implements IStorage {
     return { regularHours, overtimeHours };
   }
 
-  async validateDailyHours(
-    employeeId: number, 
-    date: string, 
-    totalHours: number
-  ): Promise<{ valid: boolean; errors: string[] }> {
-    const errors: string[] = [];
-    const maxDailyHours = 10; // French labor law
-
-    if (totalHours > maxDailyHours) {
-      errors.push(`Maximum daily hours exceeded: ${totalHours}h > ${maxDailyHours}h`);
-    }
-
-    return {
-      valid: errors.length === 0,
-      errors
-    };
-  }
-
-  async validateWeeklyHours(
-    employeeId: number, 
-    weekStart: string, 
-    additionalHours: number
-  ): Promise<{ valid: boolean; errors: string[] }> {
-    const errors: string[] = [];
-    const maxWeeklyHours = 48; // French labor law
-    
-    // Get existing hours for the week
-    const weekEnd = new Date(weekStart);
-    weekEnd.setDate(weekEnd.getDate() + 6);
-    
-    const existingEntries = await this.getTimeEntries({
-      employeeId,
-      dateFrom: weekStart,
-      dateTo: weekEnd.toISOString().split('T')[0],
-      limit: 100,
-      offset: 0
-    });
-
-    const currentWeeklyHours = existingEntries.data.reduce((total, entry) => {
-      if (entry.endTime) {
-        return total + this.calculateWorkingHours(entry.startTime, entry.endTime, entry.breakDuration || 0);
-      }
-      return total;
-    }, 0);
-
-    const totalWeeklyHours = currentWeeklyHours + additionalHours;
-
-    if (totalWeeklyHours > maxWeeklyHours) {
-      errors.push(`Maximum weekly hours exceeded: ${totalWeeklyHours}h > ${maxWeeklyHours}h`);
-    }
-
-    return {
-      valid: errors.length === 0,
-      errors
-    };
-  }
-
-  async validateRestPeriod(
-    employeeId: number, 
-    date: string, 
-    startTime: string
-  ): Promise<{ valid: boolean; conflicts: string[] }> {
-    const conflicts: string[] = [];
-    const minRestHours = 11; // French labor law: 11h rest between shifts
-
-    // Get previous day's last entry
-    const previousDate = new Date(date);
-    previousDate.setDate(previousDate.getDate() - 1);
-    
-    const previousEntries = await this.getTimeEntries({
-      employeeId,
-      dateFrom: previousDate.toISOString().split('T')[0],
-      dateTo: previousDate.toISOString().split('T')[0],
-      limit: 50,
-      offset: 0
-    });
-
-    if (previousEntries.data.length > 0) {
-      // Find the latest end time from previous day
-      const lastEntry = previousEntries.data
-        .filter(entry => entry.endTime)
-        .sort((a, b) => b.endTime.localeCompare(a.endTime))[0];
-
-      if (lastEntry) {
-        const lastEndTime = new Date(`${previousDate.toISOString().split('T')[0]}T${lastEntry.endTime}:00`);
-        const currentStartTime = new Date(`${date}T${startTime}:00`);
-        
-        const restHours = (currentStartTime.getTime() - lastEndTime.getTime()) / (1000 * 60 * 60);
-        
-        if (restHours < minRestHours) {
-          conflicts.push(`Insufficient rest period: ${restHours.toFixed(1)}h < ${minRestHours}h required`);
-        }
-      }
-    }
-
-    return {
-      valid: conflicts.length === 0,
-      conflicts
-    };
-  }
-
   // ========================================
   // PLANNING GENERATION
   // ========================================
 
+  // Déroule les modèles affectés (ou le modèle imposé) sur la période.
+  // Les journées déjà planifiées (congés, absences, créneaux existants) sont conservées.
   async generatePlanning(params: {
-    employeeIds: number[];
+    employeeIds?: number[];
+    departmentId?: number;
     startDate: string;
     endDate: string;
     templateId?: number;
     respectConstraints?: boolean;
   }): Promise<{
     generatedEntries: PlanningEntry[];
-    conflicts: any[];
+    conflicts: PlanningConflict[];
     warnings: string[];
   }> {
-    const { employeeIds, startDate, endDate, respectConstraints = true } = params;
+    const { departmentId, startDate, endDate, templateId, respectConstraints = true } = params;
     const generatedEntries: PlanningEntry[] = [];
-    const conflicts: any[] = [];
+    const conflicts: PlanningConflict[] = [];
     const warnings: string[] = [];
 
-    // Logique de génération simple (peut être étendue)
-    for (const employeeId of employeeIds) {
-      // Récupérer les informations de l'employé
-      const employee = await this.getEmployee(employeeId);
-      if (!employee || !employee.is_active) {
+    const targetEmployees = params.employeeIds && params.employeeIds.length > 0
+      ? await db.select().from(employees).where(inArray(employees.id, params.employeeIds))
+      : departmentId
+        ? await db.select().from(employees).where(eq(employees.department_id, departmentId))
+        : [];
+
+    for (const employeeId of params.employeeIds ?? []) {
+      if (!targetEmployees.some(employee => employee.id === employeeId)) {
         warnings.push(`Employé ${employeeId} non trouvé ou inactif`);
-        continue;
       }
+    }
+
+    const activeEmployees = targetEmployees.filter(employee => {
+      if (!employee.is_active) warnings.push(`Employé ${employee.id} non trouvé ou inactif`);
+      return employee.is_active;
+    });
+    if (activeEmployees.length === 0) {
+      return { generatedEntries, conflicts, warnings };
+    }
+
+    const employeeIds = activeEmployees.map(employee => employee.id);
+    const departmentIds = Array.from(new Set(
+      activeEmployees.map(employee => employee.department_id).filter((id): id is number => id !== null)
+    ));
+
+    // Affectations des employés et de leurs départements (ignorées si un modèle est imposé)
+    const assignments = templateId
+      ? []
+      : await db
+          .select()
+          .from(planningTemplateAssignments)
+          .where(
+            and(
+              or(
+                inArray(planningTemplateAssignments.employee_id, employeeIds),
+                departmentIds.length > 0 ? inArray(planningTemplateAssignments.department_id, departmentIds) : sql`false`
+              ),
+              lte(planningTemplateAssignments.start_date, endDate),
+              or(isNull(planningTemplateAssignments.end_date), gte(planningTemplateAssignments.end_date, startDate))
+            )
+          );
+
+    const templateIds = templateId
+      ? [templateId]
+      : Array.from(new Set(assignments.map(assignment => assignment.template_id)));
+    const templates = await this.getPlanningTemplatesByIds(templateIds);
+    const templatesById: Record<number, PlanningTemplateWithDetails> = {};
+    for (const template of templates) {
+      if (template.is_active) templatesById[template.id] = template;
+    }
+
+    if (templateId && !templatesById[templateId]) {
+      warnings.push(`Modèle de planning ${templateId} non trouvé ou inactif`);
+      return { generatedEntries, conflicts, warnings };
+    }
+
+    const existingEntries = await db
+      .select({ employee_id: planningEntries.employee_id, date: planningEntries.date })
+      .from(planningEntries)
+      .where(
+        and(
+          inArray(planningEntries.employee_id, employeeIds),
+          gte(planningEntries.date, startDate),
+          lte(planningEntries.date, endDate)
+        )
+      );
+    const plannedDays: Record<string, boolean> = {};
+    for (const entry of existingEntries) {
+      plannedDays[`${entry.employee_id}:${entry.date}`] = true;
+    }
 
-      // Générer des créneaux par défaut (8h par jour, 5 jours par semaine)
-      const currentDate = new Date(startDate);
-      const endDateObj = new Date(endDate);
+    for (const employee of activeEmployees) {
+      let skippedDays = 0;
+      const currentDate = new Date(`${startDate}T00:00:00Z`);
+      const endDateObj = new Date(`${endDate}T00:00:00Z`);
 
       while (currentDate <= endDateObj) {
-        const dayOfWeek = currentDate.getDay();
-        
-        // Lundi à vendredi seulement
-        if (dayOfWeek >= 1 && dayOfWeek <= 5) {
-          const dateStr = currentDate.toISOString().split('T')[0];
-          
-          const entry = {
-            employee_id: employeeId,
-            date: dateStr,
-            type: 'work' as const,
-            start_time: '09:00',
-            end_time: '17:00',
-            status: 'draft' as const,
-            created_at: new Date(),
-            updated_at: new Date(),
-          };
+        const dateStr = currentDate.toISOString().split('T')[0];
+        currentDate.setUTCDate(currentDate.getUTCDate() + 1);
+
+        const assignment = templateId ? undefined : selectTemplateAssignment(assignments, employee, dateStr);
+        const template = templateId ? templatesById[templateId] : assignment && templatesById[assignment.template_id];
+        const shifts = template
+          ? getTemplateShiftsForDate(template.shifts, template.cycle_weeks, dateStr, assignment?.start_date ?? startDate, assignment?.cycle_offset ?? 0)
+          : getTemplateShiftsForDate(DEFAULT_WEEKLY_PATTERN, 1, dateStr, startDate);
+
+        if (shifts.length === 0) continue;
+        if (plannedDays[`${employee.id}:${dateStr}`]) {
+          skippedDays++;
+          continue;
+        }
 
+        for (const shift of shifts) {
           // Vérifier les contraintes si demandé
           if (respectConstraints) {
-            const { valid, conflicts: entryConflicts } = await import('./businessLogic').then(bl => 
-              bl.checkLegalConstraints(employeeId, dateStr, '09:00', '17:00')
+            const { valid, conflicts: entryConflicts } = await checkLegalConstraints(
+              employee.id, dateStr, shift.start_time, shift.end_time
             );
-            
+
             if (!valid) {
               conflicts.push(...entryConflicts);
-            } else {
-              const createdEntry = await this.createPlanningEntry(entry);
-              generatedEntries.push(createdEntry);
+              continue;
             }
-          } else {
-            const createdEntry = await this.createPlanningEntry(entry);
-            generatedEntries.push(createdEntry);
           }
+
+          const createdEntry = await this.createPlanningEntry({
+            employee_id: employee.id,
+            date: dateStr,
+            type: shift.type,
+            start_time: shift.start_time,
+            end_time: shift.end_time,
+            status: 'draft',
+            comments: template ? `Modèle : ${template.name}${shift.label ? ` (${shift.label})` : ''}` : null,
+          });
+          generatedEntries.push(createdEntry);
         }
+      }
 
-        currentDate.setDate(currentDate.getDate() + 1);
+      if (skippedDays > 0) {
+        warnings.push(`${skippedDays} journée(s) déjà planifiée(s) conservée(s) pour l'employé ${employee.id}`);
       }
     }
 
@@ -2476,80 +2984,2572 @@ export class DatabaseStorage implements IStorage {
   }
 
   // ========================================
-  // DASHBOARD DATA OPERATIONS
+  // LEAVE REQUESTS OPERATIONS
   // ========================================
-  async getAdminDashboardData(): Promise<any> {
-    // Get basic stats
-    const [employeesCount] = await db.select({ count: count() }).from(employees).where(eq(employees.is_active, true));
-    const [projectsCount] = await db.select({ count: count() }).from(projects).where(eq(projects.status, 'active'));
-    const [tasksCount] = await db.select({ count: count() }).from(tasks).where(eq(tasks.status, 'in_progress'));
-    
-    // Get projects by status
-    const projectsByStatus = await db
-      .select({
-        status: projects.status,
-        count: count()
-      })
-      .from(projects)
-      .groupBy(projects.status);
+  async getLeaveRequest(id: number): Promise<LeaveRequest | undefined> {
+    const [request] = await db.select().from(leaveRequests).where(eq(leaveRequests.id, id));
+    return request || undefined;
+  }
 
-    // Get tasks by priority
-    const tasksByPriority = await db
-      .select({
-        priority: tasks.priority,
-        count: count()
-      })
-      .from(tasks)
-      .where(eq(tasks.status, 'todo'))
-      .groupBy(tasks.priority);
+  async getLeaveRequests(filters: {
+    employeeId?: number;
+    employeeIds?: number[];
+    status?: string;
+    startDate?: string;
+    endDate?: string;
+  } = {}): Promise<any[]> {
+    const conditions = [];
 
-    // Get recent activities (last 30 days)
-    const thirtyDaysAgo = new Date();
-    thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
+    if (filters.employeeId) {
+      conditions.push(eq(leaveRequests.employee_id, filters.employeeId));
+    }
+    if (filters.employeeIds) {
+      conditions.push(inArray(leaveRequests.employee_id, filters.employeeIds));
+    }
+    if (filters.status) {
+      conditions.push(eq(leaveRequests.status, filters.status as any));
+    }
+    // Demandes qui chevauchent la période demandée
+    if (filters.startDate) {
+      conditions.push(gte(leaveRequests.end_date, filters.startDate));
+    }
+    if (filters.endDate) {
+      conditions.push(lte(leaveRequests.start_date, filters.endDate));
+    }
 
-    const recentTimeEntries = await db
+    return await db
       .select({
-        date: timeEntries.date,
-        total_hours: sql<number>`SUM(${timeEntries.total_hours})`
+        ...getTableColumns(leaveRequests),
+        employee_first_name: employees.first_name,
+        employee_last_name: employees.last_name,
+        employee_manager_id: employees.manager_id,
       })
-      .from(timeEntries)
-      .where(gte(timeEntries.date, thirtyDaysAgo.toISOString().split('T')[0]))
-      .groupBy(timeEntries.date)
-      .orderBy(asc(timeEntries.date));
+      .from(leaveRequests)
+      .innerJoin(employees, eq(leaveRequests.employee_id, employees.id))
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(leaveRequests.start_date));
+  }
 
-    return {
-      stats: {
-        total_employees: employeesCount.count,
-        active_projects: projectsCount.count,
-        active_tasks: tasksCount.count
-      },
-      charts: {
-        projects_by_status: projectsByStatus,
-        tasks_by_priority: tasksByPriority,
-        time_entries_trend: recentTimeEntries
-      }
-    };
+  async createLeaveRequest(request: InsertLeaveRequest): Promise<LeaveRequest> {
+    const [newRequest] = await db
+      .insert(leaveRequests)
+      .values(request)
+      .returning();
+    return newRequest;
   }
 
-  async getEmployeeDashboardData(employeeId: number): Promise<any> {
-    // Get employee's tasks
-    const myTasks = await db
-      .select({
-        status: tasks.status,
-        count: count()
-      })
-      .from(tasks)
-      .where(eq(tasks.assigned_to, employeeId))
-      .groupBy(tasks.status);
+  async hasOverlappingLeaveRequest(employeeId: number, startDate: string, endDate: string): Promise<boolean> {
+    const [overlapping] = await db
+      .select({ id: leaveRequests.id })
+      .from(leaveRequests)
+      .where(
+        and(
+          eq(leaveRequests.employee_id, employeeId),
+          inArray(leaveRequests.status, ['pending', 'approved']),
+          lte(leaveRequests.start_date, endDate),
+          gte(leaveRequests.end_date, startDate)
+        )
+      )
+      .limit(1);
+    return !!overlapping;
+  }
 
-    // Get employee's projects
-    const myProjects = await db
-      .select({
-        id: projects.id,
-        name: projects.name,
-        status: projects.status,
-        tasks_count: sql<number>`COUNT(${tasks.id})`
-      })
+  // Approbation : statut, étape du circuit, planning et solde de congés dans
+  // une seule transaction ; rien n'est écrit si la demande ou l'étape a changé
+  async approveLeaveRequest(
+    id: number,
+    decision: LeaveDecision
+  ): Promise<{ request: LeaveRequest; planningEntries: PlanningEntry[]; replacedPlanningEntries: ReplacedPlanningEntry[]; approval: ApprovalRequest } | { error: LeaveDecisionError }> {
+    return await this.decideLeaveRequest(id, decision, 'approved', async (tx, request) => {
+      const dates = getLeaveWorkingDates(request.start_date, request.end_date);
+      const planningType = getLeavePlanningType(request.type);
+
+      // Le congé remplace le planning existant sur ces journées ; les entrées
+      // supprimées sont renvoyées pour le tableau de planning en direct
+      const replacedEntries = dates.length > 0
+        ? await tx
+            .delete(planningEntries)
+            .where(
+              and(
+                eq(planningEntries.employee_id, request.employee_id),
+                inArray(planningEntries.date, dates)
+              )
+            )
+            .returning({ id: planningEntries.id, employee_id: planningEntries.employee_id, date: planningEntries.date })
+        : [];
+
+      const createdEntries = dates.length > 0
+        ? await tx
+            .insert(planningEntries)
+            .values(dates.map(date => ({
+              employee_id: request.employee_id,
+              date,
+              type: planningType,
+              status: 'validated' as const,
+              validated_by: decision.actorId,
+              validated_at: new Date(),
+              comments: `Demande de congé #${request.id}`,
+            })))
+            .returning()
+        : [];
+
+      const balanceType = getLeaveBalanceType(request.type);
+      if (balanceType) {
+        await tx.insert(leaveBalanceMovements).values({
+          employee_id: request.employee_id,
+          leave_type: balanceType,
+          movement_type: 'taken',
+          days: (-request.days_count).toString(),
+          period_start: getReferencePeriod(request.start_date).start,
+          effective_date: request.start_date,
+          leave_request_id: request.id,
+          description: `Demande de congé #${request.id}`,
+        });
+      }
+
+      if (request.type === 'vacation') {
+        await tx
+          .update(employees)
+          .set({
+            vacation_days_used: sql`${employees.vacation_days_used} + ${request.days_count}`,
+            updated_at: new Date(),
+          })
+          .where(eq(employees.id, request.employee_id));
+      }
+
+      return { planningEntries: createdEntries, replacedPlanningEntries: replacedEntries };
+    });
+  }
+
+  // Un refus, à n'importe quelle étape, clôt le circuit
+  async rejectLeaveRequest(
+    id: number,
+    decision: LeaveDecision
+  ): Promise<{ request: LeaveRequest; approval: ApprovalRequest } | { error: LeaveDecisionError }> {
+    return await this.decideLeaveRequest(id, decision, 'rejected', async () => ({}));
+  }
+
+  // Statut de la demande et décision du circuit vont ensemble : la transaction
+  // est annulée si l'une des deux n'est plus possible
+  private async decideLeaveRequest<T extends object>(
+    id: number,
+    decision: LeaveDecision,
+    action: 'approved' | 'rejected',
+    apply: (tx: DbTransaction, request: LeaveRequest) => Promise<T>
+  ): Promise<T & { request: LeaveRequest; approval: ApprovalRequest } | { error: LeaveDecisionError }> {
+    let error: LeaveDecisionError = 'LEAVE_REQUEST_NOT_PENDING';
+    try {
+      return await db.transaction(async (tx) => {
+        const [request] = await tx
+          .update(leaveRequests)
+          .set({
+            status: action,
+            approver_id: decision.actorId,
+            decided_at: new Date(),
+            decision_comment: decision.comment,
+            updated_at: new Date(),
+          })
+          .where(and(eq(leaveRequests.id, id), eq(leaveRequests.status, 'pending')))
+          .returning();
+        if (!request) tx.rollback();
+
+        const approval = await this.applyApprovalDecision(tx, decision.approvalRequestId, { ...decision, action });
+        if (!approval) {
+          error = 'APPROVAL_STEP_STALE';
+          tx.rollback();
+        }
+
+        return { ...await apply(tx, request), request, approval: approval! };
+      });
+    } catch (rollback) {
+      if (rollback instanceof TransactionRollbackError) return { error };
+      throw rollback;
+    }
+  }
+
+  // Annulation d'une demande en attente ou approuvée, avec son circuit de
+  // validation en cours ; une demande approuvée libère aussi les journées
+  // posées au planning et recrédite les jours pris
+  async cancelLeaveRequest(
+    id: number,
+    actorId: number | null
+  ): Promise<{ request: LeaveRequest; deletedPlanningEntries: ReplacedPlanningEntry[] } | undefined> {
+    return await db.transaction(async (tx) => {
+      const [previous] = await tx
+        .select()
+        .from(leaveRequests)
+        .where(and(eq(leaveRequests.id, id), inArray(leaveRequests.status, ['pending', 'approved'])))
+        .for('update');
+      if (!previous) return undefined;
+
+      const [request] = await tx
+        .update(leaveRequests)
+        .set({ status: 'cancelled', updated_at: new Date() })
+        .where(eq(leaveRequests.id, id))
+        .returning();
+
+      const [approval] = await tx
+        .update(approvalRequests)
+        .set({ status: 'cancelled', updated_at: new Date() })
+        .where(and(
+          eq(approvalRequests.subject_type, 'leave_request'),
+          eq(approvalRequests.subject_id, id),
+          eq(approvalRequests.status, 'pending')
+        ))
+        .returning();
+      if (approval) {
+        await tx.insert(approvalSteps).values({
+          request_id: approval.id,
+          step_order: approval.current_step,
+          approver_id: approval.current_approver_id,
+          acted_by: actorId,
+          action: 'cancelled',
+        });
+      }
+
+      if (previous.status !== 'approved') {
+        return { request, deletedPlanningEntries: [] };
+      }
+
+      // Journées posées par l'approbation (voir approveLeaveRequest)
+      const dates = getLeaveWorkingDates(previous.start_date, previous.end_date);
+      const deletedPlanningEntries = dates.length > 0
+        ? await tx
+            .delete(planningEntries)
+            .where(
+              and(
+                eq(planningEntries.employee_id, previous.employee_id),
+                inArray(planningEntries.date, dates),
+                eq(planningEntries.type, getLeavePlanningType(previous.type))
+              )
+            )
+            .returning({ id: planningEntries.id, employee_id: planningEntries.employee_id, date: planningEntries.date })
+        : [];
+
+      const balanceType = getLeaveBalanceType(previous.type);
+      if (balanceType) {
+        await tx.insert(leaveBalanceMovements).values({
+          employee_id: previous.employee_id,
+          leave_type: balanceType,
+          movement_type: 'adjustment',
+          days: previous.days_count.toString(),
+          period_start: getReferencePeriod(previous.start_date).start,
+          effective_date: previous.start_date,
+          leave_request_id: previous.id,
+          description: `Annulation de la demande de congé #${previous.id}`,
+        });
+      }
+
+      if (previous.type === 'vacation') {
+        await tx
+          .update(employees)
+          .set({
+            vacation_days_used: sql`${employees.vacation_days_used} - ${previous.days_count}`,
+            updated_at: new Date(),
+          })
+          .where(eq(employees.id, previous.employee_id));
+      }
+
+      return { request, deletedPlanningEntries };
+    });
+  }
+
+  async getPendingLeaveDays(employeeId: number, type: string): Promise<number> {
+    const [result] = await db
+      .select({ total: sql<number>`COALESCE(SUM(${leaveRequests.days_count}), 0)` })
+      .from(leaveRequests)
+      .where(
+        and(
+          eq(leaveRequests.employee_id, employeeId),
+          eq(leaveRequests.type, type as any),
+          eq(leaveRequests.status, 'pending')
+        )
+      );
+    return Number(result?.total || 0);
+  }
+
+  // ========================================
+  // LEAVE BALANCES LEDGER
+  // ========================================
+  async getLeaveBalanceMovements(
+    employeeId: number,
+    filters: { leaveType?: LeaveBalanceType; periodStart?: string } = {}
+  ): Promise<LeaveBalanceMovement[]> {
+    const conditions = [eq(leaveBalanceMovements.employee_id, employeeId)];
+
+    if (filters.leaveType) {
+      conditions.push(eq(leaveBalanceMovements.leave_type, filters.leaveType));
+    }
+    if (filters.periodStart) {
+      conditions.push(eq(leaveBalanceMovements.period_start, filters.periodStart));
+    }
+
+    return await db
+      .select()
+      .from(leaveBalanceMovements)
+      .where(and(...conditions))
+      .orderBy(desc(leaveBalanceMovements.effective_date), desc(leaveBalanceMovements.id));
+  }
+
+  async createLeaveBalanceMovement(movement: InsertLeaveBalanceMovement): Promise<LeaveBalanceMovement> {
+    const [newMovement] = await db
+      .insert(leaveBalanceMovements)
+      .values(movement)
+      .returning();
+    return newMovement;
+  }
+
+  // Reprise de l'ancien compteur (vacation_days_total - vacation_days_used) pour
+  // les employés sans historique de CP, dès la première lecture de leur solde ou
+  // la première acquisition. L'index unique sur le solde d'ouverture écarte une
+  // reprise concurrente.
+  private async ensureOpeningLeaveBalance(employee: Employee, periodStart: string): Promise<void> {
+    const [existing] = await db
+      .select({ id: leaveBalanceMovements.id })
+      .from(leaveBalanceMovements)
+      .where(and(eq(leaveBalanceMovements.employee_id, employee.id), eq(leaveBalanceMovements.leave_type, 'cp')))
+      .limit(1);
+
+    const openingDays = employee.vacation_days_total - employee.vacation_days_used;
+    if (existing || openingDays === 0) return;
+
+    await db
+      .insert(leaveBalanceMovements)
+      .values({
+        employee_id: employee.id,
+        leave_type: 'cp',
+        movement_type: 'opening',
+        days: openingDays.toString(),
+        period_start: periodStart,
+        effective_date: periodStart,
+        description: 'Solde d\'ouverture (reprise du compteur existant)',
+      })
+      .onConflictDoNothing();
+  }
+
+  async getLeaveBalances(
+    employeeId: number,
+    date: string = new Date().toISOString().split('T')[0]
+  ): Promise<{ period: { start: string; end: string; label: string }; balances: Record<LeaveBalanceType, LeaveBalanceSummary> }> {
+    const period = getReferencePeriod(date);
+    const employee = await this.getEmployee(employeeId);
+    if (employee) {
+      await this.ensureOpeningLeaveBalance(employee, getReferencePeriod(getZonedDateTime(new Date(), COMPANY_TIME_ZONE).date).start);
+    }
+    const movements = await this.getLeaveBalanceMovements(employeeId, { periodStart: period.start });
+    return { period, balances: summarizeLeaveMovements(movements) };
+  }
+
+  // Acquisition mensuelle (idempotente : une seule écriture par employé, compteur et mois)
+  async accrueMonthlyLeave(month: string): Promise<{ employees: number; movements: number }> {
+    const [year, monthIndex] = month.split('-').map(Number);
+    const lastDay = new Date(Date.UTC(year, monthIndex, 0)).getUTCDate();
+    const effectiveDate = `${month}-${String(lastDay).padStart(2, '0')}`;
+    const period = getReferencePeriod(effectiveDate);
+
+    const activeEmployees = await db.select().from(employees).where(eq(employees.is_active, true));
+    let movementsCount = 0;
+
+    for (const employee of activeEmployees) {
+      const presenceRatio = getMonthPresenceRatio(month, employee.hire_date);
+      if (presenceRatio === 0) continue;
+
+      await this.ensureOpeningLeaveBalance(employee, period.start);
+
+      for (const leaveType of Object.keys(LEAVE_ACCRUAL_RULES) as LeaveBalanceType[]) {
+        const days = calculateMonthlyAccrual(leaveType, parseFloat(employee.weekly_hours || '35'), presenceRatio);
+        if (days <= 0) continue;
+
+        // Un mois déjà acquis (relance, exécution concurrente) bute sur l'index unique
+        const [created] = await db
+          .insert(leaveBalanceMovements)
+          .values({
+            employee_id: employee.id,
+            leave_type: leaveType,
+            movement_type: 'accrual',
+            days: days.toString(),
+            period_start: period.start,
+            effective_date: effectiveDate,
+            description: `Acquisition ${month}`,
+          })
+          .onConflictDoNothing()
+          .returning({ id: leaveBalanceMovements.id });
+        if (created) movementsCount++;
+      }
+    }
+
+    return { employees: activeEmployees.length, movements: movementsCount };
+  }
+
+  // Clôture de la période de référence : report plafonné et perte du reliquat
+  async closeLeavePeriod(periodStart: string): Promise<{ employees: number; movements: number }> {
+    const startYear = parseInt(periodStart.split('-')[0]);
+    const periodEnd = `${startYear + 1}-05-31`;
+    const nextPeriodStart = `${startYear + 1}-06-01`;
+
+    const employeeIds = await db
+      .selectDistinct({ employeeId: leaveBalanceMovements.employee_id })
+      .from(leaveBalanceMovements)
+      .where(eq(leaveBalanceMovements.period_start, periodStart));
+
+    let movementsCount = 0;
+
+    for (const { employeeId } of employeeIds) {
+      const balances = summarizeLeaveMovements(
+        await this.getLeaveBalanceMovements(employeeId, { periodStart })
+      );
+
+      for (const leaveType of Object.keys(balances) as LeaveBalanceType[]) {
+        const { balance } = balances[leaveType];
+        if (balance === 0) continue;
+
+        const [alreadyClosed] = await db
+          .select({ id: leaveBalanceMovements.id })
+          .from(leaveBalanceMovements)
+          .where(
+            and(
+              eq(leaveBalanceMovements.employee_id, employeeId),
+              eq(leaveBalanceMovements.leave_type, leaveType),
+              eq(leaveBalanceMovements.movement_type, 'carry_over'),
+              eq(leaveBalanceMovements.period_start, nextPeriodStart)
+            )
+          )
+          .limit(1);
+        if (alreadyClosed) continue;
+
+        const { carriedOver, expired } = computePeriodClosing(leaveType, balance);
+        const closingMovements: InsertLeaveBalanceMovement[] = [];
+
+        if (expired > 0) {
+          closingMovements.push({
+            employee_id: employeeId,
+            leave_type: leaveType,
+            movement_type: 'expiry',
+            days: (-expired).toString(),
+            period_start: periodStart,
+            effective_date: periodEnd,
+            description: `Jours non reportables perdus (période ${startYear}-${startYear + 1})`,
+          });
+        }
+
+        closingMovements.push(
+          {
+            employee_id: employeeId,
+            leave_type: leaveType,
+            movement_type: 'carry_over',
+            days: (-carriedOver).toString(),
+            period_start: periodStart,
+            effective_date: periodEnd,
+            description: `Report vers la période ${startYear + 1}-${startYear + 2}`,
+          },
+          {
+            employee_id: employeeId,
+            leave_type: leaveType,
+            movement_type: 'carry_over',
+            days: carriedOver.toString(),
+            period_start: nextPeriodStart,
+            effective_date: nextPeriodStart,
+            description: `Report de la période ${startYear}-${startYear + 1}`,
+          }
+        );
+
+        await db.insert(leaveBalanceMovements).values(closingMovements);
+        movementsCount += closingMovements.length;
+      }
+    }
+
+    return { employees: employeeIds.length, movements: movementsCount };
+  }
+
+  // ========================================
+  // LABOR RULES SETTINGS
+  // ========================================
+
+  async getLaborRuleConfig(): Promise<LaborRuleConfig> {
+    const [setting] = await db
+      .select()
+      .from(settings)
+      .where(and(eq(settings.key, LABOR_RULES_SETTING_KEY), isNull(settings.user_id)));
+
+    if (!setting) return DEFAULT_LABOR_RULE_CONFIG;
+
+    const parsed = laborRuleConfigSchema.safeParse(setting.value);
+    if (!parsed.success) {
+      console.error('Invalid labor rules setting, using defaults:', parsed.error.flatten());
+      return DEFAULT_LABOR_RULE_CONFIG;
+    }
+
+    return parsed.data;
+  }
+
+  async updateLaborRuleConfig(config: LaborRuleConfig): Promise<LaborRuleConfig> {
+    const [existing] = await db
+      .select({ id: settings.id })
+      .from(settings)
+      .where(and(eq(settings.key, LABOR_RULES_SETTING_KEY), isNull(settings.user_id)));
+
+    if (existing) {
+      await db
+        .update(settings)
+        .set({ value: config, updated_at: new Date() })
+        .where(eq(settings.id, existing.id));
+    } else {
+      await db.insert(settings).values({
+        key: LABOR_RULES_SETTING_KEY,
+        value: config,
+        type: 'admin',
+        description: 'Règles de temps de travail par pays, convention collective et contrat',
+      });
+    }
+
+    return config;
+  }
+
+  async getLaborRulesForEmployee(employeeId: number): Promise<LaborRule[]> {
+    const [employee, config] = await Promise.all([
+      this.getEmployee(employeeId),
+      this.getLaborRuleConfig(),
+    ]);
+
+    return resolveLaborRules(config, { contractType: employee?.contract_type });
+  }
+
+  async getOvertimePolicyForEmployee(employeeId: number): Promise<OvertimePolicy> {
+    const [employee, config] = await Promise.all([
+      this.getEmployee(employeeId),
+      this.getLaborRuleConfig(),
+    ]);
+
+    return resolveOvertimePolicy(config, { contractType: employee?.contract_type });
+  }
+
+  // Contingent de l'année civile, d'après les semaines validées
+  async getOvertimeContingent(employeeId: number, year: number): Promise<OvertimeContingent> {
+    const [policy, weeks] = await Promise.all([
+      this.getOvertimePolicyForEmployee(employeeId),
+      db
+        .select({ overtimeHours: validations.overtime_hours, compensation: validations.overtime_compensation })
+        .from(validations)
+        .where(and(
+          eq(validations.employee_id, employeeId),
+          eq(validations.status, 'validated'),
+          gte(validations.week_start_date, `${year}-01-01`),
+          lte(validations.week_start_date, `${year}-12-31`)
+        )),
+    ]);
+
+    return computeOvertimeContingent(
+      weeks.map(week => ({ overtimeHours: parseFloat(week.overtimeHours || '0'), compensation: week.compensation ?? 'pay' })),
+      policy.annual_contingent_hours
+    );
+  }
+
+  // ========================================
+  // ROLLING WORKING TIME
+  // ========================================
+
+  // Weekly hours per employee (actual time entries when present, planned hours otherwise)
+  // and their rolling average over `weeks`, computed in a single windowed query.
+  // Only weeks above minAverageHours or the contractual weekly hours are returned.
+  async getRollingWeeklyHours(params: {
+    startDate: string;
+    endDate: string;
+    weeks: number;
+    employeeId?: number;
+    minAverageHours?: number | null;
+  }): Promise<RollingWeeklyHours[]> {
+    const { startDate, endDate, employeeId, minAverageHours = null } = params;
+    const weeks = Math.max(1, Math.floor(params.weeks));
+    const precedingDays = sql.raw(`'${(weeks - 1) * 7} days'`);
+    const employeeFilter = (column: string) =>
+      employeeId ? sql`AND ${sql.raw(column)} = ${employeeId}` : sql``;
+
+    const result = await db.execute(sql`
+      WITH bounds AS (
+        SELECT date_trunc('week', ${startDate}::date)::date AS first_week,
+               date_trunc('week', ${endDate}::date)::date AS last_week
+      ),
+      planned AS (
+        SELECT pe.employee_id,
+               date_trunc('week', pe.date)::date AS week_start,
+               SUM(EXTRACT(EPOCH FROM (pe.end_time - pe.start_time)) / 3600
+                   + CASE WHEN pe.end_time <= pe.start_time THEN 24 ELSE 0 END) AS hours
+        FROM planning_entries pe, bounds b
+        WHERE pe.type = 'work'
+          AND pe.start_time IS NOT NULL AND pe.end_time IS NOT NULL
+          AND pe.date BETWEEN b.first_week - INTERVAL ${precedingDays} AND b.last_week + 6
+          ${employeeFilter('pe.employee_id')}
+        GROUP BY 1, 2
+      ),
+      actual AS (
+        SELECT te.employee_id,
+               date_trunc('week', te.date)::date AS week_start,
+               SUM(EXTRACT(EPOCH FROM (te.end_time - te.start_time)) / 3600
+                   + CASE WHEN te.end_time <= te.start_time THEN 24 ELSE 0 END
+                   - COALESCE(te.break_duration, 0) / 60.0) AS hours
+        FROM time_entries te, bounds b
+        WHERE te.type <> 'break'
+          AND te.end_time IS NOT NULL
+          AND te.date BETWEEN b.first_week - INTERVAL ${precedingDays} AND b.last_week + 6
+          ${employeeFilter('te.employee_id')}
+        GROUP BY 1, 2
+      ),
+      weekly AS (
+        SELECT COALESCE(a.employee_id, p.employee_id) AS employee_id,
+               COALESCE(a.week_start, p.week_start) AS week_start,
+               COALESCE(a.hours, p.hours) AS hours
+        FROM planned p
+        FULL OUTER JOIN actual a ON a.employee_id = p.employee_id AND a.week_start = p.week_start
+      ),
+      filled AS (
+        SELECT employee_id, week_start, hours FROM weekly
+        UNION ALL
+        SELECT DISTINCT w.employee_id, gs::date, 0
+        FROM weekly w, bounds b, generate_series(b.first_week, b.last_week, INTERVAL '1 week') gs
+      ),
+      rolling AS (
+        SELECT employee_id,
+               week_start,
+               SUM(hours) AS weekly_hours,
+               SUM(SUM(hours)) OVER (
+                 PARTITION BY employee_id ORDER BY week_start
+                 RANGE BETWEEN INTERVAL ${precedingDays} PRECEDING AND CURRENT ROW
+               ) AS window_hours
+        FROM filled
+        GROUP BY employee_id, week_start
+      )
+      SELECT r.employee_id,
+             to_char(r.week_start, 'YYYY-MM-DD') AS week_start,
+             r.weekly_hours::float8 AS weekly_hours,
+             r.window_hours::float8 AS window_hours,
+             to_char(e.hire_date, 'YYYY-MM-DD') AS hire_date,
+             COALESCE(e.weekly_hours, 35)::float8 AS contract_hours,
+             e.contract_type
+      FROM rolling r
+      JOIN employees e ON e.id = r.employee_id
+      CROSS JOIN bounds b
+      WHERE r.week_start BETWEEN b.first_week AND b.last_week
+        AND e.is_active = true
+        AND r.window_hours > LEAST(${minAverageHours}::float8, COALESCE(e.weekly_hours, 35))
+      ORDER BY r.employee_id, r.week_start
+    `);
+
+    // La moyenne porte sur les semaines depuis l'embauche ; le filtre SQL, sur
+    // une seule semaine, ne retient que des candidats
+    return (result.rows as any[]).flatMap(row => {
+      const contractHours = Number(row.contract_hours);
+      const averageWeeks = getAverageWindowWeeks(row.week_start, row.hire_date, weeks);
+      const averageHours = Number(row.window_hours) / averageWeeks;
+      if (averageHours <= Math.min(minAverageHours ?? contractHours, contractHours)) return [];
+
+      return [{
+        employeeId: Number(row.employee_id),
+        weekStart: row.week_start,
+        weeklyHours: Number(row.weekly_hours),
+        averageHours,
+        averageWeeks,
+        contractHours,
+        contractType: row.contract_type,
+      }];
+    });
+  }
+
+  // ========================================
+  // PLANNING TEMPLATES
+  // ========================================
+
+  private async getPlanningTemplatesByIds(ids?: number[]): Promise<PlanningTemplateWithDetails[]> {
+    if (ids && ids.length === 0) return [];
+
+    const templates = await db
+      .select()
+      .from(planningTemplates)
+      .where(ids ? inArray(planningTemplates.id, ids) : undefined)
+      .orderBy(asc(planningTemplates.name));
+    if (templates.length === 0) return [];
+
+    const templateIds = templates.map(template => template.id);
+    const [shifts, assignments] = await Promise.all([
+      db
+        .select()
+        .from(planningTemplateShifts)
+        .where(inArray(planningTemplateShifts.template_id, templateIds))
+        .orderBy(
+          asc(planningTemplateShifts.week_index),
+          asc(planningTemplateShifts.day_of_week),
+          asc(planningTemplateShifts.start_time)
+        ),
+      db
+        .select()
+        .from(planningTemplateAssignments)
+        .where(inArray(planningTemplateAssignments.template_id, templateIds))
+        .orderBy(asc(planningTemplateAssignments.start_date)),
+    ]);
+
+    return templates.map(template => ({
+      ...template,
+      shifts: shifts.filter(shift => shift.template_id === template.id),
+      assignments: assignments.filter(assignment => assignment.template_id === template.id),
+    }));
+  }
+
+  async getPlanningTemplates(): Promise<PlanningTemplateWithDetails[]> {
+    return this.getPlanningTemplatesByIds();
+  }
+
+  async getPlanningTemplate(id: number): Promise<PlanningTemplateWithDetails | undefined> {
+    const [template] = await this.getPlanningTemplatesByIds([id]);
+    return template;
+  }
+
+  async createPlanningTemplate(template: CreatePlanningTemplate, createdBy: number | null): Promise<PlanningTemplateWithDetails> {
+    const { shifts, ...data } = template;
+
+    const id = await db.transaction(async (tx) => {
+      const [created] = await tx
+        .insert(planningTemplates)
+        .values({ ...data, created_by: createdBy })
+        .returning();
+
+      await tx
+        .insert(planningTemplateShifts)
+        .values(shifts.map(shift => ({ ...shift, template_id: created.id })));
+
+      return created.id;
+    });
+
+    return (await this.getPlanningTemplate(id))!;
+  }
+
+  // Les créneaux du modèle sont remplacés en bloc
+  async updatePlanningTemplate(id: number, template: CreatePlanningTemplate): Promise<PlanningTemplateWithDetails | undefined> {
+    const { shifts, ...data } = template;
+
+    const updated = await db.transaction(async (tx) => {
+      const [existing] = await tx
+        .update(planningTemplates)
+        .set({ ...data, updated_at: new Date() })
+        .where(eq(planningTemplates.id, id))
+        .returning();
+
+      if (!existing) return false;
+
+      await tx.delete(planningTemplateShifts).where(eq(planningTemplateShifts.template_id, id));
+      await tx
+        .insert(planningTemplateShifts)
+        .values(shifts.map(shift => ({ ...shift, template_id: id })));
+
+      return true;
+    });
+
+    return updated ? this.getPlanningTemplate(id) : undefined;
+  }
+
+  async deletePlanningTemplate(id: number): Promise<boolean> {
+    const result = await db
+      .delete(planningTemplates)
+      .where(eq(planningTemplates.id, id));
+    return (result.rowCount || 0) > 0;
+  }
+
+  async createPlanningTemplateAssignment(templateId: number, assignment: AssignPlanningTemplate): Promise<PlanningTemplateAssignment> {
+    const [created] = await db
+      .insert(planningTemplateAssignments)
+      .values({
+        template_id: templateId,
+        employee_id: assignment.employee_id ?? null,
+        department_id: assignment.department_id ?? null,
+        start_date: assignment.start_date,
+        end_date: assignment.end_date ?? null,
+        cycle_offset: assignment.cycle_offset,
+      })
+      .returning();
+    return created;
+  }
+
+  async deletePlanningTemplateAssignment(templateId: number, assignmentId: number): Promise<boolean> {
+    const result = await db
+      .delete(planningTemplateAssignments)
+      .where(
+        and(
+          eq(planningTemplateAssignments.id, assignmentId),
+          eq(planningTemplateAssignments.template_id, templateId)
+        )
+      );
+    return (result.rowCount || 0) > 0;
+  }
+
+  // ========================================
+  // COVERAGE REQUIREMENTS & AUTO-SCHEDULING
+  // ========================================
+
+  async getCoverageRequirements(filters: { departmentId?: number; activeOnly?: boolean } = {}): Promise<CoverageRequirement[]> {
+    const conditions = [];
+    if (filters.departmentId) conditions.push(eq(coverageRequirements.department_id, filters.departmentId));
+    if (filters.activeOnly) conditions.push(eq(coverageRequirements.is_active, true));
+
+    return await db
+      .select()
+      .from(coverageRequirements)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(asc(coverageRequirements.start_time), asc(coverageRequirements.id));
+  }
+
+  async getCoverageRequirement(id: number): Promise<CoverageRequirement | undefined> {
+    const [requirement] = await db
+      .select()
+      .from(coverageRequirements)
+      .where(eq(coverageRequirements.id, id));
+    return requirement || undefined;
+  }
+
+  async createCoverageRequirement(requirement: CreateCoverageRequirement, createdBy: number | null): Promise<CoverageRequirement> {
+    const [created] = await db
+      .insert(coverageRequirements)
+      .values({ ...requirement, created_by: createdBy })
+      .returning();
+    return created;
+  }
+
+  async updateCoverageRequirement(id: number, requirement: CreateCoverageRequirement): Promise<CoverageRequirement | undefined> {
+    const [updated] = await db
+      .update(coverageRequirements)
+      .set({ ...requirement, updated_at: new Date() })
+      .where(eq(coverageRequirements.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  async deleteCoverageRequirement(id: number): Promise<boolean> {
+    const result = await db
+      .delete(coverageRequirements)
+      .where(eq(coverageRequirements.id, id));
+    return (result.rowCount || 0) > 0;
+  }
+
+  // Propose (et enregistre en brouillon si demandé) une affectation couvrant les besoins
+  async autoSchedulePlanning(params: {
+    startDate: string;
+    endDate: string;
+    departmentId?: number;
+    requirementIds?: number[];
+    persist?: boolean;
+  }): Promise<StaffingScheduleResult & { createdEntries: PlanningEntry[] }> {
+    const { startDate, endDate, departmentId, requirementIds, persist = false } = params;
+
+    const requirements = (await this.getCoverageRequirements({ departmentId, activeOnly: true }))
+      .filter(requirement => !requirementIds || requirementIds.includes(requirement.id))
+      .map(requirement => ({
+        ...requirement,
+        start_time: requirement.start_time.slice(0, 5),
+        end_time: requirement.end_time.slice(0, 5),
+      }));
+
+    if (requirements.length === 0) {
+      return { shifts: [], gaps: [], workload: [], fairnessScore: 1, createdEntries: [] };
+    }
+
+    // Un besoin sans département mobilise tous les employés actifs
+    const departmentIds = Array.from(new Set(requirements.map(requirement => requirement.department_id)));
+    const staff = await db
+      .select()
+      .from(employees)
+      .where(
+        and(
+          eq(employees.is_active, true),
+          departmentIds.includes(null)
+            ? undefined
+            : inArray(employees.department_id, departmentIds.filter((id): id is number => id !== null))
+        )
+      )
+      .orderBy(asc(employees.id));
+
+    if (staff.length === 0) {
+      const empty = buildStaffingSchedule(requirements, [], { startDate, endDate });
+      return { ...empty, createdEntries: [] };
+    }
+
+    const config = await this.getLaborRuleConfig();
+    const rulesByEmployee: Record<number, LaborRule[]> = {};
+    let dataStart = startDate;
+    let dataEnd = endDate;
+    for (const employee of staff) {
+      rulesByEmployee[employee.id] = resolveLaborRules(config, { contractType: employee.contract_type });
+      const range = getLaborRulesDataRange(rulesByEmployee[employee.id], startDate, endDate);
+      if (range.start < dataStart) dataStart = range.start;
+      if (range.end > dataEnd) dataEnd = range.end;
+    }
+
+    const staffIds = staff.map(employee => employee.id);
+    const [entries, leaves] = await Promise.all([
+      db
+        .select({
+          employee_id: planningEntries.employee_id,
+          id: planningEntries.id,
+          date: planningEntries.date,
+          type: planningEntries.type,
+          start_time: planningEntries.start_time,
+          end_time: planningEntries.end_time,
+        })
+        .from(planningEntries)
+        .where(
+          and(
+            inArray(planningEntries.employee_id, staffIds),
+            gte(planningEntries.date, dataStart),
+            lte(planningEntries.date, dataEnd)
+          )
+        ),
+      db
+        .select({
+          employee_id: leaveRequests.employee_id,
+          start_date: leaveRequests.start_date,
+          end_date: leaveRequests.end_date,
+        })
+        .from(leaveRequests)
+        .where(
+          and(
+            inArray(leaveRequests.employee_id, staffIds),
+            eq(leaveRequests.status, 'approved'),
+            lte(leaveRequests.start_date, endDate),
+            gte(leaveRequests.end_date, startDate)
+          )
+        ),
+    ]);
+
+    const schedule = buildStaffingSchedule(
+      requirements,
+      staff.map(employee => {
+        const ownEntries = entries.filter(entry => entry.employee_id === employee.id);
+        const unavailableDates = ownEntries
+          .filter(entry => ['vacation', 'sick_leave', 'unpaid_leave', 'rest_day'].includes(entry.type))
+          .map(entry => entry.date);
+
+        for (const leave of leaves.filter(leave => leave.employee_id === employee.id)) {
+          const current = new Date(`${leave.start_date}T00:00:00Z`);
+          const last = new Date(`${leave.end_date}T00:00:00Z`);
+          while (current <= last) {
+            unavailableDates.push(current.toISOString().split('T')[0]);
+            current.setUTCDate(current.getUTCDate() + 1);
+          }
+        }
+
+        return {
+          id: employee.id,
+          departmentId: employee.department_id,
+          weeklyHours: parseFloat(employee.weekly_hours ?? '35'),
+          rules: rulesByEmployee[employee.id],
+          shifts: ownEntries
+            .filter(entry => entry.type === 'work' && entry.start_time && entry.end_time)
+            .map(entry => ({ id: entry.id, date: entry.date, startTime: entry.start_time!, endTime: entry.end_time! })),
+          unavailableDates,
+        };
+      }),
+      { startDate, endDate }
+    );
+
+    if (!persist || schedule.shifts.length === 0) {
+      return { ...schedule, createdEntries: [] };
+    }
+
+    const requirementNames: Record<number, string> = {};
+    for (const requirement of requirements) {
+      requirementNames[requirement.id] = requirement.name;
+    }
+
+    const createdEntries = await db
+      .insert(planningEntries)
+      .values(schedule.shifts.map(shift => ({
+        employee_id: shift.employeeId,
+        date: shift.date,
+        type: 'work' as const,
+        start_time: shift.startTime,
+        end_time: shift.endTime,
+        status: 'draft' as const,
+        comments: `Couverture : ${requirementNames[shift.requirementId]}`,
+      })))
+      .returning();
+
+    return { ...schedule, createdEntries };
+  }
+
+  // ========================================
+  // WEEKLY VALIDATIONS
+  // ========================================
+
+  async getValidationWeeks(filters: {
+    employeeId?: number;
+    employeeIds?: number[];
+    departmentId?: number;
+    status?: WeeklyValidationStatus;
+    startDate?: string;
+    endDate?: string;
+  } = {}): Promise<ValidationWeek[]> {
+    const conditions = [sql`${timeEntries.status} <> 'draft'`];
+
+    if (filters.employeeId) conditions.push(eq(timeEntries.employee_id, filters.employeeId));
+    if (filters.employeeIds) conditions.push(inArray(timeEntries.employee_id, filters.employeeIds));
+    if (filters.departmentId) conditions.push(eq(employees.department_id, filters.departmentId));
+    if (filters.startDate) conditions.push(gte(timeEntries.date, getWeekBounds(filters.startDate).weekStart));
+    if (filters.endDate) conditions.push(lte(timeEntries.date, getWeekBounds(filters.endDate).weekEnd));
+
+    const entries = await db
+      .select({
+        employeeId: timeEntries.employee_id,
+        date: timeEntries.date,
+        type: timeEntries.type,
+        status: timeEntries.status,
+        startTime: timeEntries.start_time,
+        endTime: timeEntries.end_time,
+        breakDuration: timeEntries.break_duration,
+        geofenceStatus: timeEntries.geofence_status,
+        updatedAt: timeEntries.updated_at,
+        employeeFirstName: employees.first_name,
+        employeeLastName: employees.last_name,
+        departmentId: employees.department_id,
+        departmentName: departments.name,
+      })
+      .from(timeEntries)
+      .innerJoin(employees, eq(timeEntries.employee_id, employees.id))
+      .leftJoin(departments, eq(employees.department_id, departments.id))
+      .where(and(...conditions));
+
+    if (entries.length === 0) {
+      return [];
+    }
+
+    // Regroupement par employé et par semaine (lundi)
+    const groups: Record<string, typeof entries> = {};
+    for (const entry of entries) {
+      const key = `${entry.employeeId}:${getWeekBounds(entry.date).weekStart}`;
+      (groups[key] = groups[key] || []).push(entry);
+    }
+
+    const employeeIds = Array.from(new Set(entries.map(entry => entry.employeeId)));
+    const weekValidations = await db
+      .select()
+      .from(validations)
+      .where(inArray(validations.employee_id, employeeIds));
+
+    const validationsByKey: Record<string, Validation> = {};
+    for (const validation of weekValidations) {
+      validationsByKey[`${validation.employee_id}:${validation.week_start_date}`] = validation;
+    }
+
+    const weekApprovals = weekValidations.length === 0 ? [] : await db
+      .select()
+      .from(approvalRequests)
+      .where(and(
+        eq(approvalRequests.subject_type, 'time_sheet'),
+        inArray(approvalRequests.subject_id, weekValidations.map(validation => validation.id))
+      ));
+
+    const approvalsByValidation: Record<number, ApprovalRequest> = {};
+    for (const approval of weekApprovals) {
+      approvalsByValidation[approval.subject_id] = approval;
+    }
+
+    const weeks: ValidationWeek[] = Object.entries(groups).map(([key, weekEntries]) => {
+      const [first] = weekEntries;
+      const { weekStart, weekEnd } = getWeekBounds(first.date);
+      const validation = validationsByKey[key];
+      const approval = validation ? approvalsByValidation[validation.id] : undefined;
+      const submittedAt = weekEntries.reduce<Date | null>(
+        (latest, entry) => (!latest || entry.updatedAt > latest ? entry.updatedAt : latest),
+        null
+      );
+
+      return {
+        ...summarizeValidationWeek(weekEntries),
+        employeeId: first.employeeId,
+        employeeName: `${first.employeeFirstName} ${first.employeeLastName}`,
+        departmentId: first.departmentId,
+        departmentName: first.departmentName,
+        weekStart,
+        weekEnd,
+        submittedAt,
+        validationId: validation?.id ?? null,
+        validatedBy: validation?.validated_by ?? null,
+        validatedAt: validation?.validated_at ?? null,
+        comments: validation?.comments ?? null,
+        rejectionReason: validation?.rejection_reason ?? null,
+        approvalStatus: approval?.status ?? null,
+        approvalStep: approval?.current_step ?? null,
+        approverId: approval?.current_approver_id ?? null,
+        lockedAt: approval?.locked_at ?? null,
+      };
+    });
+
+    // "pending" = semaines ayant encore des entrées à traiter, y compris partiellement validées
+    return weeks
+      .filter(week => !filters.status ||
+        (filters.status === 'pending' ? week.pendingCount > 0 : week.status === filters.status))
+      .sort((a, b) => b.weekStart.localeCompare(a.weekStart) || a.employeeName.localeCompare(b.employeeName));
+  }
+
+  async getValidationWeekDetails(employeeId: number, weekStart: string): Promise<{
+    week: ValidationWeek | null;
+    timeEntries: TimeEntry[];
+    planningEntries: PlanningEntry[];
+  }> {
+    const { weekEnd } = getWeekBounds(weekStart);
+
+    const [[week], weekTimeEntries, weekPlanningEntries] = await Promise.all([
+      this.getValidationWeeks({ employeeId, startDate: weekStart, endDate: weekEnd }),
+      db
+        .select()
+        .from(timeEntries)
+        .where(and(eq(timeEntries.employee_id, employeeId), gte(timeEntries.date, weekStart), lte(timeEntries.date, weekEnd)))
+        .orderBy(asc(timeEntries.date), asc(timeEntries.start_time)),
+      db
+        .select()
+        .from(planningEntries)
+        .where(and(eq(planningEntries.employee_id, employeeId), gte(planningEntries.date, weekStart), lte(planningEntries.date, weekEnd)))
+        .orderBy(asc(planningEntries.date), asc(planningEntries.start_time)),
+    ]);
+
+    return { week: week ?? null, timeEntries: weekTimeEntries, planningEntries: weekPlanningEntries };
+  }
+
+  async getValidationStats(filters: { employeeIds?: number[]; departmentId?: number } = {}): Promise<{
+    pendingWeeks: number;
+    pendingHours: number;
+    validatedThisMonth: number;
+    activeEmployees: number;
+  }> {
+    const monthStart = new Date().toISOString().slice(0, 7) + '-01';
+    const scopeConditions = [];
+    if (filters.employeeIds) scopeConditions.push(inArray(employees.id, filters.employeeIds));
+    if (filters.departmentId) scopeConditions.push(eq(employees.department_id, filters.departmentId));
+
+    const [pendingWeeks, [validatedCount], [employeesCount]] = await Promise.all([
+      this.getValidationWeeks({ ...filters, status: 'pending' }),
+      db
+        .select({ count: count() })
+        .from(validations)
+        .innerJoin(employees, eq(validations.employee_id, employees.id))
+        .where(and(
+          eq(validations.status, 'validated'),
+          gte(validations.validated_at, new Date(`${monthStart}T00:00:00`)),
+          ...scopeConditions
+        )),
+      db
+        .select({ count: count() })
+        .from(employees)
+        .where(and(eq(employees.is_active, true), ...scopeConditions)),
+    ]);
+
+    return {
+      pendingWeeks: pendingWeeks.length,
+      pendingHours: Math.round(pendingWeeks.reduce((sum, week) => sum + week.totalHours, 0) * 100) / 100,
+      validatedThisMonth: validatedCount.count,
+      activeEmployees: employeesCount.count,
+    };
+  }
+
+  async decideValidationWeek(params: {
+    employeeId: number;
+    weekStart: string;
+    action: 'approve' | 'reject';
+    validatorId: number | null;
+    timeEntryIds?: number[];
+    planningEntryIds?: number[];
+    comments?: string;
+    rejectionReason?: string;
+    overtimeCompensation?: OvertimeCompensation;
+    approval?: WeekApprovalStep;
+  }): Promise<{ validation: Validation; timeEntries: TimeEntry[]; planningEntries: PlanningEntry[]; approval?: ApprovalRequest } | { error: ValidationDecisionError }> {
+    const { employeeId, weekStart, action, validatorId } = params;
+    const [employee, policy] = await Promise.all([
+      this.getEmployee(employeeId),
+      this.getOvertimePolicyForEmployee(employeeId),
+    ]);
+    const { weekEnd } = getWeekBounds(weekStart);
+    const status = action === 'approve' ? 'validated' as const : 'rejected' as const;
+    const decidedAt = new Date();
+    // Sans liste d'entrées, la décision porte sur toute la semaine
+    const wholeWeek = !params.timeEntryIds && !params.planningEntryIds;
+    const timeEntryIds = wholeWeek ? undefined : params.timeEntryIds ?? [];
+    const planningEntryIds = wholeWeek ? undefined : params.planningEntryIds ?? [];
+
+    let error: ValidationDecisionError = 'NO_PENDING_ENTRIES';
+    try {
+      return await db.transaction(async (tx) => {
+        const updatedTimeEntries = timeEntryIds?.length === 0 ? [] : await tx
+          .update(timeEntries)
+          .set({ status, validated_by: validatorId, validated_at: decidedAt, version: sql`${timeEntries.version} + 1`, updated_at: decidedAt })
+          .where(and(
+            eq(timeEntries.employee_id, employeeId),
+            gte(timeEntries.date, weekStart),
+            lte(timeEntries.date, weekEnd),
+            eq(timeEntries.status, 'submitted'),
+            timeEntryIds ? inArray(timeEntries.id, timeEntryIds) : undefined
+          ))
+          .returning();
+
+        // Le planning n'a pas d'étape de soumission : les brouillons sont aussi concernés
+        const updatedPlanningEntries = planningEntryIds?.length === 0 ? [] : await tx
+          .update(planningEntries)
+          .set({ status, validated_by: validatorId, validated_at: decidedAt, version: sql`${planningEntries.version} + 1`, updated_at: decidedAt })
+          .where(and(
+            eq(planningEntries.employee_id, employeeId),
+            gte(planningEntries.date, weekStart),
+            lte(planningEntries.date, weekEnd),
+            inArray(planningEntries.status, ['draft', 'submitted']),
+            planningEntryIds ? inArray(planningEntries.id, planningEntryIds) : undefined
+          ))
+          .returning();
+
+        if (updatedTimeEntries.length === 0 && updatedPlanningEntries.length === 0) {
+          tx.rollback();
+        }
+
+        const weekEntries = await tx
+          .select({
+            type: timeEntries.type,
+            status: timeEntries.status,
+            startTime: timeEntries.start_time,
+            endTime: timeEntries.end_time,
+            breakDuration: timeEntries.break_duration,
+          })
+          .from(timeEntries)
+          .where(and(eq(timeEntries.employee_id, employeeId), gte(timeEntries.date, weekStart), lte(timeEntries.date, weekEnd)));
+
+        const summary = summarizeValidationWeek(weekEntries);
+        const overtime = computeWeeklyOvertime(summary.totalHours, policy);
+        const hasDecidedEntries = summary.pendingCount + summary.validatedCount + summary.rejectedCount > 0;
+
+        const [existing] = await tx
+          .select()
+          .from(validations)
+          .where(and(eq(validations.employee_id, employeeId), eq(validations.week_start_date, weekStart)))
+          .for('update');
+
+        const compensation = params.overtimeCompensation ?? existing?.overtime_compensation ?? policy.compensation;
+        const validationData = {
+          status: hasDecidedEntries ? summary.status : status,
+          validated_by: validatorId,
+          validated_at: decidedAt,
+          comments: params.comments,
+          rejection_reason: action === 'reject' ? params.rejectionReason : undefined,
+          total_hours: summary.totalHours.toFixed(2),
+          overtime_hours: overtime.overtimeHours.toFixed(2),
+          overtime_breakdown: overtime.tiers,
+          overtime_compensation: compensation,
+          updated_at: decidedAt,
+        };
+
+        const [validation] = existing
+          ? await tx.update(validations).set(validationData).where(eq(validations.id, existing.id)).returning()
+          : await tx.insert(validations).values({ ...validationData, employee_id: employeeId, week_start_date: weekStart }).returning();
+
+        // Repos compensateur de remplacement crédité une seule fois, quand la semaine devient validée
+        const restHours = getCompensatoryRestHours(overtime.tiers);
+        if (compensation === 'rest' && restHours > 0 && validation.status === 'validated' && existing?.status !== 'validated') {
+          await tx.insert(leaveBalanceMovements).values({
+            employee_id: employeeId,
+            leave_type: 'repos_compensateur',
+            movement_type: 'accrual',
+            days: convertRestHoursToDays(restHours, parseFloat(employee?.weekly_hours || '35')).toFixed(2),
+            period_start: getReferencePeriod(weekEnd).start,
+            effective_date: weekEnd,
+            description: `Heures supplémentaires de la semaine du ${weekStart} (${restHours}h de repos)`,
+          }).onConflictDoNothing();
+        }
+
+        // Le circuit se clôt sur un refus, ou quand toute la semaine est validée ;
+        // une étape déjà traitée annule toute la décision
+        let approval: ApprovalRequest | undefined;
+        if (params.approval && (action === 'reject' || validation.status === 'validated')) {
+          approval = await this.applyApprovalDecision(tx, params.approval.requestId, {
+            stepOrder: params.approval.stepOrder,
+            actorId: validatorId,
+            action: action === 'approve' ? 'approved' : 'rejected',
+            comment: action === 'approve' ? params.comments : params.rejectionReason,
+          });
+          if (!approval) {
+            error = 'APPROVAL_STEP_STALE';
+            tx.rollback();
+          }
+        }
+
+        return { validation, timeEntries: updatedTimeEntries, planningEntries: updatedPlanningEntries, approval };
+      });
+    } catch (rollback) {
+      if (rollback instanceof TransactionRollbackError) return { error };
+      throw rollback;
+    }
+  }
+
+  // Ligne de suivi de la semaine, support du circuit de validation
+  async ensureWeekValidation(employeeId: number, weekStart: string): Promise<Validation> {
+    const existing = await this.getValidationByEmployeeAndWeek(employeeId, weekStart);
+    if (existing) return existing;
+
+    return await this.createValidation({ employee_id: employeeId, week_start_date: weekStart, status: 'pending' });
+  }
+
+  // ========================================
+  // APPROVAL CHAINS
+  // ========================================
+
+  private async getApprovalChainsByIds(ids?: number[]): Promise<ApprovalChainWithSteps[]> {
+    if (ids && ids.length === 0) return [];
+
+    const chains = await db
+      .select()
+      .from(approvalChains)
+      .where(ids ? inArray(approvalChains.id, ids) : undefined)
+      .orderBy(asc(approvalChains.subject_type), asc(approvalChains.name));
+    if (chains.length === 0) return [];
+
+    const steps = await db
+      .select()
+      .from(approvalChainSteps)
+      .where(inArray(approvalChainSteps.chain_id, chains.map(chain => chain.id)))
+      .orderBy(asc(approvalChainSteps.step_order));
+
+    return chains.map(chain => ({
+      ...chain,
+      steps: steps.filter(step => step.chain_id === chain.id),
+    }));
+  }
+
+  async getApprovalChains(): Promise<ApprovalChainWithSteps[]> {
+    return this.getApprovalChainsByIds();
+  }
+
+  async getApprovalChain(id: number): Promise<ApprovalChainWithSteps | undefined> {
+    const [chain] = await this.getApprovalChainsByIds([id]);
+    return chain;
+  }
+
+  async createApprovalChain(chain: CreateApprovalChain): Promise<ApprovalChainWithSteps> {
+    const { steps, ...data } = chain;
+
+    const id = await db.transaction(async (tx) => {
+      const [created] = await tx
+        .insert(approvalChains)
+        .values(data)
+        .returning();
+
+      await tx
+        .insert(approvalChainSteps)
+        .values(steps.map((step, index) => ({ ...step, chain_id: created.id, step_order: index + 1 })));
+
+      return created.id;
+    });
+
+    return (await this.getApprovalChain(id))!;
+  }
+
+  // Les étapes sont remplacées en bloc ; les demandes en cours gardent leur étape courante
+  async updateApprovalChain(id: number, chain: CreateApprovalChain): Promise<ApprovalChainWithSteps | undefined> {
+    const { steps, ...data } = chain;
+
+    const updated = await db.transaction(async (tx) => {
+      const [existing] = await tx
+        .update(approvalChains)
+        .set({ ...data, updated_at: new Date() })
+        .where(eq(approvalChains.id, id))
+        .returning();
+
+      if (!existing) return false;
+
+      await tx.delete(approvalChainSteps).where(eq(approvalChainSteps.chain_id, id));
+      await tx
+        .insert(approvalChainSteps)
+        .values(steps.map((step, index) => ({ ...step, chain_id: id, step_order: index + 1 })));
+
+      return true;
+    });
+
+    return updated ? this.getApprovalChain(id) : undefined;
+  }
+
+  async deleteApprovalChain(id: number): Promise<boolean> {
+    const result = await db
+      .delete(approvalChains)
+      .where(eq(approvalChains.id, id));
+    return (result.rowCount || 0) > 0;
+  }
+
+  async getApprovalDelegations(filters: { delegatorId?: number; activeOn?: string } = {}): Promise<ApprovalDelegation[]> {
+    const conditions = [];
+    if (filters.delegatorId) conditions.push(eq(approvalDelegations.delegator_id, filters.delegatorId));
+    if (filters.activeOn) {
+      conditions.push(lte(approvalDelegations.start_date, filters.activeOn));
+      conditions.push(gte(approvalDelegations.end_date, filters.activeOn));
+    }
+
+    return await db
+      .select()
+      .from(approvalDelegations)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(approvalDelegations.start_date));
+  }
+
+  async getApprovalDelegation(id: number): Promise<ApprovalDelegation | undefined> {
+    const [delegation] = await db.select().from(approvalDelegations).where(eq(approvalDelegations.id, id));
+    return delegation || undefined;
+  }
+
+  async createApprovalDelegation(delegation: CreateApprovalDelegation & { delegator_id: number }): Promise<ApprovalDelegation> {
+    const [created] = await db
+      .insert(approvalDelegations)
+      .values(delegation)
+      .returning();
+    return created;
+  }
+
+  async deleteApprovalDelegation(id: number): Promise<boolean> {
+    const result = await db
+      .delete(approvalDelegations)
+      .where(eq(approvalDelegations.id, id));
+    return (result.rowCount || 0) > 0;
+  }
+
+  // Étapes du circuit d'une demande (circuit par défaut s'il a été supprimé)
+  private async getApprovalStepConfigs(chainId: number | null): Promise<ApprovalStepConfig[]> {
+    if (chainId === null) return DEFAULT_APPROVAL_STEPS;
+
+    const steps = await db
+      .select()
+      .from(approvalChainSteps)
+      .where(eq(approvalChainSteps.chain_id, chainId))
+      .orderBy(asc(approvalChainSteps.step_order));
+    return steps.length > 0 ? steps : DEFAULT_APPROVAL_STEPS;
+  }
+
+  async getApprovalRequest(subjectType: ApprovalSubjectType, subjectId: number): Promise<ApprovalRequestWithSteps | undefined> {
+    const [request] = await db
+      .select()
+      .from(approvalRequests)
+      .where(and(eq(approvalRequests.subject_type, subjectType), eq(approvalRequests.subject_id, subjectId)));
+    if (!request) return undefined;
+
+    const [steps, stepConfigs] = await Promise.all([
+      db
+        .select()
+        .from(approvalSteps)
+        .where(eq(approvalSteps.request_id, request.id))
+        .orderBy(asc(approvalSteps.acted_at)),
+      this.getApprovalStepConfigs(request.chain_id),
+    ]);
+
+    return { ...request, steps, is_final_step: isFinalApprovalStep(stepConfigs, request.current_step) };
+  }
+
+  // Première étape du circuit d'un employé : celui de son département, à défaut
+  // le circuit par défaut
+  private async getFirstApprovalStep(subjectType: ApprovalSubjectType, employeeId: number) {
+    const employee = await this.getEmployee(employeeId);
+    const chains = await db
+      .select()
+      .from(approvalChains)
+      .where(and(eq(approvalChains.subject_type, subjectType), eq(approvalChains.is_active, true)));
+
+    const chain = chains.find(candidate => candidate.department_id !== null && candidate.department_id === employee?.department_id)
+      ?? chains.find(candidate => candidate.department_id === null);
+    const [firstStep] = await this.getApprovalStepConfigs(chain?.id ?? null);
+
+    return {
+      chainId: chain?.id ?? null,
+      stepOrder: firstStep.step_order,
+      approverId: employee ? resolveStepApprover(firstStep, employee) : null,
+    };
+  }
+
+  // Approbateur auquel une demande serait confiée, sans rien écrire
+  async getFirstApproverId(subjectType: ApprovalSubjectType, employeeId: number): Promise<number | null> {
+    return (await this.getFirstApprovalStep(subjectType, employeeId)).approverId;
+  }
+
+  // Démarre (ou relance après un refus) le circuit d'une demande. Deux appels
+  // simultanés aboutissent au même circuit : l'index unique sur les demandes en
+  // attente écarte la seconde insertion, la relance ne touche qu'un circuit clos.
+  async startApprovalRequest(
+    subjectType: ApprovalSubjectType,
+    subjectId: number,
+    employeeId: number
+  ): Promise<ApprovalRequestWithSteps> {
+    const existing = await this.getApprovalRequest(subjectType, subjectId);
+    if (existing?.status === 'pending') {
+      return existing;
+    }
+
+    const firstStep = await this.getFirstApprovalStep(subjectType, employeeId);
+    const values = {
+      chain_id: firstStep.chainId,
+      current_step: firstStep.stepOrder,
+      current_approver_id: firstStep.approverId,
+      status: 'pending' as const,
+      assigned_at: new Date(),
+      locked_at: null,
+      updated_at: new Date(),
+    };
+
+    if (existing) {
+      await db
+        .update(approvalRequests)
+        .set(values)
+        .where(and(eq(approvalRequests.id, existing.id), eq(approvalRequests.status, existing.status)));
+    } else {
+      await db
+        .insert(approvalRequests)
+        .values({ ...values, subject_type: subjectType, subject_id: subjectId, employee_id: employeeId })
+        .onConflictDoNothing();
+    }
+
+    return (await this.getApprovalRequest(subjectType, subjectId))!;
+  }
+
+  // Enregistre la décision de l'étape courante et fait avancer le circuit.
+  // undefined si la demande n'est plus à cette étape (décision concurrente).
+  async recordApprovalDecision(requestId: number, decision: ApprovalDecision): Promise<ApprovalRequest | undefined> {
+    return await db.transaction(tx => this.applyApprovalDecision(tx, requestId, decision));
+  }
+
+  private async applyApprovalDecision(
+    tx: DbTransaction,
+    requestId: number,
+    decision: ApprovalDecision
+  ): Promise<ApprovalRequest | undefined> {
+    const [request] = await tx
+      .select()
+      .from(approvalRequests)
+      .where(and(
+        eq(approvalRequests.id, requestId),
+        eq(approvalRequests.status, 'pending'),
+        eq(approvalRequests.current_step, decision.stepOrder)
+      ))
+      .for('update');
+
+    if (!request) {
+      return undefined;
+    }
+
+    await tx.insert(approvalSteps).values({
+      request_id: request.id,
+      step_order: request.current_step,
+      approver_id: request.current_approver_id,
+      acted_by: decision.actorId,
+      action: decision.action,
+      comment: decision.comment,
+    });
+
+    const transition = getApprovalTransition(
+      await this.getApprovalStepConfigs(request.chain_id),
+      request.current_step,
+      decision.action
+    );
+    const [employee] = await tx.select().from(employees).where(eq(employees.id, request.employee_id));
+
+    const [updated] = await tx
+      .update(approvalRequests)
+      .set(transition.step
+        ? {
+            current_step: transition.step.step_order,
+            current_approver_id: employee ? resolveStepApprover(transition.step, employee) : null,
+            assigned_at: new Date(),
+            updated_at: new Date(),
+          }
+        : {
+            status: transition.status,
+            locked_at: transition.status === 'approved' ? new Date() : null,
+            updated_at: new Date(),
+          })
+      .where(eq(approvalRequests.id, request.id))
+      .returning();
+
+    return updated;
+  }
+
+  // Demandes en attente que l'employé peut traiter (directement ou par délégation)
+  async getApprovalInbox(actorId: number, date: string): Promise<any[]> {
+    const [pending, delegations] = await Promise.all([
+      db
+        .select({
+          ...getTableColumns(approvalRequests),
+          employee_first_name: employees.first_name,
+          employee_last_name: employees.last_name,
+        })
+        .from(approvalRequests)
+        .innerJoin(employees, eq(approvalRequests.employee_id, employees.id))
+        .where(and(eq(approvalRequests.status, 'pending'), isNotNull(approvalRequests.current_approver_id)))
+        .orderBy(asc(approvalRequests.assigned_at)),
+      this.getApprovalDelegations({ activeOn: date }),
+    ]);
+
+    return pending.filter(request => canActOnApproval(actorId, request.current_approver_id, delegations, date));
+  }
+
+  // Escalade au manager de l'approbateur des étapes restées sans action au-delà du délai
+  async escalateOverdueApprovals(now: Date = new Date()): Promise<ApprovalRequest[]> {
+    const pending = await db
+      .select({
+        request: approvalRequests,
+        chainEscalationDays: approvalChains.escalation_days,
+      })
+      .from(approvalRequests)
+      .leftJoin(approvalChains, eq(approvalRequests.chain_id, approvalChains.id))
+      .where(and(eq(approvalRequests.status, 'pending'), isNotNull(approvalRequests.current_approver_id)));
+    if (pending.length === 0) return [];
+
+    const approvers = await db
+      .select({ id: employees.id, managerId: employees.manager_id })
+      .from(employees)
+      .where(inArray(employees.id, pending.map(({ request }) => request.current_approver_id!)));
+
+    const managers: Record<number, number | null> = {};
+    for (const approver of approvers) {
+      managers[approver.id] = approver.managerId;
+    }
+
+    const escalated: ApprovalRequest[] = [];
+    for (const { request, chainEscalationDays } of pending) {
+      const step = getApprovalStep(await this.getApprovalStepConfigs(request.chain_id), request.current_step);
+      if (!isApprovalOverdue(request.assigned_at, getEscalationDays(step, chainEscalationDays), now)) continue;
+
+      const [updated] = await db.transaction(async (tx) => {
+        await tx.insert(approvalSteps).values({
+          request_id: request.id,
+          step_order: request.current_step,
+          approver_id: request.current_approver_id,
+          acted_by: null,
+          action: 'escalated',
+          acted_at: now,
+        });
+
+        return await tx
+          .update(approvalRequests)
+          .set({
+            current_approver_id: getEscalationTarget(request.current_approver_id, managers),
+            assigned_at: now,
+            updated_at: now,
+          })
+          .where(and(eq(approvalRequests.id, request.id), eq(approvalRequests.status, 'pending')))
+          .returning();
+      });
+
+      if (updated) escalated.push(updated);
+    }
+
+    return escalated;
+  }
+
+  // ========================================
+  // PAY PERIOD CLOSURES
+  // ========================================
+
+  async getPayPeriodClosedThrough(): Promise<string | null> {
+    const [latest] = await db
+      .select({ closedThrough: payPeriodClosures.closed_through })
+      .from(payPeriodClosures)
+      .orderBy(desc(payPeriodClosures.closed_through))
+      .limit(1);
+
+    return latest?.closedThrough ?? null;
+  }
+
+  async getPayPeriodClosures(): Promise<PayPeriodClosure[]> {
+    return await db
+      .select()
+      .from(payPeriodClosures)
+      .orderBy(desc(payPeriodClosures.closed_through));
+  }
+
+  async closePayPeriod(closedThrough: string, closedBy: number, comment?: string): Promise<PayPeriodClosure> {
+    const [closure] = await db
+      .insert(payPeriodClosures)
+      .values({ closed_through: closedThrough, closed_by: closedBy, comment })
+      .returning();
+    return closure;
+  }
+
+  // Dates of existing time or planning entries (used to enforce the closure on updates)
+  async getEntryDates(subjectType: TimeAdjustmentSubjectType, ids: number[]): Promise<string[]> {
+    if (ids.length === 0) return [];
+
+    const rows = subjectType === 'time_entry'
+      ? await db.select({ date: timeEntries.date }).from(timeEntries).where(inArray(timeEntries.id, ids))
+      : await db.select({ date: planningEntries.date }).from(planningEntries).where(inArray(planningEntries.id, ids));
+
+    return rows.map(row => row.date);
+  }
+
+  async getTimeAdjustments(filters: { employeeId?: number; startDate?: string; endDate?: string } = {}): Promise<TimeAdjustment[]> {
+    const conditions = [];
+    if (filters.employeeId) conditions.push(eq(timeAdjustments.employee_id, filters.employeeId));
+    if (filters.startDate) conditions.push(gte(timeAdjustments.effective_date, filters.startDate));
+    if (filters.endDate) conditions.push(lte(timeAdjustments.effective_date, filters.endDate));
+
+    return await db
+      .select()
+      .from(timeAdjustments)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(timeAdjustments.created_at));
+  }
+
+  // Régularisation d'une entrée figée : l'entrée d'origine n'est jamais modifiée,
+  // l'écart d'heures tient compte des régularisations déjà enregistrées
+  async createTimeAdjustment(adjustment: CreateTimeAdjustment, createdBy: number, today: string): Promise<TimeAdjustment | undefined> {
+    const closedThrough = await this.getPayPeriodClosedThrough();
+
+    return await db.transaction(async (tx) => {
+      const [original] = adjustment.subject_type === 'time_entry'
+        ? await tx
+            .select({
+              employeeId: timeEntries.employee_id,
+              date: timeEntries.date,
+              type: timeEntries.type,
+              startTime: timeEntries.start_time,
+              endTime: timeEntries.end_time,
+              breakDuration: timeEntries.break_duration,
+            })
+            .from(timeEntries)
+            .where(eq(timeEntries.id, adjustment.subject_id))
+            .for('update')
+        : await tx
+            .select({
+              employeeId: planningEntries.employee_id,
+              date: planningEntries.date,
+              type: planningEntries.type,
+              startTime: planningEntries.start_time,
+              endTime: planningEntries.end_time,
+              breakDuration: sql<number | null>`null`,
+            })
+            .from(planningEntries)
+            .where(eq(planningEntries.id, adjustment.subject_id))
+            .for('update');
+      if (!original) return undefined;
+
+      const previous = await tx
+        .select({ hoursDelta: timeAdjustments.hours_delta })
+        .from(timeAdjustments)
+        .where(and(
+          eq(timeAdjustments.subject_type, adjustment.subject_type),
+          eq(timeAdjustments.subject_id, adjustment.subject_id)
+        ));
+      const previousHours = previous.reduce((sum, row) => sum + parseFloat(row.hoursDelta), getEntryNetHours(original));
+
+      const corrected = adjustment.action === 'correction'
+        ? {
+            type: original.type,
+            startTime: adjustment.start_time!,
+            endTime: adjustment.end_time!,
+            breakDuration: adjustment.break_duration ?? original.breakDuration,
+          }
+        : null;
+
+      const [created] = await tx
+        .insert(timeAdjustments)
+        .values({
+          subject_type: adjustment.subject_type,
+          subject_id: adjustment.subject_id,
+          employee_id: original.employeeId,
+          entry_date: original.date,
+          action: adjustment.action,
+          start_time: corrected?.startTime ?? null,
+          end_time: corrected?.endTime ?? null,
+          break_duration: corrected?.breakDuration ?? null,
+          hours_delta: getAdjustmentHoursDelta(previousHours, corrected).toFixed(2),
+          effective_date: getAdjustmentEffectiveDate(today, closedThrough),
+          reason: adjustment.reason,
+          created_by: createdBy,
+        })
+        .returning();
+
+      return created;
+    });
+  }
+
+  // ========================================
+  // PAYROLL EXPORT
+  // ========================================
+
+  async getPayrollExportConfig(): Promise<PayrollExportConfig> {
+    const [setting] = await db
+      .select()
+      .from(settings)
+      .where(and(eq(settings.key, PAYROLL_EXPORT_SETTING_KEY), isNull(settings.user_id)));
+
+    if (!setting) return DEFAULT_PAYROLL_EXPORT_CONFIG;
+
+    const parsed = payrollExportConfigSchema.safeParse(setting.value);
+    if (!parsed.success) {
+      console.error('Invalid payroll export setting, using defaults:', parsed.error.flatten());
+      return DEFAULT_PAYROLL_EXPORT_CONFIG;
+    }
+
+    return parsed.data;
+  }
+
+  async updatePayrollExportConfig(config: PayrollExportConfig): Promise<PayrollExportConfig> {
+    const [existing] = await db
+      .select({ id: settings.id })
+      .from(settings)
+      .where(and(eq(settings.key, PAYROLL_EXPORT_SETTING_KEY), isNull(settings.user_id)));
+
+    if (existing) {
+      await db
+        .update(settings)
+        .set({ value: config, updated_at: new Date() })
+        .where(eq(settings.id, existing.id));
+    } else {
+      await db.insert(settings).values({
+        key: PAYROLL_EXPORT_SETTING_KEY,
+        value: config,
+        type: 'admin',
+        description: 'Correspondance des variables de paie avec les rubriques du logiciel de paie',
+      });
+    }
+
+    return config;
+  }
+
+  // Données de paie du mois pour les employés actifs : seules les entrées validées
+  // sont retenues, les régularisations sont comptées à leur date d'effet
+  async getPayrollSources(month: string, filters: { employeeIds?: number[]; departmentId?: number } = {}): Promise<PayrollEmployeeSource[]> {
+    const range = getPayrollDataRange(month);
+
+    const employeeConditions = [eq(employees.is_active, true)];
+    if (filters.employeeIds) employeeConditions.push(inArray(employees.id, filters.employeeIds));
+    if (filters.departmentId) employeeConditions.push(eq(employees.department_id, filters.departmentId));
+
+    const [employeeRows, config] = await Promise.all([
+      db
+        .select()
+        .from(employees)
+        .where(and(...employeeConditions))
+        .orderBy(asc(employees.last_name), asc(employees.first_name)),
+      this.getLaborRuleConfig(),
+    ]);
+    if (employeeRows.length === 0) return [];
+
+    const employeeIds = employeeRows.map(employee => employee.id);
+    const [entryRows, leaveRows, adjustmentRows, validationRows] = await Promise.all([
+      db
+        .select({
+          employeeId: timeEntries.employee_id,
+          date: timeEntries.date,
+          type: timeEntries.type,
+          startTime: timeEntries.start_time,
+          endTime: timeEntries.end_time,
+          breakDuration: timeEntries.break_duration,
+        })
+        .from(timeEntries)
+        .where(and(
+          inArray(timeEntries.employee_id, employeeIds),
+          eq(timeEntries.status, 'validated'),
+          gte(timeEntries.date, range.start),
+          lte(timeEntries.date, range.end)
+        )),
+      db
+        .select({
+          employeeId: leaveRequests.employee_id,
+          type: leaveRequests.type,
+          startDate: leaveRequests.start_date,
+          endDate: leaveRequests.end_date,
+        })
+        .from(leaveRequests)
+        .where(and(
+          inArray(leaveRequests.employee_id, employeeIds),
+          eq(leaveRequests.status, 'approved'),
+          lte(leaveRequests.start_date, range.monthEnd),
+          gte(leaveRequests.end_date, range.monthStart)
+        )),
+      db
+        .select({ employeeId: timeAdjustments.employee_id, hoursDelta: timeAdjustments.hours_delta })
+        .from(timeAdjustments)
+        .where(and(
+          inArray(timeAdjustments.employee_id, employeeIds),
+          gte(timeAdjustments.effective_date, range.monthStart),
+          lte(timeAdjustments.effective_date, range.monthEnd)
+        )),
+      db
+        .select({
+          employeeId: validations.employee_id,
+          weekStart: validations.week_start_date,
+          compensation: validations.overtime_compensation,
+        })
+        .from(validations)
+        .where(and(
+          inArray(validations.employee_id, employeeIds),
+          gte(validations.week_start_date, range.start),
+          lte(validations.week_start_date, range.monthEnd)
+        )),
+    ]);
+
+    return employeeRows.map(employee => {
+      const context = { contractType: employee.contract_type };
+      const nightRule = findLaborRule(resolveLaborRules(config, context), 'night_work');
+      const weekCompensations: Record<string, OvertimeCompensation> = {};
+      for (const row of validationRows) {
+        if (row.employeeId === employee.id && row.compensation) weekCompensations[row.weekStart] = row.compensation;
+      }
+
+      return {
+        employee: {
+          id: employee.id,
+          employeeNumber: employee.employee_number,
+          firstName: employee.first_name,
+          lastName: employee.last_name,
+          hourlyRate: employee.hourly_rate ? parseFloat(employee.hourly_rate) : null,
+        },
+        entries: entryRows.filter(row => row.employeeId === employee.id),
+        leaves: leaveRows.filter(row => row.employeeId === employee.id),
+        adjustments: adjustmentRows
+          .filter(row => row.employeeId === employee.id)
+          .map(row => ({ hoursDelta: parseFloat(row.hoursDelta) })),
+        weekCompensations,
+        overtimePolicy: resolveOvertimePolicy(config, context),
+        nightWindow: nightRule ? { start: nightRule.night_start, end: nightRule.night_end } : DEFAULT_NIGHT_WINDOW,
+      };
+    });
+  }
+
+  // ========================================
+  // TIME CLOCK
+  // ========================================
+
+  async getOpenPunch(employeeId: number): Promise<TimeEntry | undefined> {
+    const [entry] = await db
+      .select()
+      .from(timeEntries)
+      .where(and(
+        eq(timeEntries.employee_id, employeeId),
+        isNotNull(timeEntries.clock_in_at),
+        isNull(timeEntries.clock_out_at)
+      ));
+    return entry || undefined;
+  }
+
+  async getPunchesForDate(employeeId: number, date: string): Promise<TimeEntry[]> {
+    return await db
+      .select()
+      .from(timeEntries)
+      .where(and(
+        eq(timeEntries.employee_id, employeeId),
+        eq(timeEntries.date, date),
+        isNotNull(timeEntries.clock_in_at)
+      ))
+      .orderBy(asc(timeEntries.clock_in_at));
+  }
+
+  // Pointage horodaté par le serveur. Les pointages d'un employé sont sérialisés
+  // par un verrou sur sa fiche ; une clé d'idempotence déjà vue renvoie l'entrée
+  // obtenue la première fois sans rien modifier.
+  async recordClockEvent(
+    employeeId: number,
+    action: ClockAction,
+    input: ClockEventInput,
+    now: Date = new Date(),
+    source: ClockEventSource = {}
+  ): Promise<{ entry: TimeEntry; replayed: boolean; geofence?: GeofenceCheck } | { error: ClockEventError | 'IDEMPOTENCY_KEY_REUSED' | 'OUTSIDE_WORK_SITE' }> {
+    // Le contrôle de zone ne concerne que l'entrée ; il est appliqué après la
+    // détection des rejeux pour qu'un pointage déjà accepté reste accepté.
+    // Une borne est fixe : le pointage est rattaché à son site, sans position.
+    const geofence = action !== 'clock_in'
+      ? undefined
+      : source.kiosk
+      ? {
+          status: source.kiosk.work_site_id ? 'inside' as const : null,
+          workSiteId: source.kiosk.work_site_id,
+          distanceMeters: source.kiosk.work_site_id ? 0 : null,
+          blocked: false,
+          flagged: false,
+        }
+      : evaluateGeofence(
+          input.location,
+          await this.getApplicableWorkSiteZones(employeeId, input.project_id),
+          await this.getGeofencePolicy()
+        );
+
+    return await db.transaction(async (tx) => {
+      await tx.select({ id: employees.id }).from(employees).where(eq(employees.id, employeeId)).for('update');
+
+      if (input.idempotency_key) {
+        const [previous] = await tx
+          .select({ action: timeClockEvents.action, entry: timeEntries })
+          .from(timeClockEvents)
+          .innerJoin(timeEntries, eq(timeClockEvents.time_entry_id, timeEntries.id))
+          .where(and(
+            eq(timeClockEvents.employee_id, employeeId),
+            eq(timeClockEvents.idempotency_key, input.idempotency_key)
+          ));
+        if (previous) {
+          return previous.action === action
+            ? { entry: previous.entry, replayed: true }
+            : { error: 'IDEMPOTENCY_KEY_REUSED' as const };
+        }
+      }
+
+      const [openPunch] = await tx
+        .select()
+        .from(timeEntries)
+        .where(and(
+          eq(timeEntries.employee_id, employeeId),
+          isNotNull(timeEntries.clock_in_at),
+          isNull(timeEntries.clock_out_at)
+        ))
+        .for('update');
+
+      const error = getClockEventError(
+        action,
+        openPunch ? { clockInAt: openPunch.clock_in_at, breakStartedAt: openPunch.break_started_at } : null,
+        now
+      );
+      if (error) return { error };
+      if (geofence?.blocked) return { error: 'OUTSIDE_WORK_SITE' as const };
+
+      const receivedAt = source.receivedAt ?? now;
+      const reviewReason = source.reviewReason
+        ?? (isDelayedPunch(now, receivedAt) ? 'delayed_punch' as const : undefined);
+
+      const local = getZonedDateTime(now, COMPANY_TIME_ZONE);
+      const pendingBreak = openPunch?.break_started_at
+        ? getElapsedBreakMinutes(openPunch.break_started_at, now)
+        : 0;
+
+      let entry: TimeEntry;
+      if (action === 'clock_in') {
+        [entry] = await tx
+          .insert(timeEntries)
+          .values({
+            employee_id: employeeId,
+            project_id: input.project_id,
+            date: local.date,
+            start_time: local.time,
+            type: 'work',
+            description: input.notes,
+            status: 'draft',
+            clock_in_at: now,
+            location_latitude: input.location?.latitude.toString(),
+            location_longitude: input.location?.longitude.toString(),
+            location_address: input.location?.address,
+            geofence_status: geofence?.status,
+            work_site_id: geofence?.workSiteId,
+            geofence_distance_meters: geofence?.distanceMeters,
+            review_reason: reviewReason,
+          })
+          .returning();
+      } else {
+        const updates = action === 'break_start'
+          ? { break_started_at: now }
+          : {
+              break_started_at: null,
+              break_duration: (openPunch!.break_duration || 0) + pendingBreak,
+              ...(action === 'clock_out' && {
+                end_time: local.time,
+                clock_out_at: now,
+                description: input.notes ?? openPunch!.description,
+              }),
+            };
+
+        [entry] = await tx
+          .update(timeEntries)
+          .set({
+            ...updates,
+            // Le premier motif de contrôle de l'entrée est conservé
+            ...(reviewReason && { review_reason: sql`coalesce(${timeEntries.review_reason}, ${reviewReason})` }),
+            version: sql`${timeEntries.version} + 1`,
+            updated_at: now,
+          })
+          .where(eq(timeEntries.id, openPunch!.id))
+          .returning();
+      }
+
+      await tx.insert(timeClockEvents).values({
+        employee_id: employeeId,
+        time_entry_id: entry.id,
+        action,
+        idempotency_key: input.idempotency_key,
+        device_id: source.deviceId,
+        kiosk_id: source.kiosk?.id,
+        occurred_at: now,
+        received_at: receivedAt,
+        location_latitude: input.location?.latitude.toString(),
+        location_longitude: input.location?.longitude.toString(),
+      });
+
+      return { entry, replayed: false, geofence };
+    });
+  }
+
+  // ========================================
+  // WORK SITES
+  // ========================================
+
+  async getWorkSites(filters: { departmentId?: number; projectId?: number; activeOnly?: boolean } = {}): Promise<WorkSite[]> {
+    const conditions = [];
+    if (filters.departmentId) conditions.push(eq(workSites.department_id, filters.departmentId));
+    if (filters.projectId) conditions.push(eq(workSites.project_id, filters.projectId));
+    if (filters.activeOnly) conditions.push(eq(workSites.is_active, true));
+
+    return await db
+      .select()
+      .from(workSites)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(asc(workSites.name), asc(workSites.id));
+  }
+
+  async getWorkSite(id: number): Promise<WorkSite | undefined> {
+    const [site] = await db
+      .select()
+      .from(workSites)
+      .where(eq(workSites.id, id));
+    return site || undefined;
+  }
+
+  async createWorkSite(site: CreateWorkSite, createdBy: number | null): Promise<WorkSite> {
+    const [created] = await db
+      .insert(workSites)
+      .values({ ...this.toWorkSiteValues(site), created_by: createdBy })
+      .returning();
+    return created;
+  }
+
+  async updateWorkSite(id: number, site: CreateWorkSite): Promise<WorkSite | undefined> {
+    const [updated] = await db
+      .update(workSites)
+      .set({ ...this.toWorkSiteValues(site), updated_at: new Date() })
+      .where(eq(workSites.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  async deleteWorkSite(id: number): Promise<boolean> {
+    const result = await db
+      .delete(workSites)
+      .where(eq(workSites.id, id));
+    return (result.rowCount || 0) > 0;
+  }
+
+  // Une seule forme est conservée : les champs de l'autre sont remis à null
+  private toWorkSiteValues(site: CreateWorkSite) {
+    const isCircle = site.shape === 'circle';
+    return {
+      name: site.name,
+      address: site.address ?? null,
+      department_id: site.department_id ?? null,
+      project_id: site.project_id ?? null,
+      shape: site.shape,
+      center_latitude: isCircle ? site.center!.latitude.toString() : null,
+      center_longitude: isCircle ? site.center!.longitude.toString() : null,
+      radius_meters: isCircle ? site.radius_meters! : null,
+      polygon: isCircle ? null : site.polygon!,
+      is_active: site.is_active,
+    };
+  }
+
+  async getGeofencePolicy(): Promise<GeofencePolicy> {
+    const [setting] = await db
+      .select()
+      .from(settings)
+      .where(and(eq(settings.key, GEOFENCE_SETTING_KEY), isNull(settings.user_id)));
+
+    if (!setting) return DEFAULT_GEOFENCE_POLICY;
+
+    const parsed = geofencePolicySchema.safeParse(setting.value);
+    if (!parsed.success) {
+      console.error('Invalid geofence setting, using defaults:', parsed.error.flatten());
+      return DEFAULT_GEOFENCE_POLICY;
+    }
+
+    return parsed.data;
+  }
+
+  async updateGeofencePolicy(policy: GeofencePolicy): Promise<GeofencePolicy> {
+    const [existing] = await db
+      .select({ id: settings.id })
+      .from(settings)
+      .where(and(eq(settings.key, GEOFENCE_SETTING_KEY), isNull(settings.user_id)));
+
+    if (existing) {
+      await db
+        .update(settings)
+        .set({ value: policy, updated_at: new Date() })
+        .where(eq(settings.id, existing.id));
+    } else {
+      await db.insert(settings).values({
+        key: GEOFENCE_SETTING_KEY,
+        value: policy,
+        type: 'admin',
+        description: 'Contrôle de la position des pointages par rapport aux sites de travail',
+      });
+    }
+
+    return policy;
+  }
+
+  // Sites actifs du département de l'employé et du projet pointé
+  async getApplicableWorkSiteZones(employeeId: number, projectId?: number): Promise<WorkSiteZone[]> {
+    const employee = await this.getEmployee(employeeId);
+    const scopes = [
+      employee?.department_id ? eq(workSites.department_id, employee.department_id) : undefined,
+      projectId ? eq(workSites.project_id, projectId) : undefined,
+    ].filter(scope => scope !== undefined);
+    if (scopes.length === 0) return [];
+
+    const sites = await db
+      .select()
+      .from(workSites)
+      .where(and(eq(workSites.is_active, true), or(...scopes)));
+
+    return sites
+      .map(toWorkSiteZone)
+      .filter((zone): zone is WorkSiteZone => zone !== null);
+  }
+
+  // ========================================
+  // KIOSKS
+  // ========================================
+
+  async getKioskDevices(): Promise<KioskDevice[]> {
+    return await db
+      .select()
+      .from(kioskDevices)
+      .orderBy(asc(kioskDevices.name), asc(kioskDevices.id));
+  }
+
+  async getKioskDevice(id: number): Promise<KioskDevice | undefined> {
+    const [device] = await db
+      .select()
+      .from(kioskDevices)
+      .where(eq(kioskDevices.id, id));
+    return device || undefined;
+  }
+
+  async getKioskDeviceByTokenHash(tokenHash: string): Promise<KioskDevice | undefined> {
+    const [device] = await db
+      .select()
+      .from(kioskDevices)
+      .where(eq(kioskDevices.token_hash, tokenHash));
+    return device || undefined;
+  }
+
+  async createKioskDevice(device: CreateKioskDevice, tokenHash: string, createdBy: number | null): Promise<KioskDevice> {
+    const [created] = await db
+      .insert(kioskDevices)
+      .values({ ...device, token_hash: tokenHash, created_by: createdBy })
+      .returning();
+    return created;
+  }
+
+  async updateKioskDevice(
+    id: number,
+    device: Partial<CreateKioskDevice> & { token_hash?: string; last_seen_at?: Date }
+  ): Promise<KioskDevice | undefined> {
+    const [updated] = await db
+      .update(kioskDevices)
+      .set({ ...device, updated_at: new Date() })
+      .where(eq(kioskDevices.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  async deleteKioskDevice(id: number): Promise<boolean> {
+    const result = await db
+      .delete(kioskDevices)
+      .where(eq(kioskDevices.id, id));
+    return (result.rowCount || 0) > 0;
+  }
+
+  // Employé actif identifié à la borne, par matricule ou par badge
+  async getEmployeeForKiosk(identifier: { employee_number: string } | { badge_code: string }): Promise<Employee | undefined> {
+    const [employee] = await db
+      .select()
+      .from(employees)
+      .where(and(
+        'badge_code' in identifier
+          ? eq(employees.badge_code, identifier.badge_code)
+          : eq(employees.employee_number, identifier.employee_number),
+        eq(employees.is_active, true)
+      ));
+    return employee || undefined;
+  }
+
+  // Le code PIN n'est jamais renvoyé, seulement sa présence
+  async getKioskCredentialStatuses(): Promise<KioskCredentialStatus[]> {
+    return await db
+      .select({
+        employeeId: employees.id,
+        employeeNumber: employees.employee_number,
+        firstName: employees.first_name,
+        lastName: employees.last_name,
+        hasPin: sql<boolean>`${employees.kiosk_pin_hash} is not null`,
+        badgeCode: employees.badge_code,
+      })
+      .from(employees)
+      .where(eq(employees.is_active, true))
+      .orderBy(asc(employees.last_name), asc(employees.first_name));
+  }
+
+  async updateKioskCredentials(
+    employeeId: number,
+    credentials: { kiosk_pin_hash?: string | null; badge_code?: string | null }
+  ): Promise<Employee | { error: 'EMPLOYEE_NOT_FOUND' | 'BADGE_CODE_TAKEN' }> {
+    if (credentials.badge_code) {
+      const [holder] = await db
+        .select({ id: employees.id })
+        .from(employees)
+        .where(eq(employees.badge_code, credentials.badge_code));
+      if (holder && holder.id !== employeeId) return { error: 'BADGE_CODE_TAKEN' };
+    }
+
+    const [employee] = await db
+      .update(employees)
+      .set({ ...credentials, updated_at: new Date() })
+      .where(eq(employees.id, employeeId))
+      .returning();
+    return employee || { error: 'EMPLOYEE_NOT_FOUND' };
+  }
+
+  // ========================================
+  // OFFLINE SYNC
+  // ========================================
+
+  // Applique une mutation hors ligne d'un employé sur ses propres entrées. Une
+  // mutation déjà appliquée (même client_id) est signalée sans être rejouée ;
+  // un conflit laisse l'état serveur intact et renvoie la version serveur.
+  async applySyncMutation(
+    employeeId: number,
+    deviceId: string,
+    mutation: SyncMutation,
+    receivedAt: Date = new Date()
+  ): Promise<SyncMutationResult> {
+    const clientId = mutation.client_id;
+
+    const [previous] = await db
+      .select({ entryId: syncMutations.entry_id })
+      .from(syncMutations)
+      .where(and(eq(syncMutations.employee_id, employeeId), eq(syncMutations.client_id, clientId)));
+    if (previous) {
+      return {
+        clientId,
+        status: 'duplicate',
+        entry: previous.entryId ? (await this.getTimeEntry(previous.entryId)) ?? null : null,
+      };
+    }
+
+    const timestamp = resolveSyncTimestamp(mutation.client_timestamp, receivedAt);
+    if (!timestamp) {
+      return { clientId, status: 'rejected', error: 'STALE_MUTATION' };
+    }
+
+    const closedThrough = await this.getPayPeriodClosedThrough();
+    const conflict = (reason: SyncConflictReason, serverEntry: TimeEntry | null): SyncMutationResult => ({
+      clientId,
+      status: 'conflict',
+      conflict: { reason, resolvable: isSyncConflictResolvable(reason), serverEntry },
+    });
+
+    let result: SyncMutationResult;
+    if (mutation.type === 'time_entry_create' || mutation.type === 'time_entry_update' || mutation.type === 'time_entry_delete') {
+      result = await db.transaction(async (tx) => {
+        const [entry] = mutation.type === 'time_entry_create'
+          ? []
+          : await tx.select().from(timeEntries).where(eq(timeEntries.id, mutation.entry_id)).for('update');
+        if (entry && entry.employee_id !== employeeId) {
+          return { clientId, status: 'rejected' as const, error: 'ACCESS_DENIED' };
+        }
+
+        const data = mutation.type === 'time_entry_delete' ? undefined : mutation.data;
+        const dates = [entry?.date, data?.date].filter((date): date is string => !!date);
+        const reason = detectSyncConflict({
+          entry: mutation.type === 'time_entry_create' ? undefined : entry ?? null,
+          baseVersion: mutation.type === 'time_entry_create' ? undefined : mutation.base_version,
+          dates,
+          validatedWeeks: await this.getValidatedWeekStarts(employeeId, dates),
+          closedThrough,
+        });
+        if (reason) return conflict(reason, entry ?? null);
+
+        if (data?.start_time || data?.end_time || data?.date) {
+          const overlap = await this.validateTimeEntryOverlap(
+            employeeId,
+            data.date ?? entry!.date,
+            data.start_time ?? entry!.start_time,
+            (data.end_time ?? entry!.end_time)!,
+            entry?.id,
+            tx
+          );
+          if (!overlap.valid) return conflict('TIME_ENTRY_OVERLAP', entry ?? null);
+        }
+
+        if (mutation.type === 'time_entry_delete') {
+          await tx.delete(timeEntries).where(eq(timeEntries.id, entry!.id));
+          return { clientId, status: 'applied' as const, entry: null };
+        }
+
+        const { date, start_time, end_time, break_duration, project_id, description } = mutation.data;
+        const [saved] = mutation.type === 'time_entry_create'
+          ? await tx
+              .insert(timeEntries)
+              .values({
+                employee_id: employeeId,
+                date: mutation.data.date,
+                start_time: mutation.data.start_time,
+                end_time: mutation.data.end_time,
+                break_duration,
+                project_id,
+                description,
+                type: 'work',
+                status: 'draft',
+              })
+              .returning()
+          : await tx
+              .update(timeEntries)
+              .set({
+                date,
+                start_time,
+                end_time,
+                break_duration,
+                project_id,
+                description,
+                version: sql`${timeEntries.version} + 1`,
+                updated_at: receivedAt,
+              })
+              .where(eq(timeEntries.id, entry!.id))
+              .returning();
+
+        return { clientId, status: 'applied' as const, entry: saved };
+      });
+    } else {
+      // Pointage : daté à l'heure du client, dans le fuseau de l'entreprise
+      const { date } = getZonedDateTime(timestamp, COMPANY_TIME_ZONE);
+      const reason = detectSyncConflict({
+        dates: [date],
+        validatedWeeks: await this.getValidatedWeekStarts(employeeId, [date]),
+        closedThrough,
+      });
+
+      const punch = reason ? null : await this.recordClockEvent(
+        employeeId,
+        mutation.type,
+        { ...mutation.data, idempotency_key: clientId },
+        timestamp,
+        { deviceId, receivedAt }
+      );
+
+      if (!punch) {
+        result = conflict(reason!, null);
+      } else if ('error' in punch) {
+        result = punch.error === 'IDEMPOTENCY_KEY_REUSED'
+          ? { clientId, status: 'rejected', error: punch.error }
+          : conflict(punch.error, (await this.getOpenPunch(employeeId)) ?? null);
+      } else {
+        result = { clientId, status: punch.replayed ? 'duplicate' : 'applied', entry: punch.entry };
+      }
+    }
+
+    if (result.status === 'applied') {
+      await db
+        .insert(syncMutations)
+        .values({
+          employee_id: employeeId,
+          client_id: clientId,
+          device_id: deviceId,
+          type: mutation.type,
+          entry_id: result.entry?.id ?? (mutation.type === 'time_entry_delete' ? mutation.entry_id : null),
+          client_timestamp: timestamp,
+        })
+        .onConflictDoNothing();
+    }
+
+    return result;
+  }
+
+  private async getValidatedWeekStarts(employeeId: number, dates: string[]): Promise<string[]> {
+    const weekStarts = dates.map(date => getWeekBounds(date).weekStart);
+    if (weekStarts.length === 0) return [];
+
+    const rows = await db
+      .select({ weekStart: validations.week_start_date })
+      .from(validations)
+      .where(and(
+        eq(validations.employee_id, employeeId),
+        eq(validations.status, 'validated'),
+        inArray(validations.week_start_date, weekStarts)
+      ));
+    return rows.map(row => row.weekStart);
+  }
+
+  // ========================================
+  // DASHBOARD DATA OPERATIONS
+  // ========================================
+  async getAdminDashboardData(): Promise<any> {
+    // Get basic stats
+    const [employeesCount] = await db.select({ count: count() }).from(employees).where(eq(employees.is_active, true));
+    const [projectsCount] = await db.select({ count: count() }).from(projects).where(eq(projects.status, 'active'));
+    const [tasksCount] = await db.select({ count: count() }).from(tasks).where(eq(tasks.status, 'in_progress'));
+    
+    // Get projects by status
+    const projectsByStatus = await db
+      .select({
+        status: projects.status,
+        count: count()
+      })
+      .from(projects)
+      .groupBy(projects.status);
+
+    // Get tasks by priority
+    const tasksByPriority = await db
+      .select({
+        priority: tasks.priority,
+        count: count()
+      })
+      .from(tasks)
+      .where(eq(tasks.status, 'todo'))
+      .groupBy(tasks.priority);
+
+    // Get recent activities (last 30 days)
+    const thirtyDaysAgo = new Date();
+    thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
+
+    const recentTimeEntries = await db
+      .select({
+        date: timeEntries.date,
+        total_hours: sql<number>`SUM(${timeEntries.total_hours})`
+      })
+      .from(timeEntries)
+      .where(gte(timeEntries.date, thirtyDaysAgo.toISOString().split('T')[0]))
+      .groupBy(timeEntries.date)
+      .orderBy(asc(timeEntries.date));
+
+    return {
+      stats: {
+        total_employees: employeesCount.count,
+        active_projects: projectsCount.count,
+        active_tasks: tasksCount.count
+      },
+      charts: {
+        projects_by_status: projectsByStatus,
+        tasks_by_priority: tasksByPriority,
+        time_entries_trend: recentTimeEntries
+      }
+    };
+  }
+
+  async getEmployeeDashboardData(employeeId: number): Promise<any> {
+    // Get employee's tasks
+    const myTasks = await db
+      .select({
+        status: tasks.status,
+        count: count()
+      })
+      .from(tasks)
+      .where(eq(tasks.assigned_to, employeeId))
+      .groupBy(tasks.status);
+
+    // Get employee's projects
+    const myProjects = await db
+      .select({
+        id: projects.id,
+        name: projects.name,
+        status: projects.status,
+        tasks_count: sql<number>`COUNT(${tasks.id})`
+      })
       .from(projectMembers)
       .leftJoin(projects, eq(projectMembers.project_id, projects.id))
       .leftJoin(tasks, and(eq(tasks.project_id, projects.id), eq(tasks.assigned_to, employeeId)))
@@ -2651,28 +5651,562 @@ export class DatabaseStorage implements IStorage {
     console.log(`Deleting notification ${notificationId} for user ${userId}`);
   }
 
-  async getNotificationPreferences(userId: number): Promise<any> {
-    return {
-      emailNotifications: true,
-      pushNotifications: true,
-      inAppNotifications: true,
-      digestFrequency: 'daily',
-      types: {
-        info: true,
-        warning: true,
-        error: true,
-        success: true
-      }
+  async getNotificationPreferences(userId: number): Promise<NotificationPreferences> {
+    const [setting] = await db
+      .select()
+      .from(settings)
+      .where(and(eq(settings.key, NOTIFICATION_PREFERENCES_SETTING_KEY), eq(settings.user_id, userId)));
+
+    if (!setting) return DEFAULT_NOTIFICATION_PREFERENCES;
+
+    const parsed = notificationPreferencesSchema.safeParse(setting.value);
+    if (!parsed.success) {
+      console.error(`Invalid notification preferences for user ${userId}, using defaults:`, parsed.error.flatten());
+      return DEFAULT_NOTIFICATION_PREFERENCES;
+    }
+
+    return parsed.data;
+  }
+
+  async updateNotificationPreferences(userId: number, update: UpdateNotificationPreferences): Promise<NotificationPreferences> {
+    const preferences = mergeNotificationPreferences(await this.getNotificationPreferences(userId), update);
+
+    const [existing] = await db
+      .select({ id: settings.id })
+      .from(settings)
+      .where(and(eq(settings.key, NOTIFICATION_PREFERENCES_SETTING_KEY), eq(settings.user_id, userId)));
+
+    if (existing) {
+      await db
+        .update(settings)
+        .set({ value: preferences, updated_at: new Date() })
+        .where(eq(settings.id, existing.id));
+    } else {
+      await db.insert(settings).values({
+        key: NOTIFICATION_PREFERENCES_SETTING_KEY,
+        value: preferences,
+        type: 'employee',
+        user_id: userId,
+        description: 'Canaux de notification, heures calmes et fréquence du récapitulatif',
+      });
+    }
+
+    return preferences;
+  }
+
+  // Accusé de réception d'un appareil connecté : seul le premier compte
+  async markNotificationsDelivered(userId: number, ids: number[]): Promise<number> {
+    if (ids.length === 0) return 0;
+
+    const result = await db
+      .update(notifications)
+      .set({ delivered_at: new Date() })
+      .where(and(
+        eq(notifications.user_id, userId),
+        inArray(notifications.id, ids),
+        isNull(notifications.delivered_at)
+      ));
+    return result.rowCount || 0;
+  }
+
+  // Notifications non lues qu'aucun appareil n'a reçues, à rejouer à la connexion
+  async getUndeliveredNotifications(userId: number, since: Date, limit: number): Promise<Notification[]> {
+    return await db
+      .select()
+      .from(notifications)
+      .where(and(
+        eq(notifications.user_id, userId),
+        isNull(notifications.delivered_at),
+        eq(notifications.is_read, false),
+        gte(notifications.created_at, since)
+      ))
+      .orderBy(asc(notifications.created_at), asc(notifications.id))
+      .limit(limit);
+  }
+
+  // ========================================
+  // EMAIL DELIVERIES
+  // ========================================
+
+  // Une adresse qui a déjà rebondi n'est plus sollicitée : l'envoi est
+  // enregistré directement en échec pour rester visible des administrateurs
+  async createEmailDelivery(
+    delivery: Pick<InsertEmailDelivery, 'user_id' | 'notification_id' | 'to_address' | 'subject' | 'html' | 'text'>
+  ): Promise<EmailDelivery> {
+    const [bounced] = await db
+      .select({ id: emailDeliveries.id })
+      .from(emailDeliveries)
+      .where(and(eq(emailDeliveries.to_address, delivery.to_address), eq(emailDeliveries.status, 'bounced')))
+      .limit(1);
+
+    const [created] = await db
+      .insert(emailDeliveries)
+      .values(bounced
+        ? { ...delivery, status: 'failed' as const, last_error: 'ADDRESS_BOUNCED' }
+        : delivery)
+      .returning();
+    return created;
+  }
+
+  // Réserve les envois échus. Un envoi resté « sending » plus de 10 minutes
+  // (processus arrêté pendant l'envoi) est repris.
+  async claimDueEmailDeliveries(limit: number, now: Date = new Date()): Promise<EmailDelivery[]> {
+    const staleBefore = new Date(now.getTime() - 10 * 60 * 1000);
+
+    return await db.transaction(async (tx) => {
+      const due = await tx
+        .select({ id: emailDeliveries.id })
+        .from(emailDeliveries)
+        .where(or(
+          and(eq(emailDeliveries.status, 'pending'), lte(emailDeliveries.next_attempt_at, now)),
+          and(eq(emailDeliveries.status, 'sending'), lte(emailDeliveries.updated_at, staleBefore))
+        ))
+        .orderBy(asc(emailDeliveries.next_attempt_at))
+        .limit(limit)
+        .for('update', { skipLocked: true });
+
+      if (due.length === 0) return [];
+
+      return await tx
+        .update(emailDeliveries)
+        .set({ status: 'sending', updated_at: now })
+        .where(inArray(emailDeliveries.id, due.map(row => row.id)))
+        .returning();
+    });
+  }
+
+  async markEmailSent(id: number, messageId: string): Promise<void> {
+    await db
+      .update(emailDeliveries)
+      .set({
+        status: 'sent',
+        attempts: sql`${emailDeliveries.attempts} + 1`,
+        message_id: messageId,
+        last_error: null,
+        sent_at: new Date(),
+        updated_at: new Date(),
+      })
+      .where(eq(emailDeliveries.id, id));
+  }
+
+  // Sans nouvelle tentative prévue, l'envoi est abandonné
+  async markEmailFailed(id: number, error: string, nextAttemptAt: Date | null): Promise<void> {
+    await db
+      .update(emailDeliveries)
+      .set({
+        status: nextAttemptAt ? 'pending' : 'failed',
+        attempts: sql`${emailDeliveries.attempts} + 1`,
+        last_error: error.slice(0, 1000),
+        ...(nextAttemptAt && { next_attempt_at: nextAttemptAt }),
+        updated_at: new Date(),
+      })
+      .where(eq(emailDeliveries.id, id));
+  }
+
+  // Rebond signalé par le fournisseur : sur le Message-ID, ou à défaut sur
+  // tous les envois réussis vers l'adresse. Renvoie le nombre d'envois marqués.
+  async recordEmailBounce(bounce: EmailBounce): Promise<number> {
+    const now = new Date();
+    const updated = await db
+      .update(emailDeliveries)
+      .set({
+        status: 'bounced',
+        bounced_at: now,
+        last_error: bounce.reason?.slice(0, 1000) ?? 'BOUNCED',
+        updated_at: now,
+      })
+      .where(bounce.message_id
+        ? eq(emailDeliveries.message_id, bounce.message_id)
+        : and(eq(emailDeliveries.to_address, bounce.email!), eq(emailDeliveries.status, 'sent')))
+      .returning({ id: emailDeliveries.id });
+    return updated.length;
+  }
+
+  async getEmailDeliveries(filters: { status?: EmailDeliveryStatus; page: number; limit: number }): Promise<{ deliveries: EmailDelivery[]; total: number }> {
+    const where = filters.status ? eq(emailDeliveries.status, filters.status) : undefined;
+
+    const [{ total }] = await db
+      .select({ total: count() })
+      .from(emailDeliveries)
+      .where(where);
+
+    const deliveries = await db
+      .select()
+      .from(emailDeliveries)
+      .where(where)
+      .orderBy(desc(emailDeliveries.created_at), desc(emailDeliveries.id))
+      .limit(filters.limit)
+      .offset((filters.page - 1) * filters.limit);
+
+    return { deliveries, total };
+  }
+
+  // Relance manuelle d'un envoi abandonné ; un rebond n'est pas relancé
+  async retryEmailDelivery(id: number): Promise<EmailDelivery | { error: 'EMAIL_DELIVERY_NOT_FOUND' | 'EMAIL_NOT_RETRYABLE' }> {
+    const [delivery] = await db
+      .select({ status: emailDeliveries.status })
+      .from(emailDeliveries)
+      .where(eq(emailDeliveries.id, id));
+
+    if (!delivery) return { error: 'EMAIL_DELIVERY_NOT_FOUND' };
+    if (delivery.status !== 'failed') return { error: 'EMAIL_NOT_RETRYABLE' };
+
+    const [updated] = await db
+      .update(emailDeliveries)
+      .set({ status: 'pending', attempts: 0, next_attempt_at: new Date(), updated_at: new Date() })
+      .where(eq(emailDeliveries.id, id))
+      .returning();
+    return updated;
+  }
+
+  // ========================================
+  // NOTIFICATION DIGESTS
+  // ========================================
+
+  // Utilisateurs ayant choisi un récapitulatif, avec leurs préférences complètes
+  async getDigestRecipients(): Promise<Array<{ userId: number; preferences: NotificationPreferences }>> {
+    const rows = await db
+      .select({ userId: settings.user_id, value: settings.value })
+      .from(settings)
+      .where(and(
+        eq(settings.key, NOTIFICATION_PREFERENCES_SETTING_KEY),
+        isNotNull(settings.user_id),
+        sql`${settings.value}->>'digest_frequency' in ('daily', 'weekly')`
+      ));
+
+    return rows.flatMap(row => {
+      const parsed = notificationPreferencesSchema.safeParse(row.value);
+      return parsed.success && row.userId ? [{ userId: row.userId, preferences: parsed.data }] : [];
+    });
+  }
+
+  async getLastNotificationDigest(userId: number): Promise<NotificationDigest | undefined> {
+    const [digest] = await db
+      .select()
+      .from(notificationDigests)
+      .where(eq(notificationDigests.user_id, userId))
+      .orderBy(desc(notificationDigests.sent_at))
+      .limit(1);
+    return digest || undefined;
+  }
+
+  // Réserve la période : undefined si le récapitulatif a déjà été envoyé,
+  // éventuellement par une autre instance
+  async claimNotificationDigest(userId: number, frequency: DigestFrequency, periodKey: string): Promise<NotificationDigest | undefined> {
+    const [digest] = await db
+      .insert(notificationDigests)
+      .values({ user_id: userId, frequency, period_key: periodKey })
+      .onConflictDoNothing()
+      .returning();
+    return digest || undefined;
+  }
+
+  // Notifications non lues et pas encore récapitulées, marquées en une seule requête
+  async collectDigestNotifications(userId: number, since: Date, digestedAt: Date): Promise<Notification[]> {
+    return await db
+      .update(notifications)
+      .set({ digested_at: digestedAt })
+      .where(and(
+        eq(notifications.user_id, userId),
+        eq(notifications.is_read, false),
+        isNull(notifications.digested_at),
+        gte(notifications.created_at, since)
+      ))
+      .returning();
+  }
+
+  async completeNotificationDigest(id: number, result: { notification_count: number; notification_id: number | null }): Promise<void> {
+    await db
+      .update(notificationDigests)
+      .set(result)
+      .where(eq(notificationDigests.id, id));
+  }
+
+  // ========================================
+  // SCHEDULED JOBS
+  // ========================================
+
+  // Une seule instance obtient la ligne d'une échéance donnée : undefined si
+  // l'exécution a déjà été prise
+  async startJobRun(jobName: string, scheduledFor: Date, trigger: JobRunTrigger, instanceId: string): Promise<JobRun | undefined> {
+    const [run] = await db
+      .insert(jobRuns)
+      .values({ job_name: jobName, scheduled_for: scheduledFor, trigger, instance_id: instanceId })
+      .onConflictDoNothing()
+      .returning();
+    return run || undefined;
+  }
+
+  async finishJobRun(
+    id: number,
+    outcome: { status: 'succeeded' | 'failed'; result?: Record<string, unknown>; error?: string; durationMs: number }
+  ): Promise<JobRun | undefined> {
+    const [run] = await db
+      .update(jobRuns)
+      .set({
+        status: outcome.status,
+        result: outcome.result,
+        error: outcome.error?.slice(0, 2000),
+        finished_at: new Date(),
+        duration_ms: outcome.durationMs,
+      })
+      .where(eq(jobRuns.id, id))
+      .returning();
+    return run || undefined;
+  }
+
+  async getJobRuns(jobName: string, limit: number): Promise<JobRun[]> {
+    return await db
+      .select()
+      .from(jobRuns)
+      .where(eq(jobRuns.job_name, jobName))
+      .orderBy(desc(jobRuns.started_at), desc(jobRuns.id))
+      .limit(limit);
+  }
+
+  // Dernière exécution de chaque tâche
+  async getLatestJobRuns(): Promise<JobRun[]> {
+    return await db
+      .selectDistinctOn([jobRuns.job_name])
+      .from(jobRuns)
+      .orderBy(jobRuns.job_name, desc(jobRuns.started_at), desc(jobRuns.id));
+  }
+
+  async deleteJobRunsBefore(before: Date): Promise<number> {
+    const result = await db
+      .delete(jobRuns)
+      .where(lte(jobRuns.started_at, before));
+    return result.rowCount || 0;
+  }
+
+  async getAdminUserIds(): Promise<number[]> {
+    const admins = await db
+      .select({ id: users.id })
+      .from(users)
+      .where(eq(users.role, 'admin'));
+    return admins.map(admin => admin.id);
+  }
+
+  // Employés actifs planifiés en travail ce jour-là sans aucune saisie de temps
+  async getEmployeesMissingTimeEntries(date: string): Promise<Array<{ employeeId: number; userId: number }>> {
+    return await db
+      .selectDistinct({ employeeId: employees.id, userId: employees.user_id })
+      .from(planningEntries)
+      .innerJoin(employees, eq(planningEntries.employee_id, employees.id))
+      .where(and(
+        eq(planningEntries.date, date),
+        eq(planningEntries.type, 'work'),
+        eq(employees.is_active, true),
+        sql`not exists (
+          select 1 from ${timeEntries}
+          where ${timeEntries.employee_id} = ${employees.id} and ${timeEntries.date} = ${date}
+        )`
+      ));
+  }
+
+  // Employés actifs dont la semaine contient encore des saisies en brouillon
+  async getEmployeesWithDraftWeek(weekStart: string, weekEnd: string): Promise<Array<{ employeeId: number; userId: number; draftCount: number }>> {
+    return await db
+      .select({
+        employeeId: employees.id,
+        userId: employees.user_id,
+        draftCount: count(timeEntries.id),
+      })
+      .from(timeEntries)
+      .innerJoin(employees, eq(timeEntries.employee_id, employees.id))
+      .where(and(
+        eq(timeEntries.status, 'draft'),
+        gte(timeEntries.date, weekStart),
+        lte(timeEntries.date, weekEnd),
+        eq(employees.is_active, true)
+      ))
+      .groupBy(employees.id, employees.user_id);
+  }
+
+  // Semaines soumises en attente de validation, par manager (null : sans manager)
+  async getPendingValidationCounts(): Promise<Array<{ managerId: number | null; weeks: number }>> {
+    return await db
+      .select({
+        managerId: employees.manager_id,
+        weeks: sql<number>`count(distinct (${timeEntries.employee_id}, date_trunc('week', ${timeEntries.date})))::integer`,
+      })
+      .from(timeEntries)
+      .innerJoin(employees, eq(timeEntries.employee_id, employees.id))
+      .where(eq(timeEntries.status, 'submitted'))
+      .groupBy(employees.manager_id);
+  }
+
+  // Pointages restés ouverts, avec la fin de journée planifiée pour les clôturer
+  async getForgottenPunches(openedBefore: Date): Promise<Array<{ entry: TimeEntry; plannedEnd: string | null }>> {
+    return await db
+      .select({
+        entry: timeEntries,
+        plannedEnd: sql<string | null>`(
+          select max(${planningEntries.end_time}) from ${planningEntries}
+          where ${planningEntries.employee_id} = ${timeEntries.employee_id}
+            and ${planningEntries.date} = ${timeEntries.date}
+            and ${planningEntries.type} = 'work'
+        )`,
+      })
+      .from(timeEntries)
+      .where(and(
+        isNotNull(timeEntries.clock_in_at),
+        isNull(timeEntries.clock_out_at),
+        lte(timeEntries.clock_in_at, openedBefore)
+      ));
+  }
+
+  // ========================================
+  // PUSH SUBSCRIPTIONS
+  // ========================================
+
+  // Le navigateur renvoie le même endpoint à chaque abonnement : la ligne est
+  // mise à jour, y compris si un autre utilisateur se connecte sur l'appareil
+  async savePushSubscription(userId: number, subscription: CreatePushSubscription, userAgent?: string): Promise<PushSubscription> {
+    const values = {
+      user_id: userId,
+      p256dh: subscription.keys.p256dh,
+      auth: subscription.keys.auth,
+      user_agent: userAgent?.slice(0, 500) ?? null,
     };
+    const [saved] = await db
+      .insert(pushSubscriptions)
+      .values({ ...values, endpoint: subscription.endpoint })
+      .onConflictDoUpdate({
+        target: pushSubscriptions.endpoint,
+        set: { ...values, updated_at: new Date() },
+      })
+      .returning();
+    return saved;
   }
 
-  async updateNotificationPreferences(userId: number, preferences: any): Promise<void> {
-    // Mock implementation
-    console.log(`Updating notification preferences for user ${userId}:`, preferences);
+  async getPushSubscriptions(userId: number): Promise<PushSubscription[]> {
+    return await db
+      .select()
+      .from(pushSubscriptions)
+      .where(eq(pushSubscriptions.user_id, userId));
+  }
+
+  // Sans userId : suppression d'un abonnement expiré signalé par le service push
+  async deletePushSubscription(endpoint: string, userId?: number): Promise<boolean> {
+    const result = await db
+      .delete(pushSubscriptions)
+      .where(and(
+        eq(pushSubscriptions.endpoint, endpoint),
+        userId !== undefined ? eq(pushSubscriptions.user_id, userId) : undefined
+      ));
+    return (result.rowCount || 0) > 0;
+  }
+
+  async markPushSubscriptionUsed(id: number): Promise<void> {
+    await db
+      .update(pushSubscriptions)
+      .set({ last_used_at: new Date() })
+      .where(eq(pushSubscriptions.id, id));
+  }
+
+  // ========================================
+  // AUDIT LOG
+  // ========================================
+
+  // Le journal n'est qu'alimenté : aucune méthode ne modifie ni ne supprime ses lignes
+  async createAuditLogs(entries: InsertAuditLog[]): Promise<void> {
+    if (entries.length === 0) return;
+    await db.insert(auditLogs).values(entries);
+  }
+
+  async getAuditLogs(filters: AuditLogQuery): Promise<{ data: AuditLogWithActor[]; total: number }> {
+    const conditions = [];
+    if (filters.entity_type) conditions.push(eq(auditLogs.entity_type, filters.entity_type));
+    if (filters.entity_id) conditions.push(eq(auditLogs.entity_id, filters.entity_id));
+    if (filters.actor_user_id) conditions.push(eq(auditLogs.actor_user_id, filters.actor_user_id));
+    if (filters.action) conditions.push(eq(auditLogs.action, filters.action));
+    if (filters.start_date) conditions.push(gte(auditLogs.created_at, new Date(`${filters.start_date}T00:00:00`)));
+    if (filters.end_date) conditions.push(lte(auditLogs.created_at, new Date(`${filters.end_date}T23:59:59.999`)));
+    const where = conditions.length > 0 ? and(...conditions) : undefined;
+
+    const [rows, [{ total }]] = await Promise.all([
+      db
+        .select({
+          ...getTableColumns(auditLogs),
+          actor_name: sql<string | null>`coalesce(${employees.first_name} || ' ' || ${employees.last_name}, ${users.username})`,
+        })
+        .from(auditLogs)
+        .leftJoin(users, eq(auditLogs.actor_user_id, users.id))
+        .leftJoin(employees, eq(employees.user_id, users.id))
+        .where(where)
+        .orderBy(desc(auditLogs.created_at), desc(auditLogs.id))
+        .limit(filters.limit)
+        .offset((filters.page - 1) * filters.limit),
+      db.select({ total: count() }).from(auditLogs).where(where),
+    ]);
+
+    return { data: rows, total };
+  }
+
+  // État courant des enregistrements visés par une écriture auditée ; la
+  // période d'un employé ne s'applique qu'aux tables datées par jour
+  async getAuditSnapshots(entityType: AuditEntityType, target: AuditTarget): Promise<Array<Record<string, unknown> & { id: number }>> {
+    const table = AUDITED_TABLES[entityType];
+
+    if ('ids' in target) {
+      const ids = target.ids.filter(id => Number.isInteger(id));
+      if (ids.length === 0) return [];
+      return await db.select().from(table).where(inArray(table.id, ids));
+    }
+
+    if ('match' in target) {
+      const columns: Record<string, AnyColumn> = getTableColumns(table);
+      return await db
+        .select()
+        .from(table)
+        .where(and(...Object.entries(target.match).map(([field, value]) =>
+          value === null ? isNull(columns[field]) : eq(columns[field], value)
+        )));
+    }
+
+    const dated = entityType === 'time_entry' ? timeEntries : entityType === 'planning_entry' ? planningEntries : undefined;
+    if (!dated) return [];
+
+    return await db
+      .select()
+      .from(dated)
+      .where(and(
+        eq(dated.employee_id, target.employeeId),
+        gte(dated.date, target.from),
+        lte(dated.date, target.to)
+      ));
   }
 }
 
+// Table de chaque type d'enregistrement audité
+const AUDITED_TABLES = {
+  user: users,
+  employee: employees,
+  department: departments,
+  planning_entry: planningEntries,
+  time_entry: timeEntries,
+  validation: validations,
+  leave_request: leaveRequests,
+  project: projects,
+  task: tasks,
+  planning_template: planningTemplates,
+  work_site: workSites,
+  kiosk_device: kioskDevices,
+  time_adjustment: timeAdjustments,
+  pay_period_closure: payPeriodClosures,
+  approval_chain: approvalChains,
+  approval_request: approvalRequests,
+  approval_delegation: approvalDelegations,
+  leave_balance_movement: leaveBalanceMovements,
+  setting: settings,
+  coverage_requirement: coverageRequirements,
+  planning_template_assignment: planningTemplateAssignments,
+  project_member: projectMembers,
+} satisfies Record<AuditEntityType, unknown>;
+
 // ============================================================================
 // INSTANCE CREATION
 // ============================================================================
-export const storage = new DatabaseStorage();
+// Les écritures passent par le journal d'audit (voir auditLog.ts)
+export const storage = withAuditLog(new DatabaseStorage());
@@ -1,6 +1,7 @@
 import swaggerJSDoc from 'swagger-jsdoc';
 import swaggerUi from 'swagger-ui-express';
 import type { Express } from 'express';
+import { USER_ROLES } from '@shared/permissions';
 
 const swaggerDefinition = {
   openapi: '3.0.0',
@@ -45,7 +46,7 @@ const swaggerDefinition = {
           email: { type: 'string', format: 'email', example: 'user@clockpilot.com' },
           firstName: { type: 'string', example: 'Jean' },
           lastName: { type: 'string', example: 'Dupont' },
-          role: { type: 'string', enum: ['admin', 'manager', 'employee'], example: 'employee' },
+          role: { type: 'string', enum: [...USER_ROLES], example: 'employee' },
           createdAt: { type: 'string', format: 'date-time' },
           updatedAt: { type: 'string', format: 'date-time' },
         },
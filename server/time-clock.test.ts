@@ -0,0 +1,95 @@
+import {
+  getClockEventError,
+  getZonedDateTime,
+  getElapsedBreakMinutes,
+  toClockPunch,
+} from './businessLogic';
+import type { TimeEntry } from '@shared/schema';
+
+jest.mock('./db', () => ({ db: {} }));
+
+describe('Time Clock', () => {
+  describe('getClockEventError', () => {
+    const clockedIn = { clockInAt: new Date('2024-03-04T07:30:00Z'), breakStartedAt: null };
+
+    it('should allow a single open punch per employee', () => {
+      expect(getClockEventError('clock_in', null)).toBeNull();
+      expect(getClockEventError('clock_in', clockedIn)).toBe('ALREADY_CLOCKED_IN');
+    });
+
+    it('should require an open punch for breaks and clock-out', () => {
+      expect(getClockEventError('break_start', null)).toBe('NOT_CLOCKED_IN');
+      expect(getClockEventError('break_end', null)).toBe('NOT_CLOCKED_IN');
+      expect(getClockEventError('clock_out', null)).toBe('NOT_CLOCKED_IN');
+    });
+
+    it('should alternate break start and end', () => {
+      const onBreak = { ...clockedIn, breakStartedAt: new Date('2024-03-04T11:00:00Z') };
+
+      expect(getClockEventError('break_start', clockedIn)).toBeNull();
+      expect(getClockEventError('break_start', onBreak)).toBe('BREAK_ALREADY_STARTED');
+      expect(getClockEventError('break_end', clockedIn)).toBe('NO_BREAK_IN_PROGRESS');
+      expect(getClockEventError('break_end', onBreak)).toBeNull();
+    });
+
+    it('should let clock-out close a break in progress', () => {
+      expect(getClockEventError('clock_out', { ...clockedIn, breakStartedAt: new Date('2024-03-04T11:00:00Z') })).toBeNull();
+    });
+
+    it('should reject replayed punches older than the previous one', () => {
+      expect(getClockEventError('clock_out', clockedIn, new Date('2024-03-04T07:00:00Z'))).toBe('OUT_OF_SEQUENCE');
+      expect(getClockEventError('clock_out', clockedIn, new Date('2024-03-04T16:00:00Z'))).toBeNull();
+    });
+  });
+
+  describe('getZonedDateTime', () => {
+    it('should use the company time zone, including across midnight', () => {
+      expect(getZonedDateTime(new Date('2024-03-04T07:30:00Z'), 'Europe/Paris')).toEqual({ date: '2024-03-04', time: '08:30' });
+      expect(getZonedDateTime(new Date('2024-07-01T22:15:00Z'), 'Europe/Paris')).toEqual({ date: '2024-07-02', time: '00:15' });
+    });
+  });
+
+  describe('getElapsedBreakMinutes', () => {
+    it('should round a started minute up', () => {
+      expect(getElapsedBreakMinutes(new Date('2024-03-04T11:00:00Z'), new Date('2024-03-04T11:30:00Z'))).toBe(30);
+      expect(getElapsedBreakMinutes(new Date('2024-03-04T11:00:00Z'), new Date('2024-03-04T11:30:01Z'))).toBe(31);
+    });
+  });
+
+  describe('toClockPunch', () => {
+    it('should expose server timestamps and captured location', () => {
+      const entry = {
+        id: 7,
+        employee_id: 3,
+        date: '2024-03-04',
+        start_time: '08:30',
+        end_time: null,
+        type: 'work',
+        status: 'draft',
+        description: null,
+        break_duration: 15,
+        clock_in_at: new Date('2024-03-04T07:30:00Z'),
+        clock_out_at: null,
+        break_started_at: null,
+        location_latitude: '48.85660000',
+        location_longitude: '2.35220000',
+        location_address: null,
+      } as unknown as TimeEntry;
+
+      expect(toClockPunch(entry)).toEqual({
+        id: 7,
+        employeeId: 3,
+        date: '2024-03-04',
+        clockIn: '2024-03-04T07:30:00.000Z',
+        clockOut: null,
+        breakStartedAt: null,
+        breakMinutes: 15,
+        type: 'work',
+        status: 'draft',
+        location: { latitude: 48.8566, longitude: 2.3522 },
+        geofence: null,
+        notes: null,
+      });
+    });
+  });
+});
@@ -0,0 +1,58 @@
+import { summarizeValidationWeek, getWeeklyValidationStatus, type ValidationWeekEntry } from './businessLogic';
+
+jest.mock('./db', () => ({ db: {} }));
+
+const entry = (overrides: Partial<ValidationWeekEntry> = {}): ValidationWeekEntry => ({
+  type: 'work',
+  status: 'submitted',
+  startTime: '09:00',
+  endTime: '17:00',
+  breakDuration: 60,
+  ...overrides,
+});
+
+describe('Weekly Validation', () => {
+  describe('summarizeValidationWeek', () => {
+    it('should total worked hours net of breaks', () => {
+      const summary = summarizeValidationWeek([entry(), entry({ startTime: '08:00:00', endTime: '12:30:00', breakDuration: 0 })]);
+
+      expect(summary.totalHours).toBe(11.5);
+      expect(summary.overtimeHours).toBe(0);
+      expect(summary.pendingCount).toBe(2);
+      expect(summary.status).toBe('pending');
+    });
+
+    it('should count overtime beyond the legal weekly hours', () => {
+      const week = Array.from({ length: 5 }, () => entry({ startTime: '08:00', endTime: '17:00', breakDuration: 30 }));
+
+      expect(summarizeValidationWeek(week).overtimeHours).toBe(7.5);
+      expect(summarizeValidationWeek(week, 39).overtimeHours).toBe(3.5);
+    });
+
+    it('should ignore drafts, breaks and rejected entries in totals', () => {
+      const summary = summarizeValidationWeek([
+        entry({ status: 'validated' }),
+        entry({ status: 'rejected' }),
+        entry({ status: 'draft' }),
+        entry({ type: 'break', startTime: '12:00', endTime: '13:00', breakDuration: 0 }),
+      ]);
+
+      expect(summary.totalHours).toBe(7);
+      expect(summary).toMatchObject({ pendingCount: 1, validatedCount: 1, rejectedCount: 1, status: 'partially_validated' });
+    });
+
+    it('should handle night shifts across midnight', () => {
+      expect(summarizeValidationWeek([entry({ startTime: '22:00', endTime: '06:00', breakDuration: 30 })]).totalHours).toBe(7.5);
+    });
+  });
+
+  describe('getWeeklyValidationStatus', () => {
+    it('should derive the week status from entry decisions', () => {
+      expect(getWeeklyValidationStatus(3, 0, 0)).toBe('pending');
+      expect(getWeeklyValidationStatus(0, 3, 0)).toBe('validated');
+      expect(getWeeklyValidationStatus(0, 0, 3)).toBe('rejected');
+      expect(getWeeklyValidationStatus(1, 2, 0)).toBe('partially_validated');
+      expect(getWeeklyValidationStatus(0, 2, 1)).toBe('partially_validated');
+    });
+  });
+});
@@ -37,6 +37,7 @@ const envSchema = z.object({
   SMTP_PORT: z.string().transform((val) => parseInt(val, 10)).optional(),
   SMTP_USER: z.string().optional(),
   SMTP_PASS: z.string().optional(),
+  SMTP_SECURE: z.string().transform(v => v === 'true').default('false'),
   EMAIL_FROM: z.string().email().optional(),
   
   // Object Storage (S3)
@@ -71,6 +72,9 @@ const envSchema = z.object({
   // Notification Settings
   NOTIFICATION_EMAIL_ENABLED: z.string().transform(v => v === 'true').default('true'),
   NOTIFICATION_PUSH_ENABLED: z.string().transform(v => v === 'true').default('true'),
+  VAPID_PUBLIC_KEY: z.string().optional(),
+  VAPID_PRIVATE_KEY: z.string().optional(),
+  VAPID_SUBJECT: z.string().default('mailto:noreply@clockpilot.local'),
   WEBHOOK_SECRET: z.string().optional(),
   
   // File Upload Settings
@@ -0,0 +1,93 @@
+// ============================================================================
+// ROLES & PERMISSIONS (Rôles et permissions)
+// ============================================================================
+// Shared by the API checks and the client navigation, so both follow the same
+// rules. Kept free of database imports for the client bundle.
+
+export const USER_ROLES = ['admin', 'hr', 'manager', 'employee', 'auditor'] as const;
+export type UserRole = typeof USER_ROLES[number];
+
+export const PERMISSIONS = [
+  'employees:read',
+  'employees:write',
+  'planning:read',
+  'planning:write',
+  'time_entries:read',
+  'time_entries:write',
+  'validations:read',
+  'validations:decide',
+  'leave:approve',
+  'reports:read',
+  'payroll:export',
+  'audit:read',
+  'settings:manage',
+] as const;
+export type Permission = typeof PERMISSIONS[number];
+
+// Whose data a permission covers, from the narrowest to the widest:
+// - self: the user's own employee record
+// - team: the user and everyone under them through employees.manager_id
+// - department: the team plus every employee of the user's department
+// - all: every employee
+export const PERMISSION_SCOPES = ['self', 'team', 'department', 'all'] as const;
+export type PermissionScope = typeof PERMISSION_SCOPES[number];
+
+const everything = Object.fromEntries(PERMISSIONS.map(permission => [permission, 'all'])) as Record<Permission, PermissionScope>;
+
+export const ROLE_PERMISSIONS: Record<UserRole, Partial<Record<Permission, PermissionScope>>> = {
+  admin: everything,
+  hr: {
+    'employees:read': 'all',
+    'employees:write': 'all',
+    'planning:read': 'all',
+    'planning:write': 'all',
+    'time_entries:read': 'all',
+    'time_entries:write': 'self',
+    'validations:read': 'all',
+    'validations:decide': 'all',
+    'leave:approve': 'all',
+    'reports:read': 'all',
+    'payroll:export': 'all',
+  },
+  // Managers see the coverage of their whole department but only act on their team
+  manager: {
+    'employees:read': 'department',
+    'planning:read': 'department',
+    'planning:write': 'team',
+    'time_entries:read': 'team',
+    'time_entries:write': 'team',
+    'validations:read': 'team',
+    'validations:decide': 'team',
+    'leave:approve': 'team',
+    'reports:read': 'team',
+  },
+  employee: {
+    'employees:read': 'self',
+    'planning:read': 'self',
+    'planning:write': 'self',
+    'time_entries:read': 'self',
+    'time_entries:write': 'self',
+    'validations:read': 'self',
+    'reports:read': 'self',
+  },
+  // Read-only access to everything, including the audit log
+  auditor: {
+    'employees:read': 'all',
+    'planning:read': 'all',
+    'time_entries:read': 'all',
+    'time_entries:write': 'self',
+    'validations:read': 'all',
+    'reports:read': 'all',
+    'audit:read': 'all',
+  },
+};
+
+export function getPermissionScope(role: string, permission: Permission): PermissionScope | undefined {
+  return ROLE_PERMISSIONS[role as UserRole]?.[permission];
+}
+
+// Whether the role holds the permission with at least the given scope
+export function hasPermission(role: string, permission: Permission, minScope: PermissionScope = 'self'): boolean {
+  const scope = getPermissionScope(role, permission);
+  return scope !== undefined && PERMISSION_SCOPES.indexOf(scope) >= PERMISSION_SCOPES.indexOf(minScope);
+}
@@ -14,11 +14,13 @@ import {
   varchar,
   uuid,
   index,
+  uniqueIndex,
   foreignKey
 } from "drizzle-orm/pg-core";
 import { createInsertSchema, createSelectSchema } from "drizzle-zod";
-import { relations } from "drizzle-orm";
+import { relations, sql } from "drizzle-orm";
 import { z } from "zod";
+import { USER_ROLES } from "./permissions";
 
 // ============================================================================
 // DEPARTMENTS TABLE
@@ -39,7 +41,7 @@ export const users = pgTable("users", {
   username: text("username").notNull().unique(),
   password: text("password").notNull(),
   email: text("email").notNull().unique(),
-  role: text("role", { enum: ['admin', 'employee'] }).notNull().default('employee'),
+  role: text("role", { enum: USER_ROLES }).notNull().default('employee'), // Permissions per role in permissions.ts
 });
 
 // ============================================================================
@@ -65,6 +67,8 @@ export const employees = pgTable("employees", {
   phone: text("phone"),
   address: text("address"),
   avatar_url: text("avatar_url"),
+  kiosk_pin_hash: text("kiosk_pin_hash"), // Kiosk clocking PIN (bcrypt)
+  badge_code: text("badge_code").unique(), // Scanned QR code or badge for kiosk clocking
   created_at: timestamp("created_at").defaultNow().notNull(),
   updated_at: timestamp("updated_at").defaultNow().notNull(),
 }, (table) => ({
@@ -125,7 +129,7 @@ export const planningEntries = pgTable("planning_entries", {
   employee_id: integer("employee_id").references(() => employees.id, { onDelete: "cascade" }).notNull(),
   date: date("date").notNull(),
   type: text("type", { 
-    enum: ['work', 'vacation', 'sick_leave', 'rest_day', 'training', 'meeting'] 
+    enum: ['work', 'vacation', 'sick_leave', 'unpaid_leave', 'rest_day', 'training', 'meeting'] 
   }).notNull().default('work'),
   start_time: time("start_time"),
   end_time: time("end_time"),
@@ -136,6 +140,7 @@ export const planningEntries = pgTable("planning_entries", {
   validated_at: timestamp("validated_at"),
   comments: text("comments"),
   rejection_reason: text("rejection_reason"),
+  version: integer("version").notNull().default(1), // Incremented on every update, used to detect concurrent edits on the planning board
   created_at: timestamp("created_at").defaultNow().notNull(),
   updated_at: timestamp("updated_at").defaultNow().notNull(),
 }, (table) => ({
@@ -167,6 +172,17 @@ export const timeEntries = pgTable("time_entries", {
   location_latitude: decimal("location_latitude", { precision: 10, scale: 8 }),
   location_longitude: decimal("location_longitude", { precision: 11, scale: 8 }),
   location_address: text("location_address"),
+  // Punch timestamps, set by the server for entries opened through the clock-in API
+  clock_in_at: timestamp("clock_in_at"),
+  clock_out_at: timestamp("clock_out_at"),
+  break_started_at: timestamp("break_started_at"), // Break in progress, added to break_duration when it ends
+  version: integer("version").notNull().default(1), // Incremented on every update, used to detect offline edit conflicts
+  // Geofence check at clock-in; null when no work site applies to the employee
+  geofence_status: text("geofence_status", { enum: ['inside', 'outside', 'unknown'] }),
+  work_site_id: integer("work_site_id").references(() => workSites.id, { onDelete: "set null" }), // Nearest applicable site
+  geofence_distance_meters: integer("geofence_distance_meters"), // Distance outside the nearest site, 0 inside
+  // Set when a punch of the entry could not be authenticated, the manager confirms it at validation
+  review_reason: text("review_reason", { enum: ['unconfirmed_kiosk_punch', 'delayed_punch'] }),
   validated_by: integer("validated_by").references(() => employees.id),
   validated_at: timestamp("validated_at"),
   created_at: timestamp("created_at").defaultNow().notNull(),
@@ -176,6 +192,10 @@ export const timeEntries = pgTable("time_entries", {
   projectIdx: index("time_entries_project_idx").on(table.project_id),
   statusIdx: index("time_entries_status_idx").on(table.status),
   typeIdx: index("time_entries_type_idx").on(table.type),
+  // At most one open punch per employee
+  openPunchIdx: uniqueIndex("time_entries_open_punch_idx")
+    .on(table.employee_id)
+    .where(sql`${table.clock_in_at} is not null and ${table.clock_out_at} is null`),
 }));
 
 // ============================================================================
@@ -242,6 +262,8 @@ export const validations = pgTable("validations", {
   rejection_reason: text("rejection_reason"),
   total_hours: decimal("total_hours", { precision: 5, scale: 2 }),
   overtime_hours: decimal("overtime_hours", { precision: 5, scale: 2 }),
+  overtime_breakdown: jsonb("overtime_breakdown").$type<Array<{ rate: number; hours: number }>>(), // Hours per pay tier
+  overtime_compensation: text("overtime_compensation", { enum: ['pay', 'rest'] }),
   created_at: timestamp("created_at").defaultNow().notNull(),
   updated_at: timestamp("updated_at").defaultNow().notNull(),
 }, (table) => ({
@@ -263,7 +285,8 @@ export const notificationTypeEnum = pgEnum("notification_type", [
   "overtime_alert",
   "schedule_conflict",
   "system_update",
-  "reminder"
+  "reminder",
+  "leave_request"
 ]);
 
 // Notification priority enum
@@ -287,6 +310,8 @@ export const notifications = pgTable("notifications", {
   metadata: json("metadata"), // Additional metadata for complex notifications
   is_read: boolean("is_read").default(false).notNull(),
   read_at: timestamp("read_at"),
+  digested_at: timestamp("digested_at"), // Included in a daily or weekly digest
+  delivered_at: timestamp("delivered_at"), // First acknowledged by a connected device
   created_at: timestamp("created_at").defaultNow().notNull(),
   updated_at: timestamp("updated_at").defaultNow().notNull(),
 }, (table) => ({
@@ -479,7 +504,6 @@ export const registerSchema = z.object({
   password: z.string().min(6, "Password must be at least 6 characters"),
   firstName: z.string().min(1, "First name is required"),
   lastName: z.string().min(1, "Last name is required"),
-  role: z.enum(['admin', 'employee']).default('employee'),
 });
 
 export const loginSchema = z.object({
@@ -505,6 +529,7 @@ export const createEmployeeSchema = z.object({
   phone: z.string().optional(),
   address: z.string().optional(),
   hireDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format"),
+  role: z.enum(USER_ROLES).optional(), // Role of the user account, assigned by admins only
 });
 
 export const updateEmployeeSchema = createEmployeeSchema.partial().extend({
@@ -552,6 +577,13 @@ export const generatePlanningSchema = z.object({
   template_id: z.number().int().positive().optional(),
   employee_ids: z.array(z.number().int().positive()).optional(),
   department_id: z.number().int().positive().optional(),
+  respect_constraints: z.boolean().default(true),
+}).refine(data => (data.employee_ids && data.employee_ids.length > 0) || data.department_id, {
+  message: "Employee ids or a department is required",
+  path: ["employee_ids"],
+}).refine(data => data.end_date >= data.start_date, {
+  message: "End date must be after or equal to start date",
+  path: ["end_date"],
 });
 
 export const updatePlanningEntrySchema = z.object({
@@ -561,11 +593,13 @@ export const updatePlanningEntrySchema = z.object({
   type: z.enum(['work', 'vacation', 'sick', 'training', 'meeting']).optional(),
   status: z.enum(['draft', 'submitted', 'validated', 'rejected']).optional(),
   notes: z.string().max(500).optional(),
+  version: z.number().int().positive().optional(), // Version read by the client, refused if the entry changed since
 });
 
 export const bulkPlanningSchema = z.object({
   entries: z.array(z.object({
     id: z.number().int().positive().optional(), // For updates
+    version: z.number().int().positive().optional(), // For updates, refused if the entry changed since
     employee_id: z.number().int().positive(),
     date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format"),
     start_time: z.string().regex(/^\d{2}:\d{2}$/, "Start time must be in HH:MM format"),
@@ -582,6 +616,21 @@ export const validatePlanningSchema = z.object({
   comments: z.string().max(1000).optional(),
 });
 
+export const resolvePlanningConflictSchema = z.object({
+  conflict: z.object({
+    type: z.enum([
+      'overlap', 'max_daily_hours', 'max_weekly_hours', 'average_hours', 'min_rest_period',
+      'min_weekly_rest', 'break_after_hours', 'night_work', 'sunday_work',
+    ]),
+    employeeId: z.number().int().positive(),
+    date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format"),
+    data: z.record(z.any()).optional(),
+  }),
+  strategy: z.enum(['shift', 'trim', 'merge', 'move']),
+  target_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Target date must be in YYYY-MM-DD format").optional(),
+  dry_run: z.boolean().default(true),
+});
+
 // Planning conflict types
 export type PlanningConflict = {
   type: 'max_daily_hours' | 'max_weekly_hours' | 'insufficient_rest' | 'overlap' | 'weekly_average';
@@ -691,7 +740,7 @@ export const selectNotificationSchema = createSelectSchema(notifications);
 
 export const createNotificationSchema = z.object({
   user_id: z.number().int().positive(),
-  type: z.enum(['task_assigned', 'planning_modified', 'validation_required', 'time_missing', 'overtime_alert', 'schedule_conflict', 'system_update', 'reminder']),
+  type: z.enum(['task_assigned', 'planning_modified', 'validation_required', 'time_missing', 'overtime_alert', 'schedule_conflict', 'system_update', 'reminder', 'leave_request']),
   title: z.string().min(1).max(255),
   message: z.string().min(1),
   action_url: z.string().optional(),
@@ -702,7 +751,7 @@ export const createNotificationSchema = z.object({
 export const notificationQuerySchema = z.object({
   page: z.string().transform(val => parseInt(val) || 1).pipe(z.number().int().min(1)).optional(),
   limit: z.string().transform(val => parseInt(val) || 20).pipe(z.number().int().min(1).max(100)).optional(),
-  type: z.enum(['task_assigned', 'planning_modified', 'validation_required', 'time_missing', 'overtime_alert', 'schedule_conflict', 'system_update', 'reminder']).optional(),
+  type: z.enum(['task_assigned', 'planning_modified', 'validation_required', 'time_missing', 'overtime_alert', 'schedule_conflict', 'system_update', 'reminder', 'leave_request']).optional(),
   priority: z.enum(['low', 'medium', 'high', 'urgent']).optional(),
   is_read: z.string().transform(val => val === 'true').pipe(z.boolean()).optional(),
   sortBy: z.enum(['created_at', 'priority', 'type']).default('created_at'),
@@ -860,6 +909,7 @@ export const PlanningEntryType = {
   WORK: 'work',
   VACATION: 'vacation',
   SICK_LEAVE: 'sick_leave',
+  UNPAID_LEAVE: 'unpaid_leave',
   REST_DAY: 'rest_day',
   TRAINING: 'training',
   MEETING: 'meeting',
@@ -970,3 +1020,1471 @@ export const ValidationStatus = {
   REJECTED: 'rejected',
   PARTIALLY_VALIDATED: 'partially_validated',
 } as const;
+
+// ============================================================================
+// LEAVE REQUESTS (Demandes de congés)
+// ============================================================================
+export const leaveRequests = pgTable("leave_requests", {
+  id: serial("id").primaryKey(),
+  employee_id: integer("employee_id").references(() => employees.id, { onDelete: "cascade" }).notNull(),
+  type: text("type", {
+    enum: ['vacation', 'rtt', 'compensatory_rest', 'sick_leave', 'unpaid_leave']
+  }).notNull().default('vacation'),
+  start_date: date("start_date").notNull(),
+  end_date: date("end_date").notNull(),
+  days_count: integer("days_count").notNull(), // Jours ouvrés décomptés
+  reason: text("reason"),
+  status: text("status", {
+    enum: ['pending', 'approved', 'rejected', 'cancelled']
+  }).notNull().default('pending'),
+  approver_id: integer("approver_id").references(() => employees.id),
+  decided_at: timestamp("decided_at"),
+  decision_comment: text("decision_comment"),
+  created_at: timestamp("created_at").defaultNow().notNull(),
+  updated_at: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => ({
+  employeeDatesIdx: index("leave_requests_employee_dates_idx").on(table.employee_id, table.start_date, table.end_date),
+  statusIdx: index("leave_requests_status_idx").on(table.status),
+  approverIdx: index("leave_requests_approver_idx").on(table.approver_id),
+}));
+
+export const leaveRequestsRelations = relations(leaveRequests, ({ one }) => ({
+  employee: one(employees, {
+    fields: [leaveRequests.employee_id],
+    references: [employees.id],
+  }),
+  approver: one(employees, {
+    fields: [leaveRequests.approver_id],
+    references: [employees.id],
+  }),
+}));
+
+// Leave requests API schemas
+export const createLeaveRequestSchema = z.object({
+  employee_id: z.number().int().positive().optional(), // Optional for self-request
+  type: z.enum(['vacation', 'rtt', 'compensatory_rest', 'sick_leave', 'unpaid_leave']).default('vacation'),
+  start_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Start date must be in YYYY-MM-DD format"),
+  end_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "End date must be in YYYY-MM-DD format"),
+  reason: z.string().max(500).optional(),
+}).refine(data => data.end_date >= data.start_date, {
+  message: "End date must be on or after start date",
+  path: ["end_date"],
+});
+
+export const leaveRequestQuerySchema = z.object({
+  scope: z.enum(['mine', 'team', 'all']).default('mine'),
+  status: z.enum(['pending', 'approved', 'rejected', 'cancelled']).optional(),
+  employee_id: z.string().transform(val => parseInt(val)).pipe(z.number().int().positive()).optional(),
+  start_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Start date must be in YYYY-MM-DD format").optional(),
+  end_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "End date must be in YYYY-MM-DD format").optional(),
+});
+
+export const approveLeaveRequestSchema = z.object({
+  comment: z.string().max(500).optional(),
+});
+
+export const rejectLeaveRequestSchema = z.object({
+  reason: z.string().min(1, "A rejection reason is required").max(500),
+});
+
+export const insertLeaveRequestSchema = createInsertSchema(leaveRequests).omit({
+  id: true,
+  created_at: true,
+  updated_at: true,
+});
+
+export type LeaveRequest = typeof leaveRequests.$inferSelect;
+export type InsertLeaveRequest = z.infer<typeof insertLeaveRequestSchema>;
+export type CreateLeaveRequest = z.infer<typeof createLeaveRequestSchema>;
+export type LeaveRequestQueryParams = z.infer<typeof leaveRequestQuerySchema>;
+
+export const LeaveRequestStatus = {
+  PENDING: 'pending',
+  APPROVED: 'approved',
+  REJECTED: 'rejected',
+  CANCELLED: 'cancelled',
+} as const;
+
+export const LeaveType = {
+  VACATION: 'vacation',
+  RTT: 'rtt',
+  COMPENSATORY_REST: 'compensatory_rest',
+  SICK_LEAVE: 'sick_leave',
+  UNPAID_LEAVE: 'unpaid_leave',
+} as const;
+
+// ============================================================================
+// LEAVE BALANCES LEDGER (Soldes CP / RTT / repos compensateur)
+// ============================================================================
+// Append-only: a balance is the sum of its movements for a reference period
+export const leaveBalanceMovements = pgTable("leave_balance_movements", {
+  id: serial("id").primaryKey(),
+  employee_id: integer("employee_id").references(() => employees.id, { onDelete: "cascade" }).notNull(),
+  leave_type: text("leave_type", {
+    enum: ['cp', 'rtt', 'repos_compensateur']
+  }).notNull(),
+  movement_type: text("movement_type", {
+    enum: ['accrual', 'taken', 'carry_over', 'expiry', 'adjustment', 'opening'] // opening = legacy counter taken over on the first balance read
+  }).notNull(),
+  days: decimal("days", { precision: 6, scale: 2 }).notNull(), // Positive = credit, negative = debit
+  period_start: date("period_start").notNull(), // June 1st of the reference period
+  effective_date: date("effective_date").notNull(),
+  leave_request_id: integer("leave_request_id").references(() => leaveRequests.id),
+  description: text("description"),
+  created_by: integer("created_by").references(() => users.id),
+  created_at: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  employeePeriodIdx: index("leave_balance_movements_employee_period_idx").on(table.employee_id, table.leave_type, table.period_start),
+  leaveRequestIdx: index("leave_balance_movements_leave_request_idx").on(table.leave_request_id),
+  // The legacy counter is taken over once per employee
+  openingIdx: uniqueIndex("leave_balance_movements_opening_idx")
+    .on(table.employee_id)
+    .where(sql`${table.movement_type} = 'opening'`),
+  // A month (or a validated week of compensatory rest) is credited once, even
+  // when the accrual runs twice at the same time or is retried
+  accrualIdx: uniqueIndex("leave_balance_movements_accrual_idx")
+    .on(table.employee_id, table.leave_type, table.effective_date)
+    .where(sql`${table.movement_type} = 'accrual'`),
+}));
+
+export const leaveBalanceMovementsRelations = relations(leaveBalanceMovements, ({ one }) => ({
+  employee: one(employees, {
+    fields: [leaveBalanceMovements.employee_id],
+    references: [employees.id],
+  }),
+  leaveRequest: one(leaveRequests, {
+    fields: [leaveBalanceMovements.leave_request_id],
+    references: [leaveRequests.id],
+  }),
+}));
+
+// Leave balances API schemas
+export const leaveBalanceAdjustmentSchema = z.object({
+  leave_type: z.enum(['cp', 'rtt', 'repos_compensateur']),
+  days: z.number().min(-100).max(100).refine(val => val !== 0, "Adjustment cannot be zero"),
+  effective_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Effective date must be in YYYY-MM-DD format").optional(),
+  description: z.string().min(1, "A justification is required").max(500),
+});
+
+export const leaveAccrualRunSchema = z.object({
+  month: z.string().regex(/^\d{4}-\d{2}$/, "Month must be in YYYY-MM format"),
+});
+
+export const leavePeriodCloseSchema = z.object({
+  period_start: z.string().regex(/^\d{4}-06-01$/, "Reference period must start on June 1st (YYYY-06-01)"),
+});
+
+export const insertLeaveBalanceMovementSchema = createInsertSchema(leaveBalanceMovements).omit({
+  id: true,
+  created_at: true,
+});
+
+export type LeaveBalanceMovement = typeof leaveBalanceMovements.$inferSelect;
+export type InsertLeaveBalanceMovement = z.infer<typeof insertLeaveBalanceMovementSchema>;
+export type LeaveBalanceType = LeaveBalanceMovement['leave_type'];
+
+export const LeaveBalanceTypes = {
+  CP: 'cp',
+  RTT: 'rtt',
+  REPOS_COMPENSATEUR: 'repos_compensateur',
+} as const;
+
+// ============================================================================
+// LABOUR RULES (Règles de temps de travail configurables)
+// ============================================================================
+// Stored as a single global setting; each rule is a declarative object evaluated
+// by server/laborRules.ts. Rule sets are scoped by country, collective agreement
+// and contract type, the most specific matching set winning for a given rule type.
+
+const timeOfDaySchema = z.string().regex(/^([01]?[0-9]|2[0-3]):[0-5][0-9]$/, "Time must be in HH:MM format");
+
+const laborRuleBaseSchema = z.object({
+  id: z.string().min(1).max(100),
+  label: z.string().max(200).optional(),
+  severity: z.enum(['error', 'warning']).default('error'),
+  enabled: z.boolean().default(true),
+});
+
+export const laborRuleSchema = z.discriminatedUnion('type', [
+  laborRuleBaseSchema.extend({
+    type: z.literal('max_daily_hours'),
+    max_hours: z.number().positive().max(24),
+  }),
+  laborRuleBaseSchema.extend({
+    type: z.literal('max_weekly_hours'),
+    max_hours: z.number().positive().max(168),
+  }),
+  laborRuleBaseSchema.extend({
+    type: z.literal('average_hours'),
+    max_hours: z.number().positive().max(168),
+    weeks: z.number().int().min(2).max(52),
+  }),
+  laborRuleBaseSchema.extend({
+    type: z.literal('min_rest_period'),
+    min_hours: z.number().positive().max(24),
+  }),
+  laborRuleBaseSchema.extend({
+    type: z.literal('min_weekly_rest'),
+    min_hours: z.number().positive().max(72),
+  }),
+  laborRuleBaseSchema.extend({
+    type: z.literal('break_after_hours'),
+    after_hours: z.number().positive().max(24),
+    min_break_minutes: z.number().int().positive().max(240),
+  }),
+  laborRuleBaseSchema.extend({
+    type: z.literal('night_work'),
+    night_start: timeOfDaySchema,
+    night_end: timeOfDaySchema,
+    max_hours: z.number().positive().max(24),
+  }),
+  laborRuleBaseSchema.extend({
+    type: z.literal('sunday_work'),
+    allowed: z.boolean(),
+  }),
+]);
+
+// Weekly overtime pay: each tier applies from `from_hours` up to the next tier.
+// Paid overtime counts against the annual contingent; overtime converted to
+// compensatory rest does not.
+export const overtimePolicySchema = z.object({
+  tiers: z.array(z.object({
+    from_hours: z.number().positive().max(168),
+    rate: z.number().min(1).max(3),
+  })).min(1).max(5).refine(
+    tiers => tiers.every((tier, index) => index === 0 || tier.from_hours > tiers[index - 1].from_hours),
+    "Overtime tiers must be sorted by increasing hours"
+  ),
+  annual_contingent_hours: z.number().int().min(0).max(1000).default(220),
+  compensation: z.enum(['pay', 'rest']).default('pay'),
+});
+
+export const laborRuleSetSchema = z.object({
+  id: z.string().min(1).max(100),
+  name: z.string().min(1).max(200),
+  scope: z.object({
+    country: z.string().length(2).optional(),
+    collective_agreement: z.string().max(100).optional(),
+    contract_type: z.enum(['CDI', 'CDD', 'STAGE', 'FREELANCE', 'INTERIM']).optional(),
+  }).default({}),
+  rules: z.array(laborRuleSchema),
+  overtime: overtimePolicySchema.optional(),
+});
+
+export const laborRuleConfigSchema = z.object({
+  country: z.string().length(2).default('FR'),
+  collective_agreement: z.string().max(100).nullable().default(null),
+  rule_sets: z.array(laborRuleSetSchema).min(1, "At least one rule set is required"),
+}).refine(
+  config => new Set(config.rule_sets.map(set => set.id)).size === config.rule_sets.length,
+  "Rule set ids must be unique"
+);
+
+export type LaborRule = z.infer<typeof laborRuleSchema>;
+export type LaborRuleType = LaborRule['type'];
+export type LaborRuleSet = z.infer<typeof laborRuleSetSchema>;
+export type LaborRuleConfig = z.infer<typeof laborRuleConfigSchema>;
+export type OvertimePolicy = z.infer<typeof overtimePolicySchema>;
+export type OvertimeCompensation = OvertimePolicy['compensation'];
+
+export const LABOR_RULES_SETTING_KEY = 'labor_rules';
+
+// ============================================================================
+// PLANNING TEMPLATES (Modèles de planning et rotations)
+// ============================================================================
+// A template is a cycle of `cycle_weeks` weeks; each shift belongs to one week of
+// the cycle. Assignments anchor the cycle on a date for an employee or a department.
+export const planningTemplates = pgTable("planning_templates", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull().unique(),
+  description: text("description"),
+  cycle_weeks: integer("cycle_weeks").notNull().default(1),
+  is_active: boolean("is_active").notNull().default(true),
+  created_by: integer("created_by").references(() => users.id),
+  created_at: timestamp("created_at").defaultNow().notNull(),
+  updated_at: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const planningTemplateShifts = pgTable("planning_template_shifts", {
+  id: serial("id").primaryKey(),
+  template_id: integer("template_id").references(() => planningTemplates.id, { onDelete: "cascade" }).notNull(),
+  week_index: integer("week_index").notNull().default(0), // 0-based week within the cycle
+  day_of_week: integer("day_of_week").notNull(), // 1 = Monday ... 7 = Sunday
+  start_time: time("start_time").notNull(),
+  end_time: time("end_time").notNull(), // Earlier than start_time for overnight shifts
+  type: text("type", {
+    enum: ['work', 'training', 'meeting']
+  }).notNull().default('work'),
+  label: text("label"),
+}, (table) => ({
+  templateIdx: index("planning_template_shifts_template_idx").on(table.template_id),
+}));
+
+export const planningTemplateAssignments = pgTable("planning_template_assignments", {
+  id: serial("id").primaryKey(),
+  template_id: integer("template_id").references(() => planningTemplates.id, { onDelete: "cascade" }).notNull(),
+  employee_id: integer("employee_id").references(() => employees.id, { onDelete: "cascade" }),
+  department_id: integer("department_id").references(() => departments.id, { onDelete: "cascade" }),
+  start_date: date("start_date").notNull(), // First day of cycle week 0
+  end_date: date("end_date"),
+  cycle_offset: integer("cycle_offset").notNull().default(0), // Stagger teams on the same rotation
+  created_at: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  templateIdx: index("planning_template_assignments_template_idx").on(table.template_id),
+  employeeIdx: index("planning_template_assignments_employee_idx").on(table.employee_id),
+  departmentIdx: index("planning_template_assignments_department_idx").on(table.department_id),
+}));
+
+export const planningTemplatesRelations = relations(planningTemplates, ({ one, many }) => ({
+  creator: one(users, {
+    fields: [planningTemplates.created_by],
+    references: [users.id],
+  }),
+  shifts: many(planningTemplateShifts),
+  assignments: many(planningTemplateAssignments),
+}));
+
+export const planningTemplateShiftsRelations = relations(planningTemplateShifts, ({ one }) => ({
+  template: one(planningTemplates, {
+    fields: [planningTemplateShifts.template_id],
+    references: [planningTemplates.id],
+  }),
+}));
+
+export const planningTemplateAssignmentsRelations = relations(planningTemplateAssignments, ({ one }) => ({
+  template: one(planningTemplates, {
+    fields: [planningTemplateAssignments.template_id],
+    references: [planningTemplates.id],
+  }),
+  employee: one(employees, {
+    fields: [planningTemplateAssignments.employee_id],
+    references: [employees.id],
+  }),
+  department: one(departments, {
+    fields: [planningTemplateAssignments.department_id],
+    references: [departments.id],
+  }),
+}));
+
+// Planning templates API schemas
+export const planningTemplateShiftSchema = z.object({
+  week_index: z.number().int().min(0).default(0),
+  day_of_week: z.number().int().min(1).max(7),
+  start_time: z.string().regex(/^\d{2}:\d{2}$/, "Start time must be in HH:MM format"),
+  end_time: z.string().regex(/^\d{2}:\d{2}$/, "End time must be in HH:MM format"),
+  type: z.enum(['work', 'training', 'meeting']).default('work'),
+  label: z.string().max(100).optional(),
+}).refine(data => data.start_time !== data.end_time, {
+  message: "Start and end time must differ",
+  path: ["end_time"],
+});
+
+export const createPlanningTemplateSchema = z.object({
+  name: z.string().min(1, "Name is required").max(100),
+  description: z.string().max(500).optional(),
+  cycle_weeks: z.number().int().min(1).max(12).default(1),
+  is_active: z.boolean().default(true),
+  shifts: z.array(planningTemplateShiftSchema).min(1, "At least one shift is required"),
+}).refine(data => data.shifts.every(shift => shift.week_index < data.cycle_weeks), {
+  message: "Shift week index must be within the cycle",
+  path: ["shifts"],
+});
+
+export const updatePlanningTemplateSchema = createPlanningTemplateSchema;
+
+export const assignPlanningTemplateSchema = z.object({
+  employee_id: z.number().int().positive().optional(),
+  department_id: z.number().int().positive().optional(),
+  start_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Start date must be in YYYY-MM-DD format"),
+  end_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "End date must be in YYYY-MM-DD format").optional(),
+  cycle_offset: z.number().int().min(0).default(0),
+}).refine(data => !!data.employee_id !== !!data.department_id, {
+  message: "Either an employee or a department is required",
+  path: ["employee_id"],
+}).refine(data => !data.end_date || data.end_date >= data.start_date, {
+  message: "End date must be after or equal to start date",
+  path: ["end_date"],
+});
+
+export const insertPlanningTemplateSchema = createInsertSchema(planningTemplates).omit({
+  id: true,
+  created_at: true,
+  updated_at: true,
+});
+
+export type PlanningTemplate = typeof planningTemplates.$inferSelect;
+export type PlanningTemplateShift = typeof planningTemplateShifts.$inferSelect;
+export type PlanningTemplateAssignment = typeof planningTemplateAssignments.$inferSelect;
+export type InsertPlanningTemplate = z.infer<typeof insertPlanningTemplateSchema>;
+export type CreatePlanningTemplate = z.infer<typeof createPlanningTemplateSchema>;
+export type AssignPlanningTemplate = z.infer<typeof assignPlanningTemplateSchema>;
+export type PlanningTemplateWithDetails = PlanningTemplate & {
+  shifts: PlanningTemplateShift[];
+  assignments: PlanningTemplateAssignment[];
+};
+
+// ============================================================================
+// COVERAGE REQUIREMENTS (Besoins de couverture pour la planification automatique)
+// ============================================================================
+// "2 people 08:00-12:00 in department X, Mon-Sat": the auto-scheduler assigns
+// employees to each occurrence of the requirement over the requested period.
+export const coverageRequirements = pgTable("coverage_requirements", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  department_id: integer("department_id").references(() => departments.id, { onDelete: "cascade" }),
+  days_of_week: integer("days_of_week").array().notNull(), // 1 = Monday ... 7 = Sunday
+  start_time: time("start_time").notNull(),
+  end_time: time("end_time").notNull(),
+  required_staff: integer("required_staff").notNull().default(1),
+  valid_from: date("valid_from"),
+  valid_to: date("valid_to"),
+  is_active: boolean("is_active").notNull().default(true),
+  created_by: integer("created_by").references(() => users.id),
+  created_at: timestamp("created_at").defaultNow().notNull(),
+  updated_at: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => ({
+  departmentIdx: index("coverage_requirements_department_idx").on(table.department_id),
+}));
+
+export const coverageRequirementsRelations = relations(coverageRequirements, ({ one }) => ({
+  department: one(departments, {
+    fields: [coverageRequirements.department_id],
+    references: [departments.id],
+  }),
+  creator: one(users, {
+    fields: [coverageRequirements.created_by],
+    references: [users.id],
+  }),
+}));
+
+// Coverage requirements API schemas
+export const createCoverageRequirementSchema = z.object({
+  name: z.string().min(1, "Name is required").max(100),
+  department_id: z.number().int().positive().nullable().optional(),
+  days_of_week: z.array(z.number().int().min(1).max(7)).min(1, "At least one day is required"),
+  start_time: z.string().regex(/^\d{2}:\d{2}$/, "Start time must be in HH:MM format"),
+  end_time: z.string().regex(/^\d{2}:\d{2}$/, "End time must be in HH:MM format"),
+  required_staff: z.number().int().min(1).max(100).default(1),
+  valid_from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format").nullable().optional(),
+  valid_to: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format").nullable().optional(),
+  is_active: z.boolean().default(true),
+}).refine(data => data.start_time !== data.end_time, {
+  message: "Start and end time must differ",
+  path: ["end_time"],
+}).refine(data => !data.valid_from || !data.valid_to || data.valid_to >= data.valid_from, {
+  message: "End date must be after or equal to start date",
+  path: ["valid_to"],
+});
+
+export const updateCoverageRequirementSchema = createCoverageRequirementSchema;
+
+export const autoSchedulePlanningSchema = z.object({
+  start_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Start date must be in YYYY-MM-DD format"),
+  end_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "End date must be in YYYY-MM-DD format"),
+  department_id: z.number().int().positive().optional(),
+  requirement_ids: z.array(z.number().int().positive()).optional(),
+  persist: z.boolean().default(false), // false = proposal only, true = save as draft entries
+}).refine(data => data.end_date >= data.start_date, {
+  message: "End date must be after or equal to start date",
+  path: ["end_date"],
+}).refine(data => (Date.parse(data.end_date) - Date.parse(data.start_date)) / 86400000 < 62, {
+  message: "Auto-scheduling is limited to 62 days",
+  path: ["end_date"],
+});
+
+export const insertCoverageRequirementSchema = createInsertSchema(coverageRequirements).omit({
+  id: true,
+  created_at: true,
+  updated_at: true,
+});
+
+export type CoverageRequirement = typeof coverageRequirements.$inferSelect;
+export type InsertCoverageRequirement = z.infer<typeof insertCoverageRequirementSchema>;
+export type CreateCoverageRequirement = z.infer<typeof createCoverageRequirementSchema>;
+export type AutoSchedulePlanning = z.infer<typeof autoSchedulePlanningSchema>;
+
+// ============================================================================
+// WEEKLY VALIDATIONS (Validation hebdomadaire des heures)
+// ============================================================================
+
+export const validationQuerySchema = z.object({
+  scope: z.enum(['team', 'all']).default('team'),
+  status: z.enum(['pending', 'validated', 'rejected', 'partially_validated', 'all']).default('pending'),
+  department_id: z.string().transform(val => parseInt(val)).pipe(z.number().int().positive()).optional(),
+  start_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Start date must be in YYYY-MM-DD format").optional(),
+  end_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "End date must be in YYYY-MM-DD format").optional(),
+});
+
+// Decision on a whole week, or on the listed entries only
+export const decideValidationSchema = z.object({
+  employee_id: z.number().int().positive(),
+  week_start: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Week start must be in YYYY-MM-DD format"),
+  action: z.enum(['approve', 'reject']),
+  time_entry_ids: z.array(z.number().int().positive()).max(200).optional(),
+  planning_entry_ids: z.array(z.number().int().positive()).max(200).optional(),
+  comments: z.string().max(1000).optional(),
+  rejection_reason: z.string().max(1000).optional(),
+  overtime_compensation: z.enum(['pay', 'rest']).optional(), // Defaults to the overtime policy
+}).refine(data => new Date(`${data.week_start}T00:00:00Z`).getUTCDay() === 1, {
+  message: "Week start must be a Monday",
+  path: ["week_start"],
+}).refine(data => data.action !== 'reject' || !!data.rejection_reason?.trim(), {
+  message: "A rejection reason is required",
+  path: ["rejection_reason"],
+});
+
+export type ValidationQueryParams = z.infer<typeof validationQuerySchema>;
+export type DecideValidation = z.infer<typeof decideValidationSchema>;
+
+// ============================================================================
+// APPROVAL CHAINS (Circuits de validation multi-niveaux)
+// ============================================================================
+// A chain lists the successive approvers of a time sheet or leave request: the
+// direct manager first, then optionally a department head or HR. The request is
+// locked once the last step approves. A department chain overrides the default one.
+export const approvalChains = pgTable("approval_chains", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  subject_type: text("subject_type", {
+    enum: ['time_sheet', 'leave_request']
+  }).notNull(),
+  department_id: integer("department_id").references(() => departments.id, { onDelete: "cascade" }), // null = default chain
+  escalation_days: integer("escalation_days"), // Escalate to the approver's manager after N days without action
+  is_active: boolean("is_active").notNull().default(true),
+  created_at: timestamp("created_at").defaultNow().notNull(),
+  updated_at: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => ({
+  subjectDepartmentIdx: index("approval_chains_subject_department_idx").on(table.subject_type, table.department_id),
+}));
+
+export const approvalChainSteps = pgTable("approval_chain_steps", {
+  id: serial("id").primaryKey(),
+  chain_id: integer("chain_id").references(() => approvalChains.id, { onDelete: "cascade" }).notNull(),
+  step_order: integer("step_order").notNull(), // 1-based
+  approver_type: text("approver_type", {
+    enum: ['direct_manager', 'department_head', 'hr']
+  }).notNull(),
+  approver_id: integer("approver_id").references(() => employees.id, { onDelete: "set null" }), // Required unless direct_manager
+  escalation_days: integer("escalation_days"), // Overrides the chain setting for this step
+}, (table) => ({
+  chainIdx: index("approval_chain_steps_chain_idx").on(table.chain_id),
+}));
+
+// Approvals assigned to the delegator are handled by the delegate during the period
+export const approvalDelegations = pgTable("approval_delegations", {
+  id: serial("id").primaryKey(),
+  delegator_id: integer("delegator_id").references(() => employees.id, { onDelete: "cascade" }).notNull(),
+  delegate_id: integer("delegate_id").references(() => employees.id, { onDelete: "cascade" }).notNull(),
+  start_date: date("start_date").notNull(),
+  end_date: date("end_date").notNull(),
+  reason: text("reason"),
+  created_at: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  delegatorDatesIdx: index("approval_delegations_delegator_dates_idx").on(table.delegator_id, table.start_date, table.end_date),
+}));
+
+// One approval per subject (leave request id or weekly validation id)
+export const approvalRequests = pgTable("approval_requests", {
+  id: serial("id").primaryKey(),
+  subject_type: text("subject_type", {
+    enum: ['time_sheet', 'leave_request']
+  }).notNull(),
+  subject_id: integer("subject_id").notNull(),
+  employee_id: integer("employee_id").references(() => employees.id, { onDelete: "cascade" }).notNull(),
+  chain_id: integer("chain_id").references(() => approvalChains.id, { onDelete: "set null" }), // null = direct manager only
+  current_step: integer("current_step").notNull().default(1),
+  current_approver_id: integer("current_approver_id").references(() => employees.id, { onDelete: "set null" }), // null = admins
+  status: text("status", {
+    enum: ['pending', 'approved', 'rejected', 'cancelled'] // cancelled = subject withdrawn by its employee
+  }).notNull().default('pending'),
+  assigned_at: timestamp("assigned_at").defaultNow().notNull(),
+  locked_at: timestamp("locked_at"),
+  created_at: timestamp("created_at").defaultNow().notNull(),
+  updated_at: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => ({
+  subjectIdx: index("approval_requests_subject_idx").on(table.subject_type, table.subject_id),
+  // At most one pending chain per subject, even when two decisions start it at once
+  pendingSubjectIdx: uniqueIndex("approval_requests_pending_subject_idx")
+    .on(table.subject_type, table.subject_id)
+    .where(sql`${table.status} = 'pending'`),
+  approverStatusIdx: index("approval_requests_approver_status_idx").on(table.current_approver_id, table.status),
+}));
+
+// Step history: who acted (possibly on behalf of the assigned approver) and when
+export const approvalSteps = pgTable("approval_steps", {
+  id: serial("id").primaryKey(),
+  request_id: integer("request_id").references(() => approvalRequests.id, { onDelete: "cascade" }).notNull(),
+  step_order: integer("step_order").notNull(),
+  approver_id: integer("approver_id").references(() => employees.id, { onDelete: "set null" }), // Assigned approver
+  acted_by: integer("acted_by").references(() => employees.id, { onDelete: "set null" }), // null = system (escalation)
+  action: text("action", {
+    enum: ['approved', 'rejected', 'escalated', 'cancelled']
+  }).notNull(),
+  comment: text("comment"),
+  acted_at: timestamp("acted_at").defaultNow().notNull(),
+}, (table) => ({
+  requestIdx: index("approval_steps_request_idx").on(table.request_id),
+}));
+
+export const approvalChainsRelations = relations(approvalChains, ({ one, many }) => ({
+  department: one(departments, {
+    fields: [approvalChains.department_id],
+    references: [departments.id],
+  }),
+  steps: many(approvalChainSteps),
+}));
+
+export const approvalChainStepsRelations = relations(approvalChainSteps, ({ one }) => ({
+  chain: one(approvalChains, {
+    fields: [approvalChainSteps.chain_id],
+    references: [approvalChains.id],
+  }),
+  approver: one(employees, {
+    fields: [approvalChainSteps.approver_id],
+    references: [employees.id],
+  }),
+}));
+
+export const approvalRequestsRelations = relations(approvalRequests, ({ one, many }) => ({
+  employee: one(employees, {
+    fields: [approvalRequests.employee_id],
+    references: [employees.id],
+  }),
+  chain: one(approvalChains, {
+    fields: [approvalRequests.chain_id],
+    references: [approvalChains.id],
+  }),
+  steps: many(approvalSteps),
+}));
+
+export const approvalStepsRelations = relations(approvalSteps, ({ one }) => ({
+  request: one(approvalRequests, {
+    fields: [approvalSteps.request_id],
+    references: [approvalRequests.id],
+  }),
+}));
+
+// Approval chains API schemas
+export const approvalChainStepSchema = z.object({
+  approver_type: z.enum(['direct_manager', 'department_head', 'hr']),
+  approver_id: z.number().int().positive().nullable().optional(),
+  escalation_days: z.number().int().min(1).max(60).nullable().optional(),
+}).refine(data => data.approver_type === 'direct_manager' || !!data.approver_id, {
+  message: "An approver is required for department head and HR steps",
+  path: ["approver_id"],
+});
+
+export const createApprovalChainSchema = z.object({
+  name: z.string().min(1, "Name is required").max(100),
+  subject_type: z.enum(['time_sheet', 'leave_request']),
+  department_id: z.number().int().positive().nullable().optional(),
+  escalation_days: z.number().int().min(1).max(60).nullable().optional(),
+  is_active: z.boolean().default(true),
+  steps: z.array(approvalChainStepSchema).min(1, "At least one step is required").max(5),
+});
+
+export const updateApprovalChainSchema = createApprovalChainSchema;
+
+export const createApprovalDelegationSchema = z.object({
+  delegator_id: z.number().int().positive().optional(), // Admin only, defaults to the current user
+  delegate_id: z.number().int().positive(),
+  start_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Start date must be in YYYY-MM-DD format"),
+  end_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "End date must be in YYYY-MM-DD format"),
+  reason: z.string().max(500).optional(),
+}).refine(data => data.end_date >= data.start_date, {
+  message: "End date must be after or equal to start date",
+  path: ["end_date"],
+}).refine(data => data.delegator_id !== data.delegate_id, {
+  message: "An approver cannot delegate to themselves",
+  path: ["delegate_id"],
+});
+
+export type ApprovalChain = typeof approvalChains.$inferSelect;
+export type ApprovalChainStep = typeof approvalChainSteps.$inferSelect;
+export type ApprovalDelegation = typeof approvalDelegations.$inferSelect;
+export type ApprovalRequest = typeof approvalRequests.$inferSelect;
+export type ApprovalStep = typeof approvalSteps.$inferSelect;
+export type ApprovalSubjectType = ApprovalRequest['subject_type'];
+export type CreateApprovalChain = z.infer<typeof createApprovalChainSchema>;
+export type CreateApprovalDelegation = z.infer<typeof createApprovalDelegationSchema>;
+export type ApprovalChainWithSteps = ApprovalChain & { steps: ApprovalChainStep[] };
+export type ApprovalRequestWithSteps = ApprovalRequest & { steps: ApprovalStep[]; is_final_step: boolean };
+
+// ============================================================================
+// PAY PERIOD CLOSURES (Clôture de paie)
+// ============================================================================
+// Time and planning entries dated on or before the latest `closed_through` are
+// frozen. Closures are append-only: a period is never reopened, later changes go
+// through time adjustments that reference the original entry.
+export const payPeriodClosures = pgTable("pay_period_closures", {
+  id: serial("id").primaryKey(),
+  closed_through: date("closed_through").notNull(), // Last frozen day (inclusive)
+  comment: text("comment"),
+  closed_by: integer("closed_by").references(() => users.id).notNull(),
+  created_at: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  closedThroughIdx: index("pay_period_closures_closed_through_idx").on(table.closed_through),
+}));
+
+// Correction of a frozen entry, accounted for by payroll on `effective_date`
+export const timeAdjustments = pgTable("time_adjustments", {
+  id: serial("id").primaryKey(),
+  subject_type: text("subject_type", { enum: ['time_entry', 'planning_entry'] }).notNull(),
+  subject_id: integer("subject_id").notNull(), // Original entry, left untouched
+  employee_id: integer("employee_id").references(() => employees.id, { onDelete: "cascade" }).notNull(),
+  entry_date: date("entry_date").notNull(), // Date of the original entry
+  action: text("action", { enum: ['correction', 'cancellation'] }).notNull(),
+  start_time: time("start_time"), // Corrected values, null for a cancellation
+  end_time: time("end_time"),
+  break_duration: integer("break_duration"),
+  hours_delta: decimal("hours_delta", { precision: 6, scale: 2 }).notNull(), // Corrected minus previous hours
+  effective_date: date("effective_date").notNull(), // First open day when the adjustment was made
+  reason: text("reason").notNull(),
+  created_by: integer("created_by").references(() => users.id).notNull(),
+  created_at: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  subjectIdx: index("time_adjustments_subject_idx").on(table.subject_type, table.subject_id),
+  employeeEffectiveIdx: index("time_adjustments_employee_effective_idx").on(table.employee_id, table.effective_date),
+}));
+
+export const timeAdjustmentsRelations = relations(timeAdjustments, ({ one }) => ({
+  employee: one(employees, {
+    fields: [timeAdjustments.employee_id],
+    references: [employees.id],
+  }),
+}));
+
+// Pay period API schemas
+export const closePayPeriodSchema = z.object({
+  closed_through: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Closing date must be in YYYY-MM-DD format"),
+  comment: z.string().max(500).optional(),
+});
+
+export const createTimeAdjustmentSchema = z.object({
+  subject_type: z.enum(['time_entry', 'planning_entry']),
+  subject_id: z.number().int().positive(),
+  action: z.enum(['correction', 'cancellation']),
+  start_time: z.string().regex(/^\d{2}:\d{2}$/, "Start time must be in HH:MM format").optional(),
+  end_time: z.string().regex(/^\d{2}:\d{2}$/, "End time must be in HH:MM format").optional(),
+  break_duration: z.number().int().min(0).max(480).optional(),
+  reason: z.string().min(1, "A justification is required").max(500),
+}).refine(data => data.action === 'cancellation' || (!!data.start_time && !!data.end_time), {
+  message: "Start and end times are required for a correction",
+  path: ["start_time"],
+});
+
+export const timeAdjustmentQuerySchema = z.object({
+  employee_id: z.string().transform(val => parseInt(val)).pipe(z.number().int().positive()).optional(),
+  start_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+  end_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+});
+
+export type PayPeriodClosure = typeof payPeriodClosures.$inferSelect;
+export type TimeAdjustment = typeof timeAdjustments.$inferSelect;
+export type TimeAdjustmentSubjectType = TimeAdjustment['subject_type'];
+export type CreateTimeAdjustment = z.infer<typeof createTimeAdjustmentSchema>;
+
+// ============================================================================
+// PAYROLL EXPORT (Variables de paie)
+// ============================================================================
+// Variables computed per employee and pay period. Each one is mapped to a rubric
+// code of the payroll software; unmapped variables are exported under their own code.
+export const PAYROLL_VARIABLES = [
+  'regular_hours',
+  'overtime_tier_1',
+  'overtime_tier_2',
+  'overtime_tier_3',
+  'overtime_tier_4',
+  'overtime_tier_5',
+  'compensatory_rest_hours',
+  'night_hours',
+  'sunday_hours',
+  'adjustment_hours',
+  'absence_vacation',
+  'absence_rtt',
+  'absence_compensatory_rest',
+  'absence_sick_leave',
+  'absence_unpaid_leave',
+  'meal_vouchers',
+] as const;
+
+export const PAYROLL_EXPORT_FORMATS = ['csv', 'fixed_width', 'dsn'] as const;
+
+export const payrollExportConfigSchema = z.object({
+  rubrics: z.record(
+    z.enum(PAYROLL_VARIABLES),
+    z.string().regex(/^[A-Za-z0-9_.-]{1,20}$/, "Rubric codes must be 1-20 alphanumeric characters")
+  ).default({}),
+  excluded_variables: z.array(z.enum(PAYROLL_VARIABLES)).default([]),
+  csv: z.object({
+    separator: z.enum([';', ',', '\t']).default(';'),
+    decimal_separator: z.enum([',', '.']).default(','),
+  }).default({}),
+  // Column widths of the fixed-width layout, in characters
+  fixed_width: z.object({
+    employee_number: z.number().int().min(4).max(20).default(10),
+    rubric: z.number().int().min(4).max(20).default(10),
+    quantity: z.number().int().min(6).max(15).default(10),
+    amount: z.number().int().min(6).max(15).default(12),
+  }).default({}),
+  // One meal voucher per day worked at least this many hours
+  meal_voucher_min_hours: z.number().min(0).max(12).default(6),
+});
+
+export const payrollExportQuerySchema = z.object({
+  month: z.string().regex(/^\d{4}-\d{2}$/, "Month must be in YYYY-MM format"),
+  format: z.enum(PAYROLL_EXPORT_FORMATS).default('csv'),
+  employee_ids: z.string()
+    .transform(val => val.split(',').map(id => parseInt(id)))
+    .pipe(z.array(z.number().int().positive()).min(1))
+    .optional(),
+  department_id: z.string().transform(val => parseInt(val)).pipe(z.number().int().positive()).optional(),
+  preview: z.enum(['true', 'false']).transform(val => val === 'true').optional(),
+});
+
+export type PayrollVariable = typeof PAYROLL_VARIABLES[number];
+export type PayrollExportFormat = typeof PAYROLL_EXPORT_FORMATS[number];
+export type PayrollExportConfig = z.infer<typeof payrollExportConfigSchema>;
+export type PayrollExportQuery = z.infer<typeof payrollExportQuerySchema>;
+
+export const PAYROLL_EXPORT_SETTING_KEY = 'payroll_export';
+
+// ============================================================================
+// TIME CLOCK (Pointage)
+// ============================================================================
+// Every punch is logged; the idempotency key lets offline replays of the same
+// punch return the original result instead of punching twice.
+export const timeClockEvents = pgTable("time_clock_events", {
+  id: serial("id").primaryKey(),
+  employee_id: integer("employee_id").references(() => employees.id, { onDelete: "cascade" }).notNull(),
+  time_entry_id: integer("time_entry_id").references(() => timeEntries.id, { onDelete: "cascade" }).notNull(),
+  action: text("action", { enum: ['clock_in', 'break_start', 'break_end', 'clock_out'] }).notNull(),
+  idempotency_key: text("idempotency_key"),
+  device_id: text("device_id"), // Set for punches replayed by offline sync
+  kiosk_id: integer("kiosk_id").references(() => kioskDevices.id, { onDelete: "set null" }), // Set for punches made on a shared terminal
+  occurred_at: timestamp("occurred_at").notNull(), // Server time, or client time for offline punches
+  received_at: timestamp("received_at").defaultNow().notNull(), // When the server got the punch
+  location_latitude: decimal("location_latitude", { precision: 10, scale: 8 }),
+  location_longitude: decimal("location_longitude", { precision: 11, scale: 8 }),
+  created_at: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  idempotencyIdx: uniqueIndex("time_clock_events_idempotency_idx").on(table.employee_id, table.idempotency_key),
+  entryIdx: index("time_clock_events_entry_idx").on(table.time_entry_id),
+}));
+
+export const timeClockEventsRelations = relations(timeClockEvents, ({ one }) => ({
+  employee: one(employees, {
+    fields: [timeClockEvents.employee_id],
+    references: [employees.id],
+  }),
+  timeEntry: one(timeEntries, {
+    fields: [timeClockEvents.time_entry_id],
+    references: [timeEntries.id],
+  }),
+}));
+
+// Time clock API schemas
+export const clockEventSchema = z.object({
+  idempotency_key: z.string().min(8).max(100).optional(), // Also accepted as an Idempotency-Key header
+  location: z.object({
+    latitude: z.number().min(-90).max(90),
+    longitude: z.number().min(-180).max(180),
+    address: z.string().max(300).optional(),
+  }).optional(),
+  project_id: z.number().int().positive().optional(), // Clock-in only
+  notes: z.string().max(500).optional(),
+});
+
+export type TimeClockEvent = typeof timeClockEvents.$inferSelect;
+export type ClockAction = TimeClockEvent['action'];
+export type ClockEventInput = z.infer<typeof clockEventSchema>;
+
+// ============================================================================
+// OFFLINE SYNC (Synchronisation hors ligne)
+// ============================================================================
+// Mutations queued offline are replayed in order through a batch endpoint. Each
+// applied mutation is recorded under its client id so that a replayed batch does
+// not apply it twice.
+export const syncMutations = pgTable("sync_mutations", {
+  id: serial("id").primaryKey(),
+  employee_id: integer("employee_id").references(() => employees.id, { onDelete: "cascade" }).notNull(),
+  client_id: text("client_id").notNull(),
+  device_id: text("device_id").notNull(),
+  type: text("type", {
+    enum: ['clock_in', 'break_start', 'break_end', 'clock_out', 'time_entry_create', 'time_entry_update', 'time_entry_delete']
+  }).notNull(),
+  entry_id: integer("entry_id"), // No foreign key: deleted entries keep their history
+  client_timestamp: timestamp("client_timestamp").notNull(),
+  applied_at: timestamp("applied_at").defaultNow().notNull(),
+}, (table) => ({
+  clientIdx: uniqueIndex("sync_mutations_client_idx").on(table.employee_id, table.client_id),
+}));
+
+const syncMutationBaseSchema = z.object({
+  client_id: z.string().min(8).max(100),
+  client_timestamp: z.string().datetime({ offset: true }),
+  // User signed in when the mutation was queued; a shared device may replay
+  // another user's queue
+  user_id: z.number().int().positive().optional(),
+});
+
+export const syncMutationSchema = z.discriminatedUnion('type', [
+  syncMutationBaseSchema.extend({
+    type: z.enum(['clock_in', 'break_start', 'break_end', 'clock_out']),
+    data: clockEventSchema.omit({ idempotency_key: true }).default({}),
+  }),
+  syncMutationBaseSchema.extend({
+    type: z.literal('time_entry_create'),
+    data: createTimeEntrySchema.omit({ employee_id: true }),
+  }),
+  syncMutationBaseSchema.extend({
+    type: z.literal('time_entry_update'),
+    entry_id: z.number().int().positive(),
+    base_version: z.number().int().positive(),
+    data: updateTimeEntrySchema,
+  }),
+  syncMutationBaseSchema.extend({
+    type: z.literal('time_entry_delete'),
+    entry_id: z.number().int().positive(),
+    base_version: z.number().int().positive(),
+  }),
+]);
+
+export const syncBatchSchema = z.object({
+  device_id: z.string().min(8).max(100),
+  mutations: z.array(syncMutationSchema).min(1).max(100),
+});
+
+export type SyncMutation = z.infer<typeof syncMutationSchema>;
+export type SyncMutationType = SyncMutation['type'];
+export type SyncBatch = z.infer<typeof syncBatchSchema>;
+
+// ============================================================================
+// WORK SITES (Sites de travail et géorepérage)
+// ============================================================================
+// A site is a circle (centre + radius) or a polygon, attached to a department or
+// a project. Clock-in positions are checked against the sites that apply to the
+// employee's department and to the punched project; the policy decides whether
+// an out-of-zone punch is blocked, accepted with a warning, or flagged for review.
+export const workSites = pgTable("work_sites", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  address: text("address"),
+  department_id: integer("department_id").references(() => departments.id, { onDelete: "cascade" }),
+  project_id: integer("project_id").references(() => projects.id, { onDelete: "cascade" }),
+  shape: text("shape", { enum: ['circle', 'polygon'] }).notNull(),
+  center_latitude: decimal("center_latitude", { precision: 10, scale: 8 }),
+  center_longitude: decimal("center_longitude", { precision: 11, scale: 8 }),
+  radius_meters: integer("radius_meters"),
+  polygon: jsonb("polygon").$type<Array<{ latitude: number; longitude: number }>>(),
+  is_active: boolean("is_active").notNull().default(true),
+  created_by: integer("created_by").references(() => users.id),
+  created_at: timestamp("created_at").defaultNow().notNull(),
+  updated_at: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => ({
+  departmentIdx: index("work_sites_department_idx").on(table.department_id),
+  projectIdx: index("work_sites_project_idx").on(table.project_id),
+}));
+
+export const workSitesRelations = relations(workSites, ({ one }) => ({
+  department: one(departments, {
+    fields: [workSites.department_id],
+    references: [departments.id],
+  }),
+  project: one(projects, {
+    fields: [workSites.project_id],
+    references: [projects.id],
+  }),
+  creator: one(users, {
+    fields: [workSites.created_by],
+    references: [users.id],
+  }),
+}));
+
+// Work sites API schemas
+const geoPointSchema = z.object({
+  latitude: z.number().min(-90).max(90),
+  longitude: z.number().min(-180).max(180),
+});
+
+export const createWorkSiteSchema = z.object({
+  name: z.string().min(1, "Name is required").max(100),
+  address: z.string().max(300).nullable().optional(),
+  department_id: z.number().int().positive().nullable().optional(),
+  project_id: z.number().int().positive().nullable().optional(),
+  shape: z.enum(['circle', 'polygon']),
+  center: geoPointSchema.optional(),
+  radius_meters: z.number().int().min(10).max(50000).optional(),
+  polygon: z.array(geoPointSchema).min(3).max(100).optional(),
+  is_active: z.boolean().default(true),
+}).refine(data => data.department_id || data.project_id, {
+  message: "A work site must be attached to a department or a project",
+  path: ["department_id"],
+}).refine(data => data.shape !== 'circle' || (data.center && data.radius_meters), {
+  message: "A circular site requires a centre and a radius",
+  path: ["radius_meters"],
+}).refine(data => data.shape !== 'polygon' || data.polygon, {
+  message: "A polygonal site requires at least three points",
+  path: ["polygon"],
+});
+
+export const updateWorkSiteSchema = createWorkSiteSchema;
+
+// Applied to clock-ins outside every applicable site (beyond the tolerance)
+export const geofencePolicySchema = z.object({
+  mode: z.enum(['block', 'warn', 'flag']).default('warn'), // flag = accepted, manager notified for review
+  tolerance_meters: z.number().int().min(0).max(5000).default(50), // GPS accuracy margin
+  require_location: z.boolean().default(false), // Treat punches without a position as out of zone
+});
+
+export const insertWorkSiteSchema = createInsertSchema(workSites).omit({
+  id: true,
+  created_at: true,
+  updated_at: true,
+});
+
+export type WorkSite = typeof workSites.$inferSelect;
+export type InsertWorkSite = z.infer<typeof insertWorkSiteSchema>;
+export type CreateWorkSite = z.infer<typeof createWorkSiteSchema>;
+export type GeofencePolicy = z.infer<typeof geofencePolicySchema>;
+export type GeofenceStatus = NonNullable<TimeEntry['geofence_status']>;
+export type PunchReviewReason = NonNullable<TimeEntry['review_reason']>;
+
+export const GEOFENCE_SETTING_KEY = 'geofence_policy';
+
+// ============================================================================
+// KIOSK (Bornes de pointage partagées)
+// ============================================================================
+// A shared tablet authenticates with a device token instead of a user JWT. The
+// token is shown once when the kiosk is registered; only its SHA-256 hash is
+// stored. Employees identify on the kiosk with their employee number and PIN,
+// or by scanning their badge or QR code.
+export const kioskDevices = pgTable("kiosk_devices", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  token_hash: text("token_hash").notNull().unique(),
+  department_id: integer("department_id").references(() => departments.id, { onDelete: "set null" }),
+  work_site_id: integer("work_site_id").references(() => workSites.id, { onDelete: "set null" }),
+  is_active: boolean("is_active").notNull().default(true),
+  last_seen_at: timestamp("last_seen_at"),
+  created_by: integer("created_by").references(() => users.id),
+  created_at: timestamp("created_at").defaultNow().notNull(),
+  updated_at: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const kioskDevicesRelations = relations(kioskDevices, ({ one }) => ({
+  department: one(departments, {
+    fields: [kioskDevices.department_id],
+    references: [departments.id],
+  }),
+  workSite: one(workSites, {
+    fields: [kioskDevices.work_site_id],
+    references: [workSites.id],
+  }),
+  creator: one(users, {
+    fields: [kioskDevices.created_by],
+    references: [users.id],
+  }),
+}));
+
+// Kiosk API schemas
+export const createKioskDeviceSchema = z.object({
+  name: z.string().min(1, "Name is required").max(100),
+  department_id: z.number().int().positive().nullable().optional(),
+  work_site_id: z.number().int().positive().nullable().optional(),
+  is_active: z.boolean().default(true),
+});
+
+export const updateKioskDeviceSchema = createKioskDeviceSchema.partial();
+
+export const kioskCredentialsSchema = z.object({
+  pin: z.string().regex(/^\d{4,8}$/, "PIN must be 4 to 8 digits").nullable().optional(), // null removes the PIN
+  badge_code: z.string().min(4).max(100).nullable().optional(),
+});
+
+// Either employee number + PIN, or a scanned badge
+export const kioskIdentifySchema = z.union([
+  z.object({
+    employee_number: z.string().min(1).max(50),
+    pin: z.string().regex(/^\d{4,8}$/),
+  }),
+  z.object({
+    badge_code: z.string().min(4).max(100),
+  }),
+]);
+
+// The offline buffer never keeps PINs: a replayed punch only carries the
+// employee number, and is recorded pending the manager's confirmation
+export const kioskPunchSchema = z.object({
+  credentials: z.union([
+    kioskIdentifySchema,
+    z.object({ employee_number: z.string().min(1).max(50) }),
+  ]),
+  action: z.enum(['clock_in', 'break_start', 'break_end', 'clock_out']),
+  idempotency_key: z.string().min(8).max(100),
+  occurred_at: z.string().datetime({ offset: true }).optional(), // Set when replayed from the kiosk's offline buffer
+}).refine(
+  punch => !!punch.occurred_at || !('employee_number' in punch.credentials) || 'pin' in punch.credentials,
+  { message: "PIN is required for live punches", path: ['credentials', 'pin'] }
+);
+
+export const insertKioskDeviceSchema = createInsertSchema(kioskDevices).omit({
+  id: true,
+  created_at: true,
+  updated_at: true,
+});
+
+export type KioskDevice = typeof kioskDevices.$inferSelect;
+export type InsertKioskDevice = z.infer<typeof insertKioskDeviceSchema>;
+export type CreateKioskDevice = z.infer<typeof createKioskDeviceSchema>;
+export type KioskCredentials = z.infer<typeof kioskCredentialsSchema>;
+export type KioskIdentify = z.infer<typeof kioskIdentifySchema>;
+export type KioskPunchCredentials = z.infer<typeof kioskPunchSchema>['credentials'];
+export type KioskPunch = z.infer<typeof kioskPunchSchema>;
+
+// ============================================================================
+// NOTIFICATION PREFERENCES (Préférences de notification)
+// ============================================================================
+// Stored per user in the settings table. Channels are chosen per notification
+// type; types the user never changed fall back to the defaults. During quiet
+// hours only urgent notifications go out by email or push, the others are
+// still delivered in the app. Users who chose a digest only get urgent
+// notifications by email right away; the rest is summarized in the digest.
+export const NOTIFICATION_TYPES = notificationTypeEnum.enumValues;
+
+export const notificationChannelsSchema = z.object({
+  in_app: z.boolean(),
+  email: z.boolean(),
+  push: z.boolean(),
+});
+
+function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Zero-padded so that times compare as strings
+const quietHourSchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Time must be in HH:MM format");
+
+export const notificationPreferencesSchema = z.object({
+  types: z.record(z.enum(NOTIFICATION_TYPES), notificationChannelsSchema.partial()).default({}),
+  quiet_hours: z.object({
+    start: quietHourSchema,
+    end: quietHourSchema, // May be earlier than start for overnight ranges
+  }).nullable().default(null),
+  digest_frequency: z.enum(['none', 'daily', 'weekly']).default('none'),
+  language: z.enum(['fr', 'en']).default('fr'), // Email language
+  // IANA time zone for quiet hours and digests; null uses the company time zone
+  timezone: z.string().refine(isValidTimeZone, "Unknown time zone").nullable().default(null),
+});
+
+// Partial update: only the given types are changed
+export const updateNotificationPreferencesSchema = notificationPreferencesSchema.partial();
+
+export type NotificationType = Notification['type'];
+export type NotificationPriority = Notification['priority'];
+export type NotificationChannels = z.infer<typeof notificationChannelsSchema>;
+export type NotificationPreferences = z.infer<typeof notificationPreferencesSchema>;
+export type UpdateNotificationPreferences = z.infer<typeof updateNotificationPreferencesSchema>;
+
+export const NOTIFICATION_PREFERENCES_SETTING_KEY = 'notification_preferences';
+
+// ============================================================================
+// EMAIL DELIVERIES (Envois d'emails)
+// ============================================================================
+// Persistent queue of notification emails. The content is rendered when the
+// email is queued, so retries send exactly the same message. Temporary SMTP
+// failures are retried with a growing delay; permanent failures and bounces
+// reported by the mail provider stop delivery to that address.
+export const emailDeliveries = pgTable("email_deliveries", {
+  id: serial("id").primaryKey(),
+  user_id: integer("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  notification_id: integer("notification_id").references(() => notifications.id, { onDelete: "set null" }),
+  to_address: text("to_address").notNull(),
+  subject: text("subject").notNull(),
+  html: text("html").notNull(),
+  text: text("text").notNull(),
+  status: text("status", { enum: ['pending', 'sending', 'sent', 'failed', 'bounced'] }).notNull().default('pending'),
+  attempts: integer("attempts").notNull().default(0),
+  next_attempt_at: timestamp("next_attempt_at").defaultNow().notNull(),
+  last_error: text("last_error"),
+  message_id: text("message_id"), // SMTP Message-ID, used to match bounce reports
+  sent_at: timestamp("sent_at"),
+  bounced_at: timestamp("bounced_at"),
+  created_at: timestamp("created_at").defaultNow().notNull(),
+  updated_at: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => ({
+  dueIdx: index("email_deliveries_due_idx").on(table.status, table.next_attempt_at),
+  addressIdx: index("email_deliveries_address_idx").on(table.to_address),
+  messageIdx: index("email_deliveries_message_idx").on(table.message_id),
+}));
+
+export const emailDeliveriesRelations = relations(emailDeliveries, ({ one }) => ({
+  user: one(users, {
+    fields: [emailDeliveries.user_id],
+    references: [users.id],
+  }),
+  notification: one(notifications, {
+    fields: [emailDeliveries.notification_id],
+    references: [notifications.id],
+  }),
+}));
+
+// Email API schemas
+export const emailDeliveryQuerySchema = z.object({
+  status: z.enum(['pending', 'sending', 'sent', 'failed', 'bounced']).optional(),
+  page: z.string().transform(val => parseInt(val) || 1).pipe(z.number().int().min(1)).default('1'),
+  limit: z.string().transform(val => parseInt(val) || 50).pipe(z.number().int().min(1).max(200)).default('50'),
+});
+
+// Bounce report posted by the mail provider, matched on Message-ID or address
+export const emailBounceSchema = z.object({
+  message_id: z.string().min(1).optional(),
+  email: z.string().email().optional(),
+  reason: z.string().max(1000).optional(),
+}).refine(data => data.message_id || data.email, {
+  message: "A message_id or an email is required",
+  path: ["message_id"],
+});
+
+export const insertEmailDeliverySchema = createInsertSchema(emailDeliveries).omit({
+  id: true,
+  created_at: true,
+  updated_at: true,
+});
+
+export type EmailDelivery = typeof emailDeliveries.$inferSelect;
+export type InsertEmailDelivery = z.infer<typeof insertEmailDeliverySchema>;
+export type EmailDeliveryStatus = EmailDelivery['status'];
+export type EmailBounce = z.infer<typeof emailBounceSchema>;
+
+// ============================================================================
+// NOTIFICATION DIGESTS (Récapitulatifs de notifications)
+// ============================================================================
+// One row per user and period (local date of the day, or of the Monday for
+// weekly digests). The unique key makes sending a digest idempotent; the
+// notifications it summarizes are marked with digested_at.
+export const notificationDigests = pgTable("notification_digests", {
+  id: serial("id").primaryKey(),
+  user_id: integer("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  frequency: text("frequency", { enum: ['daily', 'weekly'] }).notNull(),
+  period_key: date("period_key").notNull(),
+  notification_count: integer("notification_count").notNull().default(0),
+  notification_id: integer("notification_id").references(() => notifications.id, { onDelete: "set null" }), // In-app summary
+  sent_at: timestamp("sent_at").defaultNow().notNull(),
+}, (table) => ({
+  periodIdx: uniqueIndex("notification_digests_period_idx").on(table.user_id, table.frequency, table.period_key),
+}));
+
+export const notificationDigestsRelations = relations(notificationDigests, ({ one }) => ({
+  user: one(users, {
+    fields: [notificationDigests.user_id],
+    references: [users.id],
+  }),
+  notification: one(notifications, {
+    fields: [notificationDigests.notification_id],
+    references: [notifications.id],
+  }),
+}));
+
+export type NotificationDigest = typeof notificationDigests.$inferSelect;
+export type DigestFrequency = NotificationDigest['frequency'];
+
+// ============================================================================
+// JOB RUNS (Exécutions des tâches planifiées)
+// ============================================================================
+// Run history of the background jobs. A scheduled run is keyed by the cron
+// tick it belongs to: when several app instances reach the same tick, only
+// the one that inserts the row runs the job.
+export const jobRuns = pgTable("job_runs", {
+  id: serial("id").primaryKey(),
+  job_name: text("job_name").notNull(),
+  scheduled_for: timestamp("scheduled_for").notNull(), // Cron tick, or request time for manual runs
+  trigger: text("trigger", { enum: ['schedule', 'manual'] }).notNull().default('schedule'),
+  status: text("status", { enum: ['running', 'succeeded', 'failed'] }).notNull().default('running'),
+  instance_id: text("instance_id"), // Host and process that ran the job
+  result: jsonb("result").$type<Record<string, unknown>>(),
+  error: text("error"),
+  started_at: timestamp("started_at").defaultNow().notNull(),
+  finished_at: timestamp("finished_at"),
+  duration_ms: integer("duration_ms"),
+}, (table) => ({
+  tickIdx: uniqueIndex("job_runs_tick_idx").on(table.job_name, table.scheduled_for),
+  startedIdx: index("job_runs_started_idx").on(table.job_name, table.started_at),
+}));
+
+export const jobRunQuerySchema = z.object({
+  limit: z.string().transform(val => parseInt(val) || 20).pipe(z.number().int().min(1).max(100)).default('20'),
+});
+
+export type JobRun = typeof jobRuns.$inferSelect;
+export type JobRunTrigger = JobRun['trigger'];
+
+// ============================================================================
+// PUSH SUBSCRIPTIONS (Abonnements Web Push)
+// ============================================================================
+// One row per browser or device that accepted push notifications. The
+// endpoint is issued by the browser's push service and identifies the device;
+// it is removed once the push service reports it as expired.
+export const pushSubscriptions = pgTable("push_subscriptions", {
+  id: serial("id").primaryKey(),
+  user_id: integer("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  endpoint: text("endpoint").notNull().unique(),
+  p256dh: text("p256dh").notNull(), // Public key of the subscription, encrypts the payload
+  auth: text("auth").notNull(),
+  user_agent: text("user_agent"),
+  last_used_at: timestamp("last_used_at"),
+  created_at: timestamp("created_at").defaultNow().notNull(),
+  updated_at: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => ({
+  userIdx: index("push_subscriptions_user_idx").on(table.user_id),
+}));
+
+export const pushSubscriptionsRelations = relations(pushSubscriptions, ({ one }) => ({
+  user: one(users, {
+    fields: [pushSubscriptions.user_id],
+    references: [users.id],
+  }),
+}));
+
+// Push API schemas: the body is PushSubscription.toJSON() from the browser
+export const pushSubscriptionSchema = z.object({
+  endpoint: z.string().url().max(2000),
+  expirationTime: z.number().nullable().optional(),
+  keys: z.object({
+    p256dh: z.string().min(1).max(200),
+    auth: z.string().min(1).max(100),
+  }),
+});
+
+export const pushUnsubscribeSchema = z.object({
+  endpoint: z.string().url().max(2000),
+});
+
+export type PushSubscription = typeof pushSubscriptions.$inferSelect;
+export type CreatePushSubscription = z.infer<typeof pushSubscriptionSchema>;
+
+// ============================================================================
+// PLANNING BOARD (Planning collaboratif en temps réel)
+// ============================================================================
+// Socket.io events of the live planning board. Admins on the board receive
+// every planning change, employees the changes to their own entries; entries
+// use the same camelCase shape as GET /api/planning so clients can patch their
+// cached lists in place.
+export interface PlanningBoardEntry {
+  id: number;
+  employeeId: number;
+  date: string;
+  type: PlanningEntry['type'];
+  startTime: string | null;
+  endTime: string | null;
+  status: PlanningEntry['status'];
+  comments: string | null;
+  version: number;
+  plannedHours: number;
+  updatedAt: string;
+  employeeFirstName?: string;
+  employeeLastName?: string;
+  employee?: { firstName: string; lastName: string };
+}
+
+export interface PlanningEntryChangedEvent {
+  entry: PlanningBoardEntry;
+  weekStart: string;
+  actorUserId: number | null;
+}
+
+export interface PlanningEntryDeletedEvent {
+  entryId: number;
+  employeeId: number;
+  date: string;
+  weekStart: string;
+  actorUserId: number | null;
+}
+
+// One per admin and week on the board; editingEntryId while an edit form is open
+export interface PlanningBoardViewer {
+  userId: number;
+  name: string;
+  weekStart: string;
+  editingEntryId: number | null;
+}
+
+export interface PlanningBoardServerEvents {
+  'planning:entry_created': (event: PlanningEntryChangedEvent) => void;
+  'planning:entry_updated': (event: PlanningEntryChangedEvent) => void;
+  'planning:entry_deleted': (event: PlanningEntryDeletedEvent) => void;
+  'planning:presence': (event: { viewers: PlanningBoardViewer[] }) => void;
+}
+
+export interface PlanningBoardClientEvents {
+  'planning:join_week': (weekStart: string) => void;
+  'planning:leave_week': () => void;
+  'planning:editing': (entryId: number | null) => void;
+}
+
+// ============================================================================
+// AUDIT LOG (Journal d'audit)
+// ============================================================================
+// Append-only record of every change made through the storage layer: who,
+// from where, and the record before and after. Rows are never updated or
+// deleted by the application.
+export const AUDIT_ENTITY_TYPES = [
+  'user', 'employee', 'department', 'planning_entry', 'time_entry', 'validation',
+  'leave_request', 'project', 'task', 'planning_template', 'work_site',
+  'kiosk_device', 'time_adjustment', 'pay_period_closure', 'approval_chain',
+  'approval_request', 'approval_delegation', 'leave_balance_movement', 'setting',
+  'coverage_requirement', 'planning_template_assignment', 'project_member',
+] as const;
+
+export const auditLogs = pgTable("audit_logs", {
+  id: serial("id").primaryKey(),
+  actor_user_id: integer("actor_user_id").references(() => users.id, { onDelete: "set null" }), // null for scheduled jobs
+  actor_role: text("actor_role"),
+  action: text("action", { enum: ['create', 'update', 'delete'] }).notNull(),
+  entity_type: text("entity_type", { enum: AUDIT_ENTITY_TYPES }).notNull(),
+  entity_id: integer("entity_id").notNull(),
+  operation: text("operation").notNull(), // Storage method that made the change, e.g. decideValidationWeek
+  changes: jsonb("changes").$type<Record<string, { before: unknown; after: unknown }>>().notNull(),
+  before: jsonb("before").$type<Record<string, unknown>>(),
+  after: jsonb("after").$type<Record<string, unknown>>(),
+  ip_address: text("ip_address"),
+  user_agent: text("user_agent"),
+  request_method: text("request_method"),
+  request_path: text("request_path"),
+  created_at: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  entityIdx: index("audit_logs_entity_idx").on(table.entity_type, table.entity_id),
+  actorIdx: index("audit_logs_actor_idx").on(table.actor_user_id),
+  createdIdx: index("audit_logs_created_idx").on(table.created_at),
+}));
+
+export const auditLogsRelations = relations(auditLogs, ({ one }) => ({
+  actor: one(users, {
+    fields: [auditLogs.actor_user_id],
+    references: [users.id],
+  }),
+}));
+
+// Audit API schemas
+export const auditLogQuerySchema = z.object({
+  entity_type: z.enum(AUDIT_ENTITY_TYPES).optional(),
+  entity_id: z.string().transform(val => parseInt(val)).pipe(z.number().int().positive()).optional(),
+  actor_user_id: z.string().transform(val => parseInt(val)).pipe(z.number().int().positive()).optional(),
+  action: z.enum(['create', 'update', 'delete']).optional(),
+  start_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Start date must be in YYYY-MM-DD format").optional(),
+  end_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "End date must be in YYYY-MM-DD format").optional(),
+  page: z.string().transform(val => parseInt(val) || 1).pipe(z.number().int().min(1)).default('1'),
+  limit: z.string().transform(val => parseInt(val) || 50).pipe(z.number().int().min(1).max(200)).default('50'),
+});
+
+export type AuditLog = typeof auditLogs.$inferSelect;
+export type InsertAuditLog = typeof auditLogs.$inferInsert;
+export type AuditEntityType = typeof AUDIT_ENTITY_TYPES[number];
+export type AuditAction = AuditLog['action'];
+export type AuditLogQuery = z.infer<typeof auditLogQuerySchema>;
+export type AuditLogWithActor = AuditLog & { actor_name: string | null };